@@ -0,0 +1,524 @@
+use std::collections::HashMap;
+use std::path::{Path, PathBuf};
+
+use rusqlite::functions::FunctionFlags;
+use rusqlite::types::ValueRef;
+use rusqlite::{params, Connection, OpenFlags};
+use tauri::AppHandle;
+use tauri_plugin_fs::FsExt;
+
+#[derive(serde::Serialize)]
+pub struct CalibreFormat {
+    pub format: String,
+    pub path: String,
+    pub size: i64,
+}
+
+#[derive(serde::Serialize)]
+#[serde(rename_all = "camelCase")]
+pub struct CalibreCustomColumn {
+    pub label: String,
+    pub name: String,
+    pub datatype: String,
+    pub is_multiple: bool,
+    pub value: serde_json::Value,
+}
+
+#[derive(serde::Serialize)]
+#[serde(rename_all = "camelCase")]
+pub struct CalibreBookRecord {
+    pub id: i64,
+    pub uuid: Option<String>,
+    pub title: String,
+    pub authors: Vec<String>,
+    pub series: Option<String>,
+    pub series_index: f64,
+    pub tags: Vec<String>,
+    pub rating: Option<i64>,
+    pub identifiers: HashMap<String, String>,
+    pub languages: Vec<String>,
+    pub publisher: Option<String>,
+    pub pubdate: Option<String>,
+    pub comments: Option<String>,
+    pub last_modified: String,
+    pub cover_path: Option<String>,
+    pub formats: Vec<CalibreFormat>,
+    pub custom_columns: HashMap<String, CalibreCustomColumn>,
+}
+
+#[derive(serde::Deserialize)]
+#[serde(rename_all = "camelCase")]
+pub struct CalibreBookChanges {
+    pub title: Option<String>,
+    pub authors: Option<Vec<String>>,
+    pub tags: Option<Vec<String>>,
+    // an empty series removes the book from its series
+    pub series: Option<String>,
+    pub series_index: Option<f64>,
+    // calibre ratings go from 0 to 10, 0 removes the rating
+    pub rating: Option<i64>,
+    pub publisher: Option<String>,
+    pub comments: Option<String>,
+}
+
+fn check_scope(app: &AppHandle, library_path: &str) -> Result<PathBuf, String> {
+    let path_buf = PathBuf::from(library_path);
+    if !app.fs_scope().is_allowed(&path_buf) {
+        return Err("Permission denied: Path not in filesystem scope".to_string());
+    }
+    let db_path = path_buf.join("metadata.db");
+    if !db_path.is_file() {
+        return Err("Not a Calibre library: metadata.db not found".to_string());
+    }
+    Ok(db_path)
+}
+
+// Sorts titles as Calibre does by default, moving a leading English article to the end
+fn title_sort(title: &str) -> String {
+    let trimmed = title.trim();
+    let lower = trimmed.to_lowercase();
+    for article in ["the ", "a ", "an "] {
+        if lower.starts_with(article) && trimmed.len() > article.len() {
+            let (article, rest) = trimmed.split_at(article.len());
+            return format!("{}, {}", rest.trim_start(), article.trim_end());
+        }
+    }
+    trimmed.to_string()
+}
+
+const AUTHOR_PREFIXES: [&str; 5] = ["mr", "mrs", "ms", "dr", "prof"];
+const AUTHOR_SUFFIXES: [&str; 12] = [
+    "jr", "sr", "inc", "ph.d", "phd", "md", "m.d", "i", "ii", "iii", "iv", "junior",
+];
+const AUTHOR_COPY_WORDS: [&str; 11] = [
+    "corporation",
+    "company",
+    "co.",
+    "agency",
+    "council",
+    "committee",
+    "inc.",
+    "institute",
+    "society",
+    "club",
+    "team",
+];
+
+// Calibre's default "invert" author sort, e.g. "Martin Luther King Jr." is "King, Martin Luther Jr."
+fn author_to_author_sort(author: &str) -> String {
+    let author = author.trim();
+    let words: Vec<&str> = author.split_whitespace().collect();
+    let is_copy_word = |w: &&str| AUTHOR_COPY_WORDS.contains(&w.to_lowercase().as_str());
+    if words.len() < 2 || author.contains(',') || words.iter().any(is_copy_word) {
+        return author.to_string();
+    }
+    let normalize = |w: &str| w.trim_end_matches(['.', ',']).to_lowercase();
+    let mut tokens = words.as_slice();
+    while tokens.len() > 1 && AUTHOR_PREFIXES.contains(&normalize(tokens[0]).as_str()) {
+        tokens = &tokens[1..];
+    }
+    let mut suffixes = Vec::new();
+    while tokens.len() > 1
+        && AUTHOR_SUFFIXES.contains(&normalize(tokens[tokens.len() - 1]).as_str())
+    {
+        suffixes.insert(0, tokens[tokens.len() - 1]);
+        tokens = &tokens[..tokens.len() - 1];
+    }
+    let (last, first) = tokens.split_last().unwrap();
+    let mut sort = last.to_string();
+    if !first.is_empty() {
+        sort = format!("{}, {}", sort, first.join(" "));
+    }
+    if !suffixes.is_empty() {
+        sort = format!("{} {}", sort, suffixes.join(" "));
+    }
+    sort
+}
+
+// Calibre's triggers call functions that are registered by Calibre itself
+fn register_calibre_functions(conn: &Connection) -> rusqlite::Result<()> {
+    let flags = FunctionFlags::SQLITE_UTF8 | FunctionFlags::SQLITE_DETERMINISTIC;
+    conn.create_scalar_function("title_sort", 1, flags, |ctx| {
+        Ok(title_sort(&ctx.get::<String>(0)?))
+    })?;
+    conn.create_scalar_function("author_to_author_sort", 1, flags, |ctx| {
+        Ok(author_to_author_sort(&ctx.get::<String>(0)?))
+    })?;
+    conn.create_scalar_function("books_list_filter", 1, flags, |_| Ok(1))?;
+    conn.create_scalar_function("uuid4", 0, FunctionFlags::SQLITE_UTF8, |_| {
+        Ok(uuid::Uuid::new_v4().to_string())
+    })?;
+    Ok(())
+}
+
+fn value_to_json(value: ValueRef) -> serde_json::Value {
+    match value {
+        ValueRef::Null => serde_json::Value::Null,
+        ValueRef::Integer(i) => serde_json::json!(i),
+        ValueRef::Real(f) => serde_json::json!(f),
+        ValueRef::Text(t) => serde_json::json!(String::from_utf8_lossy(t)),
+        ValueRef::Blob(_) => serde_json::Value::Null,
+    }
+}
+
+// collects (book, value) rows into a map of value lists per book
+fn query_book_values(conn: &Connection, sql: &str) -> rusqlite::Result<HashMap<i64, Vec<String>>> {
+    let mut stmt = conn.prepare(sql)?;
+    let mut values: HashMap<i64, Vec<String>> = HashMap::new();
+    let rows = stmt.query_map([], |row| {
+        Ok((row.get::<_, i64>(0)?, row.get::<_, String>(1)?))
+    })?;
+    for row in rows {
+        let (book, value) = row?;
+        values.entry(book).or_default().push(value);
+    }
+    Ok(values)
+}
+
+fn read_custom_columns(
+    conn: &Connection,
+) -> rusqlite::Result<HashMap<i64, HashMap<String, CalibreCustomColumn>>> {
+    let mut result: HashMap<i64, HashMap<String, CalibreCustomColumn>> = HashMap::new();
+    let mut stmt = conn.prepare(
+        "SELECT id, label, name, datatype, is_multiple, normalized FROM custom_columns
+         WHERE datatype != 'composite'",
+    )?;
+    let columns = stmt
+        .query_map([], |row| {
+            Ok((
+                row.get::<_, i64>(0)?,
+                row.get::<_, String>(1)?,
+                row.get::<_, String>(2)?,
+                row.get::<_, String>(3)?,
+                row.get::<_, bool>(4)?,
+                row.get::<_, bool>(5)?,
+            ))
+        })?
+        .collect::<rusqlite::Result<Vec<_>>>()?;
+
+    for (id, label, name, datatype, is_multiple, normalized) in columns {
+        let sql = if normalized {
+            format!(
+                "SELECT l.book, v.value FROM books_custom_column_{id}_link l
+                 JOIN custom_column_{id} v ON v.id = l.value"
+            )
+        } else {
+            format!("SELECT book, value FROM custom_column_{id}")
+        };
+        let mut stmt = conn.prepare(&sql)?;
+        let mut rows = stmt.query([])?;
+        while let Some(row) = rows.next()? {
+            let book: i64 = row.get(0)?;
+            let value = value_to_json(row.get_ref(1)?);
+            let columns = result.entry(book).or_default();
+            let column = columns
+                .entry(label.clone())
+                .or_insert_with(|| CalibreCustomColumn {
+                    label: label.clone(),
+                    name: name.clone(),
+                    datatype: datatype.clone(),
+                    is_multiple,
+                    value: if is_multiple {
+                        serde_json::json!([])
+                    } else {
+                        serde_json::Value::Null
+                    },
+                });
+            match column.value.as_array_mut() {
+                Some(values) => values.push(value),
+                None => column.value = value,
+            }
+        }
+    }
+    Ok(result)
+}
+
+fn read_books(conn: &Connection, library_dir: &Path) -> rusqlite::Result<Vec<CalibreBookRecord>> {
+    let authors = query_book_values(
+        conn,
+        "SELECT l.book, a.name FROM books_authors_link l JOIN authors a ON a.id = l.author
+         ORDER BY l.id",
+    )?;
+    let tags = query_book_values(
+        conn,
+        "SELECT l.book, t.name FROM books_tags_link l JOIN tags t ON t.id = l.tag",
+    )?;
+    let languages = query_book_values(
+        conn,
+        "SELECT l.book, g.lang_code FROM books_languages_link l JOIN languages g ON g.id = l.lang_code
+         ORDER BY l.item_order",
+    )?;
+    let series = query_book_values(
+        conn,
+        "SELECT l.book, s.name FROM books_series_link l JOIN series s ON s.id = l.series",
+    )?;
+    let publishers = query_book_values(
+        conn,
+        "SELECT l.book, p.name FROM books_publishers_link l JOIN publishers p ON p.id = l.publisher",
+    )?;
+    let comments = query_book_values(conn, "SELECT book, text FROM comments")?;
+    let identifiers = query_book_values(conn, "SELECT book, type || ':' || val FROM identifiers")?;
+
+    let mut ratings: HashMap<i64, i64> = HashMap::new();
+    let mut stmt = conn.prepare(
+        "SELECT l.book, r.rating FROM books_ratings_link l JOIN ratings r ON r.id = l.rating",
+    )?;
+    for row in stmt.query_map([], |row| Ok((row.get::<_, i64>(0)?, row.get::<_, i64>(1)?)))? {
+        let (book, rating) = row?;
+        ratings.insert(book, rating);
+    }
+
+    let mut formats: HashMap<i64, Vec<(String, String, i64)>> = HashMap::new();
+    let mut stmt = conn.prepare("SELECT book, format, name, uncompressed_size FROM data")?;
+    for row in stmt.query_map([], |row| {
+        Ok((
+            row.get::<_, i64>(0)?,
+            row.get::<_, String>(1)?,
+            row.get::<_, String>(2)?,
+            row.get::<_, i64>(3)?,
+        ))
+    })? {
+        let (book, format, name, size) = row?;
+        formats.entry(book).or_default().push((format, name, size));
+    }
+
+    let mut custom_columns = read_custom_columns(conn)?;
+
+    let mut stmt = conn.prepare(
+        "SELECT id, uuid, title, series_index, pubdate, last_modified, path, has_cover FROM books",
+    )?;
+    let rows = stmt.query_map([], |row| {
+        Ok((
+            row.get::<_, i64>(0)?,
+            row.get::<_, Option<String>>(1)?,
+            row.get::<_, String>(2)?,
+            row.get::<_, f64>(3)?,
+            row.get::<_, Option<String>>(4)?,
+            row.get::<_, String>(5)?,
+            row.get::<_, String>(6)?,
+            row.get::<_, bool>(7)?,
+        ))
+    })?;
+
+    let mut books = Vec::new();
+    for row in rows {
+        let (id, uuid, title, series_index, pubdate, last_modified, path, has_cover) = row?;
+        let book_dir = library_dir.join(&path);
+        books.push(CalibreBookRecord {
+            id,
+            uuid,
+            title,
+            authors: authors.get(&id).cloned().unwrap_or_default(),
+            series: series.get(&id).and_then(|s| s.first().cloned()),
+            series_index,
+            tags: tags.get(&id).cloned().unwrap_or_default(),
+            rating: ratings.get(&id).copied(),
+            identifiers: identifiers
+                .get(&id)
+                .map(|ids| {
+                    ids.iter()
+                        .filter_map(|s| s.split_once(':'))
+                        .map(|(k, v)| (k.to_string(), v.to_string()))
+                        .collect()
+                })
+                .unwrap_or_default(),
+            languages: languages.get(&id).cloned().unwrap_or_default(),
+            publisher: publishers.get(&id).and_then(|p| p.first().cloned()),
+            pubdate,
+            comments: comments.get(&id).and_then(|c| c.first().cloned()),
+            last_modified,
+            cover_path: has_cover.then(|| book_dir.join("cover.jpg").to_string_lossy().to_string()),
+            formats: formats
+                .remove(&id)
+                .unwrap_or_default()
+                .into_iter()
+                .map(|(format, name, size)| CalibreFormat {
+                    path: book_dir
+                        .join(format!("{}.{}", name, format.to_lowercase()))
+                        .to_string_lossy()
+                        .to_string(),
+                    format,
+                    size,
+                })
+                .collect(),
+            custom_columns: custom_columns.remove(&id).unwrap_or_default(),
+        });
+    }
+    Ok(books)
+}
+
+#[tauri::command]
+pub fn calibre_read_library(
+    app: AppHandle,
+    library_path: String,
+) -> Result<Vec<CalibreBookRecord>, String> {
+    let db_path = check_scope(&app, &library_path)?;
+    let conn = Connection::open_with_flags(&db_path, OpenFlags::SQLITE_OPEN_READ_ONLY)
+        .map_err(|e| format!("Failed to open Calibre library: {}", e))?;
+    read_books(&conn, Path::new(&library_path))
+        .map_err(|e| format!("Failed to read Calibre library: {}", e))
+}
+
+// replaces the many-to-many links of a book, creating missing items
+fn set_book_links(
+    conn: &Connection,
+    book_id: i64,
+    table: &str,
+    link_table: &str,
+    link_column: &str,
+    values: &[String],
+) -> rusqlite::Result<()> {
+    conn.execute(
+        &format!("DELETE FROM {link_table} WHERE book = ?1"),
+        params![book_id],
+    )?;
+    for value in values.iter().filter(|v| !v.trim().is_empty()) {
+        let item_id: i64 = match conn.query_row(
+            &format!("SELECT id FROM {table} WHERE name = ?1"),
+            params![value],
+            |row| row.get(0),
+        ) {
+            Ok(id) => id,
+            Err(rusqlite::Error::QueryReturnedNoRows) => {
+                if table == "authors" {
+                    conn.execute(
+                        "INSERT INTO authors (name, sort) VALUES (?1, author_to_author_sort(?1))",
+                        params![value],
+                    )?;
+                } else {
+                    conn.execute(
+                        &format!("INSERT INTO {table} (name) VALUES (?1)"),
+                        params![value],
+                    )?;
+                }
+                conn.last_insert_rowid()
+            }
+            Err(e) => return Err(e),
+        };
+        conn.execute(
+            &format!("INSERT OR IGNORE INTO {link_table} (book, {link_column}) VALUES (?1, ?2)"),
+            params![book_id, item_id],
+        )?;
+    }
+    Ok(())
+}
+
+fn update_book(
+    conn: &mut Connection,
+    book_id: i64,
+    changes: &CalibreBookChanges,
+) -> rusqlite::Result<String> {
+    let tx = conn.transaction()?;
+    if let Some(title) = &changes.title {
+        tx.execute(
+            "UPDATE books SET title = ?1 WHERE id = ?2",
+            params![title, book_id],
+        )?;
+    }
+    if let Some(authors) = &changes.authors {
+        set_book_links(
+            &tx,
+            book_id,
+            "authors",
+            "books_authors_link",
+            "author",
+            authors,
+        )?;
+        tx.execute(
+            "UPDATE books SET author_sort = (SELECT group_concat(a.sort, ' & ')
+               FROM books_authors_link l JOIN authors a ON a.id = l.author WHERE l.book = ?1)
+             WHERE id = ?1",
+            params![book_id],
+        )?;
+    }
+    if let Some(tags) = &changes.tags {
+        set_book_links(&tx, book_id, "tags", "books_tags_link", "tag", tags)?;
+    }
+    if let Some(series) = &changes.series {
+        let series: Vec<String> = vec![series.clone()];
+        set_book_links(
+            &tx,
+            book_id,
+            "series",
+            "books_series_link",
+            "series",
+            &series,
+        )?;
+    }
+    if let Some(series_index) = changes.series_index {
+        tx.execute(
+            "UPDATE books SET series_index = ?1 WHERE id = ?2",
+            params![series_index, book_id],
+        )?;
+    }
+    if let Some(publisher) = &changes.publisher {
+        let publishers: Vec<String> = vec![publisher.clone()];
+        set_book_links(
+            &tx,
+            book_id,
+            "publishers",
+            "books_publishers_link",
+            "publisher",
+            &publishers,
+        )?;
+    }
+    if let Some(rating) = changes.rating {
+        tx.execute(
+            "DELETE FROM books_ratings_link WHERE book = ?1",
+            params![book_id],
+        )?;
+        if rating > 0 {
+            tx.execute(
+                "INSERT OR IGNORE INTO ratings (rating) VALUES (?1)",
+                params![rating],
+            )?;
+            tx.execute(
+                "INSERT INTO books_ratings_link (book, rating)
+                 SELECT ?1, id FROM ratings WHERE rating = ?2",
+                params![book_id, rating],
+            )?;
+        }
+    }
+    if let Some(comments) = &changes.comments {
+        tx.execute("DELETE FROM comments WHERE book = ?1", params![book_id])?;
+        if !comments.is_empty() {
+            tx.execute(
+                "INSERT INTO comments (book, text) VALUES (?1, ?2)",
+                params![book_id, comments],
+            )?;
+        }
+    }
+    tx.execute(
+        "UPDATE books SET last_modified = strftime('%Y-%m-%d %H:%M:%f+00:00', 'now') WHERE id = ?1",
+        params![book_id],
+    )?;
+    // Calibre rewrites metadata.opf in the book folder for the books marked as dirtied
+    tx.execute(
+        "INSERT OR IGNORE INTO metadata_dirtied (book) VALUES (?1)",
+        params![book_id],
+    )?;
+    let last_modified: String = tx.query_row(
+        "SELECT last_modified FROM books WHERE id = ?1",
+        params![book_id],
+        |row| row.get(0),
+    )?;
+    tx.commit()?;
+    Ok(last_modified)
+}
+
+// Writes metadata changes back to the library. Calibre does not expect other programs to change
+// metadata.db while it runs, the app asks the user to close Calibre before calling this.
+#[tauri::command]
+pub fn calibre_update_book(
+    app: AppHandle,
+    library_path: String,
+    book_id: i64,
+    changes: CalibreBookChanges,
+) -> Result<String, String> {
+    let db_path = check_scope(&app, &library_path)?;
+    let mut conn =
+        Connection::open(&db_path).map_err(|e| format!("Failed to open Calibre library: {}", e))?;
+    register_calibre_functions(&conn).map_err(|e| e.to_string())?;
+    update_book(&mut conn, book_id, &changes)
+        .map_err(|e| format!("Failed to update Calibre book {}: {}", book_id, e))
+}
@@ -22,6 +22,7 @@ use tauri_plugin_fs::FsExt;
 
 #[cfg(desktop)]
 use tauri::{Listener, Url};
+mod calibre;
 mod dir_scanner;
 #[cfg(any(target_os = "macos", target_os = "windows", target_os = "linux"))]
 mod discord_rpc;
@@ -165,6 +166,8 @@ pub fn run() {
             get_environment_variable,
             get_executable_dir,
             dir_scanner::read_dir,
+            calibre::calibre_read_library,
+            calibre::calibre_update_book,
             #[cfg(target_os = "macos")]
             macos::safari_auth::auth_with_safari,
             #[cfg(target_os = "macos")]
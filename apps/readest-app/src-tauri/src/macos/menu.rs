@@ -74,7 +74,7 @@ fn handle_open_file(app: &AppHandle) {
         .file()
         .add_filter(
             "Files",
-            &["epub", "pdf", "mobi", "azw", "azw3", "fb2", "cbz", "txt"],
+            &["epub", "pdf", "mobi", "azw", "azw3", "fb2", "cbz", "cbr", "cb7", "txt"],
         )
         .pick_file(move |file_path| {
             if let Some(path) = file_path {
@@ -59,7 +59,8 @@ const createMockIDB = () => {
 
 vi.stubGlobal('indexedDB', createMockIDB());
 
-import type { TextChunk } from '@/services/ai/types';
+import type { ScoredChunk, TextChunk } from '@/services/ai/types';
+import { mergeHybridResults } from '@/services/ai/storage/aiStore';
 
 describe('AI Store', () => {
   describe('cosineSimilarity', () => {
@@ -137,4 +138,50 @@ describe('AI Store', () => {
       expect(chunkNoEmbed.embedding).toBeUndefined();
     });
   });
+
+  describe('mergeHybridResults', () => {
+    const scored = (
+      bookHash: string,
+      text: string,
+      score: number,
+      searchMethod: ScoredChunk['searchMethod'],
+    ): ScoredChunk => ({
+      id: `${bookHash}-${text}`,
+      bookHash,
+      sectionIndex: 0,
+      chapterTitle: 'Chapter',
+      pageNumber: 1,
+      text,
+      score,
+      searchMethod,
+    });
+
+    test('should rank results from different books together', () => {
+      const results = mergeHybridResults(
+        [scored('a', 'alpha', 0.9, 'vector'), scored('b', 'beta', 0.45, 'vector')],
+        [scored('b', 'gamma', 4, 'bm25')],
+        10,
+      );
+      expect(results.map((r) => r.text)).toEqual(['alpha', 'gamma', 'beta']);
+      expect(results[0]!.score).toBeCloseTo(1);
+      expect(results[1]!.score).toBeCloseTo(0.8);
+    });
+
+    test('should merge matches of the same chunk but not equal text in other books', () => {
+      const results = mergeHybridResults(
+        [scored('a', 'same', 1, 'vector'), scored('b', 'same', 0.5, 'vector')],
+        [scored('a', 'same', 2, 'bm25')],
+        10,
+      );
+      expect(results).toHaveLength(2);
+      expect(results[0]!.bookHash).toBe('a');
+      expect(results[0]!.searchMethod).toBe('hybrid');
+      expect(results[1]!.bookHash).toBe('b');
+    });
+
+    test('should limit results to topK', () => {
+      const vector = ['1', '2', '3'].map((t, i) => scored('a', t, 1 - i * 0.1, 'vector'));
+      expect(mergeHybridResults(vector, [], 2)).toHaveLength(2);
+    });
+  });
 });
@@ -5,7 +5,11 @@ vi.mock('../types', () => ({
   TextChunk: {},
 }));
 
-import { extractTextFromDocument, chunkSection } from '@/services/ai/utils/chunker';
+import {
+  extractTextFromDocument,
+  chunkSection,
+  readSectionText,
+} from '@/services/ai/utils/chunker';
 
 describe('AI Chunker', () => {
   const createDocument = (html: string): Document => {
@@ -47,6 +51,17 @@ describe('AI Chunker', () => {
     });
   });
 
+  describe('readSectionText', () => {
+    test('should resolve text offsets to ranges across text nodes', () => {
+      const doc = createDocument('  <p>Alpha <b>beta</b></p><nav>skip</nav><p>gamma</p>');
+      const { text, resolveRange } = readSectionText(doc);
+      expect(text).toBe('Alpha betagamma');
+      expect(resolveRange(0, 5)!.toString()).toBe('Alpha');
+      expect(resolveRange(6, 10)!.toString()).toBe('beta');
+      expect(resolveRange(10, 100)!.toString()).toBe('gamma');
+    });
+  });
+
   describe('chunkSection', () => {
     const bookHash = 'test-hash';
     const sectionIndex = 0;
@@ -94,5 +109,36 @@ describe('AI Chunker', () => {
         expect(chunk.text.length).toBeLessThanOrEqual(150); // allow some flexibility for break points
       });
     });
+
+    test('should locate each chunk in the document when a cfi resolver is given', () => {
+      const doc = createDocument(
+        `<nav>Contents</nav><p>${'First paragraph text. '.repeat(20)}</p><p>${'Second paragraph text. '.repeat(20)}</p>`,
+      );
+      const ranges: string[] = [];
+      const chunks = chunkSection(
+        doc,
+        sectionIndex,
+        chapterTitle,
+        bookHash,
+        0,
+        undefined,
+        (range) => {
+          ranges.push(range.toString());
+          return `cfi-${ranges.length}`;
+        },
+      );
+
+      expect(chunks.length).toBeGreaterThan(1);
+      chunks.forEach((chunk, i) => {
+        expect(chunk.cfi).toBe(`cfi-${i + 1}`);
+        expect(ranges[i]!.trim().startsWith(chunk.text.slice(0, 20))).toBe(true);
+      });
+    });
+
+    test('should leave cfi undefined without a resolver', () => {
+      const doc = createDocument(`<p>${'Some text here. '.repeat(20)}</p>`);
+      const chunks = chunkSection(doc, sectionIndex, chapterTitle, bookHash, 0);
+      chunks.forEach((chunk) => expect(chunk.cfi).toBeUndefined());
+    });
   });
 });
@@ -0,0 +1,103 @@
+import { describe, test, expect } from 'vitest';
+import { splitText } from '@/services/ai/utils/chunker';
+import {
+  buildBM25Index,
+  cosineSimilarity,
+  createVectorSet,
+  scoreVectors,
+} from '@/services/ai/utils/indexer';
+import type { TextChunk } from '@/services/ai/types';
+
+const makeChunk = (id: string, embedding: number[] | undefined, pageNumber = 0): TextChunk => ({
+  id,
+  bookHash: 'book',
+  sectionIndex: 0,
+  chapterTitle: 'Chapter',
+  text: `text of ${id}`,
+  pageNumber,
+  embedding,
+});
+
+describe('splitText', () => {
+  test('should keep short text in one span', () => {
+    const text = 'A short paragraph that fits in one chunk.';
+    const spans = splitText(text);
+    expect(spans).toHaveLength(1);
+    expect(spans[0]!.text).toBe(text);
+    expect(spans[0]!.start).toBe(0);
+  });
+
+  test('should return offsets that point into the original text', () => {
+    const text = Array.from({ length: 40 }, (_, i) => `Sentence number ${i} is here.`).join(' ');
+    const spans = splitText(text, { maxChunkSize: 200, minChunkSize: 50, overlapSize: 0 });
+    expect(spans.length).toBeGreaterThan(1);
+    for (const span of spans) {
+      expect(span.text.startsWith(text.slice(span.start, span.end).trim())).toBe(true);
+    }
+  });
+
+  test('should return no spans for empty text', () => {
+    expect(splitText('')).toEqual([]);
+  });
+});
+
+describe('createVectorSet', () => {
+  test('should pack embeddings into a flat buffer', () => {
+    const set = createVectorSet([makeChunk('a', [1, 0], 1), makeChunk('b', [0, 1], 2)]);
+    expect(set.ids).toEqual(['a', 'b']);
+    expect(set.dim).toBe(2);
+    expect(Array.from(set.vectors)).toEqual([1, 0, 0, 1]);
+    expect(Array.from(set.pages)).toEqual([1, 2]);
+  });
+
+  test('should skip chunks without embeddings or with another dimension', () => {
+    const set = createVectorSet([
+      makeChunk('a', undefined),
+      makeChunk('b', [1, 0]),
+      makeChunk('c', [1, 0, 0]),
+    ]);
+    expect(set.ids).toEqual(['b']);
+  });
+});
+
+describe('scoreVectors', () => {
+  const set = createVectorSet([
+    makeChunk('a', [1, 0], 1),
+    makeChunk('b', [0.7, 0.7], 5),
+    makeChunk('c', [0, 1], 10),
+  ]);
+
+  test('should rank by cosine similarity', () => {
+    const scores = scoreVectors(set, [1, 0], 3);
+    expect(scores.map((s) => s.id)).toEqual(['a', 'b', 'c']);
+    expect(scores[0]!.score).toBeCloseTo(1);
+  });
+
+  test('should respect topK and maxPage', () => {
+    expect(scoreVectors(set, [0, 1], 1).map((s) => s.id)).toEqual(['c']);
+    expect(scoreVectors(set, [0, 1], 3, 5).map((s) => s.id)).toEqual(['b', 'a']);
+  });
+
+  test('should return nothing for a query of another dimension', () => {
+    expect(scoreVectors(set, [1, 0, 0], 3)).toEqual([]);
+  });
+});
+
+describe('cosineSimilarity', () => {
+  test('should return 0 for mismatched or zero vectors', () => {
+    expect(cosineSimilarity([1, 0], [1, 0, 0])).toBe(0);
+    expect(cosineSimilarity([0, 0], [1, 0])).toBe(0);
+  });
+});
+
+describe('buildBM25Index', () => {
+  test('should serialize an index that can be searched after loading', async () => {
+    const lunr = (await import('lunr')).default;
+    const serialized = buildBM25Index([
+      { id: '1', text: 'the whale swims in the ocean', chapterTitle: 'Sea' },
+      { id: '2', text: 'the captain walks on deck', chapterTitle: 'Ship' },
+    ]);
+    const index = lunr.Index.load(JSON.parse(serialized));
+    expect(index.search('whale').map((r) => r.ref)).toEqual(['1']);
+  });
+});
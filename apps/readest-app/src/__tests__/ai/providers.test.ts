@@ -26,6 +26,7 @@ vi.mock('ai-sdk-ollama', () => ({
 
 import { OllamaProvider } from '@/services/ai/providers/OllamaProvider';
 import { AIGatewayProvider } from '@/services/ai/providers/AIGatewayProvider';
+import { OpenAICompatibleProvider } from '@/services/ai/providers/OpenAICompatibleProvider';
 import { getAIProvider } from '@/services/ai/providers';
 import type { AISettings } from '@/services/ai/types';
 import { DEFAULT_AI_SETTINGS } from '@/services/ai/constants';
@@ -161,6 +162,69 @@ describe('AIGatewayProvider', () => {
   });
 });
 
+describe('OpenAICompatibleProvider', () => {
+  const settings: AISettings = {
+    ...DEFAULT_AI_SETTINGS,
+    enabled: true,
+    provider: 'openai-compatible',
+    openaiCompatibleBaseUrl: 'http://127.0.0.1:1234/v1/',
+    openaiCompatibleApiKey: 'local-key',
+    openaiCompatibleModel: 'qwen2.5-7b-instruct',
+    openaiCompatibleEmbeddingModel: 'nomic-embed-text-v1.5',
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  test('should create provider without auth', () => {
+    const provider = new OpenAICompatibleProvider(settings);
+
+    expect(provider.id).toBe('openai-compatible');
+    expect(provider.requiresAuth).toBe(false);
+  });
+
+  test('isAvailable should query the models endpoint with the API key', async () => {
+    mockFetch.mockResolvedValueOnce({ ok: true, json: () => Promise.resolve({ data: [] }) });
+    const provider = new OpenAICompatibleProvider(settings);
+
+    const result = await provider.isAvailable();
+    expect(result).toBe(true);
+    expect(mockFetch).toHaveBeenCalledWith(
+      'http://127.0.0.1:1234/v1/models',
+      expect.objectContaining({ headers: { Authorization: 'Bearer local-key' } }),
+    );
+  });
+
+  test('healthCheck should verify the chat model is served', async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: () =>
+        Promise.resolve({ data: [{ id: 'qwen2.5-7b-instruct' }, { id: 'nomic-embed-text-v1.5' }] }),
+    });
+    const provider = new OpenAICompatibleProvider(settings);
+
+    expect(await provider.healthCheck()).toBe(true);
+  });
+
+  test('healthCheck should return false if the model is not served', async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: () => Promise.resolve({ data: [{ id: 'other-model' }, { id: 'another-model' }] }),
+    });
+    const provider = new OpenAICompatibleProvider(settings);
+
+    expect(await provider.healthCheck()).toBe(false);
+  });
+
+  test('healthCheck should return false without configured models', async () => {
+    const provider = new OpenAICompatibleProvider({ ...settings, openaiCompatibleModel: '' });
+
+    expect(await provider.healthCheck()).toBe(false);
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+});
+
 describe('getAIProvider', () => {
   test('should return OllamaProvider for ollama', () => {
     const settings: AISettings = { ...DEFAULT_AI_SETTINGS, enabled: true, provider: 'ollama' };
@@ -181,6 +245,17 @@ describe('getAIProvider', () => {
     expect(provider.id).toBe('ai-gateway');
   });
 
+  test('should return OpenAICompatibleProvider for openai-compatible', () => {
+    const settings: AISettings = {
+      ...DEFAULT_AI_SETTINGS,
+      enabled: true,
+      provider: 'openai-compatible',
+    };
+    const provider = getAIProvider(settings);
+
+    expect(provider.id).toBe('openai-compatible');
+  });
+
   test('should throw for unknown provider', () => {
     const settings = {
       ...DEFAULT_AI_SETTINGS,
@@ -0,0 +1,104 @@
+import { describe, test, expect } from 'vitest';
+import {
+  buildRecapSections,
+  getChunksUpToPage,
+  getSummaryId,
+  isChapterSummaryUsable,
+  selectChunksWithinBudget,
+} from '@/services/ai/utils/summarizer';
+import type { AISummary, TextChunk } from '@/services/ai/types';
+
+const makeChunk = (
+  sectionIndex: number,
+  pageNumber: number,
+  text = 'x'.repeat(100),
+): TextChunk => ({
+  id: `book-${sectionIndex}-${pageNumber}`,
+  bookHash: 'book',
+  sectionIndex,
+  chapterTitle: `Chapter ${sectionIndex + 1}`,
+  text,
+  pageNumber,
+});
+
+const makeSummary = (sectionIndex: number, complete: boolean, maxPage = 1): AISummary => ({
+  id: getSummaryId('book', 'model', 'chapter', sectionIndex),
+  bookHash: 'book',
+  model: 'model',
+  kind: 'chapter',
+  sectionIndex,
+  chapterTitle: `Chapter ${sectionIndex + 1}`,
+  maxPage,
+  complete,
+  text: `summary ${sectionIndex}`,
+  createdAt: 0,
+});
+
+describe('AI Summarizer', () => {
+  describe('getChunksUpToPage', () => {
+    test('should drop chunks beyond the page limit and keep reading order', () => {
+      const chunks = [makeChunk(1, 3), makeChunk(0, 1), makeChunk(2, 5), makeChunk(0, 0)];
+      const result = getChunksUpToPage(chunks, 3);
+      expect(result.map((c) => c.id)).toEqual(['book-0-0', 'book-0-1', 'book-1-3']);
+    });
+
+    test('should keep all chunks without a page limit', () => {
+      expect(getChunksUpToPage([makeChunk(0, 9)])).toHaveLength(1);
+    });
+  });
+
+  describe('selectChunksWithinBudget', () => {
+    test('should keep all chunks when they fit', () => {
+      const chunks = [makeChunk(0, 0), makeChunk(0, 1)];
+      expect(selectChunksWithinBudget(chunks, 1000)).toBe(chunks);
+    });
+
+    test('should sample chunks evenly when over budget', () => {
+      const chunks = Array.from({ length: 10 }, (_, i) => makeChunk(0, i));
+      const result = selectChunksWithinBudget(chunks, 500);
+      expect(result.map((c) => c.pageNumber)).toEqual([0, 2, 4, 6, 8]);
+    });
+  });
+
+  describe('buildRecapSections', () => {
+    test('should use complete chapter summaries instead of raw text', () => {
+      const chunks = [
+        makeChunk(0, 0, 'first'),
+        makeChunk(1, 1, 'second'),
+        makeChunk(2, 2, 'third'),
+      ];
+      const sections = buildRecapSections(chunks, [makeSummary(0, true), makeSummary(1, false)]);
+      expect(sections.map((s) => s.text)).toEqual(['summary 0', 'second', 'third']);
+      expect(sections[2]!.chapterTitle).toBe('Chapter 3');
+    });
+
+    test('should ignore summaries of chapters not read yet', () => {
+      const sections = buildRecapSections([makeChunk(0, 0, 'first')], [makeSummary(4, true)]);
+      expect(sections).toEqual([{ sectionIndex: 0, chapterTitle: 'Chapter 1', text: 'first' }]);
+    });
+
+    test('should use the read text of a partly read chapter over its complete summary', () => {
+      const chunks = [makeChunk(0, 0, 'first'), makeChunk(1, 1, 'second'), makeChunk(1, 2, 'more')];
+      const sections = buildRecapSections(
+        chunks,
+        [makeSummary(0, true, 0), makeSummary(1, true, 5)],
+        2,
+      );
+      expect(sections.map((s) => s.text)).toEqual(['summary 0', 'second\nmore']);
+    });
+  });
+
+  describe('isChapterSummaryUsable', () => {
+    test('should reuse summaries covering the read part of the chapter', () => {
+      expect(isChapterSummaryUsable(makeSummary(0, false, 3), 3, 3)).toBe(true);
+      expect(isChapterSummaryUsable(makeSummary(0, false, 2), 3, 3)).toBe(false);
+      expect(isChapterSummaryUsable(makeSummary(0, true, 5), 5)).toBe(true);
+    });
+
+    test('should not reuse summaries past the current page with spoiler protection', () => {
+      expect(isChapterSummaryUsable(makeSummary(0, true, 5), 3, 3)).toBe(false);
+      expect(isChapterSummaryUsable(makeSummary(0, false, 4), 3, 3)).toBe(false);
+      expect(isChapterSummaryUsable(makeSummary(0, true, 3), 3, 4)).toBe(true);
+    });
+  });
+});
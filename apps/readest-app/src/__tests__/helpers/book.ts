@@ -0,0 +1,27 @@
+import { Book, BookNote } from '@/types/book';
+import { BookMetadata } from '@/libs/document';
+
+// Helper to create mock books with minimal required fields
+export const createMockBook = (
+  overrides: Partial<Omit<Book, 'metadata'> & { metadata?: Partial<BookMetadata> }> = {},
+): Book => ({
+  hash: `hash-${Math.random().toString(36).substr(2, 9)}`,
+  format: 'EPUB',
+  title: 'Test Book',
+  author: 'Test Author',
+  createdAt: Date.now(),
+  updatedAt: Date.now(),
+  ...overrides,
+  metadata: { ...overrides.metadata } as BookMetadata,
+});
+
+// Helper to create mock annotations with minimal required fields
+export const createMockNote = (overrides: Partial<BookNote> = {}): BookNote => ({
+  id: `note-${Math.random().toString(36).substr(2, 9)}`,
+  type: 'annotation',
+  cfi: 'epubcfi(/6/2!/4/2)',
+  note: '',
+  createdAt: Date.now(),
+  updatedAt: Date.now(),
+  ...overrides,
+});
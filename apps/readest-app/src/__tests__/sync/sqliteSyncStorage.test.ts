@@ -0,0 +1,153 @@
+// @vitest-environment node
+import { describe, test, expect, vi } from 'vitest';
+import { DBBook, DBBookNote } from '@/types/records';
+
+vi.mock('@/utils/supabase', () => ({
+  supabase: { auth: { getUser: vi.fn() } },
+  createSupabaseClient: vi.fn(),
+}));
+
+const [major, minor] = process.versions.node.split('.').map(Number);
+const HAS_NODE_SQLITE = major! > 22 || (major === 22 && minor! >= 13);
+
+const openStorage = async () => {
+  const { SQLiteSyncStorage } = await import('@/services/sync/storage/SQLiteSyncStorage');
+  return SQLiteSyncStorage.open(':memory:');
+};
+
+const makeBook = (overrides: Partial<DBBook> = {}): DBBook => ({
+  user_id: 'alice',
+  book_hash: 'hash-1',
+  meta_hash: 'meta-1',
+  format: 'EPUB',
+  title: 'Alice in Wonderland',
+  author: 'Lewis Carroll',
+  tags: ['classic'],
+  progress: [10, 100],
+  updated_at: '2025-01-01T00:00:00.000Z',
+  deleted_at: null,
+  ...overrides,
+});
+
+describe.skipIf(!HAS_NODE_SQLITE)('SQLiteSyncStorage', () => {
+  test('inserts records and restores array columns', async () => {
+    const storage = await openStorage();
+    const [saved] = await storage.insertRecords('books', [makeBook()]);
+    expect(saved).toMatchObject({ book_hash: 'hash-1', tags: ['classic'], progress: [10, 100] });
+  });
+
+  test('queries changes since a timestamp scoped by user', async () => {
+    const storage = await openStorage();
+    await storage.insertRecords('books', [
+      makeBook(),
+      makeBook({ book_hash: 'hash-2', updated_at: '2025-03-01T00:00:00.000Z' }),
+      makeBook({ user_id: 'bob', book_hash: 'hash-3', updated_at: '2025-03-01T00:00:00.000Z' }),
+    ]);
+    const records = await storage.queryChanges('books', {
+      userId: 'alice',
+      since: '2025-02-01T00:00:00.000Z',
+      offset: 0,
+      limit: 100,
+    });
+    expect(records.map((r) => r.book_hash)).toEqual(['hash-2']);
+  });
+
+  test('filters by book hash or meta hash', async () => {
+    const storage = await openStorage();
+    await storage.insertRecords('books', [
+      makeBook(),
+      makeBook({ book_hash: 'hash-2', meta_hash: 'meta-1' }),
+      makeBook({ book_hash: 'hash-3', meta_hash: 'meta-3' }),
+    ]);
+    const records = await storage.queryChanges('books', {
+      userId: 'alice',
+      since: new Date(0).toISOString(),
+      book: 'hash-3',
+      metaHash: 'meta-1',
+      offset: 0,
+      limit: 100,
+    });
+    expect(records.map((r) => r.book_hash).sort()).toEqual(['hash-1', 'hash-2', 'hash-3']);
+  });
+
+  test('upserts keep columns that are not provided', async () => {
+    const storage = await openStorage();
+    const note: DBBookNote = {
+      user_id: 'alice',
+      book_hash: 'hash-1',
+      id: 'note-1',
+      type: 'annotation',
+      cfi: 'epubcfi(/6/4!/4/2)',
+      text: 'Down the rabbit hole',
+      note: '',
+      updated_at: '2025-01-01T00:00:00.000Z',
+    };
+    await storage.insertRecords('book_notes', [note]);
+    const [updated] = await storage.upsertRecords(
+      'book_notes',
+      [{ ...note, text: undefined, note: 'curious', updated_at: '2025-01-02T00:00:00.000Z' }],
+      ['book_hash', 'id'],
+    );
+    expect(updated).toMatchObject({ text: 'Down the rabbit hole', note: 'curious' });
+
+    const fetched = await storage.fetchRecords('book_notes', 'alice', [
+      { book_hash: 'hash-1', id: 'note-1' },
+      { book_hash: 'hash-1', id: 'missing' },
+    ]);
+    expect(fetched).toHaveLength(1);
+  });
+
+  test('migrates databases created before the schema was versioned', async () => {
+    const { DatabaseSync } = await import('node:sqlite');
+    const { SQLiteSyncStorage, SCHEMA_VERSION } = await import(
+      '@/services/sync/storage/SQLiteSyncStorage'
+    );
+    const db = new DatabaseSync(':memory:');
+    db.exec(`CREATE TABLE book_configs (
+      user_id TEXT NOT NULL,
+      book_hash TEXT NOT NULL,
+      meta_hash TEXT,
+      location TEXT,
+      xpointer TEXT,
+      progress TEXT,
+      search_config TEXT,
+      view_settings TEXT,
+      created_at TEXT,
+      updated_at TEXT,
+      deleted_at TEXT,
+      PRIMARY KEY (user_id, book_hash)
+    )`);
+    db.exec(
+      `INSERT INTO book_configs (user_id, book_hash, location) VALUES ('alice', 'hash-1', 'cfi')`,
+    );
+
+    const storage = new SQLiteSyncStorage(db);
+    expect(db.prepare('PRAGMA user_version').get()).toEqual({ user_version: SCHEMA_VERSION });
+    const [config] = await storage.upsertRecords(
+      'book_configs',
+      [{ user_id: 'alice', book_hash: 'hash-1', fields_updated_at: '{"location":1}' }],
+      ['book_hash'],
+    );
+    expect(config).toMatchObject({ location: 'cfi', fields_updated_at: '{"location":1}' });
+    await storage.insertRecords('reading_sessions', [
+      { user_id: 'alice', book_hash: 'hash-1', id: 'session-1', duration: 60 },
+    ]);
+
+    // reopening an up to date database is a no-op
+    expect(() => new SQLiteSyncStorage(db)).not.toThrow();
+  });
+});
+
+describe('validateLocalUserAndToken', () => {
+  test('maps configured tokens to user ids', async () => {
+    process.env['SYNC_AUTH_TOKENS'] = 'alice:token-a, bob:token-b';
+    const { validateLocalUserAndToken } = await import('@/services/sync/storage');
+    expect(validateLocalUserAndToken('Bearer token-b')).toEqual({
+      user: { id: 'bob' },
+      token: 'token-b',
+    });
+    expect(validateLocalUserAndToken('Bearer nope')).toEqual({});
+    expect(validateLocalUserAndToken(null)).toEqual({});
+    delete process.env['SYNC_AUTH_TOKENS'];
+  });
+});
@@ -0,0 +1,317 @@
+import { describe, it, expect } from 'vitest';
+import { parseKindleClippings } from '@/services/annotationImport/kindle';
+import { parseKOReaderMetadata, parseLuaTable } from '@/services/annotationImport/koreader';
+import { parseMarkdownHighlights, parseReadwiseCSV } from '@/services/annotationImport/markdown';
+import {
+  createImportedBooknotes,
+  findLibraryBook,
+  groupImportedAnnotations,
+} from '@/services/annotationImport/match';
+import { ImportedAnnotation } from '@/services/annotationImport/types';
+import { createMockBook, createMockNote } from '../helpers/book';
+
+const makeAnnotation = (overrides: Partial<ImportedAnnotation> = {}): ImportedAnnotation => ({
+  source: 'kindle',
+  title: 'Moby Dick',
+  author: 'Melville, Herman',
+  text: 'Call me Ishmael.',
+  ...overrides,
+});
+
+describe('parseKindleClippings', () => {
+  const clippings = [
+    '\uFEFFMoby Dick (Melville, Herman)',
+    '- Your Highlight on page 1 | Location 10-12 | Added on Monday, January 1, 2024 10:00:00 AM',
+    '',
+    'Call me',
+    '==========',
+    'Moby Dick (Melville, Herman)',
+    '- Your Highlight on page 1 | Location 10-14 | Added on Monday, January 1, 2024 10:01:00 AM',
+    '',
+    'Call me Ishmael.',
+    '==========',
+    '\uFEFFMoby Dick (Melville, Herman)',
+    '- Your Note on page 1 | Location 14 | Added on Monday, January 1, 2024 10:02:00 AM',
+    '',
+    'The narrator',
+    '==========',
+    'Moby Dick (Melville, Herman)',
+    '- Your Bookmark on page 3 | Location 40 | Added on Monday, January 1, 2024 10:03:00 AM',
+    '',
+    '',
+    '==========',
+    'Moby Dick (Melville, Herman)',
+    '- Your Note on page 9 | Location 99 | Added on Monday, January 1, 2024 10:04:00 AM',
+    '',
+    'A loose thought',
+    '==========',
+    '',
+  ].join('\r\n');
+
+  it('should keep the last clipping of a resized highlight with its note', () => {
+    const [highlight, orphan, ...rest] = parseKindleClippings(clippings);
+    expect(rest).toHaveLength(0);
+    expect(highlight).toEqual({
+      source: 'kindle',
+      title: 'Moby Dick',
+      author: 'Melville, Herman',
+      text: 'Call me Ishmael.',
+      note: 'The narrator',
+      page: 1,
+      location: 10,
+      createdAt: new Date(2024, 0, 1, 10, 1).getTime(),
+    });
+    expect(orphan).toMatchObject({ text: '', note: 'A loose thought' });
+  });
+});
+
+describe('parseLuaTable', () => {
+  it('should parse nested tables, strings and numbers', () => {
+    const source = [
+      '-- we can read Lua syntax here!',
+      'return {',
+      '    ["list"] = {',
+      '        [1] = "a \\"quoted\\" line\\',
+      'next",',
+      '        [2] = 42,',
+      '    },',
+      '    ["flag"] = true,',
+      '    name = nil,',
+      '}',
+    ].join('\n');
+    expect(parseLuaTable(source)).toEqual({
+      list: { '1': 'a "quoted" line\nnext', '2': 42 },
+      flag: true,
+      name: null,
+    });
+  });
+
+  it('should throw on invalid tables', () => {
+    expect(() => parseLuaTable('return { ["a"] = }')).toThrow(SyntaxError);
+  });
+});
+
+describe('parseKOReaderMetadata', () => {
+  it('should read the annotations table', () => {
+    const source = `return {
+      ["annotations"] = {
+        [1] = {
+          ["chapter"] = "Loomings",
+          ["color"] = "purple",
+          ["datetime"] = "2024-03-01 12:00:00",
+          ["drawer"] = "underscore",
+          ["note"] = "The narrator",
+          ["pageno"] = 5,
+          ["pos0"] = "/body/DocFragment[3]/body/p[1]/text().0",
+          ["pos1"] = "/body/DocFragment[3]/body/p[1]/text().16",
+          ["text"] = "Call me Ishmael.",
+        },
+        [2] = {
+          ["datetime"] = "2024-03-01 12:05:00",
+          ["page"] = "/body/DocFragment[4]/body/p[1]/text().0",
+          ["pageno"] = 9,
+        },
+      },
+      ["doc_props"] = {
+        ["authors"] = "Herman Melville",
+        ["identifiers"] = "uuid:1234\\nISBN:9780142437247",
+        ["title"] = "Moby Dick",
+      },
+    }`;
+    const metadata = parseKOReaderMetadata(source);
+    expect(metadata.title).toBe('Moby Dick');
+    expect(metadata.identifiers).toEqual(['uuid:1234', 'ISBN:9780142437247']);
+    expect(metadata.annotations).toEqual([
+      {
+        source: 'koreader',
+        title: 'Moby Dick',
+        author: 'Herman Melville',
+        text: 'Call me Ishmael.',
+        note: 'The narrator',
+        chapter: 'Loomings',
+        page: 5,
+        section: 2,
+        color: 'violet',
+        style: 'underline',
+        createdAt: new Date(2024, 2, 1, 12).getTime(),
+      },
+    ]);
+  });
+
+  it('should read the highlight table of older versions', () => {
+    const source = `return {
+      ["highlight"] = {
+        [12] = { [1] = { ["text"] = "Second", ["pos0"] = "b", ["drawer"] = "lighten" } },
+        [3] = { [1] = { ["text"] = "First", ["pos0"] = "a", ["drawer"] = "lighten" } },
+      },
+      ["stats"] = { ["title"] = "Moby Dick", ["authors"] = "Herman Melville" },
+    }`;
+    const { annotations } = parseKOReaderMetadata(source);
+    expect(annotations.map(({ text, page }) => [text, page])).toEqual([
+      ['First', 3],
+      ['Second', 12],
+    ]);
+  });
+});
+
+describe('parseReadwiseCSV', () => {
+  it('should read the highlights and their books', () => {
+    const csv = [
+      'Highlight,Book Title,Book Author,Amazon Book ID,Note,Color,Tags,Location Type,Location,Highlighted at',
+      '"Call me Ishmael, he said.",Moby Dick,Herman Melville,,"A ""note""",pink,,page,12,2024-01-01 10:00:00',
+      '"Two\nlines",Moby Dick,Herman Melville,,,yellow,,location,300,',
+    ].join('\n');
+    expect(parseReadwiseCSV(csv)).toEqual([
+      {
+        source: 'readwise',
+        title: 'Moby Dick',
+        author: 'Herman Melville',
+        text: 'Call me Ishmael, he said.',
+        note: 'A "note"',
+        color: 'red',
+        page: 12,
+        createdAt: new Date(2024, 0, 1, 10).getTime(),
+      },
+      {
+        source: 'readwise',
+        title: 'Moby Dick',
+        author: 'Herman Melville',
+        text: 'Two\nlines',
+        note: undefined,
+        color: 'yellow',
+        page: undefined,
+        createdAt: undefined,
+      },
+    ]);
+  });
+});
+
+describe('parseMarkdownHighlights', () => {
+  it('should read Readwise Markdown exports', () => {
+    const markdown = [
+      '# Moby Dick',
+      '',
+      '## Metadata',
+      '- Author: [[Herman Melville]]',
+      '- Full Title: Moby Dick',
+      '',
+      '## Highlights',
+      '- Call me Ishmael. ([Location 12](https://readwise.io/to_kindle?location=12))',
+      '    - **Note:** The narrator',
+      '    - **Tags:** #people',
+      '- It is a damp, drizzly November in my soul. (Page 3)',
+    ].join('\n');
+    expect(parseMarkdownHighlights(markdown)).toEqual([
+      {
+        source: 'markdown',
+        title: 'Moby Dick',
+        author: 'Herman Melville',
+        text: 'Call me Ishmael.',
+        note: 'The narrator',
+        chapter: undefined,
+        page: undefined,
+      },
+      {
+        source: 'markdown',
+        title: 'Moby Dick',
+        author: 'Herman Melville',
+        text: 'It is a damp, drizzly November in my soul.',
+        chapter: undefined,
+        page: 3,
+      },
+    ]);
+  });
+
+  it('should read Readest Markdown exports', () => {
+    const markdown = [
+      '# Moby Dick',
+      '**Author**: Herman Melville',
+      '',
+      '---',
+      '## Highlights & Annotations',
+      '',
+      '### Loomings',
+      '> Call me Ishmael.',
+      '',
+      '**Note**: The narrator',
+      '',
+      '*Page: 1 · Time: 1/1/2024*',
+    ].join('\n');
+    expect(parseMarkdownHighlights(markdown, 'notes.md')).toEqual([
+      {
+        source: 'markdown',
+        title: 'Moby Dick',
+        author: 'Herman Melville',
+        text: 'Call me Ishmael.',
+        note: 'The narrator',
+        chapter: 'Loomings',
+        page: 1,
+      },
+    ]);
+  });
+});
+
+describe('findLibraryBook', () => {
+  const library = [
+    createMockBook({
+      hash: 'hash-1',
+      title: 'Moby Dick: or, The Whale',
+      author: 'Herman Melville',
+    }),
+    createMockBook({ hash: 'hash-2', title: 'Moby Dick', author: 'Someone Else' }),
+    createMockBook({
+      hash: 'hash-3',
+      title: 'Typee',
+      author: 'Herman Melville',
+      metaHash: 'meta-3',
+    }),
+  ];
+
+  it('should match by title and author', () => {
+    expect(findLibraryBook(makeAnnotation(), library)?.hash).toBe('hash-1');
+    expect(findLibraryBook(makeAnnotation({ title: 'Mobby Dick' }), library)?.hash).toBe('hash-1');
+    expect(findLibraryBook(makeAnnotation({ title: 'Omoo' }), library)).toBeNull();
+  });
+
+  it('should prefer the metadata hash', () => {
+    expect(findLibraryBook(makeAnnotation({ metaHash: 'meta-3' }), library)?.hash).toBe('hash-3');
+  });
+
+  it('should group the annotations by book', () => {
+    const groups = groupImportedAnnotations(
+      [makeAnnotation(), makeAnnotation({ text: 'Second' }), makeAnnotation({ title: 'Omoo' })],
+      library,
+    );
+    expect(
+      groups.map(({ title, book, annotations }) => [title, book?.hash, annotations.length]),
+    ).toEqual([
+      ['Moby Dick', 'hash-1', 2],
+      ['Omoo', undefined, 1],
+    ]);
+  });
+});
+
+describe('createImportedBooknotes', () => {
+  it('should add the located annotations that are not in the book yet', () => {
+    const existing = createMockNote({ cfi: 'epubcfi(/6/2!/4/2,/1:0,/1:5)', text: 'Call' });
+    const annotations = [
+      makeAnnotation({ text: 'Call', note: 'dup' }),
+      makeAnnotation({ note: 'The narrator', color: 'green', createdAt: 100 }),
+      makeAnnotation({ text: 'Not in the book' }),
+    ];
+    const cfis = [existing.cfi, 'epubcfi(/6/2!/4/2,/1:0,/1:16)', null];
+    const { booknotes, result } = createImportedBooknotes(annotations, cfis, [existing], 500);
+    expect(result).toEqual({ imported: 1, skipped: 1, unanchored: [annotations[2]] });
+    expect(booknotes).toHaveLength(2);
+    expect(booknotes[1]).toMatchObject({
+      type: 'annotation',
+      cfi: cfis[1],
+      text: 'Call me Ishmael.',
+      note: 'The narrator',
+      style: 'highlight',
+      color: 'green',
+      createdAt: 100,
+      updatedAt: 500,
+    });
+  });
+});
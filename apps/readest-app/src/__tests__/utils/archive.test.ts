@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { is7zFile, isDjVuFile, isRARFile } from '@/utils/archive';
+
+// jsdom's Blob doesn't implement arrayBuffer(), polyfill it via FileReader
+if (typeof Blob.prototype.arrayBuffer !== 'function') {
+  Blob.prototype.arrayBuffer = function () {
+    return new Promise((res, reject) => {
+      const reader = new FileReader();
+      reader.onload = () => res(reader.result as ArrayBuffer);
+      reader.onerror = () => reject(reader.error);
+      reader.readAsArrayBuffer(this);
+    });
+  };
+}
+
+const makeFile = (bytes: number[] | string) =>
+  new Blob([typeof bytes === 'string' ? bytes : new Uint8Array(bytes)]);
+
+describe('archive signatures', () => {
+  const rar4 = makeFile([0x52, 0x61, 0x72, 0x21, 0x1a, 0x07, 0x00, 0xcf]);
+  const rar5 = makeFile([0x52, 0x61, 0x72, 0x21, 0x1a, 0x07, 0x01, 0x00]);
+  const sevenZip = makeFile([0x37, 0x7a, 0xbc, 0xaf, 0x27, 0x1c, 0x00, 0x04]);
+  const djvu = makeFile('AT&TFORM\x00\x00\x00\x10DJVUINFO');
+  const zip = makeFile([0x50, 0x4b, 0x03, 0x04, 0x14, 0x00]);
+
+  it('should detect RAR 4 and RAR 5 archives', async () => {
+    expect(await isRARFile(rar4)).toBe(true);
+    expect(await isRARFile(rar5)).toBe(true);
+    expect(await isRARFile(sevenZip)).toBe(false);
+    expect(await isRARFile(zip)).toBe(false);
+  });
+
+  it('should detect 7z archives', async () => {
+    expect(await is7zFile(sevenZip)).toBe(true);
+    expect(await is7zFile(rar4)).toBe(false);
+  });
+
+  it('should detect DjVu documents', async () => {
+    expect(await isDjVuFile(djvu)).toBe(true);
+    expect(await isDjVuFile(makeFile('AT&T'))).toBe(false);
+    expect(await isDjVuFile(zip)).toBe(false);
+  });
+
+  it('should not match files shorter than the signature', async () => {
+    expect(await isRARFile(makeFile([0x52, 0x61, 0x72]))).toBe(false);
+    expect(await is7zFile(makeFile([]))).toBe(false);
+  });
+});
@@ -0,0 +1,210 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildAudiobookChapters,
+  buildID3Tag,
+  buildM4B,
+  extractSpeechText,
+  parseMP3Frames,
+  splitTextForSpeech,
+} from '@/utils/audiobook';
+
+const sections = [{ linear: 'yes' }, { linear: 'yes' }, { linear: 'no' }, { linear: 'yes' }];
+
+describe('buildAudiobookChapters', () => {
+  it('should split sections at TOC entries', () => {
+    const chapters = buildAudiobookChapters(
+      [
+        { title: 'One', sectionIndex: 1 },
+        { title: 'Two', sectionIndex: 3 },
+      ],
+      sections,
+    );
+    expect(chapters).toEqual([
+      { title: 'One', startSection: 0, endSection: 3 },
+      { title: 'Two', startSection: 3, endSection: 4 },
+    ]);
+  });
+
+  it('should drop unresolved and repeated entries', () => {
+    const chapters = buildAudiobookChapters(
+      [
+        { title: 'Two', sectionIndex: 3 },
+        { title: 'Missing', sectionIndex: -1 },
+        { title: 'One', sectionIndex: 0 },
+        { title: 'One Again', sectionIndex: 0 },
+      ],
+      sections,
+    );
+    expect(chapters.map((c) => c.title)).toEqual(['One', 'Two']);
+  });
+
+  it('should use linear sections when there is no TOC', () => {
+    const chapters = buildAudiobookChapters([], sections);
+    expect(chapters.map((c) => c.startSection)).toEqual([0, 1, 3]);
+    expect(chapters.map((c) => c.title)).toEqual(['1', '2', '3']);
+  });
+});
+
+describe('splitTextForSpeech', () => {
+  it('should keep short text in one segment', () => {
+    expect(splitTextForSpeech('Hello   world. How are you?')).toEqual([
+      'Hello world. How are you?',
+    ]);
+  });
+
+  it('should break at sentence ends', () => {
+    const text = Array.from({ length: 10 }, (_, i) => `Sentence ${i} is here.`).join(' ');
+    const segments = splitTextForSpeech(text, 50);
+    expect(segments.length).toBeGreaterThan(1);
+    segments.forEach((segment) => {
+      expect(segment.length).toBeLessThanOrEqual(50);
+      expect(segment.endsWith('.')).toBe(true);
+    });
+    expect(segments.join(' ')).toBe(text);
+  });
+
+  it('should break long sentences at words', () => {
+    const segments = splitTextForSpeech('word '.repeat(30), 20);
+    segments.forEach((segment) => expect(segment.length).toBeLessThanOrEqual(20));
+    expect(segments.join(' ').split(' ')).toHaveLength(30);
+  });
+
+  it('should return no segments for empty text', () => {
+    expect(splitTextForSpeech('  \n ')).toEqual([]);
+  });
+});
+
+describe('extractSpeechText', () => {
+  it('should separate blocks and skip scripts', () => {
+    const doc = new DOMParser().parseFromString(
+      '<html><body><h1>Title</h1><p>First.</p><script>x()</script><p>Second.</p></body></html>',
+      'text/html',
+    );
+    expect(splitTextForSpeech(extractSpeechText(doc), 6)).toEqual(['Title', 'First.', 'Second.']);
+  });
+});
+
+// MPEG-2 Layer III, 48kbps, 24kHz, mono: 144 byte frames of 576 samples
+const mp3Frame = (fill: number) => {
+  const frame = new Uint8Array(144).fill(fill);
+  frame.set([0xff, 0xf3, 0x64, 0xc0]);
+  return frame;
+};
+
+const mp3 = (frames: number, fill = 0) =>
+  new Uint8Array(Array.from({ length: frames }, () => [...mp3Frame(fill)]).flat());
+
+const readUint32 = (bytes: Uint8Array, offset: number) =>
+  new DataView(bytes.buffer, bytes.byteOffset).getUint32(offset);
+
+const findBox = (bytes: Uint8Array, type: string, from = 0) => {
+  const text = String.fromCharCode(...bytes);
+  const index = text.indexOf(type, from);
+  return index < 0 ? -1 : index - 4;
+};
+
+describe('parseMP3Frames', () => {
+  it('should split frames and skip tags and garbage', () => {
+    const tag = buildID3Tag({ title: 'Chapter' });
+    const audio = new Uint8Array([...tag, ...mp3(2), 0x00, 0x01, ...mp3(1)]);
+    const parsed = parseMP3Frames(audio)!;
+    expect(parsed).toMatchObject({
+      sampleRate: 24000,
+      samplesPerFrame: 576,
+      channels: 1,
+      mpegVersion: 2,
+      bitrate: 48000,
+    });
+    expect(parsed.frames).toHaveLength(3);
+    parsed.frames.forEach((frame) => expect(frame.length).toBe(144));
+  });
+
+  it('should return null without frames', () => {
+    expect(parseMP3Frames(new Uint8Array(100))).toBeNull();
+  });
+});
+
+describe('buildM4B', () => {
+  const chapters = [
+    { title: 'One', audio: mp3(25, 1) },
+    { title: 'Empty', audio: new Uint8Array() },
+    { title: 'Zwei Ü', audio: mp3(50, 2) },
+  ];
+
+  it('should lay out ftyp, moov and mdat boxes', () => {
+    const m4b = buildM4B({ title: 'Book', artist: 'Author' }, chapters);
+    const types: string[] = [];
+    let offset = 0;
+    while (offset < m4b.length) {
+      types.push(String.fromCharCode(...m4b.subarray(offset + 4, offset + 8)));
+      offset += readUint32(m4b, offset);
+    }
+    expect(offset).toBe(m4b.length);
+    expect(types).toEqual(['ftyp', 'moov', 'mdat']);
+    expect(String.fromCharCode(...m4b.subarray(8, 12))).toBe('M4B ');
+  });
+
+  it('should put each chapter title before the audio of the chapter', () => {
+    const m4b = buildM4B({ title: 'Book' }, chapters);
+    const audioChunks = findBox(m4b, 'stco');
+    const titleChunks = findBox(m4b, 'stco', audioChunks + 8);
+    expect(readUint32(m4b, audioChunks + 12)).toBe(2);
+    expect(readUint32(m4b, titleChunks + 12)).toBe(2);
+
+    const titles: string[] = [];
+    for (let i = 0; i < 2; i++) {
+      const titleOffset = readUint32(m4b, titleChunks + 16 + i * 4);
+      const length = (m4b[titleOffset]! << 8) | m4b[titleOffset + 1]!;
+      titles.push(
+        new TextDecoder().decode(m4b.subarray(titleOffset + 2, titleOffset + 2 + length)),
+      );
+      // the title sample ends with an encd atom
+      const audioOffset = readUint32(m4b, audioChunks + 16 + i * 4);
+      expect(audioOffset).toBe(titleOffset + 2 + length + 12);
+      expect([...m4b.subarray(audioOffset, audioOffset + 5)]).toEqual([
+        0xff,
+        0xf3,
+        0x64,
+        0xc0,
+        i + 1,
+      ]);
+    }
+    expect(titles).toEqual(['One', 'Zwei Ü']);
+    expect(readUint32(m4b, audioChunks + 20) + 50 * 144).toBe(m4b.length);
+
+    const sizes = findBox(m4b, 'stsz');
+    expect(readUint32(m4b, sizes + 16)).toBe(75);
+  });
+
+  it('should time chapters by their frames', () => {
+    const m4b = buildM4B({ title: 'Book' }, chapters);
+    const chapterTimes = findBox(m4b, 'stts', findBox(m4b, 'stts') + 8);
+    expect(readUint32(m4b, chapterTimes + 12)).toBe(2);
+    expect(readUint32(m4b, chapterTimes + 20)).toBe(25 * 576);
+    expect(readUint32(m4b, chapterTimes + 28)).toBe(50 * 576);
+    const movieHeader = findBox(m4b, 'mvhd');
+    // 75 frames of 24ms
+    expect(readUint32(m4b, movieHeader + 24)).toBe(1800);
+  });
+
+  it('should reject chapters without audio', () => {
+    expect(() =>
+      buildM4B({ title: 'Book' }, [{ title: 'Empty', audio: new Uint8Array() }]),
+    ).toThrow();
+  });
+});
+
+describe('buildID3Tag', () => {
+  it('should write an ID3v2.3 header with text frames', () => {
+    const tag = buildID3Tag({ title: 'Book', artist: 'Author', track: 2 });
+    const text = String.fromCharCode(...tag);
+    expect(text.slice(0, 3)).toBe('ID3');
+    expect(tag[3]).toBe(3);
+    const size = (tag[6]! << 21) | (tag[7]! << 14) | (tag[8]! << 7) | tag[9]!;
+    expect(size).toBe(tag.length - 10);
+    expect(text).toContain('TIT2');
+    expect(text).toContain('TPE1');
+    expect(text).toContain('TRCK');
+    expect(text).not.toContain('TALB');
+  });
+});
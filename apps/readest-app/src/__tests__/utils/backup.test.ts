@@ -0,0 +1,216 @@
+import { describe, it, expect } from 'vitest';
+import { BookConfig } from '@/types/book';
+import { SystemSettings } from '@/types/settings';
+import {
+  createBackupManifest,
+  findLocalBook,
+  mergeBackupBook,
+  mergeBackupConfig,
+  mergeBackupSettings,
+  mergeBookNotes,
+  sanitizeBackupSettings,
+  validateBackupLibrary,
+  validateBackupManifest,
+} from '../../utils/backup';
+import { createMockBook, createMockNote } from '../helpers/book';
+
+describe('validateBackupManifest', () => {
+  it('should accept a manifest created by the current version', () => {
+    const manifest = createBackupManifest(3, true);
+    expect(validateBackupManifest(manifest)).toEqual(manifest);
+  });
+
+  it('should reject archives that are not library backups', () => {
+    expect(() => validateBackupManifest(null)).toThrow();
+    expect(() => validateBackupManifest({ format: 'other', version: 1 })).toThrow();
+  });
+
+  it('should reject backups from a newer version', () => {
+    const manifest = { ...createBackupManifest(0, false), version: 99 };
+    expect(() => validateBackupManifest(manifest)).toThrow('Unsupported library backup version');
+  });
+});
+
+describe('validateBackupLibrary', () => {
+  it('should drop malformed and unsafe book entries', () => {
+    const books = validateBackupLibrary([
+      createMockBook({ hash: 'abc123' }),
+      { hash: '../escape', format: 'EPUB', title: 'Bad' },
+      { title: 'No hash' },
+      null,
+    ]);
+    expect(books.map((book) => book.hash)).toEqual(['abc123']);
+  });
+
+  it('should throw when the library is not an array', () => {
+    expect(() => validateBackupLibrary({})).toThrow('Invalid library in backup');
+  });
+});
+
+describe('findLocalBook', () => {
+  it('should match by hash before metaHash', () => {
+    const byHash = createMockBook({ hash: 'a', metaHash: 'm1' });
+    const byMeta = createMockBook({ hash: 'b', metaHash: 'm2' });
+    expect(findLocalBook([byMeta, byHash], createMockBook({ hash: 'a', metaHash: 'm2' }))).toBe(
+      byHash,
+    );
+    expect(findLocalBook([byHash, byMeta], createMockBook({ hash: 'c', metaHash: 'm2' }))).toBe(
+      byMeta,
+    );
+    expect(findLocalBook([byHash, byMeta], createMockBook({ hash: 'c' }))).toBeUndefined();
+  });
+});
+
+describe('mergeBackupBook', () => {
+  it('should keep newer local metadata', () => {
+    const local = createMockBook({ title: 'Local', updatedAt: 2000 });
+    const backup = createMockBook({ title: 'Backup', updatedAt: 1500 });
+    expect(mergeBackupBook(local, backup)).toBe(local);
+  });
+
+  it('should take newer backup metadata but keep the local file state', () => {
+    const local = createMockBook({ hash: 'a', title: 'Local', downloadedAt: 10, updatedAt: 1000 });
+    const backup = createMockBook({
+      hash: 'b',
+      title: 'Backup',
+      downloadedAt: null,
+      updatedAt: 2000,
+    });
+    const merged = mergeBackupBook(local, backup);
+    expect(merged.title).toBe('Backup');
+    expect(merged.hash).toBe('a');
+    expect(merged.downloadedAt).toBe(10);
+  });
+});
+
+describe('mergeBookNotes', () => {
+  it('should merge notes by id keeping the newest version', () => {
+    const local = [
+      createMockNote({ id: '1', note: 'local newer', updatedAt: 3000 }),
+      createMockNote({ id: '2', note: 'local older', updatedAt: 1000 }),
+    ];
+    const backup = [
+      createMockNote({ id: '1', note: 'backup older', updatedAt: 2000 }),
+      createMockNote({ id: '2', note: 'backup newer', updatedAt: 2000 }),
+      createMockNote({ id: '3', note: 'backup only' }),
+    ];
+    const merged = mergeBookNotes(local, backup);
+    expect(merged.map((note) => note.note)).toEqual(['local newer', 'backup newer', 'backup only']);
+  });
+
+  it('should restore deletions made after the local update', () => {
+    const local = [createMockNote({ id: '1', updatedAt: 2000 })];
+    const backup = [createMockNote({ id: '1', updatedAt: 1000, deletedAt: 3000 })];
+    expect(mergeBookNotes(local, backup)[0]!.deletedAt).toBe(3000);
+  });
+});
+
+describe('mergeBackupConfig', () => {
+  it('should keep newer local progress and merge notes', () => {
+    const local: BookConfig = {
+      location: 'local-cfi',
+      progress: [50, 100],
+      booknotes: [createMockNote({ id: '1' })],
+      updatedAt: 2000,
+    };
+    const backup: BookConfig = {
+      location: 'backup-cfi',
+      progress: [10, 100],
+      booknotes: [createMockNote({ id: '2' })],
+      updatedAt: 1000,
+    };
+    const merged = mergeBackupConfig(local, backup);
+    expect(merged.location).toBe('local-cfi');
+    expect(merged.booknotes?.map((note) => note.id)).toEqual(['1', '2']);
+  });
+
+  it('should use the backup config when there is no local config', () => {
+    const backup: BookConfig = { location: 'backup-cfi', updatedAt: 1000 };
+    expect(mergeBackupConfig(null, backup)).toBe(backup);
+  });
+});
+
+describe('backup settings', () => {
+  const settings = {
+    localBooksDir: '/books',
+    lastSyncedAtBooks: 123,
+    kosync: { deviceId: 'device' },
+    customFonts: [{ id: 'f1', name: 'Local', path: 'local.ttf' }],
+    customTextures: [],
+    opdsCatalogs: [],
+  } as unknown as SystemSettings;
+
+  it('should strip device specific settings', () => {
+    const sanitized = sanitizeBackupSettings(settings);
+    expect(sanitized.localBooksDir).toBeUndefined();
+    expect(sanitized.lastSyncedAtBooks).toBeUndefined();
+    expect(sanitized.kosync?.deviceId).toBe('');
+  });
+
+  it('should only add missing custom fonts to the local settings', () => {
+    const merged = mergeBackupSettings(settings, {
+      localBooksDir: '/elsewhere',
+      customFonts: [
+        { id: 'f1', name: 'Backup', path: 'backup.ttf' },
+        { id: 'f2', name: 'New', path: 'new.ttf' },
+        { id: 'f3', name: 'Deleted', path: 'deleted.ttf', deletedAt: 1 },
+      ],
+    });
+    expect(merged.localBooksDir).toBe('/books');
+    expect(merged.customFonts.map((font) => font.name)).toEqual(['Local', 'New']);
+  });
+
+  it('should leave credentials out of the backup', () => {
+    const sanitized = sanitizeBackupSettings({
+      ...settings,
+      kosync: { username: 'reader', userkey: 'secret', deviceId: 'device' },
+      readwise: { enabled: true, accessToken: 'token', lastSyncedAt: 0 },
+      aiSettings: { provider: 'ollama', aiGatewayApiKey: 'key', openaiCompatibleApiKey: 'key' },
+      opdsCatalogs: [{ id: 'c1', name: 'Catalog', url: 'https://example.com', password: 'pw' }],
+      calibreSources: [
+        { id: 's1', name: 'Calibre', type: 'server', username: 'u', password: 'pw' },
+      ],
+    } as unknown as SystemSettings);
+    expect(sanitized.kosync).toEqual({ username: 'reader', deviceId: '' });
+    expect(sanitized.readwise).toEqual({ enabled: true, lastSyncedAt: 0 });
+    expect(sanitized.aiSettings).toEqual({ provider: 'ollama' });
+    expect(sanitized.opdsCatalogs).toEqual([
+      { id: 'c1', name: 'Catalog', url: 'https://example.com' },
+    ]);
+    expect(sanitized.calibreSources).toEqual([{ id: 's1', name: 'Calibre', type: 'server' }]);
+  });
+
+  it('should apply the backed up settings and keep the local credentials', () => {
+    const local = {
+      ...settings,
+      libraryViewMode: 'grid',
+      kosync: { username: 'reader', userkey: 'secret', deviceId: 'device', enabled: false },
+      readwise: { enabled: true, accessToken: 'token', lastSyncedAt: 0 },
+      aiSettings: { provider: 'ollama', aiGatewayApiKey: 'key' },
+      globalViewSettings: { fontSize: 16, lineHeight: 1.5 },
+      globalReadSettings: { sideBarWidth: '20%' },
+      watchFolders: [{ id: 'w1', path: '/local' }],
+    } as unknown as SystemSettings;
+    const backup = sanitizeBackupSettings({
+      ...local,
+      libraryViewMode: 'list',
+      kosync: { ...local.kosync, userkey: 'other', deviceId: 'other', enabled: true },
+      aiSettings: { provider: 'ai-gateway', aiGatewayApiKey: 'other' },
+      globalViewSettings: { fontSize: 20 },
+      watchFolders: [{ id: 'w2', path: '/elsewhere' }],
+    } as unknown as SystemSettings);
+    const merged = mergeBackupSettings(local, backup);
+    expect(merged.libraryViewMode).toBe('list');
+    expect(merged.globalViewSettings).toEqual({ fontSize: 20, lineHeight: 1.5 });
+    expect(merged.globalReadSettings).toEqual({ sideBarWidth: '20%' });
+    expect(merged.kosync).toEqual({
+      username: 'reader',
+      userkey: 'secret',
+      deviceId: 'device',
+      enabled: true,
+    });
+    expect(merged.aiSettings).toEqual({ provider: 'ai-gateway', aiGatewayApiKey: 'key' });
+    expect(merged.readwise.accessToken).toBe('token');
+    expect(merged.watchFolders).toEqual([{ id: 'w1', path: '/local' }]);
+  });
+});
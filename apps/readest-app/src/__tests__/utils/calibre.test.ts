@@ -0,0 +1,161 @@
+import { describe, it, expect } from 'vitest';
+import { CalibreBook } from '@/services/calibre/types';
+import {
+  applyCalibreBook,
+  getCalibreBookFields,
+  getLocalBookFields,
+  mergeCalibreFields,
+  parseCalibreDate,
+  parseCalibreServerBook,
+} from '@/services/calibre/mapping';
+import { createMockBook } from '../helpers/book';
+
+const makeCalibreBook = (overrides: Partial<CalibreBook> = {}): CalibreBook => ({
+  id: 42,
+  uuid: 'a1b2c3',
+  title: 'The Hobbit',
+  authors: ['J. R. R. Tolkien'],
+  series: 'Middle-earth',
+  seriesIndex: 1,
+  tags: ['Fantasy', 'Classic'],
+  rating: 8,
+  identifiers: { isbn: '9780261103344', goodreads: '5907' },
+  languages: ['eng'],
+  publisher: 'Allen & Unwin',
+  pubdate: '1937-09-21 00:00:00+00:00',
+  comments: '<p>A hobbit goes on an adventure.</p>',
+  lastModified: '2024-01-31 08:15:42.123456+00:00',
+  formats: [{ format: 'EPUB', path: '/library/hobbit.epub', size: 1000 }],
+  customColumns: {
+    read: { label: 'read', name: 'Read', datatype: 'bool', isMultiple: false, value: true },
+    genre: {
+      label: 'genre',
+      name: 'Genre',
+      datatype: 'text',
+      isMultiple: true,
+      value: ['Adventure', 'Quest'],
+    },
+    notes: { label: 'notes', name: 'Notes', datatype: 'comments', isMultiple: false, value: null },
+  },
+  ...overrides,
+});
+
+const makeBook = () =>
+  createMockBook({
+    title: 'Hobbit',
+    author: 'Tolkien',
+    metadata: { title: 'Hobbit', author: 'Tolkien', language: 'en' },
+  });
+
+describe('parseCalibreDate', () => {
+  it('parses Calibre timestamps with microseconds', () => {
+    expect(parseCalibreDate('2024-01-31 08:15:42.123456+00:00')).toBe(
+      Date.UTC(2024, 0, 31, 8, 15, 42, 123),
+    );
+  });
+
+  it('parses ISO timestamps and rejects invalid ones', () => {
+    expect(parseCalibreDate('2024-01-31T08:15:42+00:00')).toBe(Date.UTC(2024, 0, 31, 8, 15, 42));
+    expect(parseCalibreDate('not a date')).toBe(0);
+    expect(parseCalibreDate(null)).toBe(0);
+  });
+});
+
+describe('parseCalibreServerBook', () => {
+  it('maps the content server json onto a Calibre book', () => {
+    const book = parseCalibreServerBook(7, {
+      title: 'Dune',
+      authors: ['Frank Herbert'],
+      series_index: 2,
+      formats: ['epub', 'pdf'],
+      format_metadata: { epub: { size: 123 } },
+      last_modified: '2024-01-01T00:00:00+00:00',
+      user_metadata: {
+        '#shelf': {
+          label: 'shelf',
+          name: 'Shelf',
+          datatype: 'text',
+          is_multiple: { cache_to_list: ',' },
+          '#value#': ['Sci-Fi'],
+        },
+      },
+    });
+    expect(book.id).toBe(7);
+    expect(book.seriesIndex).toBe(2);
+    expect(book.tags).toEqual([]);
+    expect(book.formats).toEqual([
+      { format: 'EPUB', path: '', size: 123 },
+      { format: 'PDF', path: '', size: 0 },
+    ]);
+    expect(book.customColumns['shelf']).toMatchObject({ isMultiple: true, value: ['Sci-Fi'] });
+  });
+});
+
+describe('applyCalibreBook', () => {
+  it('maps Calibre metadata onto the book and links it', () => {
+    const book = makeBook();
+    applyCalibreBook(book, makeCalibreBook(), 'source1');
+    expect(book.title).toBe('The Hobbit');
+    expect(book.tags).toEqual(['Fantasy', 'Classic']);
+    expect(book.metadata?.author).toBe('J. R. R. Tolkien');
+    expect(book.metadata?.series).toBe('Middle-earth');
+    expect(book.metadata?.belongsTo?.series).toEqual({ name: 'Middle-earth', position: '1' });
+    expect(book.metadata?.rating).toBe(4);
+    expect(book.metadata?.language).toBe('eng');
+    expect(book.metadata?.identifier).toBe('isbn:9780261103344');
+    expect(book.metadata?.altIdentifier).toEqual([
+      'calibre:a1b2c3',
+      'isbn:9780261103344',
+      'goodreads:5907',
+    ]);
+    expect(book.metadata?.customColumns).toEqual({
+      read: { name: 'Read', value: 'Yes' },
+      genre: { name: 'Genre', value: 'Adventure, Quest' },
+    });
+    expect(book.calibre).toMatchObject({
+      sourceId: 'source1',
+      bookId: 42,
+      lastModified: Date.UTC(2024, 0, 31, 8, 15, 42, 123),
+    });
+    expect(getLocalBookFields(book)).toEqual(book.calibre?.fields);
+  });
+
+  it('round-trips multiple authors', () => {
+    const book = makeBook();
+    applyCalibreBook(book, makeCalibreBook({ authors: ['Alice', 'Bob'] }), 'source1');
+    expect(getLocalBookFields(book).authors).toEqual(['Alice', 'Bob']);
+  });
+});
+
+describe('mergeCalibreFields', () => {
+  const base = getCalibreBookFields(makeCalibreBook());
+
+  it('pushes local changes and pulls remote changes on different fields', () => {
+    const local = { ...base, tags: ['Fantasy'] };
+    const remote = { ...base, rating: 10 };
+    expect(mergeCalibreFields(base, local, remote)).toEqual({
+      push: { tags: ['Fantasy'] },
+      pull: { rating: 10 },
+      conflicts: [],
+    });
+  });
+
+  it('keeps the Calibre value of fields changed on both sides', () => {
+    const local = { ...base, title: 'Local Title', tags: ['Fantasy'] };
+    const remote = { ...base, title: 'Remote Title' };
+    expect(mergeCalibreFields(base, local, remote)).toEqual({
+      push: { tags: ['Fantasy'] },
+      pull: { title: 'Remote Title' },
+      conflicts: ['title'],
+    });
+  });
+
+  it('does nothing when both sides made the same change', () => {
+    const changed = { ...base, series: 'Legendarium' };
+    expect(mergeCalibreFields(base, changed, changed)).toEqual({
+      push: {},
+      pull: {},
+      conflicts: [],
+    });
+  });
+});
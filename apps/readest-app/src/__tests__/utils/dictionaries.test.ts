@@ -0,0 +1,253 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import { constants, deflateRawSync, deflateSync, gzipSync } from 'zlib';
+import { StarDictReader, parseStarDictData } from '@/services/dictionaries/StarDictReader';
+import { DictdReader, decodeDictdNumber } from '@/services/dictionaries/DictdReader';
+import { MDictReader } from '@/services/dictionaries/MDictReader';
+import { ripemd128 } from '@/services/dictionaries/ripemd128';
+import { getLookupCandidates } from '@/services/dictionaries/lemmatize';
+import { groupDictionaryFiles } from '@/services/dictionaries/DictionaryManager';
+
+const encoder = new TextEncoder();
+
+const concat = (...parts: Uint8Array[]) => {
+  const result = new Uint8Array(parts.reduce((size, part) => size + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+};
+
+const uint = (value: number, width: 1 | 2 | 4 | 8) => {
+  const bytes = new Uint8Array(width);
+  const view = new DataView(bytes.buffer);
+  if (width === 8) view.setBigUint64(0, BigInt(value));
+  else if (width === 4) view.setUint32(0, value);
+  else if (width === 2) view.setUint16(0, value);
+  else view.setUint8(0, value);
+  return bytes;
+};
+
+const text = (value: string) => encoder.encode(value);
+const cstring = (value: string) => concat(text(value), new Uint8Array([0]));
+const toHex = (bytes: Uint8Array) => Buffer.from(bytes).toString('hex');
+const le16 = (value: number) => new Uint8Array([value & 0xff, value >> 8]);
+
+// A dictzip file with its chunk table in the 'RA' extra field and a file name in the header
+const dictzip = (data: Uint8Array, chunkLength: number) => {
+  const chunks: Uint8Array[] = [];
+  for (let start = 0; start < data.length; start += chunkLength) {
+    const chunk = data.subarray(start, start + chunkLength);
+    const last = start + chunkLength >= data.length;
+    chunks.push(
+      new Uint8Array(
+        last
+          ? deflateRawSync(chunk)
+          : deflateRawSync(chunk, { finishFlush: constants.Z_FULL_FLUSH }),
+      ),
+    );
+  }
+  const field = concat(
+    le16(1),
+    le16(chunkLength),
+    le16(chunks.length),
+    ...chunks.map((chunk) => le16(chunk.length)),
+  );
+  const extra = concat(text('RA'), le16(field.length), field);
+  return concat(
+    new Uint8Array([0x1f, 0x8b, 8, 0x0c, 0, 0, 0, 0, 0, 3]),
+    le16(extra.length),
+    extra,
+    cstring('test.dict'),
+    ...chunks,
+    new Uint8Array(8),
+  );
+};
+
+describe('StarDictReader', () => {
+  const definitions = ['a round fruit', 'a color'];
+  const idx = concat(
+    cstring('Apple'),
+    uint(0, 4),
+    uint(definitions[0]!.length, 4),
+    cstring('red'),
+    uint(definitions[0]!.length, 4),
+    uint(definitions[1]!.length, 4),
+  );
+
+  it('looks up the words and their synonyms in a gzipped dictionary', async () => {
+    const reader = await StarDictReader.open({
+      ifo: new Blob([
+        "StarDict's dict ifo file\nversion=2.4.2\nbookname=Test Dictionary\nwordcount=2\nsametypesequence=m\n",
+      ]),
+      idx: new Blob([idx]),
+      dict: new Blob([gzipSync(Buffer.from(definitions.join('')))]),
+      syn: new Blob([concat(cstring('apples'), uint(0, 4))]),
+    });
+    expect(reader.name).toBe('Test Dictionary');
+    expect(reader.wordCount).toBe(2);
+    expect(await reader.lookup('apple')).toEqual([
+      { headword: 'Apple', definition: 'a round fruit', html: false },
+    ]);
+    expect((await reader.lookup('apples'))[0]?.definition).toBe('a round fruit');
+    expect(await reader.lookup('blue')).toEqual([]);
+  });
+
+  it('reads the entries of a dictzip dictionary by chunk', async () => {
+    const reader = await StarDictReader.open({
+      ifo: new Blob(["StarDict's dict ifo file\nbookname=Test\nwordcount=2\nsametypesequence=m\n"]),
+      idx: new Blob([gzipSync(idx)]),
+      dict: new Blob([dictzip(text(definitions.join('')), 6)]),
+    });
+    expect((await reader.lookup('apple'))[0]?.definition).toBe('a round fruit');
+    expect((await reader.lookup('red'))[0]?.definition).toBe('a color');
+  });
+
+  it('splits the typed fields of the entries', () => {
+    const data = concat(cstring('t/ˈæp.əl/'), text('h<b>fruit</b>'));
+    expect(parseStarDictData(data)).toEqual([
+      { type: 't', text: '/ˈæp.əl/' },
+      { type: 'h', text: '<b>fruit</b>' },
+    ]);
+    expect(parseStarDictData(concat(cstring('/ˈæp.əl/'), text('fruit')), 'tm')).toEqual([
+      { type: 't', text: '/ˈæp.əl/' },
+      { type: 'm', text: 'fruit' },
+    ]);
+  });
+});
+
+describe('DictdReader', () => {
+  it('decodes the base64 numbers of the index', () => {
+    expect(decodeDictdNumber('A')).toBe(0);
+    expect(decodeDictdNumber('BA')).toBe(64);
+    expect(decodeDictdNumber('b')).toBe(27);
+  });
+
+  it('reads the name and the definitions', async () => {
+    const dict = '00databaseshort\n     Test DICT\napple\n  A round fruit.\n';
+    const reader = await DictdReader.open({
+      index: new Blob(['00databaseshort\tA\tf\napple\tf\tX\n']),
+      dict: new Blob([dict]),
+    });
+    expect(reader.name).toBe('Test DICT');
+    expect(reader.wordCount).toBe(1);
+    expect(await reader.lookup('Apple')).toEqual([
+      { headword: 'apple', definition: 'A round fruit.', html: false },
+    ]);
+  });
+});
+
+describe('MDictReader', () => {
+  const createMDict = () => {
+    const header = Buffer.from(
+      '<Dictionary GeneratedByEngineVersion="2.0" Encoding="UTF-8" Encrypted="0" Title="Test MDict"/>\0',
+      'utf16le',
+    );
+    const records = [cstring('<b>apple</b> a round fruit'), cstring('@@@LINK=apple')];
+    const keys = ['apple', 'apples'];
+    const keyBlock = concat(
+      new Uint8Array(8),
+      uint(0, 8),
+      cstring(keys[0]!),
+      uint(records[0]!.length, 8),
+      cstring(keys[1]!),
+    );
+    const keyInfo = concat(
+      new Uint8Array([0, 0, 0, 0, 0, 0, 0, 0]),
+      uint(keys.length, 8),
+      uint(keys[0]!.length, 2),
+      cstring(keys[0]!),
+      uint(keys[1]!.length, 2),
+      cstring(keys[1]!),
+      uint(keyBlock.length, 8),
+      uint(keyBlock.length - 8, 8),
+    );
+    const recordData = concat(...records);
+    const recordBlock = concat(new Uint8Array([2, 0, 0, 0, 0, 0, 0, 0]), deflateSync(recordData));
+    return concat(
+      uint(header.length, 4),
+      header,
+      new Uint8Array(4),
+      uint(1, 8),
+      uint(keys.length, 8),
+      uint(keyInfo.length - 8, 8),
+      uint(keyInfo.length, 8),
+      uint(keyBlock.length, 8),
+      new Uint8Array(4),
+      keyInfo,
+      keyBlock,
+      uint(1, 8),
+      uint(keys.length, 8),
+      uint(16, 8),
+      uint(recordBlock.length, 8),
+      uint(recordBlock.length, 8),
+      uint(recordData.length, 8),
+      recordBlock,
+    );
+  };
+
+  it('reads the keys and follows the links between records', async () => {
+    const reader = await MDictReader.open(new Blob([createMDict()]));
+    expect(reader.name).toBe('Test MDict');
+    expect(reader.wordCount).toBe(2);
+    expect(await reader.lookup('Apples')).toEqual([
+      { headword: 'apple', definition: '<b>apple</b> a round fruit', html: true },
+    ]);
+  });
+});
+
+describe('ripemd128', () => {
+  it('computes the reference digests', () => {
+    expect(toHex(ripemd128(text('')))).toBe('cdf26213a150dc3ecb610f18f6b38b46');
+    expect(toHex(ripemd128(text('abc')))).toBe('c14a12199c66e4ba84636b0f69144c77');
+    expect(toHex(ripemd128(text('12345678901234567890'.repeat(4))))).toBe(
+      '3f45ef194732c2dbb2c4a2c769795fa3',
+    );
+  });
+});
+
+describe('getLookupCandidates', () => {
+  it('removes the punctuation and the English inflections', () => {
+    expect(getLookupCandidates('Stopped,', 'en')).toEqual(
+      expect.arrayContaining(['Stopped', 'stopped', 'stop']),
+    );
+    expect(getLookupCandidates('cities', 'en-US')).toContain('city');
+    expect(getLookupCandidates('children', 'en')).toContain('child');
+    expect(getLookupCandidates('making', 'en')).toContain('make');
+  });
+
+  it('handles elisions and the inflections of other languages', () => {
+    expect(getLookupCandidates("l'hôpitaux", 'fr')).toEqual(
+      expect.arrayContaining(['hôpitaux', 'hôpital']),
+    );
+    expect(getLookupCandidates('hablando', 'es')).toContain('hablar');
+    expect(getLookupCandidates('häuser', 'de')).toContain('Häuser');
+    expect(getLookupCandidates('gemacht', 'de')).toContain('machen');
+  });
+
+  it('only normalizes the case for unknown languages', () => {
+    expect(getLookupCandidates('Слово', 'ru')).toEqual(['Слово', 'слово']);
+  });
+});
+
+describe('groupDictionaryFiles', () => {
+  it('groups the files of each dictionary and skips incomplete ones', () => {
+    const sets = groupDictionaryFiles([
+      '/dicts/wordnet.ifo',
+      '/dicts/wordnet.idx',
+      '/dicts/wordnet.dict.dz',
+      '/dicts/gcide.index',
+      '/dicts/gcide.dict.dz',
+      '/dicts/oxford.mdx',
+      '/dicts/broken.idx',
+    ]);
+    expect(sets.map(({ name, format }) => [name, format])).toEqual([
+      ['wordnet', 'stardict'],
+      ['gcide', 'dictd'],
+      ['oxford', 'mdict'],
+    ]);
+    expect(sets[0]!.files['dict']).toBe('/dicts/wordnet.dict.dz');
+  });
+});
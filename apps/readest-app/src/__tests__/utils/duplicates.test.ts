@@ -0,0 +1,160 @@
+import { describe, it, expect } from 'vitest';
+import { Book, BookConfig } from '@/types/book';
+import {
+  findDuplicateClusters,
+  getBookISBNs,
+  mergeDuplicateBooks,
+  mergeDuplicateConfigs,
+  normalizeAuthor,
+  normalizeTitle,
+} from '@/utils/duplicates';
+import { createMockBook, createMockNote } from '../helpers/book';
+
+describe('findDuplicateClusters', () => {
+  it('clusters the books by metadata hash and ISBN', () => {
+    const books = [
+      createMockBook({ hash: 'a', title: 'Dune', metaHash: 'm1' }),
+      createMockBook({ hash: 'b', title: 'Dune Messiah', metaHash: 'm1' }),
+      createMockBook({
+        hash: 'c',
+        title: 'Emma',
+        metadata: { identifier: 'urn:isbn:0-306-40615-2' },
+      }),
+      createMockBook({
+        hash: 'd',
+        title: 'Ulysses',
+        metadata: { identifier: '978-0-306-40615-7' },
+      }),
+      createMockBook({ hash: 'e', title: 'Beloved' }),
+    ];
+    const clusters = findDuplicateClusters(books);
+    expect(clusters).toHaveLength(2);
+    expect(clusters.map((c) => c.books.map((b) => b.hash).sort())).toEqual([
+      ['a', 'b'],
+      ['c', 'd'],
+    ]);
+    expect(clusters.map((c) => c.reasons)).toEqual([['metaHash'], ['isbn']]);
+  });
+
+  it('matches similar titles of the same author', () => {
+    const books = [
+      createMockBook({ hash: 'a', title: 'The Lord of the Rings', author: 'J. R. R. Tolkien' }),
+      createMockBook({
+        hash: 'b',
+        title: 'Lord of the Rings: Special Edition',
+        author: 'Tolkien, J.R.R.',
+      }),
+      createMockBook({ hash: 'c', title: 'The Lord of the Ring', author: 'John Tolkien' }),
+      createMockBook({ hash: 'd', title: 'The Lord of the Rings', author: 'Someone Else' }),
+    ];
+    const [cluster, ...rest] = findDuplicateClusters(books);
+    expect(rest).toHaveLength(0);
+    expect(cluster!.books.map((b) => b.hash).sort()).toEqual(['a', 'b', 'c']);
+    expect(cluster!.reasons).toEqual(['title']);
+  });
+
+  it('ignores the deleted books and suggests the downloaded copy first', () => {
+    const books = [
+      createMockBook({ hash: 'a', metaHash: 'm1', deletedAt: 1 }),
+      createMockBook({ hash: 'b', metaHash: 'm1' }),
+      createMockBook({ hash: 'c', metaHash: 'm1', downloadedAt: 1 }),
+    ];
+    const clusters = findDuplicateClusters(books);
+    expect(clusters[0]!.books.map((b) => b.hash)).toEqual(['c', 'b']);
+  });
+});
+
+describe('getBookISBNs', () => {
+  it('normalizes the ISBNs to ISBN-13 and skips invalid ones', () => {
+    const metadata = {
+      identifier: 'isbn:0306406152',
+      altIdentifier: [{ scheme: 'ISBN', value: '9780306406157' }, '1234567890'],
+    } as unknown as Book['metadata'];
+    expect(getBookISBNs(metadata)).toEqual(['9780306406157']);
+  });
+});
+
+describe('normalizeTitle and normalizeAuthor', () => {
+  it('strips subtitles, articles and punctuation', () => {
+    expect(normalizeTitle('The Hobbit: or There and Back Again')).toBe('hobbit');
+    expect(normalizeTitle('Les Misérables (Tome 1)')).toBe('les miserables');
+  });
+
+  it('uses the surname of the first author', () => {
+    expect(normalizeAuthor('Tolkien, J. R. R.')).toBe('tolkien');
+    expect(normalizeAuthor('Terry Pratchett & Neil Gaiman')).toBe('pratchett');
+  });
+});
+
+describe('mergeDuplicateBooks', () => {
+  it('merges the tags and keeps the most advanced reading status', () => {
+    const primary = createMockBook({ hash: 'a', tags: ['fantasy'], readingStatus: 'reading' });
+    const merged = mergeDuplicateBooks(primary, [
+      createMockBook({ hash: 'b', tags: ['classic', 'fantasy'], readingStatus: 'finished' }),
+      createMockBook({ hash: 'c', groupId: 'g1', groupName: 'Shelf' }),
+    ]);
+    expect(merged.tags).toEqual(['fantasy', 'classic']);
+    expect(merged.readingStatus).toBe('finished');
+    expect(merged.groupName).toBe('Shelf');
+    expect(merged.hash).toBe('a');
+  });
+});
+
+describe('mergeDuplicateConfigs', () => {
+  it('moves the notes and the progress in percent of a copy read further', () => {
+    const primary = createMockBook({ hash: 'a', metaHash: 'm1', progress: [10, 100] });
+    const primaryConfig: BookConfig = {
+      bookHash: 'a',
+      progress: [10, 100],
+      location: 'cfi-a',
+      viewSettings: { fontSize: 20 } as BookConfig['viewSettings'],
+      booknotes: [createMockNote({ id: 'n1' })],
+      fieldsUpdatedAt: { progress: 100 },
+      updatedAt: 100,
+    };
+    const duplicate = createMockBook({ hash: 'b', metaHash: 'm1', progress: [100, 200] });
+    const duplicateConfig: BookConfig = {
+      bookHash: 'b',
+      progress: [100, 200],
+      location: 'cfi-b',
+      viewSettings: { fontSize: 14 } as BookConfig['viewSettings'],
+      booknotes: [
+        createMockNote({ id: 'n1', note: 'old' }),
+        createMockNote({ id: 'n2', bookHash: 'b' }),
+      ],
+      fieldsUpdatedAt: { progress: 200, viewSettings: 200 },
+      updatedAt: 200,
+    };
+    const merged = mergeDuplicateConfigs(primary, primaryConfig, [
+      { book: duplicate, config: duplicateConfig },
+    ]);
+    expect(merged.progress).toEqual([100, 200]);
+    // the location in the other file does not point into the primary copy
+    expect(merged.location).toBe('');
+    expect(merged.fieldsUpdatedAt?.progress).toBeGreaterThan(200);
+    expect(merged.viewSettings).toEqual({ fontSize: 20 });
+    expect(merged.bookHash).toBe('a');
+    expect(merged.booknotes!.map((note) => note.id)).toEqual(['n1', 'n2']);
+    expect(merged.booknotes![0]!.note).toBe('');
+    expect(merged.booknotes![1]!.bookHash).toBe('a');
+    expect(merged.booknotes![1]!.updatedAt).toBeGreaterThan(1);
+  });
+
+  it('keeps the location of the primary copy when it is read further', () => {
+    const primary = createMockBook({ hash: 'a', progress: [60, 100] });
+    const primaryConfig: BookConfig = {
+      bookHash: 'a',
+      progress: [60, 100],
+      location: 'cfi-a',
+      fieldsUpdatedAt: { progress: 100 },
+      updatedAt: 100,
+    };
+    const duplicate = createMockBook({ hash: 'b', progress: [50, 200] });
+    const merged = mergeDuplicateConfigs(primary, primaryConfig, [
+      { book: duplicate, config: { bookHash: 'b', location: 'cfi-b', updatedAt: 200 } },
+    ]);
+    expect(merged.location).toBe('cfi-a');
+    expect(merged.progress).toEqual([60, 100]);
+    expect(merged.fieldsUpdatedAt?.progress).toBe(100);
+  });
+});
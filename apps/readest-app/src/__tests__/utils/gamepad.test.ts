@@ -0,0 +1,102 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  DEFAULT_GAMEPAD_PROFILE,
+  getActionKeyboardEventInit,
+  getActiveGamepadInputs,
+  getGamepadInputKey,
+  loadGamepadProfile,
+  saveGamepadProfile,
+} from '@/helpers/gamepad';
+import { DEFAULT_SHORTCUTS, saveShortcuts } from '@/helpers/shortcuts';
+
+const makeGamepad = (pressed: number[], axes: number[]) => ({
+  buttons: Array.from({ length: 16 }, (_, i) => ({
+    pressed: pressed.includes(i),
+    touched: pressed.includes(i),
+    value: pressed.includes(i) ? 1 : 0,
+  })),
+  axes,
+});
+
+describe('getActiveGamepadInputs', () => {
+  it('should report pressed buttons and axes outside the deadzone', () => {
+    const inputs = getActiveGamepadInputs(makeGamepad([0, 7], [0.3, -0.8, 0, 0.6]), 50);
+    expect(inputs.map(getGamepadInputKey)).toEqual([
+      'button:0',
+      'button:7',
+      'axis:1:-',
+      'axis:3:+',
+    ]);
+  });
+
+  it('should respect the deadzone', () => {
+    const gamepad = makeGamepad([], [0.3, 0, 0, 0]);
+    expect(getActiveGamepadInputs(gamepad, 50)).toEqual([]);
+    expect(getActiveGamepadInputs(gamepad, 20)).toEqual([{ type: 'axis', index: 0, direction: 1 }]);
+  });
+});
+
+describe('getActionKeyboardEventInit', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('should use the first shortcut of the action', () => {
+    expect(getActionKeyboardEventInit('onToggleBookmark')).toMatchObject({
+      key: 'd',
+      ctrlKey: true,
+      altKey: false,
+      metaKey: false,
+      shiftKey: false,
+    });
+    expect(getActionKeyboardEventInit('onGoNext')).toMatchObject({ key: 'j', shiftKey: true });
+  });
+
+  it('should send plain keys for key actions', () => {
+    expect(getActionKeyboardEventInit('pressEnter')).toMatchObject({ key: 'Enter', code: 'Enter' });
+    expect(getActionKeyboardEventInit('pressTab')).toMatchObject({ key: 'Tab', code: 'Tab' });
+  });
+
+  it('should follow custom shortcuts', () => {
+    saveShortcuts({ ...DEFAULT_SHORTCUTS, onToggleTTS: ['opt+ArrowUp'] });
+    expect(getActionKeyboardEventInit('onToggleTTS')).toMatchObject({
+      key: 'ArrowUp',
+      altKey: true,
+    });
+    saveShortcuts({ ...DEFAULT_SHORTCUTS, onToggleTTS: [] });
+    expect(getActionKeyboardEventInit('onToggleTTS')).toBeNull();
+  });
+});
+
+describe('gamepad profiles', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('should keep the face and select buttons of the standard layout', () => {
+    const actions = Object.fromEntries(
+      DEFAULT_GAMEPAD_PROFILE.bindings.map((b) => [getGamepadInputKey(b.input), b.action]),
+    );
+    expect(actions).toMatchObject({
+      'button:0': 'pressEnter',
+      'button:1': 'onEscape',
+      'button:2': 'pressX',
+      'button:3': 'pressY',
+      'button:8': 'pressTab',
+    });
+  });
+
+  it('should save profiles per controller id', () => {
+    const profile = {
+      ...DEFAULT_GAMEPAD_PROFILE,
+      bindings: [{ input: { type: 'button' as const, index: 3 }, action: 'onToggleTTS' as const }],
+      repeatRate: 5,
+    };
+    saveGamepadProfile('Page Turner (Vendor: 1234)', profile);
+    expect(loadGamepadProfile('Page Turner (Vendor: 1234)')).toEqual(profile);
+    expect(loadGamepadProfile('Xbox Controller')).toEqual(DEFAULT_GAMEPAD_PROFILE);
+
+    saveGamepadProfile('Page Turner (Vendor: 1234)', null);
+    expect(loadGamepadProfile('Page Turner (Vendor: 1234)')).toEqual(DEFAULT_GAMEPAD_PROFILE);
+  });
+});
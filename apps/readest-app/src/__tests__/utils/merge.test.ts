@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import { BookConfig } from '@/types/book';
+import { mergeBookConfigs, touchConfigFields } from '../../utils/merge';
+
+const makeConfig = (overrides: Partial<BookConfig> = {}): BookConfig => ({
+  updatedAt: 1000,
+  ...overrides,
+});
+
+describe('mergeBookConfigs', () => {
+  it('should keep view settings and progress changed on different devices', () => {
+    const local = makeConfig({
+      location: 'epubcfi(/6/10)',
+      progress: [50, 100],
+      viewSettings: { defaultFontSize: 16 },
+      fieldsUpdatedAt: { progress: 3000, viewSettings: 1000 },
+      updatedAt: 3000,
+    });
+    const remote = makeConfig({
+      location: 'epubcfi(/6/4)',
+      progress: [20, 100],
+      viewSettings: { defaultFontSize: 20 },
+      fieldsUpdatedAt: { progress: 1000, viewSettings: 2000 },
+      updatedAt: 2000,
+    });
+
+    const merged = mergeBookConfigs(local, remote);
+    expect(merged.location).toBe('epubcfi(/6/10)');
+    expect(merged.progress).toEqual([50, 100]);
+    expect(merged.viewSettings).toEqual({ defaultFontSize: 20 });
+    expect(merged.fieldsUpdatedAt).toEqual({
+      progress: 3000,
+      viewSettings: 2000,
+      searchConfig: 3000,
+    });
+    expect(merged.updatedAt).toBe(3000);
+  });
+
+  it('should take the whole reading position from the most recent config', () => {
+    const local = makeConfig({
+      location: 'epubcfi(/6/10)',
+      xpointer: '/body/DocFragment[5]',
+      progress: [50, 100],
+      fieldsUpdatedAt: { progress: 1000 },
+    });
+    const remote = makeConfig({
+      location: 'epubcfi(/6/4)',
+      progress: [20, 100],
+      fieldsUpdatedAt: { progress: 2000 },
+    });
+
+    const merged = mergeBookConfigs(local, remote);
+    expect(merged.location).toBe('epubcfi(/6/4)');
+    expect(merged.progress).toEqual([20, 100]);
+    expect(merged.xpointer).toBeUndefined();
+  });
+
+  it('should prefer the furthest position when progress was updated at the same time', () => {
+    const local = makeConfig({ location: 'epubcfi(/6/4)', progress: [20, 100] });
+    const remote = makeConfig({ location: 'epubcfi(/6/10)', progress: [50, 100] });
+    expect(mergeBookConfigs(local, remote).location).toBe('epubcfi(/6/10)');
+    expect(mergeBookConfigs(remote, local).location).toBe('epubcfi(/6/10)');
+  });
+
+  it('should fall back to updatedAt for configs without field timestamps', () => {
+    const local = makeConfig({ searchConfig: { matchCase: true }, updatedAt: 1000 });
+    const remote = makeConfig({ searchConfig: { matchCase: false }, updatedAt: 2000 });
+    expect(mergeBookConfigs(local, remote).searchConfig).toEqual({ matchCase: false });
+  });
+
+  it('should keep the local position when the remote config has none', () => {
+    const local = makeConfig({ location: 'epubcfi(/6/4)', progress: [20, 100] });
+    const remote = makeConfig({ viewSettings: { defaultFontSize: 20 }, updatedAt: 2000 });
+    const merged = mergeBookConfigs(local, remote);
+    expect(merged.location).toBe('epubcfi(/6/4)');
+    expect(merged.viewSettings).toEqual({ defaultFontSize: 20 });
+  });
+});
+
+describe('touchConfigFields', () => {
+  it('should stamp only the given fields', () => {
+    const config = makeConfig({ fieldsUpdatedAt: { progress: 1000 } });
+    expect(touchConfigFields(config, ['viewSettings'], 5000)).toEqual({
+      progress: 1000,
+      viewSettings: 5000,
+    });
+  });
+});
@@ -0,0 +1,150 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { Metadata, MetadataResult, SearchRequest } from '@/services/metadata/types';
+import { BaseMetadataProvider } from '@/services/metadata/providers/base';
+import {
+  BookMetadataLookup,
+  ProviderRateLimiter,
+  applyMetadataResult,
+  getMetadataDiff,
+  lookupBooksMetadata,
+} from '@/services/metadata/batch';
+import { createMockBook } from '../helpers/book';
+
+const createResult = (metadata: Partial<Metadata>, providerName = 'openlibrary') =>
+  ({
+    metadata: { title: '', author: '', ...metadata },
+    providerName,
+    providerLabel: providerName,
+    confidence: 80,
+  }) as MetadataResult;
+
+class TestProvider extends BaseMetadataProvider {
+  name = 'test';
+  label = 'Test';
+  protected async searchByISBN() {
+    return [];
+  }
+  protected async searchByTitle() {
+    return [];
+  }
+  protected override getProviderConfidenceBonus() {
+    return 0;
+  }
+  series(title?: string, subtitle?: string) {
+    return this.extractSeries(title, subtitle);
+  }
+}
+
+describe('extractSeries', () => {
+  const provider = new TestProvider();
+
+  it('reads the series from the title or the subtitle', () => {
+    expect(provider.series('The Way of Kings (The Stormlight Archive, #1)')).toEqual({
+      series: 'The Stormlight Archive',
+      seriesIndex: 1,
+    });
+    expect(provider.series('Dune', 'Dune Chronicles, Book 2')).toEqual({
+      series: 'Dune Chronicles',
+      seriesIndex: 2,
+    });
+    expect(provider.series('Dune', 'A Novel')).toEqual({});
+  });
+});
+
+describe('getMetadataDiff', () => {
+  it('returns only the fields changed by the result', () => {
+    const book = createMockBook({
+      hash: 'a',
+      title: 'Dune',
+      author: 'Frank Herbert',
+      metadata: { title: 'Dune', author: 'Frank Herbert', language: 'en' },
+    });
+    const diff = getMetadataDiff(book, {
+      title: 'dune',
+      author: 'Frank Herbert',
+      publisher: 'Chilton Books',
+      subjects: ['Fiction', 'Science fiction'],
+      series: 'Dune Chronicles',
+      seriesIndex: 1,
+    });
+    expect(diff).toEqual([
+      { field: 'series', current: '', proposed: 'Dune Chronicles' },
+      { field: 'seriesIndex', current: '', proposed: '1' },
+      { field: 'publisher', current: '', proposed: 'Chilton Books' },
+      { field: 'subject', current: '', proposed: 'Fiction, Science fiction' },
+    ]);
+  });
+});
+
+describe('applyMetadataResult', () => {
+  it('applies the selected fields only', () => {
+    const book = createMockBook({
+      hash: 'a',
+      metadata: { title: 'Dune', author: 'Herbert', language: 'en' },
+    });
+    const metadata = applyMetadataResult(
+      book,
+      {
+        title: 'Dune',
+        author: 'Frank Herbert',
+        subjects: ['Fiction'],
+        series: 'Dune',
+        seriesIndex: 1,
+      },
+      ['subject', 'series', 'seriesIndex'],
+    );
+    expect(metadata).toEqual({
+      title: 'Dune',
+      author: 'Herbert',
+      language: 'en',
+      subject: ['Fiction'],
+      series: 'Dune',
+      seriesIndex: 1,
+    });
+  });
+});
+
+describe('lookupBooksMetadata', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('spaces out the requests to each provider', async () => {
+    vi.useFakeTimers();
+    const limiter = new ProviderRateLimiter({ p1: 1000, p2: 100 });
+    const calls: string[] = [];
+    const task = (name: string) => async () => calls.push(name);
+    limiter.schedule('p1', task('p1-a'));
+    limiter.schedule('p1', task('p1-b'));
+    limiter.schedule('p2', task('p2-a'));
+    await vi.advanceTimersByTimeAsync(0);
+    expect(calls).toEqual(['p1-a', 'p2-a']);
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(calls).toEqual(['p1-a', 'p2-a', 'p1-b']);
+  });
+
+  it('falls back to the title and sorts the results by confidence', async () => {
+    const requests: SearchRequest[] = [];
+    const search = async (request: SearchRequest) => {
+      requests.push(request);
+      if (request.isbn) return [];
+      return [
+        { ...createResult({ title: 'Dune' }, request.providers![0]), confidence: 60 },
+        createResult({ title: 'Dune Messiah' }, request.providers![0]),
+      ];
+    };
+    const book = createMockBook({
+      hash: 'a',
+      title: 'Dune',
+      metadata: { identifier: '978-0-306-40615-7' },
+    });
+    const lookups: BookMetadataLookup[] = [];
+    await lookupBooksMetadata([book], search, (lookup) => lookups.push(lookup), {
+      providers: ['p1'],
+      limiter: new ProviderRateLimiter({ p1: 0 }),
+    });
+    expect(requests.map((r) => r.isbn)).toEqual(['9780306406157', undefined]);
+    expect(lookups).toHaveLength(1);
+    expect(lookups[0]!.results.map((r) => r.confidence)).toEqual([80, 60]);
+  });
+});
@@ -0,0 +1,132 @@
+import { describe, it, expect } from 'vitest';
+import { OPDSPublication, REL } from '@/types/opds';
+import {
+  expandURITemplate,
+  isOPDS2Publication,
+  isOPDS2SearchLink,
+  normalizeOPDS2Feed,
+} from '@/app/opds/utils/opds2';
+import { applyPageStreams, getPageStreamLink, getPageStreamURL } from '@/app/opds/utils/opdsPse';
+
+describe('normalizeOPDS2Feed', () => {
+  const feed = normalizeOPDS2Feed({
+    metadata: { title: 'Library', numberOfItems: 120, itemsPerPage: 50, currentPage: 1 },
+    links: [
+      { rel: 'self', href: '/opds/v2/catalog', type: 'application/opds+json' },
+      { rel: 'next', href: '/opds/v2/catalog?page=2', type: 'application/opds+json' },
+      {
+        rel: 'search',
+        href: '/opds/v2/search{?query}',
+        type: 'application/opds+json',
+        templated: true,
+      },
+    ],
+    navigation: [{ href: '/opds/v2/series', title: 'Series', type: 'application/opds+json' }],
+    publications: [
+      {
+        metadata: {
+          title: { en: 'Dune', fr: 'Dune (FR)' },
+          author: ['Frank Herbert', { name: 'Brian Herbert' }],
+          language: ['en', 'fr'],
+          subject: ['Science Fiction'],
+          description: '<p>Desert planet</p>',
+        },
+        links: [
+          {
+            rel: 'http://opds-spec.org/acquisition',
+            href: '/books/1/file',
+            type: 'application/epub+zip',
+          },
+        ],
+        images: [{ href: '/books/1/cover', type: 'image/jpeg' }],
+      },
+    ],
+  });
+
+  it('reads the paging metadata', () => {
+    expect(feed.metadata).toMatchObject({ numberOfItems: 120, itemsPerPage: 50, currentPage: 1 });
+  });
+
+  it('normalizes the publications to the Atom feed shape', () => {
+    const publication = feed.publications![0]!;
+    expect(publication.metadata.title).toBe('Dune');
+    expect(publication.metadata.author?.map((a) => a.name)).toEqual([
+      'Frank Herbert',
+      'Brian Herbert',
+    ]);
+    expect(publication.metadata.language).toBe('en, fr');
+    expect(publication.metadata.subject).toEqual([{ name: 'Science Fiction' }]);
+    expect(publication.links[0]!.properties).toBeDefined();
+    expect(publication.images[0]!.href).toBe('/books/1/cover');
+  });
+
+  it('detects templated search links', () => {
+    expect(feed.links.filter(isOPDS2SearchLink).map((link) => link.href)).toEqual([
+      '/opds/v2/search{?query}',
+    ]);
+    expect(feed.navigation?.[0]?.title).toBe('Series');
+  });
+});
+
+describe('isOPDS2Publication', () => {
+  it('distinguishes publications from feeds', () => {
+    expect(isOPDS2Publication({ metadata: { title: 'Dune' }, links: [], images: [] })).toBe(true);
+    expect(isOPDS2Publication({ metadata: { title: 'Library' }, publications: [] })).toBe(false);
+  });
+});
+
+describe('expandURITemplate', () => {
+  it('expands form-style query expressions', () => {
+    expect(expandURITemplate('/search{?query,author}', { query: 'war & peace' })).toBe(
+      '/search?query=war%20%26%20peace',
+    );
+    expect(expandURITemplate('/search?x=1{&query}', { query: 'dune' })).toBe(
+      '/search?x=1&query=dune',
+    );
+    expect(expandURITemplate('/search{?query}', {})).toBe('/search');
+  });
+
+  it('expands simple string expressions', () => {
+    expect(expandURITemplate('/search/{query}', { query: 'a b' })).toBe('/search/a%20b');
+  });
+});
+
+describe('page streaming extension', () => {
+  const xml = `<?xml version="1.0"?>
+<feed xmlns="http://www.w3.org/2005/Atom" xmlns:pse="http://vaemendis.net/opds-pse/ns">
+  <entry>
+    <title>Comic</title>
+    <link rel="http://vaemendis.net/opds-pse/stream" type="image/jpeg"
+      href="/api/books/7/pages/{pageNumber}?maxWidth={maxWidth}"
+      pse:count="24" pse:lastRead="5" pse:lastReadDate="2024-01-01T00:00:00Z"/>
+  </entry>
+</feed>`;
+
+  it('attaches the pse attributes to the stream links', () => {
+    const doc = new DOMParser().parseFromString(xml, 'application/xml');
+    const publication: OPDSPublication = {
+      metadata: { title: 'Comic' },
+      links: [
+        {
+          rel: [REL.PSE_STREAM],
+          href: '/api/books/7/pages/{pageNumber}?maxWidth={maxWidth}',
+          type: 'image/jpeg',
+          properties: {},
+        },
+      ],
+      images: [],
+    };
+    applyPageStreams(doc, [publication]);
+    expect(getPageStreamLink(publication)?.properties.pse).toEqual({
+      count: 24,
+      lastRead: 5,
+      lastReadDate: '2024-01-01T00:00:00Z',
+    });
+  });
+
+  it('builds the page urls', () => {
+    const href = '/api/books/7/pages/{pageNumber}?maxWidth={maxWidth}';
+    expect(getPageStreamURL(href, 3, 1080.4)).toBe('/api/books/7/pages/3?maxWidth=1080');
+    expect(getPageStreamURL('/pages/{pageNumber}', 0)).toBe('/pages/0');
+  });
+});
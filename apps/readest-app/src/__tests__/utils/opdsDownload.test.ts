@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'vitest';
+import { Book } from '@/types/book';
+import { OPDSPublication, REL } from '@/types/opds';
+import {
+  applyOPDSMetadata,
+  getOPDSDownloadMetadata,
+  isPublicationEntryType,
+  selectAcquisitionLink,
+} from '@/app/opds/utils/opdsDownload';
+
+const ENTRY_TYPE = 'application/atom+xml;type=entry;profile=opds-catalog';
+
+const publication: OPDSPublication = {
+  metadata: {
+    title: 'The Fellowship of the Ring',
+    author: [{ name: 'J. R. R. Tolkien', links: [] }],
+    publisher: { name: 'Allen & Unwin', links: [] },
+    published: '1954-07-29',
+    language: 'en',
+    subject: [{ name: 'Fantasy' }, { code: 'FIC009000' }, {}],
+    belongsTo: { series: [{ name: 'The Lord of the Rings', position: 1 }] },
+  },
+  links: [
+    {
+      rel: REL.ACQ + '/borrow',
+      href: '/entries/1',
+      type: ENTRY_TYPE,
+      properties: { indirectAcquisition: [{ type: 'application/epub+zip' }] },
+    },
+    {
+      rel: REL.ACQ,
+      href: '/books/1.pdf',
+      type: 'application/pdf',
+      properties: {},
+    },
+  ],
+  images: [],
+};
+
+describe('getOPDSDownloadMetadata', () => {
+  it('extracts the metadata of the publication', () => {
+    expect(getOPDSDownloadMetadata(publication)).toMatchObject({
+      title: 'The Fellowship of the Ring',
+      authors: ['J. R. R. Tolkien'],
+      series: 'The Lord of the Rings',
+      seriesIndex: 1,
+      subjects: ['Fantasy', 'FIC009000'],
+      publisher: 'Allen & Unwin',
+      language: 'en',
+    });
+  });
+});
+
+describe('applyOPDSMetadata', () => {
+  const createBook = (): Book => ({
+    hash: 'hash',
+    format: 'EPUB',
+    title: 'The Fellowship of the Ring',
+    author: 'J. R. R. Tolkien',
+    tags: ['Classics'],
+    createdAt: 0,
+    updatedAt: 0,
+    metadata: {
+      title: 'The Fellowship of the Ring',
+      author: 'J. R. R. Tolkien',
+      language: 'en',
+      publisher: 'HarperCollins',
+      subject: ['Classics'],
+    },
+  });
+
+  it('fills the missing series and publisher and merges the subjects', () => {
+    const book = createBook();
+    book.metadata!.publisher = undefined;
+    applyOPDSMetadata(book, getOPDSDownloadMetadata(publication));
+    expect(book.metadata?.series).toBe('The Lord of the Rings');
+    expect(book.metadata?.seriesIndex).toBe(1);
+    expect(book.metadata?.belongsTo?.series).toEqual({
+      name: 'The Lord of the Rings',
+      position: '1',
+    });
+    expect(book.metadata?.publisher).toBe('Allen & Unwin');
+    expect(book.metadata?.subject).toEqual(['Classics', 'Fantasy', 'FIC009000']);
+    expect(book.tags).toEqual(['Classics', 'Fantasy', 'FIC009000']);
+  });
+
+  it('fills the missing authors and language', () => {
+    const book = createBook();
+    book.author = '';
+    book.metadata!.author = '';
+    book.metadata!.language = [];
+    applyOPDSMetadata(book, { ...getOPDSDownloadMetadata(publication), language: 'fr, en' });
+    expect(book.metadata?.author).toBe('J. R. R. Tolkien');
+    expect(book.author).toBe('J. R. R. Tolkien');
+    expect(book.metadata?.language).toEqual(['fr', 'en']);
+    expect(book.primaryLanguage).toBe('fr');
+  });
+
+  it('keeps the metadata embedded in the book', () => {
+    const book = createBook();
+    book.metadata!.series = 'Middle-earth';
+    book.metadata!.author = 'John Ronald Reuel Tolkien';
+    applyOPDSMetadata(book, { ...getOPDSDownloadMetadata(publication), language: 'fr' });
+    expect(book.metadata?.series).toBe('Middle-earth');
+    expect(book.metadata?.author).toBe('John Ronald Reuel Tolkien');
+    expect(book.metadata?.language).toBe('en');
+    expect(book.metadata?.publisher).toBe('HarperCollins');
+  });
+});
+
+describe('indirect acquisition', () => {
+  it('detects publication entry types', () => {
+    expect(isPublicationEntryType(ENTRY_TYPE)).toBe(true);
+    expect(isPublicationEntryType('application/opds-publication+json')).toBe(true);
+    expect(isPublicationEntryType('application/atom+xml;profile=opds-catalog')).toBe(false);
+    expect(isPublicationEntryType('application/epub+zip')).toBe(false);
+  });
+
+  it('selects the acquisition link leading to the requested type', () => {
+    expect(selectAcquisitionLink(publication, 'application/pdf')?.href).toBe('/books/1.pdf');
+    expect(selectAcquisitionLink(publication, 'application/epub+zip')?.href).toBe('/entries/1');
+    expect(selectAcquisitionLink(publication)?.href).toBe('/books/1.pdf');
+    expect(selectAcquisitionLink(publication, 'application/x-mobipocket-ebook')).toBeUndefined();
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import {
+  encodeWAV,
+  getPiperEspeakVoice,
+  getPiperVoiceLang,
+  parsePiperConfig,
+  phonemesToIds,
+} from '@/utils/piper';
+
+const config = {
+  audio: { sample_rate: 22050, quality: 'medium' },
+  espeak: { voice: 'en-us' },
+  language: { code: 'en_US' },
+  dataset: 'lessac',
+  inference: { noise_scale: 0.667, length_scale: 1, noise_w: 0.8 },
+  phoneme_id_map: { _: [0], '^': [1], $: [2], h: [20], ə: [59], l: [24], o: [27] },
+  num_speakers: 1,
+};
+
+describe('parsePiperConfig', () => {
+  it('should parse a voice config', () => {
+    const parsed = parsePiperConfig(JSON.stringify(config));
+    expect(parsed.audio.sample_rate).toBe(22050);
+    expect(parsed.phoneme_id_map['h']).toEqual([20]);
+  });
+
+  it('should fill in missing inference settings and speaker count', () => {
+    const { audio, phoneme_id_map } = config;
+    const parsed = parsePiperConfig(JSON.stringify({ audio, phoneme_id_map }));
+    expect(parsed.inference.length_scale).toBe(1);
+    expect(parsed.num_speakers).toBe(1);
+  });
+
+  it('should reject files that are not Piper configs', () => {
+    expect(() => parsePiperConfig('{"name": "font"}')).toThrow();
+  });
+});
+
+describe('getPiperVoiceLang', () => {
+  it('should convert the language code to a BCP 47 tag', () => {
+    expect(getPiperVoiceLang(parsePiperConfig(JSON.stringify(config)))).toBe('en-US');
+  });
+
+  it('should fall back to the eSpeak voice', () => {
+    const parsed = parsePiperConfig(JSON.stringify({ ...config, language: undefined }));
+    expect(getPiperVoiceLang(parsed)).toBe('en-US');
+    expect(getPiperEspeakVoice(parsed)).toBe('en-us');
+  });
+});
+
+describe('phonemesToIds', () => {
+  it('should wrap phonemes with BOS and EOS and pad between them', () => {
+    expect(phonemesToIds('həl', config.phoneme_id_map)).toEqual([1, 0, 20, 0, 59, 0, 24, 0, 2]);
+  });
+
+  it('should skip phonemes missing from the map', () => {
+    expect(phonemesToIds('hx', config.phoneme_id_map)).toEqual([1, 0, 20, 0, 2]);
+  });
+});
+
+describe('encodeWAV', () => {
+  it('should write a 16-bit mono PCM header', () => {
+    const buffer = encodeWAV(new Float32Array([0, 1, -1]), 22050);
+    const view = new DataView(buffer);
+    const text = (offset: number) =>
+      String.fromCharCode(...new Uint8Array(buffer.slice(offset, offset + 4)));
+    expect(text(0)).toBe('RIFF');
+    expect(text(8)).toBe('WAVE');
+    expect(view.getUint16(22, true)).toBe(1);
+    expect(view.getUint32(24, true)).toBe(22050);
+    expect(view.getUint32(40, true)).toBe(6);
+    expect(buffer.byteLength).toBe(50);
+  });
+
+  it('should clamp and scale samples', () => {
+    const view = new DataView(encodeWAV(new Float32Array([0, 1, -1, 2]), 16000));
+    expect(view.getInt16(44, true)).toBe(0);
+    expect(view.getInt16(46, true)).toBe(32767);
+    expect(view.getInt16(48, true)).toBe(-32768);
+    expect(view.getInt16(50, true)).toBe(32767);
+  });
+});
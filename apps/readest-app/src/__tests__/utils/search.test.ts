@@ -0,0 +1,179 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createTextMatcher,
+  foldText,
+  getSearchExcerpt,
+  SearchMatchOptions,
+} from '@/services/search/matcher';
+import { buildFullTextIndex, searchFullTextIndex } from '@/services/search/fullTextIndex';
+import { createQuoteMatcher, pickQuotedMatch } from '@/services/search/quotes';
+import { FullTextSection, QuotedMatch } from '@/services/search/types';
+import { getEditDistance } from '@/utils/diff';
+
+const options = (overrides: Partial<SearchMatchOptions> = {}): SearchMatchOptions => ({
+  mode: 'text',
+  matchCase: false,
+  matchWholeWords: false,
+  matchDiacritics: false,
+  ...overrides,
+});
+
+const matchTexts = (text: string, query: string, overrides: Partial<SearchMatchOptions> = {}) =>
+  createTextMatcher(query, options(overrides))(text).map(([start, end]) => text.slice(start, end));
+
+describe('foldText', () => {
+  it('should keep the offsets of folded chars in the original text', () => {
+    const folded = foldText('Café Noël', true, true);
+    expect(folded.text).toBe('cafe noel');
+    expect(folded.starts[3]).toBe(3);
+    expect(folded.starts[7]).toBe(7);
+  });
+});
+
+describe('createTextMatcher', () => {
+  const text = 'The whale, the Whale! A whaler saw the café.';
+
+  it('should match plain text ignoring case and diacritics', () => {
+    expect(matchTexts(text, 'whale')).toEqual(['whale', 'Whale', 'whale']);
+    expect(matchTexts(text, 'Whale', { matchCase: true })).toEqual(['Whale']);
+    expect(matchTexts(text, 'cafe')).toEqual(['café']);
+    expect(matchTexts(text, 'cafe', { matchDiacritics: true })).toEqual([]);
+  });
+
+  it('should match whole words', () => {
+    expect(matchTexts(text, 'whale', { matchWholeWords: true })).toEqual(['whale', 'Whale']);
+    expect(matchTexts('cat cat,cat catalog', 'cat', { matchWholeWords: true })).toEqual([
+      'cat',
+      'cat',
+      'cat',
+    ]);
+    expect(matchTexts(text, 'the', { matchWholeWords: true, mode: 'regex' })).toEqual([
+      'The',
+      'the',
+      'the',
+    ]);
+  });
+
+  it('should keep decomposed diacritics inside the match', () => {
+    const decomposed = 'un café noir';
+    expect(matchTexts(decomposed, 'café')).toEqual(['café']);
+  });
+
+  it('should match regular expressions', () => {
+    expect(matchTexts(text, 'wh\\w+r', { mode: 'regex' })).toEqual(['whaler']);
+    expect(matchTexts(text, '^the', { mode: 'regex' })).toEqual(['The']);
+    expect(matchTexts(text, 'x*', { mode: 'regex' })).toEqual([]);
+  });
+
+  it('should throw on invalid regular expressions', () => {
+    expect(() => createTextMatcher('wh(ale', options({ mode: 'regex' }))).toThrow(SyntaxError);
+  });
+
+  it('should tolerate typos in fuzzy mode', () => {
+    expect(matchTexts(text, 'whalr', { mode: 'fuzzy' })).toEqual(['whale', 'Whale', 'whaler']);
+    expect(matchTexts('Call me Ishmael.', 'call me ishmail', { mode: 'fuzzy' })).toEqual([
+      'Call me Ishmael',
+    ]);
+    // short words must match exactly
+    expect(matchTexts('the cat sat', 'cut', { mode: 'fuzzy' })).toEqual([]);
+  });
+});
+
+describe('createQuoteMatcher', () => {
+  it('should match typographic quotes, dashes and ellipses', () => {
+    const matcher = createQuoteMatcher('"It\'s   a whale" -- he said...')!;
+    const text = 'Then: \u201cIt\u2019s a whale\u201d \u2014\u2014 he said\u2026 and left.';
+    expect(matcher(text)).toEqual([[6, 32]]);
+    expect(createQuoteMatcher('  ')).toBeNull();
+  });
+});
+
+describe('pickQuotedMatch', () => {
+  const matches: QuotedMatch[] = [
+    { cfi: 'a', section: 1, label: 'Loomings', offset: 100 },
+    { cfi: 'b', section: 2, label: 'The Carpet-Bag', offset: 5000 },
+    { cfi: 'c', section: 2, label: 'The Carpet-Bag', offset: 9000 },
+  ];
+
+  it('should take the first occurrence without hints', () => {
+    expect(pickQuotedMatch({ text: 'x' }, matches)?.cfi).toBe('a');
+    expect(pickQuotedMatch({ text: 'x' }, [])).toBeNull();
+  });
+
+  it('should take the occurrence the hints point to', () => {
+    expect(pickQuotedMatch({ text: 'x', section: 2 }, matches)?.cfi).toBe('b');
+    expect(pickQuotedMatch({ text: 'x', chapter: 'the carpet-bag' }, matches)?.cfi).toBe('b');
+    expect(pickQuotedMatch({ text: 'x', offset: 8000 }, matches)?.cfi).toBe('c');
+    expect(pickQuotedMatch({ text: 'x', section: 1, offset: 8000 }, matches)?.cfi).toBe('a');
+    // hints pointing nowhere are ignored
+    expect(pickQuotedMatch({ text: 'x', section: 7, chapter: 'Nowhere' }, matches)?.cfi).toBe('a');
+  });
+});
+
+describe('getEditDistance', () => {
+  it('should compute the distance up to the maximum', () => {
+    expect(getEditDistance('kitten', 'sitting', 3)).toBe(3);
+    expect(getEditDistance('kitten', 'sitting', 1)).toBe(2);
+    expect(getEditDistance('whale', 'whale', 0)).toBe(0);
+    expect(getEditDistance('kitten', 'sitting')).toBe(3);
+  });
+});
+
+describe('getSearchExcerpt', () => {
+  it('should return the context around the match', () => {
+    expect(getSearchExcerpt('a  b whale c', [5, 10])).toEqual({
+      pre: 'a b ',
+      match: 'whale',
+      post: ' c',
+    });
+  });
+});
+
+describe('full-text index', () => {
+  const sections: FullTextSection[] = [
+    {
+      index: 0,
+      label: 'Loomings',
+      blocks: [
+        { cfi: 'epubcfi(/6/2!/4/2)', text: 'Call me Ishmael.' },
+        { cfi: 'epubcfi(/6/2!/4/4)', text: 'Some years ago I went to sea.' },
+      ],
+    },
+    {
+      index: 2,
+      label: 'The Carpet-Bag',
+      blocks: [{ cfi: 'epubcfi(/6/6!/4/2)', text: 'The sea, the sea and the whale.' }],
+    },
+  ];
+  const index = buildFullTextIndex(sections, 0);
+
+  it('should map folded words to their blocks', () => {
+    expect(index.terms['sea']).toEqual([1, 2]);
+    expect(index.terms['ishmael']).toEqual([0]);
+  });
+
+  it('should group matches by chapter at the paragraph location', () => {
+    const { results, count } = searchFullTextIndex(index, 'sea', options());
+    expect(count).toBe(3);
+    expect(results.map((result) => result.label)).toEqual(['Loomings', 'The Carpet-Bag']);
+    expect(results[1]!.subitems).toHaveLength(2);
+    expect(results[1]!.subitems[0]!.cfi).toBe('epubcfi(/6/6!/4/2)');
+  });
+
+  it('should find parts of words and phrases', () => {
+    expect(searchFullTextIndex(index, 'hmae', options()).count).toBe(1);
+    expect(searchFullTextIndex(index, 'went to sea', options()).count).toBe(1);
+    expect(searchFullTextIndex(index, 'ishmael sea', options()).count).toBe(0);
+  });
+
+  it('should search with typos and regular expressions', () => {
+    expect(searchFullTextIndex(index, 'ishmail', options({ mode: 'fuzzy' })).count).toBe(1);
+    expect(searchFullTextIndex(index, 'y\\w+s ago', options({ mode: 'regex' })).count).toBe(1);
+  });
+
+  it('should limit the number of matches', () => {
+    const { results, count } = searchFullTextIndex(index, 'the', options(), 2);
+    expect(count).toBe(2);
+    expect(results).toHaveLength(1);
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  DEFAULT_SHORTCUTS,
+  findShortcutConflicts,
+  getShortcutFromKeyEvent,
+  loadShortcuts,
+  normalizeShortcut,
+  resetShortcuts,
+  saveShortcuts,
+} from '@/helpers/shortcuts';
+
+const keyEvent = (key: string, modifiers: Partial<Record<string, boolean>> = {}) => ({
+  key,
+  ctrlKey: false,
+  altKey: false,
+  metaKey: false,
+  shiftKey: false,
+  ...modifiers,
+});
+
+describe('normalizeShortcut', () => {
+  it('should order modifiers and resolve aliases', () => {
+    expect(normalizeShortcut('ctrl+Shift+p')).toBe('ctrl+shift+p');
+    expect(normalizeShortcut('Shift+ctrl+P')).toBe('ctrl+shift+p');
+    expect(normalizeShortcut('opt+ArrowLeft')).toBe(normalizeShortcut('alt+ArrowLeft'));
+    expect(normalizeShortcut('meta+k')).toBe('cmd+k');
+    expect(normalizeShortcut('shift+ ')).toBe('shift+ ');
+  });
+});
+
+describe('getShortcutFromKeyEvent', () => {
+  it('should build shortcuts from key events', () => {
+    expect(getShortcutFromKeyEvent(keyEvent('K', { ctrlKey: true, shiftKey: true }))).toBe(
+      'ctrl+shift+k',
+    );
+    expect(getShortcutFromKeyEvent(keyEvent('ArrowLeft', { altKey: true }))).toBe('alt+ArrowLeft');
+    expect(getShortcutFromKeyEvent(keyEvent(' '))).toBe(' ');
+  });
+
+  it('should ignore modifier-only key presses', () => {
+    expect(getShortcutFromKeyEvent(keyEvent('Shift', { shiftKey: true }))).toBeNull();
+    expect(getShortcutFromKeyEvent(keyEvent('Control', { ctrlKey: true }))).toBeNull();
+  });
+});
+
+describe('findShortcutConflicts', () => {
+  it('should flag conflicts with global shortcuts', () => {
+    const conflicts = findShortcutConflicts(DEFAULT_SHORTCUTS, 'onWikipediaSelection');
+    expect(conflicts).toContainEqual({
+      action: 'onCloseWindow',
+      shortcut: 'ctrl+w',
+      sameContext: true,
+    });
+  });
+
+  it('should tell reader and selection conflicts apart', () => {
+    const conflicts = findShortcutConflicts(DEFAULT_SHORTCUTS, 'onDictionarySelection');
+    expect(conflicts).toContainEqual({
+      action: 'onToggleBookmark',
+      shortcut: 'ctrl+d',
+      sameContext: false,
+    });
+  });
+
+  it('should check candidate shortcuts before they are saved', () => {
+    const conflicts = findShortcutConflicts(DEFAULT_SHORTCUTS, 'onToggleTTS', ['shift+J']);
+    expect(conflicts.map((c) => c.action).sort()).toEqual(['onGoNext', 'onToggleScrollMode']);
+    expect(conflicts.every((c) => c.sameContext)).toBe(true);
+    expect(findShortcutConflicts(DEFAULT_SHORTCUTS, 'onToggleTTS', ['ctrl+alt+y'])).toEqual([]);
+  });
+});
+
+describe('custom shortcuts', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('should save and reset custom shortcuts', () => {
+    let updates = 0;
+    const onUpdate = () => updates++;
+    window.addEventListener('shortcutUpdate', onUpdate);
+
+    saveShortcuts({ ...DEFAULT_SHORTCUTS, onToggleTTS: ['ctrl+alt+y'] });
+    expect(loadShortcuts().onToggleTTS).toEqual(['ctrl+alt+y']);
+    resetShortcuts();
+    expect(loadShortcuts().onToggleTTS).toEqual(DEFAULT_SHORTCUTS.onToggleTTS);
+    expect(updates).toBe(2);
+
+    window.removeEventListener('shortcutUpdate', onUpdate);
+  });
+});
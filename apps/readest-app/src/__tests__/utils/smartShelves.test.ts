@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest';
+import { SmartShelf } from '@/types/settings';
+import {
+  createSmartShelfFilter,
+  createSmartShelfGroups,
+  findSmartShelfByGroupId,
+  matchesSmartShelfRule,
+} from '@/app/library/utils/smartShelves';
+import { createMockBook } from '../helpers/book';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = 100 * DAY_MS;
+
+const createShelf = (extra: Partial<SmartShelf> = {}): SmartShelf => ({
+  id: 's1',
+  name: 'Shelf',
+  match: 'all',
+  rules: [],
+  ...extra,
+});
+
+describe('matchesSmartShelfRule', () => {
+  it('treats books without a reading status as unread', () => {
+    const book = createMockBook({ hash: 'a' });
+    expect(
+      matchesSmartShelfRule(book, { field: 'readingStatus', operator: 'is', value: 'unread' }),
+    ).toBe(true);
+    expect(
+      matchesSmartShelfRule(book, { field: 'readingStatus', operator: 'isNot', value: 'unread' }),
+    ).toBe(false);
+  });
+
+  it('matches the tags, author and series case-insensitively', () => {
+    const book = createMockBook({
+      hash: 'a',
+      tags: ['Fantasy', 'Classic'],
+      author: 'J. R. R. Tolkien',
+      metadata: { series: 'The Lord of the Rings' },
+    });
+    expect(
+      matchesSmartShelfRule(book, { field: 'tags', operator: 'contains', value: 'fant' }),
+    ).toBe(true);
+    expect(
+      matchesSmartShelfRule(book, { field: 'tags', operator: 'notContains', value: 'classic' }),
+    ).toBe(false);
+    expect(
+      matchesSmartShelfRule(book, { field: 'author', operator: 'contains', value: 'tolkien' }),
+    ).toBe(true);
+    expect(
+      matchesSmartShelfRule(book, {
+        field: 'series',
+        operator: 'is',
+        value: 'the lord of the rings',
+      }),
+    ).toBe(true);
+  });
+
+  it('matches the progress range in percent', () => {
+    const rule = { field: 'progress', operator: 'between', value: '10', valueTo: '50' } as const;
+    expect(matchesSmartShelfRule(createMockBook({ hash: 'a', progress: [30, 100] }), rule)).toBe(
+      true,
+    );
+    expect(matchesSmartShelfRule(createMockBook({ hash: 'b', progress: [60, 100] }), rule)).toBe(
+      false,
+    );
+    expect(matchesSmartShelfRule(createMockBook({ hash: 'c' }), rule)).toBe(false);
+  });
+
+  it('matches the date windows in days', () => {
+    const book = createMockBook({ hash: 'a', createdAt: NOW - 10 * DAY_MS });
+    const within = { field: 'createdAt', operator: 'withinDays', value: '30' } as const;
+    const older = { field: 'createdAt', operator: 'olderThanDays', value: '7' } as const;
+    expect(matchesSmartShelfRule(book, within, NOW)).toBe(true);
+    expect(matchesSmartShelfRule(book, older, NOW)).toBe(true);
+    expect(matchesSmartShelfRule(book, { ...within, value: '5' }, NOW)).toBe(false);
+  });
+});
+
+describe('createSmartShelfFilter', () => {
+  const books = [
+    createMockBook({ hash: 'a', format: 'PDF', readingStatus: 'reading' }),
+    createMockBook({ hash: 'b', format: 'EPUB', readingStatus: 'reading' }),
+    createMockBook({ hash: 'c', format: 'PDF', deletedAt: 1 }),
+  ];
+  const rules = [
+    { field: 'format', operator: 'is', value: 'PDF' },
+    { field: 'readingStatus', operator: 'is', value: 'reading' },
+  ] as SmartShelf['rules'];
+
+  it('combines the rules with all or any and skips the deleted books', () => {
+    const all = books.filter(createSmartShelfFilter(createShelf({ rules })));
+    expect(all.map((b) => b.hash)).toEqual(['a']);
+    const any = books.filter(createSmartShelfFilter(createShelf({ rules, match: 'any' })));
+    expect(any.map((b) => b.hash)).toEqual(['a', 'b']);
+  });
+});
+
+describe('createSmartShelfGroups', () => {
+  it('creates a group per shelf with matching books', () => {
+    const books = [createMockBook({ hash: 'a', tags: ['sci-fi'] }), createMockBook({ hash: 'b' })];
+    const shelves = [
+      createShelf({ rules: [{ field: 'tags', operator: 'contains', value: 'sci-fi' }] }),
+      createShelf({ id: 's2', rules: [{ field: 'format', operator: 'is', value: 'CBZ' }] }),
+    ];
+    const groups = createSmartShelfGroups(books, shelves);
+    expect(groups).toHaveLength(1);
+    expect(groups[0]!.id).toBe('smart:s1');
+    expect(groups[0]!.books.map((b) => b.hash)).toEqual(['a']);
+    expect(findSmartShelfByGroupId(shelves, groups[0]!.id)).toBe(shelves[0]);
+    expect(findSmartShelfByGroupId(shelves, 's1')).toBeUndefined();
+  });
+});
@@ -0,0 +1,129 @@
+import { describe, it, expect } from 'vitest';
+import { ReadingSession } from '@/types/book';
+import {
+  finishReadingSession,
+  getBookReadingStats,
+  getDailyReadingTime,
+  getDayKey,
+  getReadingStreaks,
+  mergeReadingSessions,
+  recordPageTurn,
+  startReadingSession,
+} from '@/utils/statistics';
+
+const day = (date: string, hour = 12) => new Date(`${date}T${String(hour).padStart(2, '0')}:00:00`);
+
+const makeSession = (
+  id: string,
+  startedAt: number,
+  overrides: Partial<ReadingSession> = {},
+): ReadingSession => ({
+  bookHash: 'book1',
+  id,
+  startedAt,
+  endedAt: startedAt + 600_000,
+  duration: 600,
+  pagesRead: 10,
+  startPage: 0,
+  endPage: 10,
+  totalPages: 100,
+  createdAt: startedAt,
+  updatedAt: startedAt,
+  ...overrides,
+});
+
+describe('reading session recorder', () => {
+  it('should accumulate time and pages across page turns', () => {
+    const start = day('2026-03-01').getTime();
+    let active = startReadingSession('book1', 'meta1', 5, 100, start);
+    active = recordPageTurn(active, 6, 100, start + 30_000).active;
+    active = recordPageTurn(active, 7, 100, start + 60_000).active;
+    const session = finishReadingSession(active, start + 90_000);
+    expect(session).toMatchObject({
+      bookHash: 'book1',
+      metaHash: 'meta1',
+      duration: 90,
+      pagesRead: 2,
+      startPage: 5,
+      endPage: 7,
+      endedAt: start + 90_000,
+    });
+  });
+
+  it('should not count a repeated page as read', () => {
+    const start = day('2026-03-01').getTime();
+    let active = startReadingSession('book1', undefined, 5, 100, start);
+    active = recordPageTurn(active, 5, 100, start + 30_000).active;
+    expect(active.session.pagesRead).toBe(0);
+  });
+
+  it('should split sessions after an idle gap', () => {
+    const start = day('2026-03-01').getTime();
+    let active = startReadingSession('book1', undefined, 1, 100, start);
+    active = recordPageTurn(active, 2, 100, start + 60_000).active;
+    const result = recordPageTurn(active, 3, 100, start + 60_000 + 3600_000);
+    expect(result.finished).toMatchObject({ duration: 60, pagesRead: 1, endedAt: start + 60_000 });
+    expect(result.active.session.startPage).toBe(3);
+    expect(result.active.session.startedAt).toBe(start + 60_000 + 3600_000);
+  });
+
+  it('should drop sessions that are too short or without page turns', () => {
+    const start = day('2026-03-01').getTime();
+    const idle = startReadingSession('book1', undefined, 1, 100, start);
+    expect(finishReadingSession(idle, start + 120_000)).toBeNull();
+    const short = recordPageTurn(idle, 2, 100, start + 2_000).active;
+    expect(finishReadingSession(short, start + 4_000)).toBeNull();
+  });
+});
+
+describe('mergeReadingSessions', () => {
+  it('should keep the most recently updated copy of each session', () => {
+    const t = day('2026-03-01').getTime();
+    const local = [makeSession('a', t), makeSession('b', t + 1000)];
+    const remote = [
+      makeSession('a', t, { updatedAt: t + 5000, deletedAt: t + 5000 }),
+      makeSession('b', t + 1000, { updatedAt: t - 1000, duration: 1 }),
+      makeSession('c', t - 1000),
+    ];
+    const merged = mergeReadingSessions(local, remote);
+    expect(merged.map((s) => s.id)).toEqual(['c', 'a', 'b']);
+    expect(merged[1]!.deletedAt).toBe(t + 5000);
+    expect(merged[2]!.duration).toBe(600);
+  });
+});
+
+describe('reading statistics', () => {
+  const sessions = [
+    makeSession('1', day('2026-03-01').getTime()),
+    makeSession('2', day('2026-03-02').getTime()),
+    makeSession('3', day('2026-03-02', 20).getTime(), { bookHash: 'book2', duration: 1200 }),
+    makeSession('4', day('2026-03-03').getTime()),
+    makeSession('5', day('2026-03-06').getTime()),
+    makeSession('6', day('2026-03-07').getTime(), { deletedAt: day('2026-03-08').getTime() }),
+  ];
+
+  it('should sum reading time per day', () => {
+    const daily = getDailyReadingTime(sessions);
+    expect(daily[getDayKey(day('2026-03-02').getTime())]).toBe(1800);
+    expect(daily[getDayKey(day('2026-03-07').getTime())]).toBeUndefined();
+  });
+
+  it('should compute current and longest streaks', () => {
+    expect(getReadingStreaks(sessions, day('2026-03-07').getTime())).toEqual({
+      current: 1,
+      longest: 3,
+    });
+    expect(getReadingStreaks(sessions, day('2026-03-09').getTime())).toEqual({
+      current: 0,
+      longest: 3,
+    });
+  });
+
+  it('should aggregate stats per book', () => {
+    const stats = getBookReadingStats(sessions);
+    expect(stats).toHaveLength(2);
+    const book1 = stats.find((s) => s.bookHash === 'book1')!;
+    expect(book1).toMatchObject({ duration: 2400, pagesRead: 40, sessions: 4, pagesPerHour: 60 });
+    expect(stats[0]!.bookHash).toBe('book1');
+  });
+});
@@ -0,0 +1,240 @@
+import { describe, it, expect, vi } from 'vitest';
+import { BookNote } from '@/types/book';
+import { AppService } from '@/types/system';
+import {
+  buildVaultDocument,
+  findVaultPage,
+  getVaultBlockId,
+  getVaultNoteUpdates,
+  getVaultPageFilename,
+  getVaultPageId,
+  parseVaultRegion,
+  renderVaultFrontmatter,
+  renderVaultRegion,
+} from '@/utils/vault';
+import { createMockNote } from '../helpers/book';
+
+const makeNote = (overrides: Partial<BookNote> = {}) =>
+  createMockNote({
+    id: 'abc123',
+    text: 'Call me Ishmael.',
+    createdAt: 1000,
+    updatedAt: 1000,
+    ...overrides,
+  });
+
+const info = { id: 'meta1', title: 'Moby Dick', author: 'Herman Melville', isbn: '9780142437247' };
+
+describe('renderVaultFrontmatter', () => {
+  it('should write the metadata of the book', () => {
+    expect(renderVaultFrontmatter({ ...info, tags: ['classic'], progress: [45, 100] })).toBe(
+      [
+        '---',
+        'title: "Moby Dick"',
+        'author: "Herman Melville"',
+        'isbn: "9780142437247"',
+        'tags:',
+        '  - "classic"',
+        'progress: "45%"',
+        'readest-id: "meta1"',
+        '---',
+      ].join('\n'),
+    );
+  });
+
+  it('should keep the keys and tags added in the vault', () => {
+    const existing = ['title: "Old"', 'rating: 5', 'tags: [fiction, "whales"]'];
+    const frontmatter = renderVaultFrontmatter({ ...info, tags: ['classic'] }, existing);
+    expect(frontmatter).toContain('rating: 5');
+    expect(frontmatter).toContain('title: "Moby Dick"');
+    expect(frontmatter).not.toContain('Old');
+    expect(frontmatter).toContain('tags:\n  - "classic"\n  - "fiction"\n  - "whales"');
+  });
+});
+
+describe('vault region', () => {
+  const notes = [
+    makeNote({ id: 'a1', note: 'The narrator.' }),
+    makeNote({ id: 'a2', text: 'Some years ago—\nnever mind how long', note: '' }),
+    makeNote({ id: 'b1', type: 'bookmark', text: '' }),
+  ];
+  const groups = [{ label: 'Loomings', booknotes: notes }];
+
+  it('should render Obsidian blocks with stable ids', () => {
+    const region = renderVaultRegion(groups, 'obsidian', 2000);
+    expect(region).toMatch(/^<!-- readest:start synced=2000 notes=rd-a1:\w+,rd-a2:\w+ -->\n/);
+    expect(region).toContain('> Call me Ishmael. ^rd-a1\n\nThe narrator.');
+    expect(region).toContain('> Some years ago—\n> never mind how long ^rd-a2');
+    expect(region).not.toContain('rd-b1');
+  });
+
+  it('should read back the notes edited in Obsidian', () => {
+    const region = renderVaultRegion(groups, 'obsidian', 2000).replace(
+      '^rd-a2\n',
+      '^rd-a2\n\nA new note\non two lines\n',
+    );
+    expect(parseVaultRegion(region, 'obsidian')).toEqual({
+      syncedAt: 2000,
+      notes: { 'rd-a1': 'The narrator.', 'rd-a2': 'A new note\non two lines' },
+      fingerprints: { 'rd-a1': expect.any(String), 'rd-a2': expect.any(String) },
+    });
+  });
+
+  it('should keep quotes and headings written in Obsidian notes', () => {
+    const note = '> quoted in the note\n\n# Heading\n#tag';
+    const region = renderVaultRegion(
+      [
+        { label: 'Loomings', booknotes: [makeNote({ id: 'a1', note })] },
+        { label: 'The Carpet-Bag', booknotes: [makeNote({ id: 'a2', note: 'Next' })] },
+      ],
+      'obsidian',
+      2000,
+    );
+    expect(parseVaultRegion(region, 'obsidian')?.notes).toEqual({ 'rd-a1': note, 'rd-a2': 'Next' });
+  });
+
+  it('should render and read back Logseq blocks', () => {
+    const region = renderVaultRegion(groups, 'logseq', 2000);
+    expect(region).toContain(
+      '- ## Loomings\n\t- > Call me Ishmael.\n\t  readest-id:: rd-a1\n\t\t- The narrator.',
+    );
+    const edited = region.replace('readest-id:: rd-a2', 'readest-id:: rd-a2\n\t\t- Edited');
+    expect(parseVaultRegion(edited, 'logseq')?.notes).toEqual({
+      'rd-a1': 'The narrator.',
+      'rd-a2': 'Edited',
+    });
+  });
+
+  it('should return null without a managed region', () => {
+    expect(parseVaultRegion('# My notes', 'obsidian')).toBeNull();
+  });
+});
+
+describe('getVaultNoteUpdates', () => {
+  const synced = [
+    makeNote({ id: 'a1', note: 'old' }),
+    makeNote({ id: 'a2', note: 'old' }),
+    makeNote({ id: 'a3', note: 'same' }),
+  ];
+  const page = renderVaultRegion([{ label: 'Loomings', booknotes: synced }], 'obsidian', 2000);
+
+  it('should import the notes edited in the vault since the last sync', () => {
+    const booknotes = [
+      makeNote({ id: 'a1', note: 'old', updatedAt: 1000 }),
+      makeNote({ id: 'a2', note: 'changed in Readest', updatedAt: 3000 }),
+      makeNote({ id: 'a3', note: 'same', updatedAt: 1000 }),
+    ];
+    const region = parseVaultRegion(page.replace('^rd-a1\n\nold', '^rd-a1\n\nnew'), 'obsidian')!;
+    expect(getVaultNoteUpdates(booknotes, region, 5000)).toEqual({
+      updates: [{ ...booknotes[0], note: 'new', updatedAt: 5000 }],
+      conflicts: [],
+    });
+  });
+
+  it('should keep both versions of the notes edited on both sides', () => {
+    const booknotes = [makeNote({ id: 'a2', note: 'changed in Readest', updatedAt: 3000 })];
+    const edited = page.replace('^rd-a2\n\nold', '^rd-a2\n\nchanged in vault');
+    const { updates, conflicts } = getVaultNoteUpdates(
+      booknotes,
+      parseVaultRegion(edited, 'obsidian')!,
+      5000,
+    );
+    expect(updates).toEqual([
+      { ...booknotes[0], note: 'changed in Readest\n\nchanged in vault', updatedAt: 5000 },
+    ]);
+    expect(conflicts).toEqual(updates);
+  });
+
+  it('should sanitize note ids for block ids', () => {
+    expect(getVaultBlockId(makeNote({ id: 'a_b.c' }))).toBe('rd-abc');
+  });
+});
+
+describe('findVaultPage', () => {
+  const createAppService = (files: Record<string, string>) => {
+    const getFile = (path: string) => files[path.replace(/^\/\w+\//, '')]!;
+    return {
+      readDirectory: async () =>
+        Object.entries(files).map(([path, content]) => ({ path, size: content.length })),
+      readFile: vi.fn(async (path: string) => getFile(path)),
+      openFile: vi.fn(async (path: string) => {
+        const content = getFile(path);
+        return {
+          size: content.length,
+          slice: (start: number, end: number) => ({ text: async () => content.slice(start, end) }),
+          text: async () => content,
+        };
+      }),
+    } as unknown as AppService;
+  };
+
+  it('should find the page by the id in its frontmatter', async () => {
+    const renamed = buildVaultDocument(null, info, '');
+    const appService = createAppService({
+      'Moby Dick - Herman Melville.md': buildVaultDocument(null, { ...info, id: 'other' }, ''),
+      'Books/Whales.md': renamed,
+    });
+    expect(getVaultPageFilename(info)).toBe('Moby Dick - Herman Melville.md');
+    expect(getVaultPageId(renamed)).toBe('meta1');
+    expect(await findVaultPage(appService, '/vault', info)).toEqual({
+      path: 'Books/Whales.md',
+      content: renamed,
+    });
+  });
+
+  it('should read only the frontmatter of the other pages and remember where the page is', async () => {
+    const page = buildVaultDocument(null, info, '');
+    const appService = createAppService({
+      'Notes.md': `---\ntitle: "Notes"\n---\n${'x'.repeat(10000)}`,
+      'Books/Whales.md': page,
+    });
+    expect((await findVaultPage(appService, '/notes', info))?.path).toBe('Books/Whales.md');
+    expect(appService.readFile).toHaveBeenCalledTimes(1);
+    expect(appService.openFile).toHaveBeenCalledTimes(2);
+
+    expect((await findVaultPage(appService, '/notes', info))?.path).toBe('Books/Whales.md');
+    expect(appService.readFile).toHaveBeenCalledTimes(2);
+    expect(appService.openFile).toHaveBeenCalledTimes(2);
+  });
+
+  it('should take over the pages named after the title only', async () => {
+    const appService = createAppService({ 'Moby Dick.md': '---\ntitle: "Moby Dick"\n---\n' });
+    expect((await findVaultPage(appService, '/vault', info))?.path).toBe('Moby Dick.md');
+    expect(await findVaultPage(createAppService({}), '/vault', info)).toBeNull();
+  });
+});
+
+describe('buildVaultDocument', () => {
+  const region = '<!-- readest:start synced=2000 -->\n## Loomings\n<!-- readest:end -->';
+
+  it('should create a new page', () => {
+    expect(buildVaultDocument(null, info, region)).toBe(
+      `${renderVaultFrontmatter(info)}\n\n${region}\n`,
+    );
+  });
+
+  it('should replace only the managed region', () => {
+    const existing = [
+      '---',
+      'title: "Moby Dick"',
+      'rating: 5',
+      '---',
+      '# My thoughts',
+      '<!-- readest:start synced=1000 -->',
+      'stale',
+      '<!-- readest:end -->',
+      'Written after the region',
+      '',
+    ].join('\n');
+    const document = buildVaultDocument(existing, info, region);
+    expect(document).toContain('rating: 5');
+    expect(document).toContain(`---\n# My thoughts\n${region}\nWritten after the region\n`);
+    expect(document).not.toContain('stale');
+  });
+
+  it('should append the region to pages without one', () => {
+    expect(buildVaultDocument('Some notes\n', info, region)).toBe(
+      `${renderVaultFrontmatter(info)}\nSome notes\n\n${region}\n`,
+    );
+  });
+});
@@ -0,0 +1,254 @@
+// @vitest-environment node
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { describe, it, expect } from 'vitest';
+import { VocabularyWord } from '@/types/book';
+import {
+  createVocabularyWord,
+  exportVocabularyCSV,
+  extractSentence,
+  getClozeParts,
+  getDueVocabulary,
+  getPlainDefinition,
+  mergeVocabulary,
+  recordVocabularyLookup,
+  reviewVocabularyWord,
+} from '@/utils/vocabulary';
+import { createAnkiCollection, getAnkiNoteFields } from '@/utils/anki';
+import { encodeRecord, encodeVarint } from '@/utils/sqlite';
+
+const [major, minor] = process.versions.node.split('.').map(Number);
+const HAS_NODE_SQLITE = major! > 22 || (major === 22 && minor! >= 13);
+
+const ONE_DAY = 24 * 60 * 60 * 1000;
+const NOW = new Date('2026-03-01T12:00:00Z').getTime();
+
+const makeWord = (overrides: Partial<VocabularyWord> = {}): VocabularyWord => ({
+  ...createVocabularyWord(
+    {
+      bookHash: 'book1',
+      bookTitle: 'Moby Dick',
+      word: 'Whales',
+      lemma: 'whale',
+      context: 'The whales swam beneath the ship.',
+      cfi: 'epubcfi(/6/4!/4/2/1:4)',
+    },
+    NOW,
+  ),
+  ...overrides,
+});
+
+describe('recordVocabularyLookup', () => {
+  it('should add a new word due right away', () => {
+    const word = recordVocabularyLookup([], {
+      bookHash: 'book1',
+      word: ' Whales ',
+      lemma: 'Whale',
+      context: 'The whales swam.',
+      cfi: 'epubcfi(/6/4!/4/2/1:4)',
+    });
+    expect(word).toMatchObject({ word: 'Whales', lemma: 'whale', repetitions: 0 });
+    expect(word!.dueAt).toBe(word!.createdAt);
+  });
+
+  it('should keep one word per lemma and book', () => {
+    const existing = makeWord();
+    const lookup = { bookHash: 'book1', word: 'whale', context: 'A whale.', cfi: 'epubcfi(/6/8)' };
+    expect(recordVocabularyLookup([existing], lookup, NOW + 1)).toBeNull();
+    expect(recordVocabularyLookup([existing], { ...lookup, bookHash: 'book2' })).not.toBeNull();
+    expect(recordVocabularyLookup([{ ...existing, deletedAt: NOW }], lookup)).not.toBeNull();
+  });
+
+  it('should fill in a missing definition', () => {
+    const existing = makeWord();
+    const updated = recordVocabularyLookup(
+      [existing],
+      { bookHash: 'book1', word: 'whale', context: '', cfi: 'x', definition: 'A large mammal' },
+      NOW + 1,
+    );
+    expect(updated).toMatchObject({ id: existing.id, definition: 'A large mammal' });
+    expect(updated!.updatedAt).toBe(NOW + 1);
+  });
+});
+
+describe('reviewVocabularyWord', () => {
+  it('should follow the SM-2 intervals for correct answers', () => {
+    let word = makeWord();
+    word = reviewVocabularyWord(word, 'good', NOW);
+    expect(word).toMatchObject({ repetitions: 1, interval: 1, easeFactor: 2.5 });
+    word = reviewVocabularyWord(word, 'good', NOW);
+    expect(word).toMatchObject({ repetitions: 2, interval: 6 });
+    word = reviewVocabularyWord(word, 'easy', NOW);
+    expect(word).toMatchObject({ repetitions: 3, interval: 15, easeFactor: 2.6 });
+    expect(word.dueAt).toBe(NOW + 15 * ONE_DAY);
+  });
+
+  it('should start over and lower the ease factor after a lapse', () => {
+    const word = reviewVocabularyWord(
+      makeWord({ repetitions: 4, interval: 30, easeFactor: 2.5 }),
+      'again',
+      NOW,
+    );
+    expect(word).toMatchObject({ repetitions: 0, interval: 1, easeFactor: 1.96 });
+  });
+
+  it('should not lower the ease factor below 1.3', () => {
+    const word = reviewVocabularyWord(makeWord({ easeFactor: 1.3 }), 'hard', NOW);
+    expect(word.easeFactor).toBe(1.3);
+  });
+
+  it('should list the words due for review', () => {
+    const due = makeWord({ id: 'a', dueAt: NOW - 1 });
+    const later = makeWord({ id: 'b', dueAt: NOW + ONE_DAY });
+    const deleted = makeWord({ id: 'c', dueAt: NOW - 2, deletedAt: NOW });
+    expect(getDueVocabulary([later, due, deleted], NOW).map((word) => word.id)).toEqual(['a']);
+  });
+});
+
+describe('mergeVocabulary', () => {
+  it('should keep the most recently updated copy of a word', () => {
+    const local = makeWord({ id: 'a', updatedAt: NOW + 10, interval: 6 });
+    const remote = makeWord({ id: 'a', updatedAt: NOW + 5, interval: 1 });
+    const deleted = makeWord({ id: 'a', updatedAt: NOW, deletedAt: NOW + 20 });
+    expect(mergeVocabulary([local], [remote])[0]!.interval).toBe(6);
+    expect(mergeVocabulary([local], [deleted])[0]!.deletedAt).toBe(NOW + 20);
+  });
+
+  it('should add new words ordered by creation', () => {
+    const first = makeWord({ id: 'a', createdAt: NOW });
+    const second = makeWord({ id: 'b', createdAt: NOW + 1 });
+    expect(mergeVocabulary([second], [first]).map((word) => word.id)).toEqual(['a', 'b']);
+  });
+});
+
+describe('extractSentence', () => {
+  const text = 'Call me Ishmael. Some years ago, never mind how long. It was cold!';
+
+  it('should return the sentence around the range', () => {
+    const start = text.indexOf('years');
+    expect(extractSentence(text, start, start + 5)).toBe('Some years ago, never mind how long.');
+    expect(extractSentence(text, 0, 4)).toBe('Call me Ishmael.');
+    expect(extractSentence(text, text.length - 5, text.length - 1)).toBe('It was cold!');
+  });
+
+  it('should shorten long sentences around the range', () => {
+    const long = `${'word '.repeat(200)}target ${'word '.repeat(200)}`;
+    const start = long.indexOf('target');
+    const sentence = extractSentence(long, start, start + 6);
+    expect(sentence.length).toBeLessThanOrEqual(300);
+    expect(sentence).toContain('target');
+  });
+});
+
+describe('getPlainDefinition', () => {
+  it('should strip markup and collapse whitespace', () => {
+    expect(getPlainDefinition('<b>whale</b><br>a  large &amp; marine mammal', true)).toBe(
+      'whale\na large & marine mammal',
+    );
+  });
+});
+
+describe('getClozeParts', () => {
+  it('should split the context around the word', () => {
+    expect(getClozeParts(makeWord())).toEqual({
+      before: 'The ',
+      answer: 'whales',
+      after: ' swam beneath the ship.',
+    });
+  });
+
+  it('should fall back to the word when it is not in the context', () => {
+    expect(getClozeParts(makeWord({ context: 'Nothing here.' }))).toEqual({
+      before: 'Nothing here. ',
+      answer: 'Whales',
+      after: '',
+    });
+  });
+});
+
+describe('exportVocabularyCSV', () => {
+  it('should export active words with cloze deletions', () => {
+    const csv = exportVocabularyCSV([
+      makeWord({ definition: 'A large, "marine" mammal' }),
+      makeWord({ id: 'deleted', deletedAt: NOW }),
+    ]);
+    const lines = csv.trimEnd().split('\r\n');
+    expect(lines).toHaveLength(2);
+    expect(lines[0]).toBe('Word,Lemma,Cloze,Context,Definition,Book,Added,Due');
+    expect(lines[1]).toContain('The {{c1::whales}} swam beneath the ship.');
+    expect(lines[1]).toContain('"A large, ""marine"" mammal"');
+  });
+});
+
+describe('sqlite encoding', () => {
+  it('should encode varints big-endian with continuation bits', () => {
+    expect([...encodeVarint(0)]).toEqual([0]);
+    expect([...encodeVarint(127)]).toEqual([0x7f]);
+    expect([...encodeVarint(128)]).toEqual([0x81, 0x00]);
+    expect([...encodeVarint(16384)]).toEqual([0x81, 0x80, 0x00]);
+  });
+
+  it('should encode records with their serial types', () => {
+    // header size 5, then NULL, integer 1, a 1-byte integer and a 2-char text
+    expect([...encodeRecord([null, 1, 5, 'ab'])]).toEqual([5, 0, 9, 1, 17, 5, 97, 98]);
+  });
+});
+
+describe('anki export', () => {
+  it('should create cloze fields with the lemma and definition', () => {
+    const [text, extra] = getAnkiNoteFields(makeWord({ definition: 'A <large> mammal' }));
+    expect(text).toBe('The {{c1::whales}} swam beneath the ship.');
+    expect(extra).toBe('<b>whale</b><br>A &lt;large&gt; mammal<br><i>Moby Dick</i>');
+  });
+
+  it('should create a valid SQLite collection', async () => {
+    const words = Array.from({ length: 50 }, (_, i) => makeWord({ id: `word-${i}` }));
+    const collection = await createAnkiCollection(words, 'Vocabulary', NOW);
+    const view = new DataView(collection.buffer);
+    expect(new TextDecoder().decode(collection.subarray(0, 15))).toBe('SQLite format 3');
+    expect(view.getUint16(16)).toBe(4096);
+    expect(view.getUint32(28) * 4096).toBe(collection.length);
+  });
+
+  it.skipIf(!HAS_NODE_SQLITE)('should create a collection readable by SQLite', async () => {
+    const { DatabaseSync } = await import('node:sqlite');
+    const words = Array.from({ length: 500 }, (_, i) =>
+      makeWord({
+        id: `word-${i}`,
+        word: `Whale${i}`,
+        lemma: `whale${i}`,
+        context: `The Whale${i} swam beneath the ship.`,
+      }),
+    );
+    const collection = await createAnkiCollection(words, 'Vocabulary', NOW);
+    const dir = await mkdtemp(join(tmpdir(), 'anki-'));
+    try {
+      const path = join(dir, 'collection.anki2');
+      await writeFile(path, collection);
+      const db = new DatabaseSync(path, { readOnly: true });
+      expect(db.prepare('PRAGMA integrity_check').get()).toEqual({ integrity_check: 'ok' });
+      expect(db.prepare('SELECT count(*) AS n FROM notes').get()).toEqual({ n: 500 });
+      expect(db.prepare('SELECT count(*) AS n FROM cards').get()).toEqual({ n: 500 });
+      const note = db
+        .prepare('SELECT id, guid, flds, sfld FROM notes WHERE guid = ?')
+        .get('word-42');
+      expect(note).toMatchObject({
+        id: NOW + 42,
+        sfld: 'The {{c1::Whale42}} swam beneath the ship.',
+      });
+      expect(String(note!['flds']).split('\x1f')[0]).toBe(
+        'The {{c1::Whale42}} swam beneath the ship.',
+      );
+      const card = db.prepare('SELECT nid, due FROM cards WHERE id = ?').get(NOW + 42);
+      expect(card).toEqual({ nid: NOW + 42, due: 43 });
+      const col = db.prepare('SELECT decks FROM col').get();
+      expect(Object.values(JSON.parse(String(col!['decks'])))).toContainEqual(
+        expect.objectContaining({ name: 'Vocabulary' }),
+      );
+      db.close();
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
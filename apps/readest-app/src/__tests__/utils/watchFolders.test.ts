@@ -0,0 +1,118 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { Book } from '@/types/book';
+import { AppService, FileItem } from '@/types/system';
+import { getSubfolderGroupName, scanWatchFolder, WatchFolder } from '@/services/watchFolders';
+import { createMockBook } from '../helpers/book';
+
+vi.mock('@/utils/path', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/utils/path')>()),
+  joinPaths: async (...paths: string[]) => paths.join('/'),
+}));
+
+// Files are identified by their name in these tests
+vi.mock('@/utils/md5', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/utils/md5')>()),
+  partialMD5: async (file: File) => `md5:${file.name}`,
+}));
+
+const folder: WatchFolder = { id: 'f1', path: '/books', enabled: true, groupBySubfolder: true };
+
+const createAppService = (files: Record<string, string>) => {
+  const importBook = vi.fn(async (path: string, books: Book[]) => {
+    const name = path.split('/').pop()!;
+    const book = createMockBook({ hash: `md5:${name}`, title: name });
+    books.push(book);
+    return book;
+  });
+  const appService = {
+    readDirectory: async (): Promise<FileItem[]> =>
+      Object.entries(files).map(([path, content]) => ({
+        path: path.replace('/books/', ''),
+        size: content.length,
+      })),
+    openFile: async (path: string) => new File([files[path]!], path.split('/').pop()!),
+    importBook,
+  } as unknown as AppService;
+  return { appService, importBook };
+};
+
+describe('scanWatchFolder', () => {
+  let files: Record<string, string>;
+
+  beforeEach(() => {
+    files = {
+      '/books/Fantasy/Tolkien/hobbit.epub': 'hobbit',
+      '/books/dune.epub': 'dune',
+      '/books/notes.docx': 'notes',
+    };
+  });
+
+  it('imports new books and derives their groups from the subfolders', async () => {
+    const { appService, importBook } = createAppService(files);
+    const books: Book[] = [];
+    const result = await scanWatchFolder(appService, folder, books);
+    expect(importBook).toHaveBeenCalledTimes(2);
+    expect(result.imported.map((b) => b.watchFolder?.path).sort()).toEqual([
+      'Fantasy/Tolkien/hobbit.epub',
+      'dune.epub',
+    ]);
+    const hobbit = books.find((b) => b.title === 'hobbit.epub')!;
+    expect(hobbit.groupName).toBe('Fantasy/Tolkien');
+    expect(books.find((b) => b.title === 'dune.epub')!.groupName).toBeUndefined();
+  });
+
+  it('links the files already in the library by their hash', async () => {
+    const { appService, importBook } = createAppService(files);
+    const dune = createMockBook({ hash: 'md5:dune.epub', updatedAt: 0 });
+    const deleted = createMockBook({ hash: 'md5:hobbit.epub', deletedAt: 1 });
+    const books = [dune, deleted];
+    const result = await scanWatchFolder(appService, folder, books);
+    expect(importBook).not.toHaveBeenCalled();
+    expect(result.changed).toHaveLength(2);
+    expect(dune.watchFolder).toEqual({ folderId: 'f1', path: 'dune.epub' });
+    expect(dune.updatedAt).toBeGreaterThan(0);
+    expect(deleted.deletedAt).toBe(1);
+  });
+
+  it('skips the linked files and flags the removed ones', async () => {
+    const { appService, importBook } = createAppService(files);
+    const books: Book[] = [];
+    await scanWatchFolder(appService, folder, books);
+    importBook.mockClear();
+
+    delete files['/books/dune.epub'];
+    const result = await scanWatchFolder(appService, folder, books);
+    expect(importBook).not.toHaveBeenCalled();
+    expect(result.missing).toBe(1);
+    const dune = books.find((b) => b.title === 'dune.epub')!;
+    expect(dune.watchFolder?.missingAt).toBeGreaterThan(0);
+
+    files['/books/dune.epub'] = 'dune';
+    await scanWatchFolder(appService, folder, books);
+    expect(dune.watchFolder?.missingAt).toBeNull();
+  });
+
+  it('retries the failed files only when their size changes', async () => {
+    const { appService, importBook } = createAppService(files);
+    importBook.mockRejectedValueOnce(new Error('Unsupported or corrupted book file'));
+    const failedFiles = new Set<string>();
+    const first = await scanWatchFolder(appService, folder, [], failedFiles);
+    expect(first.failed).toHaveLength(1);
+
+    importBook.mockClear();
+    await scanWatchFolder(appService, folder, first.imported, failedFiles);
+    expect(importBook).not.toHaveBeenCalled();
+
+    files['/books/Fantasy/Tolkien/hobbit.epub'] = 'hobbit, fully copied';
+    const retry = await scanWatchFolder(appService, folder, first.imported, failedFiles);
+    expect(importBook).toHaveBeenCalledTimes(1);
+    expect(retry.imported.map((b) => b.title)).toEqual(['hobbit.epub']);
+  });
+});
+
+describe('getSubfolderGroupName', () => {
+  it('returns the subfolders of the relative path', () => {
+    expect(getSubfolderGroupName('a/b/book.epub')).toBe('a/b');
+    expect(getSubfolderGroupName('book.epub')).toBe('');
+  });
+});
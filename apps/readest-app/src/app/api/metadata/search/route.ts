@@ -16,7 +16,7 @@ function validateSearchRequest(body: SearchRequest): {
   error?: string;
   data?: SearchRequest;
 } {
-  const { title, isbn, author, language } = body;
+  const { title, isbn, author, language, providers } = body;
 
   if (
     (!title || typeof title !== 'string' || title.trim().length === 0) &&
@@ -40,6 +40,13 @@ function validateSearchRequest(body: SearchRequest): {
     return { isValid: false, error: 'Author must be a string if provided' };
   }
 
+  if (
+    providers !== undefined &&
+    (!Array.isArray(providers) || providers.some((name) => typeof name !== 'string'))
+  ) {
+    return { isValid: false, error: 'Providers must be an array of strings if provided' };
+  }
+
   if (isbn) {
     const cleanIsbn = isbn.replace(/[-\s]/g, '');
     if (!/^\d{10}(\d{3})?$/.test(cleanIsbn)) {
@@ -54,6 +61,7 @@ function validateSearchRequest(body: SearchRequest): {
       isbn: isbn?.trim(),
       author: author?.trim(),
       language: language?.trim(),
+      providers,
     },
   };
 }
@@ -0,0 +1,289 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { MdContentCopy, MdOpenInNew } from 'react-icons/md';
+import { Book } from '@/types/book';
+import { useEnv } from '@/context/EnvContext';
+import { useTranslation } from '@/hooks/useTranslation';
+import { useFileSelector } from '@/hooks/useFileSelector';
+import { useLibraryStore } from '@/store/libraryStore';
+import { useBookDataStore } from '@/store/bookDataStore';
+import { eventDispatcher } from '@/utils/event';
+import { navigateToReader } from '@/utils/nav';
+import {
+  AnnotationImportGroup,
+  groupImportedAnnotations,
+  ImportedAnnotation,
+  importBookAnnotations,
+  parseAnnotationFile,
+} from '@/services/annotationImport';
+import Dialog from '@/components/Dialog';
+
+export const setAnnotationImportDialogVisible = (visible: boolean) => {
+  const dialog = document.getElementById('annotation_import_dialog');
+  if (dialog) {
+    const event = new CustomEvent('setDialogVisibility', {
+      detail: { visible },
+    });
+    dialog.dispatchEvent(event);
+  }
+};
+
+// An annotation that could not be imported, to be placed by hand
+interface UnplacedAnnotation {
+  book: Book | null;
+  annotation: ImportedAnnotation;
+}
+
+export const AnnotationImportDialog: React.FC = () => {
+  const _ = useTranslation();
+  const router = useRouter();
+  const { appService } = useEnv();
+  const { library } = useLibraryStore();
+  const { clearBookData } = useBookDataStore();
+  const { selectFiles } = useFileSelector(appService, _);
+  const [isOpen, setIsOpen] = useState(false);
+  const [groups, setGroups] = useState<AnnotationImportGroup[]>([]);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [summary, setSummary] = useState<{ imported: number; skipped: number } | null>(null);
+  const [unplaced, setUnplaced] = useState<UnplacedAnnotation[]>([]);
+
+  useEffect(() => {
+    const handleCustomEvent = (event: CustomEvent) => {
+      setIsOpen(event.detail.visible);
+    };
+
+    const el = document.getElementById('annotation_import_dialog');
+    if (el) {
+      el.addEventListener('setDialogVisibility', handleCustomEvent as EventListener);
+    }
+
+    return () => {
+      if (el) {
+        el.removeEventListener('setDialogVisibility', handleCustomEvent as EventListener);
+      }
+    };
+  }, []);
+
+  // the text of the books has to be on this device to locate the highlights
+  const books = useMemo(
+    () =>
+      library
+        .filter((book) => !book.deletedAt && book.downloadedAt)
+        .sort((a, b) => a.title.localeCompare(b.title)),
+    [library],
+  );
+
+  const handleSelectFiles = async () => {
+    if (!appService) return;
+    const { files, error } = await selectFiles({ type: 'annotations', multiple: true });
+    if (error || files.length === 0) return;
+    const annotations: ImportedAnnotation[] = [];
+    for (const selected of files) {
+      const name = selected.file?.name ?? selected.path?.split(/[\\/]/).pop() ?? '';
+      try {
+        const file = selected.file ?? (await appService.openFile(selected.path!, 'None'));
+        annotations.push(...parseAnnotationFile(name, await file.text()));
+      } catch (error) {
+        console.error(`Failed to read annotations from ${name}:`, error);
+        eventDispatcher.dispatch('toast', {
+          message: _('Failed to read annotations from: {{filename}}', { filename: name }),
+          type: 'error',
+        });
+      }
+    }
+    if (annotations.length === 0) {
+      eventDispatcher.dispatch('toast', {
+        message: _('No highlights found in the selected files'),
+        type: 'info',
+      });
+    }
+    setGroups(groupImportedAnnotations(annotations, books));
+    setSummary(null);
+    setUnplaced([]);
+  };
+
+  const handleAssignBook = (groupId: string, hash: string) => {
+    const book = books.find((book) => book.hash === hash) ?? null;
+    setGroups((prev) => prev.map((group) => (group.id === groupId ? { ...group, book } : group)));
+  };
+
+  const handleImport = async () => {
+    if (!appService) return;
+    const total = groups.reduce((sum, group) => sum + group.annotations.length, 0);
+    let done = 0;
+    let imported = 0;
+    let skipped = 0;
+    const notPlaced: UnplacedAnnotation[] = [];
+    setProgress(0);
+    for (const group of groups) {
+      const { book, annotations } = group;
+      if (!book) {
+        notPlaced.push(...annotations.map((annotation) => ({ book, annotation })));
+      } else {
+        try {
+          const result = await importBookAnnotations(appService, book, annotations, (p) =>
+            setProgress((done + p * annotations.length) / total),
+          );
+          imported += result.imported;
+          skipped += result.skipped;
+          notPlaced.push(...result.unanchored.map((annotation) => ({ book, annotation })));
+          clearBookData(book.hash);
+        } catch (error) {
+          console.error(`Failed to import annotations into ${book.title}:`, error);
+          notPlaced.push(...annotations.map((annotation) => ({ book, annotation })));
+        }
+      }
+      done += annotations.length;
+      setProgress(done / total);
+    }
+    setProgress(null);
+    setGroups([]);
+    setSummary({ imported, skipped });
+    setUnplaced(notPlaced);
+  };
+
+  const handleCopy = (annotation: ImportedAnnotation) => {
+    navigator.clipboard?.writeText(annotation.text || annotation.note || '');
+    eventDispatcher.dispatch('toast', {
+      message: _('Copied to clipboard'),
+      type: 'info',
+      timeout: 2000,
+    });
+  };
+
+  const handleOpenBook = (book: Book) => {
+    setIsOpen(false);
+    navigateToReader(router, [book.hash]);
+  };
+
+  const isImporting = progress !== null;
+
+  return (
+    <Dialog
+      id='annotation_import_dialog'
+      isOpen={isOpen}
+      title={_('Import Annotations')}
+      onClose={() => setIsOpen(false)}
+      boxClassName='sm:!w-[640px] sm:!max-w-screen-sm'
+    >
+      {isOpen && (
+        <div className='flex flex-col gap-4 px-6 py-4'>
+          <p className='text-base-content/70 text-sm'>
+            {_(
+              'Import highlights from a Kindle "My Clippings.txt", a KOReader metadata.lua file, or a Readwise CSV or Markdown export.',
+            )}
+          </p>
+          <button
+            className='btn btn-outline btn-sm self-start'
+            disabled={isImporting}
+            onClick={handleSelectFiles}
+          >
+            {_('Select Files')}
+          </button>
+
+          {groups.length > 0 && (
+            <>
+              <ul className='divide-base-200 divide-y'>
+                {groups.map((group) => (
+                  <li key={group.id} className='flex flex-col gap-2 py-3 sm:flex-row'>
+                    <div className='min-w-0 flex-1'>
+                      <p className='truncate text-sm font-medium' title={group.title}>
+                        {group.title || _('Untitled')}
+                      </p>
+                      <p className='text-base-content/60 truncate text-xs'>
+                        {[
+                          group.author,
+                          _('{{count}} highlight(s)', { count: group.annotations.length }),
+                        ]
+                          .filter(Boolean)
+                          .join(' · ')}
+                      </p>
+                    </div>
+                    <select
+                      className='select select-bordered select-sm sm:w-56'
+                      aria-label={_('Library Book')}
+                      value={group.book?.hash ?? ''}
+                      disabled={isImporting}
+                      onChange={(e) => handleAssignBook(group.id, e.target.value)}
+                    >
+                      <option value=''>{_('Not matched')}</option>
+                      {books.map((book) => (
+                        <option key={book.hash} value={book.hash}>
+                          {book.title}
+                        </option>
+                      ))}
+                    </select>
+                  </li>
+                ))}
+              </ul>
+              {isImporting && (
+                <progress
+                  className='progress progress-primary h-1 w-full'
+                  value={progress * 100}
+                  max={100}
+                  aria-label={_('Import Progress')}
+                />
+              )}
+              <button
+                className='btn btn-primary btn-sm self-end'
+                disabled={isImporting || !groups.some((group) => group.book)}
+                onClick={handleImport}
+              >
+                {_('Import')}
+              </button>
+            </>
+          )}
+
+          {summary && (
+            <p className='text-sm'>
+              {_('Imported {{imported}} highlight(s), {{skipped}} already in your books', summary)}
+            </p>
+          )}
+          {unplaced.length > 0 && (
+            <div className='flex flex-col gap-2'>
+              <h3 className='text-sm font-bold'>{_('Not Placed')}</h3>
+              <p className='text-base-content/70 text-xs'>
+                {_(
+                  'These highlights could not be matched to a book or found in its text. Copy them to find and highlight them in the book.',
+                )}
+              </p>
+              <ul className='divide-base-200 max-h-[40vh] divide-y overflow-y-auto'>
+                {unplaced.map(({ book, annotation }, index) => (
+                  <li key={index} className='flex items-start gap-2 py-2'>
+                    <div className='min-w-0 flex-1'>
+                      <p className='text-base-content/60 truncate text-xs'>
+                        {book?.title ?? annotation.title}
+                      </p>
+                      <p className='line-clamp-3 text-sm'>{annotation.text || annotation.note}</p>
+                      {annotation.text && annotation.note && (
+                        <p className='text-base-content/70 line-clamp-2 text-xs'>
+                          {annotation.note}
+                        </p>
+                      )}
+                    </div>
+                    <button
+                      className='btn btn-ghost btn-sm'
+                      aria-label={_('Copy')}
+                      onClick={() => handleCopy(annotation)}
+                    >
+                      <MdContentCopy className='h-4 w-4' />
+                    </button>
+                    {book && (
+                      <button
+                        className='btn btn-ghost btn-sm'
+                        aria-label={_('Open Book')}
+                        onClick={() => handleOpenBook(book)}
+                      >
+                        <MdOpenInNew className='h-4 w-4' />
+                      </button>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+    </Dialog>
+  );
+};
@@ -0,0 +1,189 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Book } from '@/types/book';
+import { useEnv } from '@/context/EnvContext';
+import { useTranslation } from '@/hooks/useTranslation';
+import { useSettingsStore } from '@/store/settingsStore';
+import { useTransferStore } from '@/store/transferStore';
+import { transferManager } from '@/services/transferManager';
+import {
+  getAudiobookChapters,
+  getAudiobookVoice,
+  getAudiobookVoices,
+  isAudiobookVoice,
+  loadAudiobookSource,
+} from '@/services/tts/AudiobookExporter';
+import { AudiobookChapter, AudiobookFormat } from '@/utils/audiobook';
+import { eventDispatcher } from '@/utils/event';
+import Dialog from '@/components/Dialog';
+
+interface AudiobookExportDialogProps {
+  book: Book;
+  onClose: () => void;
+}
+
+export function AudiobookExportDialog({ book, onClose }: AudiobookExportDialogProps) {
+  const _ = useTranslation();
+  const { envConfig } = useEnv();
+  const { settings } = useSettingsStore();
+  const { setIsTransferQueueOpen } = useTransferStore();
+  const [chapters, setChapters] = useState<AudiobookChapter[] | null>(null);
+  const [startChapter, setStartChapter] = useState(0);
+  const [endChapter, setEndChapter] = useState(0);
+  const [format, setFormat] = useState<AudiobookFormat>('m4b');
+  const [voice, setVoice] = useState('');
+  const [unsupportedVoice, setUnsupportedVoice] = useState('');
+  const [rate, setRate] = useState(1.0);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = async () => {
+      try {
+        const appService = await envConfig.getAppService();
+        const { viewSettings } = await appService.loadBookConfig(book, settings);
+        const { bookDoc, close } = await loadAudiobookSource(appService, book);
+        const chapters = getAudiobookChapters(bookDoc);
+        await close();
+        if (cancelled) return;
+        setChapters(chapters);
+        setEndChapter(Math.max(chapters.length - 1, 0));
+        const ttsVoice = viewSettings?.ttsVoice ?? '';
+        setVoice(getAudiobookVoice(ttsVoice, book.primaryLanguage || 'en'));
+        setUnsupportedVoice(ttsVoice && !isAudiobookVoice(ttsVoice) ? ttsVoice : '');
+        setRate(viewSettings?.ttsRate ?? 1.0);
+      } catch (e) {
+        console.error('Failed to load chapters:', e);
+        if (!cancelled) setError(_('Failed to load the chapters of the book.'));
+      }
+    };
+    load();
+    return () => {
+      cancelled = true;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [book]);
+
+  const voices = useMemo(() => getAudiobookVoices(book.primaryLanguage || 'en'), [book]);
+
+  const handleExport = () => {
+    if (!chapters) return;
+    const transferId = transferManager.queueAudiobookExport(book, {
+      format,
+      startChapter,
+      endChapter,
+      voice,
+      rate,
+    });
+    if (transferId) {
+      eventDispatcher.dispatch('toast', {
+        type: 'info',
+        timeout: 2000,
+        message: _('Audiobook export added to the transfer queue'),
+      });
+      setIsTransferQueueOpen(true);
+    }
+    onClose();
+  };
+
+  return (
+    <Dialog
+      isOpen={true}
+      title={_('Export as Audiobook')}
+      onClose={onClose}
+      bgClassName={'sm:!bg-black/75'}
+      boxClassName='sm:min-w-[480px] sm:max-w-[480px] sm:h-auto'
+    >
+      <div className='flex flex-col gap-4 px-6 pb-6'>
+        <div className='line-clamp-2 font-medium'>{book.title}</div>
+        {error && <p className='text-error text-sm'>{error}</p>}
+        {!chapters && !error && <span className='loading loading-dots loading-sm' />}
+        {chapters && chapters.length > 0 && (
+          <>
+            <label className='flex flex-col gap-1 text-sm'>
+              <span>{_('From')}</span>
+              <select
+                className='select select-bordered select-sm'
+                value={startChapter}
+                onChange={(e) => {
+                  const value = Number(e.target.value);
+                  setStartChapter(value);
+                  if (endChapter < value) setEndChapter(value);
+                }}
+              >
+                {chapters.map((chapter, i) => (
+                  <option key={i} value={i}>
+                    {chapter.title}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className='flex flex-col gap-1 text-sm'>
+              <span>{_('To')}</span>
+              <select
+                className='select select-bordered select-sm'
+                value={endChapter}
+                onChange={(e) => setEndChapter(Number(e.target.value))}
+              >
+                {chapters.map((chapter, i) => (
+                  <option key={i} value={i} disabled={i < startChapter}>
+                    {chapter.title}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className='flex flex-col gap-1 text-sm'>
+              <span>{_('Format')}</span>
+              <select
+                className='select select-bordered select-sm'
+                value={format}
+                onChange={(e) => setFormat(e.target.value as AudiobookFormat)}
+              >
+                <option value='m4b'>{_('M4B audiobook with chapters')}</option>
+                <option value='mp3-chapters'>{_('One MP3 per chapter (ZIP)')}</option>
+              </select>
+            </label>
+            <label className='flex flex-col gap-1 text-sm'>
+              <span>{_('Voice')}</span>
+              <select
+                className='select select-bordered select-sm'
+                value={voice}
+                onChange={(e) => setVoice(e.target.value)}
+              >
+                {!voices.some((v) => v.id === voice) && <option value={voice}>{voice}</option>}
+                {voices.map((v) => (
+                  <option key={v.id} value={v.id}>
+                    {`${v.name} (${v.lang})`}
+                  </option>
+                ))}
+              </select>
+            </label>
+            {unsupportedVoice && (
+              <p className='text-warning text-xs'>
+                {_(
+                  'The current voice {{voice}} cannot be used to export audio files, choose an online voice instead.',
+                  { voice: unsupportedVoice },
+                )}
+              </p>
+            )}
+            <p className='text-base-content/60 text-xs'>{_('Speed: {{rate}}x', { rate })}</p>
+            <p className='text-base-content/60 text-xs'>
+              {_('The audiobook is rendered with online Edge TTS voices.')}
+            </p>
+          </>
+        )}
+        <div className='flex justify-end gap-2'>
+          <button className='btn btn-ghost btn-sm' onClick={onClose}>
+            {_('Cancel')}
+          </button>
+          <button
+            className='btn btn-primary btn-sm'
+            onClick={handleExport}
+            disabled={!chapters || chapters.length === 0}
+          >
+            {_('Export')}
+          </button>
+        </div>
+      </div>
+    </Dialog>
+  );
+}
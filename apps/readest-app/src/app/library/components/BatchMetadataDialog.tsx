@@ -0,0 +1,248 @@
+import clsx from 'clsx';
+import React, { useEffect, useState } from 'react';
+import { Book } from '@/types/book';
+import type { BookMetadata } from '@/libs/document';
+import { useTranslation } from '@/hooks/useTranslation';
+import { searchMetadata } from '@/libs/metadata';
+import {
+  BookMetadataLookup,
+  MetadataField,
+  applyMetadataResult,
+  getMetadataDiff,
+  lookupBooksMetadata,
+} from '@/services/metadata/batch';
+import { eventDispatcher } from '@/utils/event';
+import Dialog from '@/components/Dialog';
+
+// results at least this confident are accepted without reviewing them
+const AUTO_ACCEPT_CONFIDENCE = 70;
+
+interface BookSelection {
+  resultIndex: number;
+  fields: MetadataField[];
+  accepted: boolean;
+}
+
+interface BatchMetadataDialogProps {
+  books: Book[];
+  onApply: (book: Book, metadata: BookMetadata) => Promise<void>;
+  onClose: () => void;
+}
+
+const createSelection = (book: Book, lookup: BookMetadataLookup, resultIndex: number) => {
+  const result = lookup.results[resultIndex];
+  const fields = result ? getMetadataDiff(book, result.metadata).map((diff) => diff.field) : [];
+  return {
+    resultIndex,
+    fields,
+    accepted: !!result && fields.length > 0 && result.confidence >= AUTO_ACCEPT_CONFIDENCE,
+  };
+};
+
+export function BatchMetadataDialog({ books, onApply, onClose }: BatchMetadataDialogProps) {
+  const _ = useTranslation();
+  const [lookups, setLookups] = useState<Record<string, BookMetadataLookup>>({});
+  const [selections, setSelections] = useState<Record<string, BookSelection>>({});
+  const [applying, setApplying] = useState(false);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    lookupBooksMetadata(
+      books,
+      searchMetadata,
+      (lookup) => {
+        const book = books.find((b) => b.hash === lookup.bookHash)!;
+        setLookups((prev) => ({ ...prev, [lookup.bookHash]: lookup }));
+        setSelections((prev) => ({ ...prev, [lookup.bookHash]: createSelection(book, lookup, 0) }));
+      },
+      { signal: controller.signal },
+    );
+    return () => controller.abort();
+  }, [books]);
+
+  const fieldLabels: Record<MetadataField, string> = {
+    title: _('Title'),
+    subtitle: _('Subtitle'),
+    author: _('Author'),
+    publisher: _('Publisher'),
+    published: _('Published'),
+    language: _('Language'),
+    identifier: _('Identifier'),
+    subject: _('Subjects'),
+    description: _('Description'),
+    series: _('Series'),
+    seriesIndex: _('Series Index'),
+    coverImageUrl: _('Cover'),
+  };
+
+  const pendingCount = books.filter((book) => !lookups[book.hash]).length;
+  const acceptedBooks = books.filter((book) => {
+    const selection = selections[book.hash];
+    return selection?.accepted && selection.fields.length > 0;
+  });
+
+  const updateSelection = (hash: string, changes: Partial<BookSelection>) => {
+    setSelections((prev) => ({ ...prev, [hash]: { ...prev[hash]!, ...changes } }));
+  };
+
+  const toggleField = (hash: string, field: MetadataField) => {
+    const fields = selections[hash]!.fields;
+    updateSelection(hash, {
+      fields: fields.includes(field) ? fields.filter((f) => f !== field) : [...fields, field],
+    });
+  };
+
+  const setAllAccepted = (accepted: boolean) => {
+    setSelections((prev) =>
+      Object.fromEntries(
+        Object.entries(prev).map(([hash, selection]) => [
+          hash,
+          { ...selection, accepted: accepted && selection.fields.length > 0 },
+        ]),
+      ),
+    );
+  };
+
+  const handleApply = async () => {
+    setApplying(true);
+    let updated = 0;
+    for (const book of acceptedBooks) {
+      const { resultIndex, fields } = selections[book.hash]!;
+      const result = lookups[book.hash]!.results[resultIndex]!;
+      try {
+        await onApply(book, applyMetadataResult(book, result.metadata, fields));
+        updated++;
+      } catch (error) {
+        console.error('Failed to update metadata:', book.title, error);
+      }
+    }
+    setApplying(false);
+    eventDispatcher.dispatch('toast', {
+      message: _('Updated the metadata of {{count}} book(s)', { count: updated }),
+      timeout: 2000,
+      type: updated === acceptedBooks.length ? 'info' : 'warning',
+    });
+    onClose();
+  };
+
+  const renderValue = (field: MetadataField, value: string) =>
+    field === 'coverImageUrl' && value ? (
+      // eslint-disable-next-line @next/next/no-img-element
+      <img src={value} alt='' className='h-16 w-auto rounded-sm object-contain' />
+    ) : (
+      <span className='line-clamp-2 break-words'>{value || '-'}</span>
+    );
+
+  const renderBook = (book: Book) => {
+    const lookup = lookups[book.hash];
+    const selection = selections[book.hash];
+    const result = lookup && selection ? lookup.results[selection.resultIndex] : undefined;
+    const diffs = result ? getMetadataDiff(book, result.metadata) : [];
+
+    return (
+      <li key={book.hash} className='flex flex-col gap-2 py-3'>
+        <div className='flex items-center gap-2'>
+          <input
+            type='checkbox'
+            className='checkbox checkbox-sm'
+            aria-label={book.title}
+            checked={!!selection?.accepted}
+            disabled={!result || diffs.length === 0}
+            onChange={(e) => updateSelection(book.hash, { accepted: e.target.checked })}
+          />
+          <p className='min-w-0 flex-1 truncate text-sm font-medium'>{book.title}</p>
+          {!lookup && <span className='loading loading-dots loading-xs' />}
+          {lookup && lookup.results.length > 0 && (
+            <select
+              className='select select-bordered select-xs max-w-48'
+              aria-label={_('Source')}
+              value={selection?.resultIndex ?? 0}
+              onChange={(e) =>
+                setSelections((prev) => ({
+                  ...prev,
+                  [book.hash]: createSelection(book, lookup, Number(e.target.value)),
+                }))
+              }
+            >
+              {lookup.results.map((result, index) => (
+                <option key={index} value={index}>
+                  {`${result.providerLabel} (${Math.round(result.confidence)}%)`}
+                </option>
+              ))}
+            </select>
+          )}
+        </div>
+        {lookup && lookup.results.length === 0 && (
+          <p className={clsx('text-xs', lookup.error ? 'text-error' : 'text-base-content/60')}>
+            {lookup.error || _('No metadata found')}
+          </p>
+        )}
+        {result && diffs.length === 0 && (
+          <p className='text-base-content/60 text-xs'>{_('The metadata is up to date')}</p>
+        )}
+        {result && diffs.length > 0 && (
+          <table className='table-xs table'>
+            <tbody>
+              {diffs.map(({ field, current, proposed }) => (
+                <tr key={field}>
+                  <td className='w-6 px-1'>
+                    <input
+                      type='checkbox'
+                      className='checkbox checkbox-xs'
+                      aria-label={fieldLabels[field]}
+                      checked={selection!.fields.includes(field)}
+                      onChange={() => toggleField(book.hash, field)}
+                    />
+                  </td>
+                  <td className='text-base-content/70 w-24 px-1'>{fieldLabels[field]}</td>
+                  <td className='text-base-content/60 px-1 line-through'>
+                    {renderValue(field, current)}
+                  </td>
+                  <td className='px-1'>{renderValue(field, proposed)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </li>
+    );
+  };
+
+  return (
+    <Dialog
+      isOpen={true}
+      title={_('Fetch Metadata')}
+      onClose={onClose}
+      bgClassName={'sm:!bg-black/75'}
+      boxClassName='sm:!w-[720px] sm:!max-w-screen-md'
+    >
+      <div className='flex flex-col gap-3 px-6 pb-6'>
+        <p className='text-base-content/70 text-sm'>
+          {pendingCount > 0
+            ? _('Looking up {{count}} book(s)...', { count: pendingCount })
+            : _('Review the changes before applying them to the selected books.')}
+        </p>
+        <ul className='divide-base-200 divide-y'>{books.map(renderBook)}</ul>
+        <div className='flex flex-wrap items-center justify-end gap-2'>
+          <button className='btn btn-ghost btn-sm' onClick={() => setAllAccepted(true)}>
+            {_('Accept All')}
+          </button>
+          <button className='btn btn-ghost btn-sm' onClick={() => setAllAccepted(false)}>
+            {_('Reject All')}
+          </button>
+          <button className='btn btn-sm' onClick={onClose}>
+            {_('Cancel')}
+          </button>
+          <button
+            className='btn btn-primary btn-sm'
+            disabled={applying || acceptedBooks.length === 0}
+            onClick={handleApply}
+          >
+            {applying && <span className='loading loading-spinner loading-xs' />}
+            {_('Apply ({{count}})', { count: acceptedBooks.length })}
+          </button>
+        </div>
+      </div>
+    </Dialog>
+  );
+}
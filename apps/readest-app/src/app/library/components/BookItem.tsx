@@ -1,5 +1,5 @@
 import clsx from 'clsx';
-import { MdCheckCircle, MdCheckCircleOutline } from 'react-icons/md';
+import { MdCheckCircle, MdCheckCircleOutline, MdOutlineFolderOff } from 'react-icons/md';
 import {
   LiaCloudUploadAltSolid,
   LiaCloudDownloadAltSolid,
@@ -129,6 +129,14 @@ const BookItem: React.FC<BookItemProps> = ({
         >
           {(book.progress || book.readingStatus) && <ReadingProgress book={book} />}
           <div className='flex items-center justify-center gap-x-2'>
+            {book.watchFolder?.missingAt && (
+              <div
+                className='text-warning pt-[2px] sm:pt-[1px]'
+                title={_('The book file was removed from the watch folder')}
+              >
+                <MdOutlineFolderOff size={iconSize15} />
+              </div>
+            )}
             {!appService?.isMobile && (
               <button
                 aria-label={_('Show Book Details')}
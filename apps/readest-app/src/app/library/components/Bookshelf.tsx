@@ -4,6 +4,7 @@ import { useRouter, useSearchParams } from 'next/navigation';
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { PiPlus } from 'react-icons/pi';
 import { Book, BooksGroup, ReadingStatus } from '@/types/book';
+import type { BookMetadata } from '@/libs/document';
 import {
   LibraryCoverFitType,
   LibraryGroupByType,
@@ -30,6 +31,12 @@ import {
   getGroupSortValue,
   compareSortValues,
 } from '../utils/libraryUtils';
+import {
+  createSmartShelfFilter,
+  createSmartShelfGroups,
+  findSmartShelfByGroupId,
+  isSmartShelfGroupId,
+} from '../utils/smartShelves';
 import { eventDispatcher } from '@/utils/event';
 
 import Alert from '@/components/Alert';
@@ -39,6 +46,7 @@ import BookshelfItem, { generateBookshelfItems } from './BookshelfItem';
 import SelectModeActions from './SelectModeActions';
 import GroupingModal from './GroupingModal';
 import SetStatusAlert from './SetStatusAlert';
+import { BatchMetadataDialog } from './BatchMetadataDialog';
 
 interface BookshelfProps {
   libraryBooks: Book[];
@@ -54,6 +62,7 @@ interface BookshelfProps {
   handleBookDelete: (book: Book, syncBooks?: boolean) => Promise<boolean>;
   handleSetSelectMode: (selectMode: boolean) => void;
   handleShowDetailsBook: (book: Book) => void;
+  handleBookMetadataUpdate: (book: Book, metadata: BookMetadata) => Promise<void>;
   handleLibraryNavigation: (targetGroup: string) => void;
   handlePushLibrary: () => Promise<void>;
   booksTransferProgress: { [key: string]: number | null };
@@ -70,6 +79,7 @@ const Bookshelf: React.FC<BookshelfProps> = ({
   handleBookDelete,
   handleSetSelectMode,
   handleShowDetailsBook,
+  handleBookMetadataUpdate,
   handleLibraryNavigation,
   handlePushLibrary,
   booksTransferProgress,
@@ -95,6 +105,7 @@ const Bookshelf: React.FC<BookshelfProps> = ({
   const [showDeleteAlert, setShowDeleteAlert] = useState(false);
   const [showStatusAlert, setShowStatusAlert] = useState(false);
   const [showGroupingModal, setShowGroupingModal] = useState(false);
+  const [metadataBooks, setMetadataBooks] = useState<Book[] | null>(null);
   const [importBookUrl] = useState(searchParams?.get('url') || '');
 
   const abortDeletionRef = useRef(false);
@@ -142,13 +153,21 @@ const Bookshelf: React.FC<BookshelfProps> = ({
   }, [libraryBooks, queryTerm]);
 
   const currentBookshelfItems = useMemo(() => {
+    const smartShelves = settings.smartShelves;
+    if (isSmartShelfGroupId(groupId)) {
+      const shelf = findSmartShelfByGroupId(smartShelves, groupId);
+      return shelf ? filteredBooks.filter(createSmartShelfFilter(shelf)) : [];
+    }
+    // Smart shelves are listed alongside the groups at the top level of the bookshelf
+    const smartShelfGroups = groupId ? [] : createSmartShelfGroups(filteredBooks, smartShelves);
+
     if (groupBy === LibraryGroupByType.Group) {
       // Use existing generateBookshelfItems for group mode
       const groupName = getGroupName(groupId) || '';
       if (groupId && !groupName) {
         return [];
       }
-      return generateBookshelfItems(filteredBooks, groupName);
+      return [...smartShelfGroups, ...generateBookshelfItems(filteredBooks, groupName)];
     } else {
       // Use new createBookGroups for series/author/none modes
       const allItems = createBookGroups(filteredBooks, groupBy);
@@ -166,9 +185,9 @@ const Bookshelf: React.FC<BookshelfProps> = ({
         return [];
       }
 
-      return allItems;
+      return [...smartShelfGroups, ...allItems];
     }
-  }, [filteredBooks, groupBy, groupId, getGroupName]);
+  }, [filteredBooks, groupBy, groupId, getGroupName, settings.smartShelves]);
 
   useEffect(() => {
     if (groupId && currentBookshelfItems.length === 0) {
@@ -194,7 +213,12 @@ const Bookshelf: React.FC<BookshelfProps> = ({
     // Sort ungrouped books - use within-group sorter if we're inside a group
     // (for series, this ensures books are sorted by series index)
     const bookSorter = createBookSorter(sortBy, uiLanguage);
-    if (groupId && groupBy !== LibraryGroupByType.Group && groupBy !== LibraryGroupByType.None) {
+    if (
+      groupId &&
+      !isSmartShelfGroupId(groupId) &&
+      groupBy !== LibraryGroupByType.Group &&
+      groupBy !== LibraryGroupByType.None
+    ) {
       ungroupedBooks.sort((a, b) => withinGroupSorter(a, b) * sortOrderMultiplier);
     } else {
       ungroupedBooks.sort((a, b) => bookSorter(a, b) * sortOrderMultiplier);
@@ -329,6 +353,14 @@ const Bookshelf: React.FC<BookshelfProps> = ({
     setShowStatusAlert(true);
   };
 
+  const fetchSelectedBooksMetadata = () => {
+    const selectedIds = getSelectedBooks();
+    const books = libraryBooks.filter((book) => selectedIds.includes(book.hash));
+    if (books.length === 0) return;
+    setShowSelectModeActions(false);
+    setMetadataBooks(books);
+  };
+
   const updateBooksStatus = async (status: ReadingStatus | undefined) => {
     const selectedIds = getSelectedBooks();
     const booksToUpdate: Book[] = [];
@@ -476,6 +508,7 @@ const Bookshelf: React.FC<BookshelfProps> = ({
           onGroup={groupSelectedBooks}
           onDetails={openBookDetails}
           onStatus={showStatusSelection}
+          onMetadata={fetchSelectedBooksMetadata}
           onDelete={deleteSelectedBooks}
           onCancel={() => handleSetSelectMode(false)}
         />
@@ -518,6 +551,18 @@ const Bookshelf: React.FC<BookshelfProps> = ({
           />
         </div>
       )}
+      {metadataBooks && (
+        <ModalPortal>
+          <BatchMetadataDialog
+            books={metadataBooks}
+            onApply={handleBookMetadataUpdate}
+            onClose={() => {
+              setMetadataBooks(null);
+              handleSetSelectMode(false);
+            }}
+          />
+        </ModalPortal>
+      )}
       {showStatusAlert && (
         <SetStatusAlert
           selectedCount={getSelectedBooks().length}
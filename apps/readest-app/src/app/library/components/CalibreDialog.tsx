@@ -0,0 +1,456 @@
+import clsx from 'clsx';
+import React, { useEffect, useMemo, useState } from 'react';
+import { MdDelete, MdSync } from 'react-icons/md';
+import { useEnv } from '@/context/EnvContext';
+import { useTranslation } from '@/hooks/useTranslation';
+import { useLibraryStore } from '@/store/libraryStore';
+import { useSettingsStore } from '@/store/settingsStore';
+import { saveSysSettings } from '@/helpers/settings';
+import { eventDispatcher } from '@/utils/event';
+import { CalibreBook, CalibreSource, CalibreSourceType } from '@/services/calibre/types';
+import {
+  getCalibreLibrary,
+  getPreferredCalibreFormat,
+  importCalibreBook,
+  syncCalibreMetadata,
+} from '@/services/calibre';
+import Dialog from '@/components/Dialog';
+
+export const setCalibreDialogVisible = (visible: boolean) => {
+  const dialog = document.getElementById('calibre_dialog');
+  if (dialog) {
+    const event = new CustomEvent('setDialogVisibility', {
+      detail: { visible },
+    });
+    dialog.dispatchEvent(event);
+  }
+};
+
+const EMPTY_SOURCE = { name: '', path: '', url: '', username: '', password: '' };
+
+export const CalibreDialog = () => {
+  const _ = useTranslation();
+  const { envConfig, appService } = useEnv();
+  const { settings } = useSettingsStore();
+  const [isOpen, setIsOpen] = useState(false);
+  const [sources, setSources] = useState<CalibreSource[]>(() => settings.calibreSources || []);
+  const [sourceId, setSourceId] = useState('');
+  const [books, setBooks] = useState<CalibreBook[]>([]);
+  const [selectedIds, setSelectedIds] = useState<Set<number>>(new Set());
+  const [query, setQuery] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [isBusy, setIsBusy] = useState(false);
+  const [showAddForm, setShowAddForm] = useState(false);
+  const canOpenLocal = !!appService?.isDesktopApp;
+  const [newType, setNewType] = useState<CalibreSourceType>(canOpenLocal ? 'local' : 'server');
+  const [newSource, setNewSource] = useState(EMPTY_SOURCE);
+
+  useEffect(() => {
+    const handleCustomEvent = (event: CustomEvent) => {
+      setIsOpen(event.detail.visible);
+    };
+
+    const el = document.getElementById('calibre_dialog');
+    if (el) {
+      el.addEventListener('setDialogVisibility', handleCustomEvent as EventListener);
+    }
+
+    return () => {
+      if (el) {
+        el.removeEventListener('setDialogVisibility', handleCustomEvent as EventListener);
+      }
+    };
+  }, []);
+
+  const source = sources.find((s) => s.id === sourceId);
+
+  const saveSources = (updatedSources: CalibreSource[]) => {
+    setSources(updatedSources);
+    saveSysSettings(envConfig, 'calibreSources', updatedSources);
+  };
+
+  const showError = (message: string, error: unknown) => {
+    console.error(message, error);
+    eventDispatcher.dispatch('toast', {
+      message: `${message}\n${error instanceof Error ? error.message : String(error)}`,
+      timeout: 5000,
+      type: 'error',
+    });
+  };
+
+  const loadBooks = async (calibreSource: CalibreSource) => {
+    setIsLoading(true);
+    setBooks([]);
+    setSelectedIds(new Set());
+    try {
+      setBooks(await getCalibreLibrary(calibreSource).getBooks());
+    } catch (error) {
+      showError(_('Failed to load the Calibre library'), error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const selectSource = (id: string) => {
+    setSourceId(id);
+    setQuery('');
+    const calibreSource = sources.find((s) => s.id === id);
+    if (calibreSource) loadBooks(calibreSource);
+  };
+
+  const handleBrowseFolder = async () => {
+    const path = await appService?.selectDirectory('read');
+    if (!path) return;
+    const name = newSource.name || path.split(/[\\/]/).filter(Boolean).pop() || '';
+    setNewSource({ ...newSource, path, name });
+  };
+
+  const handleAddSource = () => {
+    const location = newType === 'local' ? newSource.path : newSource.url.trim();
+    if (!newSource.name || !location) return;
+    if (newType === 'server' && !/^https?:\/\//i.test(location)) {
+      eventDispatcher.dispatch('toast', {
+        message: _('URL must start with http:// or https://'),
+        timeout: 3000,
+        type: 'error',
+      });
+      return;
+    }
+    const calibreSource: CalibreSource = {
+      id: Date.now().toString(),
+      name: newSource.name,
+      type: newType,
+      ...(newType === 'local'
+        ? { path: location }
+        : {
+            url: location,
+            username: newSource.username || undefined,
+            password: newSource.password || undefined,
+          }),
+    };
+    saveSources([...sources, calibreSource]);
+    setNewSource(EMPTY_SOURCE);
+    setShowAddForm(false);
+    setSourceId(calibreSource.id);
+    loadBooks(calibreSource);
+  };
+
+  const handleRemoveSource = (id: string) => {
+    saveSources(sources.filter((s) => s.id !== id));
+    if (id === sourceId) {
+      setSourceId('');
+      setBooks([]);
+    }
+  };
+
+  const saveLibrary = async () => {
+    const { library, setLibrary } = useLibraryStore.getState();
+    setLibrary([...library]);
+    await appService?.saveLibraryBooks(library);
+  };
+
+  const handleImport = async () => {
+    if (!appService || !source) return;
+    setIsBusy(true);
+    const { library } = useLibraryStore.getState();
+    const toImport = books.filter((b) => selectedIds.has(b.id));
+    let imported = 0;
+    for (const calibreBook of toImport) {
+      try {
+        if (await importCalibreBook(appService, source, calibreBook, library)) imported++;
+      } catch (error) {
+        showError(_('Failed to import book: {{title}}', { title: calibreBook.title }), error);
+      }
+    }
+    await saveLibrary();
+    setSelectedIds(new Set());
+    setIsBusy(false);
+    if (imported > 0) {
+      eventDispatcher.dispatch('toast', {
+        message: _('Successfully imported {{count}} book(s)', { count: imported }),
+        timeout: 2000,
+        type: 'success',
+      });
+    }
+  };
+
+  const handleSync = async () => {
+    if (!source) return;
+    setIsBusy(true);
+    try {
+      const { library } = useLibraryStore.getState();
+      // Calibre does not expect metadata.db to be changed by other programs while it runs
+      const confirmWrite =
+        source.type === 'local' && appService
+          ? () =>
+              appService.ask(
+                _(
+                  'Metadata changes will be written to the Calibre library. Close Calibre before continuing, writing while it is open can corrupt the library. Continue?',
+                ),
+              )
+          : undefined;
+      const result = await syncCalibreMetadata(
+        source,
+        library,
+        books.length ? books : undefined,
+        confirmWrite,
+      );
+      await saveLibrary();
+      saveSources(
+        sources.map((s) => (s.id === source.id ? { ...s, lastSyncedAt: Date.now() } : s)),
+      );
+      await loadBooks(source);
+      const messages = [
+        _('Metadata synced: {{pulled}} updated from Calibre, {{pushed}} sent to Calibre', {
+          pulled: result.pulled,
+          pushed: result.pushed,
+        }),
+      ];
+      if (result.conflicts > 0) {
+        messages.push(
+          _('{{count}} book(s) were edited in both places, the Calibre metadata was kept', {
+            count: result.conflicts,
+          }),
+        );
+      }
+      if (result.skipped > 0) {
+        messages.push(
+          _('{{count}} book(s) have changes that were not sent to Calibre', {
+            count: result.skipped,
+          }),
+        );
+      }
+      const hasIssues = result.failed + result.conflicts + result.skipped > 0;
+      eventDispatcher.dispatch('toast', {
+        message: messages.join('\n'),
+        timeout: hasIssues ? 5000 : 3000,
+        type: hasIssues ? 'warning' : 'success',
+      });
+    } catch (error) {
+      showError(_('Failed to sync metadata with Calibre'), error);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const importedIds = useMemo(() => {
+    if (!isOpen) return new Set<number>();
+    return new Set(
+      useLibraryStore
+        .getState()
+        .library.filter((b) => !b.deletedAt && b.calibre?.sourceId === sourceId)
+        .map((b) => b.calibre!.bookId),
+    );
+    // refresh the imported state whenever the books are reloaded
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isOpen, sourceId, books, isBusy]);
+
+  const filteredBooks = useMemo(() => {
+    const q = query.trim().toLowerCase();
+    if (!q) return books;
+    return books.filter((b) =>
+      [b.title, ...b.authors, b.series ?? '', ...b.tags].some((v) => v.toLowerCase().includes(q)),
+    );
+  }, [books, query]);
+
+  const toggleBook = (id: number) => {
+    const next = new Set(selectedIds);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    setSelectedIds(next);
+  };
+
+  return (
+    <Dialog
+      id='calibre_dialog'
+      isOpen={isOpen}
+      title={_('Calibre Libraries')}
+      onClose={() => setIsOpen(false)}
+      boxClassName='sm:!w-[640px] sm:!max-w-screen-sm sm:h-[80%]'
+    >
+      {isOpen && (
+        <div className='flex h-full flex-col gap-4 px-6 py-4'>
+          <div className='flex items-center gap-2'>
+            <select
+              className='select select-bordered select-sm min-w-0 flex-1'
+              value={sourceId}
+              onChange={(e) => selectSource(e.target.value)}
+            >
+              <option value=''>{_('Select a Calibre library')}</option>
+              {sources.map((s) => (
+                <option key={s.id} value={s.id}>
+                  {s.name}
+                </option>
+              ))}
+            </select>
+            {source && (
+              <button
+                className='btn btn-ghost btn-sm'
+                aria-label={_('Remove')}
+                onClick={() => handleRemoveSource(source.id)}
+              >
+                <MdDelete className='h-4 w-4' />
+              </button>
+            )}
+            <button className='btn btn-sm' onClick={() => setShowAddForm(!showAddForm)}>
+              {showAddForm ? _('Cancel') : _('Add Library')}
+            </button>
+          </div>
+
+          {showAddForm && (
+            <div className='bg-base-200 flex flex-col gap-2 rounded-lg p-3'>
+              {canOpenLocal && (
+                <div className='join'>
+                  {(['local', 'server'] as CalibreSourceType[]).map((type) => (
+                    <button
+                      key={type}
+                      className={clsx('btn btn-sm join-item', newType === type && 'btn-active')}
+                      onClick={() => setNewType(type)}
+                    >
+                      {type === 'local' ? _('Library Folder') : _('Content Server')}
+                    </button>
+                  ))}
+                </div>
+              )}
+              <input
+                type='text'
+                className='input input-bordered input-sm placeholder:text-sm'
+                placeholder={_('Name')}
+                value={newSource.name}
+                onChange={(e) => setNewSource({ ...newSource, name: e.target.value })}
+              />
+              {newType === 'local' ? (
+                <div className='flex gap-2'>
+                  <input
+                    type='text'
+                    readOnly
+                    className='input input-bordered input-sm min-w-0 flex-1 placeholder:text-sm'
+                    placeholder={_('Folder containing metadata.db')}
+                    value={newSource.path}
+                  />
+                  <button className='btn btn-sm' onClick={handleBrowseFolder}>
+                    {_('Browse')}
+                  </button>
+                </div>
+              ) : (
+                <>
+                  <input
+                    type='url'
+                    className='input input-bordered input-sm placeholder:text-sm'
+                    placeholder='http://localhost:8080'
+                    value={newSource.url}
+                    onChange={(e) => setNewSource({ ...newSource, url: e.target.value })}
+                  />
+                  <div className='flex gap-2'>
+                    <input
+                      type='text'
+                      className='input input-bordered input-sm min-w-0 flex-1 placeholder:text-sm'
+                      placeholder={_('Username')}
+                      value={newSource.username}
+                      onChange={(e) => setNewSource({ ...newSource, username: e.target.value })}
+                    />
+                    <input
+                      type='password'
+                      className='input input-bordered input-sm min-w-0 flex-1 placeholder:text-sm'
+                      placeholder={_('Password')}
+                      value={newSource.password}
+                      onChange={(e) => setNewSource({ ...newSource, password: e.target.value })}
+                    />
+                  </div>
+                </>
+              )}
+              <button className='btn btn-primary btn-sm self-end' onClick={handleAddSource}>
+                {_('Add')}
+              </button>
+            </div>
+          )}
+
+          {source && (
+            <>
+              <div className='flex items-center gap-2'>
+                <input
+                  type='search'
+                  className='input input-bordered input-sm min-w-0 flex-1 placeholder:text-sm'
+                  placeholder={_('Search books')}
+                  value={query}
+                  onChange={(e) => setQuery(e.target.value)}
+                />
+                <button
+                  className='btn btn-sm'
+                  disabled={isBusy || isLoading}
+                  title={_('Sync Metadata')}
+                  onClick={handleSync}
+                >
+                  <MdSync className={clsx('h-4 w-4', isBusy && 'animate-spin')} />
+                  {_('Sync Metadata')}
+                </button>
+              </div>
+              <div className='min-h-0 flex-1 overflow-y-auto'>
+                {isLoading ? (
+                  <div className='flex justify-center py-8'>
+                    <span className='loading loading-dots loading-md' />
+                  </div>
+                ) : filteredBooks.length === 0 ? (
+                  <p className='text-base-content/70 py-8 text-center text-sm'>
+                    {_('No books found')}
+                  </p>
+                ) : (
+                  <ul className='divide-base-200 divide-y'>
+                    {filteredBooks.map((book) => {
+                      const format = getPreferredCalibreFormat(book);
+                      const imported = importedIds.has(book.id);
+                      return (
+                        <li key={book.id}>
+                          <label
+                            className={clsx(
+                              'flex cursor-pointer items-center gap-3 py-2',
+                              (!format || imported) && 'cursor-default opacity-60',
+                            )}
+                          >
+                            <input
+                              type='checkbox'
+                              className='checkbox checkbox-sm'
+                              disabled={!format || imported}
+                              checked={selectedIds.has(book.id)}
+                              onChange={() => toggleBook(book.id)}
+                            />
+                            <div className='min-w-0 flex-1'>
+                              <p className='truncate text-sm font-medium'>{book.title}</p>
+                              <p className='text-base-content/70 truncate text-xs'>
+                                {book.authors.join(', ')}
+                                {book.series && ` · ${book.series} #${book.seriesIndex}`}
+                              </p>
+                            </div>
+                            <span className='text-base-content/60 text-xs'>
+                              {imported ? _('Imported') : (format?.format ?? _('Unsupported'))}
+                            </span>
+                          </label>
+                        </li>
+                      );
+                    })}
+                  </ul>
+                )}
+              </div>
+              <div className='flex items-center justify-between'>
+                <span className='text-base-content/70 text-xs'>
+                  {source.lastSyncedAt
+                    ? _('Last synced: {{date}}', {
+                        date: new Date(source.lastSyncedAt).toLocaleString(),
+                      })
+                    : _('Never synced')}
+                </span>
+                <button
+                  className='btn btn-primary btn-sm'
+                  disabled={isBusy || selectedIds.size === 0}
+                  onClick={handleImport}
+                >
+                  {_('Import {{count}} book(s)', { count: selectedIds.size })}
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </Dialog>
+  );
+};
@@ -0,0 +1,225 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Book } from '@/types/book';
+import { useEnv } from '@/context/EnvContext';
+import { useTranslation } from '@/hooks/useTranslation';
+import { useLibraryStore } from '@/store/libraryStore';
+import { useSettingsStore } from '@/store/settingsStore';
+import { useBookDataStore } from '@/store/bookDataStore';
+import { eventDispatcher } from '@/utils/event';
+import {
+  DuplicateCluster,
+  DuplicateReason,
+  findDuplicateClusters,
+  markBooksDeleted,
+  mergeDuplicateBooks,
+  mergeDuplicateConfigs,
+} from '@/utils/duplicates';
+import Dialog from '@/components/Dialog';
+
+export const setDuplicatesDialogVisible = (visible: boolean) => {
+  const dialog = document.getElementById('duplicates_dialog');
+  if (dialog) {
+    const event = new CustomEvent('setDialogVisibility', {
+      detail: { visible },
+    });
+    dialog.dispatchEvent(event);
+  }
+};
+
+interface DuplicatesDialogProps {
+  handleBookDelete: (book: Book, syncBooks?: boolean) => Promise<boolean>;
+  handlePushLibrary: () => Promise<void>;
+}
+
+export const DuplicatesDialog: React.FC<DuplicatesDialogProps> = ({
+  handleBookDelete,
+  handlePushLibrary,
+}) => {
+  const _ = useTranslation();
+  const { envConfig, appService } = useEnv();
+  const { library, updateBook, updateBooks } = useLibraryStore();
+  const { clearBookData } = useBookDataStore();
+  const [isOpen, setIsOpen] = useState(false);
+  const [primaryHashes, setPrimaryHashes] = useState<Record<string, string>>({});
+  const [deleteFiles, setDeleteFiles] = useState(true);
+  const [mergingId, setMergingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const handleCustomEvent = (event: CustomEvent) => {
+      setIsOpen(event.detail.visible);
+    };
+
+    const el = document.getElementById('duplicates_dialog');
+    if (el) {
+      el.addEventListener('setDialogVisibility', handleCustomEvent as EventListener);
+    }
+
+    return () => {
+      if (el) {
+        el.removeEventListener('setDialogVisibility', handleCustomEvent as EventListener);
+      }
+    };
+  }, []);
+
+  const clusters = useMemo(() => (isOpen ? findDuplicateClusters(library) : []), [isOpen, library]);
+
+  const reasonLabels: Record<DuplicateReason, string> = {
+    metaHash: _('Same metadata'),
+    isbn: _('Same ISBN'),
+    title: _('Similar title and author'),
+  };
+
+  const getPrimaryHash = (cluster: DuplicateCluster) =>
+    primaryHashes[cluster.id] ?? cluster.books[0]!.hash;
+
+  const formatProgress = (book: Book) => {
+    const [current, total] = book.progress ?? [0, 0];
+    return total > 0 ? `${Math.round((current / total) * 100)}%` : '';
+  };
+
+  const handleMerge = async (cluster: DuplicateCluster) => {
+    if (!appService) return;
+    const primaryHash = getPrimaryHash(cluster);
+    const primary = cluster.books.find((book) => book.hash === primaryHash)!;
+    const duplicates = cluster.books.filter((book) => book.hash !== primaryHash);
+    setMergingId(cluster.id);
+    try {
+      const { settings } = useSettingsStore.getState();
+      const primaryConfig = await appService.loadBookConfig(primary, settings);
+      const duplicateConfigs = await Promise.all(
+        duplicates.map(async (book) => ({
+          book,
+          config: await appService.loadBookConfig(book, settings),
+        })),
+      );
+      const mergedConfig = mergeDuplicateConfigs(primary, primaryConfig, duplicateConfigs);
+      await appService.saveBookConfig(primary, mergedConfig, settings);
+      clearBookData(primary.hash);
+
+      const mergedBook = mergeDuplicateBooks(primary, duplicates);
+      mergedBook.progress = mergedConfig.progress ?? mergedBook.progress;
+      await updateBook(envConfig, mergedBook);
+
+      if (deleteFiles) {
+        for (const book of duplicates) {
+          await handleBookDelete(book, false);
+        }
+      } else {
+        // The other copies leave the library but their files are kept on this device
+        await updateBooks(envConfig, markBooksDeleted(duplicates));
+        duplicates.forEach((book) => clearBookData(book.hash));
+      }
+      handlePushLibrary();
+      eventDispatcher.dispatch('toast', {
+        message: _('Merged {{count}} copies into: {{title}}', {
+          count: duplicates.length,
+          title: primary.title,
+        }),
+        timeout: 2000,
+        type: 'info',
+      });
+    } catch (error) {
+      console.error('Failed to merge duplicates:', error);
+      eventDispatcher.dispatch('toast', {
+        message: _('Failed to merge duplicates of: {{title}}', { title: primary.title }),
+        type: 'error',
+      });
+    } finally {
+      setMergingId(null);
+    }
+  };
+
+  return (
+    <Dialog
+      id='duplicates_dialog'
+      isOpen={isOpen}
+      title={_('Find Duplicates')}
+      onClose={() => setIsOpen(false)}
+      boxClassName='sm:!w-[640px] sm:!max-w-screen-sm'
+    >
+      {isOpen && (
+        <div className='flex flex-col gap-4 px-6 py-4'>
+          <p className='text-base-content/70 text-sm'>
+            {_(
+              'Choose the copy to keep. The notes, bookmarks, reading progress and tags of the other copies are merged into it.',
+            )}
+          </p>
+          <label className='flex cursor-pointer items-center gap-2 text-sm'>
+            <input
+              type='checkbox'
+              className='checkbox checkbox-sm'
+              checked={deleteFiles}
+              onChange={() => setDeleteFiles(!deleteFiles)}
+            />
+            {_('Delete the files of the other copies')}
+          </label>
+
+          {clusters.length === 0 ? (
+            <p className='text-base-content/70 py-4 text-center text-sm'>
+              {_('No duplicates found')}
+            </p>
+          ) : (
+            <ul className='flex flex-col gap-3'>
+              {clusters.map((cluster) => (
+                <li key={cluster.id} className='border-base-300 rounded-lg border p-3'>
+                  <div className='mb-2 flex flex-wrap gap-1'>
+                    {cluster.reasons.map((reason) => (
+                      <span key={reason} className='badge badge-ghost badge-sm'>
+                        {reasonLabels[reason]}
+                      </span>
+                    ))}
+                  </div>
+                  <ul className='flex flex-col gap-1'>
+                    {cluster.books.map((book) => (
+                      <li key={book.hash}>
+                        <label
+                          className='flex cursor-pointer items-center gap-3 py-1'
+                          aria-label={book.title}
+                        >
+                          <input
+                            type='radio'
+                            className='radio radio-sm'
+                            name={`primary-${cluster.id}`}
+                            checked={getPrimaryHash(cluster) === book.hash}
+                            onChange={() =>
+                              setPrimaryHashes((prev) => ({ ...prev, [cluster.id]: book.hash }))
+                            }
+                          />
+                          <div className='min-w-0 flex-1'>
+                            <p className='truncate text-sm font-medium'>{book.title}</p>
+                            <p className='text-base-content/60 truncate text-xs'>
+                              {[
+                                book.author,
+                                book.format,
+                                formatProgress(book),
+                                book.downloadedAt ? _('On this device') : _('In the cloud'),
+                              ]
+                                .filter(Boolean)
+                                .join(' · ')}
+                            </p>
+                          </div>
+                        </label>
+                      </li>
+                    ))}
+                  </ul>
+                  <div className='mt-2 flex justify-end'>
+                    <button
+                      className='btn btn-primary btn-sm'
+                      disabled={!!mergingId}
+                      onClick={() => handleMerge(cluster)}
+                    >
+                      {mergingId === cluster.id && (
+                        <span className='loading loading-spinner loading-xs' />
+                      )}
+                      {_('Merge')}
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </Dialog>
+  );
+};
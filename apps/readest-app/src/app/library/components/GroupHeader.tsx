@@ -9,13 +9,15 @@ import { LibraryGroupByType } from '@/types/settings';
 interface GroupHeaderProps {
   groupBy: LibraryGroupByType;
   groupName: string;
+  // overrides the label derived from groupBy, e.g. for smart shelves
+  groupTypeLabel?: string;
 }
 
 /**
- * Header component displayed when viewing books inside a series or author group.
+ * Header component displayed when viewing books inside a series, author group or smart shelf.
  * Shows the group type, group name, and a back button to return to the main bookshelf.
  */
-const GroupHeader: React.FC<GroupHeaderProps> = ({ groupBy, groupName }) => {
+const GroupHeader: React.FC<GroupHeaderProps> = ({ groupBy, groupName, groupTypeLabel }) => {
   const _ = useTranslation();
   const router = useRouter();
   const searchParams = useSearchParams();
@@ -49,7 +51,9 @@ const GroupHeader: React.FC<GroupHeaderProps> = ({ groupBy, groupName }) => {
         <MdArrowBack size={iconSize} />
       </button>
       <div className='flex items-center gap-2 overflow-hidden'>
-        <span className='text-neutral-content text-sm'>{getGroupTypeLabel()}:</span>
+        <span className='text-neutral-content text-sm'>
+          {groupTypeLabel || getGroupTypeLabel()}:
+        </span>
         <span className='truncate text-base font-medium'>{groupName}</span>
       </div>
     </div>
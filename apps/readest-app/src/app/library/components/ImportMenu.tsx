@@ -1,10 +1,14 @@
 import clsx from 'clsx';
-import { MdRssFeed } from 'react-icons/md';
+import { MdFolderSpecial, MdFormatQuote, MdLibraryBooks, MdRssFeed } from 'react-icons/md';
 import { IoFileTray } from 'react-icons/io5';
 import { useEnv } from '@/context/EnvContext';
+import { isTauriAppPlatform } from '@/services/environment';
 import { useTranslation } from '@/hooks/useTranslation';
 import MenuItem from '@/components/MenuItem';
 import Menu from '@/components/Menu';
+import { setCalibreDialogVisible } from './CalibreDialog';
+import { setWatchFoldersDialogVisible } from './WatchFoldersDialog';
+import { setAnnotationImportDialogVisible } from './AnnotationImportDialog';
 
 interface ImportMenuProps {
   setIsDropdownOpen?: (open: boolean) => void;
@@ -37,6 +41,21 @@ const ImportMenu: React.FC<ImportMenuProps> = ({
     setIsDropdownOpen?.(false);
   };
 
+  const handleOpenCalibre = () => {
+    setCalibreDialogVisible(true);
+    setIsDropdownOpen?.(false);
+  };
+
+  const handleOpenWatchFolders = () => {
+    setWatchFoldersDialogVisible(true);
+    setIsDropdownOpen?.(false);
+  };
+
+  const handleImportAnnotations = () => {
+    setAnnotationImportDialogVisible(true);
+    setIsDropdownOpen?.(false);
+  };
+
   return (
     <Menu
       className={clsx('dropdown-content bg-base-100 rounded-box !relative z-[1] mt-3 p-2 shadow')}
@@ -59,6 +78,23 @@ const ImportMenu: React.FC<ImportMenuProps> = ({
         Icon={<MdRssFeed className='h-5 w-5' />}
         onClick={handleOpenCatalogManager}
       />
+      <MenuItem
+        label={_('From Calibre')}
+        Icon={<MdLibraryBooks className='h-5 w-5' />}
+        onClick={handleOpenCalibre}
+      />
+      {isTauriAppPlatform() && (
+        <MenuItem
+          label={_('Watch Folders')}
+          Icon={<MdFolderSpecial className='h-5 w-5' />}
+          onClick={handleOpenWatchFolders}
+        />
+      )}
+      <MenuItem
+        label={_('Import Annotations')}
+        Icon={<MdFormatQuote className='h-5 w-5' />}
+        onClick={handleImportAnnotations}
+      />
     </Menu>
   );
 };
@@ -0,0 +1,233 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { useTranslation } from '@/hooks/useTranslation';
+import { useLibraryStore } from '@/store/libraryStore';
+import { useSettingsStore } from '@/store/settingsStore';
+import { navigateToReader } from '@/utils/nav';
+import { getIndexedBooks, librarySearch, streamChat } from '@/services/ai';
+import { buildLibrarySystemPrompt } from '@/services/ai/prompts';
+import type { BookIndexMeta, LibrarySearchResult } from '@/services/ai/types';
+import Dialog from '@/components/Dialog';
+
+const SEARCH_RESULTS_LIMIT = 20;
+
+// scope values are prefixed to tell groups and tags apart
+const GROUP_SCOPE_PREFIX = 'group:';
+const TAG_SCOPE_PREFIX = 'tag:';
+
+interface LibraryAssistantDialogProps {
+  onClose: () => void;
+}
+
+export function LibraryAssistantDialog({ onClose }: LibraryAssistantDialogProps) {
+  const _ = useTranslation();
+  const router = useRouter();
+  const { settings } = useSettingsStore();
+  const { library: libraryBooks } = useLibraryStore();
+  const [indexedBooks, setIndexedBooks] = useState<BookIndexMeta[]>([]);
+  const [scope, setScope] = useState('');
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<LibrarySearchResult[]>([]);
+  const [answer, setAnswer] = useState('');
+  const [searched, setSearched] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState('');
+  const abortRef = useRef<AbortController | null>(null);
+
+  const aiSettings = settings.aiSettings;
+  const library = useMemo(() => libraryBooks.filter((book) => !book.deletedAt), [libraryBooks]);
+
+  useEffect(() => {
+    getIndexedBooks()
+      .then(setIndexedBooks)
+      .catch(() => setIndexedBooks([]));
+    return () => abortRef.current?.abort();
+  }, []);
+
+  const { groups, tags } = useMemo(() => {
+    const indexed = new Set(indexedBooks.map((meta) => meta.bookHash));
+    const books = library.filter((book) => indexed.has(book.hash));
+    return {
+      groups: [...new Set(books.map((book) => book.groupName).filter(Boolean) as string[])].sort(),
+      tags: [...new Set(books.flatMap((book) => book.tags ?? []))].sort(),
+    };
+  }, [library, indexedBooks]);
+
+  const getScopeBookHashes = () => {
+    if (scope.startsWith(GROUP_SCOPE_PREFIX)) {
+      const groupName = scope.slice(GROUP_SCOPE_PREFIX.length);
+      return library
+        .filter(
+          (book) => book.groupName === groupName || book.groupName?.startsWith(`${groupName}/`),
+        )
+        .map((book) => book.hash);
+    }
+    if (scope.startsWith(TAG_SCOPE_PREFIX)) {
+      const tag = scope.slice(TAG_SCOPE_PREFIX.length);
+      return library.filter((book) => book.tags?.includes(tag)).map((book) => book.hash);
+    }
+    return undefined;
+  };
+
+  const handleSearch = async (ask: boolean) => {
+    const question = query.trim();
+    if (!question || busy) return;
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setBusy(true);
+    setError('');
+    setAnswer('');
+    try {
+      const found = await librarySearch(
+        question,
+        aiSettings,
+        getScopeBookHashes(),
+        SEARCH_RESULTS_LIMIT,
+      );
+      setResults(found);
+      setSearched(true);
+      if (!ask) return;
+
+      const systemPrompt = buildLibrarySystemPrompt(
+        found.slice(0, aiSettings.maxContextChunks || 5),
+      );
+      let text = '';
+      for await (const chunk of streamChat(
+        [{ role: 'user', content: question }],
+        systemPrompt,
+        aiSettings,
+        controller.signal,
+      )) {
+        text += chunk;
+        setAnswer(text);
+      }
+    } catch (e) {
+      if ((e as Error).name !== 'AbortError') {
+        console.error('Library AI search failed:', e);
+        setError(_('Failed to search the library'));
+      }
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleOpenResult = (result: LibrarySearchResult) => {
+    const book = library.find((b) => b.hash === result.bookHash);
+    if (!book) return;
+    const params = new URLSearchParams();
+    if (result.cfi) {
+      params.set('cfi', result.cfi);
+      params.set('book', book.hash);
+    }
+    onClose();
+    navigateToReader(router, [book.hash], params.toString());
+  };
+
+  return (
+    <Dialog
+      isOpen={true}
+      title={_('Ask Your Library')}
+      onClose={onClose}
+      bgClassName={'sm:!bg-black/75'}
+      boxClassName='sm:min-w-[520px] sm:w-3/4 sm:h-[85%] sm:!max-w-screen-sm'
+    >
+      <div className='flex h-full flex-col gap-3 px-4 pb-4'>
+        <form
+          className='flex flex-col gap-2 sm:flex-row'
+          onSubmit={(e) => {
+            e.preventDefault();
+            handleSearch(false);
+          }}
+        >
+          <input
+            type='text'
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder={_('Search or ask across your books...')}
+            className='input input-bordered input-sm w-full'
+            disabled={!aiSettings.enabled}
+          />
+          <select
+            value={scope}
+            onChange={(e) => setScope(e.target.value)}
+            className='select select-bordered select-sm sm:max-w-[35%]'
+            aria-label={_('Search Scope')}
+          >
+            <option value=''>{_('All Indexed Books')}</option>
+            {groups.map((group) => (
+              <option key={group} value={`${GROUP_SCOPE_PREFIX}${group}`}>
+                {_('Group')}: {group}
+              </option>
+            ))}
+            {tags.map((tag) => (
+              <option key={tag} value={`${TAG_SCOPE_PREFIX}${tag}`}>
+                {_('Tag')}: {tag}
+              </option>
+            ))}
+          </select>
+          <div className='flex gap-2'>
+            <button
+              type='submit'
+              className='btn btn-ghost btn-sm'
+              disabled={busy || !query.trim() || !aiSettings.enabled}
+            >
+              {_('Search')}
+            </button>
+            <button
+              type='button'
+              className='btn btn-primary btn-sm'
+              onClick={() => handleSearch(true)}
+              disabled={busy || !query.trim() || !aiSettings.enabled}
+            >
+              {_('Ask')}
+            </button>
+          </div>
+        </form>
+
+        {!aiSettings.enabled ? (
+          <p className='text-base-content/70 text-sm'>
+            {_('Enable AI Assistant in settings to search your library.')}
+          </p>
+        ) : indexedBooks.length === 0 ? (
+          <p className='text-base-content/70 text-sm'>
+            {_('No books are indexed yet. Index a book from the AI panel in the reader.')}
+          </p>
+        ) : (
+          <p className='text-base-content/50 text-xs'>
+            {_('{{count}} indexed book(s)', { count: indexedBooks.length })}
+          </p>
+        )}
+
+        {error && <p className='text-error text-sm'>{error}</p>}
+        {busy && !answer && <span className='loading loading-dots loading-sm' />}
+
+        {answer && (
+          <div className='bg-base-200 whitespace-pre-wrap rounded-lg p-3 text-sm'>{answer}</div>
+        )}
+
+        <ul className='flex flex-col gap-2 overflow-y-auto'>
+          {results.map((result) => (
+            <li key={result.id}>
+              <button
+                className='hover:bg-base-200 w-full rounded-lg p-2 text-start'
+                onClick={() => handleOpenResult(result)}
+              >
+                <div className='flex items-baseline justify-between gap-2'>
+                  <span className='line-clamp-1 text-sm font-medium'>{result.bookTitle}</span>
+                  <span className='text-base-content/50 line-clamp-1 shrink-0 text-xs'>
+                    {result.chapterTitle}
+                  </span>
+                </div>
+                <p className='text-base-content/70 line-clamp-3 text-xs'>{result.text}</p>
+              </button>
+            </li>
+          ))}
+          {searched && !busy && results.length === 0 && (
+            <li className='text-base-content/50 text-sm'>{_('No matching passages found')}</li>
+          )}
+        </ul>
+      </div>
+    </Dialog>
+  );
+}
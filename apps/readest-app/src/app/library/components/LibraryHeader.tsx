@@ -4,7 +4,7 @@ import { useRouter, useSearchParams } from 'next/navigation';
 import { FaSearch } from 'react-icons/fa';
 import { PiPlus } from 'react-icons/pi';
 import { PiSelectionAll, PiSelectionAllFill } from 'react-icons/pi';
-import { PiDotsThreeCircle } from 'react-icons/pi';
+import { PiDotsThreeCircle, PiFileMagnifyingGlass, PiRobot } from 'react-icons/pi';
 import { MdOutlineMenu } from 'react-icons/md';
 import { IoMdCloseCircle } from 'react-icons/io';
 
@@ -12,6 +12,7 @@ import { useEnv } from '@/context/EnvContext';
 import { useThemeStore } from '@/store/themeStore';
 import { useTranslation } from '@/hooks/useTranslation';
 import { useLibraryStore } from '@/store/libraryStore';
+import { useSettingsStore } from '@/store/settingsStore';
 import { useTrafficLight } from '@/hooks/useTrafficLight';
 import { useResponsiveSize } from '@/hooks/useResponsiveSize';
 import { debounce } from '@/utils/debounce';
@@ -29,6 +30,8 @@ interface LibraryHeaderProps {
   onImportBooksFromFiles: () => void;
   onImportBooksFromDirectory?: () => void;
   onOpenCatalogManager: () => void;
+  onOpenLibraryAssistant: () => void;
+  onOpenLibrarySearch: () => void;
   onToggleSelectMode: () => void;
   onSelectAll: () => void;
   onDeselectAll: () => void;
@@ -41,6 +44,8 @@ const LibraryHeader: React.FC<LibraryHeaderProps> = ({
   onImportBooksFromFiles,
   onImportBooksFromDirectory,
   onOpenCatalogManager,
+  onOpenLibraryAssistant,
+  onOpenLibrarySearch,
   onToggleSelectMode,
   onSelectAll,
   onDeselectAll,
@@ -51,6 +56,7 @@ const LibraryHeader: React.FC<LibraryHeaderProps> = ({
   const { appService } = useEnv();
   const { systemUIVisible, statusBarHeight } = useThemeStore();
   const { currentBookshelf } = useLibraryStore();
+  const { settings } = useSettingsStore();
   const { isTrafficLightVisible } = useTrafficLight();
   const [searchQuery, setSearchQuery] = useState(searchParams?.get('q') ?? '');
 
@@ -199,6 +205,24 @@ const LibraryHeader: React.FC<LibraryHeaderProps> = ({
           </div>
         ) : (
           <div className='flex h-full items-center gap-x-2 sm:gap-x-4'>
+            <button
+              onClick={onOpenLibrarySearch}
+              aria-label={_('Search Library')}
+              title={_('Search Library')}
+              className='btn btn-ghost h-8 min-h-8 w-8 p-0'
+            >
+              <PiFileMagnifyingGlass role='none' size={iconSize18} />
+            </button>
+            {settings.aiSettings?.enabled && (
+              <button
+                onClick={onOpenLibraryAssistant}
+                aria-label={_('Ask Your Library')}
+                title={_('Ask Your Library')}
+                className='btn btn-ghost h-8 min-h-8 w-8 p-0'
+              >
+                <PiRobot role='none' size={iconSize18} />
+              </button>
+            )}
             <Dropdown
               label={_('View Menu')}
               className='exclude-title-bar-mousedown dropdown-bottom dropdown-end'
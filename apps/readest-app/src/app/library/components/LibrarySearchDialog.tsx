@@ -0,0 +1,253 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { useEnv } from '@/context/EnvContext';
+import { useTranslation } from '@/hooks/useTranslation';
+import { useLibraryStore } from '@/store/libraryStore';
+import { Book, BookSearchMode, FIXED_LAYOUT_FORMATS } from '@/types/book';
+import { AppService } from '@/types/system';
+import { DEFAULT_BOOK_SEARCH_CONFIG } from '@/services/constants';
+import {
+  createTextMatcher,
+  LibrarySearchResult,
+  SearchMatchOptions,
+  searchFullTextIndex,
+} from '@/services/search';
+import { getFullTextIndexFilename } from '@/utils/book';
+import { navigateToReader } from '@/utils/nav';
+import Dialog from '@/components/Dialog';
+
+// fixed layout books have no text to index
+const isIndexable = (book: Book) =>
+  !book.deletedAt && !!book.downloadedAt && !FIXED_LAYOUT_FORMATS.has(book.format);
+
+const getUnindexedBooks = async (appService: AppService, books: Book[]) => {
+  const unindexed: Book[] = [];
+  for (const book of books.filter(isIndexable)) {
+    if (!(await appService.exists(getFullTextIndexFilename(book), 'Books'))) {
+      unindexed.push(book);
+    }
+  }
+  return unindexed;
+};
+
+interface LibrarySearchDialogProps {
+  onClose: () => void;
+}
+
+export function LibrarySearchDialog({ onClose }: LibrarySearchDialogProps) {
+  const _ = useTranslation();
+  const router = useRouter();
+  const { appService } = useEnv();
+  const { library: libraryBooks } = useLibraryStore();
+  const [query, setQuery] = useState('');
+  const [options, setOptions] = useState<SearchMatchOptions>(() => {
+    const { mode, matchCase, matchWholeWords, matchDiacritics } = DEFAULT_BOOK_SEARCH_CONFIG;
+    return { mode, matchCase, matchWholeWords, matchDiacritics };
+  });
+  const [results, setResults] = useState<LibrarySearchResult[]>([]);
+  const [searched, setSearched] = useState(false);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [unindexedBooks, setUnindexedBooks] = useState<Book[]>([]);
+  const [indexingProgress, setIndexingProgress] = useState<number | null>(null);
+  const [error, setError] = useState('');
+  const searchIdRef = useRef(0);
+
+  const library = useMemo(() => libraryBooks.filter((book) => !book.deletedAt), [libraryBooks]);
+
+  useEffect(() => {
+    if (!appService) return;
+    getUnindexedBooks(appService, library).then(setUnindexedBooks);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [appService]);
+
+  const handleSearch = async () => {
+    const term = query.trim();
+    if (!term || !appService) return;
+    try {
+      createTextMatcher(term, options);
+    } catch {
+      setError(_('Invalid regular expression'));
+      return;
+    }
+    const searchId = ++searchIdRef.current;
+    setError('');
+    setResults([]);
+    setProgress(0);
+    const found: LibrarySearchResult[] = [];
+    for (const [i, book] of library.entries()) {
+      const index = await appService.loadFullTextIndex(book);
+      if (searchIdRef.current !== searchId) return;
+      if (index) {
+        const { results, count } = searchFullTextIndex(index, term, options);
+        if (count > 0) {
+          found.push({ book, results, count });
+          setResults([...found]);
+        }
+      }
+      setProgress((i + 1) / library.length);
+    }
+    setProgress(null);
+    setSearched(true);
+  };
+
+  const handleIndexBooks = async () => {
+    if (!appService || indexingProgress !== null) return;
+    setIndexingProgress(0);
+    for (const [i, book] of unindexedBooks.entries()) {
+      try {
+        await appService.indexBookFullText(book);
+      } catch (error) {
+        console.warn(`Failed to index ${book.title}:`, error);
+      }
+      setIndexingProgress((i + 1) / unindexedBooks.length);
+    }
+    setIndexingProgress(null);
+    setUnindexedBooks(await getUnindexedBooks(appService, library));
+  };
+
+  const handleOpenResult = (book: Book, cfi: string) => {
+    const params = new URLSearchParams();
+    params.set('cfi', cfi);
+    params.set('book', book.hash);
+    onClose();
+    navigateToReader(router, [book.hash], params.toString());
+  };
+
+  const modes: { mode: BookSearchMode; label: string }[] = [
+    { mode: 'text', label: _('Plain Text') },
+    { mode: 'regex', label: _('Regular Expression') },
+    { mode: 'fuzzy', label: _('Fuzzy Match') },
+  ];
+
+  const toggles: { key: 'matchCase' | 'matchWholeWords' | 'matchDiacritics'; label: string }[] = [
+    { key: 'matchCase', label: _('Match Case') },
+    { key: 'matchWholeWords', label: _('Match Whole Words') },
+    { key: 'matchDiacritics', label: _('Match Diacritics') },
+  ];
+
+  const isSearching = progress !== null;
+
+  return (
+    <Dialog
+      isOpen={true}
+      title={_('Search Library')}
+      onClose={onClose}
+      bgClassName={'sm:!bg-black/75'}
+      boxClassName='sm:min-w-[520px] sm:w-3/4 sm:h-[85%] sm:!max-w-screen-sm'
+    >
+      <div className='flex h-full flex-col gap-3 px-4 pb-4'>
+        <form
+          className='flex flex-col gap-2 sm:flex-row'
+          onSubmit={(e) => {
+            e.preventDefault();
+            handleSearch();
+          }}
+        >
+          <input
+            type='text'
+            value={query}
+            spellCheck={false}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder={_('Search the text of your books...')}
+            className='input input-bordered input-sm w-full'
+          />
+          <select
+            value={options.mode}
+            onChange={(e) => setOptions({ ...options, mode: e.target.value as BookSearchMode })}
+            className='select select-bordered select-sm sm:max-w-[35%]'
+            aria-label={_('Search Mode')}
+          >
+            {modes.map(({ mode, label }) => (
+              <option key={mode} value={mode}>
+                {label}
+              </option>
+            ))}
+          </select>
+          <button type='submit' className='btn btn-primary btn-sm' disabled={!query.trim()}>
+            {_('Search')}
+          </button>
+        </form>
+
+        <div className='flex flex-wrap gap-x-4 gap-y-1'>
+          {toggles.map(({ key, label }) => (
+            <label key={key} className='flex cursor-pointer items-center gap-2 text-sm'>
+              <input
+                type='checkbox'
+                className='checkbox checkbox-xs'
+                checked={options[key]}
+                onChange={() => setOptions({ ...options, [key]: !options[key] })}
+              />
+              {label}
+            </label>
+          ))}
+        </div>
+
+        {unindexedBooks.length > 0 && (
+          <div className='bg-base-200 flex items-center justify-between gap-2 rounded-lg p-2 text-sm'>
+            <span className='text-base-content/70'>
+              {_('{{count}} book(s) are not indexed for full-text search', {
+                count: unindexedBooks.length,
+              })}
+            </span>
+            <button
+              className='btn btn-ghost btn-xs'
+              onClick={handleIndexBooks}
+              disabled={indexingProgress !== null}
+            >
+              {indexingProgress !== null
+                ? `${Math.round(indexingProgress * 100)}%`
+                : _('Index Now')}
+            </button>
+          </div>
+        )}
+
+        {error && <p className='text-error text-sm'>{error}</p>}
+        {isSearching && (
+          <progress
+            className='progress progress-primary h-1 w-full'
+            value={progress * 100}
+            max={100}
+            aria-label={_('Search Progress')}
+          />
+        )}
+
+        <div className='flex flex-col gap-4 overflow-y-auto'>
+          {results.map(({ book, results: chapters, count }) => (
+            <div key={book.hash}>
+              <div className='flex items-baseline justify-between gap-2'>
+                <h3 className='line-clamp-1 text-sm font-medium'>{book.title}</h3>
+                <span className='text-base-content/50 shrink-0 text-xs'>
+                  {_('{{count}} match(es)', { count })}
+                </span>
+              </div>
+              {chapters.map((chapter) => (
+                <div key={`${chapter.index}-${chapter.label}`} className='ms-2'>
+                  <h4 className='text-base-content/60 line-clamp-1 text-xs'>{chapter.label}</h4>
+                  <ul>
+                    {chapter.subitems.map((item, index) => (
+                      <li key={`${index}-${item.cfi}`}>
+                        <button
+                          className='hover:bg-base-200 w-full rounded-lg p-2 text-start text-xs'
+                          onClick={() => handleOpenResult(book, item.cfi)}
+                        >
+                          <span className='line-clamp-3'>
+                            {item.excerpt.pre}
+                            <span className='font-bold text-red-500'>{item.excerpt.match}</span>
+                            {item.excerpt.post}
+                          </span>
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ))}
+            </div>
+          ))}
+          {searched && !isSearching && results.length === 0 && (
+            <p className='text-base-content/50 text-sm'>{_('No matching passages found')}</p>
+          )}
+        </div>
+      </div>
+    </Dialog>
+  );
+}
@@ -5,6 +5,7 @@ import {
   MdOutlineCancel,
   MdInfoOutline,
   MdCheckCircleOutline,
+  MdManageSearch,
 } from 'react-icons/md';
 import { LuFolderPlus } from 'react-icons/lu';
 import { useKeyDownActions } from '@/hooks/useKeyDownActions';
@@ -18,6 +19,7 @@ interface SelectModeActionsProps {
   onGroup: () => void;
   onDetails: () => void;
   onStatus: () => void;
+  onMetadata: () => void;
   onDelete: () => void;
   onCancel: () => void;
 }
@@ -29,6 +31,7 @@ const SelectModeActions: React.FC<SelectModeActionsProps> = ({
   onGroup,
   onDetails,
   onStatus,
+  onMetadata,
   onDelete,
   onCancel,
 }) => {
@@ -86,6 +89,16 @@ const SelectModeActions: React.FC<SelectModeActionsProps> = ({
           <MdCheckCircleOutline />
           <div>{_('Status')}</div>
         </button>
+        <button
+          onClick={onMetadata}
+          className={clsx(
+            'flex flex-col items-center justify-center gap-1',
+            (!hasSelection || !hasValidBooks) && 'btn-disabled opacity-50',
+          )}
+        >
+          <MdManageSearch />
+          <div>{_('Metadata')}</div>
+        </button>
         <button
           onClick={onDetails}
           className={clsx(
@@ -1,8 +1,8 @@
 import clsx from 'clsx';
 import React, { useState } from 'react';
 import { useRouter } from 'next/navigation';
-import { PiUserCircle, PiUserCircleCheck, PiGear } from 'react-icons/pi';
-import { PiSun, PiMoon } from 'react-icons/pi';
+import { PiUserCircle, PiUserCircleCheck, PiGear, PiChartBar, PiCopy } from 'react-icons/pi';
+import { PiSun, PiMoon, PiCards } from 'react-icons/pi';
 import { TbSunMoon } from 'react-icons/tb';
 import { MdCloudSync, MdSync, MdSyncProblem } from 'react-icons/md';
 
@@ -18,11 +18,16 @@ import { useSettingsStore } from '@/store/settingsStore';
 import { useTranslation } from '@/hooks/useTranslation';
 import { useResponsiveSize } from '@/hooks/useResponsiveSize';
 import { useTransferQueue } from '@/hooks/useTransferQueue';
+import { useFileSelector } from '@/hooks/useFileSelector';
+import { eventDispatcher } from '@/utils/event';
 import { navigateToLogin, navigateToProfile } from '@/utils/nav';
 import { tauriHandleSetAlwaysOnTop, tauriHandleToggleFullScreen } from '@/utils/window';
 import { optInTelemetry, optOutTelemetry } from '@/utils/telemetry';
 import { setAboutDialogVisible } from '@/components/AboutWindow';
 import { setMigrateDataDirDialogVisible } from '@/app/library/components/MigrateDataWindow';
+import { setStatisticsDialogVisible } from '@/app/library/components/StatisticsWindow';
+import { setVocabularyDialogVisible } from '@/app/library/components/VocabularyWindow';
+import { setDuplicatesDialogVisible } from '@/app/library/components/DuplicatesDialog';
 import { requestStoragePermission } from '@/utils/permission';
 import { saveSysSettings } from '@/helpers/settings';
 import { selectDirectory } from '@/utils/bridge';
@@ -49,7 +54,7 @@ const SettingsMenu: React.FC<SettingsMenuProps> = ({ onPullLibrary, setIsDropdow
   const { user } = useAuth();
   const { userProfilePlan, quotas } = useQuotaStats(true);
   const { themeMode, setThemeMode } = useThemeStore();
-  const { settings, setSettingsDialogOpen } = useSettingsStore();
+  const { settings, setSettings, setSettingsDialogOpen } = useSettingsStore();
   const [isAutoUpload, setIsAutoUpload] = useState(settings.autoUpload);
   const [isAutoCheckUpdates, setIsAutoCheckUpdates] = useState(settings.autoCheckUpdates);
   const [isAlwaysOnTop, setIsAlwaysOnTop] = useState(settings.alwaysOnTop);
@@ -66,8 +71,9 @@ const SettingsMenu: React.FC<SettingsMenuProps> = ({ onPullLibrary, setIsDropdow
   );
   const iconSize = useResponsiveSize(16);
 
-  const { isSyncing } = useLibraryStore();
+  const { library, isSyncing, setLibrary } = useLibraryStore();
   const { stats, hasActiveTransfers, setIsTransferQueueOpen } = useTransferQueue();
+  const { selectFiles } = useFileSelector(appService, _);
 
   const openTransferQueue = () => {
     setIsTransferQueueOpen(true);
@@ -79,6 +85,21 @@ const SettingsMenu: React.FC<SettingsMenuProps> = ({ onPullLibrary, setIsDropdow
     setIsDropdownOpen?.(false);
   };
 
+  const showReadingStatistics = () => {
+    setStatisticsDialogVisible(true);
+    setIsDropdownOpen?.(false);
+  };
+
+  const showVocabulary = () => {
+    setVocabularyDialogVisible(true);
+    setIsDropdownOpen?.(false);
+  };
+
+  const showFindDuplicates = () => {
+    setDuplicatesDialogVisible(true);
+    setIsDropdownOpen?.(false);
+  };
+
   const downloadReadest = () => {
     window.open(DOWNLOAD_READEST_URL, '_blank');
     setIsDropdownOpen?.(false);
@@ -188,6 +209,63 @@ const SettingsMenu: React.FC<SettingsMenuProps> = ({ onPullLibrary, setIsDropdow
     setSettingsDialogOpen(true);
   };
 
+  const handleBackupLibrary = async (includeBookFiles: boolean) => {
+    setIsDropdownOpen?.(false);
+    if (!appService) return;
+    try {
+      const success = await appService.exportLibraryBackup(library, settings, {
+        includeBookFiles,
+      });
+      if (!isWebAppPlatform()) {
+        eventDispatcher.dispatch('toast', {
+          type: success ? 'info' : 'error',
+          message: success ? _('Library backed up successfully.') : _('Failed to back up library.'),
+        });
+      }
+    } catch (error) {
+      console.error('Failed to back up library:', error);
+      eventDispatcher.dispatch('toast', {
+        type: 'error',
+        message: _('Failed to back up library.'),
+      });
+    }
+  };
+
+  const handleRestoreLibrary = async () => {
+    setIsDropdownOpen?.(false);
+    if (!appService) return;
+    const result = await selectFiles({
+      type: 'generic',
+      accept: '.zip,application/zip',
+      extensions: ['zip'],
+      dialogTitle: _('Select Backup'),
+    });
+    const selected = result.files[0];
+    if (result.error || !selected) return;
+    try {
+      const restored = await appService.importLibraryBackup(
+        selected.path || selected.file!,
+        library,
+        settings,
+      );
+      setLibrary(restored.books);
+      setSettings(restored.settings);
+      eventDispatcher.dispatch('toast', {
+        type: 'info',
+        message: _('Restored {{added}} new and {{updated}} existing books.', {
+          added: restored.added,
+          updated: restored.updated,
+        }),
+      });
+    } catch (error) {
+      console.error('Failed to restore library:', error);
+      eventDispatcher.dispatch('toast', {
+        type: 'error',
+        message: _('Failed to restore library from backup.'),
+      });
+    }
+  };
+
   const handleSetSavedBookCoverForLockScreen = async () => {
     if (!(await requestStoragePermission()) && appService?.distChannel === 'readest') return;
 
@@ -368,6 +446,29 @@ const SettingsMenu: React.FC<SettingsMenuProps> = ({ onPullLibrary, setIsDropdow
         onClick={cycleThemeMode}
       />
       <MenuItem label={_('Settings')} Icon={PiGear} onClick={openSettingsDialog} />
+      <MenuItem label={_('Reading Statistics')} Icon={PiChartBar} onClick={showReadingStatistics} />
+      <MenuItem label={_('Vocabulary')} Icon={PiCards} onClick={showVocabulary} />
+      <MenuItem label={_('Find Duplicates')} Icon={PiCopy} onClick={showFindDuplicates} />
+      <MenuItem label={_('Backup & Restore')}>
+        <ul
+          className='ms-0 flex flex-col before:hidden'
+          style={{
+            paddingInlineStart: `${iconSize}px`,
+          }}
+        >
+          <MenuItem
+            label={_('Back Up Library')}
+            noIcon
+            onClick={() => handleBackupLibrary(false)}
+          />
+          <MenuItem
+            label={_('Back Up Library with Books')}
+            noIcon
+            onClick={() => handleBackupLibrary(true)}
+          />
+          <MenuItem label={_('Restore from Backup')} noIcon onClick={handleRestoreLibrary} />
+        </ul>
+      </MenuItem>
       {appService?.canCustomizeRootDir && (
         <>
           <hr aria-hidden='true' className='border-base-200 my-1' />
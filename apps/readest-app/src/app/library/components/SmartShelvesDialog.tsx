@@ -0,0 +1,370 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { MdAdd, MdClose, MdDelete, MdEdit } from 'react-icons/md';
+import { BookFormat } from '@/types/book';
+import { SmartShelf, SmartShelfField, SmartShelfOperator, SmartShelfRule } from '@/types/settings';
+import { useEnv } from '@/context/EnvContext';
+import { useTranslation } from '@/hooks/useTranslation';
+import { useLibraryStore } from '@/store/libraryStore';
+import { useSettingsStore } from '@/store/settingsStore';
+import { saveSysSettings } from '@/helpers/settings';
+import { EXTS } from '@/libs/document';
+import {
+  SMART_SHELF_FIELD_OPERATORS,
+  createSmartShelfFilter,
+  createSmartShelfRule,
+} from '../utils/smartShelves';
+import Dialog from '@/components/Dialog';
+
+export const setSmartShelvesDialogVisible = (visible: boolean) => {
+  const dialog = document.getElementById('smart_shelves_dialog');
+  if (dialog) {
+    const event = new CustomEvent('setDialogVisibility', {
+      detail: { visible },
+    });
+    dialog.dispatchEvent(event);
+  }
+};
+
+const BOOK_FORMATS = Object.keys(EXTS) as BookFormat[];
+
+export const SmartShelvesDialog = () => {
+  const _ = useTranslation();
+  const { envConfig } = useEnv();
+  const { settings } = useSettingsStore();
+  const { library } = useLibraryStore();
+  const [isOpen, setIsOpen] = useState(false);
+  const [editingShelf, setEditingShelf] = useState<SmartShelf | null>(null);
+  const shelves = useMemo(() => settings.smartShelves || [], [settings.smartShelves]);
+
+  useEffect(() => {
+    const handleCustomEvent = (event: CustomEvent) => {
+      setIsOpen(event.detail.visible);
+      setEditingShelf(null);
+    };
+
+    const el = document.getElementById('smart_shelves_dialog');
+    if (el) {
+      el.addEventListener('setDialogVisibility', handleCustomEvent as EventListener);
+    }
+
+    return () => {
+      if (el) {
+        el.removeEventListener('setDialogVisibility', handleCustomEvent as EventListener);
+      }
+    };
+  }, []);
+
+  const shelfCounts = useMemo(
+    () =>
+      new Map(
+        (isOpen ? shelves : []).map((shelf) => [
+          shelf.id,
+          library.filter(createSmartShelfFilter(shelf)).length,
+        ]),
+      ),
+    [isOpen, shelves, library],
+  );
+
+  const editingCount = useMemo(
+    () => (editingShelf ? library.filter(createSmartShelfFilter(editingShelf)).length : 0),
+    [editingShelf, library],
+  );
+
+  const fieldLabels: Record<SmartShelfField, string> = {
+    readingStatus: _('Reading Status'),
+    tags: _('Tags'),
+    format: _('Format'),
+    author: _('Author'),
+    language: _('Language'),
+    series: _('Series'),
+    progress: _('Progress'),
+    createdAt: _('Date Added'),
+    updatedAt: _('Date Read'),
+  };
+
+  const operatorLabels: Record<SmartShelfOperator, string> = {
+    is: _('is'),
+    isNot: _('is not'),
+    contains: _('contains'),
+    notContains: _('does not contain'),
+    between: _('between'),
+    withinDays: _('in the last'),
+    olderThanDays: _('more than'),
+  };
+
+  const statusLabels = {
+    unread: _('Unread'),
+    reading: _('Reading'),
+    finished: _('Finished'),
+  };
+
+  const saveShelves = (updatedShelves: SmartShelf[]) => {
+    saveSysSettings(envConfig, 'smartShelves', updatedShelves);
+  };
+
+  const handleNewShelf = () => {
+    setEditingShelf({
+      id: Date.now().toString(),
+      name: '',
+      match: 'all',
+      rules: [createSmartShelfRule('readingStatus')],
+    });
+  };
+
+  const handleSaveShelf = () => {
+    if (!editingShelf?.name.trim()) return;
+    const shelf = { ...editingShelf, name: editingShelf.name.trim() };
+    const exists = shelves.some((s) => s.id === shelf.id);
+    saveShelves(exists ? shelves.map((s) => (s.id === shelf.id ? shelf : s)) : [...shelves, shelf]);
+    setEditingShelf(null);
+  };
+
+  const updateRule = (index: number, changes: Partial<SmartShelfRule>) => {
+    if (!editingShelf) return;
+    const rules = editingShelf.rules.map((rule, i) =>
+      i === index ? { ...rule, ...changes } : rule,
+    );
+    setEditingShelf({ ...editingShelf, rules });
+  };
+
+  const renderRuleValue = (rule: SmartShelfRule, index: number) => {
+    switch (rule.field) {
+      case 'readingStatus':
+        return (
+          <select
+            className='select select-bordered select-sm min-w-0 flex-1'
+            value={rule.value}
+            onChange={(e) => updateRule(index, { value: e.target.value })}
+          >
+            {Object.entries(statusLabels).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+        );
+      case 'format':
+        return (
+          <select
+            className='select select-bordered select-sm min-w-0 flex-1'
+            value={rule.value}
+            onChange={(e) => updateRule(index, { value: e.target.value })}
+          >
+            {BOOK_FORMATS.map((format) => (
+              <option key={format} value={format}>
+                {format}
+              </option>
+            ))}
+          </select>
+        );
+      case 'progress':
+        return (
+          <div className='flex min-w-0 flex-1 items-center gap-1'>
+            <input
+              type='number'
+              min={0}
+              max={100}
+              className='input input-bordered input-sm w-16 min-w-0'
+              aria-label={_('Minimum')}
+              value={rule.value}
+              onChange={(e) => updateRule(index, { value: e.target.value })}
+            />
+            <span className='text-sm'>-</span>
+            <input
+              type='number'
+              min={0}
+              max={100}
+              className='input input-bordered input-sm w-16 min-w-0'
+              aria-label={_('Maximum')}
+              value={rule.valueTo ?? ''}
+              onChange={(e) => updateRule(index, { valueTo: e.target.value })}
+            />
+            <span className='text-sm'>%</span>
+          </div>
+        );
+      case 'createdAt':
+      case 'updatedAt':
+        return (
+          <div className='flex min-w-0 flex-1 items-center gap-1'>
+            <input
+              type='number'
+              min={0}
+              className='input input-bordered input-sm w-20 min-w-0'
+              aria-label={_('Days')}
+              value={rule.value}
+              onChange={(e) => updateRule(index, { value: e.target.value })}
+            />
+            <span className='text-sm'>{_('days')}</span>
+          </div>
+        );
+      default:
+        return (
+          <input
+            type='text'
+            className='input input-bordered input-sm min-w-0 flex-1'
+            aria-label={_('Value')}
+            value={rule.value}
+            placeholder={rule.field === 'language' ? 'en' : ''}
+            onChange={(e) => updateRule(index, { value: e.target.value })}
+          />
+        );
+    }
+  };
+
+  const renderEditor = (shelf: SmartShelf) => (
+    <div className='flex flex-col gap-3'>
+      <input
+        type='text'
+        className='input input-bordered input-sm w-full'
+        placeholder={_('Shelf Name')}
+        value={shelf.name}
+        onChange={(e) => setEditingShelf({ ...shelf, name: e.target.value })}
+      />
+      <div className='flex items-center gap-2 text-sm'>
+        <span>{_('Match')}</span>
+        <select
+          className='select select-bordered select-sm'
+          value={shelf.match}
+          onChange={(e) => setEditingShelf({ ...shelf, match: e.target.value as 'all' | 'any' })}
+        >
+          <option value='all'>{_('all rules')}</option>
+          <option value='any'>{_('any rule')}</option>
+        </select>
+      </div>
+      <ul className='flex flex-col gap-2'>
+        {shelf.rules.map((rule, index) => (
+          <li key={index} className='flex flex-wrap items-center gap-2'>
+            <select
+              className='select select-bordered select-sm'
+              aria-label={_('Field')}
+              value={rule.field}
+              onChange={(e) => {
+                const rules = [...shelf.rules];
+                rules[index] = createSmartShelfRule(e.target.value as SmartShelfField);
+                setEditingShelf({ ...shelf, rules });
+              }}
+            >
+              {Object.entries(fieldLabels).map(([field, label]) => (
+                <option key={field} value={field}>
+                  {label}
+                </option>
+              ))}
+            </select>
+            <select
+              className='select select-bordered select-sm'
+              aria-label={_('Condition')}
+              value={rule.operator}
+              onChange={(e) =>
+                updateRule(index, { operator: e.target.value as SmartShelfOperator })
+              }
+            >
+              {SMART_SHELF_FIELD_OPERATORS[rule.field].map((operator) => (
+                <option key={operator} value={operator}>
+                  {operatorLabels[operator]}
+                </option>
+              ))}
+            </select>
+            {renderRuleValue(rule, index)}
+            <button
+              className='btn btn-ghost btn-sm'
+              aria-label={_('Remove')}
+              onClick={() =>
+                setEditingShelf({ ...shelf, rules: shelf.rules.filter((_, i) => i !== index) })
+              }
+            >
+              <MdClose className='h-4 w-4' />
+            </button>
+          </li>
+        ))}
+      </ul>
+      <div className='flex items-center justify-between gap-2'>
+        <button
+          className='btn btn-ghost btn-sm'
+          onClick={() =>
+            setEditingShelf({
+              ...shelf,
+              rules: [...shelf.rules, createSmartShelfRule('tags')],
+            })
+          }
+        >
+          <MdAdd className='h-4 w-4' />
+          {_('Add Rule')}
+        </button>
+        <span className='text-base-content/60 text-xs'>
+          {_('{{count}} matching book(s)', { count: editingCount })}
+        </span>
+      </div>
+      <div className='flex justify-end gap-2'>
+        <button className='btn btn-sm' onClick={() => setEditingShelf(null)}>
+          {_('Cancel')}
+        </button>
+        <button
+          className='btn btn-primary btn-sm'
+          disabled={!shelf.name.trim()}
+          onClick={handleSaveShelf}
+        >
+          {_('Save')}
+        </button>
+      </div>
+    </div>
+  );
+
+  return (
+    <Dialog
+      id='smart_shelves_dialog'
+      isOpen={isOpen}
+      title={_('Smart Shelves')}
+      onClose={() => setIsOpen(false)}
+      boxClassName='sm:!w-[600px] sm:!max-w-screen-sm'
+    >
+      {isOpen && (
+        <div className='flex flex-col gap-4 px-6 py-4'>
+          {editingShelf ? (
+            renderEditor(editingShelf)
+          ) : (
+            <>
+              <p className='text-base-content/70 text-sm'>
+                {_('Smart shelves show the books matching their rules alongside your groups.')}
+              </p>
+              {shelves.length === 0 ? (
+                <p className='text-base-content/70 py-4 text-center text-sm'>
+                  {_('No smart shelves')}
+                </p>
+              ) : (
+                <ul className='divide-base-200 divide-y'>
+                  {shelves.map((shelf) => (
+                    <li key={shelf.id} className='flex items-center gap-2 py-2'>
+                      <p className='min-w-0 flex-1 truncate text-sm font-medium'>{shelf.name}</p>
+                      <span className='text-base-content/60 text-xs'>
+                        {_('{{count}} book(s)', { count: shelfCounts.get(shelf.id) ?? 0 })}
+                      </span>
+                      <button
+                        className='btn btn-ghost btn-sm'
+                        aria-label={_('Edit')}
+                        onClick={() => setEditingShelf(shelf)}
+                      >
+                        <MdEdit className='h-4 w-4' />
+                      </button>
+                      <button
+                        className='btn btn-ghost btn-sm'
+                        aria-label={_('Delete')}
+                        onClick={() => saveShelves(shelves.filter((s) => s.id !== shelf.id))}
+                      >
+                        <MdDelete className='h-4 w-4' />
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+              <div className='flex justify-end'>
+                <button className='btn btn-primary btn-sm' onClick={handleNewShelf}>
+                  {_('New Shelf')}
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </Dialog>
+  );
+};
@@ -0,0 +1,193 @@
+import clsx from 'clsx';
+import React, { useEffect, useMemo, useState } from 'react';
+import { useEnv } from '@/context/EnvContext';
+import { useTranslation } from '@/hooks/useTranslation';
+import { useLibraryStore } from '@/store/libraryStore';
+import { useStatisticsStore } from '@/store/statisticsStore';
+import {
+  getBookReadingStats,
+  getDailyReadingTime,
+  getDayKey,
+  getPagesPerHour,
+  getReadingStreaks,
+} from '@/utils/statistics';
+import Dialog from '@/components/Dialog';
+
+export const setStatisticsDialogVisible = (visible: boolean) => {
+  const dialog = document.getElementById('statistics_window');
+  if (dialog) {
+    const event = new CustomEvent('setDialogVisibility', {
+      detail: { visible },
+    });
+    dialog.dispatchEvent(event);
+  }
+};
+
+const CHART_DAYS = 14;
+
+export const StatisticsWindow = () => {
+  const _ = useTranslation();
+  const { envConfig } = useEnv();
+  const { library } = useLibraryStore();
+  const { sessions, loadSessions } = useStatisticsStore();
+  const [isOpen, setIsOpen] = useState(false);
+  const [openedAt, setOpenedAt] = useState(0);
+
+  useEffect(() => {
+    const handleCustomEvent = (event: CustomEvent) => {
+      setIsOpen(event.detail.visible);
+      if (event.detail.visible) {
+        setOpenedAt(Date.now());
+        loadSessions(envConfig);
+      }
+    };
+
+    const el = document.getElementById('statistics_window');
+    if (el) {
+      el.addEventListener('setDialogVisibility', handleCustomEvent as EventListener);
+    }
+
+    return () => {
+      if (el) {
+        el.removeEventListener('setDialogVisibility', handleCustomEvent as EventListener);
+      }
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const formatDuration = (seconds: number) => {
+    const hours = Math.floor(seconds / 3600);
+    const minutes = Math.floor((seconds % 3600) / 60);
+    if (hours > 0) return _('{{hours}}h {{minutes}}m', { hours, minutes });
+    return _('{{minutes}}m', { minutes });
+  };
+
+  const stats = useMemo(() => {
+    const now = openedAt;
+    const activeSessions = sessions.filter((session) => !session.deletedAt);
+    const dailyTime = getDailyReadingTime(activeSessions);
+    const totalTime = activeSessions.reduce((acc, session) => acc + session.duration, 0);
+    const totalPages = activeSessions.reduce((acc, session) => acc + session.pagesRead, 0);
+    const days = Array.from({ length: CHART_DAYS }, (_, i) => {
+      const date = new Date(now);
+      date.setDate(date.getDate() - (CHART_DAYS - 1 - i));
+      const key = getDayKey(date.getTime());
+      return { key, date, duration: dailyTime[key] ?? 0 };
+    });
+    const bookStats = getBookReadingStats(activeSessions);
+    const lastReadAt = new Map(bookStats.map((stats) => [stats.bookHash, stats.lastReadAt]));
+    const finishedBooks = library
+      .filter((book) => !book.deletedAt && book.readingStatus === 'finished')
+      .map((book) => ({ book, finishedAt: lastReadAt.get(book.hash) ?? book.updatedAt }))
+      .sort((a, b) => b.finishedAt - a.finishedAt);
+    return {
+      totalTime,
+      todayTime: dailyTime[getDayKey(now)] ?? 0,
+      pagesPerHour: getPagesPerHour(totalPages, totalTime),
+      streaks: getReadingStreaks(activeSessions, now),
+      days,
+      maxDayDuration: Math.max(...days.map((day) => day.duration), 1),
+      bookStats,
+      finishedBooks,
+    };
+  }, [sessions, library, openedAt]);
+
+  const booksByHash = useMemo(() => new Map(library.map((book) => [book.hash, book])), [library]);
+
+  const summary = [
+    { label: _('Total Reading Time'), value: formatDuration(stats.totalTime) },
+    { label: _('Today'), value: formatDuration(stats.todayTime) },
+    { label: _('Current Streak'), value: _('{{count}} day(s)', { count: stats.streaks.current }) },
+    { label: _('Longest Streak'), value: _('{{count}} day(s)', { count: stats.streaks.longest }) },
+    { label: _('Pages per Hour'), value: stats.pagesPerHour.toLocaleString() },
+  ];
+
+  return (
+    <Dialog
+      id='statistics_window'
+      isOpen={isOpen}
+      title={_('Reading Statistics')}
+      onClose={() => setIsOpen(false)}
+      boxClassName='sm:!w-[520px] sm:!max-w-screen-sm sm:h-auto'
+    >
+      {isOpen && (
+        <div className='statistics-content flex flex-col gap-6 px-6 py-4'>
+          <div className='grid grid-cols-2 gap-3 sm:grid-cols-3'>
+            {summary.map(({ label, value }) => (
+              <div key={label} className='bg-base-200 rounded-lg p-3'>
+                <div className='text-base-content/70 text-xs'>{label}</div>
+                <div className='text-base-content text-lg font-semibold'>{value}</div>
+              </div>
+            ))}
+          </div>
+
+          <div className='space-y-2'>
+            <h3 className='text-base-content text-sm font-semibold'>{_('Last 14 Days')}</h3>
+            <div className='flex h-28 items-end gap-1'>
+              {stats.days.map(({ key, date, duration }) => (
+                <div
+                  key={key}
+                  className='flex h-full flex-1 flex-col items-center justify-end gap-1'
+                  title={`${date.toLocaleDateString()}: ${formatDuration(duration)}`}
+                >
+                  <div
+                    className={clsx(
+                      'w-full rounded-t',
+                      duration > 0 ? 'bg-primary' : 'bg-base-300',
+                    )}
+                    style={{
+                      height: `${Math.max((duration / stats.maxDayDuration) * 100, 2)}%`,
+                    }}
+                  />
+                  <span className='text-base-content/60 text-[10px]'>{date.getDate()}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className='space-y-2'>
+            <h3 className='text-base-content text-sm font-semibold'>{_('Books')}</h3>
+            {stats.bookStats.length === 0 ? (
+              <p className='text-base-content/70 text-sm'>{_('No reading sessions yet')}</p>
+            ) : (
+              <ul className='divide-base-300 max-h-60 divide-y overflow-y-auto'>
+                {stats.bookStats.map((bookStats) => (
+                  <li key={bookStats.bookHash} className='flex items-center gap-3 py-2'>
+                    <div className='min-w-0 flex-1'>
+                      <div className='text-base-content truncate text-sm'>
+                        {booksByHash.get(bookStats.bookHash)?.title ?? _('Unknown Book')}
+                      </div>
+                      <div className='text-base-content/60 text-xs'>
+                        {_('{{count}} session(s)', { count: bookStats.sessions })} ·{' '}
+                        {_('{{pages}} pages/hour', { pages: bookStats.pagesPerHour })}
+                      </div>
+                    </div>
+                    <div className='text-base-content text-sm font-medium'>
+                      {formatDuration(bookStats.duration)}
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          {stats.finishedBooks.length > 0 && (
+            <div className='space-y-2'>
+              <h3 className='text-base-content text-sm font-semibold'>{_('Finished Books')}</h3>
+              <ul className='border-base-300 ms-2 max-h-48 space-y-2 overflow-y-auto border-s ps-4'>
+                {stats.finishedBooks.map(({ book, finishedAt }) => (
+                  <li key={book.hash} className='text-sm'>
+                    <span className='text-base-content/60 me-2 text-xs'>
+                      {new Date(finishedAt).toLocaleDateString()}
+                    </span>
+                    <span className='text-base-content'>{book.title}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+    </Dialog>
+  );
+};
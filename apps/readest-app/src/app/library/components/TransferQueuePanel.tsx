@@ -11,13 +11,20 @@ import {
   MdError,
   MdCancel,
   MdDeleteSweep,
+  MdHeadphones,
+  MdRssFeed,
 } from 'react-icons/md';
 import { useTransferQueue } from '@/hooks/useTransferQueue';
 import { useTranslation } from '@/hooks/useTranslation';
 import { useResponsiveSize } from '@/hooks/useResponsiveSize';
 import { useKeyDownActions } from '@/hooks/useKeyDownActions';
 import { useLibraryStore } from '@/store/libraryStore';
-import { TransferItem, TransferStatus, useTransferStore } from '@/store/transferStore';
+import {
+  TransferItem,
+  TransferStatus,
+  TransferType,
+  useTransferStore,
+} from '@/store/transferStore';
 
 const formatBytes = (bytes: number): string => {
   if (bytes === 0) return '0 B';
@@ -52,7 +59,7 @@ const formatDateTime = (timestamp: number): string => {
 
 const StatusIcon: React.FC<{
   status: TransferStatus;
-  type: 'upload' | 'download' | 'delete';
+  type: TransferType;
   size: number;
 }> = ({ status, type, size }) => {
   switch (status) {
@@ -62,6 +69,8 @@ const StatusIcon: React.FC<{
       return <MdError className='text-error' size={size} />;
     case 'cancelled':
       return <MdCancel className='text-warning' size={size} />;
+    case 'paused':
+      return <MdPause className='text-base-content/60' size={size} />;
     case 'in_progress':
     case 'pending':
     default:
@@ -69,6 +78,10 @@ const StatusIcon: React.FC<{
         <MdCloudUpload className='text-primary' size={size} />
       ) : type === 'delete' ? (
         <MdDeleteSweep className='text-primary' size={size} />
+      ) : type === 'audiobook' ? (
+        <MdHeadphones className='text-primary' size={size} />
+      ) : type === 'opds' ? (
+        <MdRssFeed className='text-primary' size={size} />
       ) : (
         <MdCloudDownload className='text-primary' size={size} />
       );
@@ -79,16 +92,23 @@ const TransferItemRow: React.FC<{
   transfer: TransferItem;
   onCancel: (id: string) => void;
   onRetry: (id: string) => void;
+  onPause: (id: string) => void;
+  onResume: (id: string) => void;
   iconSize: number;
-}> = ({ transfer, onCancel, onRetry, iconSize }) => {
+}> = ({ transfer, onCancel, onRetry, onPause, onResume, iconSize }) => {
   const _ = useTranslation();
 
   const completedLabel = {
     upload: _('Uploaded'),
     download: _('Downloaded'),
     delete: _('Deleted'),
+    audiobook: _('Exported'),
+    opds: _('Imported'),
   };
 
+  // Only OPDS downloads stop before committing their result when aborted
+  const canPause = transfer.type === 'opds';
+
   return (
     <div className='hover:bg-base-200 flex items-center gap-3 rounded-lg p-3'>
       <StatusIcon status={transfer.status} type={transfer.type} size={iconSize} />
@@ -110,6 +130,7 @@ const TransferItemRow: React.FC<{
           )}
           {transfer.status === 'completed' && (completedLabel[transfer.type] || _('Completed'))}
           {transfer.status === 'cancelled' && _('Cancelled')}
+          {transfer.status === 'paused' && _('Paused')}
           {' · '}
           {formatDateTime(transfer.completedAt || transfer.startedAt || transfer.createdAt)}
         </div>
@@ -134,7 +155,25 @@ const TransferItemRow: React.FC<{
             <MdRefresh size={iconSize} />
           </button>
         )}
-        {['pending', 'in_progress'].includes(transfer.status) && (
+        {canPause && ['pending', 'in_progress'].includes(transfer.status) && (
+          <button
+            onClick={() => onPause(transfer.id)}
+            className='btn btn-ghost btn-sm btn-circle'
+            aria-label={_('Pause')}
+          >
+            <MdPause size={iconSize} />
+          </button>
+        )}
+        {transfer.status === 'paused' && (
+          <button
+            onClick={() => onResume(transfer.id)}
+            className='btn btn-ghost btn-sm btn-circle'
+            aria-label={_('Resume')}
+          >
+            <MdPlayArrow size={iconSize} />
+          </button>
+        )}
+        {['pending', 'in_progress', 'paused'].includes(transfer.status) && (
           <button
             onClick={() => onCancel(transfer.id)}
             className='btn btn-ghost btn-sm btn-circle'
@@ -161,6 +200,8 @@ const TransferQueuePanel: React.FC = () => {
     isQueuePaused,
     cancelTransfer,
     retryTransfer,
+    pauseTransfer,
+    resumeTransfer,
     retryAllFailed,
     pauseQueue,
     resumeQueue,
@@ -192,7 +233,7 @@ const TransferQueuePanel: React.FC = () => {
     .filter((t) => {
       switch (filter) {
         case 'active':
-          return ['pending', 'in_progress'].includes(t.status);
+          return ['pending', 'in_progress', 'paused'].includes(t.status);
         case 'completed':
           return t.status === 'completed';
         case 'failed':
@@ -206,9 +247,10 @@ const TransferQueuePanel: React.FC = () => {
       const statusOrder: Record<TransferStatus, number> = {
         in_progress: 0,
         pending: 1,
-        failed: 2,
-        cancelled: 3,
-        completed: 4,
+        paused: 2,
+        failed: 3,
+        cancelled: 4,
+        completed: 5,
       };
       const statusDiff = statusOrder[a.status] - statusOrder[b.status];
       if (statusDiff !== 0) return statusDiff;
@@ -321,6 +363,8 @@ const TransferQueuePanel: React.FC = () => {
                 transfer={transfer}
                 onCancel={cancelTransfer}
                 onRetry={retryTransfer}
+                onPause={pauseTransfer}
+                onResume={resumeTransfer}
                 iconSize={iconSize}
               />
             ))
@@ -11,6 +11,7 @@ import {
 } from '@/types/settings';
 import { saveSysSettings } from '@/helpers/settings';
 import { navigateToLibrary } from '@/utils/nav';
+import { setSmartShelvesDialogVisible } from './SmartShelvesDialog';
 import NumberInput from '@/components/settings/NumberInput';
 import MenuItem from '@/components/MenuItem';
 import Menu from '@/components/Menu';
@@ -198,6 +199,15 @@ const ViewMenu: React.FC<ViewMenuProps> = ({ setIsDropdownOpen }) => {
         </ul>
       </MenuItem>
 
+      <MenuItem
+        label={_('Smart Shelves...')}
+        buttonClass='h-8'
+        onClick={() => {
+          setSmartShelvesDialogVisible(true);
+          setIsDropdownOpen?.(false);
+        }}
+      />
+
       {/* Sort By - Collapsible */}
       <hr aria-hidden='true' className='border-base-200 my-1' />
       <MenuItem label={_('Sort by...')} detailsOpen={false} buttonClass='py-[4px]'>
@@ -0,0 +1,272 @@
+import clsx from 'clsx';
+import React, { useEffect, useMemo, useState } from 'react';
+import { RiDeleteBinLine } from 'react-icons/ri';
+import { useEnv } from '@/context/EnvContext';
+import { useTranslation } from '@/hooks/useTranslation';
+import { useVocabularyStore } from '@/store/vocabularyStore';
+import { VocabularyWord } from '@/types/book';
+import { eventDispatcher } from '@/utils/event';
+import { createAnkiPackage } from '@/utils/anki';
+import {
+  deleteVocabularyWord,
+  exportVocabularyCSV,
+  getClozeParts,
+  getDueVocabulary,
+  reviewVocabularyWord,
+  ReviewGrade,
+} from '@/utils/vocabulary';
+import Dialog from '@/components/Dialog';
+
+export const setVocabularyDialogVisible = (visible: boolean) => {
+  const dialog = document.getElementById('vocabulary_window');
+  if (dialog) {
+    const event = new CustomEvent('setDialogVisibility', {
+      detail: { visible },
+    });
+    dialog.dispatchEvent(event);
+  }
+};
+
+const EXPORT_FILENAME = 'readest-vocabulary';
+
+export const VocabularyWindow = () => {
+  const _ = useTranslation();
+  const { envConfig, appService } = useEnv();
+  const { words, loadWords, saveWord } = useVocabularyStore();
+  const [isOpen, setIsOpen] = useState(false);
+  const [openedAt, setOpenedAt] = useState(0);
+  // ids of the words left in the current review, a word graded again is asked once more
+  const [reviewQueue, setReviewQueue] = useState<string[] | null>(null);
+  const [showAnswer, setShowAnswer] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+
+  useEffect(() => {
+    const handleCustomEvent = (event: CustomEvent) => {
+      setIsOpen(event.detail.visible);
+      if (event.detail.visible) {
+        setOpenedAt(Date.now());
+        setReviewQueue(null);
+        loadWords(envConfig);
+      }
+    };
+
+    const el = document.getElementById('vocabulary_window');
+    if (el) {
+      el.addEventListener('setDialogVisibility', handleCustomEvent as EventListener);
+    }
+
+    return () => {
+      if (el) {
+        el.removeEventListener('setDialogVisibility', handleCustomEvent as EventListener);
+      }
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const activeWords = useMemo(
+    () => words.filter((word) => !word.deletedAt).sort((a, b) => b.createdAt - a.createdAt),
+    [words],
+  );
+  const dueWords = useMemo(() => getDueVocabulary(words, openedAt), [words, openedAt]);
+  const reviewWord = reviewQueue?.length
+    ? words.find((word) => word.id === reviewQueue[0])
+    : undefined;
+
+  const handleStartReview = () => {
+    setReviewQueue(dueWords.map((word) => word.id));
+    setShowAnswer(false);
+  };
+
+  const handleGrade = async (word: VocabularyWord, grade: ReviewGrade) => {
+    const queue = reviewQueue!.slice(1);
+    if (grade === 'again') queue.push(word.id);
+    setReviewQueue(queue);
+    setShowAnswer(false);
+    await saveWord(envConfig, reviewVocabularyWord(word, grade));
+  };
+
+  const handleFinishReview = () => {
+    setOpenedAt(Date.now());
+    setReviewQueue(null);
+  };
+
+  const handleDelete = async (word: VocabularyWord) => {
+    await saveWord(envConfig, deleteVocabularyWord(word));
+  };
+
+  const handleExport = async (format: 'csv' | 'apkg') => {
+    if (!appService || isExporting) return;
+    setIsExporting(true);
+    try {
+      let saved: boolean;
+      if (format === 'csv') {
+        const content = new TextEncoder().encode(exportVocabularyCSV(words));
+        saved = await appService.exportVocabulary(
+          `${EXPORT_FILENAME}.csv`,
+          content.buffer as ArrayBuffer,
+          'text/csv',
+        );
+      } else {
+        const blob = await createAnkiPackage(words, _('Readest Vocabulary'));
+        saved = await appService.exportVocabulary(
+          `${EXPORT_FILENAME}.apkg`,
+          await blob.arrayBuffer(),
+          'application/octet-stream',
+        );
+      }
+      if (saved) {
+        eventDispatcher.dispatch('toast', {
+          type: 'info',
+          message: _('Exported successfully'),
+          timeout: 2000,
+        });
+      }
+    } catch (error) {
+      console.error('Failed to export vocabulary:', error);
+      eventDispatcher.dispatch('toast', {
+        type: 'error',
+        message: _('Failed to export vocabulary'),
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const grades: { grade: ReviewGrade; label: string; className: string }[] = [
+    { grade: 'again', label: _('Again'), className: 'btn-error' },
+    { grade: 'hard', label: _('Hard'), className: 'btn-warning' },
+    { grade: 'good', label: _('Good'), className: 'btn-primary' },
+    { grade: 'easy', label: _('Easy'), className: 'btn-success' },
+  ];
+
+  const renderReview = () => {
+    if (!reviewWord) {
+      return (
+        <div className='flex flex-col items-center gap-4 py-8'>
+          <p className='text-base-content/70 text-sm'>{_('All due words have been reviewed')}</p>
+          <button className='btn btn-primary btn-sm' onClick={handleFinishReview}>
+            {_('Done')}
+          </button>
+        </div>
+      );
+    }
+    const { before, answer, after } = getClozeParts(reviewWord);
+    return (
+      <div className='flex flex-col gap-4'>
+        <div className='text-base-content/60 flex justify-between text-xs'>
+          <span className='truncate'>{reviewWord.bookTitle}</span>
+          <span>{_('{{count}} left', { count: reviewQueue!.length })}</span>
+        </div>
+        <div className='bg-base-200 rounded-lg p-4 text-center text-lg leading-relaxed'>
+          {before}
+          <span className={clsx('font-semibold', showAnswer ? 'text-primary' : 'opacity-60')}>
+            {showAnswer ? answer : '[…]'}
+          </span>
+          {after}
+        </div>
+        {showAnswer && (
+          <div className='space-y-1 text-sm'>
+            <div className='text-base-content font-semibold'>{reviewWord.lemma}</div>
+            {reviewWord.definition && (
+              <p className='text-base-content/80 whitespace-pre-line'>{reviewWord.definition}</p>
+            )}
+          </div>
+        )}
+        {showAnswer ? (
+          <div className='grid grid-cols-4 gap-2'>
+            {grades.map(({ grade, label, className }) => (
+              <button
+                key={grade}
+                className={clsx('btn btn-sm', className)}
+                onClick={() => handleGrade(reviewWord, grade)}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        ) : (
+          <button className='btn btn-primary btn-sm' onClick={() => setShowAnswer(true)}>
+            {_('Show Answer')}
+          </button>
+        )}
+      </div>
+    );
+  };
+
+  const renderWords = () => (
+    <div className='flex flex-col gap-4'>
+      <div className='flex flex-wrap items-center gap-2'>
+        <button
+          className='btn btn-primary btn-sm'
+          disabled={dueWords.length === 0}
+          onClick={handleStartReview}
+        >
+          {_('Review ({{count}} due)', { count: dueWords.length })}
+        </button>
+        <div className='flex-1' />
+        <button
+          className='btn btn-ghost btn-sm'
+          disabled={activeWords.length === 0 || isExporting}
+          onClick={() => handleExport('csv')}
+        >
+          {_('Export CSV')}
+        </button>
+        <button
+          className='btn btn-ghost btn-sm'
+          disabled={activeWords.length === 0 || isExporting}
+          onClick={() => handleExport('apkg')}
+        >
+          {_('Export to Anki')}
+        </button>
+      </div>
+      {activeWords.length === 0 ? (
+        <p className='text-base-content/70 text-sm'>
+          {_('Words you look up in the dictionary will appear here')}
+        </p>
+      ) : (
+        <ul className='divide-base-300 max-h-96 divide-y overflow-y-auto'>
+          {activeWords.map((word) => (
+            <li key={word.id} className='flex items-start gap-3 py-2'>
+              <div className='min-w-0 flex-1'>
+                <div className='text-base-content text-sm font-medium'>
+                  {word.word}
+                  {word.lemma !== word.word.toLowerCase() && (
+                    <span className='text-base-content/60 ms-2 text-xs'>{word.lemma}</span>
+                  )}
+                </div>
+                <div className='text-base-content/70 line-clamp-2 text-xs'>{word.context}</div>
+                {word.bookTitle && (
+                  <div className='text-base-content/50 truncate text-xs'>{word.bookTitle}</div>
+                )}
+              </div>
+              <button
+                className='btn btn-ghost btn-xs'
+                title={_('Delete')}
+                aria-label={_('Delete')}
+                onClick={() => handleDelete(word)}
+              >
+                <RiDeleteBinLine className='h-4 w-4' />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+
+  return (
+    <Dialog
+      id='vocabulary_window'
+      isOpen={isOpen}
+      title={_('Vocabulary')}
+      onClose={() => setIsOpen(false)}
+      boxClassName='sm:!w-[520px] sm:!max-w-screen-sm sm:h-auto'
+    >
+      {isOpen && (
+        <div className='vocabulary-content px-6 py-4'>
+          {reviewQueue ? renderReview() : renderWords()}
+        </div>
+      )}
+    </Dialog>
+  );
+};
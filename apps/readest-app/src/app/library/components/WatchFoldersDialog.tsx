@@ -0,0 +1,195 @@
+import React, { useEffect, useState } from 'react';
+import { MdDelete, MdSync } from 'react-icons/md';
+import { useEnv } from '@/context/EnvContext';
+import { useTranslation } from '@/hooks/useTranslation';
+import { useSettingsStore } from '@/store/settingsStore';
+import { saveSysSettings } from '@/helpers/settings';
+import { WatchFolder } from '@/services/watchFolders';
+import { requestStoragePermission } from '@/utils/permission';
+import { selectDirectory } from '@/utils/bridge';
+import Dialog from '@/components/Dialog';
+
+export const setWatchFoldersDialogVisible = (visible: boolean) => {
+  const dialog = document.getElementById('watch_folders_dialog');
+  if (dialog) {
+    const event = new CustomEvent('setDialogVisibility', {
+      detail: { visible },
+    });
+    dialog.dispatchEvent(event);
+  }
+};
+
+const SCAN_INTERVALS = [0, 15, 30, 60, 180, 720];
+
+interface WatchFoldersDialogProps {
+  onScan: (folderIds: string[]) => Promise<void>;
+}
+
+export const WatchFoldersDialog: React.FC<WatchFoldersDialogProps> = ({ onScan }) => {
+  const _ = useTranslation();
+  const { envConfig, appService } = useEnv();
+  const { settings } = useSettingsStore();
+  const [isOpen, setIsOpen] = useState(false);
+  const [isScanning, setIsScanning] = useState(false);
+  const folders = settings.watchFolders || [];
+
+  useEffect(() => {
+    const handleCustomEvent = (event: CustomEvent) => {
+      setIsOpen(event.detail.visible);
+    };
+
+    const el = document.getElementById('watch_folders_dialog');
+    if (el) {
+      el.addEventListener('setDialogVisibility', handleCustomEvent as EventListener);
+    }
+
+    return () => {
+      if (el) {
+        el.removeEventListener('setDialogVisibility', handleCustomEvent as EventListener);
+      }
+    };
+  }, []);
+
+  const saveFolders = (updatedFolders: WatchFolder[]) => {
+    saveSysSettings(envConfig, 'watchFolders', updatedFolders);
+  };
+
+  const updateFolder = (id: string, changes: Partial<WatchFolder>) => {
+    saveFolders(folders.map((folder) => (folder.id === id ? { ...folder, ...changes } : folder)));
+  };
+
+  const handleAddFolder = async () => {
+    if (!appService) return;
+    let path: string | undefined = '';
+    if (appService.isAndroidApp) {
+      if (!(await requestStoragePermission())) return;
+      path = (await selectDirectory()).path;
+    } else {
+      path = await appService.selectDirectory('read');
+    }
+    if (!path || folders.some((folder) => folder.path === path)) return;
+    saveFolders([
+      ...folders,
+      { id: Date.now().toString(), path, enabled: true, groupBySubfolder: true },
+    ]);
+  };
+
+  const handleScanNow = async () => {
+    setIsScanning(true);
+    try {
+      await onScan(folders.map((folder) => folder.id));
+    } finally {
+      setIsScanning(false);
+    }
+  };
+
+  const formatInterval = (minutes: number) => {
+    if (minutes === 0) return _('Only on startup');
+    if (minutes < 60) return _('Every {{count}} minutes', { count: minutes });
+    return _('Every {{count}} hours', { count: minutes / 60 });
+  };
+
+  return (
+    <Dialog
+      id='watch_folders_dialog'
+      isOpen={isOpen}
+      title={_('Watch Folders')}
+      onClose={() => setIsOpen(false)}
+      boxClassName='sm:!w-[560px] sm:!max-w-screen-sm'
+    >
+      {isOpen && (
+        <div className='flex flex-col gap-4 px-6 py-4'>
+          <p className='text-base-content/70 text-sm'>
+            {_('New books in these folders are imported into your library automatically.')}
+          </p>
+
+          {folders.length === 0 ? (
+            <p className='text-base-content/70 py-4 text-center text-sm'>{_('No watch folders')}</p>
+          ) : (
+            <ul className='divide-base-200 divide-y'>
+              {folders.map((folder) => (
+                <li key={folder.id} className='flex flex-col gap-2 py-3'>
+                  <div className='flex items-center gap-2'>
+                    <input
+                      type='checkbox'
+                      className='toggle toggle-sm'
+                      aria-label={_('Enabled')}
+                      checked={folder.enabled}
+                      onChange={() => updateFolder(folder.id, { enabled: !folder.enabled })}
+                    />
+                    <p className='min-w-0 flex-1 truncate text-sm font-medium' title={folder.path}>
+                      {folder.path}
+                    </p>
+                    <button
+                      className='btn btn-ghost btn-sm'
+                      aria-label={_('Remove')}
+                      onClick={() => saveFolders(folders.filter((f) => f.id !== folder.id))}
+                    >
+                      <MdDelete className='h-4 w-4' />
+                    </button>
+                  </div>
+                  <div className='flex items-center justify-between gap-2'>
+                    <label className='flex cursor-pointer items-center gap-2 text-xs'>
+                      <input
+                        type='checkbox'
+                        className='checkbox checkbox-xs'
+                        checked={folder.groupBySubfolder}
+                        onChange={() =>
+                          updateFolder(folder.id, { groupBySubfolder: !folder.groupBySubfolder })
+                        }
+                      />
+                      {_('Create groups from subfolders')}
+                    </label>
+                    <span className='text-base-content/60 text-xs'>
+                      {folder.lastScannedAt
+                        ? _('Last scanned: {{date}}', {
+                            date: new Date(folder.lastScannedAt).toLocaleString(),
+                          })
+                        : _('Never scanned')}
+                    </span>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <div className='flex items-center gap-2'>
+            <span className='text-sm'>{_('Scan')}</span>
+            <select
+              className='select select-bordered select-sm min-w-0 flex-1'
+              value={settings.watchFoldersScanInterval}
+              onChange={(e) =>
+                saveSysSettings(envConfig, 'watchFoldersScanInterval', Number(e.target.value))
+              }
+            >
+              {SCAN_INTERVALS.map((minutes) => (
+                <option key={minutes} value={minutes}>
+                  {formatInterval(minutes)}
+                </option>
+              ))}
+            </select>
+          </div>
+          {appService?.isDesktopApp && (
+            <p className='text-base-content/60 text-xs'>
+              {_('Changes in the folders are also detected while the app is running.')}
+            </p>
+          )}
+
+          <div className='flex justify-end gap-2'>
+            <button
+              className='btn btn-sm'
+              disabled={isScanning || !folders.some((folder) => folder.enabled)}
+              onClick={handleScanNow}
+            >
+              <MdSync className={isScanning ? 'h-4 w-4 animate-spin' : 'h-4 w-4'} />
+              {_('Scan Now')}
+            </button>
+            <button className='btn btn-primary btn-sm' onClick={handleAddFolder}>
+              {_('Add Folder')}
+            </button>
+          </div>
+        </div>
+      )}
+    </Dialog>
+  );
+};
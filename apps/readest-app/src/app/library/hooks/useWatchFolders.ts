@@ -0,0 +1,138 @@
+import { useCallback, useEffect, useMemo, useRef } from 'react';
+import { useEnv } from '@/context/EnvContext';
+import { useAuth } from '@/context/AuthContext';
+import { useTranslation } from '@/hooks/useTranslation';
+import { useLibraryStore } from '@/store/libraryStore';
+import { useSettingsStore } from '@/store/settingsStore';
+import { saveSysSettings } from '@/helpers/settings';
+import { isTauriAppPlatform } from '@/services/environment';
+import { transferManager } from '@/services/transferManager';
+import { scanWatchFolder, watchFolderChanges, WatchFolder } from '@/services/watchFolders';
+import { eventDispatcher } from '@/utils/event';
+
+export const useWatchFolders = (libraryLoaded: boolean) => {
+  const _ = useTranslation();
+  const { user } = useAuth();
+  const { envConfig, appService } = useEnv();
+  const { settings } = useSettingsStore();
+  const scanningRef = useRef(new Set<string>());
+  const dirtyRef = useRef(new Set<string>());
+  const failedFilesRef = useRef(new Map<string, Set<string>>());
+
+  const scanFolders = useCallback(
+    async (folderIds: string[]) => {
+      if (!appService) return;
+      const folders = (useSettingsStore.getState().settings.watchFolders || []).filter(
+        (folder) => folder.enabled && folderIds.includes(folder.id),
+      );
+      let importedCount = 0;
+      for (const folder of folders) {
+        // changes made while the folder is scanned may be missed, it is scanned again after
+        if (scanningRef.current.has(folder.id)) {
+          dirtyRef.current.add(folder.id);
+          continue;
+        }
+        scanningRef.current.add(folder.id);
+        try {
+          do {
+            dirtyRef.current.delete(folder.id);
+            try {
+              if (!failedFilesRef.current.has(folder.id)) {
+                failedFilesRef.current.set(folder.id, new Set());
+              }
+              const { library, updateBooks } = useLibraryStore.getState();
+              const result = await scanWatchFolder(
+                appService,
+                folder,
+                library,
+                failedFilesRef.current.get(folder.id),
+              );
+              if (result.changed.length > 0) {
+                await updateBooks(envConfig, result.changed);
+              }
+              const { settings } = useSettingsStore.getState();
+              if (settings.autoUpload && user) {
+                result.imported.forEach((book) => transferManager.queueUpload(book));
+              }
+              importedCount += result.imported.length;
+              if (result.failed.length > 0) {
+                eventDispatcher.dispatch('toast', {
+                  message: _('Failed to import book(s): {{filenames}}', {
+                    filenames: result.failed.join(', '),
+                  }),
+                  timeout: 5000,
+                  type: 'error',
+                });
+              }
+              saveSysSettings(
+                envConfig,
+                'watchFolders',
+                (useSettingsStore.getState().settings.watchFolders || []).map((f) =>
+                  f.id === folder.id ? { ...f, lastScannedAt: Date.now() } : f,
+                ),
+              );
+            } catch (error) {
+              console.error('Failed to scan watch folder:', folder.path, error);
+            }
+          } while (dirtyRef.current.has(folder.id));
+        } finally {
+          scanningRef.current.delete(folder.id);
+        }
+      }
+      if (importedCount > 0) {
+        eventDispatcher.dispatch('toast', {
+          message: _('Imported {{count}} book(s) from watch folders', { count: importedCount }),
+          timeout: 2000,
+          type: 'info',
+        });
+      }
+    },
+    [_, user, envConfig, appService],
+  );
+
+  // Only the folder changes restart the scans, not their scan time
+  const foldersKey = useMemo(
+    () =>
+      JSON.stringify(
+        (settings.watchFolders || [])
+          .filter((folder) => folder.enabled)
+          .map((folder) => [folder.id, folder.path, folder.groupBySubfolder]),
+      ),
+    [settings.watchFolders],
+  );
+  const scanInterval = settings.watchFoldersScanInterval;
+
+  useEffect(() => {
+    if (!libraryLoaded || !appService || !isTauriAppPlatform()) return;
+    const folderIds = (JSON.parse(foldersKey) as [string][]).map(([id]) => id);
+    if (folderIds.length === 0) return;
+
+    scanFolders(folderIds);
+    const interval =
+      scanInterval > 0 ? setInterval(() => scanFolders(folderIds), scanInterval * 60 * 1000) : null;
+
+    let disposed = false;
+    const unwatchFns: (() => void)[] = [];
+    if (appService.isDesktopApp) {
+      const folders = (useSettingsStore.getState().settings.watchFolders || []).filter(
+        (folder: WatchFolder) => folderIds.includes(folder.id),
+      );
+      for (const folder of folders) {
+        watchFolderChanges(folder, () => scanFolders([folder.id]))
+          .then((unwatch) => {
+            if (disposed) unwatch();
+            else unwatchFns.push(unwatch);
+          })
+          .catch((error) => console.warn('Failed to watch folder:', folder.path, error));
+      }
+    }
+
+    return () => {
+      disposed = true;
+      if (interval) clearInterval(interval);
+      unwatchFns.forEach((unwatch) => unwatch());
+    };
+  }, [libraryLoaded, appService, foldersKey, scanInterval, scanFolders]);
+
+  return { scanFolders };
+};
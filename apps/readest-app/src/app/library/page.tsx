@@ -35,6 +35,9 @@ import { useTheme } from '@/hooks/useTheme';
 import { useUICSS } from '@/hooks/useUICSS';
 import { useDemoBooks } from './hooks/useDemoBooks';
 import { useBooksSync } from './hooks/useBooksSync';
+import { useSessionsSync } from '@/hooks/useSessionsSync';
+import { useVocabularySync } from '@/hooks/useVocabularySync';
+import { useWatchFolders } from './hooks/useWatchFolders';
 import { useBookDataStore } from '@/store/bookDataStore';
 import { useTransferStore } from '@/store/transferStore';
 import { useScreenWakeLock } from '@/hooks/useScreenWakeLock';
@@ -56,7 +59,17 @@ import { AboutWindow } from '@/components/AboutWindow';
 import { BookDetailModal } from '@/components/metadata';
 import { UpdaterWindow } from '@/components/UpdaterWindow';
 import { CatalogDialog } from './components/OPDSDialog';
+import { LibraryAssistantDialog } from './components/LibraryAssistantDialog';
+import { LibrarySearchDialog } from './components/LibrarySearchDialog';
+import { AudiobookExportDialog } from './components/AudiobookExportDialog';
 import { MigrateDataWindow } from './components/MigrateDataWindow';
+import { StatisticsWindow } from './components/StatisticsWindow';
+import { VocabularyWindow } from './components/VocabularyWindow';
+import { CalibreDialog } from './components/CalibreDialog';
+import { WatchFoldersDialog } from './components/WatchFoldersDialog';
+import { DuplicatesDialog } from './components/DuplicatesDialog';
+import { AnnotationImportDialog } from './components/AnnotationImportDialog';
+import { SmartShelvesDialog } from './components/SmartShelvesDialog';
 import { useDragDropImport } from './hooks/useDragDropImport';
 import { useTransferQueue } from '@/hooks/useTransferQueue';
 import { useAppRouter } from '@/hooks/useAppRouter';
@@ -67,6 +80,7 @@ import {
   findGroupById,
   getBreadcrumbs,
 } from './utils/libraryUtils';
+import { findSmartShelfByGroupId } from './utils/smartShelves';
 import Spinner from '@/components/Spinner';
 import LibraryHeader from './components/LibraryHeader';
 import Bookshelf from './components/Bookshelf';
@@ -111,12 +125,15 @@ const LibraryPageContent = ({ searchParams }: { searchParams: ReadonlyURLSearchP
   const [showCatalogManager, setShowCatalogManager] = useState(
     searchParams?.get('opds') === 'true',
   );
+  const [showLibraryAssistant, setShowLibraryAssistant] = useState(false);
+  const [showLibrarySearch, setShowLibrarySearch] = useState(false);
   const [loading, setLoading] = useState(false);
   const [libraryLoaded, setLibraryLoaded] = useState(false);
   const [isSelectMode, setIsSelectMode] = useState(false);
   const [isSelectAll, setIsSelectAll] = useState(false);
   const [isSelectNone, setIsSelectNone] = useState(false);
   const [showDetailsBook, setShowDetailsBook] = useState<Book | null>(null);
+  const [audiobookExportBook, setAudiobookExportBook] = useState<Book | null>(null);
   const [currentGroupPath, setCurrentGroupPath] = useState<string | undefined>(undefined);
   const [currentSeriesAuthorGroup, setCurrentSeriesAuthorGroup] = useState<{
     groupBy: typeof LibraryGroupByType.Series | typeof LibraryGroupByType.Author;
@@ -189,6 +206,9 @@ const LibraryPageContent = ({ searchParams }: { searchParams: ReadonlyURLSearchP
   useTransferQueue(libraryLoaded);
 
   const { pullLibrary, pushLibrary } = useBooksSync();
+  useSessionsSync();
+  useVocabularySync();
+  const { scanFolders } = useWatchFolders(libraryLoaded);
   const { isDragging } = useDragDropImport();
 
   usePullToRefresh(
@@ -810,6 +830,10 @@ const LibraryPageContent = ({ searchParams }: { searchParams: ReadonlyURLSearchP
   }
 
   const showBookshelf = libraryLoaded || libraryBooks.length > 0;
+  const currentSmartShelf = findSmartShelfByGroupId(
+    settings.smartShelves,
+    searchParams?.get('group') || '',
+  );
 
   return (
     <div
@@ -836,6 +860,8 @@ const LibraryPageContent = ({ searchParams }: { searchParams: ReadonlyURLSearchP
             appService?.canReadExternalDir ? handleImportBooksFromDirectory : undefined
           }
           onOpenCatalogManager={handleShowOPDSDialog}
+          onOpenLibraryAssistant={() => setShowLibraryAssistant(true)}
+          onOpenLibrarySearch={() => setShowLibrarySearch(true)}
           onToggleSelectMode={() => handleSetSelectMode(!isSelectMode)}
           onSelectAll={handleSelectAll}
           onDeselectAll={handleDeselectAll}
@@ -896,6 +922,13 @@ const LibraryPageContent = ({ searchParams }: { searchParams: ReadonlyURLSearchP
           groupName={currentSeriesAuthorGroup.groupName}
         />
       )}
+      {currentSmartShelf && (
+        <GroupHeader
+          groupBy={settings.libraryGroupBy}
+          groupName={currentSmartShelf.name}
+          groupTypeLabel={_('Smart Shelf')}
+        />
+      )}
       {showBookshelf &&
         (libraryBooks.some((book) => !book.deletedAt) ? (
           <OverlayScrollbarsComponent
@@ -934,6 +967,7 @@ const LibraryPageContent = ({ searchParams }: { searchParams: ReadonlyURLSearchP
                 handleBookDelete={handleBookDelete('both')}
                 handleSetSelectMode={handleSetSelectMode}
                 handleShowDetailsBook={handleShowDetailsBook}
+                handleBookMetadataUpdate={handleUpdateMetadata}
                 handleLibraryNavigation={handleLibraryNavigation}
                 booksTransferProgress={booksTransferProgress}
                 handlePushLibrary={pushLibrary}
@@ -969,6 +1003,7 @@ const LibraryPageContent = ({ searchParams }: { searchParams: ReadonlyURLSearchP
           handleBookDeleteCloudBackup={handleBookDelete('cloud')}
           handleBookDeleteLocalCopy={handleBookDelete('local')}
           handleBookMetadataUpdate={handleUpdateMetadata}
+          handleBookExportAudiobook={setAudiobookExportBook}
         />
       )}
       {isTransferQueueOpen && (
@@ -979,8 +1014,28 @@ const LibraryPageContent = ({ searchParams }: { searchParams: ReadonlyURLSearchP
       <AboutWindow />
       <UpdaterWindow />
       <MigrateDataWindow />
+      <StatisticsWindow />
+      <VocabularyWindow />
+      <CalibreDialog />
+      <WatchFoldersDialog onScan={scanFolders} />
+      <SmartShelvesDialog />
+      <DuplicatesDialog
+        handleBookDelete={handleBookDelete('both')}
+        handlePushLibrary={pushLibrary}
+      />
+      <AnnotationImportDialog />
       {isSettingsDialogOpen && <SettingsDialog bookKey={''} />}
       {showCatalogManager && <CatalogDialog onClose={handleDismissOPDSDialog} />}
+      {showLibraryAssistant && (
+        <LibraryAssistantDialog onClose={() => setShowLibraryAssistant(false)} />
+      )}
+      {showLibrarySearch && <LibrarySearchDialog onClose={() => setShowLibrarySearch(false)} />}
+      {audiobookExportBook && (
+        <AudiobookExportDialog
+          book={audiobookExportBook}
+          onClose={() => setAudiobookExportBook(null)}
+        />
+      )}
       <Toast />
     </div>
   );
@@ -0,0 +1,142 @@
+import { Book, BooksGroup } from '@/types/book';
+import { SmartShelf, SmartShelfField, SmartShelfOperator, SmartShelfRule } from '@/types/settings';
+
+/** Prefix of the bookshelf group ids of smart shelves, kept apart from the md5 group ids */
+export const SMART_SHELF_GROUP_PREFIX = 'smart:';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Operators available for each field in the rule builder, the first one is the default */
+export const SMART_SHELF_FIELD_OPERATORS: Record<SmartShelfField, SmartShelfOperator[]> = {
+  readingStatus: ['is', 'isNot'],
+  tags: ['contains', 'notContains'],
+  format: ['is', 'isNot'],
+  author: ['contains', 'notContains', 'is'],
+  language: ['is', 'isNot'],
+  series: ['contains', 'notContains', 'is'],
+  progress: ['between'],
+  createdAt: ['withinDays', 'olderThanDays'],
+  updatedAt: ['withinDays', 'olderThanDays'],
+};
+
+export const getSmartShelfGroupId = (shelf: SmartShelf) => `${SMART_SHELF_GROUP_PREFIX}${shelf.id}`;
+
+export const isSmartShelfGroupId = (groupId: string) =>
+  groupId.startsWith(SMART_SHELF_GROUP_PREFIX);
+
+export const findSmartShelfByGroupId = (shelves: SmartShelf[] | undefined, groupId: string) =>
+  isSmartShelfGroupId(groupId)
+    ? shelves?.find((shelf) => getSmartShelfGroupId(shelf) === groupId)
+    : undefined;
+
+export const createSmartShelfRule = (field: SmartShelfField): SmartShelfRule => {
+  const operator = SMART_SHELF_FIELD_OPERATORS[field][0]!;
+  switch (field) {
+    case 'readingStatus':
+      return { field, operator, value: 'reading' };
+    case 'format':
+      return { field, operator, value: 'EPUB' };
+    case 'progress':
+      return { field, operator, value: '0', valueTo: '100' };
+    case 'createdAt':
+    case 'updatedAt':
+      return { field, operator, value: '30' };
+    default:
+      return { field, operator, value: '' };
+  }
+};
+
+const getTextValues = (book: Book, field: SmartShelfField): string[] => {
+  switch (field) {
+    case 'tags':
+      return book.tags ?? [];
+    case 'author':
+      return [book.author];
+    case 'series':
+      return book.metadata?.series ? [book.metadata.series] : [];
+    case 'format':
+      return [book.format];
+    case 'language':
+      return [book.primaryLanguage || [book.metadata?.language ?? []].flat()[0] || ''];
+    case 'readingStatus':
+      return [book.readingStatus ?? 'unread'];
+    default:
+      return [];
+  }
+};
+
+const getProgressPercentage = (book: Book) => {
+  const [current, total] = book.progress ?? [0, 0];
+  return total > 0 ? (current / total) * 100 : 0;
+};
+
+const matchesText = (values: string[], operator: SmartShelfOperator, value: string) => {
+  const target = value.trim().toLowerCase();
+  const texts = values.map((text) => text.trim().toLowerCase());
+  switch (operator) {
+    case 'is':
+      return texts.includes(target);
+    case 'isNot':
+      return !texts.includes(target);
+    case 'contains':
+      return texts.some((text) => text.includes(target));
+    case 'notContains':
+      return !texts.some((text) => text.includes(target));
+    default:
+      return false;
+  }
+};
+
+export const matchesSmartShelfRule = (book: Book, rule: SmartShelfRule, now = Date.now()) => {
+  switch (rule.field) {
+    case 'progress': {
+      const progress = getProgressPercentage(book);
+      const min = Number(rule.value) || 0;
+      const max = rule.valueTo ? Number(rule.valueTo) : 100;
+      return progress >= min && progress <= max;
+    }
+    case 'createdAt':
+    case 'updatedAt': {
+      const days = Number(rule.value);
+      if (!Number.isFinite(days)) return false;
+      const elapsed = now - (book[rule.field] ?? 0);
+      return rule.operator === 'withinDays' ? elapsed <= days * DAY_MS : elapsed > days * DAY_MS;
+    }
+    default:
+      // empty rules are ignored while they are being edited
+      if (!rule.value.trim()) return true;
+      return matchesText(getTextValues(book, rule.field), rule.operator, rule.value);
+  }
+};
+
+export const createSmartShelfFilter =
+  (shelf: SmartShelf, now = Date.now()) =>
+  (book: Book) => {
+    if (book.deletedAt) return false;
+    if (shelf.rules.length === 0) return true;
+    return shelf.match === 'any'
+      ? shelf.rules.some((rule) => matchesSmartShelfRule(book, rule, now))
+      : shelf.rules.every((rule) => matchesSmartShelfRule(book, rule, now));
+  };
+
+/**
+ * Create the bookshelf groups of the smart shelves from the books matching their rules.
+ * Shelves without any matching book are left out of the bookshelf.
+ */
+export const createSmartShelfGroups = (
+  books: Book[],
+  shelves: SmartShelf[] | undefined,
+  now = Date.now(),
+): BooksGroup[] =>
+  (shelves ?? [])
+    .map((shelf) => {
+      const shelfBooks = books.filter(createSmartShelfFilter(shelf, now));
+      return {
+        id: getSmartShelfGroupId(shelf),
+        name: shelf.name,
+        displayName: shelf.name,
+        books: shelfBooks,
+        updatedAt: Math.max(0, ...shelfBooks.map((book) => book.updatedAt)),
+      };
+    })
+    .filter((group) => group.books.length > 0);
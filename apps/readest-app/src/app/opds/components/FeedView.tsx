@@ -17,6 +17,8 @@ interface FeedViewProps {
   onPublicationSelect: (groupIndex: number, itemIndex: number) => void;
   onGenerateCachedImageUrl: (url: string) => Promise<string>;
   isOPDSCatalog: (type?: string) => boolean;
+  onLoadMore?: () => void;
+  isLoadingMore?: boolean;
 }
 
 const gridClassName = 'grid grid-cols-3 gap-4 px-4 sm:grid-cols-4 lg:grid-cols-5 xl:grid-cols-6';
@@ -30,6 +32,8 @@ export function FeedView({
   onNavigate,
   onPublicationSelect,
   onGenerateCachedImageUrl,
+  onLoadMore,
+  isLoadingMore,
 }: FeedViewProps) {
   const _ = useTranslation();
   const linksByRel = useMemo(() => groupByArray(feed.links, (link) => link.rel), [feed.links]);
@@ -39,6 +43,11 @@ export function FeedView({
   }, [linksByRel]);
 
   const hasFacets = feed.facets && feed.facets.length > 0;
+  const publicationsCount = feed.publications?.length ?? 0;
+  const hasNextPage = !!pagination[2]?.length;
+  // publication pages are scrolled infinitely instead of being paginated
+  const isInfiniteScroll = !!onLoadMore && publicationsCount > 0;
+  const totalCount = feed.metadata?.numberOfItems;
 
   const handlePaginationClick = (links?: OPDSLink[]) => {
     if (links && links.length > 0) {
@@ -65,6 +74,22 @@ export function FeedView({
     [feed.publications, baseURL, onPublicationSelect, resolveURL, onGenerateCachedImageUrl],
   );
 
+  const gridComponents = useMemo(
+    () => ({
+      Footer: () =>
+        isLoadingMore ? (
+          <div className='flex justify-center py-4'>
+            <span className='loading loading-dots loading-md' />
+          </div>
+        ) : totalCount && totalCount > publicationsCount ? (
+          <p className='text-base-content/60 py-4 text-center text-xs'>
+            {_('{{count}} of {{total}} items', { count: publicationsCount, total: totalCount })}
+          </p>
+        ) : null,
+    }),
+    [_, isLoadingMore, totalCount, publicationsCount],
+  );
+
   return (
     <div className='flex h-full flex-col'>
       {/* Header */}
@@ -153,6 +178,8 @@ export function FeedView({
                 totalCount={feed.publications.length}
                 listClassName={gridClassName}
                 itemContent={itemContent}
+                components={isInfiniteScroll ? gridComponents : undefined}
+                endReached={isInfiniteScroll && hasNextPage ? onLoadMore : undefined}
               />
             </section>
           )}
@@ -210,7 +237,7 @@ export function FeedView({
           ))}
 
           {/* Pagination */}
-          {pagination.some((links) => links && links.length > 0) && (
+          {!isInfiniteScroll && pagination.some((links) => links && links.length > 0) && (
             <nav className='flex flex-shrink-0 justify-center gap-2 py-4'>
               <button
                 onClick={() => handlePaginationClick(pagination[0])}
@@ -0,0 +1,190 @@
+'use client';
+
+import clsx from 'clsx';
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { IoChevronBack, IoChevronForward, IoClose } from 'react-icons/io5';
+import { useTranslation } from '@/hooks/useTranslation';
+import { OPDSLink } from '@/types/opds';
+import { getPageStreamURL } from '../utils/opdsPse';
+
+interface PageStreamViewProps {
+  title: string;
+  streamLink: OPDSLink;
+  baseURL: string;
+  resolveURL: (url: string, base: string) => string;
+  onFetchPage: (url: string) => Promise<string>;
+  onPageChange: (page: number, total: number) => void;
+  onClose: () => void;
+}
+
+const PRELOAD_PAGES = 2;
+// the pages kept for going back, the blob URLs of the pages out of the window are revoked
+const KEEP_PAGES_BEHIND = 1;
+
+export function PageStreamView({
+  title,
+  streamLink,
+  baseURL,
+  resolveURL,
+  onFetchPage,
+  onPageChange,
+  onClose,
+}: PageStreamViewProps) {
+  const _ = useTranslation();
+  const total = streamLink.properties.pse?.count ?? 0;
+  const [page, setPage] = useState(() =>
+    Math.min(Math.max(streamLink.properties.pse?.lastRead ?? 0, 0), Math.max(total - 1, 0)),
+  );
+  const [loaded, setLoaded] = useState<{ page: number; src: string } | null>(null);
+  const [error, setError] = useState<{ page: number; message: string } | null>(null);
+  const pagesRef = useRef(new Map<number, Promise<string>>());
+  const maxWidthRef = useRef(
+    typeof window !== 'undefined' ? window.innerWidth * (window.devicePixelRatio || 1) : 0,
+  );
+
+  const fetchPage = useCallback(
+    (pageNumber: number) => {
+      let promise = pagesRef.current.get(pageNumber);
+      if (!promise) {
+        const href = getPageStreamURL(streamLink.href, pageNumber, maxWidthRef.current);
+        promise = onFetchPage(resolveURL(href, baseURL));
+        const pending = promise;
+        pagesRef.current.set(pageNumber, pending);
+        pending.catch(() => {
+          // the page may have been evicted and fetched again in the meantime
+          if (pagesRef.current.get(pageNumber) === pending) pagesRef.current.delete(pageNumber);
+        });
+      }
+      return promise;
+    },
+    [streamLink.href, baseURL, resolveURL, onFetchPage],
+  );
+
+  useEffect(() => {
+    let cancelled = false;
+    const pages = pagesRef.current;
+    for (const [pageNumber, promise] of pages) {
+      if (pageNumber >= page - KEEP_PAGES_BEHIND && pageNumber <= page + PRELOAD_PAGES) continue;
+      pages.delete(pageNumber);
+      promise.then((src) => URL.revokeObjectURL(src)).catch(() => {});
+    }
+    fetchPage(page)
+      .then((src) => {
+        if (!cancelled) setLoaded({ page, src });
+      })
+      .catch((e) => {
+        if (!cancelled) setError({ page, message: e instanceof Error ? e.message : String(e) });
+      });
+    for (let i = 1; i <= PRELOAD_PAGES && page + i < total; i++) {
+      fetchPage(page + i).catch(() => {});
+    }
+    onPageChange(page, total);
+    return () => {
+      cancelled = true;
+    };
+  }, [page, total, fetchPage, onPageChange]);
+
+  useEffect(() => {
+    const pages = pagesRef.current;
+    return () => {
+      pages.forEach((promise) => promise.then((src) => URL.revokeObjectURL(src)).catch(() => {}));
+      pages.clear();
+    };
+  }, []);
+
+  const goToPage = useCallback(
+    (pageNumber: number) => {
+      if (pageNumber < 0 || pageNumber >= total) return;
+      setError(null);
+      setPage(pageNumber);
+    },
+    [total],
+  );
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'ArrowRight' || e.key === 'PageDown' || e.key === ' ') {
+        goToPage(page + 1);
+      } else if (e.key === 'ArrowLeft' || e.key === 'PageUp') {
+        goToPage(page - 1);
+      } else if (e.key === 'Escape') {
+        onClose();
+      } else {
+        return;
+      }
+      e.preventDefault();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [page, goToPage, onClose]);
+
+  const handleClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    const { left, width } = e.currentTarget.getBoundingClientRect();
+    const x = (e.clientX - left) / width;
+    if (x < 1 / 3) goToPage(page - 1);
+    else if (x > 2 / 3) goToPage(page + 1);
+  };
+
+  const isLoading = loaded?.page !== page && error?.page !== page;
+
+  return (
+    <div className='bg-base-300 fixed inset-0 z-50 flex flex-col'>
+      <div className='bg-base-100 flex h-12 flex-shrink-0 items-center gap-2 px-2'>
+        <button className='btn btn-ghost btn-sm' onClick={onClose} aria-label={_('Close')}>
+          <IoClose className='h-5 w-5' />
+        </button>
+        <h1 className='min-w-0 flex-1 truncate text-sm font-semibold'>{title}</h1>
+        <span className='text-base-content/70 text-sm'>
+          {_('{{page}} / {{total}}', { page: page + 1, total })}
+        </span>
+      </div>
+
+      {/* keyboard navigation is handled by the window keydown listener */}
+      {/* eslint-disable-next-line jsx-a11y/click-events-have-key-events, jsx-a11y/no-static-element-interactions */}
+      <div
+        className='relative flex min-h-0 flex-1 cursor-pointer items-center justify-center'
+        onClick={handleClick}
+      >
+        {loaded && (
+          // eslint-disable-next-line @next/next/no-img-element
+          <img
+            src={loaded.src}
+            alt={_('Page {{page}}', { page: loaded.page + 1 })}
+            className={clsx('max-h-full max-w-full object-contain', isLoading && 'opacity-50')}
+          />
+        )}
+        {isLoading && <span className='loading loading-spinner loading-lg absolute' />}
+        {error?.page === page && (
+          <p className='text-error absolute px-6 text-center text-sm'>{error.message}</p>
+        )}
+      </div>
+
+      <div className='bg-base-100 flex h-12 flex-shrink-0 items-center gap-3 px-3'>
+        <button
+          className='btn btn-ghost btn-sm'
+          disabled={page === 0}
+          onClick={() => goToPage(page - 1)}
+          aria-label={_('Previous')}
+        >
+          <IoChevronBack className='h-4 w-4' />
+        </button>
+        <input
+          type='range'
+          className='range range-xs flex-1'
+          min={0}
+          max={Math.max(total - 1, 0)}
+          value={page}
+          onChange={(e) => goToPage(parseInt(e.target.value, 10))}
+        />
+        <button
+          className='btn btn-ghost btn-sm'
+          disabled={page >= total - 1}
+          onClick={() => goToPage(page + 1)}
+          aria-label={_('Next')}
+        >
+          <IoChevronForward className='h-4 w-4' />
+        </button>
+      </div>
+    </div>
+  );
+}
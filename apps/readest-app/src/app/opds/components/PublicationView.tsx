@@ -4,15 +4,16 @@ import clsx from 'clsx';
 import { useMemo, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import { IoPricetag } from 'react-icons/io5';
-import { Book } from '@/types/book';
 import { OPDSLink, OPDSPublication, REL, SYMBOL } from '@/types/opds';
 import { useTranslation } from '@/hooks/useTranslation';
+import { useTransferStore } from '@/store/transferStore';
 import { getFileExtFromMimeType } from '@/libs/document';
 import { formatDate, formatLanguage } from '@/utils/book';
 import { eventDispatcher } from '@/utils/event';
 import { navigateToReader } from '@/utils/nav';
 import { CachedImage } from '@/components/CachedImage';
 import { groupByArray } from '../utils/opdsUtils';
+import { getPageStreamLink } from '../utils/opdsPse';
 import Dropdown from '@/components/Dropdown';
 import MenuItem from '@/components/MenuItem';
 
@@ -20,11 +21,9 @@ interface PublicationViewProps {
   publication: OPDSPublication;
   baseURL: string;
   resolveURL: (url: string, base: string) => string;
-  onDownload: (
-    href: string,
-    type?: string,
-    onProgress?: (progress: { progress: number; total: number }) => void,
-  ) => Promise<Book | null | undefined>;
+  // Returns the id of the queued transfer
+  onDownload: (link: OPDSLink, publication: OPDSPublication) => Promise<string | null>;
+  onStream?: (publication: OPDSPublication) => void;
   onGenerateCachedImageUrl: (url: string) => Promise<string>;
 }
 
@@ -33,13 +32,18 @@ export function PublicationView({
   baseURL,
   resolveURL,
   onDownload,
+  onStream,
   onGenerateCachedImageUrl,
 }: PublicationViewProps) {
   const _ = useTranslation();
   const router = useRouter();
-  const [downloading, setDownloading] = useState(false);
-  const [downloadedBook, setDownloadedBook] = useState<Book | null>(null);
-  const [progress, setProgress] = useState<number | null>(null);
+  const [transferId, setTransferId] = useState<string | null>(null);
+  const transfer = useTransferStore((state) =>
+    transferId ? state.transfers[transferId] : undefined,
+  );
+  const downloading = transfer?.status === 'pending' || transfer?.status === 'in_progress';
+  const downloadedBookHash = transfer?.status === 'completed' ? transfer.bookHash : null;
+  const progress = transfer?.status === 'in_progress' ? Math.floor(transfer.progress) : null;
 
   const linksByRel = useMemo(
     () => groupByArray(publication.links, (link) => link.rel),
@@ -74,35 +78,30 @@ export function PublicationView({
     return links;
   }, [linksByRel]);
 
-  const handleActionButton = async (href: string, type?: string) => {
-    if (downloadedBook) {
-      navigateToReader(router, [downloadedBook.hash]);
+  const streamLink = useMemo(() => getPageStreamLink(publication), [publication]);
+
+  const handleActionButton = async (link: OPDSLink) => {
+    if (downloadedBookHash) {
+      navigateToReader(router, [downloadedBookHash]);
       return;
     }
 
-    setDownloading(true);
-    setProgress(null);
-
     try {
-      const book = await onDownload(href, type, (prog) => {
-        if (prog.total > 0) {
-          const percentage = Math.floor((prog.progress / prog.total) * 100);
-          setProgress(percentage);
-        }
-      });
-      if (book) {
-        setDownloadedBook(book);
+      const id = await onDownload(link, publication);
+      if (id) {
+        setTransferId(id);
+        eventDispatcher.dispatch('toast', {
+          type: 'info',
+          timeout: 2000,
+          message: _('Added to transfer queue'),
+        });
       }
-      eventDispatcher.dispatch('toast', { type: 'success', message: _('Download completed') });
     } catch (error) {
       console.error('Download failed:', error);
       eventDispatcher.dispatch('toast', {
         type: 'error',
-        message: _('Download failed') + `:\n${href}`,
+        message: _('Download failed') + `:\n${link.href}`,
       });
-    } finally {
-      setDownloading(false);
-      setProgress(null);
     }
   };
 
@@ -147,20 +146,29 @@ export function PublicationView({
             )}
           </div>
 
-          {acquisitionLinks.length > 0 && (
+          {(acquisitionLinks.length > 0 || streamLink) && (
             <div className='flex flex-wrap gap-2'>
+              {streamLink && onStream && (
+                <button
+                  onClick={() => onStream(publication)}
+                  className='btn btn-outline min-w-20 rounded-3xl'
+                  title={_('{{count}} pages', { count: streamLink.properties.pse?.count ?? 0 })}
+                >
+                  {streamLink.properties.pse?.lastRead ? _('Continue Reading') : _('Read Online')}
+                </button>
+              )}
               {acquisitionLinks.map(({ rel, links }) => (
                 <div key={rel} className='flex gap-1'>
-                  {links.length === 1 || downloadedBook ? (
+                  {links.length === 1 || downloadedBookHash ? (
                     <button
-                      onClick={() => handleActionButton(links[0]!.href, links[0]!.type)}
+                      onClick={() => handleActionButton(links[0]!)}
                       disabled={downloading}
                       className={clsx(
                         'btn btn-primary min-w-20 rounded-3xl',
-                        downloadedBook && 'btn-success',
+                        downloadedBookHash && 'btn-success',
                       )}
                     >
-                      {downloadedBook ? _('Open & Read') : getAcquisitionLabel(rel)}
+                      {downloadedBookHash ? _('Open & Read') : getAcquisitionLabel(rel)}
                     </button>
                   ) : (
                     <Dropdown
@@ -168,11 +176,11 @@ export function PublicationView({
                       className='dropdown-bottom dropdown-center flex justify-center'
                       buttonClassName={clsx(
                         'btn btn-primary min-w-20 rounded-3xl p-0 bg-primary hover:bg-primary',
-                        downloadedBook && 'btn-success',
+                        downloadedBookHash && 'btn-success',
                       )}
                       disabled={downloading}
                       toggleButton={
-                        <div>{downloadedBook ? _('Open') : getAcquisitionLabel(rel)}</div>
+                        <div>{downloadedBookHash ? _('Open') : getAcquisitionLabel(rel)}</div>
                       }
                     >
                       <div
@@ -191,7 +199,7 @@ export function PublicationView({
                               getFileExtFromMimeType(link.type || '').toUpperCase() ||
                               idx.toString()
                             }
-                            onClick={() => handleActionButton(link.href, link.type)}
+                            onClick={() => handleActionButton(link)}
                           />
                         ))}
                       </div>
@@ -7,40 +7,48 @@ import { useRouter, useSearchParams } from 'next/navigation';
 import { isOPDSCatalog, getPublication, getFeed, getOpenSearch } from 'foliate-js/opds.js';
 import { openUrl } from '@tauri-apps/plugin-opener';
 import { useEnv } from '@/context/EnvContext';
-import { useAuth } from '@/context/AuthContext';
 import { isWebAppPlatform } from '@/services/environment';
 import { downloadFile } from '@/libs/storage';
 import { Toast } from '@/components/Toast';
 import { useThemeStore } from '@/store/themeStore';
 import { useTranslation } from '@/hooks/useTranslation';
-import { useLibraryStore } from '@/store/libraryStore';
 import { useSettingsStore } from '@/store/settingsStore';
 import { transferManager } from '@/services/transferManager';
 import { useTransferQueue } from '@/hooks/useTransferQueue';
 import { useTheme } from '@/hooks/useTheme';
 import { useLibrary } from '@/hooks/useLibrary';
 import { eventDispatcher } from '@/utils/event';
-import { getFileExtFromMimeType } from '@/libs/document';
-import { OPDSFeed, OPDSPublication, OPDSSearch } from '@/types/opds';
+import { debounce } from '@/utils/debounce';
+import { OPDSFeed, OPDSLink, OPDSPublication, OPDSSearch } from '@/types/opds';
 import {
-  getFileExtFromPath,
+  getAtomPaging,
+  getNextPageLink,
   isSearchLink,
   MIME,
   parseMediaType,
   resolveURL,
 } from './utils/opdsUtils';
 import {
-  getProxiedURL,
-  fetchWithAuth,
-  probeAuth,
-  needsProxy,
-  probeFilename,
-} from './utils/opdsReq';
-import { READEST_OPDS_USER_AGENT } from '@/services/constants';
+  expandURITemplate,
+  isOPDS2Publication,
+  isOPDS2SearchLink,
+  normalizeOPDS2Feed,
+  normalizeOPDS2Publication,
+} from './utils/opds2';
+import {
+  applyPageStreams,
+  getFeedPublications,
+  getPageStreamLink,
+  getProgressionLink,
+  reportProgression,
+} from './utils/opdsPse';
+import { getOPDSDownloadMetadata } from './utils/opdsDownload';
+import { getProxiedURL, fetchWithAuth, probeAuth, needsProxy } from './utils/opdsReq';
 import { FeedView } from './components/FeedView';
 import { PublicationView } from './components/PublicationView';
 import { SearchView } from './components/SearchView';
 import { Navigation } from './components/Navigation';
+import { PageStreamView } from './components/PageStreamView';
 
 type ViewMode = 'feed' | 'publication' | 'search' | 'loading' | 'error';
 
@@ -53,6 +61,21 @@ interface OPDSState {
   startURL?: string;
 }
 
+const parseAtomFeed = (doc: Document) => {
+  const feed = getFeed(doc) as OPDSFeed;
+  feed.metadata = { ...feed.metadata, ...getAtomPaging(doc) };
+  applyPageStreams(doc, getFeedPublications(feed));
+  return feed;
+};
+
+const parseFeedText = (text: string): OPDSFeed | null => {
+  if (text.startsWith('<')) {
+    const doc = new DOMParser().parseFromString(text, MIME.XML as DOMParserSupportedType);
+    return doc.documentElement.localName === 'feed' ? parseAtomFeed(doc) : null;
+  }
+  return normalizeOPDS2Feed(JSON.parse(text));
+};
+
 interface HistoryEntry {
   url: string;
   state: OPDSState;
@@ -64,7 +87,6 @@ export default function BrowserPage() {
   const _ = useTranslation();
   const router = useRouter();
   const { appService } = useEnv();
-  const { user } = useAuth();
   const { libraryLoaded } = useLibrary();
   const { safeAreaInsets, isRoundedWindow } = useThemeStore();
   const { settings } = useSettingsStore();
@@ -79,6 +101,11 @@ export default function BrowserPage() {
   } | null>(null);
 
   const [error, setError] = useState<Error | null>(null);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [streamTarget, setStreamTarget] = useState<{
+    publication: OPDSPublication;
+    link: OPDSLink;
+  } | null>(null);
   const [history, setHistory] = useState<HistoryEntry[]>([]);
   const [historyIndex, setHistoryIndex] = useState(-1);
 
@@ -92,6 +119,7 @@ export default function BrowserPage() {
   const historyIndexRef = useRef(-1);
   const isNavigatingHistoryRef = useRef(false);
   const searchTermRef = useRef('');
+  const streamPositionsRef = useRef(new Map<string, number>());
 
   useTheme({ systemUIVisible: false });
   useTransferQueue(libraryLoaded);
@@ -211,7 +239,7 @@ export default function BrowserPage() {
           } = doc;
 
           if (localName === 'feed') {
-            const feed = getFeed(doc) as OPDSFeed;
+            const feed = parseAtomFeed(doc);
             const newState = {
               feed,
               baseURL: responseURL,
@@ -225,7 +253,8 @@ export default function BrowserPage() {
               addToHistory(url, newState, 'feed', null);
             }
           } else if (localName === 'entry') {
-            const publication = getPublication(doc.documentElement);
+            const publication = getPublication(doc.documentElement) as OPDSPublication;
+            applyPageStreams(doc, [publication]);
             const newState = {
               publication,
               baseURL: responseURL,
@@ -283,7 +312,23 @@ export default function BrowserPage() {
             }
           }
         } else {
-          const feed = JSON.parse(text);
+          const json = JSON.parse(text);
+          if (isOPDS2Publication(json)) {
+            const newState = {
+              publication: normalizeOPDS2Publication(json),
+              baseURL: responseURL,
+              currentURL: url,
+              startURL: currentStartURL || responseURL,
+            };
+            setState(newState);
+            setViewMode('publication');
+            setSelectedPublication(null);
+            if (!skipHistory) {
+              addToHistory(url, newState, 'publication', null);
+            }
+            return;
+          }
+          const feed = normalizeOPDS2Feed(json);
           const newState = {
             feed,
             baseURL: responseURL,
@@ -343,7 +388,7 @@ export default function BrowserPage() {
   );
 
   const hasSearch = useMemo(() => {
-    return !!state.feed?.links?.find(isSearchLink);
+    return !!state.feed?.links?.find((link) => isSearchLink(link) || isOPDS2SearchLink(link));
   }, [state.feed]);
 
   const handleGoStart = useCallback(() => {
@@ -359,6 +404,13 @@ export default function BrowserPage() {
 
       searchTermRef.current = queryTerm;
 
+      const opds2SearchLink = state.feed.links?.find(isOPDS2SearchLink);
+      if (opds2SearchLink) {
+        const searchURL = expandURITemplate(opds2SearchLink.href, { query: queryTerm });
+        handleNavigate(resolveURL(searchURL, state.baseURL), true);
+        return;
+      }
+
       const searchLink = state.feed.links?.find(isSearchLink);
       if (searchLink && searchLink.href) {
         const searchURL = resolveURL(searchLink.href, state.baseURL);
@@ -403,84 +455,27 @@ export default function BrowserPage() {
   );
 
   const handleDownload = useCallback(
-    async (
-      href: string,
-      type?: string,
-      onProgress?: (progress: { progress: number; total: number }) => void,
-    ) => {
-      if (!appService || !libraryLoaded) return;
-      try {
-        const url = resolveURL(href, state.baseURL);
-        const parsed = parseMediaType(type);
-        if (parsed?.mediaType === MIME.HTML) {
-          if (isWebAppPlatform()) {
-            window.open(url, '_blank');
-          } else {
-            await openUrl(url);
-          }
-          return;
+    async (link: OPDSLink, publication: OPDSPublication) => {
+      if (!appService || !libraryLoaded) return null;
+      const url = resolveURL(link.href, state.baseURL);
+      const parsed = parseMediaType(link.type);
+      if (parsed?.mediaType === MIME.HTML) {
+        if (isWebAppPlatform()) {
+          window.open(url, '_blank');
         } else {
-          const username = usernameRef.current || '';
-          const password = passwordRef.current || '';
-          const useProxy = needsProxy(url);
-          let downloadUrl = useProxy ? getProxiedURL(url, '', true) : url;
-          const headers: Record<string, string> = {
-            'User-Agent': READEST_OPDS_USER_AGENT,
-            Accept: '*/*',
-          };
-          if (username || password) {
-            const authHeader = await probeAuth(url, username, password, useProxy);
-            if (authHeader) {
-              headers['Authorization'] = authHeader;
-              downloadUrl = useProxy ? getProxiedURL(url, authHeader, true) : url;
-            }
-          }
-
-          const pathname = decodeURIComponent(new URL(url).pathname);
-          const ext = getFileExtFromMimeType(parsed?.mediaType) || getFileExtFromPath(pathname);
-          const basename = pathname.replaceAll('/', '_');
-          const filename = ext ? `${basename}.${ext}` : basename;
-          let dstFilePath = await appService?.resolveFilePath(filename, 'Cache');
-          console.log('Downloading to:', url, dstFilePath);
-
-          const responseHeaders = await downloadFile({
-            appService,
-            dst: dstFilePath,
-            cfp: '',
-            url: downloadUrl,
-            headers,
-            singleThreaded: true,
-            skipSslVerification: true,
-            onProgress,
-          });
-          const probedFilename = await probeFilename(responseHeaders);
-          if (probedFilename) {
-            const newFilePath = await appService?.resolveFilePath(probedFilename, 'Cache');
-            await appService?.copyFile(dstFilePath, newFilePath, 'None');
-            await appService?.deleteFile(dstFilePath, 'None');
-            console.log('Renamed downloaded file to:', newFilePath);
-            dstFilePath = newFilePath;
-          }
-
-          const { library, setLibrary } = useLibraryStore.getState();
-          const book = await appService.importBook(dstFilePath, library);
-          if (user && book && !book.uploadedAt && settings.autoUpload) {
-            setTimeout(() => {
-              transferManager.queueUpload(book);
-            }, 3000);
-          }
-          setLibrary(library);
-          appService.saveLibraryBooks(library);
-          return book;
+          await openUrl(url);
         }
-      } catch (e) {
-        console.error('Download error:', e);
-        throw e;
+        return null;
       }
-      return;
+      return transferManager.queueOPDSDownload({
+        url,
+        type: link.type,
+        indirectTypes: link.properties?.indirectAcquisition?.map((ia) => ia.type),
+        catalogId,
+        metadata: getOPDSDownloadMetadata(publication),
+      });
     },
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-    [user, state.baseURL, appService, libraryLoaded],
+    [state.baseURL, appService, libraryLoaded, catalogId],
   );
 
   const handleGenerateCachedImageUrl = useCallback(
@@ -523,6 +518,109 @@ export default function BrowserPage() {
     [appService],
   );
 
+  const handleLoadMore = useCallback(async () => {
+    const feed = state.feed;
+    const nextLink = feed && getNextPageLink(feed);
+    if (!feed || !nextLink || isLoadingMore) return;
+
+    setIsLoadingMore(true);
+    try {
+      const url = resolveURL(nextLink.href, state.baseURL);
+      const username = usernameRef.current || '';
+      const password = passwordRef.current || '';
+      const res = await fetchWithAuth(url, username, password, isWebAppPlatform());
+      if (!res.ok) {
+        throw new Error(`Failed to load OPDS feed: ${res.status} ${res.statusText}`);
+      }
+      const nextFeed = parseFeedText(await res.text());
+      if (!nextFeed) return;
+
+      // hrefs of the next page are relative to its own url
+      const followingLink = getNextPageLink(nextFeed);
+      const mergedFeed: OPDSFeed = {
+        ...feed,
+        links: [
+          ...feed.links.filter((link) => link !== nextLink),
+          ...(followingLink
+            ? [{ ...followingLink, href: resolveURL(followingLink.href, res.url) }]
+            : []),
+        ],
+        publications: [...(feed.publications ?? []), ...(nextFeed.publications ?? [])],
+      };
+      setState((prev) => (prev.feed === feed ? { ...prev, feed: mergedFeed } : prev));
+      setHistory((prev) =>
+        prev.map((entry, index) =>
+          index === historyIndexRef.current && entry.state.feed === feed
+            ? { ...entry, state: { ...entry.state, feed: mergedFeed } }
+            : entry,
+        ),
+      );
+    } catch (e) {
+      console.error('Failed to load more publications:', e);
+      eventDispatcher.dispatch('toast', {
+        message: _('Failed to load more items'),
+        timeout: 3000,
+        type: 'error',
+      });
+    } finally {
+      setIsLoadingMore(false);
+    }
+  }, [_, state.feed, state.baseURL, isLoadingMore]);
+
+  const handleStream = useCallback((publication: OPDSPublication) => {
+    const link = getPageStreamLink(publication);
+    const pse = link?.properties.pse;
+    if (!link || !pse) return;
+    // resume from the position read in this session, the feed may be stale
+    const lastRead = streamPositionsRef.current.get(link.href) ?? pse.lastRead;
+    setStreamTarget({
+      publication,
+      link: { ...link, properties: { ...link.properties, pse: { ...pse, lastRead } } },
+    });
+  }, []);
+
+  const handleFetchStreamPage = useCallback(async (url: string) => {
+    const username = usernameRef.current || '';
+    const password = passwordRef.current || '';
+    const res = await fetchWithAuth(url, username, password, needsProxy(url), {
+      headers: { Accept: 'image/*' },
+    });
+    if (!res.ok) {
+      throw new Error(`Failed to load page: ${res.status} ${res.statusText}`);
+    }
+    return URL.createObjectURL(await res.blob());
+  }, []);
+
+  const reportStreamProgression = useMemo(
+    () =>
+      debounce((url: string, page: number, total: number, username: string, password: string) => {
+        reportProgression(url, page, total, username, password, needsProxy(url)).catch((e) =>
+          console.warn('Failed to report reading progress:', e),
+        );
+      }, 2000),
+    [],
+  );
+
+  const handleStreamPageChange = useCallback(
+    (page: number, total: number) => {
+      if (!streamTarget) return;
+      streamPositionsRef.current.set(streamTarget.link.href, page);
+      const progressionLink = getProgressionLink(streamTarget.publication);
+      if (progressionLink) {
+        const url = resolveURL(progressionLink.href, state.baseURL);
+        const username = usernameRef.current || '';
+        const password = passwordRef.current || '';
+        reportStreamProgression(url, page, total, username, password);
+      }
+    },
+    [streamTarget, state.baseURL, reportStreamProgression],
+  );
+
+  const handleCloseStream = useCallback(() => {
+    reportStreamProgression.flush();
+    setStreamTarget(null);
+  }, [reportStreamProgression]);
+
   const handleBack = useCallback(() => {
     if (historyIndex > 0) {
       const newIndex = historyIndex - 1;
@@ -647,6 +745,8 @@ export default function BrowserPage() {
             resolveURL={resolveURL}
             onGenerateCachedImageUrl={handleGenerateCachedImageUrl}
             isOPDSCatalog={isOPDSCatalog}
+            onLoadMore={handleLoadMore}
+            isLoadingMore={isLoadingMore}
           />
         )}
 
@@ -655,6 +755,7 @@ export default function BrowserPage() {
             publication={publication}
             baseURL={state.baseURL}
             onDownload={handleDownload}
+            onStream={handleStream}
             resolveURL={resolveURL}
             onGenerateCachedImageUrl={handleGenerateCachedImageUrl}
           />
@@ -669,6 +770,17 @@ export default function BrowserPage() {
           />
         )}
       </main>
+      {streamTarget && (
+        <PageStreamView
+          title={streamTarget.publication.metadata?.title || ''}
+          streamLink={streamTarget.link}
+          baseURL={state.baseURL}
+          resolveURL={resolveURL}
+          onFetchPage={handleFetchStreamPage}
+          onPageChange={handleStreamPageChange}
+          onClose={handleCloseStream}
+        />
+      )}
       <Toast />
     </div>
   );
@@ -0,0 +1,212 @@
+import { OPDSFeed, OPDSLink, OPDSNavigationItem, OPDSPublication, SYMBOL } from '@/types/opds';
+
+export const OPDS2_MIME = {
+  FEED: 'application/opds+json',
+  PUBLICATION: 'application/opds-publication+json',
+};
+
+type JSONObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is JSONObject =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const toArray = <T>(value: T | T[] | undefined | null): T[] =>
+  value === undefined || value === null ? [] : Array.isArray(value) ? value : [value];
+
+const toNumber = (value: unknown) => {
+  const num = typeof value === 'string' ? parseFloat(value) : value;
+  return typeof num === 'number' && isFinite(num) ? num : undefined;
+};
+
+// Titles and names in Readium Web Publication Manifests may be language maps
+const getLocalizedString = (value: unknown): string => {
+  if (typeof value === 'string') return value;
+  if (isObject(value)) {
+    const lang = typeof navigator !== 'undefined' ? navigator.language?.split('-')[0] : '';
+    const localized = (lang && value[lang]) || value['en'] || Object.values(value)[0];
+    return typeof localized === 'string' ? localized : '';
+  }
+  return '';
+};
+
+const normalizeLink = (link: JSONObject): OPDSLink => {
+  const properties = isObject(link['properties']) ? link['properties'] : {};
+  const numberOfItems = properties['numberOfItems'];
+  return {
+    rel: link['rel'] as string | string[] | undefined,
+    href: String(link['href'] ?? ''),
+    type: link['type'] as string | undefined,
+    title: link['title'] as string | undefined,
+    templated: !!link['templated'],
+    properties: {
+      ...(properties as OPDSLink['properties']),
+      numberOfItems: numberOfItems !== undefined ? String(numberOfItems) : undefined,
+    },
+  };
+};
+
+const normalizeLinks = (links: unknown) =>
+  toArray(links as JSONObject[])
+    .filter(isObject)
+    .map(normalizeLink);
+
+const normalizeContributors = (value: unknown) =>
+  toArray(value as unknown[])
+    .map((contributor) => {
+      if (typeof contributor === 'string') return { name: contributor, links: [] };
+      if (isObject(contributor)) {
+        return {
+          name: getLocalizedString(contributor['name']),
+          links: normalizeLinks(contributor['links']),
+        };
+      }
+      return null;
+    })
+    .filter((contributor) => !!contributor?.name) as { name: string; links: OPDSLink[] }[];
+
+const normalizeCollections = (value: unknown) =>
+  toArray(value as unknown[])
+    .map((collection) => {
+      if (typeof collection === 'string') return { name: collection };
+      if (isObject(collection)) {
+        return {
+          name: getLocalizedString(collection['name']),
+          position: toNumber(collection['position']),
+        };
+      }
+      return null;
+    })
+    .filter((collection) => !!collection?.name) as { name: string; position?: number }[];
+
+export const normalizeOPDS2Publication = (json: JSONObject): OPDSPublication => {
+  const metadata = isObject(json['metadata']) ? json['metadata'] : {};
+  const description = metadata['description'];
+  const publishers = normalizeContributors(metadata['publisher']);
+  const subjects = toArray(metadata['subject'] as unknown[]).map((subject) =>
+    typeof subject === 'string'
+      ? { name: subject }
+      : isObject(subject)
+        ? {
+            name: getLocalizedString(subject['name']),
+            code: subject['code'] as string | undefined,
+            scheme: subject['scheme'] as string | undefined,
+          }
+        : {},
+  );
+  const language = toArray(metadata['language'] as string | string[]);
+  const belongsTo = isObject(metadata['belongsTo']) ? metadata['belongsTo'] : {};
+  return {
+    metadata: {
+      title: getLocalizedString(metadata['title']),
+      subtitle: getLocalizedString(metadata['subtitle']) || undefined,
+      author: normalizeContributors(metadata['author']),
+      contributor: normalizeContributors(metadata['contributor']),
+      publisher: publishers[0],
+      published: metadata['published'] as string | undefined,
+      language: language.join(', ') || undefined,
+      identifier: metadata['identifier'] as string | undefined,
+      subject: subjects,
+      belongsTo: {
+        series: normalizeCollections(belongsTo['series']),
+        collection: normalizeCollections(belongsTo['collection']),
+      },
+      description: typeof description === 'string' ? description : undefined,
+      ...(typeof description === 'string' && /<[a-z][\s\S]*>/i.test(description)
+        ? { [SYMBOL.CONTENT]: { value: description, type: 'html' as const } }
+        : {}),
+    },
+    links: normalizeLinks(json['links']),
+    images: normalizeLinks(json['images']),
+  };
+};
+
+const normalizeNavigation = (navigation: unknown): OPDSNavigationItem[] =>
+  normalizeLinks(navigation).map((link) => ({ ...link, title: link.title ?? link.href }));
+
+const normalizePublications = (publications: unknown) =>
+  toArray(publications as JSONObject[])
+    .filter(isObject)
+    .map(normalizeOPDS2Publication);
+
+/**
+ * Normalizes an OPDS 2.0 JSON feed into the same shape as the feeds parsed from Atom,
+ * so that the views don't need to care about the serialization of the catalog.
+ */
+export const normalizeOPDS2Feed = (json: JSONObject): OPDSFeed => {
+  const metadata = isObject(json['metadata']) ? json['metadata'] : {};
+  const groups = toArray(json['groups'] as JSONObject[])
+    .filter(isObject)
+    .map((group) => {
+      const groupMetadata = isObject(group['metadata']) ? group['metadata'] : {};
+      const numberOfItems = groupMetadata['numberOfItems'];
+      return {
+        metadata: {
+          title: getLocalizedString(groupMetadata['title']),
+          numberOfItems: numberOfItems !== undefined ? String(numberOfItems) : undefined,
+        },
+        links: normalizeLinks(group['links']).map((link) => ({
+          ...link,
+          rel: [link.rel ?? ''].flat().join(' '),
+        })),
+        publications: group['publications']
+          ? normalizePublications(group['publications'])
+          : undefined,
+        navigation: group['navigation'] ? normalizeNavigation(group['navigation']) : undefined,
+      };
+    });
+  const facets = toArray(json['facets'] as JSONObject[])
+    .filter(isObject)
+    .map((facet) => ({
+      metadata: {
+        title: getLocalizedString(isObject(facet['metadata']) ? facet['metadata']['title'] : ''),
+      },
+      links: normalizeLinks(facet['links']),
+    }));
+  return {
+    metadata: {
+      title: getLocalizedString(metadata['title']),
+      subtitle: getLocalizedString(metadata['subtitle']) || undefined,
+      numberOfItems: toNumber(metadata['numberOfItems']),
+      itemsPerPage: toNumber(metadata['itemsPerPage']),
+      currentPage: toNumber(metadata['currentPage']),
+    },
+    links: normalizeLinks(json['links']),
+    navigation: json['navigation'] ? normalizeNavigation(json['navigation']) : undefined,
+    publications: json['publications'] ? normalizePublications(json['publications']) : undefined,
+    groups: groups.length > 0 ? groups : undefined,
+    facets: facets.length > 0 ? facets : undefined,
+  };
+};
+
+export const isOPDS2Publication = (json: JSONObject) =>
+  isObject(json['metadata']) &&
+  !json['publications'] &&
+  !json['navigation'] &&
+  !json['groups'] &&
+  (Array.isArray(json['images']) ||
+    normalizeLinks(json['links']).some((link) =>
+      [link.rel].flat().some((rel) => rel?.startsWith('http://opds-spec.org/acquisition')),
+    ));
+
+/**
+ * Expands the simple string and form-style query expressions of RFC 6570 URI templates,
+ * e.g. `/search{?query,author}` as used by the search links of OPDS 2.0 catalogs.
+ */
+export const expandURITemplate = (template: string, params: Record<string, string>) =>
+  template.replace(/\{([?&]?)([^}]+)\}/g, (_, operator: string, names: string) => {
+    const vars = names
+      .split(',')
+      .map((name) => name.trim())
+      .filter((name) => params[name] !== undefined && params[name] !== '');
+    if (!operator) {
+      return vars.map((name) => encodeURIComponent(params[name]!)).join(',');
+    }
+    if (vars.length === 0) return '';
+    const query = vars.map((name) => `${name}=${encodeURIComponent(params[name]!)}`).join('&');
+    return `${operator}${query}`;
+  });
+
+export const isOPDS2SearchLink = (link: OPDSLink) => {
+  const rels = [link.rel ?? ''].flat();
+  return rels.includes('search') && link.type === OPDS2_MIME.FEED && !!link.templated;
+};
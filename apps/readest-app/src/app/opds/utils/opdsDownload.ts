@@ -0,0 +1,245 @@
+import { getPublication } from 'foliate-js/opds.js';
+import { Book } from '@/types/book';
+import { AppService } from '@/types/system';
+import { OPDSPublication, REL } from '@/types/opds';
+import { BookMetadata, getFileExtFromMimeType } from '@/libs/document';
+import { downloadFile } from '@/libs/storage';
+import { formatAuthors, getPrimaryLanguage } from '@/utils/book';
+import { uniqueId } from '@/utils/misc';
+import { useSettingsStore } from '@/store/settingsStore';
+import { OPDSDownloadMetadata, OPDSDownloadOptions } from '@/store/transferStore';
+import { READEST_OPDS_USER_AGENT } from '@/services/constants';
+import { ProgressHandler } from '@/utils/transfer';
+import { fetchWithAuth, getProxiedURL, needsProxy, probeAuth, probeFilename } from './opdsReq';
+import { MIME, getFileExtFromPath, parseMediaType, resolveURL } from './opdsUtils';
+import { OPDS2_MIME, normalizeOPDS2Publication } from './opds2';
+
+const MAX_INDIRECTION_DEPTH = 5;
+
+interface Credentials {
+  username: string;
+  password: string;
+}
+
+// Acquisition links of these types point to a publication entry rather than the book file
+export const isPublicationEntryType = (type?: string) => {
+  const parsed = parseMediaType(type);
+  if (!parsed) return false;
+  if (parsed.mediaType === OPDS2_MIME.PUBLICATION) return true;
+  return parsed.mediaType === MIME.ATOM && parsed.parameters['type'] === 'entry';
+};
+
+const isAcquisitionLink = (link: OPDSPublication['links'][number]) =>
+  [link.rel ?? ''].flat().some((rel) => rel.startsWith(REL.ACQ));
+
+const isSameMediaType = (a?: string, b?: string) =>
+  !!a && !!b && parseMediaType(a)?.mediaType === parseMediaType(b)?.mediaType;
+
+/**
+ * Picks the acquisition link of a publication leading to the given media type,
+ * either directly or through its own indirect acquisition chain.
+ */
+export const selectAcquisitionLink = (publication: OPDSPublication, type?: string) => {
+  const links = publication.links.filter(isAcquisitionLink);
+  if (!type) return links.find((link) => !isPublicationEntryType(link.type)) ?? links[0];
+  return (
+    links.find((link) => isSameMediaType(link.type, type)) ??
+    links.find((link) =>
+      link.properties?.indirectAcquisition?.some((ia) => isSameMediaType(ia.type, type)),
+    )
+  );
+};
+
+export const getOPDSDownloadMetadata = (publication: OPDSPublication): OPDSDownloadMetadata => {
+  const { metadata } = publication;
+  const series = metadata.belongsTo?.series?.[0];
+  const publisher = [metadata.publisher ?? []]
+    .flat()
+    .map((p) => (typeof p === 'string' ? p : p?.name))
+    .find(Boolean);
+  return {
+    title: metadata.title,
+    authors: metadata.author?.map((author) => author.name).filter(Boolean),
+    series: series?.name,
+    seriesIndex: series?.position,
+    subjects: metadata.subject
+      ?.map((subject) => (typeof subject === 'string' ? subject : subject.name || subject.code))
+      .filter((subject): subject is string => !!subject),
+    publisher,
+    published: metadata.published,
+    language: [metadata.language ?? []].flat().join(', ') || undefined,
+    description: metadata.description,
+    identifier: metadata.identifier,
+  };
+};
+
+const isEmptyValue = (value: unknown) =>
+  !value || (typeof value === 'string' && !value.trim()) || (Array.isArray(value) && !value.length);
+
+/**
+ * Pre-fills the metadata of an imported book with the metadata from the catalog.
+ * The metadata embedded in the book file takes precedence except for the subjects,
+ * which are merged and added to the tags of the book.
+ */
+export const applyOPDSMetadata = (book: Book, opds: OPDSDownloadMetadata) => {
+  const metadata = (book.metadata ?? {}) as BookMetadata;
+  if (opds.language && isEmptyValue(metadata.language)) {
+    metadata.language = opds.language.split(', ');
+    book.primaryLanguage = getPrimaryLanguage(metadata.language);
+  }
+  if (opds.authors?.length && isEmptyValue(metadata.author)) {
+    metadata.author = opds.authors.join(' & ');
+    book.author = formatAuthors(opds.authors, metadata.language);
+  }
+  if (opds.series && !metadata.series) {
+    metadata.series = opds.series;
+    metadata.seriesIndex = opds.seriesIndex;
+    metadata.belongsTo = {
+      ...metadata.belongsTo,
+      series: { name: opds.series, position: `${opds.seriesIndex ?? 1}` },
+    };
+  }
+  if (opds.subjects?.length) {
+    const subjects = [metadata.subject ?? []]
+      .flat()
+      .filter((subject): subject is string => typeof subject === 'string');
+    metadata.subject = Array.from(new Set([...subjects, ...opds.subjects]));
+    book.tags = Array.from(new Set([...(book.tags ?? []), ...opds.subjects]));
+  }
+  metadata.publisher ||= opds.publisher;
+  metadata.published ||= opds.published;
+  metadata.description ||= opds.description;
+  metadata.identifier ||= opds.identifier;
+  book.metadata = metadata;
+};
+
+const getCatalogCredentials = (catalogId?: string): Credentials => {
+  const { settings } = useSettingsStore.getState();
+  const catalog = catalogId ? settings.opdsCatalogs?.find((cat) => cat.id === catalogId) : null;
+  return { username: catalog?.username || '', password: catalog?.password || '' };
+};
+
+const parsePublicationEntry = (text: string): OPDSPublication => {
+  if (text.trimStart().startsWith('<')) {
+    const doc = new DOMParser().parseFromString(text, MIME.XML as DOMParserSupportedType);
+    return getPublication(doc.documentElement) as OPDSPublication;
+  }
+  return normalizeOPDS2Publication(JSON.parse(text));
+};
+
+/**
+ * Follows the indirect acquisition chain of an acquisition link, fetching the
+ * intermediate publication entries until a link to the book file is found.
+ */
+export const resolveAcquisition = async (
+  url: string,
+  type: string | undefined,
+  indirectTypes: string[],
+  credentials: Credentials,
+  depth = 0,
+): Promise<{ url: string; type?: string }> => {
+  if (!isPublicationEntryType(type)) return { url, type };
+  if (depth >= MAX_INDIRECTION_DEPTH) {
+    throw new Error('Too many indirect acquisitions');
+  }
+
+  const { username, password } = credentials;
+  const res = await fetchWithAuth(url, username, password, needsProxy(url));
+  if (!res.ok) {
+    throw new Error(`Failed to fetch publication entry: ${res.status} ${res.statusText}`);
+  }
+  const publication = parsePublicationEntry(await res.text());
+  const [nextType, ...restTypes] = indirectTypes;
+  const link = selectAcquisitionLink(publication, nextType);
+  if (!link) {
+    throw new Error('No acquisition link found in the publication entry');
+  }
+  const nextTypes = link.properties?.indirectAcquisition?.map((ia) => ia.type) ?? restTypes;
+  return resolveAcquisition(
+    resolveURL(link.href, res.url || url),
+    link.type ?? nextType,
+    nextTypes,
+    credentials,
+    depth + 1,
+  );
+};
+
+const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw new Error('Download aborted');
+};
+
+/**
+ * Downloads an OPDS publication and imports it into the library.
+ * The library is updated in place, the caller is responsible for saving it.
+ */
+export const downloadOPDSPublication = async (
+  appService: AppService,
+  options: OPDSDownloadOptions,
+  books: Book[],
+  onProgress?: ProgressHandler,
+  signal?: AbortSignal,
+) => {
+  const credentials = getCatalogCredentials(options.catalogId);
+  const { username, password } = credentials;
+  const { url, type } = await resolveAcquisition(
+    options.url,
+    options.type,
+    options.indirectTypes ?? [],
+    credentials,
+  );
+  throwIfAborted(signal);
+
+  const useProxy = needsProxy(url);
+  let downloadUrl = useProxy ? getProxiedURL(url, '', true) : url;
+  const headers: Record<string, string> = {
+    'User-Agent': READEST_OPDS_USER_AGENT,
+    Accept: '*/*',
+  };
+  if (username || password) {
+    const authHeader = await probeAuth(url, username, password, useProxy);
+    if (authHeader) {
+      headers['Authorization'] = authHeader;
+      downloadUrl = useProxy ? getProxiedURL(url, authHeader, true) : url;
+    }
+  }
+
+  const pathname = decodeURIComponent(new URL(url).pathname);
+  const mediaType = parseMediaType(type)?.mediaType;
+  const ext = getFileExtFromMimeType(mediaType) || getFileExtFromPath(pathname);
+  const basename = pathname.replaceAll('/', '_');
+  const filename = ext ? `${basename}.${ext}` : basename;
+  // every attempt downloads into a folder of its own so an abandoned attempt can't clobber it
+  const dstDir = `opds-${uniqueId()}`;
+  await appService.createDir(dstDir, 'Cache', true);
+  let dstFilePath = await appService.resolveFilePath(`${dstDir}/${filename}`, 'Cache');
+
+  try {
+    const responseHeaders = await downloadFile({
+      appService,
+      dst: dstFilePath,
+      cfp: '',
+      url: downloadUrl,
+      headers,
+      singleThreaded: true,
+      skipSslVerification: true,
+      onProgress,
+      signal,
+    });
+    const probedFilename = await probeFilename(responseHeaders);
+    if (probedFilename) {
+      const newFilePath = await appService.resolveFilePath(`${dstDir}/${probedFilename}`, 'Cache');
+      await appService.copyFile(dstFilePath, newFilePath, 'None');
+      await appService.deleteFile(dstFilePath, 'None');
+      dstFilePath = newFilePath;
+    }
+
+    throwIfAborted(signal);
+    const book = await appService.importBook(dstFilePath, books);
+    if (!book) return null;
+    applyOPDSMetadata(book, options.metadata);
+    book.updatedAt = Date.now();
+    return book;
+  } finally {
+    await appService.deleteDir(dstDir, 'Cache', true).catch(() => {});
+  }
+};
@@ -0,0 +1,93 @@
+import { OPDSFeed, OPDSLink, OPDSPageStream, OPDSPublication, REL } from '@/types/opds';
+import { fetchWithAuth } from './opdsReq';
+
+const PSE_NS = 'http://vaemendis.net/opds-pse/ns';
+const PROGRESSION_MIME = 'application/vnd.readium.progression+json';
+
+const hasRel = (link: OPDSLink, rel: string) => [link.rel ?? ''].flat().includes(rel);
+
+const parsePageStream = (el: Element): OPDSPageStream | null => {
+  const count = parseInt(el.getAttributeNS(PSE_NS, 'count') ?? '', 10);
+  if (!count) return null;
+  const lastRead = parseInt(el.getAttributeNS(PSE_NS, 'lastRead') ?? '', 10);
+  return {
+    count,
+    lastRead: isNaN(lastRead) ? undefined : lastRead,
+    lastReadDate: el.getAttributeNS(PSE_NS, 'lastReadDate') ?? undefined,
+  };
+};
+
+/**
+ * The Atom parser drops attributes in foreign namespaces, so the `pse:count`
+ * and `pse:lastRead` attributes of the page streaming links are read from the
+ * document and attached to the matching links of the publications.
+ */
+export const applyPageStreams = (doc: Document, publications: OPDSPublication[]) => {
+  const streams = new Map<string, OPDSPageStream>();
+  for (const el of Array.from(doc.getElementsByTagNameNS('*', 'link'))) {
+    if (!(el.getAttribute('rel') ?? '').split(/ +/).includes(REL.PSE_STREAM)) continue;
+    const href = el.getAttribute('href');
+    const stream = parsePageStream(el);
+    if (href && stream) streams.set(href, stream);
+  }
+  if (streams.size === 0) return;
+  for (const publication of publications) {
+    for (const link of publication.links ?? []) {
+      const stream = hasRel(link, REL.PSE_STREAM) ? streams.get(link.href) : undefined;
+      if (stream) link.properties = { ...link.properties, pse: stream };
+    }
+  }
+};
+
+export const getFeedPublications = (feed: OPDSFeed) => [
+  ...(feed.publications ?? []),
+  ...(feed.groups?.flatMap((group) => group.publications ?? []) ?? []),
+];
+
+export const getPageStreamLink = (publication: OPDSPublication) =>
+  publication.links?.find((link) => hasRel(link, REL.PSE_STREAM) && link.properties?.pse?.count);
+
+// Page numbers in PSE links are zero based
+export const getPageStreamURL = (href: string, pageNumber: number, maxWidth?: number) =>
+  href
+    .replace(/\{pageNumber\}/g, `${pageNumber}`)
+    .replace(/\{maxWidth\}/g, maxWidth ? `${Math.round(maxWidth)}` : '');
+
+export const getProgressionLink = (publication: OPDSPublication) =>
+  publication.links?.find(
+    (link) => hasRel(link, REL.PROGRESSION) || link.type === PROGRESSION_MIME,
+  );
+
+/**
+ * Reports the reading position to servers exposing a Readium progression link.
+ * Servers implementing only PSE, e.g. Kavita, track the last page fetched instead.
+ */
+export const reportProgression = async (
+  url: string,
+  page: number,
+  total: number,
+  username?: string,
+  password?: string,
+  useProxy = false,
+) => {
+  const res = await fetchWithAuth(url, username, password, useProxy, {
+    method: 'PUT',
+    headers: { 'Content-Type': PROGRESSION_MIME },
+    body: JSON.stringify({
+      modified: new Date().toISOString(),
+      device: { id: 'readest', name: 'Readest' },
+      locator: {
+        href: `${page + 1}`,
+        type: 'image/jpeg',
+        locations: {
+          position: page + 1,
+          progression: 1,
+          totalProgression: total > 0 ? (page + 1) / total : 0,
+        },
+      },
+    }),
+  });
+  if (!res.ok) {
+    throw new Error(`Failed to report progression: ${res.status} ${res.statusText}`);
+  }
+};
@@ -1,5 +1,5 @@
 import { isOPDSCatalog } from 'foliate-js/opds.js';
-import { OPDSLink } from '@/types/opds';
+import { OPDSFeed, OPDSLink } from '@/types/opds';
 import { EXTS } from '@/libs/document';
 import { fetchWithAuth } from './opdsReq';
 
@@ -73,6 +73,30 @@ export const isSearchLink = (link: OPDSLink): boolean => {
   return rels.includes('search') && (link.type === MIME.OPENSEARCH || link.type === MIME.ATOM);
 };
 
+const OPENSEARCH_NS = 'http://a9.com/-/spec/opensearch/1.1/';
+
+// Reads the OpenSearch paging elements of an Atom feed into the OPDS 2.0 paging metadata
+export const getAtomPaging = (doc: Document): Partial<OPDSFeed['metadata']> => {
+  const getNumber = (name: string) => {
+    const value = parseInt(doc.getElementsByTagNameNS(OPENSEARCH_NS, name)[0]?.textContent ?? '');
+    return isNaN(value) ? undefined : value;
+  };
+  const numberOfItems = getNumber('totalResults');
+  const itemsPerPage = getNumber('itemsPerPage');
+  const startIndex = getNumber('startIndex');
+  return {
+    numberOfItems,
+    itemsPerPage,
+    currentPage:
+      itemsPerPage && startIndex !== undefined
+        ? Math.floor(Math.max(startIndex - 1, 0) / itemsPerPage) + 1
+        : undefined,
+  };
+};
+
+export const getNextPageLink = (feed: OPDSFeed) =>
+  feed.links?.find((link) => [link.rel ?? ''].flat().includes('next'));
+
 export const resolveURL = (url: string, relativeTo: string): string => {
   if (!url) return '';
   if (relativeTo.includes('/api/opds/proxy?url=')) {
@@ -1,4 +1,5 @@
 import React, { useEffect, useRef, useState, useCallback } from 'react';
+import { useSearchParams } from 'next/navigation';
 import { convertBlobUrlToDataUrl, BookDoc, getDirection } from '@/libs/document';
 import { BookConfig, PageInfo } from '@/types/book';
 import { FoliateView, wrappedFoliateView } from '@/types/view';
@@ -15,6 +16,7 @@ import { usePagination } from '../hooks/usePagination';
 import { useFoliateEvents } from '../hooks/useFoliateEvents';
 import { useProgressSync } from '../hooks/useProgressSync';
 import { useProgressAutoSave } from '../hooks/useProgressAutoSave';
+import { useReadingSession } from '../hooks/useReadingSession';
 import { useBackgroundTexture } from '@/hooks/useBackgroundTexture';
 import { useAutoFocus } from '@/hooks/useAutoFocus';
 import { useTranslation } from '@/hooks/useTranslation';
@@ -81,6 +83,7 @@ const FoliateViewer: React.FC<{
 }> = ({ bookKey, bookDoc, config, gridInsets, contentInsets: insets }) => {
   const _ = useTranslation();
   const { appService, envConfig } = useEnv();
+  const searchParams = useSearchParams();
   const { themeCode, isDarkMode } = useThemeStore();
   const { settings } = useSettingsStore();
   const { loadCustomFonts, getLoadedFonts } = useCustomFontStore();
@@ -118,6 +121,7 @@ const FoliateViewer: React.FC<{
   useUICSS(bookKey);
   useProgressSync(bookKey);
   useProgressAutoSave(bookKey);
+  useReadingSession(bookKey);
   useBookCoverAutoSave(bookKey);
   const { syncState, conflictDetails, resolveWithLocal, resolveWithRemote } = useKOSync(bookKey);
   useTextTranslation(bookKey, viewRef.current);
@@ -470,11 +474,17 @@ const FoliateViewer: React.FC<{
       }
       applyMarginAndGap();
 
-      const lastLocation = config.location;
+      // a location passed in the url, e.g. from a library search result, takes precedence
+      // for the book it was found in, not for the other books of a parallel view
+      const targetCfi =
+        searchParams?.get('book') === bookKey.split('-')[0] ? searchParams?.get('cfi') : null;
+      const lastLocation = targetCfi || config.location;
+      const [current = 0, total = 0] = config.progress ?? [];
       if (lastLocation) {
         await view.init({ lastLocation });
       } else {
-        await view.goToFraction(0);
+        // e.g. the progress merged from another copy of the book has no location in this file
+        await view.goToFraction(total > 0 ? Math.max(0, current - 1) / total : 0);
       }
       setViewInited(bookKey, true);
     };
@@ -4,7 +4,7 @@ import { RiDeleteBinLine } from 'react-icons/ri';
 import * as CFI from 'foliate-js/epubcfi.js';
 import { Overlayer } from 'foliate-js/overlayer.js';
 import { useEnv } from '@/context/EnvContext';
-import { BookNote, BooknoteGroup, HighlightColor, HighlightStyle } from '@/types/book';
+import { BookNote, BooknoteGroup, HighlightColor, HighlightStyle, VaultFlavor } from '@/types/book';
 import { NOTE_PREFIX } from '@/types/view';
 import { NativeTouchEventType } from '@/types/system';
 import { getLocale, getOSPlatform, makeSafeFilename, uniqueId } from '@/utils/misc';
@@ -13,7 +13,9 @@ import { useBookDataStore } from '@/store/bookDataStore';
 import { useSettingsStore } from '@/store/settingsStore';
 import { useReaderStore } from '@/store/readerStore';
 import { useNotebookStore } from '@/store/notebookStore';
+import { useVocabularyStore } from '@/store/vocabularyStore';
 import { useTranslation } from '@/hooks/useTranslation';
+import { useVocabularySync } from '@/hooks/useVocabularySync';
 import { useResponsiveSize } from '@/hooks/useResponsiveSize';
 import { useDeviceControlStore } from '@/store/deviceStore';
 import { useFoliateEvents } from '../../hooks/useFoliateEvents';
@@ -21,25 +23,37 @@ import { useNotesSync } from '../../hooks/useNotesSync';
 import { useReadwiseSync } from '../../hooks/useReadwiseSync';
 import { useTextSelector } from '../../hooks/useTextSelector';
 import { Position, TextSelection } from '@/utils/sel';
-import { getPopupPosition, getPosition, getTextFromRange } from '@/utils/sel';
+import { getPopupPosition, getPosition, getSentenceFromRange, getTextFromRange } from '@/utils/sel';
 import { eventDispatcher } from '@/utils/event';
 import { findTocItemBS } from '@/utils/toc';
 import { throttle } from '@/utils/throttle';
 import { runSimpleCC } from '@/utils/simplecc';
 import { getWordCount } from '@/utils/word';
 import { isCfiInLocation } from '@/utils/cfi';
+import { getBookISBNs } from '@/utils/duplicates';
+import {
+  buildVaultDocument,
+  findVaultPage,
+  getVaultNoteUpdates,
+  getVaultPageFilename,
+  parseVaultRegion,
+  renderVaultRegion,
+  VaultBookInfo,
+} from '@/utils/vault';
 import { TransformContext } from '@/services/transformers/types';
 import { transformContent } from '@/services/transformService';
 import { getHighlightColorHex } from '../../utils/annotatorUtil';
 import { annotationToolButtons } from './AnnotationTools';
 import AnnotationRangeEditor from './AnnotationRangeEditor';
 import AnnotationPopup from './AnnotationPopup';
-import WiktionaryPopup from './WiktionaryPopup';
+import DictionaryPopup from './DictionaryPopup';
 import WikipediaPopup from './WikipediaPopup';
 import TranslatorPopup from './TranslatorPopup';
 import useShortcuts from '@/hooks/useShortcuts';
 import ProofreadPopup from './ProofreadPopup';
 import ExportMarkdownDialog from './ExportMarkdownDialog';
+import { getBookSummaries } from '@/services/ai';
+import type { AISummary } from '@/services/ai/types';
 
 const Annotator: React.FC<{ bookKey: string }> = ({ bookKey }) => {
   const _ = useTranslation();
@@ -50,9 +64,11 @@ const Annotator: React.FC<{ bookKey: string }> = ({ bookKey }) => {
   const { getProgress, getView, getViewsById, getViewSettings } = useReaderStore();
   const { setNotebookVisible, setNotebookNewAnnotation } = useNotebookStore();
   const { listenToNativeTouchEvents } = useDeviceControlStore();
+  const { recordLookup } = useVocabularyStore();
 
   useNotesSync(bookKey);
   useReadwiseSync(bookKey);
+  useVocabularySync();
 
   const osPlatform = getOSPlatform();
   const config = getConfig(bookKey)!;
@@ -66,7 +82,7 @@ const Annotator: React.FC<{ bookKey: string }> = ({ bookKey }) => {
 
   const [selection, setSelection] = useState<TextSelection | null>(null);
   const [showAnnotPopup, setShowAnnotPopup] = useState(false);
-  const [showWiktionaryPopup, setShowWiktionaryPopup] = useState(false);
+  const [showDictionaryPopup, setShowDictionaryPopup] = useState(false);
   const [showWikipediaPopup, setShowWikipediaPopup] = useState(false);
   const [showDeepLPopup, setShowDeepLPopup] = useState(false);
   const [showProofreadPopup, setShowProofreadPopup] = useState(false);
@@ -83,6 +99,7 @@ const Annotator: React.FC<{ bookKey: string }> = ({ bookKey }) => {
   const [exportData, setExportData] = useState<{
     booknotes: BookNote[];
     booknoteGroups: { [href: string]: BooknoteGroup };
+    summaries: AISummary[];
   } | null>(null);
 
   const [selectedStyle, setSelectedStyle] = useState<HighlightStyle>(
@@ -95,7 +112,7 @@ const Annotator: React.FC<{ bookKey: string }> = ({ bookKey }) => {
 
   const showingPopup =
     showAnnotPopup ||
-    showWiktionaryPopup ||
+    showDictionaryPopup ||
     showWikipediaPopup ||
     showDeepLPopup ||
     showProofreadPopup;
@@ -195,7 +212,7 @@ const Annotator: React.FC<{ bookKey: string }> = ({ bookKey }) => {
     throttle(() => {
       setSelection(null);
       setShowAnnotPopup(false);
-      setShowWiktionaryPopup(false);
+      setShowDictionaryPopup(false);
       setShowWikipediaPopup(false);
       setShowDeepLPopup(false);
       setShowProofreadPopup(false);
@@ -285,7 +302,7 @@ const Annotator: React.FC<{ bookKey: string }> = ({ bookKey }) => {
               // Show translation popup preferentially for PDF right-click
               setShowAnnotPopup(false);
               setShowDeepLPopup(true);
-              setShowWiktionaryPopup(false);
+              setShowDictionaryPopup(false);
               setShowWikipediaPopup(false);
             }
           }
@@ -578,7 +595,7 @@ const Annotator: React.FC<{ bookKey: string }> = ({ bookKey }) => {
     }
     setShowAnnotPopup(true);
     setShowDeepLPopup(false);
-    setShowWiktionaryPopup(false);
+    setShowDictionaryPopup(false);
     setShowWikipediaPopup(false);
   };
 
@@ -710,7 +727,25 @@ const Annotator: React.FC<{ bookKey: string }> = ({ bookKey }) => {
   const handleDictionary = () => {
     if (!selection || !selection.text) return;
     setShowAnnotPopup(false);
-    setShowWiktionaryPopup(true);
+    setShowDictionaryPopup(true);
+  };
+
+  const handleDictionaryLookup = (lemma: string, definition?: string) => {
+    const { book } = bookData;
+    if (!selection || !selection.text || !book) return;
+    const cfi = view?.getCFI(selection.index, selection.range);
+    if (!cfi) return;
+    recordLookup(envConfig, {
+      bookHash: book.hash,
+      metaHash: book.metaHash,
+      bookTitle: book.title,
+      word: selection.text,
+      lemma,
+      context: getSentenceFromRange(selection.range),
+      cfi,
+      lang: primaryLang,
+      definition,
+    });
   };
 
   const handleWikipedia = () => {
@@ -798,7 +833,10 @@ const Annotator: React.FC<{ bookKey: string }> = ({ bookKey }) => {
     const config = getConfig(bookKey)!;
     const { booknotes: allNotes = [] } = config;
     const booknotes = allNotes.filter((note) => !note.deletedAt);
-    if (booknotes.length === 0) {
+    const summaries = settings.aiSettings?.enabled
+      ? await getBookSummaries(book.hash, settings.aiSettings).catch(() => [])
+      : [];
+    if (booknotes.length === 0 && summaries.length === 0) {
       eventDispatcher.dispatch('toast', {
         type: 'info',
         message: _('No annotations to export'),
@@ -827,7 +865,7 @@ const Annotator: React.FC<{ bookKey: string }> = ({ bookKey }) => {
       });
     });
 
-    setExportData({ booknotes, booknoteGroups });
+    setExportData({ booknotes, booknoteGroups, summaries });
     setShowExportDialog(true);
   };
 
@@ -852,6 +890,81 @@ const Annotator: React.FC<{ bookKey: string }> = ({ bookKey }) => {
     setExportData(null);
   };
 
+  const handleSyncVault = async (vaultPath: string, flavor: VaultFlavor) => {
+    const { book } = bookData;
+    const config = getConfig(bookKey);
+    if (!appService || !book || !config || !exportData) return;
+
+    const pageinfo = getProgress(bookKey)?.pageinfo;
+    const info: VaultBookInfo = {
+      id: book.hash,
+      title: book.title,
+      author: book.author,
+      isbn: getBookISBNs(book.metadata)[0],
+      tags: book.tags,
+      progress: pageinfo ? [pageinfo.current + 1, pageinfo.total] : book.progress,
+    };
+    try {
+      const page = await findVaultPage(appService, vaultPath, info);
+      const existing = page?.content ?? null;
+      const region = existing ? parseVaultRegion(existing, flavor) : null;
+      const { updates, conflicts } = region
+        ? getVaultNoteUpdates(config.booknotes ?? [], region)
+        : { updates: [], conflicts: [] };
+      const updated = new Map(updates.map((note) => [note.id, note]));
+      const booknoteGroups = Object.fromEntries(
+        Object.entries(exportData.booknoteGroups).map(([href, group]) => [
+          href,
+          { ...group, booknotes: group.booknotes.map((note) => updated.get(note.id) ?? note) },
+        ]),
+      );
+      if (updates.length > 0) {
+        const booknotes = (config.booknotes ?? []).map((note) => updated.get(note.id) ?? note);
+        const updatedConfig = updateBooknotes(bookKey, booknotes);
+        if (updatedConfig) {
+          saveConfig(envConfig, bookKey, updatedConfig, settings);
+        }
+        setExportData({
+          ...exportData,
+          booknotes: exportData.booknotes.map((note) => updated.get(note.id) ?? note),
+          booknoteGroups,
+        });
+      }
+
+      const groups = Object.values(booknoteGroups).sort((a, b) => a.id - b.id);
+      const content = buildVaultDocument(
+        existing,
+        info,
+        renderVaultRegion(groups, flavor, Date.now(), _('Untitled')),
+      );
+      const filePath = `${vaultPath}/${page?.path ?? getVaultPageFilename(info)}`;
+      await appService.writeFile(filePath, 'None', content);
+      if (conflicts.length > 0) {
+        eventDispatcher.dispatch('toast', {
+          type: 'warning',
+          message: _(
+            'Synced to vault, {{count}} note(s) were edited in both Readest and the vault, both versions were kept',
+            { count: conflicts.length },
+          ),
+        });
+      } else {
+        eventDispatcher.dispatch('toast', {
+          type: 'info',
+          message: updates.length
+            ? _('Synced to vault, {{count}} note(s) imported', { count: updates.length })
+            : _('Synced to vault'),
+          timeout: 2000,
+        });
+      }
+    } catch (error) {
+      console.error('Failed to sync annotations to vault:', error);
+      eventDispatcher.dispatch('toast', {
+        type: 'error',
+        message: _('Failed to sync to vault'),
+      });
+    }
+  };
+
   const handleCancelExport = () => {
     setShowExportDialog(false);
     setExportData(null);
@@ -910,8 +1023,8 @@ const Annotator: React.FC<{ bookKey: string }> = ({ bookKey }) => {
 
   return (
     <div ref={containerRef} role='toolbar' tabIndex={-1}>
-      {showWiktionaryPopup && trianglePosition && dictPopupPosition && (
-        <WiktionaryPopup
+      {showDictionaryPopup && trianglePosition && dictPopupPosition && (
+        <DictionaryPopup
           word={selection?.text as string}
           lang={bookData.bookDoc?.metadata.language as string}
           position={dictPopupPosition}
@@ -919,6 +1032,7 @@ const Annotator: React.FC<{ bookKey: string }> = ({ bookKey }) => {
           popupWidth={dictPopupWidth}
           popupHeight={dictPopupHeight}
           onDismiss={handleDismissPopupAndSelection}
+          onLookup={handleDictionaryLookup}
         />
       )}
       {showWikipediaPopup && trianglePosition && dictPopupPosition && (
@@ -991,8 +1105,10 @@ const Annotator: React.FC<{ bookKey: string }> = ({ bookKey }) => {
           bookAuthor={bookData.book.author || ''}
           booknotes={exportData.booknotes}
           booknoteGroups={exportData.booknoteGroups}
+          summaries={exportData.summaries}
           onCancel={handleCancelExport}
           onExport={handleConfirmExport}
+          onSyncVault={handleSyncVault}
         />
       )}
     </div>
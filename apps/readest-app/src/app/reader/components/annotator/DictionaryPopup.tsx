@@ -1,9 +1,26 @@
-import React, { useEffect, useRef, useState } from 'react';
+import clsx from 'clsx';
+import DOMPurify from 'dompurify';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import { MdArrowBack } from 'react-icons/md';
 import { Position } from '@/utils/sel';
+import { useEnv } from '@/context/EnvContext';
 import { useTranslation } from '@/hooks/useTranslation';
+import { useSettingsStore } from '@/store/settingsStore';
+import { DictionaryResult, lookupDictionaries } from '@/services/dictionaries';
+import { getPlainDefinition } from '@/utils/vocabulary';
 import Popup from '@/components/Popup';
 
+const WIKTIONARY_TAB = 'wiktionary';
+
+// links between entries of StarDict (bword://) and MDict (entry://) dictionaries
+const DICTIONARY_LINK_PATTERN = /^(?:bword|entry):\/\/(.+)$/;
+
+const sanitizeDefinition = (html: string) =>
+  DOMPurify.sanitize(html, {
+    FORBID_TAGS: ['style', 'link', 'script'],
+    ALLOWED_URI_REGEXP: /^(?:(?:https?|bword|entry|mailto):|[^a-z]|[a-z+.-]+(?:[^a-z+.\-:]|$))/i,
+  });
+
 type Definition = {
   definition: string;
   examples?: string[];
@@ -15,7 +32,7 @@ type Result = {
   language: string;
 };
 
-interface WiktionaryPopupProps {
+interface DictionaryPopupProps {
   word: string;
   lang?: string;
   position: Position;
@@ -23,9 +40,11 @@ interface WiktionaryPopupProps {
   popupWidth: number;
   popupHeight: number;
   onDismiss?: () => void;
+  // called with the dictionary form and a short definition of the selected word
+  onLookup?: (lemma: string, definition?: string) => void;
 }
 
-const WiktionaryPopup: React.FC<WiktionaryPopupProps> = ({
+const DictionaryPopup: React.FC<DictionaryPopupProps> = ({
   word,
   lang,
   position,
@@ -33,41 +52,51 @@ const WiktionaryPopup: React.FC<WiktionaryPopupProps> = ({
   popupWidth,
   popupHeight,
   onDismiss,
+  onLookup,
 }) => {
   const _ = useTranslation();
+  const { appService } = useEnv();
+  const { settings } = useSettingsStore();
+  const [results, setResults] = useState<DictionaryResult[] | null>(null);
+  const [activeTab, setActiveTab] = useState('');
   const [history, setHistory] = useState<{ items: string[]; index: number }>({
     items: [word],
     index: 0,
   });
+  const [historyWord, setHistoryWord] = useState(word);
   const lastLookupRef = useRef('');
   const mainRef = useRef<HTMLElement | null>(null);
   const footerRef = useRef<HTMLElement | null>(null);
+  const wiktionaryRef = useRef<HTMLDivElement | null>(null);
   const lastScrollTopRef = useRef(0);
   const lastDirectionRef = useRef<'up' | 'down' | null>(null);
   const scrollDeltaRef = useRef(0);
   const rafRef = useRef<number | null>(null);
-  const [isBackVisible, setIsBackVisible] = useState(false);
+  // the history entry whose back button was hidden by scrolling down
+  const [backHiddenFor, setBackHiddenFor] = useState<typeof history | null>(null);
+  // a new selection starts a new history
+  if (historyWord !== word) {
+    setHistoryWord(word);
+    setHistory({ items: [word], index: 0 });
+  }
   const lookupWord = history.items[history.index] ?? word;
   const canGoBack = history.index > 0;
-  const showBackButton = canGoBack && isBackVisible;
-
-  useEffect(() => {
-    setHistory({ items: [word], index: 0 });
-  }, [word]);
+  const showBackButton = canGoBack && backHiddenFor !== history;
+  const dictionaries = useMemo(
+    () => (settings.dictionaries || []).filter((dictionary) => dictionary.enabled),
+    [settings.dictionaries],
+  );
+  const onlineFallback = settings.dictionaryOnlineFallback;
+  const langCode = typeof lang === 'string' ? lang : lang?.[0];
+  const activeResult = results?.find((result) => result.dictionaryId === activeTab);
 
   useEffect(() => {
     if (!canGoBack) {
-      setIsBackVisible(false);
       lastScrollTopRef.current = 0;
       lastDirectionRef.current = null;
       scrollDeltaRef.current = 0;
       return;
     }
-    setIsBackVisible(true);
-  }, [canGoBack]);
-
-  useEffect(() => {
-    if (!canGoBack) return;
     const main = mainRef.current;
     if (!main) return;
 
@@ -80,7 +109,7 @@ const WiktionaryPopup: React.FC<WiktionaryPopupProps> = ({
         if (delta === 0) return;
 
         if (currentScrollTop <= 4) {
-          setIsBackVisible(true);
+          setBackHiddenFor(null);
           lastDirectionRef.current = null;
           scrollDeltaRef.current = 0;
           lastScrollTopRef.current = currentScrollTop;
@@ -98,10 +127,10 @@ const WiktionaryPopup: React.FC<WiktionaryPopupProps> = ({
         const showThreshold = 8;
 
         if (direction === 'down' && scrollDeltaRef.current >= hideThreshold) {
-          setIsBackVisible(false);
+          setBackHiddenFor(history);
           scrollDeltaRef.current = 0;
         } else if (direction === 'up' && scrollDeltaRef.current >= showThreshold) {
-          setIsBackVisible(true);
+          setBackHiddenFor(null);
           scrollDeltaRef.current = 0;
         }
 
@@ -118,10 +147,9 @@ const WiktionaryPopup: React.FC<WiktionaryPopupProps> = ({
         rafRef.current = null;
       }
     };
-  }, [canGoBack]);
+  }, [canGoBack, history]);
 
   useEffect(() => {
-    setIsBackVisible(true);
     lastScrollTopRef.current = 0;
     lastDirectionRef.current = null;
     scrollDeltaRef.current = 0;
@@ -148,6 +176,42 @@ const WiktionaryPopup: React.FC<WiktionaryPopupProps> = ({
     });
   };
 
+  useEffect(() => {
+    let cancelled = false;
+    const lookup = async () => {
+      setResults(null);
+      const results =
+        appService && dictionaries.length > 0
+          ? await lookupDictionaries(appService, dictionaries, lookupWord, langCode)
+          : [];
+      if (cancelled) return;
+      setResults(results);
+      setActiveTab(results[0]?.dictionaryId ?? (onlineFallback ? WIKTIONARY_TAB : ''));
+    };
+    lookup();
+    return () => {
+      cancelled = true;
+    };
+  }, [appService, dictionaries, onlineFallback, lookupWord, langCode]);
+
+  useEffect(() => {
+    if (!results || history.index !== 0) return;
+    const [result] = results;
+    const entry = result?.entries[0];
+    onLookup?.(result?.word ?? word, entry && getPlainDefinition(entry.definition, entry.html));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [results]);
+
+  const handleDefinitionClick = (event: React.MouseEvent<HTMLElement>) => {
+    const link = (event.target as HTMLElement).closest('a');
+    if (!link) return;
+    const match = DICTIONARY_LINK_PATTERN.exec(link.getAttribute('href') || '');
+    if (match) {
+      event.preventDefault();
+      pushHistory(decodeURIComponent(match[1]!));
+    }
+  };
+
   const interceptDictLinks = (definition: string): HTMLElement[] => {
     const container = document.createElement('div');
     container.innerHTML = definition;
@@ -170,11 +234,14 @@ const WiktionaryPopup: React.FC<WiktionaryPopupProps> = ({
   };
 
   useEffect(() => {
-    const langCode = typeof lang === 'string' ? lang : lang?.[0];
+    if (activeTab !== WIKTIONARY_TAB) {
+      lastLookupRef.current = '';
+      return;
+    }
     const lookupKey = `${lookupWord}::${langCode || ''}`;
     if (lastLookupRef.current === lookupKey) return;
     lastLookupRef.current = lookupKey;
-    const main = mainRef.current;
+    const main = wiktionaryRef.current;
     const footer = footerRef.current;
     if (!main || !footer) return;
 
@@ -244,6 +311,10 @@ const WiktionaryPopup: React.FC<WiktionaryPopupProps> = ({
           main.appendChild(ol);
         });
 
+        const firstDefinition = results[0]!.definitions.find((d) => d.definition)?.definition;
+        if (history.index === 0 && firstDefinition) {
+          onLookup?.(word, getPlainDefinition(firstDefinition, true));
+        }
         footer.dataset['state'] = 'loaded';
       } catch (error) {
         console.error(error);
@@ -271,7 +342,34 @@ const WiktionaryPopup: React.FC<WiktionaryPopupProps> = ({
 
     fetchDefinitions(lookupWord, langCode);
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [_, lookupWord, lang]);
+  }, [_, activeTab, lookupWord, langCode]);
+
+  const renderResult = (result: DictionaryResult) => (
+    // eslint-disable-next-line jsx-a11y/click-events-have-key-events, jsx-a11y/no-static-element-interactions
+    <div onClick={handleDefinitionClick}>
+      <h1 className='text-lg font-bold'>{result.word}</h1>
+      {result.entries.map((entry, index) => (
+        <div key={index} className='mt-3'>
+          {entry.headword.toLowerCase() !== result.word.toLowerCase() && (
+            <h2 className='text-base font-semibold'>{entry.headword}</h2>
+          )}
+          {entry.html ? (
+            <div
+              className='dictionary-definition [&_a]:not-eink:text-primary [&_a]:underline'
+              dangerouslySetInnerHTML={{ __html: sanitizeDefinition(entry.definition) }}
+            />
+          ) : (
+            <p className='whitespace-pre-wrap'>{entry.definition}</p>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+
+  const tabs = [
+    ...(results ?? []).map((result) => ({ id: result.dictionaryId, label: result.name })),
+    ...(onlineFallback && results ? [{ id: WIKTIONARY_TAB, label: 'Wiktionary' }] : []),
+  ];
 
   return (
     <div>
@@ -305,19 +403,67 @@ const WiktionaryPopup: React.FC<WiktionaryPopupProps> = ({
               paddingTop: showBackButton ? 48 : 16,
               transition: 'padding-top 180ms ease-out',
             }}
-          />
-          <footer
-            ref={footerRef}
-            className='mt-auto hidden data-[state=loaded]:block data-[state=error]:hidden data-[state=loading]:hidden'
           >
-            <div className='not-eink:opacity-60 flex items-center px-4 py-2 text-sm'>
-              Source: Wiktionary (CC BY-SA)
+            {results === null && (
+              <div className='flex h-full items-center justify-center'>
+                <span className='loading loading-dots loading-md' />
+              </div>
+            )}
+            {activeResult && renderResult(activeResult)}
+            {activeTab === WIKTIONARY_TAB && <div ref={wiktionaryRef} />}
+            {results && !activeResult && activeTab !== WIKTIONARY_TAB && (
+              <div className='flex h-full flex-col items-center justify-center text-center'>
+                <h1 className='text-lg font-bold'>{lookupWord}</h1>
+                <p className='not-eink:opacity-75 text-sm'>
+                  {_('No definitions found in the offline dictionaries.')}
+                </p>
+              </div>
+            )}
+          </main>
+          {tabs.length > 1 && (
+            <div
+              role='tablist'
+              className='border-base-200 flex gap-1 overflow-x-auto border-t px-2 py-1'
+            >
+              {tabs.map((tab) => (
+                <button
+                  key={tab.id}
+                  type='button'
+                  role='tab'
+                  aria-selected={tab.id === activeTab}
+                  className={clsx(
+                    'btn btn-ghost btn-xs shrink-0 font-normal',
+                    tab.id === activeTab && 'btn-active font-semibold',
+                  )}
+                  onClick={() => setActiveTab(tab.id)}
+                >
+                  {tab.label}
+                </button>
+              ))}
             </div>
-          </footer>
+          )}
+          {activeTab === WIKTIONARY_TAB ? (
+            <footer
+              ref={footerRef}
+              className='mt-auto hidden data-[state=loaded]:block data-[state=error]:hidden data-[state=loading]:hidden'
+            >
+              <div className='not-eink:opacity-60 flex items-center px-4 py-2 text-sm'>
+                Source: Wiktionary (CC BY-SA)
+              </div>
+            </footer>
+          ) : (
+            activeResult && (
+              <footer className='mt-auto'>
+                <div className='not-eink:opacity-60 flex items-center px-4 py-2 text-sm'>
+                  {_('Source: {{name}}', { name: activeResult.name })}
+                </div>
+              </footer>
+            )
+          )}
         </div>
       </Popup>
     </div>
   );
 };
 
-export default WiktionaryPopup;
+export default DictionaryPopup;
@@ -4,10 +4,14 @@ import { marked } from 'marked';
 import { useEnv } from '@/context/EnvContext';
 import { useTranslation } from '@/hooks/useTranslation';
 import { useReaderStore } from '@/store/readerStore';
-import { BookNote, BooknoteGroup, NoteExportConfig } from '@/types/book';
+import { BookNote, BooknoteGroup, NoteExportConfig, VaultFlavor } from '@/types/book';
 import { DEFAULT_NOTE_EXPORT_CONFIG } from '@/services/constants';
+import { isTauriAppPlatform } from '@/services/environment';
 import { saveViewSettings } from '@/helpers/settings';
 import { renderNoteTemplate } from '@/utils/note';
+import { requestStoragePermission } from '@/utils/permission';
+import { selectDirectory } from '@/utils/bridge';
+import type { AISummary } from '@/services/ai/types';
 import Dialog from '@/components/Dialog';
 
 interface ExportMarkdownDialogProps {
@@ -17,8 +21,10 @@ interface ExportMarkdownDialogProps {
   bookAuthor: string;
   booknotes: BookNote[];
   booknoteGroups: { [href: string]: BooknoteGroup };
+  summaries: AISummary[];
   onCancel: () => void;
   onExport: (markdown: string) => void;
+  onSyncVault: (vaultPath: string, flavor: VaultFlavor) => Promise<void>;
 }
 
 const ExportMarkdownDialog: React.FC<ExportMarkdownDialogProps> = ({
@@ -28,11 +34,13 @@ const ExportMarkdownDialog: React.FC<ExportMarkdownDialogProps> = ({
   bookAuthor,
   booknotes,
   booknoteGroups,
+  summaries,
   onCancel,
   onExport,
+  onSyncVault,
 }) => {
   const _ = useTranslation();
-  const { envConfig } = useEnv();
+  const { envConfig, appService } = useEnv();
   const { getViewSettings } = useReaderStore();
   const viewSettings = getViewSettings(bookKey);
 
@@ -70,8 +78,21 @@ const ExportMarkdownDialog: React.FC<ExportMarkdownDialogProps> = ({
 ---
 {% endfor %}`;
 
+  const { recap, chapterSummaries } = useMemo(
+    () => ({
+      recap: summaries.find((summary) => summary.kind === 'recap'),
+      chapterSummaries: summaries
+        .filter((summary) => summary.kind === 'chapter')
+        .sort((a, b) => a.sectionIndex - b.sectionIndex),
+    }),
+    [summaries],
+  );
+
   const [exportConfig, setExportConfig] = useState<NoteExportConfig>(() => {
-    const noteExportConfig = viewSettings?.noteExportConfig || DEFAULT_NOTE_EXPORT_CONFIG;
+    const noteExportConfig = {
+      ...DEFAULT_NOTE_EXPORT_CONFIG,
+      ...viewSettings?.noteExportConfig,
+    };
     if (!noteExportConfig.customTemplate) {
       return {
         ...noteExportConfig,
@@ -83,6 +104,7 @@ const ExportMarkdownDialog: React.FC<ExportMarkdownDialogProps> = ({
 
   const [showSource, setShowSource] = useState(false);
   const [showAdvanced, setShowAdvanced] = useState(false);
+  const [isSyncingVault, setIsSyncingVault] = useState(false);
 
   useEffect(() => {
     const customTemplate = exportConfig.customTemplate;
@@ -119,6 +141,13 @@ const ExportMarkdownDialog: React.FC<ExportMarkdownDialogProps> = ({
         title: bookTitle,
         author: bookAuthor,
         exportDate: new Date().getTime(),
+        recap: exportConfig.includeSummaries ? recap?.text || '' : '',
+        summaries: exportConfig.includeSummaries
+          ? chapterSummaries.map((summary) => ({
+              title: summary.chapterTitle,
+              text: summary.text,
+            }))
+          : [],
         chapters: sortedGroups.map((group) => ({
           title: group.label || _('Untitled'),
           annotations: group.booknotes.map((note) => ({
@@ -162,8 +191,27 @@ const ExportMarkdownDialog: React.FC<ExportMarkdownDialogProps> = ({
         lines.push('');
       }
 
-      lines.push(`## ${_('Highlights & Annotations')}`);
-      lines.push('');
+      if (exportConfig.includeSummaries && recap) {
+        lines.push(`## ${_('Story So Far')}`);
+        lines.push('');
+        lines.push(recap.text);
+        lines.push('');
+      }
+
+      if (exportConfig.includeSummaries && chapterSummaries.length > 0) {
+        lines.push(`## ${_('Chapter Summaries')}`);
+        lines.push('');
+        for (const summary of chapterSummaries) {
+          lines.push(`### ${summary.chapterTitle || _('Untitled')}`);
+          lines.push(summary.text);
+          lines.push('');
+        }
+      }
+
+      if (sortedGroups.length > 0) {
+        lines.push(`## ${_('Highlights & Annotations')}`);
+        lines.push('');
+      }
 
       for (const group of sortedGroups) {
         // Add chapter title
@@ -217,7 +265,7 @@ const ExportMarkdownDialog: React.FC<ExportMarkdownDialogProps> = ({
     }
 
     return output;
-  }, [exportConfig, booknoteGroups, bookTitle, bookAuthor, _]);
+  }, [exportConfig, booknoteGroups, recap, chapterSummaries, bookTitle, bookAuthor, _]);
 
   // Convert markdown to HTML for preview
   const htmlPreview = useMemo(() => {
@@ -236,6 +284,27 @@ const ExportMarkdownDialog: React.FC<ExportMarkdownDialogProps> = ({
     onExport(markdownPreview);
   };
 
+  const handleSelectVault = async () => {
+    if (!appService) return;
+    let path: string | undefined = '';
+    if (appService.isAndroidApp) {
+      if (!(await requestStoragePermission())) return;
+      path = (await selectDirectory()).path;
+    } else {
+      path = await appService.selectDirectory('write');
+    }
+    if (path) setExportConfig({ ...exportConfig, vaultPath: path });
+  };
+
+  const handleSyncVault = async () => {
+    setIsSyncingVault(true);
+    try {
+      await onSyncVault(exportConfig.vaultPath, exportConfig.vaultFlavor);
+    } finally {
+      setIsSyncingVault(false);
+    }
+  };
+
   return (
     <Dialog
       isOpen={isOpen}
@@ -353,6 +422,19 @@ const ExportMarkdownDialog: React.FC<ExportMarkdownDialogProps> = ({
               />
               <span className='text-sm'>{_('Note Date')}</span>
             </label>
+
+            {summaries.length > 0 && (
+              <label className='flex cursor-pointer items-center gap-2'>
+                <input
+                  type='checkbox'
+                  checked={exportConfig.includeSummaries}
+                  onChange={() => handleToggle('includeSummaries')}
+                  className='checkbox checkbox-sm'
+                  disabled={exportConfig.useCustomTemplate}
+                />
+                <span className='text-sm'>{_('AI Summaries')}</span>
+              </label>
+            )}
           </div>
         </div>
 
@@ -454,6 +536,14 @@ const ExportMarkdownDialog: React.FC<ExportMarkdownDialogProps> = ({
                           <code className='bg-base-300 rounded px-1'>exportDate</code> -{' '}
                           {_('Export date')}
                         </li>
+                        <li>
+                          <code className='bg-base-300 rounded px-1'>recap</code> -{' '}
+                          {_('AI recap of the story so far')}
+                        </li>
+                        <li>
+                          <code className='bg-base-300 rounded px-1'>summaries</code> -{' '}
+                          {_('Array of AI chapter summaries with title and text')}
+                        </li>
                         <li>
                           <code className='bg-base-300 rounded px-1'>chapters</code> -{' '}
                           {_('Array of chapters')}
@@ -526,6 +616,51 @@ const ExportMarkdownDialog: React.FC<ExportMarkdownDialogProps> = ({
           )}
         </div>
 
+        {/* Vault Sync */}
+        {isTauriAppPlatform() && (
+          <div className='space-y-3'>
+            <h3 className='font-bold'>{_('Vault Sync')}</h3>
+            <p className='text-base-content/70 text-xs'>
+              {_(
+                'Keep a page per book in your notes vault. Only the highlights section is rewritten, and notes edited in the vault are imported back.',
+              )}
+            </p>
+            <div className='flex flex-col gap-2 sm:flex-row sm:items-center'>
+              <select
+                value={exportConfig.vaultFlavor}
+                onChange={(e) =>
+                  setExportConfig({ ...exportConfig, vaultFlavor: e.target.value as VaultFlavor })
+                }
+                className='select select-bordered select-sm'
+                aria-label={_('Vault Format')}
+              >
+                <option value='obsidian'>Obsidian</option>
+                <option value='logseq'>Logseq</option>
+              </select>
+              <p
+                className='bg-base-200 min-w-0 flex-1 truncate rounded-lg px-3 py-1 text-xs'
+                title={exportConfig.vaultPath}
+              >
+                {exportConfig.vaultPath || _('No folder selected')}
+              </p>
+              <button onClick={handleSelectVault} className='btn btn-outline btn-sm'>
+                {_('Choose Folder')}
+              </button>
+              <button
+                onClick={handleSyncVault}
+                className='btn btn-primary btn-sm'
+                disabled={!exportConfig.vaultPath || booknotes.length === 0 || isSyncingVault}
+              >
+                {isSyncingVault ? (
+                  <span className='loading loading-spinner loading-xs'></span>
+                ) : (
+                  _('Sync to Vault')
+                )}
+              </button>
+            </div>
+          </div>
+        )}
+
         {/* Preview */}
         <div className='space-y-2'>
           <div className='flex items-center justify-between'>
@@ -17,6 +17,7 @@ import { useAIChatStore } from '@/store/aiChatStore';
 import {
   indexBook,
   isBookIndexed,
+  getIndexMeta,
   aiStore,
   aiLogger,
   createTauriAdapter,
@@ -29,6 +30,7 @@ import { useEnv } from '@/context/EnvContext';
 import { Button } from '@/components/ui/button';
 import { Loader2Icon, BookOpenIcon } from 'lucide-react';
 import { Thread } from '@/components/assistant/Thread';
+import AIRecap from './AIRecap';
 
 // Helper function to convert AIMessage array to ExportedMessageRepository format
 // Each message needs to be wrapped with { message, parentId } structure
@@ -245,6 +247,8 @@ const AIAssistant = ({ bookKey }: AIAssistantProps) => {
   const [isIndexing, setIsIndexing] = useState(false);
   const [indexProgress, setIndexProgress] = useState<EmbeddingProgress | null>(null);
   const [indexed, setIndexed] = useState(false);
+  const [isPartiallyIndexed, setIsPartiallyIndexed] = useState(false);
+  const indexAbortRef = useRef<AbortController | null>(null);
 
   const bookHash = bookKey.split('-')[0] || '';
   const bookTitle = bookData?.book?.title || 'Unknown';
@@ -255,17 +259,21 @@ const AIAssistant = ({ bookKey }: AIAssistantProps) => {
   // check if book is indexed on mount
   useEffect(() => {
     if (bookHash) {
-      isBookIndexed(bookHash).then((result) => {
+      Promise.all([isBookIndexed(bookHash), getIndexMeta(bookHash)]).then(([result, meta]) => {
         setIndexed(result);
+        setIsPartiallyIndexed(meta?.complete === false);
         setIsLoading(false);
       });
     } else {
       setIsLoading(false);
     }
+    return () => indexAbortRef.current?.abort();
   }, [bookHash]);
 
   const handleIndex = useCallback(async () => {
     if (!bookData?.bookDoc || !aiSettings) return;
+    const controller = new AbortController();
+    indexAbortRef.current = controller;
     setIsIndexing(true);
     try {
       await indexBook(
@@ -273,21 +281,31 @@ const AIAssistant = ({ bookKey }: AIAssistantProps) => {
         bookHash,
         aiSettings,
         setIndexProgress,
+        controller.signal,
       );
       setIndexed(true);
     } catch (e) {
-      aiLogger.rag.indexError(bookHash, (e as Error).message);
+      if ((e as Error).name !== 'AbortError') {
+        aiLogger.rag.indexError(bookHash, (e as Error).message);
+      }
+      // whatever was embedded so far is kept for resuming
+      setIsPartiallyIndexed((await getIndexMeta(bookHash))?.complete === false);
     } finally {
       setIsIndexing(false);
       setIndexProgress(null);
     }
   }, [bookData?.bookDoc, bookHash, aiSettings]);
 
+  const handleCancelIndex = useCallback(() => {
+    indexAbortRef.current?.abort();
+  }, []);
+
   const handleResetIndex = useCallback(async () => {
     if (!appService) return;
     if (!(await appService.ask(_('Are you sure you want to re-index this book?')))) return;
     await aiStore.clearBook(bookHash);
     setIndexed(false);
+    setIsPartiallyIndexed(false);
   }, [bookHash, appService, _]);
 
   if (!aiSettings?.enabled) {
@@ -317,12 +335,14 @@ const AIAssistant = ({ bookKey }: AIAssistantProps) => {
         <div>
           <h3 className='text-foreground mb-0.5 text-sm font-medium'>{_('Index This Book')}</h3>
           <p className='text-muted-foreground text-xs'>
-            {_('Enable AI search and chat for this book')}
+            {isPartiallyIndexed
+              ? _('Indexing was interrupted and can continue where it stopped')
+              : _('Enable AI search and chat for this book')}
           </p>
         </div>
         <Button onClick={handleIndex} size='sm' className='h-8 text-xs'>
           <BookOpenIcon className='mr-1.5 size-3.5' />
-          {_('Start Indexing')}
+          {isPartiallyIndexed ? _('Resume Indexing') : _('Start Indexing')}
         </Button>
       </div>
     );
@@ -346,19 +366,33 @@ const AIAssistant = ({ bookKey }: AIAssistantProps) => {
             style={{ width: `${progressPercent}%` }}
           />
         </div>
+        <Button onClick={handleCancelIndex} size='sm' variant='ghost' className='h-7 text-xs'>
+          {_('Cancel')}
+        </Button>
       </div>
     );
   }
 
   return (
-    <AIAssistantChat
-      aiSettings={aiSettings}
-      bookHash={bookHash}
-      bookTitle={bookTitle}
-      authorName={authorName}
-      currentPage={currentPage}
-      onResetIndex={handleResetIndex}
-    />
+    <div className='flex h-full flex-col'>
+      <AIRecap
+        aiSettings={aiSettings}
+        bookHash={bookHash}
+        bookTitle={bookTitle}
+        authorName={authorName}
+        currentPage={currentPage}
+      />
+      <div className='min-h-0 flex-1'>
+        <AIAssistantChat
+          aiSettings={aiSettings}
+          bookHash={bookHash}
+          bookTitle={bookTitle}
+          authorName={authorName}
+          currentPage={currentPage}
+          onResetIndex={handleResetIndex}
+        />
+      </div>
+    </div>
   );
 };
 
@@ -0,0 +1,115 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { HistoryIcon, Loader2Icon, XIcon } from 'lucide-react';
+
+import { useTranslation } from '@/hooks/useTranslation';
+import { getBookSummaries, recapStory } from '@/services/ai';
+import type { AISettings, AISummary } from '@/services/ai/types';
+import { Button } from '@/components/ui/button';
+
+interface AIRecapProps {
+  aiSettings: AISettings;
+  bookHash: string;
+  bookTitle: string;
+  authorName: string;
+  currentPage: number;
+}
+
+const AIRecap = ({ aiSettings, bookHash, bookTitle, authorName, currentPage }: AIRecapProps) => {
+  const _ = useTranslation();
+  const [recap, setRecap] = useState<AISummary | null>(null);
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [error, setError] = useState('');
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    getBookSummaries(bookHash, aiSettings).then((summaries) => {
+      setRecap(summaries.find((s) => s.kind === 'recap') ?? null);
+    });
+    return () => abortRef.current?.abort();
+  }, [bookHash, aiSettings]);
+
+  const handleRecap = async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsGenerating(true);
+    setIsExpanded(true);
+    setError('');
+    try {
+      const summary = await recapStory(
+        { bookHash, bookTitle, authorName },
+        aiSettings,
+        currentPage,
+        controller.signal,
+      );
+      if (summary) {
+        setRecap(summary);
+      } else {
+        setError(_('Nothing to recap yet'));
+      }
+    } catch (e) {
+      if ((e as Error).name !== 'AbortError') {
+        setError(_('Failed to generate recap'));
+      }
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const isOutdated = recap && recap.maxPage !== currentPage;
+
+  return (
+    <div className='border-base-300 mx-3 mt-2 border-b pb-2'>
+      <div className='flex items-center justify-between gap-2'>
+        <Button
+          onClick={recap && !isOutdated && !isExpanded ? () => setIsExpanded(true) : handleRecap}
+          disabled={isGenerating}
+          size='sm'
+          variant='ghost'
+          className='h-7 px-2 text-xs'
+        >
+          {isGenerating ? (
+            <Loader2Icon className='mr-1.5 size-3.5 animate-spin' />
+          ) : (
+            <HistoryIcon className='mr-1.5 size-3.5' />
+          )}
+          {_('Recap up to here')}
+        </Button>
+        {isExpanded && (
+          <button
+            type='button'
+            onClick={() => setIsExpanded(false)}
+            className='text-base-content/60 hover:text-base-content'
+            aria-label={_('Close')}
+          >
+            <XIcon className='size-3.5' />
+          </button>
+        )}
+      </div>
+      {isExpanded && (error || recap) && (
+        <div className='max-h-48 overflow-y-auto px-2 pt-1'>
+          {error ? (
+            <p className='text-error text-xs'>{error}</p>
+          ) : (
+            recap && (
+              <>
+                <p className='text-base-content/80 whitespace-pre-wrap text-xs leading-relaxed'>
+                  {recap.text}
+                </p>
+                {isOutdated && !isGenerating && (
+                  <p className='text-base-content/50 mt-1 text-[10px]'>
+                    {_('Recap of page {{page}}', { page: recap.maxPage })}
+                  </p>
+                )}
+              </>
+            )
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AIRecap;
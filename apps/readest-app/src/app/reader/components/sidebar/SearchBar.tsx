@@ -16,6 +16,9 @@ import { useResponsiveSize } from '@/hooks/useResponsiveSize';
 import { debounce } from '@/utils/debounce';
 import { isCJKStr } from '@/utils/lang';
 import { createRejectFilter } from '@/utils/node';
+import { eventDispatcher } from '@/utils/event';
+import { searchBookDocument } from '@/services/search';
+import { touchConfigFields } from '@/utils/merge';
 import Dropdown from '@/components/Dropdown';
 import SearchOptions from './SearchOptions';
 
@@ -94,6 +97,7 @@ const SearchBar: React.FC<SearchBarProps> = ({ isVisible, bookKey, onHideSearchB
   const getSearchCacheKey = useCallback((term: string, config: BookSearchConfig) => {
     const configStr = JSON.stringify({
       scope: config.scope,
+      mode: config.mode,
       matchCase: config.matchCase,
       matchWholeWords: config.matchWholeWords,
       matchDiacritics: config.matchDiacritics,
@@ -208,7 +212,10 @@ const SearchBar: React.FC<SearchBarProps> = ({ isVisible, bookKey, onHideSearchB
   };
 
   const handleSearchConfigChange = (searchConfig: BookSearchConfig) => {
-    setConfig(bookKey, { searchConfig: { ...searchConfig } });
+    setConfig(bookKey, {
+      searchConfig: { ...searchConfig },
+      fieldsUpdatedAt: touchConfigFields(getConfig(bookKey), ['searchConfig']),
+    });
     saveConfig(envConfig, bookKey, config, settings);
     handleSearchTermChange(searchTerm);
   };
@@ -241,14 +248,49 @@ const SearchBar: React.FC<SearchBarProps> = ({ isVisible, bookKey, onHideSearchB
 
       const { section } = progress;
       const index = searchConfig.scope === 'section' ? section.current : undefined;
+      const acceptNode = createRejectFilter({
+        tags: primaryLang.startsWith('ja') ? ['rt'] : [],
+      });
+
+      // the renderer only matches plain text, other modes are matched here and
+      // handed to the renderer as pre-cached results to be highlighted
+      let matchedResults = cachedResults;
+      if (!matchedResults && searchConfig.mode !== 'text') {
+        try {
+          matchedResults = await searchBookDocument(bookData.bookDoc!, term, searchConfig, {
+            index,
+            acceptNode,
+            onProgress: (progress) => setSearchProgress(bookKey, progress),
+            isCancelled: () =>
+              queuedSearchTerm.current !== term || getSearchStatus(bookKey) === 'terminated',
+          });
+        } catch (error) {
+          if (!(error instanceof SyntaxError)) throw error;
+          eventDispatcher.dispatch('toast', {
+            type: 'error',
+            message: _('Invalid regular expression'),
+          });
+          view.clearSearch();
+          setSearchResults(bookKey, []);
+          setSearchStatus(bookKey, 'completed');
+          setSearchProgress(bookKey, 1);
+          return;
+        }
+        if (!matchedResults) return;
+        if (matchedResults.length === 0) {
+          setSearchResults(bookKey, []);
+          setSearchStatus(bookKey, 'completed');
+          setSearchProgress(bookKey, 1);
+          return;
+        }
+      }
+
       const generator = await view.search({
         ...searchConfig,
         index,
         query: term,
-        acceptNode: createRejectFilter({
-          tags: primaryLang.startsWith('ja') ? ['rt'] : [],
-        }),
-        results: cachedResults,
+        acceptNode,
+        results: matchedResults,
       });
       const results: BookSearchResult[] = [];
       let lastProgressLogTime = 0;
@@ -65,6 +65,22 @@ const SearchOptions: React.FC<SearchOptionsProps> = ({
         onClick={() => updateConfig('scope', 'section')}
       />
       <hr aria-hidden='true' className='border-base-200 my-1' />
+      <Option
+        label={_('Plain Text')}
+        isActive={searchConfig.mode === 'text'}
+        onClick={() => updateConfig('mode', 'text')}
+      />
+      <Option
+        label={_('Regular Expression')}
+        isActive={searchConfig.mode === 'regex'}
+        onClick={() => updateConfig('mode', 'regex')}
+      />
+      <Option
+        label={_('Fuzzy Match')}
+        isActive={searchConfig.mode === 'fuzzy'}
+        onClick={() => updateConfig('mode', 'fuzzy')}
+      />
+      <hr aria-hidden='true' className='border-base-200 my-1' />
       <Option
         label={_('Match Case')}
         isActive={searchConfig.matchCase}
@@ -1,8 +1,10 @@
 import clsx from 'clsx';
 import React, { useCallback } from 'react';
 import { ListChildComponentProps } from 'react-window';
+import { PiSparkle } from 'react-icons/pi';
 import { TOCItem } from '@/libs/document';
 import { getContentMd5 } from '@/utils/misc';
+import { useTranslation } from '@/hooks/useTranslation';
 
 const createExpanderIcon = (isExpanded: boolean) => {
   return (
@@ -36,7 +38,9 @@ const TOCItemView = React.memo<{
   isActive: boolean;
   onToggleExpand: (item: TOCItem) => void;
   onItemClick: (item: TOCItem) => void;
-}>(({ flatItem, itemSize, isActive, onToggleExpand, onItemClick }) => {
+  onSummaryClick?: (item: TOCItem) => void;
+}>(({ flatItem, itemSize, isActive, onToggleExpand, onItemClick, onSummaryClick }) => {
+  const _ = useTranslation();
   const { item, depth } = flatItem;
 
   const handleToggleExpand = useCallback(
@@ -48,6 +52,15 @@ const TOCItemView = React.memo<{
     [item, onToggleExpand],
   );
 
+  const handleClickSummary = useCallback(
+    (event: React.MouseEvent) => {
+      event.preventDefault();
+      event.stopPropagation();
+      onSummaryClick?.(item);
+    },
+    [item, onSummaryClick],
+  );
+
   const handleClickItem = useCallback(
     (event: React.MouseEvent | React.KeyboardEvent) => {
       event.preventDefault();
@@ -101,6 +114,17 @@ const TOCItemView = React.memo<{
       >
         {item.label}
       </div>
+      {onSummaryClick && item.href && (
+        <button
+          onClick={handleClickSummary}
+          onKeyDown={(e) => e.stopPropagation()}
+          className='text-base-content/50 hover:text-base-content ms-auto ps-1'
+          aria-label={_('Chapter Summary')}
+          title={_('Chapter Summary')}
+        >
+          <PiSparkle size={14} />
+        </button>
+      )}
       {(item.location || item.index !== undefined) && (
         <div className='text-base-content/50 ms-auto ps-1 text-xs sm:pe-1'>
           {item.location ? item.location.current + 1 : item.index + 1}
@@ -117,8 +141,11 @@ interface ListRowProps {
   flatItem: FlatTOCItem;
   itemSize?: number;
   activeHref: string | null;
+  summary?: string;
+  isSummarizing?: boolean;
   onToggleExpand: (item: TOCItem) => void;
   onItemClick: (item: TOCItem) => void;
+  onSummaryClick?: (item: TOCItem) => void;
 }
 
 export const StaticListRow: React.FC<ListRowProps> = ({
@@ -126,8 +153,11 @@ export const StaticListRow: React.FC<ListRowProps> = ({
   flatItem,
   itemSize,
   activeHref,
+  summary,
+  isSummarizing,
   onToggleExpand,
   onItemClick,
+  onSummaryClick,
 }) => {
   const isActive = activeHref === flatItem.item.href;
 
@@ -146,7 +176,16 @@ export const StaticListRow: React.FC<ListRowProps> = ({
         isActive={isActive}
         onToggleExpand={onToggleExpand}
         onItemClick={onItemClick}
+        onSummaryClick={onSummaryClick}
       />
+      {(summary || isSummarizing) && (
+        <div
+          className='text-base-content/70 pb-2 pe-2 text-xs leading-relaxed'
+          style={{ paddingInlineStart: `${(flatItem.depth + 1) * 12 + 8}px` }}
+        >
+          {isSummarizing ? <span className='loading loading-dots loading-xs' /> : summary}
+        </div>
+      )}
     </div>
   );
 };
@@ -7,6 +7,11 @@ import { SectionItem, TOCItem } from '@/libs/document';
 import { useEnv } from '@/context/EnvContext';
 import { useReaderStore } from '@/store/readerStore';
 import { useSidebarStore } from '@/store/sidebarStore';
+import { useSettingsStore } from '@/store/settingsStore';
+import { useBookDataStore } from '@/store/bookDataStore';
+import { useTranslation } from '@/hooks/useTranslation';
+import { getBookSummaries, isBookIndexed, summarizeChapter } from '@/services/ai';
+import type { AISummary } from '@/services/ai/types';
 import { findParentPath } from '@/utils/toc';
 import { eventDispatcher } from '@/utils/event';
 import { getContentMd5 } from '@/utils/misc';
@@ -41,14 +46,23 @@ const TOCView: React.FC<{
   toc: TOCItem[];
   sections?: SectionItem[];
 }> = ({ bookKey, toc, sections }) => {
+  const _ = useTranslation();
   const { appService } = useEnv();
+  const { settings } = useSettingsStore();
+  const { getBookData } = useBookDataStore();
   const { getView, getProgress, getViewSettings } = useReaderStore();
   const { sideBarBookKey, isSideBarVisible } = useSidebarStore();
   const viewSettings = getViewSettings(bookKey)!;
   const progress = getProgress(bookKey);
+  const aiSettings = settings?.aiSettings;
+  const bookHash = bookKey.split('-')[0] || '';
 
   const [expandedItems, setExpandedItems] = useState<Set<string>>(new Set());
   const [containerHeight, setContainerHeight] = useState(400);
+  const [summariesEnabled, setSummariesEnabled] = useState(false);
+  const [summaries, setSummaries] = useState<Map<number, AISummary>>(new Map());
+  const [shownSummaries, setShownSummaries] = useState<Set<number>>(new Set());
+  const [summarizingIndex, setSummarizingIndex] = useState<number | null>(null);
 
   const hasInteractedWithTOCRef = useRef(false);
   const lastInteractionTimeRef = useRef<number>(0);
@@ -189,6 +203,79 @@ const TOCView: React.FC<{
     [bookKey, getView],
   );
 
+  useEffect(() => {
+    if (!aiSettings?.enabled || !bookHash) return;
+    isBookIndexed(bookHash).then(async (indexed) => {
+      setSummariesEnabled(indexed);
+      if (!indexed) return;
+      const cached = await getBookSummaries(bookHash, aiSettings);
+      setSummaries(
+        new Map(cached.filter((s) => s.kind === 'chapter').map((s) => [s.sectionIndex, s])),
+      );
+    });
+  }, [bookHash, aiSettings]);
+
+  const getSectionIndex = useCallback(
+    (item: TOCItem) => {
+      try {
+        return getView(bookKey)?.resolveNavigation(item.href)?.index;
+      } catch {
+        return undefined;
+      }
+    },
+    [bookKey, getView],
+  );
+
+  const handleSummaryClick = useCallback(
+    async (item: TOCItem) => {
+      const sectionIndex = getSectionIndex(item);
+      if (sectionIndex === undefined || !aiSettings) return;
+      if (shownSummaries.has(sectionIndex)) {
+        setShownSummaries((prev) => {
+          const next = new Set(prev);
+          next.delete(sectionIndex);
+          return next;
+        });
+        return;
+      }
+      setSummarizingIndex(sectionIndex);
+      try {
+        const book = getBookData(bookKey)?.book;
+        const summary = await summarizeChapter(
+          { bookHash, bookTitle: book?.title || '', authorName: book?.author || '' },
+          sectionIndex,
+          aiSettings,
+          progress?.pageinfo?.current ?? 0,
+        );
+        if (!summary) {
+          eventDispatcher.dispatch('toast', {
+            type: 'info',
+            message: _('You have not read this chapter yet'),
+            timeout: 2000,
+          });
+          return;
+        }
+        setSummaries((prev) => new Map(prev).set(sectionIndex, summary));
+        setShownSummaries((prev) => new Set(prev).add(sectionIndex));
+      } catch {
+        eventDispatcher.dispatch('toast', {
+          type: 'error',
+          message: _('Failed to summarize chapter'),
+          timeout: 2000,
+        });
+      } finally {
+        setSummarizingIndex(null);
+      }
+    },
+    [_, bookKey, bookHash, aiSettings, progress, shownSummaries, getBookData, getSectionIndex],
+  );
+
+  const getShownSummary = (item: TOCItem) => {
+    const sectionIndex = getSectionIndex(item);
+    if (sectionIndex === undefined || !shownSummaries.has(sectionIndex)) return undefined;
+    return summaries.get(sectionIndex)?.text;
+  };
+
   const expandParents = useCallback((toc: TOCItem[], href: string) => {
     const parentItems = findParentPath(toc, href)
       .map((item) => getItemIdentifier(item))
@@ -296,8 +383,13 @@ const TOCView: React.FC<{
           bookKey={bookKey}
           flatItem={flatItem}
           activeHref={activeHref}
+          summary={summariesEnabled ? getShownSummary(flatItem.item) : undefined}
+          isSummarizing={
+            summarizingIndex !== null && summarizingIndex === getSectionIndex(flatItem.item)
+          }
           onToggleExpand={handleToggleExpand}
           onItemClick={handleItemClick}
+          onSummaryClick={summariesEnabled ? handleSummaryClick : undefined}
         />
       ))}
     </div>
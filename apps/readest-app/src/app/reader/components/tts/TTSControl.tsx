@@ -228,6 +228,7 @@ const TTSControl: React.FC<TTSControlProps> = ({ bookKey, gridInsets }) => {
             onGetVoices={tts.handleGetVoices}
             onSetVoice={tts.handleSetVoice}
             onGetVoiceId={tts.handleGetVoiceId}
+            onImportVoices={tts.handleImportVoices}
             onSelectTimeout={tts.handleSelectTimeout}
             onToogleTTSBar={tts.handleToggleTTSBar}
           />
@@ -3,7 +3,7 @@ import React, { useState, ChangeEvent, useEffect } from 'react';
 import { MdPlayCircle, MdPauseCircle, MdFastRewind, MdFastForward, MdAlarm } from 'react-icons/md';
 import { TbChevronCompactDown, TbChevronCompactUp } from 'react-icons/tb';
 import { RiVoiceAiFill } from 'react-icons/ri';
-import { MdCheck } from 'react-icons/md';
+import { MdCheck, MdAdd } from 'react-icons/md';
 import { TTSVoicesGroup } from '@/services/tts';
 import { useEnv } from '@/context/EnvContext';
 import { useReaderStore } from '@/store/readerStore';
@@ -25,6 +25,7 @@ type TTSPanelProps = {
   onGetVoices: (lang: string) => Promise<TTSVoicesGroup[]>;
   onSetVoice: (voice: string, lang: string) => void;
   onGetVoiceId: () => string;
+  onImportVoices: () => Promise<void>;
   onSelectTimeout: (bookKey: string, value: number) => void;
   onToogleTTSBar: () => void;
 };
@@ -114,6 +115,7 @@ const TTSPanel = ({
   onGetVoices,
   onSetVoice,
   onGetVoiceId,
+  onImportVoices,
   onSelectTimeout,
   onToogleTTSBar,
 }: TTSPanelProps) => {
@@ -156,6 +158,11 @@ const TTSPanel = ({
     setViewSettings(bookKey, viewSettings);
   };
 
+  const handleImportVoices = async () => {
+    await onImportVoices();
+    setVoiceGroups(await onGetVoices(ttsLang));
+  };
+
   const updateTimeout = (timeout: number) => {
     const now = Date.now();
     if (timeout > 0 && timeout < now) {
@@ -370,6 +377,22 @@ const TTSPanel = ({
                       </div>
                     </li>
                   ))}
+                  {voiceGroup.id === 'neural-tts' && (
+                    // eslint-disable-next-line jsx-a11y/click-events-have-key-events, jsx-a11y/no-noninteractive-element-interactions
+                    <li onClick={handleImportVoices}>
+                      <div className='flex items-center px-2'>
+                        <span
+                          style={{
+                            width: `${defaultIconSize}px`,
+                            height: `${defaultIconSize}px`,
+                          }}
+                        >
+                          <MdAdd className='text-base-content' />
+                        </span>
+                        <span className='text-base sm:text-sm'>{_('Import Voice Model')}</span>
+                      </div>
+                    </li>
+                  )}
                 </div>
               );
             })}
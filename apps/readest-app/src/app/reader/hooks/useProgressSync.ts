@@ -9,6 +9,7 @@ import { useTranslation } from '@/hooks/useTranslation';
 import { serializeConfig } from '@/utils/serializer';
 import { CFI } from '@/libs/document';
 import { debounce } from '@/utils/debounce';
+import { mergeBookConfigs } from '@/utils/merge';
 import { eventDispatcher } from '@/utils/event';
 import { DEFAULT_BOOK_SEARCH_CONFIG, SYNC_PROGRESS_INTERVAL_SEC } from '@/services/constants';
 import { getCFIFromXPointer, getXPointerFromCFI, normalizeProgressXPointer } from '@/utils/xcfi';
@@ -140,22 +141,21 @@ export const useProgressSync = (bookKey: string) => {
       }
       const filteredSyncedConfig = Object.fromEntries(
         Object.entries(syncedConfig).filter(([_, value]) => value !== null && value !== undefined),
-      );
-      if (syncedConfig.updatedAt >= config.updatedAt) {
-        setConfig(bookKey, { ...config, ...filteredSyncedConfig });
-      } else {
-        setConfig(bookKey, { ...filteredSyncedConfig, ...config });
+      ) as BookConfig;
+      if (remoteCFILocation) {
+        filteredSyncedConfig.location = remoteCFILocation;
       }
-      if (remoteCFILocation && configCFI) {
-        if (CFI.compare(configCFI, remoteCFILocation) < 0) {
-          if (view) {
-            view.goTo(remoteCFILocation);
-            setHoveredBookKey(null);
-            eventDispatcher.dispatch('hint', {
-              bookKey,
-              message: _('Reading Progress Synced'),
-            });
-          }
+      const mergedConfig = mergeBookConfigs(config, filteredSyncedConfig);
+      setConfig(bookKey, mergedConfig);
+      const mergedCFI = mergedConfig.location;
+      if (mergedCFI && configCFI && CFI.compare(configCFI, mergedCFI) !== 0) {
+        if (view) {
+          view.goTo(mergedCFI);
+          setHoveredBookKey(null);
+          eventDispatcher.dispatch('hint', {
+            bookKey,
+            message: _('Reading Progress Synced'),
+          });
         }
       }
     }
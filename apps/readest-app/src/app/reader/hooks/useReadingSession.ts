@@ -0,0 +1,64 @@
+import { useCallback, useEffect, useRef } from 'react';
+import { useEnv } from '@/context/EnvContext';
+import { useBookDataStore } from '@/store/bookDataStore';
+import { useReaderStore } from '@/store/readerStore';
+import { useStatisticsStore } from '@/store/statisticsStore';
+import {
+  ActiveReadingSession,
+  finishReadingSession,
+  recordPageTurn,
+  startReadingSession,
+} from '@/utils/statistics';
+
+// Records reading sessions from the page turns of the book
+export const useReadingSession = (bookKey: string) => {
+  const { envConfig } = useEnv();
+  const { getProgress } = useReaderStore();
+  const { getBookData } = useBookDataStore();
+  const { addSession } = useStatisticsStore();
+  const activeRef = useRef<ActiveReadingSession | null>(null);
+  const progress = getProgress(bookKey);
+
+  const endSession = useCallback(() => {
+    const finished = activeRef.current && finishReadingSession(activeRef.current);
+    activeRef.current = null;
+    if (finished) addSession(envConfig, finished);
+  }, [envConfig, addSession]);
+
+  useEffect(() => {
+    const pageinfo = progress?.pageinfo;
+    const book = getBookData(bookKey)?.book;
+    if (!book || !pageinfo || document.visibilityState === 'hidden') return;
+
+    if (!activeRef.current) {
+      activeRef.current = startReadingSession(
+        book.hash,
+        book.metaHash,
+        pageinfo.current,
+        pageinfo.total,
+      );
+      return;
+    }
+    const { active, finished } = recordPageTurn(
+      activeRef.current,
+      pageinfo.current,
+      pageinfo.total,
+    );
+    activeRef.current = active;
+    if (finished) addSession(envConfig, finished);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [progress, bookKey]);
+
+  useEffect(() => {
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') endSession();
+    };
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    window.addEventListener('beforeunload', endSession);
+    return () => {
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      window.removeEventListener('beforeunload', endSession);
+      endSession();
+    };
+  }, [bookKey, endSession]);
+};
@@ -8,6 +8,7 @@ import { useProofreadStore } from '@/store/proofreadStore';
 import { TransformContext } from '@/services/transformers/types';
 import { proofreadTransformer } from '@/services/transformers/proofread';
 import { useTranslation } from '@/hooks/useTranslation';
+import { useFileSelector } from '@/hooks/useFileSelector';
 import { TTSController, TTSMark, TTSHighlightOptions, TTSVoicesGroup } from '@/services/tts';
 import { TauriMediaSession } from '@/libs/mediaSession';
 import { eventDispatcher } from '@/utils/event';
@@ -15,6 +16,7 @@ import { genSSMLRaw, parseSSMLLang } from '@/utils/ssml';
 import { throttle } from '@/utils/throttle';
 import { isCfiInLocation } from '@/utils/cfi';
 import { getLocale } from '@/utils/misc';
+import { getFilename } from '@/utils/path';
 import { invokeUseBackgroundAudio } from '@/utils/bridge';
 import { estimateTTSTime } from '@/utils/ttsTime';
 import { useTTSMediaSession } from './useTTSMediaSession';
@@ -33,6 +35,7 @@ export const useTTSControl = ({ bookKey, onRequestHidePanel }: UseTTSControlProp
   const { getView, getProgress, getViewSettings } = useReaderStore();
   const { setViewSettings, setTTSEnabled } = useReaderStore();
   const { getMergedRules } = useProofreadStore();
+  const { selectFiles } = useFileSelector(appService, _);
 
   const [ttsLang, setTtsLang] = useState<string>('en');
   const [isPlaying, setIsPlaying] = useState(false);
@@ -560,6 +563,47 @@ export const useTTSControl = ({ bookKey, onRequestHidePanel }: UseTTSControlProp
     return [];
   };
 
+  // a Piper voice is a .onnx model with a .onnx.json config of the same name
+  const handleImportVoices = async () => {
+    const ttsController = ttsControllerRef.current;
+    if (!ttsController) return;
+    const result = await selectFiles({ type: 'ttsVoices', multiple: true });
+    if (result.error || result.files.length === 0) return;
+    const files = result.files.map((f) => ({
+      name: f.file?.name || getFilename(f.path || ''),
+      data: (f.path || f.file)!,
+    }));
+    const voices = files
+      .filter((f) => f.name.endsWith('.onnx'))
+      .map((model) => ({
+        model: model.data,
+        config: files.find((f) =>
+          [`${model.name}.json`, model.name.replace(/\.onnx$/, '.json')].includes(f.name),
+        )?.data,
+      }))
+      .filter((voice) => voice.config) as Parameters<TTSController['importNeuralVoices']>[0];
+    if (voices.length === 0) {
+      eventDispatcher.dispatch('toast', {
+        message: _('Select both the .onnx model and its .onnx.json config'),
+        type: 'warning',
+      });
+      return;
+    }
+    try {
+      const count = await ttsController.importNeuralVoices(voices);
+      eventDispatcher.dispatch('toast', {
+        message: _('Imported {{count}} voice(s)', { count }),
+        type: 'info',
+      });
+    } catch (error) {
+      console.error('Failed to import voice model:', error);
+      eventDispatcher.dispatch('toast', {
+        message: _('Failed to import voice model'),
+        type: 'error',
+      });
+    }
+  };
+
   const handleGetVoiceId = () => {
     const ttsController = ttsControllerRef.current;
     if (ttsController) {
@@ -658,6 +702,7 @@ export const useTTSControl = ({ bookKey, onRequestHidePanel }: UseTTSControlProp
     handleSetVoice,
     handleGetVoices,
     handleGetVoiceId,
+    handleImportVoices,
     handleSelectTimeout,
     handleToggleTTSBar,
     handleBackToCurrentTTSLocation,
@@ -27,6 +27,7 @@ interface BookDetailModalProps {
   handleBookDeleteCloudBackup?: (book: Book) => void;
   handleBookDeleteLocalCopy?: (book: Book) => void;
   handleBookMetadataUpdate?: (book: Book, updatedMetadata: BookMetadata) => void;
+  handleBookExportAudiobook?: (book: Book) => void;
 }
 
 interface DeleteConfig {
@@ -45,6 +46,7 @@ const BookDetailModal: React.FC<BookDetailModalProps> = ({
   handleBookDeleteCloudBackup,
   handleBookDeleteLocalCopy,
   handleBookMetadataUpdate,
+  handleBookExportAudiobook,
 }) => {
   const _ = useTranslation();
   const { envConfig, appService } = useEnv();
@@ -185,6 +187,13 @@ const BookDetailModal: React.FC<BookDetailModalProps> = ({
     }, 0);
   };
 
+  const handleExportAudiobook = () => {
+    handleClose();
+    if (handleBookExportAudiobook) {
+      handleBookExportAudiobook(book);
+    }
+  };
+
   const currentDeleteConfig = activeDeleteAction ? deleteConfigs[activeDeleteAction] : null;
 
   return (
@@ -232,6 +241,7 @@ const BookDetailModal: React.FC<BookDetailModalProps> = ({
                 onDownload={handleBookDownload ? handleRedownload : undefined}
                 onUpload={handleBookUpload ? handleReupload : undefined}
                 onExport={handleBookExport}
+                onExportAudiobook={handleBookExportAudiobook ? handleExportAudiobook : undefined}
               />
             )}
           </div>
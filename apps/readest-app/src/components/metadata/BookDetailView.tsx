@@ -6,6 +6,7 @@ import {
   MdOutlineDelete,
   MdOutlineEdit,
   MdSaveAlt,
+  MdHeadphones,
   MdExpandMore,
   MdExpandLess,
 } from 'react-icons/md';
@@ -39,6 +40,7 @@ interface BookDetailViewProps {
   onDownload?: () => void;
   onUpload?: () => void;
   onExport?: () => void;
+  onExportAudiobook?: () => void;
 }
 
 const BookDetailView: React.FC<BookDetailViewProps> = ({
@@ -52,6 +54,7 @@ const BookDetailView: React.FC<BookDetailViewProps> = ({
   onDownload,
   onUpload,
   onExport,
+  onExportAudiobook,
 }) => {
   const _ = useTranslation();
   const { envConfig } = useEnv();
@@ -149,6 +152,11 @@ const BookDetailView: React.FC<BookDetailViewProps> = ({
                 <MdSaveAlt className='fill-base-content' />
               </button>
             )}
+            {book.downloadedAt && onExportAudiobook && (
+              <button onClick={onExportAudiobook} title={_('Export as Audiobook')}>
+                <MdHeadphones className='fill-base-content' />
+              </button>
+            )}
           </div>
         </div>
       </div>
@@ -75,6 +75,15 @@ const AIPanel: React.FC = () => {
   const [ollamaModels, setOllamaModels] = useState<string[]>([]);
   const [fetchingModels, setFetchingModels] = useState(false);
   const [gatewayKey, setGatewayKey] = useState(aiSettings.aiGatewayApiKey ?? '');
+  const [openaiUrl, setOpenaiUrl] = useState(
+    aiSettings.openaiCompatibleBaseUrl ?? DEFAULT_AI_SETTINGS.openaiCompatibleBaseUrl,
+  );
+  const [openaiKey, setOpenaiKey] = useState(aiSettings.openaiCompatibleApiKey ?? '');
+  const [openaiModel, setOpenaiModel] = useState(aiSettings.openaiCompatibleModel ?? '');
+  const [openaiEmbeddingModel, setOpenaiEmbeddingModel] = useState(
+    aiSettings.openaiCompatibleEmbeddingModel ?? '',
+  );
+  const [openaiModels, setOpenaiModels] = useState<string[]>([]);
 
   const savedCustomModel = aiSettings.aiGatewayCustomModel ?? '';
   const savedModel = aiSettings.aiGatewayModel ?? DEFAULT_AI_SETTINGS.aiGatewayModel ?? '';
@@ -139,12 +148,37 @@ const AIPanel: React.FC = () => {
     }
   }, [ollamaUrl, ollamaModel, enabled]);
 
+  const fetchOpenaiModels = useCallback(async () => {
+    if (!openaiUrl || !enabled) return;
+
+    setFetchingModels(true);
+    try {
+      const response = await fetch(`${openaiUrl.replace(/\/+$/, '')}/models`, {
+        headers: openaiKey ? { Authorization: `Bearer ${openaiKey}` } : {},
+      });
+      if (!response.ok) throw new Error('Failed to fetch models');
+      const data = await response.json();
+      const models: string[] = data.data?.map((m: { id: string }) => m.id) || [];
+
+      setOpenaiModels(models);
+      if (models.length > 0 && !openaiModel) {
+        setOpenaiModel(models[0]!);
+      }
+    } catch (_err) {
+      setOpenaiModels([]);
+    } finally {
+      setFetchingModels(false);
+    }
+  }, [openaiUrl, openaiKey, openaiModel, enabled]);
+
   useEffect(() => {
     if (provider === 'ollama' && enabled) {
       fetchOllamaModels();
+    } else if (provider === 'openai-compatible' && enabled) {
+      fetchOpenaiModels();
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [provider, enabled, ollamaUrl]);
+  }, [provider, enabled, ollamaUrl, openaiUrl, openaiKey]);
 
   useEffect(() => {
     isMounted.current = true;
@@ -198,6 +232,38 @@ const AIPanel: React.FC = () => {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [gatewayKey]);
 
+  useEffect(() => {
+    if (!isMounted.current) return;
+    if (openaiUrl !== aiSettings.openaiCompatibleBaseUrl) {
+      saveAiSetting('openaiCompatibleBaseUrl', openaiUrl);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [openaiUrl]);
+
+  useEffect(() => {
+    if (!isMounted.current) return;
+    if (openaiKey !== (aiSettings.openaiCompatibleApiKey ?? '')) {
+      saveAiSetting('openaiCompatibleApiKey', openaiKey);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [openaiKey]);
+
+  useEffect(() => {
+    if (!isMounted.current) return;
+    if (openaiModel !== aiSettings.openaiCompatibleModel) {
+      saveAiSetting('openaiCompatibleModel', openaiModel);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [openaiModel]);
+
+  useEffect(() => {
+    if (!isMounted.current) return;
+    if (openaiEmbeddingModel !== aiSettings.openaiCompatibleEmbeddingModel) {
+      saveAiSetting('openaiCompatibleEmbeddingModel', openaiEmbeddingModel);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [openaiEmbeddingModel]);
+
   // Get the effective model ID to use (either selected or custom)
   const getEffectiveModelId = useCallback(() => {
     if (selectedModel === CUSTOM_MODEL_VALUE && customModelStatus === 'valid') {
@@ -288,6 +354,10 @@ const AIPanel: React.FC = () => {
         ollamaEmbeddingModel,
         aiGatewayApiKey: gatewayKey,
         aiGatewayModel: effectiveModel,
+        openaiCompatibleBaseUrl: openaiUrl,
+        openaiCompatibleApiKey: openaiKey,
+        openaiCompatibleModel: openaiModel,
+        openaiCompatibleEmbeddingModel: openaiEmbeddingModel,
       };
       const aiProvider = getAIProvider(testSettings);
       const isHealthy = await aiProvider.healthCheck();
@@ -298,7 +368,9 @@ const AIPanel: React.FC = () => {
         setErrorMessage(
           provider === 'ollama'
             ? _("Couldn't connect to Ollama. Is it running?")
-            : _('Invalid API key or connection failed'),
+            : provider === 'openai-compatible'
+              ? _("Couldn't connect to the server or the model is not loaded")
+              : _('Invalid API key or connection failed'),
         );
       }
     } catch (error) {
@@ -354,6 +426,17 @@ const AIPanel: React.FC = () => {
                 disabled={!enabled}
               />
             </div>
+            <div className='config-item'>
+              <span>{_('OpenAI-Compatible (Local)')}</span>
+              <input
+                type='radio'
+                name='ai-provider'
+                className='radio'
+                checked={provider === 'openai-compatible'}
+                onChange={() => setProvider('openai-compatible')}
+                disabled={!enabled}
+              />
+            </div>
           </div>
         </div>
       </div>
@@ -427,6 +510,81 @@ const AIPanel: React.FC = () => {
         </div>
       )}
 
+      {provider === 'openai-compatible' && (
+        <div className={clsx('w-full', disabledSection)}>
+          <h2 className='mb-2 font-medium'>{_('OpenAI-Compatible Configuration')}</h2>
+          <p className='text-base-content/70 mb-3 text-sm'>
+            {_(
+              'Connect to any server that speaks the OpenAI API, such as llama.cpp, LM Studio or vLLM.',
+            )}
+          </p>
+          <div className='card border-base-200 bg-base-100 border shadow'>
+            <div className='divide-base-200 divide-y'>
+              <div className='config-item !h-auto flex-col !items-start gap-2 py-3'>
+                <div className='flex w-full items-center justify-between'>
+                  <span>{_('Server URL')}</span>
+                  <button
+                    className='btn btn-ghost btn-xs'
+                    onClick={fetchOpenaiModels}
+                    disabled={!enabled || fetchingModels}
+                    title={_('Refresh Models')}
+                  >
+                    <PiArrowsClockwise className='size-4' />
+                  </button>
+                </div>
+                <input
+                  type='text'
+                  className='input input-bordered input-sm w-full'
+                  value={openaiUrl}
+                  onChange={(e) => setOpenaiUrl(e.target.value)}
+                  placeholder='http://127.0.0.1:8080/v1'
+                  disabled={!enabled}
+                />
+              </div>
+              <div className='config-item !h-auto flex-col !items-start gap-2 py-3'>
+                <span>{_('API Key (Optional)')}</span>
+                <input
+                  type='password'
+                  className='input input-bordered input-sm w-full'
+                  value={openaiKey}
+                  onChange={(e) => setOpenaiKey(e.target.value)}
+                  disabled={!enabled}
+                />
+              </div>
+              <div className='config-item !h-auto flex-col !items-start gap-2 py-3'>
+                <span>{_('AI Model')}</span>
+                <input
+                  type='text'
+                  className='input input-bordered input-sm w-full'
+                  list='openai-compatible-models'
+                  value={openaiModel}
+                  onChange={(e) => setOpenaiModel(e.target.value)}
+                  placeholder='model-name'
+                  disabled={!enabled}
+                />
+              </div>
+              <div className='config-item !h-auto flex-col !items-start gap-2 py-3'>
+                <span>{_('Embedding Model')}</span>
+                <input
+                  type='text'
+                  className='input input-bordered input-sm w-full'
+                  list='openai-compatible-models'
+                  value={openaiEmbeddingModel}
+                  onChange={(e) => setOpenaiEmbeddingModel(e.target.value)}
+                  placeholder='embedding-model-name'
+                  disabled={!enabled}
+                />
+              </div>
+              <datalist id='openai-compatible-models'>
+                {openaiModels.map((model) => (
+                  <option key={model} value={model} />
+                ))}
+              </datalist>
+            </div>
+          </div>
+        </div>
+      )}
+
       {provider === 'ai-gateway' && (
         <div className={clsx('w-full', disabledSection)}>
           <h2 className='mb-2 font-medium'>{_('AI Gateway Configuration')}</h2>
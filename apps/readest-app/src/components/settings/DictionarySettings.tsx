@@ -0,0 +1,171 @@
+import React, { useState } from 'react';
+import { MdArrowDownward, MdArrowUpward, MdDelete } from 'react-icons/md';
+import { useEnv } from '@/context/EnvContext';
+import { useTranslation } from '@/hooks/useTranslation';
+import { useSettingsStore } from '@/store/settingsStore';
+import { useFileSelector } from '@/hooks/useFileSelector';
+import { saveSysSettings } from '@/helpers/settings';
+import {
+  ImportedDictionary,
+  deleteDictionary,
+  groupDictionaryFiles,
+  importDictionary,
+} from '@/services/dictionaries';
+import { eventDispatcher } from '@/utils/event';
+
+const FORMAT_LABELS: Record<ImportedDictionary['format'], string> = {
+  stardict: 'StarDict',
+  dictd: 'DICT',
+  mdict: 'MDict',
+};
+
+const DictionarySettings: React.FC = () => {
+  const _ = useTranslation();
+  const { envConfig, appService } = useEnv();
+  const { settings } = useSettingsStore();
+  const { selectFiles } = useFileSelector(appService, _);
+  const [importing, setImporting] = useState(false);
+  const dictionaries = settings.dictionaries || [];
+
+  const saveDictionaries = (updated: ImportedDictionary[]) =>
+    saveSysSettings(envConfig, 'dictionaries', updated);
+
+  const handleImport = async () => {
+    if (!appService) return;
+    const result = await selectFiles({ type: 'dictionaries', multiple: true });
+    if (result.error || result.files.length === 0) return;
+    const fileSets = groupDictionaryFiles(result.files.map((f) => (f.path || f.file)!));
+    if (fileSets.length === 0) {
+      eventDispatcher.dispatch('toast', {
+        message: _(
+          'Select the .ifo, .idx and .dict files of a StarDict dictionary, the .index and .dict files of a DICT dictionary or an MDict .mdx file',
+        ),
+        type: 'warning',
+      });
+      return;
+    }
+    setImporting(true);
+    const imported: ImportedDictionary[] = [];
+    for (const fileSet of fileSets) {
+      try {
+        imported.push(await importDictionary(appService, fileSet));
+      } catch (error) {
+        console.error('Failed to import dictionary:', fileSet.name, error);
+        eventDispatcher.dispatch('toast', {
+          message: _('Failed to import dictionary: {{name}}', { name: fileSet.name }),
+          type: 'error',
+        });
+      }
+    }
+    setImporting(false);
+    if (imported.length > 0) {
+      await saveDictionaries([
+        ...(useSettingsStore.getState().settings.dictionaries || []),
+        ...imported,
+      ]);
+      eventDispatcher.dispatch('toast', {
+        message: _('Imported {{count}} dictionary(ies)', { count: imported.length }),
+        type: 'info',
+      });
+    }
+  };
+
+  const handleMove = (index: number, offset: number) => {
+    const updated = [...dictionaries];
+    const [dictionary] = updated.splice(index, 1);
+    updated.splice(index + offset, 0, dictionary!);
+    saveDictionaries(updated);
+  };
+
+  const handleToggle = (id: string) => {
+    saveDictionaries(dictionaries.map((d) => (d.id === id ? { ...d, enabled: !d.enabled } : d)));
+  };
+
+  const handleDelete = async (dictionary: ImportedDictionary) => {
+    try {
+      await deleteDictionary(appService!, dictionary);
+    } catch (error) {
+      console.warn('Failed to delete the dictionary files:', error);
+    }
+    saveDictionaries(dictionaries.filter((d) => d.id !== dictionary.id));
+  };
+
+  return (
+    <div className='w-full' data-setting-id='settings.language.dictionaries'>
+      <h2 className='mb-2 font-medium'>{_('Dictionaries')}</h2>
+      <div className='card border-base-200 bg-base-100 border shadow'>
+        <div className='divide-base-200 divide-y'>
+          {dictionaries.map((dictionary, index) => (
+            <div key={dictionary.id} className='config-item gap-2'>
+              <div className='flex min-w-0 flex-1 flex-col'>
+                <span className='truncate'>{dictionary.name}</span>
+                <span className='text-base-content/60 text-xs'>
+                  {FORMAT_LABELS[dictionary.format]}
+                  {dictionary.wordCount
+                    ? ` · ${_('{{count}} words', { count: dictionary.wordCount })}`
+                    : ''}
+                </span>
+              </div>
+              <button
+                className='btn btn-ghost btn-xs'
+                aria-label={_('Move Up')}
+                disabled={index === 0}
+                onClick={() => handleMove(index, -1)}
+              >
+                <MdArrowUpward className='h-4 w-4' />
+              </button>
+              <button
+                className='btn btn-ghost btn-xs'
+                aria-label={_('Move Down')}
+                disabled={index === dictionaries.length - 1}
+                onClick={() => handleMove(index, 1)}
+              >
+                <MdArrowDownward className='h-4 w-4' />
+              </button>
+              <button
+                className='btn btn-ghost btn-xs'
+                aria-label={_('Delete')}
+                onClick={() => handleDelete(dictionary)}
+              >
+                <MdDelete className='h-4 w-4' />
+              </button>
+              <input
+                type='checkbox'
+                className='toggle toggle-sm'
+                aria-label={dictionary.name}
+                checked={dictionary.enabled}
+                onChange={() => handleToggle(dictionary.id)}
+              />
+            </div>
+          ))}
+          <div className='config-item'>
+            <span className=''>{_('Wiktionary When Not Found Offline')}</span>
+            <input
+              type='checkbox'
+              className='toggle'
+              checked={settings.dictionaryOnlineFallback}
+              onChange={() =>
+                saveSysSettings(
+                  envConfig,
+                  'dictionaryOnlineFallback',
+                  !settings.dictionaryOnlineFallback,
+                )
+              }
+            />
+          </div>
+          <div className='config-item'>
+            <span className='text-base-content/60 text-xs'>
+              {_('StarDict, DICT and MDict dictionaries are looked up from top to bottom.')}
+            </span>
+            <button className='btn btn-sm' disabled={importing} onClick={handleImport}>
+              {importing && <span className='loading loading-spinner loading-xs' />}
+              {_('Import Dictionary')}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DictionarySettings;
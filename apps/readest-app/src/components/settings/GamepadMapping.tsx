@@ -0,0 +1,268 @@
+import clsx from 'clsx';
+import React, { useEffect, useRef, useState } from 'react';
+import { MdClose } from 'react-icons/md';
+import { useTranslation } from '@/hooks/useTranslation';
+import { DEFAULT_SHORTCUTS, ShortcutAction } from '@/helpers/shortcuts';
+import {
+  GAMEPAD_KEY_ACTIONS,
+  GamepadAction,
+  GamepadBinding,
+  GamepadInput,
+  GamepadKeyAction,
+  GamepadProfile,
+  getActiveGamepadInputs,
+  getGamepadInputKey,
+  isGamepadKeyAction,
+  loadGamepadProfile,
+  saveGamepadProfile,
+  setGamepadLearning,
+} from '@/helpers/gamepad';
+import NumberInput from './NumberInput';
+
+interface GamepadMappingProps {
+  actionLabels: Record<ShortcutAction, string>;
+}
+
+const getConnectedGamepads = () =>
+  Array.from(navigator.getGamepads?.() || []).filter((g): g is Gamepad => !!g?.connected);
+
+const getConnectedGamepadIds = () => [...new Set(getConnectedGamepads().map((g) => g.id))];
+
+const GamepadMapping: React.FC<GamepadMappingProps> = ({ actionLabels }) => {
+  const _ = useTranslation();
+  const [gamepadIds, setGamepadIds] = useState<string[]>(getConnectedGamepadIds);
+  const [selectedId, setSelectedId] = useState(() => gamepadIds[0] ?? '');
+  const [profile, setProfile] = useState<GamepadProfile | null>(() =>
+    selectedId ? loadGamepadProfile(selectedId) : null,
+  );
+  const [isLearning, setIsLearning] = useState(false);
+  const [activeInputs, setActiveInputs] = useState<string[]>([]);
+  // a learned input that is bound already, shown instead of adding a second binding
+  const [boundInput, setBoundInput] = useState<GamepadBinding | null>(null);
+  const baselineRef = useRef<Set<string>>(new Set());
+  const selectedIdRef = useRef(selectedId);
+
+  const selectGamepad = (id: string) => {
+    selectedIdRef.current = id;
+    setSelectedId(id);
+    setProfile(id ? loadGamepadProfile(id) : null);
+    setIsLearning(false);
+    setBoundInput(null);
+  };
+
+  useEffect(() => {
+    const updateGamepads = () => {
+      const ids = getConnectedGamepadIds();
+      setGamepadIds(ids);
+      if (!ids.includes(selectedIdRef.current)) selectGamepad(ids[0] ?? '');
+    };
+    window.addEventListener('gamepadconnected', updateGamepads);
+    window.addEventListener('gamepaddisconnected', updateGamepads);
+    return () => {
+      window.removeEventListener('gamepadconnected', updateGamepads);
+      window.removeEventListener('gamepaddisconnected', updateGamepads);
+    };
+  }, []);
+
+  const updateProfile = (newProfile: GamepadProfile) => {
+    setProfile(newProfile);
+    saveGamepadProfile(selectedId, newProfile);
+  };
+
+  const addBinding = (input: GamepadInput) => {
+    if (!profile) return;
+    const inputKey = getGamepadInputKey(input);
+    const existing = profile.bindings.find((b) => getGamepadInputKey(b.input) === inputKey);
+    if (existing) {
+      setBoundInput(existing);
+      return;
+    }
+    updateProfile({ ...profile, bindings: [...profile.bindings, { input, action: 'onGoNext' }] });
+  };
+
+  // poll the selected controller to show live input and to learn new bindings
+  useEffect(() => {
+    if (!selectedId || !profile) return;
+    setGamepadLearning(isLearning);
+    let frame = 0;
+    const poll = () => {
+      const gamepad = getConnectedGamepads().find((g) => g.id === selectedId);
+      if (gamepad) {
+        const inputs = getActiveGamepadInputs(gamepad, profile.deadzone);
+        const keys = inputs.map(getGamepadInputKey);
+        setActiveInputs((prev) => (prev.join() === keys.join() ? prev : keys));
+        if (isLearning) {
+          const input = inputs.find((i) => !baselineRef.current.has(getGamepadInputKey(i)));
+          if (input) {
+            addBinding(input);
+            setIsLearning(false);
+            return;
+          }
+          baselineRef.current = new Set(keys.filter((key) => baselineRef.current.has(key)));
+        }
+      }
+      frame = requestAnimationFrame(poll);
+    };
+    poll();
+    return () => {
+      cancelAnimationFrame(frame);
+      setGamepadLearning(false);
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [selectedId, profile, isLearning]);
+
+  const startLearning = () => {
+    // inputs held when learning starts must be released first
+    baselineRef.current = new Set(activeInputs);
+    setBoundInput(null);
+    setIsLearning(true);
+  };
+
+  const getInputLabel = (input: GamepadInput) =>
+    input.type === 'button'
+      ? _('Button {{index}}', { index: input.index })
+      : _('Axis {{index}} {{direction}}', {
+          index: input.index,
+          direction: input.direction > 0 ? '+' : '−',
+        });
+
+  if (!selectedId || !profile) {
+    return (
+      <p className='text-base-content/70 px-4 py-3 text-sm'>
+        {_('Connect a controller and press any button to configure it.')}
+      </p>
+    );
+  }
+
+  const keyActionLabels: Record<GamepadKeyAction, string> = {
+    pressEnter: _('Enter Key'),
+    pressTab: _('Tab Key'),
+    pressX: _('X Key'),
+    pressY: _('Y Key'),
+  };
+  const actionLabel = (action: GamepadAction) =>
+    isGamepadKeyAction(action) ? keyActionLabels[action] : actionLabels[action];
+  const actions: GamepadAction[] = [
+    ...(Object.keys(GAMEPAD_KEY_ACTIONS) as GamepadKeyAction[]),
+    ...(Object.keys(DEFAULT_SHORTCUTS) as ShortcutAction[]),
+  ];
+
+  return (
+    <div className='divide-base-200 divide-y'>
+      <div className='config-item'>
+        <span className=''>{_('Controller')}</span>
+        <select
+          className='select select-bordered select-sm max-w-[60%] truncate'
+          value={selectedId}
+          onChange={(e) => selectGamepad(e.target.value)}
+        >
+          {gamepadIds.map((id) => (
+            <option key={id} value={id}>
+              {id}
+            </option>
+          ))}
+        </select>
+      </div>
+      {profile.bindings.map((binding, index) => {
+        const inputKey = getGamepadInputKey(binding.input);
+        return (
+          <div key={inputKey} className='config-item'>
+            <span
+              className={clsx(
+                'text-sm',
+                activeInputs.includes(inputKey) && 'text-primary',
+                boundInput && getGamepadInputKey(boundInput.input) === inputKey && 'text-warning',
+              )}
+            >
+              {getInputLabel(binding.input)}
+            </span>
+            <div className='flex items-center gap-1'>
+              <select
+                className='select select-bordered select-sm'
+                value={binding.action}
+                onChange={(e) => {
+                  const bindings = [...profile.bindings];
+                  bindings[index] = { ...binding, action: e.target.value as GamepadAction };
+                  updateProfile({ ...profile, bindings });
+                }}
+              >
+                {actions.map((action) => (
+                  <option key={action} value={action}>
+                    {actionLabel(action)}
+                  </option>
+                ))}
+              </select>
+              <button
+                className='btn btn-ghost btn-xs'
+                aria-label={_('Remove')}
+                onClick={() =>
+                  updateProfile({
+                    ...profile,
+                    bindings: profile.bindings.filter((_, i) => i !== index),
+                  })
+                }
+              >
+                <MdClose />
+              </button>
+            </div>
+          </div>
+        );
+      })}
+      <div className='config-item'>
+        <span className={clsx('text-sm', boundInput ? 'text-warning' : 'text-base-content/70')}>
+          {isLearning
+            ? _('Press a button or move a stick on the controller...')
+            : boundInput
+              ? _('{{input}} is already mapped to {{action}}', {
+                  input: getInputLabel(boundInput.input),
+                  action: actionLabel(boundInput.action),
+                })
+              : _('Learn a new button or stick direction')}
+        </span>
+        <div className='flex gap-1'>
+          <button
+            className={clsx('btn btn-sm', isLearning && 'btn-active animate-pulse')}
+            onClick={() => (isLearning ? setIsLearning(false) : startLearning())}
+          >
+            {isLearning ? _('Cancel') : _('Learn')}
+          </button>
+          <button
+            className='btn btn-ghost btn-sm'
+            onClick={() => {
+              saveGamepadProfile(selectedId, null);
+              setProfile(loadGamepadProfile(selectedId));
+              setBoundInput(null);
+            }}
+          >
+            {_('Reset')}
+          </button>
+        </div>
+      </div>
+      <NumberInput
+        label={_('Stick Deadzone (%)')}
+        value={profile.deadzone}
+        onChange={(deadzone) => updateProfile({ ...profile, deadzone })}
+        min={5}
+        max={95}
+        step={5}
+      />
+      <NumberInput
+        label={_('Repeat Delay (ms)')}
+        value={profile.repeatDelay}
+        onChange={(repeatDelay) => updateProfile({ ...profile, repeatDelay })}
+        min={100}
+        max={2000}
+        step={50}
+      />
+      <NumberInput
+        label={_('Repeat Rate (per second)')}
+        value={profile.repeatRate}
+        onChange={(repeatRate) => updateProfile({ ...profile, repeatRate })}
+        min={0}
+        max={20}
+      />
+    </div>
+  );
+};
+
+export default GamepadMapping;
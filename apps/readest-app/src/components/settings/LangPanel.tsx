@@ -14,6 +14,7 @@ import { SettingsPanelPanelProp } from './SettingsDialog';
 import { getDirFromLanguage } from '@/utils/rtl';
 import { isCJKEnv } from '@/utils/misc';
 import Select from '@/components/Select';
+import DictionarySettings from './DictionarySettings';
 
 const LangPanel: React.FC<SettingsPanelPanelProp> = ({ bookKey, onRegisterReset }) => {
   const _ = useTranslation();
@@ -317,6 +318,8 @@ const LangPanel: React.FC<SettingsPanelPanelProp> = ({ bookKey, onRegisterReset
         </div>
       </div>
 
+      <DictionarySettings />
+
       {(isCJKEnv() || view?.language.isCJK) && (
         <div className='w-full' data-setting-id='settings.language.quotationMarks'>
           <h2 className='mb-2 font-medium'>{_('Punctuation')}</h2>
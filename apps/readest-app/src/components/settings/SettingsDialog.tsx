@@ -10,7 +10,7 @@ import { VscSymbolColor } from 'react-icons/vsc';
 import { PiDotsThreeVerticalBold, PiRobot } from 'react-icons/pi';
 import { LiaHandPointerSolid } from 'react-icons/lia';
 import { IoAccessibilityOutline } from 'react-icons/io5';
-import { MdArrowBackIosNew, MdArrowForwardIos, MdClose } from 'react-icons/md';
+import { MdArrowBackIosNew, MdArrowForwardIos, MdClose, MdKeyboard } from 'react-icons/md';
 import { FiSearch } from 'react-icons/fi';
 import { getDirFromUILanguage } from '@/utils/rtl';
 import { getCommandPaletteShortcut } from '@/services/environment';
@@ -24,6 +24,7 @@ import ControlPanel from './ControlPanel';
 import LangPanel from './LangPanel';
 import MiscPanel from './MiscPanel';
 import AIPanel from './AIPanel';
+import ShortcutsPanel from './ShortcutsPanel';
 import { useCommandPalette } from '@/components/command-palette';
 
 export type SettingsPanelType =
@@ -33,6 +34,7 @@ export type SettingsPanelType =
   | 'Control'
   | 'Language'
   | 'AI'
+  | 'Shortcuts'
   | 'Custom';
 export type SettingsPanelPanelProp = {
   bookKey: string;
@@ -95,6 +97,11 @@ const SettingsDialog: React.FC<{ bookKey: string }> = ({ bookKey }) => {
       label: _('AI Assistant'),
       disabled: process.env.NODE_ENV === 'production',
     },
+    {
+      tab: 'Shortcuts',
+      icon: MdKeyboard,
+      label: _('Shortcuts'),
+    },
     {
       tab: 'Custom',
       icon: IoAccessibilityOutline,
@@ -135,6 +142,7 @@ const SettingsDialog: React.FC<{ bookKey: string }> = ({ bookKey }) => {
     Control: null,
     Language: null,
     AI: null,
+    Shortcuts: null,
     Custom: null,
   });
 
@@ -167,6 +175,7 @@ const SettingsDialog: React.FC<{ bookKey: string }> = ({ bookKey }) => {
         control: 'Control',
         language: 'Language',
         ai: 'AI',
+        shortcuts: 'Shortcuts',
         custom: 'Custom',
       };
       const panelKey = parts[1]?.toLowerCase();
@@ -380,6 +389,12 @@ const SettingsDialog: React.FC<{ bookKey: string }> = ({ bookKey }) => {
           />
         )}
         {activePanel === 'AI' && <AIPanel />}
+        {activePanel === 'Shortcuts' && (
+          <ShortcutsPanel
+            bookKey={bookKey}
+            onRegisterReset={(fn) => registerResetFunction('Shortcuts', fn)}
+          />
+        )}
         {activePanel === 'Custom' && (
           <MiscPanel
             bookKey={bookKey}
@@ -0,0 +1,268 @@
+import clsx from 'clsx';
+import React, { useEffect, useState } from 'react';
+import { MdAdd, MdClose, MdRestartAlt } from 'react-icons/md';
+import { useTranslation } from '@/hooks/useTranslation';
+import {
+  DEFAULT_SHORTCUTS,
+  SHORTCUT_CONTEXTS,
+  ShortcutAction,
+  ShortcutConfig,
+  ShortcutContext,
+  findShortcutConflicts,
+  getShortcutFromKeyEvent,
+  loadShortcuts,
+  normalizeShortcut,
+  resetShortcuts,
+  saveShortcuts,
+} from '@/helpers/shortcuts';
+import { SettingsPanelPanelProp } from './SettingsDialog';
+import GamepadMapping from './GamepadMapping';
+
+type TranslationFunc = ReturnType<typeof useTranslation>;
+
+const getActionLabels = (_: TranslationFunc): Record<ShortcutAction, string> => ({
+  onSwitchSideBar: _('Switch Sidebar Tab'),
+  onToggleSideBar: _('Toggle Sidebar'),
+  onToggleNotebook: _('Toggle Notebook'),
+  onShowSearchBar: _('Search Book'),
+  onToggleScrollMode: _('Toggle Scrolled Mode'),
+  onToggleSelectMode: _('Toggle Select Mode'),
+  onToggleBookmark: _('Toggle Bookmark'),
+  onToggleTTS: _('Toggle Read Aloud'),
+  onToggleParagraphMode: _('Toggle Paragraph Mode'),
+  onHighlightSelection: _('Highlight'),
+  onUnderlineSelection: _('Underline'),
+  onAnnotateSelection: _('Annotate'),
+  onSearchSelection: _('Search'),
+  onCopySelection: _('Copy'),
+  onTranslateSelection: _('Translate'),
+  onDictionarySelection: _('Dictionary'),
+  onWikipediaSelection: _('Wikipedia'),
+  onReadAloudSelection: _('Read Aloud'),
+  onProofreadSelection: _('Proofread'),
+  onOpenFontLayoutSettings: _('Open Settings'),
+  onOpenCommandPalette: _('Open Command Palette'),
+  onOpenBooks: _('Open Books'),
+  onReloadPage: _('Reload Page'),
+  onToggleFullscreen: _('Fullscreen'),
+  onCloseWindow: _('Close Window'),
+  onQuitApp: _('Quit App'),
+  onGoLeft: _('Go Left'),
+  onGoRight: _('Go Right'),
+  onGoUp: _('Go Up'),
+  onGoDown: _('Go Down'),
+  onGoNext: _('Next Page'),
+  onGoPrev: _('Previous Page'),
+  onGoLeftSection: _('Go Left Section'),
+  onGoRightSection: _('Go Right Section'),
+  onGoPrevSection: _('Previous Section'),
+  onGoNextSection: _('Next Section'),
+  onGoHalfPageDown: _('Half Page Down'),
+  onGoHalfPageUp: _('Half Page Up'),
+  onGoBack: _('Go Back'),
+  onGoForward: _('Go Forward'),
+  onZoomIn: _('Zoom In'),
+  onZoomOut: _('Zoom Out'),
+  onResetZoom: _('Reset Zoom'),
+  onSaveNote: _('Save Note'),
+  onEscape: _('Close or Cancel'),
+});
+
+const KEY_SYMBOLS: Record<string, string> = {
+  ' ': 'Space',
+  arrowleft: '←',
+  arrowright: '→',
+  arrowup: '↑',
+  arrowdown: '↓',
+  pageup: 'PageUp',
+  pagedown: 'PageDown',
+};
+
+const formatShortcut = (shortcut: string) =>
+  normalizeShortcut(shortcut)
+    .split('+')
+    .map((part) => KEY_SYMBOLS[part] ?? part[0]!.toUpperCase() + part.slice(1))
+    .join('+');
+
+const isDefaultShortcuts = (action: ShortcutAction, shortcuts: string[]) => {
+  const defaults = DEFAULT_SHORTCUTS[action].map(normalizeShortcut);
+  const current = shortcuts.map(normalizeShortcut);
+  return defaults.length === current.length && defaults.every((s) => current.includes(s));
+};
+
+const ShortcutsPanel: React.FC<SettingsPanelPanelProp> = ({ onRegisterReset }) => {
+  const _ = useTranslation();
+  const [shortcuts, setShortcuts] = useState<ShortcutConfig>(loadShortcuts);
+  const [recordingAction, setRecordingAction] = useState<ShortcutAction | null>(null);
+  const actionLabels = getActionLabels(_);
+
+  const contextLabels: Record<ShortcutContext, string> = {
+    reader: _('Reader'),
+    selection: _('Text Selection'),
+    global: _('Application'),
+  };
+
+  const handleReset = () => {
+    resetShortcuts();
+    setShortcuts(loadShortcuts());
+    setRecordingAction(null);
+  };
+
+  useEffect(() => {
+    onRegisterReset(handleReset);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const updateShortcuts = (action: ShortcutAction, actionShortcuts: string[]) => {
+    const newShortcuts = { ...shortcuts, [action]: actionShortcuts };
+    setShortcuts(newShortcuts);
+    saveShortcuts(newShortcuts);
+  };
+
+  useEffect(() => {
+    if (!recordingAction) return;
+
+    // capture the key combo before any other shortcut handler sees it
+    const handleKeyDown = (event: KeyboardEvent) => {
+      event.preventDefault();
+      event.stopImmediatePropagation();
+      if (event.key === 'Escape' && !event.ctrlKey && !event.altKey && !event.metaKey) {
+        setRecordingAction(null);
+        return;
+      }
+      const shortcut = getShortcutFromKeyEvent(event);
+      if (!shortcut) return;
+      const current = shortcuts[recordingAction];
+      const normalized = normalizeShortcut(shortcut);
+      if (!current.some((s) => normalizeShortcut(s) === normalized)) {
+        updateShortcuts(recordingAction, [...current, shortcut]);
+      }
+      setRecordingAction(null);
+    };
+
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [recordingAction, shortcuts]);
+
+  const handleRemoveShortcut = (action: ShortcutAction, shortcut: string) => {
+    updateShortcuts(
+      action,
+      shortcuts[action].filter((s) => s !== shortcut),
+    );
+  };
+
+  const handleResetAction = (action: ShortcutAction) => {
+    updateShortcuts(action, [...DEFAULT_SHORTCUTS[action]]);
+  };
+
+  const contexts: ShortcutContext[] = ['reader', 'selection', 'global'];
+  const actions = Object.keys(DEFAULT_SHORTCUTS) as ShortcutAction[];
+
+  return (
+    <div className='my-4 w-full space-y-6'>
+      <p className='text-base-content/70 text-sm'>
+        {_('Click + and press a key combination to add a shortcut. Press Escape to cancel.')}
+      </p>
+      {contexts.map((context) => (
+        <div key={context} className='w-full' data-setting-id={`settings.shortcuts.${context}`}>
+          <h2 className='mb-2 font-medium'>{contextLabels[context]}</h2>
+          <div className='card border-base-200 bg-base-100 border shadow'>
+            <div className='divide-base-200 divide-y'>
+              {actions
+                .filter((action) => SHORTCUT_CONTEXTS[action] === context)
+                .map((action) => {
+                  const conflicts = findShortcutConflicts(shortcuts, action);
+                  const isRecording = recordingAction === action;
+                  return (
+                    <div key={action} className='flex flex-col gap-1 px-4 py-2'>
+                      <div className='flex items-center justify-between gap-2'>
+                        <span className='text-sm'>{actionLabels[action]}</span>
+                        <div className='flex flex-wrap items-center justify-end gap-1'>
+                          {shortcuts[action].map((shortcut) => {
+                            const normalized = normalizeShortcut(shortcut);
+                            const matches = conflicts.filter(
+                              (c) => normalizeShortcut(c.shortcut) === normalized,
+                            );
+                            return (
+                              <span
+                                key={shortcut}
+                                className={clsx(
+                                  'badge gap-1 font-mono text-xs',
+                                  matches.some((c) => c.sameContext)
+                                    ? 'badge-error'
+                                    : matches.length > 0
+                                      ? 'badge-warning'
+                                      : 'badge-ghost',
+                                )}
+                              >
+                                {formatShortcut(shortcut)}
+                                <button
+                                  aria-label={_('Remove')}
+                                  onClick={() => handleRemoveShortcut(action, shortcut)}
+                                >
+                                  <MdClose />
+                                </button>
+                              </span>
+                            );
+                          })}
+                          <button
+                            className={clsx(
+                              'btn btn-ghost btn-xs',
+                              isRecording && 'btn-active animate-pulse',
+                            )}
+                            title={_('Add Shortcut')}
+                            onClick={() => setRecordingAction(isRecording ? null : action)}
+                          >
+                            {isRecording ? _('Press keys...') : <MdAdd />}
+                          </button>
+                          {!isDefaultShortcuts(action, shortcuts[action]) && (
+                            <button
+                              className='btn btn-ghost btn-xs'
+                              title={_('Reset to Default')}
+                              onClick={() => handleResetAction(action)}
+                            >
+                              <MdRestartAlt />
+                            </button>
+                          )}
+                        </div>
+                      </div>
+                      {conflicts.map((conflict) => (
+                        <span
+                          key={`${conflict.action}-${conflict.shortcut}`}
+                          className={clsx(
+                            'text-xs',
+                            conflict.sameContext ? 'text-error' : 'text-warning',
+                          )}
+                        >
+                          {conflict.sameContext
+                            ? _('{{shortcut}} conflicts with "{{action}}" ({{context}})', {
+                                shortcut: formatShortcut(conflict.shortcut),
+                                action: actionLabels[conflict.action],
+                                context: contextLabels[SHORTCUT_CONTEXTS[conflict.action]],
+                              })
+                            : _('{{shortcut}} also triggers "{{action}}" ({{context}})', {
+                                shortcut: formatShortcut(conflict.shortcut),
+                                action: actionLabels[conflict.action],
+                                context: contextLabels[SHORTCUT_CONTEXTS[conflict.action]],
+                              })}
+                        </span>
+                      ))}
+                    </div>
+                  );
+                })}
+            </div>
+          </div>
+        </div>
+      ))}
+      <div className='w-full' data-setting-id='settings.shortcuts.gamepad'>
+        <h2 className='mb-2 font-medium'>{_('Game Controllers and Remotes')}</h2>
+        <div className='card border-base-200 bg-base-100 border shadow'>
+          <GamepadMapping actionLabels={actionLabels} />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ShortcutsPanel;
@@ -0,0 +1,140 @@
+import { loadShortcuts, ShortcutAction } from './shortcuts';
+
+export type GamepadInput =
+  | { type: 'button'; index: number }
+  | { type: 'axis'; index: number; direction: 1 | -1 };
+
+// plain keys that move the focus and press buttons in dialogs and menus
+export const GAMEPAD_KEY_ACTIONS = {
+  pressEnter: { key: 'Enter', code: 'Enter' },
+  pressTab: { key: 'Tab', code: 'Tab' },
+  pressX: { key: 'x', code: 'KeyX' },
+  pressY: { key: 'y', code: 'KeyY' },
+} as const;
+
+export type GamepadKeyAction = keyof typeof GAMEPAD_KEY_ACTIONS;
+export type GamepadAction = ShortcutAction | GamepadKeyAction;
+
+export const isGamepadKeyAction = (action: GamepadAction): action is GamepadKeyAction =>
+  action in GAMEPAD_KEY_ACTIONS;
+
+export interface GamepadBinding {
+  input: GamepadInput;
+  action: GamepadAction;
+}
+
+export interface GamepadProfile {
+  bindings: GamepadBinding[];
+  deadzone: number; // percent of the axis range ignored around the center
+  repeatDelay: number; // ms before a held input starts repeating
+  repeatRate: number; // repeats per second, 0 disables repeating
+}
+
+const button = (index: number): GamepadInput => ({ type: 'button', index });
+const axis = (index: number, direction: 1 | -1): GamepadInput => ({
+  type: 'axis',
+  index,
+  direction,
+});
+
+// Standard gamepad layout, see https://w3c.github.io/gamepad/#remapping
+export const DEFAULT_GAMEPAD_PROFILE: GamepadProfile = {
+  bindings: [
+    { input: button(0), action: 'pressEnter' }, // A
+    { input: button(1), action: 'onEscape' }, // B
+    { input: button(2), action: 'pressX' }, // X
+    { input: button(3), action: 'pressY' }, // Y
+    { input: button(4), action: 'onGoLeft' }, // LB
+    { input: button(5), action: 'onGoRight' }, // RB
+    { input: button(6), action: 'onGoLeft' }, // LT
+    { input: button(7), action: 'onGoRight' }, // RT
+    { input: button(8), action: 'pressTab' }, // Select/Back
+    { input: button(9), action: 'onEscape' }, // Start/Menu
+    { input: button(12), action: 'onGoUp' }, // D-pad Up
+    { input: button(13), action: 'onGoDown' }, // D-pad Down
+    { input: button(14), action: 'onGoLeft' }, // D-pad Left
+    { input: button(15), action: 'onGoRight' }, // D-pad Right
+    { input: axis(0, -1), action: 'onGoLeft' }, // Left stick
+    { input: axis(0, 1), action: 'onGoRight' },
+    { input: axis(1, -1), action: 'onGoUp' },
+    { input: axis(1, 1), action: 'onGoDown' },
+    { input: axis(2, -1), action: 'onGoLeft' }, // Right stick
+    { input: axis(2, 1), action: 'onGoRight' },
+    { input: axis(3, -1), action: 'onGoUp' },
+    { input: axis(3, 1), action: 'onGoDown' },
+  ],
+  deadzone: 50,
+  repeatDelay: 500,
+  repeatRate: 0,
+};
+
+export const getGamepadInputKey = (input: GamepadInput) =>
+  input.type === 'button'
+    ? `button:${input.index}`
+    : `axis:${input.index}:${input.direction > 0 ? '+' : '-'}`;
+
+// inputs currently pressed on the gamepad, axes count once they leave the deadzone
+export const getActiveGamepadInputs = (
+  gamepad: Pick<Gamepad, 'buttons' | 'axes'>,
+  deadzone: number,
+): GamepadInput[] => {
+  const inputs: GamepadInput[] = [];
+  gamepad.buttons.forEach((b, index) => {
+    if (b.pressed) inputs.push(button(index));
+  });
+  gamepad.axes.forEach((value, index) => {
+    if (Math.abs(value) > deadzone / 100) inputs.push(axis(index, value > 0 ? 1 : -1));
+  });
+  return inputs;
+};
+
+// the keyboard event of a plain key, or the one that triggers the action with its first shortcut
+export const getActionKeyboardEventInit = (action: GamepadAction): KeyboardEventInit | null => {
+  if (isGamepadKeyAction(action)) {
+    return { ...GAMEPAD_KEY_ACTIONS[action], bubbles: true, cancelable: true };
+  }
+  const shortcut = loadShortcuts()[action]?.[0];
+  if (!shortcut) return null;
+  const parts = shortcut.split('+');
+  const key = parts.pop()!;
+  const modifiers = parts.map((part) => part.toLowerCase());
+  return {
+    key,
+    ctrlKey: modifiers.includes('ctrl'),
+    altKey: modifiers.includes('alt') || modifiers.includes('opt'),
+    metaKey: modifiers.includes('meta') || modifiers.includes('cmd'),
+    shiftKey: modifiers.includes('shift'),
+    bubbles: true,
+    cancelable: true,
+  };
+};
+
+const PROFILES_KEY = 'gamepadProfiles';
+
+export const loadGamepadProfiles = (): Record<string, GamepadProfile> => {
+  if (typeof localStorage === 'undefined') return {};
+  return JSON.parse(localStorage.getItem(PROFILES_KEY) || '{}');
+};
+
+// Profiles are saved per controller id as reported by the Gamepad API
+export const loadGamepadProfile = (gamepadId: string): GamepadProfile => {
+  return { ...DEFAULT_GAMEPAD_PROFILE, ...loadGamepadProfiles()[gamepadId] };
+};
+
+export const saveGamepadProfile = (gamepadId: string, profile: GamepadProfile | null) => {
+  const profiles = loadGamepadProfiles();
+  if (profile) {
+    profiles[gamepadId] = profile;
+  } else {
+    delete profiles[gamepadId];
+  }
+  localStorage.setItem(PROFILES_KEY, JSON.stringify(profiles));
+  window.dispatchEvent(new Event('gamepadProfileUpdate'));
+};
+
+// While the settings are learning a new binding, gamepad input must not trigger actions
+let gamepadLearning = false;
+export const setGamepadLearning = (learning: boolean) => {
+  gamepadLearning = learning;
+};
+export const isGamepadLearning = () => gamepadLearning;
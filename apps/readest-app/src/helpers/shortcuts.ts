@@ -1,4 +1,4 @@
-const DEFAULT_SHORTCUTS = {
+export const DEFAULT_SHORTCUTS = {
   onSwitchSideBar: ['ctrl+Tab', 'opt+Tab', 'alt+Tab'],
   onToggleSideBar: ['s'],
   onToggleNotebook: ['n'],
@@ -50,6 +50,127 @@ export type ShortcutConfig = {
   [K in keyof typeof DEFAULT_SHORTCUTS]: string[];
 };
 
+// Where a shortcut is active: reader shortcuts work while reading, selection
+// shortcuts while text is selected and global ones everywhere in the app
+export type ShortcutContext = 'reader' | 'selection' | 'global';
+
+export type ShortcutAction = keyof ShortcutConfig;
+
+export const SHORTCUT_CONTEXTS: Record<ShortcutAction, ShortcutContext> = {
+  onSwitchSideBar: 'reader',
+  onToggleSideBar: 'reader',
+  onToggleNotebook: 'reader',
+  onShowSearchBar: 'reader',
+  onToggleScrollMode: 'reader',
+  onToggleSelectMode: 'reader',
+  onToggleBookmark: 'reader',
+  onToggleTTS: 'reader',
+  onToggleParagraphMode: 'reader',
+  onHighlightSelection: 'selection',
+  onUnderlineSelection: 'selection',
+  onAnnotateSelection: 'selection',
+  onSearchSelection: 'selection',
+  onCopySelection: 'selection',
+  onTranslateSelection: 'selection',
+  onDictionarySelection: 'selection',
+  onWikipediaSelection: 'selection',
+  onReadAloudSelection: 'selection',
+  onProofreadSelection: 'selection',
+  onOpenFontLayoutSettings: 'reader',
+  onOpenCommandPalette: 'global',
+  onOpenBooks: 'global',
+  onReloadPage: 'global',
+  onToggleFullscreen: 'global',
+  onCloseWindow: 'global',
+  onQuitApp: 'global',
+  onGoLeft: 'reader',
+  onGoRight: 'reader',
+  onGoUp: 'reader',
+  onGoDown: 'reader',
+  onGoNext: 'reader',
+  onGoPrev: 'reader',
+  onGoLeftSection: 'reader',
+  onGoRightSection: 'reader',
+  onGoPrevSection: 'reader',
+  onGoNextSection: 'reader',
+  onGoHalfPageDown: 'reader',
+  onGoHalfPageUp: 'reader',
+  onGoBack: 'reader',
+  onGoForward: 'reader',
+  onZoomIn: 'reader',
+  onZoomOut: 'reader',
+  onResetZoom: 'reader',
+  onSaveNote: 'global',
+  onEscape: 'global',
+};
+
+const MODIFIER_ALIASES: Record<string, string> = {
+  ctrl: 'ctrl',
+  control: 'ctrl',
+  alt: 'alt',
+  opt: 'alt',
+  option: 'alt',
+  cmd: 'cmd',
+  meta: 'cmd',
+  shift: 'shift',
+};
+const MODIFIER_ORDER = ['ctrl', 'alt', 'shift', 'cmd'];
+
+// normalizes a shortcut so that e.g. 'ctrl+Shift+p' and 'shift+ctrl+P' compare equal
+export const normalizeShortcut = (shortcut: string) => {
+  const parts = shortcut.split('+');
+  const key = parts.pop()!.toLowerCase();
+  const modifiers = new Set(parts.map((part) => MODIFIER_ALIASES[part.toLowerCase()] ?? part));
+  return [...MODIFIER_ORDER.filter((m) => modifiers.has(m)), key].join('+');
+};
+
+// builds a shortcut string from a key event, null while only modifiers are pressed
+export const getShortcutFromKeyEvent = (event: {
+  key: string;
+  ctrlKey: boolean;
+  altKey: boolean;
+  metaKey: boolean;
+  shiftKey: boolean;
+}) => {
+  const { key, ctrlKey, altKey, metaKey, shiftKey } = event;
+  if (['Control', 'Alt', 'Meta', 'Shift', 'OS', 'Dead', '+'].includes(key)) return null;
+  const modifiers = [ctrlKey && 'ctrl', altKey && 'alt', shiftKey && 'shift', metaKey && 'cmd'];
+  const keyName = key.length === 1 ? key.toLowerCase() : key;
+  return [...modifiers.filter(Boolean), keyName].join('+');
+};
+
+export interface ShortcutConflict {
+  action: ShortcutAction;
+  shortcut: string;
+  // same context conflicts always fire together, reader and selection ones only while text is selected
+  sameContext: boolean;
+}
+
+const contextsOverlap = (a: ShortcutContext, b: ShortcutContext) =>
+  a === b || a === 'global' || b === 'global';
+
+export const findShortcutConflicts = (
+  shortcuts: ShortcutConfig,
+  action: ShortcutAction,
+  candidates: string[] = shortcuts[action],
+): ShortcutConflict[] => {
+  const conflicts: ShortcutConflict[] = [];
+  const normalized = new Set(candidates.map(normalizeShortcut));
+  for (const [other, otherShortcuts] of Object.entries(shortcuts)) {
+    if (other === action) continue;
+    const otherAction = other as ShortcutAction;
+    for (const shortcut of otherShortcuts) {
+      if (!normalized.has(normalizeShortcut(shortcut))) continue;
+      conflicts.push({
+        action: otherAction,
+        shortcut,
+        sameContext: contextsOverlap(SHORTCUT_CONTEXTS[action], SHORTCUT_CONTEXTS[otherAction]),
+      });
+    }
+  }
+  return conflicts;
+};
+
 // Load shortcuts from localStorage or fallback to defaults
 export const loadShortcuts = (): ShortcutConfig => {
   if (typeof localStorage === 'undefined') return DEFAULT_SHORTCUTS;
@@ -63,4 +184,10 @@ export const loadShortcuts = (): ShortcutConfig => {
 // Save custom shortcuts to localStorage
 export const saveShortcuts = (shortcuts: ShortcutConfig) => {
   localStorage.setItem('customShortcuts', JSON.stringify(shortcuts));
+  window.dispatchEvent(new Event('shortcutUpdate'));
+};
+
+export const resetShortcuts = () => {
+  localStorage.removeItem('customShortcuts');
+  window.dispatchEvent(new Event('shortcutUpdate'));
 };
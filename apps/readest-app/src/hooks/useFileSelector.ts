@@ -139,6 +139,21 @@ export const FILE_SELECTION_PRESETS = {
     extensions: ['ttf', 'otf', 'woff', 'woff2'],
     dialogTitle: _('Select Fonts'),
   },
+  ttsVoices: {
+    accept: '.onnx, .json',
+    extensions: ['onnx', 'json'],
+    dialogTitle: _('Select Voice Model'),
+  },
+  dictionaries: {
+    accept: '.ifo, .idx, .dict, .dz, .syn, .index, .mdx, .gz',
+    extensions: ['ifo', 'idx', 'dict', 'dz', 'syn', 'index', 'mdx', 'gz'],
+    dialogTitle: _('Select Dictionary Files'),
+  },
+  annotations: {
+    accept: '.txt, .lua, .md, .markdown, .csv',
+    extensions: ['txt', 'lua', 'md', 'markdown', 'csv'],
+    dialogTitle: _('Select Annotation Files'),
+  },
   covers: {
     accept: '.png, .jpg, .jpeg, .gif',
     extensions: ['png', 'jpg', 'jpeg', 'gif'],
@@ -0,0 +1,63 @@
+import { useCallback, useEffect, useMemo, useRef } from 'react';
+import { useSync } from '@/hooks/useSync';
+import { useEnv } from '@/context/EnvContext';
+import { useAuth } from '@/context/AuthContext';
+import { ReadingSession } from '@/types/book';
+import { useStatisticsStore } from '@/store/statisticsStore';
+import { SYNC_NOTES_INTERVAL_SEC } from '@/services/constants';
+import { throttle } from '@/utils/throttle';
+
+const getNewSessions = (sessions: ReadingSession[], lastSyncedAt: number) =>
+  sessions.filter(
+    (session) => lastSyncedAt < session.updatedAt || lastSyncedAt < (session.deletedAt ?? 0),
+  );
+
+export const useSessionsSync = () => {
+  const { user } = useAuth();
+  const { envConfig } = useEnv();
+  const { sessions, loadSessions, mergeSessions } = useStatisticsStore();
+  const { useSyncInited, syncedSessions, syncSessions, lastSyncedAtSessions } = useSync();
+  // the sync callbacks outlive the render they were created in and read the sync state here
+  const syncStateRef = useRef({ syncSessions, lastSyncedAtSessions });
+
+  useEffect(() => {
+    syncStateRef.current = { syncSessions, lastSyncedAtSessions };
+  }, [syncSessions, lastSyncedAtSessions]);
+
+  const syncReadingSessions = useCallback(async () => {
+    if (!user) return;
+    const sessions = await loadSessions(envConfig);
+    const { syncSessions, lastSyncedAtSessions } = syncStateRef.current;
+    await syncSessions(getNewSessions(sessions, lastSyncedAtSessions), 'both');
+  }, [user, envConfig, loadSessions]);
+
+  // sessions are pushed like notes, shortly after they are recorded by the reader
+  const handleAutoSync = useMemo(
+    () =>
+      throttle((push: typeof syncSessions, lastSyncedAt: number) => {
+        const newSessions = getNewSessions(useStatisticsStore.getState().sessions, lastSyncedAt);
+        if (newSessions.length) push(newSessions, 'push');
+      }, SYNC_NOTES_INTERVAL_SEC * 1000),
+    [],
+  );
+
+  useEffect(() => {
+    if (!user || !useSyncInited) return;
+    syncReadingSessions();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [user, useSyncInited]);
+
+  useEffect(() => {
+    if (!user || !useSyncInited || !sessions.length) return;
+    handleAutoSync(syncSessions, lastSyncedAtSessions);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [sessions, handleAutoSync]);
+
+  useEffect(() => {
+    if (!syncedSessions?.length) return;
+    mergeSessions(envConfig, syncedSessions);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [syncedSessions]);
+
+  return { syncReadingSessions };
+};
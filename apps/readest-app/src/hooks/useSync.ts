@@ -8,8 +8,23 @@ import { useBookDataStore } from '@/store/bookDataStore';
 import { transformBookConfigFromDB } from '@/utils/transform';
 import { transformBookNoteFromDB } from '@/utils/transform';
 import { transformBookFromDB } from '@/utils/transform';
-import { DBBook, DBBookConfig, DBBookNote } from '@/types/records';
-import { Book, BookConfig, BookDataRecord, BookNote } from '@/types/book';
+import { transformReadingSessionFromDB } from '@/utils/transform';
+import { transformVocabularyWordFromDB } from '@/utils/transform';
+import {
+  DBBook,
+  DBBookConfig,
+  DBBookNote,
+  DBReadingSession,
+  DBVocabularyWord,
+} from '@/types/records';
+import {
+  Book,
+  BookConfig,
+  BookDataRecord,
+  BookNote,
+  ReadingSession,
+  VocabularyWord,
+} from '@/types/book';
 import { navigateToLogin } from '@/utils/nav';
 import { useReaderStore } from '@/store/readerStore';
 
@@ -17,6 +32,8 @@ const transformsFromDB = {
   books: transformBookFromDB,
   notes: transformBookNoteFromDB,
   configs: transformBookConfigFromDB,
+  sessions: transformReadingSessionFromDB,
+  vocabulary: transformVocabularyWordFromDB,
 };
 
 const computeMaxTimestamp = (records: BookDataRecord[]): number => {
@@ -46,10 +63,14 @@ export function useSync(bookKey?: string) {
   const [syncingBooks, setSyncingBooks] = useState(false);
   const [syncingConfigs, setSyncingConfigs] = useState(false);
   const [syncingNotes, setSyncingNotes] = useState(false);
+  const [syncingSessions, setSyncingSessions] = useState(false);
+  const [syncingVocabulary, setSyncingVocabulary] = useState(false);
   const [syncError, setSyncError] = useState<string | null>(null);
   const [lastSyncedAtBooks, setLastSyncedAtBooks] = useState<number>(0);
   const [lastSyncedAtConfigs, setLastSyncedAtConfigs] = useState<number>(0);
   const [lastSyncedAtNotes, setLastSyncedAtNotes] = useState<number>(0);
+  const [lastSyncedAtSessions, setLastSyncedAtSessions] = useState<number>(0);
+  const [lastSyncedAtVocabulary, setLastSyncedAtVocabulary] = useState<number>(0);
   const [lastSyncedAtInited, setLastSyncedAtInited] = useState(false);
 
   const [syncing, setSyncing] = useState(false);
@@ -58,10 +79,14 @@ export function useSync(bookKey?: string) {
     books: null,
     configs: null,
     notes: null,
+    sessions: null,
+    vocabulary: null,
   });
   const [syncedBooks, setSyncedBooks] = useState<Book[] | null>(null);
   const [syncedConfigs, setSyncedConfigs] = useState<BookConfig[] | null>(null);
   const [syncedNotes, setSyncedNotes] = useState<BookNote[] | null>(null);
+  const [syncedSessions, setSyncedSessions] = useState<ReadingSession[] | null>(null);
+  const [syncedVocabulary, setSyncedVocabulary] = useState<VocabularyWord[] | null>(null);
 
   const { syncClient } = useSyncContext();
 
@@ -79,6 +104,8 @@ export function useSync(bookKey?: string) {
     const lastSyncedBooksAt = settings.lastSyncedAtBooks ?? 0;
     const lastSyncedConfigsAt = config?.lastSyncedAtConfig ?? settings.lastSyncedAtConfigs ?? 0;
     const lastSyncedNotesAt = config?.lastSyncedAtNotes ?? settings.lastSyncedAtNotes ?? 0;
+    const lastSyncedSessionsAt = settings.lastSyncedAtSessions ?? 0;
+    const lastSyncedVocabularyAt = settings.lastSyncedAtVocabulary ?? 0;
     const now = Date.now();
     setLastSyncedAtBooks(
       now - lastSyncedBooksAt > 3 * ONE_DAY_IN_MS ? 0 : lastSyncedBooksAt - ONE_DAY_IN_MS,
@@ -89,6 +116,12 @@ export function useSync(bookKey?: string) {
     setLastSyncedAtNotes(
       now - lastSyncedNotesAt > 3 * ONE_DAY_IN_MS ? 0 : lastSyncedNotesAt - ONE_DAY_IN_MS,
     );
+    setLastSyncedAtSessions(
+      now - lastSyncedSessionsAt > 3 * ONE_DAY_IN_MS ? 0 : lastSyncedSessionsAt - ONE_DAY_IN_MS,
+    );
+    setLastSyncedAtVocabulary(
+      now - lastSyncedVocabularyAt > 3 * ONE_DAY_IN_MS ? 0 : lastSyncedVocabularyAt - ONE_DAY_IN_MS,
+    );
     setLastSyncedAtInited(true);
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [bookKey, settings, config]);
@@ -139,6 +172,14 @@ export function useSync(bookKey?: string) {
             setConfig(bookKey, { lastSyncedAtNotes: maxTime });
           }
           break;
+        case 'sessions':
+          settings.lastSyncedAtSessions = maxTime;
+          setSettings(settings);
+          break;
+        case 'vocabulary':
+          settings.lastSyncedAtVocabulary = maxTime;
+          setSettings(settings);
+          break;
       }
       return records?.filter((rec) => !rec.deleted_at).length || 0;
     } catch (err: unknown) {
@@ -241,9 +282,53 @@ export function useSync(bookKey?: string) {
     [lastSyncedAtInited, lastSyncedAtNotes],
   );
 
+  const syncSessions = useCallback(
+    async (sessions?: ReadingSession[], op: SyncOp = 'both') => {
+      if (!lastSyncedAtInited) return;
+      if ((op === 'push' || op === 'both') && sessions?.length) {
+        await pushChanges({ sessions });
+      }
+      if (op === 'pull' || op === 'both') {
+        await pullChanges(
+          'sessions',
+          lastSyncedAtSessions,
+          setLastSyncedAtSessions,
+          setSyncingSessions,
+        );
+      }
+    },
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [lastSyncedAtInited, lastSyncedAtSessions],
+  );
+
+  const syncVocabulary = useCallback(
+    async (words?: VocabularyWord[], op: SyncOp = 'both') => {
+      if (!lastSyncedAtInited) return;
+      if ((op === 'push' || op === 'both') && words?.length) {
+        await pushChanges({ vocabulary: words });
+      }
+      if (op === 'pull' || op === 'both') {
+        await pullChanges(
+          'vocabulary',
+          lastSyncedAtVocabulary,
+          setLastSyncedAtVocabulary,
+          setSyncingVocabulary,
+        );
+      }
+    },
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [lastSyncedAtInited, lastSyncedAtVocabulary],
+  );
+
   useEffect(() => {
     if (!syncing && syncResult) {
-      const { books: dbBooks, configs: dbBookConfigs, notes: dbBookNotes } = syncResult;
+      const {
+        books: dbBooks,
+        configs: dbBookConfigs,
+        notes: dbBookNotes,
+        sessions: dbSessions,
+        vocabulary: dbVocabulary,
+      } = syncResult;
       const books = dbBooks?.map((dbBook) =>
         transformsFromDB['books'](dbBook as unknown as DBBook),
       );
@@ -253,27 +338,41 @@ export function useSync(bookKey?: string) {
       const notes = dbBookNotes?.map((dbBookNote) =>
         transformsFromDB['notes'](dbBookNote as unknown as DBBookNote),
       );
+      const sessions = dbSessions?.map((dbSession) =>
+        transformsFromDB['sessions'](dbSession as unknown as DBReadingSession),
+      );
+      const vocabulary = dbVocabulary?.map((dbWord) =>
+        transformsFromDB['vocabulary'](dbWord as unknown as DBVocabularyWord),
+      );
       if (books) setSyncedBooks(books);
       if (configs) setSyncedConfigs(configs);
       if (notes) setSyncedNotes(notes);
+      if (sessions) setSyncedSessions(sessions);
+      if (vocabulary) setSyncedVocabulary(vocabulary);
     }
   }, [syncResult, syncing]);
 
   return {
-    syncing: syncingBooks || syncingConfigs || syncingNotes,
+    syncing: syncingBooks || syncingConfigs || syncingNotes || syncingSessions || syncingVocabulary,
     syncError,
     syncResult,
     syncedBooks,
     syncedConfigs,
     syncedNotes,
+    syncedSessions,
+    syncedVocabulary,
     lastSyncedAtBooks,
     lastSyncedAtNotes,
     lastSyncedAtConfigs,
+    lastSyncedAtSessions,
+    lastSyncedAtVocabulary,
     useSyncInited: lastSyncedAtInited,
     pullChanges,
     pushChanges,
     syncBooks,
     syncConfigs,
     syncNotes,
+    syncSessions,
+    syncVocabulary,
   };
 }
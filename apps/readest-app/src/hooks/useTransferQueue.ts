@@ -2,7 +2,7 @@ import { useEffect, useCallback, useMemo } from 'react';
 import { useEnv } from '@/context/EnvContext';
 import { useTranslation } from './useTranslation';
 import { useLibraryStore } from '@/store/libraryStore';
-import { useTransferStore, TransferType } from '@/store/transferStore';
+import { useTransferStore, TransferType, OPDSDownloadOptions } from '@/store/transferStore';
 import { transferManager } from '@/services/transferManager';
 import { Book } from '@/types/book';
 
@@ -42,6 +42,10 @@ export function useTransferQueue(libraryLoaded = true, delayInit = 0) {
     return transferManager.queueDownload(book, priority);
   }, []);
 
+  const queueOPDSDownload = useCallback((options: OPDSDownloadOptions, priority?: number) => {
+    return transferManager.queueOPDSDownload(options, priority);
+  }, []);
+
   const queueBatchUploads = useCallback((books: Book[], priority?: number) => {
     return transferManager.queueBatchUploads(books, priority);
   }, []);
@@ -54,6 +58,14 @@ export function useTransferQueue(libraryLoaded = true, delayInit = 0) {
     transferManager.retryTransfer(transferId);
   }, []);
 
+  const pauseTransfer = useCallback((transferId: string) => {
+    transferManager.pauseTransfer(transferId);
+  }, []);
+
+  const resumeTransfer = useCallback((transferId: string) => {
+    transferManager.resumeTransfer(transferId);
+  }, []);
+
   const retryAllFailed = useCallback(() => {
     transferManager.retryAllFailed();
   }, []);
@@ -128,9 +140,12 @@ export function useTransferQueue(libraryLoaded = true, delayInit = 0) {
     setIsTransferQueueOpen,
     queueUpload,
     queueDownload,
+    queueOPDSDownload,
     queueBatchUploads,
     cancelTransfer,
     retryTransfer,
+    pauseTransfer,
+    resumeTransfer,
     retryAllFailed,
     pauseQueue,
     resumeQueue,
@@ -0,0 +1,59 @@
+import { useCallback, useEffect, useMemo } from 'react';
+import { useSync } from '@/hooks/useSync';
+import { useEnv } from '@/context/EnvContext';
+import { useAuth } from '@/context/AuthContext';
+import { VocabularyWord } from '@/types/book';
+import { useVocabularyStore } from '@/store/vocabularyStore';
+import { SYNC_NOTES_INTERVAL_SEC } from '@/services/constants';
+import { throttle } from '@/utils/throttle';
+
+export const useVocabularySync = () => {
+  const { user } = useAuth();
+  const { envConfig } = useEnv();
+  const { words, loadWords, mergeWords } = useVocabularyStore();
+  const { useSyncInited, syncedVocabulary, syncVocabulary, lastSyncedAtVocabulary } = useSync();
+
+  const getNewWords = (words: VocabularyWord[]) =>
+    words.filter(
+      (word) =>
+        lastSyncedAtVocabulary < word.updatedAt || lastSyncedAtVocabulary < (word.deletedAt ?? 0),
+    );
+
+  const syncVocabularyWords = useCallback(async () => {
+    if (!user) return;
+    const words = await loadWords(envConfig);
+    await syncVocabulary(getNewWords(words), 'both');
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [user, syncVocabulary]);
+
+  // words are pushed like notes, shortly after they are looked up or reviewed
+  const handleAutoSync = useMemo(
+    () =>
+      throttle(() => {
+        const newWords = getNewWords(useVocabularyStore.getState().words);
+        if (newWords.length) syncVocabulary(newWords, 'push');
+      }, SYNC_NOTES_INTERVAL_SEC * 1000),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [syncVocabulary],
+  );
+
+  useEffect(() => {
+    if (!user || !useSyncInited) return;
+    syncVocabularyWords();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [user, useSyncInited]);
+
+  useEffect(() => {
+    if (!user || !useSyncInited || !words.length) return;
+    handleAutoSync();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [words, handleAutoSync]);
+
+  useEffect(() => {
+    if (!syncedVocabulary?.length) return;
+    mergeWords(envConfig, syncedVocabulary);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [syncedVocabulary]);
+
+  return { syncVocabularyWords };
+};
@@ -1,6 +1,7 @@
 import { BookFormat } from '@/types/book';
 import { Collection, Contributor, Identifier, LanguageMap } from '@/utils/book';
 import { configureZip } from '@/utils/zip';
+import { configureArchive, is7zFile, isDjVuFile, isRARFile } from '@/utils/archive';
 import * as epubcfi from 'foliate-js/epubcfi.js';
 
 export const CFI = epubcfi;
@@ -57,6 +58,10 @@ export type BookMetadata = {
   series?: string;
   seriesIndex?: number;
   seriesTotal?: number;
+  // 0 to 5 stars
+  rating?: number;
+  // custom columns of a Calibre library keyed by their lookup name
+  customColumns?: Record<string, { name: string; value: string }>;
 
   coverImageFile?: string;
   coverImageUrl?: string;
@@ -85,6 +90,8 @@ export const EXTS: Record<BookFormat, string> = {
   AZW: 'azw',
   AZW3: 'azw3',
   CBZ: 'cbz',
+  CBR: 'cbr',
+  CB7: 'cb7',
   FB2: 'fb2',
   FBZ: 'fbz',
   TXT: 'txt',
@@ -98,6 +105,8 @@ export const MIMETYPES: Record<BookFormat, string[]> = {
   AZW: ['application/vnd.amazon.ebook'],
   AZW3: ['application/vnd.amazon.mobi8-ebook', 'application/x-mobi8-ebook'],
   CBZ: ['application/vnd.comicbook+zip', 'application/zip', 'application/x-cbz'],
+  CBR: ['application/vnd.comicbook-rar', 'application/x-cbr', 'application/vnd.rar'],
+  CB7: ['application/x-cb7', 'application/x-7z-compressed'],
   FB2: ['application/x-fictionbook+xml', 'text/xml', 'application/xml'],
   FBZ: ['application/x-zip-compressed-fb2', 'application/zip'],
   TXT: ['text/plain'],
@@ -123,6 +132,36 @@ export class DocumentLoader {
     );
   }
 
+  // Loader for RAR and 7z archives with the same shape as the zip loader,
+  // entries are extracted lazily so that only the visited pages are decompressed
+  private async makeArchiveLoader() {
+    type CompressedFile = { name: string; size: number; extract: () => Promise<File> };
+    const Archive = await configureArchive();
+    const reader = await Archive.open(this.file);
+    const files = (await reader.getFilesArray()) as { file: CompressedFile; path: string }[];
+    const map = new Map(files.map(({ file, path }) => [`${path}${file.name}`, file]));
+    const entries = Array.from(map.entries()).map(([filename, file]) => ({
+      filename,
+      directory: false,
+      uncompressedSize: file.size,
+    }));
+
+    const loadText = async (name: string) => {
+      const file = map.get(name);
+      return file ? (await file.extract()).text() : null;
+    };
+    const loadBlob = async (name: string, type?: string) => {
+      const file = map.get(name);
+      if (!file) return null;
+      const extracted = await file.extract();
+      return type ? new Blob([extracted], { type }) : extracted;
+    };
+    const getSize = (name: string) => map.get(name)?.size ?? 0;
+    const getComment = async (): Promise<string | null> => null;
+
+    return { entries, loadText, loadBlob, getSize, getComment, sha1: undefined };
+  }
+
   private async makeZipLoader() {
     const getComment = async (): Promise<string | null> => {
       const EOCD_SIGNATURE = [0x50, 0x4b, 0x05, 0x06];
@@ -218,6 +257,18 @@ export class DocumentLoader {
           book = await new EPUB(loader).init();
           format = 'EPUB';
         }
+      } else if (await isRARFile(this.file)) {
+        const loader = await this.makeArchiveLoader();
+        const { makeComicBook } = await import('foliate-js/comic-book.js');
+        book = await makeComicBook(loader, this.file);
+        format = 'CBR';
+      } else if (await is7zFile(this.file)) {
+        const loader = await this.makeArchiveLoader();
+        const { makeComicBook } = await import('foliate-js/comic-book.js');
+        book = await makeComicBook(loader, this.file);
+        format = 'CB7';
+      } else if (await isDjVuFile(this.file)) {
+        throw new Error('DjVu documents are not supported yet');
       } else if (await this.isPDF()) {
         const { makePDF } = await import('foliate-js/pdf.js');
         book = await makePDF(this.file);
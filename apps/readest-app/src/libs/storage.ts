@@ -117,6 +117,8 @@ type DownloadFileParams = {
   singleThreaded?: boolean;
   skipSslVerification?: boolean;
   onProgress?: ProgressHandler;
+  // aborts web downloads, native downloads run to the end and then throw
+  signal?: AbortSignal;
 };
 
 export const downloadFile = async ({
@@ -128,6 +130,7 @@ export const downloadFile = async ({
   singleThreaded,
   skipSslVerification,
   onProgress,
+  signal,
 }: DownloadFileParams) => {
   try {
     let downloadUrl = url;
@@ -157,11 +160,13 @@ export const downloadFile = async ({
         downloadUrl,
         onProgress,
         headers,
+        signal,
       );
       await appService.writeFile(dst, 'None', await blob.arrayBuffer());
       return responseHeaders;
     } else {
-      return await tauriDownload(
+      signal?.throwIfAborted();
+      const responseHeaders = await tauriDownload(
         downloadUrl,
         dst,
         onProgress,
@@ -170,6 +175,8 @@ export const downloadFile = async ({
         singleThreaded,
         skipSslVerification,
       );
+      signal?.throwIfAborted();
+      return responseHeaders;
     }
   } catch (error) {
     console.error(`File '${dst}' download failed:`, error);
@@ -1,29 +1,46 @@
-import { Book, BookConfig, BookNote, BookDataRecord } from '@/types/book';
+import {
+  Book,
+  BookConfig,
+  BookNote,
+  BookDataRecord,
+  ReadingSession,
+  VocabularyWord,
+} from '@/types/book';
 import { getAPIBaseUrl } from '@/services/environment';
 import { getAccessToken } from '@/utils/access';
 import { fetchWithTimeout } from '@/utils/fetch';
 
 const SYNC_API_ENDPOINT = getAPIBaseUrl() + '/sync';
 
-export type SyncType = 'books' | 'configs' | 'notes';
+export type SyncType = 'books' | 'configs' | 'notes' | 'sessions' | 'vocabulary';
 export type SyncOp = 'push' | 'pull' | 'both';
 
 interface BookRecord extends BookDataRecord, Book {}
 interface BookConfigRecord extends BookDataRecord, BookConfig {}
 interface BookNoteRecord extends BookDataRecord, BookNote {}
+interface ReadingSessionRecord extends BookDataRecord, ReadingSession {}
+interface VocabularyWordRecord extends BookDataRecord, VocabularyWord {}
 
 export interface SyncResult {
   books: BookRecord[] | null;
   notes: BookNoteRecord[] | null;
   configs: BookConfigRecord[] | null;
+  sessions: ReadingSessionRecord[] | null;
+  vocabulary: VocabularyWordRecord[] | null;
 }
 
-export type SyncRecord = BookRecord & BookConfigRecord & BookNoteRecord;
+export type SyncRecord = BookRecord &
+  BookConfigRecord &
+  BookNoteRecord &
+  ReadingSessionRecord &
+  VocabularyWordRecord;
 
 export interface SyncData {
   books?: Partial<BookRecord>[];
   notes?: Partial<BookNoteRecord>[];
   configs?: Partial<BookConfigRecord>[];
+  sessions?: Partial<ReadingSessionRecord>[];
+  vocabulary?: Partial<VocabularyWordRecord>[];
 }
 
 export class SyncClient {
@@ -61,7 +78,8 @@ export class SyncClient {
 
   /**
    * Push local changes to the server.
-   * Uses last-writer-wins logic as implemented on the server side.
+   * Uses last-writer-wins logic as implemented on the server side,
+   * except for book configs which are merged per field group.
    */
   async pushChanges(payload: SyncData): Promise<SyncResult> {
     const token = await getAccessToken();
@@ -1,38 +1,76 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
 import { NextRequest, NextResponse } from 'next/server';
-import { PostgrestError } from '@supabase/supabase-js';
-import { createSupabaseClient } from '@/utils/supabase';
 import { BookDataRecord } from '@/types/book';
-import { transformBookConfigToDB } from '@/utils/transform';
+import { transformBookConfigToDB, transformBookConfigFromDB } from '@/utils/transform';
 import { transformBookNoteToDB } from '@/utils/transform';
 import { transformBookToDB } from '@/utils/transform';
+import { transformReadingSessionToDB } from '@/utils/transform';
+import { transformVocabularyWordToDB } from '@/utils/transform';
 import { runMiddleware, corsAllMethods } from '@/utils/cors';
 import { SyncData, SyncRecord, SyncResult, SyncType } from '@/libs/sync';
-import { validateUserAndToken } from '@/utils/access';
-import { DBBook, DBBookConfig } from '@/types/records';
+import { DBBook, DBBookConfig, DBReadingSession, DBVocabularyWord } from '@/types/records';
+import { mergeBookConfigs } from '@/utils/merge';
+import {
+  createSyncStorage,
+  validateSyncUserAndToken,
+  SyncRecordKey,
+  SyncTableMissingError,
+  SyncTableName,
+} from '@/services/sync/storage';
 
 const transformsToDB = {
   books: transformBookToDB,
   book_notes: transformBookNoteToDB,
   book_configs: transformBookConfigToDB,
+  reading_sessions: transformReadingSessionToDB,
+  vocabulary_words: transformVocabularyWordToDB,
 };
 
 const DBSyncTypeMap = {
   books: 'books',
   book_notes: 'notes',
   book_configs: 'configs',
+  reading_sessions: 'sessions',
+  vocabulary_words: 'vocabulary',
 };
 
-type TableName = keyof typeof transformsToDB;
-
-type DBError = { table: TableName; error: PostgrestError };
+type TableName = SyncTableName;
+
+type DBError = { table: TableName; error: { message: string } };
+
+const DB_BOOK_CONFIG_MERGED_COLUMNS: (keyof DBBookConfig)[] = [
+  'meta_hash',
+  'location',
+  'xpointer',
+  'progress',
+  'search_config',
+  'view_settings',
+  'fields_updated_at',
+];
+
+// Book configs are merged per field group so that concurrent changes
+// of different fields on different devices are all kept
+const mergeDBBookConfigs = (client: DBBookConfig, server: DBBookConfig, userId: string) => {
+  const merged = mergeBookConfigs(
+    transformBookConfigFromDB(server),
+    transformBookConfigFromDB(client),
+  );
+  const dbRec = transformBookConfigToDB(
+    { ...merged, bookHash: server.book_hash, metaHash: client.meta_hash ?? server.meta_hash },
+    userId,
+  );
+  const changed = DB_BOOK_CONFIG_MERGED_COLUMNS.some(
+    (column) => (dbRec[column] ?? null) !== (server[column] ?? null),
+  );
+  return { dbRec, changed };
+};
 
 export async function GET(req: NextRequest) {
-  const { user, token } = await validateUserAndToken(req.headers.get('authorization'));
+  const { user, token } = await validateSyncUserAndToken(req.headers.get('authorization'));
   if (!user || !token) {
     return NextResponse.json({ error: 'Not authenticated' }, { status: 403 });
   }
-  const supabase = createSupabaseClient(token);
+  const storage = await createSyncStorage(token);
 
   const { searchParams } = new URL(req.url);
   const sinceParam = searchParams.get('since');
@@ -52,11 +90,19 @@ export async function GET(req: NextRequest) {
   const sinceIso = since.toISOString();
 
   try {
-    const results: SyncResult = { books: [], configs: [], notes: [] };
+    const results: SyncResult = {
+      books: [],
+      configs: [],
+      notes: [],
+      sessions: [],
+      vocabulary: [],
+    };
     const errors: Record<TableName, DBError | null> = {
       books: null,
       book_notes: null,
       book_configs: null,
+      reading_sessions: null,
+      vocabulary_words: null,
     };
 
     const queryTables = async (table: TableName, dedupeKeys?: (keyof BookDataRecord)[]) => {
@@ -66,30 +112,25 @@ export async function GET(req: NextRequest) {
       let hasMore = true;
 
       while (hasMore) {
-        let query = supabase
-          .from(table)
-          .select('*')
-          .eq('user_id', user.id)
-          .range(offset, offset + PAGE_SIZE - 1);
-
-        if (bookParam && metaHashParam) {
-          query = query.or(`book_hash.eq.${bookParam},meta_hash.eq.${metaHashParam}`);
-        } else if (bookParam) {
-          query = query.eq('book_hash', bookParam);
-        } else if (metaHashParam) {
-          query = query.eq('meta_hash', metaHashParam);
-        }
-
-        query = query.or(`updated_at.gt.${sinceIso},deleted_at.gt.${sinceIso}`);
-        query = query.order('updated_at', { ascending: false });
-
         console.log('Querying table:', table, 'since:', sinceIso, 'offset:', offset);
 
-        const { data, error } = await query;
-        if (error) throw { table, error } as DBError;
+        const data = await storage
+          .queryChanges(table, {
+            userId: user.id,
+            since: sinceIso,
+            book: bookParam,
+            metaHash: metaHashParam,
+            offset,
+            limit: PAGE_SIZE,
+          })
+          .catch((error: Error) => {
+            // Tables added in later versions may not exist yet on older deployments
+            if (error instanceof SyncTableMissingError) return [];
+            throw { table, error } as DBError;
+          });
 
         if (data && data.length > 0) {
-          allRecords = allRecords.concat(data);
+          allRecords = allRecords.concat(data as SyncRecord[]);
           offset += PAGE_SIZE;
           hasMore = data.length === PAGE_SIZE;
         } else {
@@ -145,6 +186,17 @@ export async function GET(req: NextRequest) {
     if (!typeParam || typeParam === 'notes') {
       await queryTables('book_notes', ['id']).catch((err) => (errors['book_notes'] = err));
     }
+    // Sessions and vocabulary are only pulled by clients that ask for them
+    if (typeParam === 'sessions') {
+      await queryTables('reading_sessions', ['id']).catch(
+        (err) => (errors['reading_sessions'] = err),
+      );
+    }
+    if (typeParam === 'vocabulary') {
+      await queryTables('vocabulary_words', ['id']).catch(
+        (err) => (errors['vocabulary_words'] = err),
+      );
+    }
 
     const dbErrors = Object.values(errors).filter((err) => err !== null);
     if (dbErrors.length > 0) {
@@ -162,19 +214,19 @@ export async function GET(req: NextRequest) {
     return response;
   } catch (error: unknown) {
     console.error(error);
-    const errorMessage = (error as PostgrestError).message || 'Unknown error';
+    const errorMessage = (error as Error).message || 'Unknown error';
     return NextResponse.json({ error: errorMessage }, { status: 500 });
   }
 }
 
 export async function POST(req: NextRequest) {
-  const { user, token } = await validateUserAndToken(req.headers.get('authorization'));
+  const { user, token } = await validateSyncUserAndToken(req.headers.get('authorization'));
   if (!user || !token) {
     return NextResponse.json({ error: 'Not authenticated' }, { status: 403 });
   }
-  const supabase = createSupabaseClient(token);
+  const storage = await createSyncStorage(token);
   const body = await req.json();
-  const { books = [], configs = [], notes = [] } = body as SyncData;
+  const { books = [], configs = [], notes = [], sessions = [], vocabulary = [] } = body as SyncData;
 
   const BATCH_SIZE = 100;
   const upsertRecords = async (
@@ -198,42 +250,48 @@ export async function POST(req: NextRequest) {
         return { original: rec, db: dbRec };
       });
 
-      // Build match conditions for batch
-      const matchConditions = dbRecords.map(({ original }) => {
-        const conditions: Record<string, string | number> = { user_id: user.id };
+      // Fetch existing records for this batch
+      const matchKeys = dbRecords.map(({ original }) => {
+        const key: SyncRecordKey = {};
         for (const pk of primaryKeys) {
-          conditions[pk] = original[pk]!;
+          key[pk] = original[pk]!;
         }
-        return conditions;
+        return key;
       });
 
-      // Fetch existing records for this batch
-      const orConditions = matchConditions
-        .map((cond) => {
-          const parts = Object.entries(cond).map(([key, val]) => `${key}.eq.${val}`);
-          return `and(${parts.join(',')})`;
-        })
-        .join(',');
-
-      const { data: serverRecords, error: fetchError } = await supabase
-        .from(table)
-        .select()
-        .or(orConditions);
-
-      if (fetchError) {
-        return { error: fetchError.message };
+      let serverRecords: BookDataRecord[];
+      try {
+        serverRecords = await storage.fetchRecords(table, user.id, matchKeys);
+      } catch (error) {
+        if (error instanceof SyncTableMissingError) {
+          console.warn(`Skipping sync of ${table}:`, error.message);
+          return { data: [] };
+        }
+        return { error: (error as Error).message };
       }
 
       // Create lookup map
       const serverRecordsMap = new Map<string, BookDataRecord>();
-      (serverRecords || []).forEach((record) => {
+      serverRecords.forEach((record) => {
         const key = primaryKeys.map((pk) => record[pk]).join('|');
         serverRecordsMap.set(key, record);
       });
 
       // Separate into inserts and updates
-      const toInsert: (DBBook | DBBookConfig | DBBookConfig)[] = [];
-      const toUpdate: (DBBook | DBBookConfig | DBBookConfig)[] = [];
+      const toInsert: (
+        | DBBook
+        | DBBookConfig
+        | DBBookConfig
+        | DBReadingSession
+        | DBVocabularyWord
+      )[] = [];
+      const toUpdate: (
+        | DBBook
+        | DBBookConfig
+        | DBBookConfig
+        | DBReadingSession
+        | DBVocabularyWord
+      )[] = [];
       const batchAuthoritativeRecords: BookDataRecord[] = [];
 
       for (const { original, db: dbRec } of dbRecords) {
@@ -243,6 +301,18 @@ export async function POST(req: NextRequest) {
         if (!serverData) {
           dbRec.updated_at = new Date().toISOString();
           toInsert.push(dbRec);
+        } else if (table === 'book_configs' && !serverData.deleted_at) {
+          const { dbRec: mergedRec, changed } = mergeDBBookConfigs(
+            dbRec as DBBookConfig,
+            serverData as unknown as DBBookConfig,
+            user.id,
+          );
+          if (changed) {
+            mergedRec.updated_at = new Date().toISOString();
+            toUpdate.push(mergedRec);
+          } else {
+            batchAuthoritativeRecords.push(serverData);
+          }
         } else {
           const clientUpdatedAt = dbRec.updated_at ? new Date(dbRec.updated_at).getTime() : 0;
           const serverUpdatedAt = serverData.updated_at
@@ -265,32 +335,24 @@ export async function POST(req: NextRequest) {
 
       // Batch insert
       if (toInsert.length > 0) {
-        const { data: inserted, error: insertError } = await supabase
-          .from(table)
-          .insert(toInsert)
-          .select();
-
-        if (insertError) {
+        try {
+          const inserted = await storage.insertRecords(table, toInsert);
+          batchAuthoritativeRecords.push(...inserted);
+        } catch (error) {
           console.log(`Failed to insert ${table} records:`, JSON.stringify(toInsert));
-          return { error: insertError.message };
+          return { error: (error as Error).message };
         }
-        batchAuthoritativeRecords.push(...(inserted || []));
       }
 
       // Batch upsert
       if (toUpdate.length > 0) {
-        const { data: updated, error: updateError } = await supabase
-          .from(table)
-          .upsert(toUpdate, {
-            onConflict: ['user_id', ...primaryKeys].join(','),
-          })
-          .select();
-
-        if (updateError) {
+        try {
+          const updated = await storage.upsertRecords(table, toUpdate, primaryKeys);
+          batchAuthoritativeRecords.push(...updated);
+        } catch (error) {
           console.log(`Failed to update ${table} records:`, JSON.stringify(toUpdate));
-          return { error: updateError.message };
+          return { error: (error as Error).message };
         }
-        batchAuthoritativeRecords.push(...(updated || []));
       }
 
       allAuthoritativeRecords.push(...batchAuthoritativeRecords);
@@ -300,27 +362,34 @@ export async function POST(req: NextRequest) {
   };
 
   try {
-    const [booksResult, configsResult, notesResult] = await Promise.all([
-      upsertRecords('books', ['book_hash'], books as BookDataRecord[]),
-      upsertRecords('book_configs', ['book_hash'], configs as BookDataRecord[]),
-      upsertRecords('book_notes', ['book_hash', 'id'], notes as BookDataRecord[]),
-    ]);
+    const [booksResult, configsResult, notesResult, sessionsResult, vocabularyResult] =
+      await Promise.all([
+        upsertRecords('books', ['book_hash'], books as BookDataRecord[]),
+        upsertRecords('book_configs', ['book_hash'], configs as BookDataRecord[]),
+        upsertRecords('book_notes', ['book_hash', 'id'], notes as BookDataRecord[]),
+        upsertRecords('reading_sessions', ['book_hash', 'id'], sessions as BookDataRecord[]),
+        upsertRecords('vocabulary_words', ['book_hash', 'id'], vocabulary as BookDataRecord[]),
+      ]);
 
     if (booksResult?.error) throw new Error(booksResult.error);
     if (configsResult?.error) throw new Error(configsResult.error);
     if (notesResult?.error) throw new Error(notesResult.error);
+    if (sessionsResult?.error) throw new Error(sessionsResult.error);
+    if (vocabularyResult?.error) throw new Error(vocabularyResult.error);
 
     return NextResponse.json(
       {
         books: booksResult?.data || [],
         configs: configsResult?.data || [],
         notes: notesResult?.data || [],
+        sessions: sessionsResult?.data || [],
+        vocabulary: vocabularyResult?.data || [],
       },
       { status: 200 },
     );
   } catch (error: unknown) {
     console.error(error);
-    const errorMessage = (error as PostgrestError).message || 'Unknown error';
+    const errorMessage = (error as Error).message || 'Unknown error';
     return NextResponse.json({ error: errorMessage }, { status: 500 });
   }
 }
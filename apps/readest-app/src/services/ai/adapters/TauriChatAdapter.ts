@@ -57,12 +57,32 @@ async function* streamViaApiRoute(
   }
 }
 
+// streams a completion through the api route for the gateway on web, otherwise directly
+export async function* streamChat(
+  messages: Array<{ role: 'user' | 'assistant'; content: string }>,
+  systemPrompt: string,
+  settings: AISettings,
+  abortSignal?: AbortSignal,
+): AsyncGenerator<string> {
+  const useApiRoute = typeof window !== 'undefined' && settings.provider === 'ai-gateway';
+  if (useApiRoute) {
+    yield* streamViaApiRoute(messages, systemPrompt, settings, abortSignal);
+  } else {
+    const result = streamText({
+      model: getAIProvider(settings).getModel(),
+      system: systemPrompt,
+      messages,
+      abortSignal,
+    });
+    yield* result.textStream;
+  }
+}
+
 export function createTauriAdapter(getOptions: () => TauriAdapterOptions): ChatModelAdapter {
   return {
     async *run({ messages, abortSignal }): AsyncGenerator<ChatModelRunResult> {
       const options = getOptions();
       const { settings, bookHash, bookTitle, authorName, currentPage } = options;
-      const provider = getAIProvider(settings);
       let chunks: ScoredChunk[] = [];
 
       const lastUserMessage = [...messages].reverse().find((m) => m.role === 'user');
@@ -104,32 +124,10 @@ export function createTauriAdapter(getOptions: () => TauriAdapterOptions): ChatM
       }));
 
       try {
-        const useApiRoute = typeof window !== 'undefined' && settings.provider === 'ai-gateway';
-
         let text = '';
-
-        if (useApiRoute) {
-          for await (const chunk of streamViaApiRoute(
-            aiMessages,
-            systemPrompt,
-            settings,
-            abortSignal,
-          )) {
-            text += chunk;
-            yield { content: [{ type: 'text', text }] };
-          }
-        } else {
-          const result = streamText({
-            model: provider.getModel(),
-            system: systemPrompt,
-            messages: aiMessages,
-            abortSignal,
-          });
-
-          for await (const chunk of result.textStream) {
-            text += chunk;
-            yield { content: [{ type: 'text', text }] };
-          }
+        for await (const chunk of streamChat(aiMessages, systemPrompt, settings, abortSignal)) {
+          text += chunk;
+          yield { content: [{ type: 'text', text }] };
         }
 
         aiLogger.chat.complete(text.length);
@@ -1 +1,6 @@
-export { createTauriAdapter, getLastSources, clearLastSources } from './TauriChatAdapter';
+export {
+  createTauriAdapter,
+  getLastSources,
+  clearLastSources,
+  streamChat,
+} from './TauriChatAdapter';
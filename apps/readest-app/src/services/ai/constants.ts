@@ -30,6 +30,10 @@ export const DEFAULT_AI_SETTINGS: AISettings = {
   aiGatewayModel: 'google/gemini-2.5-flash-lite',
   aiGatewayEmbeddingModel: 'openai/text-embedding-3-small',
 
+  openaiCompatibleBaseUrl: 'http://127.0.0.1:8080/v1',
+  openaiCompatibleModel: '',
+  openaiCompatibleEmbeddingModel: '',
+
   spoilerProtection: true,
   maxContextChunks: 10,
   indexingMode: 'on-demand',
@@ -5,3 +5,4 @@ export * from './ragService';
 export * from './adapters';
 export * from './storage/aiStore';
 export * from './logger';
+export * from './summaryService';
@@ -107,6 +107,15 @@ export const aiLogger = {
     isIndexed: (bookHash: string, indexed: boolean) =>
       log('debug', 'RAG', `isIndexed check`, { bookHash, indexed }),
   },
+  summary: {
+    start: (kind: string, bookHash: string, maxPage: number) =>
+      log('info', 'SUMMARY', `Generating ${kind}`, { bookHash, maxPage }),
+    cached: (kind: string, bookHash: string) =>
+      log('debug', 'SUMMARY', `Using cached ${kind}`, { bookHash }),
+    complete: (kind: string, length: number) =>
+      log('info', 'SUMMARY', `${kind} complete: ${length} chars`),
+    error: (kind: string, error: string) => log('error', 'SUMMARY', `${kind} failed: ${error}`),
+  },
   provider: {
     init: (provider: string, model: string) =>
       log('info', 'PROVIDER', `Initialized`, { provider, model }),
@@ -0,0 +1,74 @@
+import { createOpenAICompatible } from '@ai-sdk/openai-compatible';
+import type { LanguageModel, EmbeddingModel } from 'ai';
+import type { AIProvider, AISettings, AIProviderName } from '../types';
+import { aiLogger } from '../logger';
+import { AI_TIMEOUTS } from '../utils/retry';
+
+const DEFAULT_BASE_URL = 'http://127.0.0.1:8080/v1';
+
+export class OpenAICompatibleProvider implements AIProvider {
+  id: AIProviderName = 'openai-compatible';
+  name = 'OpenAI-Compatible (Local)';
+  requiresAuth = false;
+
+  private openai;
+  private baseUrl: string;
+  private settings: AISettings;
+
+  constructor(settings: AISettings) {
+    this.settings = settings;
+    this.baseUrl = (settings.openaiCompatibleBaseUrl || DEFAULT_BASE_URL).replace(/\/+$/, '');
+    this.openai = createOpenAICompatible({
+      name: 'openai-compatible',
+      baseURL: this.baseUrl,
+      apiKey: settings.openaiCompatibleApiKey || undefined,
+    });
+    aiLogger.provider.init('openai-compatible', settings.openaiCompatibleModel ?? '');
+  }
+
+  getModel(): LanguageModel {
+    return this.openai.chatModel(this.settings.openaiCompatibleModel ?? '');
+  }
+
+  getEmbeddingModel(): EmbeddingModel {
+    return this.openai.embeddingModel(this.settings.openaiCompatibleEmbeddingModel ?? '');
+  }
+
+  private async fetchModels(): Promise<string[] | null> {
+    const headers: Record<string, string> = {};
+    if (this.settings.openaiCompatibleApiKey) {
+      headers['Authorization'] = `Bearer ${this.settings.openaiCompatibleApiKey}`;
+    }
+    const response = await fetch(`${this.baseUrl}/models`, {
+      headers,
+      signal: AbortSignal.timeout(AI_TIMEOUTS.HEALTH_CHECK),
+    });
+    if (!response.ok) return null;
+    const data = await response.json();
+    return data.data?.map((m: { id: string }) => m.id) ?? [];
+  }
+
+  async isAvailable(): Promise<boolean> {
+    try {
+      return (await this.fetchModels()) !== null;
+    } catch {
+      return false;
+    }
+  }
+
+  async healthCheck(): Promise<boolean> {
+    if (!this.settings.openaiCompatibleModel || !this.settings.openaiCompatibleEmbeddingModel) {
+      return false;
+    }
+    try {
+      const models = await this.fetchModels();
+      if (!models) return false;
+      // llama.cpp serves a single model under its file name regardless of the requested id
+      if (models.length <= 1) return true;
+      return models.includes(this.settings.openaiCompatibleModel);
+    } catch (e) {
+      aiLogger.provider.error('openai-compatible', (e as Error).message);
+      return false;
+    }
+  }
+}
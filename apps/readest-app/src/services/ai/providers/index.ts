@@ -1,8 +1,9 @@
 import { OllamaProvider } from './OllamaProvider';
 import { AIGatewayProvider } from './AIGatewayProvider';
+import { OpenAICompatibleProvider } from './OpenAICompatibleProvider';
 import type { AIProvider, AISettings } from '../types';
 
-export { OllamaProvider, AIGatewayProvider };
+export { OllamaProvider, AIGatewayProvider, OpenAICompatibleProvider };
 
 export function getAIProvider(settings: AISettings): AIProvider {
   switch (settings.provider) {
@@ -13,6 +14,8 @@ export function getAIProvider(settings: AISettings): AIProvider {
         throw new Error('API key required for AI Gateway');
       }
       return new AIGatewayProvider(settings);
+    case 'openai-compatible':
+      return new OpenAICompatibleProvider(settings);
     default:
       throw new Error(`Unknown provider: ${settings.provider}`);
   }
@@ -1,13 +1,23 @@
 import { embed, embedMany } from 'ai';
+import * as CFI from 'foliate-js/epubcfi.js';
 import { aiStore } from './storage/aiStore';
-import { chunkSection, extractTextFromDocument } from './utils/chunker';
+import { readSectionText, spansToChunks } from './utils/chunker';
+import { indexerWorker } from './utils/indexer-worker';
 import { withRetryAndTimeout, AI_TIMEOUTS, AI_RETRY_CONFIGS } from './utils/retry';
 import { getAIProvider } from './providers';
 import { aiLogger } from './logger';
-import type { AISettings, TextChunk, ScoredChunk, EmbeddingProgress, BookIndexMeta } from './types';
+import type {
+  AISettings,
+  TextChunk,
+  ScoredChunk,
+  EmbeddingProgress,
+  BookIndexMeta,
+  LibrarySearchResult,
+} from './types';
 
 interface SectionItem {
   id: string;
+  cfi?: string;
   size: number;
   linear: string;
   createDocument: () => Promise<Document>;
@@ -50,6 +60,33 @@ function extractAuthor(metadata?: BookDocType['metadata']): string {
   return metadata.author.name || 'Unknown Author';
 }
 
+function getEmbeddingModelName(settings: AISettings): string {
+  if (settings.provider === 'ollama') return settings.ollamaEmbeddingModel;
+  if (settings.provider === 'openai-compatible')
+    return settings.openaiCompatibleEmbeddingModel || '';
+  return settings.aiGatewayEmbeddingModel || 'text-embedding-3-small';
+}
+
+async function embedQuery(query: string, settings: AISettings): Promise<number[] | null> {
+  const provider = getAIProvider(settings);
+  try {
+    // use AI SDK embed with provider's embedding model
+    const { embedding } = await withRetryAndTimeout(
+      () =>
+        embed({
+          model: provider.getEmbeddingModel(),
+          value: query,
+        }),
+      AI_TIMEOUTS.EMBEDDING_SINGLE,
+      AI_RETRY_CONFIGS.EMBEDDING,
+    );
+    return embedding;
+  } catch {
+    // bm25 only fallback
+    return null;
+  }
+}
+
 function getChapterTitle(toc: TOCItem[] | undefined, sectionIndex: number): string {
   if (!toc || toc.length === 0) return `Section ${sectionIndex + 1}`;
   for (let i = toc.length - 1; i >= 0; i--) {
@@ -58,11 +95,79 @@ function getChapterTitle(toc: TOCItem[] | undefined, sectionIndex: number): stri
   return toc[0]?.label || `Section ${sectionIndex + 1}`;
 }
 
+const EMBEDDING_BATCH_SIZE = 64;
+
+const yieldToMain = () => new Promise<void>((resolve) => setTimeout(resolve, 0));
+
+function throwIfAborted(abortSignal?: AbortSignal) {
+  if (abortSignal?.aborted) throw new DOMException('Indexing cancelled', 'AbortError');
+}
+
+export async function getIndexMeta(bookHash: string): Promise<BookIndexMeta | null> {
+  return aiStore.getMeta(bookHash);
+}
+
+async function chunkBook(
+  bookDoc: BookDocType,
+  bookHash: string,
+  abortSignal?: AbortSignal,
+): Promise<TextChunk[]> {
+  const sections = bookDoc.sections || [];
+  const toc = bookDoc.toc || [];
+
+  // calculate cumulative character sizes like toc.ts does
+  const sizes = sections.map((s) => (s.linear !== 'no' && s.size > 0 ? s.size : 0));
+  let cumulative = 0;
+  const cumulativeSizes = sizes.map((size) => {
+    const current = cumulative;
+    cumulative += size;
+    return current;
+  });
+
+  aiLogger.rag.indexProgress('chunking', 0, sections.length);
+  const allChunks: TextChunk[] = [];
+  for (let i = 0; i < sections.length; i++) {
+    throwIfAborted(abortSignal);
+    const section = sections[i]!;
+    try {
+      // workers have no DOMParser, so the section is parsed and its text read here in a
+      // single pass, splitting runs in the worker and only the CFIs need the DOM again
+      const doc = await section.createDocument();
+      const { text, resolveRange } = readSectionText(doc);
+      if (text.length < 100) continue;
+      const spans = await indexerWorker.splitText(text);
+      const sectionChunks = spansToChunks(
+        spans,
+        resolveRange,
+        i,
+        getChapterTitle(toc, i),
+        bookHash,
+        cumulativeSizes[i] ?? 0,
+        section.cfi ? (range) => CFI.joinIndir(section.cfi, CFI.fromRange(range)) : undefined,
+      );
+      aiLogger.chunker.section(i, text.length, sectionChunks.length);
+      allChunks.push(...sectionChunks);
+    } catch (e) {
+      aiLogger.chunker.error(i, (e as Error).message);
+    }
+    // let page turns and input through between sections
+    await yieldToMain();
+  }
+  aiLogger.chunker.complete(bookHash, allChunks.length);
+  return allChunks;
+}
+
+/**
+ * Indexes the book for retrieval. Chunks and embeddings are saved as they are
+ * produced, so an indexing run that was cancelled or failed resumes where it
+ * stopped as long as the embedding model is unchanged.
+ */
 export async function indexBook(
   bookDoc: BookDocType,
   bookHash: string,
   settings: AISettings,
   onProgress?: (progress: EmbeddingProgress) => void,
+  abortSignal?: AbortSignal,
 ): Promise<void> {
   const startTime = Date.now();
   const title = extractTitle(bookDoc.metadata);
@@ -75,16 +180,7 @@ export async function indexBook(
   aiLogger.rag.indexStart(bookHash, title);
   const provider = getAIProvider(settings);
   const sections = bookDoc.sections || [];
-  const toc = bookDoc.toc || [];
-
-  // calculate cumulative character sizes like toc.ts does
-  const sizes = sections.map((s) => (s.linear !== 'no' && s.size > 0 ? s.size : 0));
-  let cumulative = 0;
-  const cumulativeSizes = sizes.map((size) => {
-    const current = cumulative;
-    cumulative += size;
-    return current;
-  });
+  const embeddingModelName = getEmbeddingModelName(settings);
 
   const state: IndexingState = {
     bookHash,
@@ -97,91 +193,91 @@ export async function indexBook(
 
   try {
     onProgress?.({ current: 0, total: 1, phase: 'chunking' });
-    aiLogger.rag.indexProgress('chunking', 0, sections.length);
-    const allChunks: TextChunk[] = [];
-
-    for (let i = 0; i < sections.length; i++) {
-      const section = sections[i]!;
-      try {
-        const doc = await section.createDocument();
-        const text = extractTextFromDocument(doc);
-        if (text.length < 100) continue;
-        const sectionChunks = chunkSection(
-          doc,
-          i,
-          getChapterTitle(toc, i),
-          bookHash,
-          cumulativeSizes[i] ?? 0,
-        );
-        aiLogger.chunker.section(i, text.length, sectionChunks.length);
-        allChunks.push(...sectionChunks);
-      } catch (e) {
-        aiLogger.chunker.error(i, (e as Error).message);
-      }
+    const partialMeta = await aiStore.getMeta(bookHash);
+    let allChunks: TextChunk[] = [];
+    if (partialMeta?.complete === false && partialMeta.embeddingModel === embeddingModelName) {
+      allChunks = await aiStore.getChunks(bookHash);
+    } else if (partialMeta) {
+      await aiStore.clearBook(bookHash);
     }
 
-    aiLogger.chunker.complete(bookHash, allChunks.length);
-    state.totalChunks = allChunks.length;
+    const meta: BookIndexMeta = {
+      bookHash,
+      bookTitle: title,
+      authorName: extractAuthor(bookDoc.metadata),
+      totalSections: sections.length,
+      totalChunks: 0,
+      embeddingModel: embeddingModelName,
+      lastUpdated: Date.now(),
+      complete: false,
+    };
 
     if (allChunks.length === 0) {
-      state.status = 'complete';
-      state.progress = 100;
-      aiLogger.rag.indexComplete(bookHash, 0, Date.now() - startTime);
-      return;
+      allChunks = await chunkBook(bookDoc, bookHash, abortSignal);
+      if (allChunks.length === 0) {
+        state.status = 'complete';
+        state.progress = 100;
+        aiLogger.rag.indexComplete(bookHash, 0, Date.now() - startTime);
+        return;
+      }
+      aiLogger.store.saveChunks(bookHash, allChunks.length);
+      await aiStore.saveChunks(allChunks);
+      await aiStore.saveMeta({ ...meta, totalChunks: allChunks.length });
     }
+    state.totalChunks = allChunks.length;
 
-    onProgress?.({ current: 0, total: allChunks.length, phase: 'embedding' });
-    const embeddingModelName =
-      settings.provider === 'ollama'
-        ? settings.ollamaEmbeddingModel
-        : settings.aiGatewayEmbeddingModel || 'text-embedding-3-small';
-    aiLogger.embedding.start(embeddingModelName, allChunks.length);
+    const pending = allChunks.filter((c) => !c.embedding);
+    let embedded = allChunks.length - pending.length;
+    onProgress?.({ current: embedded, total: allChunks.length, phase: 'embedding' });
+    aiLogger.embedding.start(embeddingModelName, pending.length);
 
-    const texts = allChunks.map((c) => c.text);
-    try {
-      const { embeddings } = await withRetryAndTimeout(
-        () =>
-          embedMany({
-            model: provider.getEmbeddingModel(),
-            values: texts,
-          }),
-        AI_TIMEOUTS.EMBEDDING_BATCH,
-        AI_RETRY_CONFIGS.EMBEDDING,
-      );
-
-      for (let i = 0; i < allChunks.length; i++) {
-        allChunks[i]!.embedding = embeddings[i];
-        state.chunksProcessed = i + 1;
-        state.progress = Math.round(((i + 1) / allChunks.length) * 100);
+    for (let i = 0; i < pending.length; i += EMBEDDING_BATCH_SIZE) {
+      throwIfAborted(abortSignal);
+      const batch = pending.slice(i, i + EMBEDDING_BATCH_SIZE);
+      try {
+        const { embeddings } = await withRetryAndTimeout(
+          () =>
+            embedMany({
+              model: provider.getEmbeddingModel(),
+              values: batch.map((c) => c.text),
+              abortSignal,
+            }),
+          AI_TIMEOUTS.EMBEDDING_BATCH,
+          AI_RETRY_CONFIGS.EMBEDDING,
+        );
+        batch.forEach((chunk, j) => (chunk.embedding = embeddings[j]));
+        await aiStore.saveChunks(batch);
+      } catch (e) {
+        aiLogger.embedding.error('batch', (e as Error).message);
+        throw e;
       }
-      onProgress?.({ current: allChunks.length, total: allChunks.length, phase: 'embedding' });
-      aiLogger.embedding.complete(embeddings.length, allChunks.length, embeddings[0]?.length || 0);
-    } catch (e) {
-      aiLogger.embedding.error('batch', (e as Error).message);
-      throw e;
+      embedded += batch.length;
+      aiLogger.embedding.batch(embedded, allChunks.length);
+      state.chunksProcessed = embedded;
+      state.progress = Math.round((embedded / allChunks.length) * 100);
+      onProgress?.({ current: embedded, total: allChunks.length, phase: 'embedding' });
     }
+    aiLogger.embedding.complete(
+      pending.length,
+      allChunks.length,
+      allChunks[0]?.embedding?.length || 0,
+    );
 
-    onProgress?.({ current: 0, total: 2, phase: 'indexing' });
-    aiLogger.store.saveChunks(bookHash, allChunks.length);
-    await aiStore.saveChunks(allChunks);
-
-    onProgress?.({ current: 1, total: 2, phase: 'indexing' });
+    throwIfAborted(abortSignal);
+    onProgress?.({ current: 0, total: 1, phase: 'indexing' });
     aiLogger.store.saveBM25(bookHash);
     await aiStore.saveBM25Index(bookHash, allChunks);
 
-    const meta: BookIndexMeta = {
-      bookHash,
-      bookTitle: title,
-      authorName: extractAuthor(bookDoc.metadata),
-      totalSections: sections.length,
+    const completeMeta: BookIndexMeta = {
+      ...meta,
       totalChunks: allChunks.length,
-      embeddingModel: embeddingModelName,
       lastUpdated: Date.now(),
+      complete: true,
     };
-    aiLogger.store.saveMeta(meta);
-    await aiStore.saveMeta(meta);
+    aiLogger.store.saveMeta(completeMeta);
+    await aiStore.saveMeta(completeMeta);
 
-    onProgress?.({ current: 2, total: 2, phase: 'indexing' });
+    onProgress?.({ current: 1, total: 1, phase: 'indexing' });
     state.status = 'complete';
     state.progress = 100;
     aiLogger.rag.indexComplete(bookHash, allChunks.length, Date.now() - startTime);
@@ -201,30 +297,44 @@ export async function hybridSearch(
   maxPage?: number,
 ): Promise<ScoredChunk[]> {
   aiLogger.search.query(query, maxPage);
-  const provider = getAIProvider(settings);
-  let queryEmbedding: number[] | null = null;
-
-  try {
-    // use AI SDK embed with provider's embedding model
-    const { embedding } = await withRetryAndTimeout(
-      () =>
-        embed({
-          model: provider.getEmbeddingModel(),
-          value: query,
-        }),
-      AI_TIMEOUTS.EMBEDDING_SINGLE,
-      AI_RETRY_CONFIGS.EMBEDDING,
-    );
-    queryEmbedding = embedding;
-  } catch {
-    // bm25 only fallback
-  }
-
+  const queryEmbedding = await embedQuery(query, settings);
   const results = await aiStore.hybridSearch(bookHash, queryEmbedding, query, topK, maxPage);
   aiLogger.search.hybridResults(results.length, [...new Set(results.map((r) => r.searchMethod))]);
   return results;
 }
 
+export async function getIndexedBooks(): Promise<BookIndexMeta[]> {
+  const metas = await aiStore.getAllMeta();
+  return metas.filter((meta) => meta.totalChunks > 0 && meta.complete !== false);
+}
+
+// searches all indexed books, or only the given ones, without spoiler protection
+export async function librarySearch(
+  query: string,
+  settings: AISettings,
+  bookHashes?: string[],
+  topK = 10,
+): Promise<LibrarySearchResult[]> {
+  aiLogger.search.query(query);
+  const metas = new Map((await getIndexedBooks()).map((meta) => [meta.bookHash, meta]));
+  const hashes = (bookHashes ?? [...metas.keys()]).filter((hash) => metas.has(hash));
+  if (hashes.length === 0) return [];
+
+  const queryEmbedding = await embedQuery(query, settings);
+  const results = await aiStore.libraryHybridSearch(
+    hashes,
+    queryEmbedding,
+    query,
+    topK,
+    getEmbeddingModelName(settings),
+  );
+  aiLogger.search.hybridResults(results.length, [...new Set(results.map((r) => r.searchMethod))]);
+  return results.map((result) => {
+    const meta = metas.get(result.bookHash)!;
+    return { ...result, bookTitle: meta.bookTitle, authorName: meta.authorName };
+  });
+}
+
 export async function clearBookIndex(bookHash: string): Promise<void> {
   aiLogger.store.clear(bookHash);
   await aiStore.clearBook(bookHash);
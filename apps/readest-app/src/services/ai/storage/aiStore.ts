@@ -1,29 +1,50 @@
-import { TextChunk, ScoredChunk, BookIndexMeta, AIConversation, AIMessage } from '../types';
+import {
+  TextChunk,
+  ScoredChunk,
+  BookIndexMeta,
+  AIConversation,
+  AIMessage,
+  AISummary,
+} from '../types';
 import { aiLogger } from '../logger';
+import { indexerWorker } from '../utils/indexer-worker';
 
 // eslint-disable-next-line @typescript-eslint/no-require-imports
 const lunr = require('lunr') as typeof import('lunr');
 
 const DB_NAME = 'readest-ai';
-const DB_VERSION = 3;
+const DB_VERSION = 4;
 const CHUNKS_STORE = 'chunks';
 const META_STORE = 'bookMeta';
 const BM25_STORE = 'bm25Indices';
 const CONVERSATIONS_STORE = 'conversations';
 const MESSAGES_STORE = 'messages';
+const SUMMARIES_STORE = 'summaries';
 
-function cosineSimilarity(a: number[], b: number[]): number {
-  if (a.length !== b.length) return 0;
-  let dot = 0,
-    normA = 0,
-    normB = 0;
-  for (let i = 0; i < a.length; i++) {
-    dot += a[i]! * b[i]!;
-    normA += a[i]! * a[i]!;
-    normB += b[i]! * b[i]!;
+// normalizes each result list by its best score and merges chunks found by both searches
+export function mergeHybridResults(
+  vectorResults: ScoredChunk[],
+  bm25Results: ScoredChunk[],
+  topK: number,
+): ScoredChunk[] {
+  const normalize = (results: ScoredChunk[], weight: number) => {
+    if (results.length === 0) return [];
+    const max = Math.max(...results.map((r) => r.score));
+    return results.map((r) => ({ ...r, score: max > 0 ? (r.score / max) * weight : 0 }));
+  };
+  const weighted = [...normalize(vectorResults, 1.0), ...normalize(bm25Results, 0.8)];
+  const merged = new Map<string, ScoredChunk>();
+  for (const r of weighted) {
+    const key = `${r.bookHash}:${r.text.slice(0, 100)}`;
+    const existing = merged.get(key);
+    if (existing) {
+      existing.score = Math.max(existing.score, r.score);
+      existing.searchMethod = 'hybrid';
+    } else merged.set(key, { ...r });
   }
-  const denom = Math.sqrt(normA) * Math.sqrt(normB);
-  return denom === 0 ? 0 : dot / denom;
+  return Array.from(merged.values())
+    .sort((a, b) => b.score - a.score)
+    .slice(0, topK);
 }
 
 class AIStore {
@@ -32,6 +53,7 @@ class AIStore {
   private indexCache = new Map<string, lunr.Index>();
   private metaCache = new Map<string, BookIndexMeta>();
   private conversationCache = new Map<string, AIConversation[]>();
+  private summaryCache = new Map<string, AISummary[]>();
 
   async recoverFromError(): Promise<void> {
     if (this.db) {
@@ -46,6 +68,7 @@ class AIStore {
     this.indexCache.clear();
     this.metaCache.clear();
     this.conversationCache.clear();
+    this.summaryCache.clear();
     await this.openDB();
   }
 
@@ -91,6 +114,12 @@ class AIStore {
           const msgStore = db.createObjectStore(MESSAGES_STORE, { keyPath: 'id' });
           msgStore.createIndex('conversationId', 'conversationId', { unique: false });
         }
+
+        // v4: chapter summaries and recaps
+        if (!db.objectStoreNames.contains(SUMMARIES_STORE)) {
+          const summaryStore = db.createObjectStore(SUMMARIES_STORE, { keyPath: 'id' });
+          summaryStore.createIndex('bookHash', 'bookHash', { unique: false });
+        }
       };
     });
   }
@@ -125,9 +154,22 @@ class AIStore {
     });
   }
 
+  async getAllMeta(): Promise<BookIndexMeta[]> {
+    const db = await this.openDB();
+    return new Promise((resolve, reject) => {
+      const req = db.transaction(META_STORE, 'readonly').objectStore(META_STORE).getAll();
+      req.onsuccess = () => {
+        const metas = req.result as BookIndexMeta[];
+        for (const meta of metas) this.metaCache.set(meta.bookHash, meta);
+        resolve(metas);
+      };
+      req.onerror = () => reject(req.error);
+    });
+  }
+
   async isIndexed(bookHash: string): Promise<boolean> {
     const meta = await this.getMeta(bookHash);
-    return meta !== null && meta.totalChunks > 0;
+    return meta !== null && meta.totalChunks > 0 && meta.complete !== false;
   }
 
   async saveChunks(chunks: TextChunk[]): Promise<void> {
@@ -139,8 +181,18 @@ class AIStore {
       const store = tx.objectStore(CHUNKS_STORE);
       for (const chunk of chunks) store.put(chunk);
       tx.oncomplete = () => {
-        this.chunkCache.set(bookHash, chunks);
-        resolve();
+        // chunks may be saved in batches, so merge them into the cached ones
+        const cached = this.chunkCache.get(bookHash);
+        if (cached) {
+          const merged = new Map(cached.map((c) => [c.id, c]));
+          for (const chunk of chunks) merged.set(chunk.id, chunk);
+          this.chunkCache.set(bookHash, Array.from(merged.values()));
+        }
+        // the worker copy of the vectors is stale now, dropping it is best effort
+        indexerWorker
+          .unloadVectors(bookHash)
+          .catch((e) => aiLogger.store.error('unloadVectors', (e as Error).message))
+          .finally(resolve);
       };
       tx.onerror = () => {
         aiLogger.store.error('saveChunks', tx.error?.message || 'TX error');
@@ -172,21 +224,13 @@ class AIStore {
   }
 
   async saveBM25Index(bookHash: string, chunks: TextChunk[]): Promise<void> {
-    const index = lunr(function (this: lunr.Builder) {
-      this.ref('id');
-      this.field('text');
-      this.field('chapterTitle');
-      this.pipeline.remove(lunr.stemmer);
-      this.searchPipeline.remove(lunr.stemmer);
-      for (const chunk of chunks)
-        this.add({ id: chunk.id, text: chunk.text, chapterTitle: chunk.chapterTitle });
-    });
+    const serialized = await indexerWorker.buildBM25Index(chunks);
     const db = await this.openDB();
     return new Promise((resolve, reject) => {
       const tx = db.transaction(BM25_STORE, 'readwrite');
-      tx.objectStore(BM25_STORE).put({ bookHash, serialized: JSON.stringify(index) });
+      tx.objectStore(BM25_STORE).put({ bookHash, serialized });
       tx.oncomplete = () => {
-        this.indexCache.set(bookHash, index);
+        this.indexCache.delete(bookHash);
         resolve();
       };
       tx.onerror = () => {
@@ -227,18 +271,17 @@ class AIStore {
   ): Promise<ScoredChunk[]> {
     const chunks = await this.getChunks(bookHash);
     const beforeFilter = chunks.filter((c) => c.embedding).length;
-    const scored: ScoredChunk[] = [];
-    for (const chunk of chunks) {
-      if (maxPage !== undefined && chunk.pageNumber > maxPage) continue;
-      if (!chunk.embedding) continue;
-      scored.push({
-        ...chunk,
-        score: cosineSimilarity(queryEmbedding, chunk.embedding),
-        searchMethod: 'vector',
-      });
-    }
-    scored.sort((a, b) => b.score - a.score);
-    const results = scored.slice(0, topK);
+    const chunkMap = new Map(chunks.map((c) => [c.id, c]));
+    const scores = await indexerWorker.scoreVectors(
+      bookHash,
+      chunks,
+      queryEmbedding,
+      topK,
+      maxPage,
+    );
+    const results: ScoredChunk[] = scores
+      .filter(({ id }) => chunkMap.has(id))
+      .map(({ id, score }) => ({ ...chunkMap.get(id)!, score, searchMethod: 'vector' }));
     if (maxPage !== undefined)
       aiLogger.search.spoilerFiltered(beforeFilter, results.length, maxPage);
     if (results.length > 0) aiLogger.search.vectorResults(results.length, results[0]!.score);
@@ -283,50 +326,110 @@ class AIStore {
       queryEmbedding ? this.vectorSearch(bookHash, queryEmbedding, topK * 2, maxPage) : [],
       this.bm25Search(bookHash, query, topK * 2, maxPage),
     ]);
-    const normalize = (results: ScoredChunk[], weight: number) => {
-      if (results.length === 0) return [];
-      const max = Math.max(...results.map((r) => r.score));
-      return results.map((r) => ({ ...r, score: max > 0 ? (r.score / max) * weight : 0 }));
-    };
-    const weighted = [...normalize(vectorResults, 1.0), ...normalize(bm25Results, 0.8)];
-    const merged = new Map<string, ScoredChunk>();
-    for (const r of weighted) {
-      const key = r.text.slice(0, 100);
-      const existing = merged.get(key);
-      if (existing) {
-        existing.score = Math.max(existing.score, r.score);
-        existing.searchMethod = 'hybrid';
-      } else merged.set(key, { ...r });
+    return mergeHybridResults(vectorResults, bm25Results, topK);
+  }
+
+  /**
+   * Searches several books at once and ranks the results together.
+   * Vector search is skipped for books embedded with a model other than embeddingModel
+   * as their vectors are not comparable with the query embedding.
+   */
+  async libraryHybridSearch(
+    bookHashes: string[],
+    queryEmbedding: number[] | null,
+    query: string,
+    topK: number,
+    embeddingModel?: string,
+  ): Promise<ScoredChunk[]> {
+    const vectorResults: ScoredChunk[] = [];
+    const bm25Results: ScoredChunk[] = [];
+    for (const bookHash of bookHashes) {
+      const meta = await this.getMeta(bookHash);
+      if (!meta || meta.totalChunks === 0) continue;
+      const useVector =
+        queryEmbedding && (!embeddingModel || meta.embeddingModel === embeddingModel);
+      const [vector, bm25] = await Promise.all([
+        useVector ? this.vectorSearch(bookHash, queryEmbedding, topK * 2) : [],
+        this.bm25Search(bookHash, query, topK * 2),
+      ]);
+      vectorResults.push(...vector);
+      bm25Results.push(...bm25);
     }
-    return Array.from(merged.values())
-      .sort((a, b) => b.score - a.score)
-      .slice(0, topK);
+    return mergeHybridResults(vectorResults, bm25Results, topK);
   }
 
   async clearBook(bookHash: string): Promise<void> {
     const db = await this.openDB();
     return new Promise((resolve, reject) => {
-      const tx = db.transaction([CHUNKS_STORE, META_STORE, BM25_STORE], 'readwrite');
-      const cursor = tx.objectStore(CHUNKS_STORE).index('bookHash').openCursor(bookHash);
-      cursor.onsuccess = (e) => {
-        const c = (e.target as IDBRequest<IDBCursorWithValue>).result;
-        if (c) {
-          c.delete();
-          c.continue();
-        }
-      };
+      const tx = db.transaction(
+        [CHUNKS_STORE, META_STORE, BM25_STORE, SUMMARIES_STORE],
+        'readwrite',
+      );
+      // summaries are derived from the chunks so they go with the index
+      for (const storeName of [CHUNKS_STORE, SUMMARIES_STORE]) {
+        const cursor = tx.objectStore(storeName).index('bookHash').openCursor(bookHash);
+        cursor.onsuccess = (e) => {
+          const c = (e.target as IDBRequest<IDBCursorWithValue>).result;
+          if (c) {
+            c.delete();
+            c.continue();
+          }
+        };
+      }
       tx.objectStore(META_STORE).delete(bookHash);
       tx.objectStore(BM25_STORE).delete(bookHash);
       tx.oncomplete = () => {
         this.chunkCache.delete(bookHash);
         this.indexCache.delete(bookHash);
         this.metaCache.delete(bookHash);
-        resolve();
+        this.summaryCache.delete(bookHash);
+        indexerWorker
+          .unloadVectors(bookHash)
+          .catch((e) => aiLogger.store.error('unloadVectors', (e as Error).message))
+          .finally(resolve);
       };
       tx.onerror = () => reject(tx.error);
     });
   }
 
+  // summary persistence methods
+
+  async saveSummary(summary: AISummary): Promise<void> {
+    const db = await this.openDB();
+    return new Promise((resolve, reject) => {
+      const tx = db.transaction(SUMMARIES_STORE, 'readwrite');
+      tx.objectStore(SUMMARIES_STORE).put(summary);
+      tx.oncomplete = () => {
+        this.summaryCache.delete(summary.bookHash);
+        resolve();
+      };
+      tx.onerror = () => {
+        aiLogger.store.error('saveSummary', tx.error?.message || 'TX error');
+        reject(tx.error);
+      };
+    });
+  }
+
+  async getSummaries(bookHash: string): Promise<AISummary[]> {
+    if (this.summaryCache.has(bookHash)) return this.summaryCache.get(bookHash)!;
+    const db = await this.openDB();
+    return new Promise((resolve, reject) => {
+      const req = db
+        .transaction(SUMMARIES_STORE, 'readonly')
+        .objectStore(SUMMARIES_STORE)
+        .index('bookHash')
+        .getAll(bookHash);
+      req.onsuccess = () => {
+        const summaries = (req.result as AISummary[]).sort(
+          (a, b) => a.sectionIndex - b.sectionIndex,
+        );
+        this.summaryCache.set(bookHash, summaries);
+        resolve(summaries);
+      };
+      req.onerror = () => reject(req.error);
+    });
+  }
+
   // conversation persistence methods
 
   async saveConversation(conversation: AIConversation): Promise<void> {
@@ -0,0 +1,175 @@
+import { aiStore } from './storage/aiStore';
+import { streamChat } from './adapters/TauriChatAdapter';
+import { buildChapterSummaryPrompt, buildRecapPrompt } from './prompts';
+import {
+  SUMMARY_CONTEXT_CHARS,
+  buildRecapSections,
+  getChunksUpToPage,
+  getSummaryId,
+  isChapterSummaryUsable,
+  selectChunksWithinBudget,
+} from './utils/summarizer';
+import { aiLogger } from './logger';
+import type { AISettings, AISummary } from './types';
+
+export interface SummaryBookInfo {
+  bookHash: string;
+  bookTitle: string;
+  authorName: string;
+}
+
+export function getChatModelName(settings: AISettings): string {
+  if (settings.provider === 'ollama') return settings.ollamaModel;
+  if (settings.provider === 'openai-compatible') return settings.openaiCompatibleModel || '';
+  return settings.aiGatewayModel || 'google/gemini-2.5-flash-lite';
+}
+
+async function generateText(
+  systemPrompt: string,
+  instruction: string,
+  settings: AISettings,
+  abortSignal?: AbortSignal,
+): Promise<string> {
+  let text = '';
+  for await (const chunk of streamChat(
+    [{ role: 'user', content: instruction }],
+    systemPrompt,
+    settings,
+    abortSignal,
+  )) {
+    text += chunk;
+  }
+  return text.trim();
+}
+
+// cached summaries of the book generated with the current chat model
+export async function getBookSummaries(
+  bookHash: string,
+  settings: AISettings,
+): Promise<AISummary[]> {
+  const model = getChatModelName(settings);
+  const summaries = await aiStore.getSummaries(bookHash);
+  return summaries.filter((s) => s.model === model);
+}
+
+/**
+ * Summarizes a chapter from its indexed chunks. With spoiler protection on
+ * only the part of the chapter up to the current page is summarized.
+ * Returns null when nothing of the chapter has been read yet.
+ */
+export async function summarizeChapter(
+  book: SummaryBookInfo,
+  sectionIndex: number,
+  settings: AISettings,
+  currentPage: number,
+  abortSignal?: AbortSignal,
+): Promise<AISummary | null> {
+  const { bookHash, bookTitle, authorName } = book;
+  const model = getChatModelName(settings);
+  const id = getSummaryId(bookHash, model, 'chapter', sectionIndex);
+  const maxPage = settings.spoilerProtection ? currentPage : undefined;
+
+  const sectionChunks = (await aiStore.getChunks(bookHash)).filter(
+    (c) => c.sectionIndex === sectionIndex,
+  );
+  const chunks = getChunksUpToPage(sectionChunks, maxPage);
+  if (chunks.length === 0) return null;
+  const complete = chunks.length === sectionChunks.length;
+  const lastPage = chunks[chunks.length - 1]!.pageNumber;
+
+  const cached = (await aiStore.getSummaries(bookHash)).find((s) => s.id === id);
+  if (cached && isChapterSummaryUsable(cached, lastPage, maxPage)) {
+    aiLogger.summary.cached('chapter', bookHash);
+    return cached;
+  }
+
+  aiLogger.summary.start('chapter', bookHash, lastPage);
+  const section = {
+    sectionIndex,
+    chapterTitle: chunks[0]!.chapterTitle,
+    text: selectChunksWithinBudget(chunks, SUMMARY_CONTEXT_CHARS)
+      .map((c) => c.text)
+      .join('\n'),
+  };
+  try {
+    const text = await generateText(
+      buildChapterSummaryPrompt(bookTitle, authorName, section, complete),
+      'Summarize this chapter.',
+      settings,
+      abortSignal,
+    );
+    const summary: AISummary = {
+      id,
+      bookHash,
+      model,
+      kind: 'chapter',
+      sectionIndex,
+      chapterTitle: section.chapterTitle,
+      maxPage: lastPage,
+      complete,
+      text,
+      createdAt: Date.now(),
+    };
+    await aiStore.saveSummary(summary);
+    aiLogger.summary.complete('chapter', text.length);
+    return summary;
+  } catch (e) {
+    aiLogger.summary.error('chapter', (e as Error).message);
+    throw e;
+  }
+}
+
+// "story so far" recap of everything up to the current page, only the latest one is kept
+export async function recapStory(
+  book: SummaryBookInfo,
+  settings: AISettings,
+  currentPage: number,
+  abortSignal?: AbortSignal,
+): Promise<AISummary | null> {
+  const { bookHash, bookTitle, authorName } = book;
+  const model = getChatModelName(settings);
+  const id = getSummaryId(bookHash, model, 'recap');
+
+  const cached = (await aiStore.getSummaries(bookHash)).find((s) => s.id === id);
+  if (cached && cached.maxPage === currentPage) {
+    aiLogger.summary.cached('recap', bookHash);
+    return cached;
+  }
+
+  const chunks = getChunksUpToPage(await aiStore.getChunks(bookHash), currentPage);
+  if (chunks.length === 0) return null;
+
+  aiLogger.summary.start('recap', bookHash, currentPage);
+  const chapterSummaries = await getBookSummaries(bookHash, settings);
+  const sections = buildRecapSections(
+    chunks,
+    chapterSummaries.filter((s) => s.kind === 'chapter'),
+    currentPage,
+  );
+  try {
+    const text = await generateText(
+      buildRecapPrompt(bookTitle, authorName, sections, currentPage),
+      'Recap the story so far.',
+      settings,
+      abortSignal,
+    );
+    const summary: AISummary = {
+      id,
+      bookHash,
+      model,
+      kind: 'recap',
+      sectionIndex: -1,
+      chapterTitle: '',
+      maxPage: currentPage,
+      complete: false,
+      text,
+      createdAt: Date.now(),
+    };
+    await aiStore.saveSummary(summary);
+    aiLogger.summary.complete('recap', text.length);
+    return summary;
+  } catch (e) {
+    aiLogger.summary.error('recap', (e as Error).message);
+    throw e;
+  }
+}
@@ -1,6 +1,6 @@
 import type { LanguageModel, EmbeddingModel } from 'ai';
 
-export type AIProviderName = 'ollama' | 'ai-gateway';
+export type AIProviderName = 'ollama' | 'ai-gateway' | 'openai-compatible';
 
 export interface AIProvider {
   id: AIProviderName;
@@ -27,6 +27,12 @@ export interface AISettings {
   aiGatewayCustomModel?: string;
   aiGatewayEmbeddingModel?: string;
 
+  // any server speaking the OpenAI chat completions and embeddings API, e.g. llama.cpp or LM Studio
+  openaiCompatibleBaseUrl?: string;
+  openaiCompatibleApiKey?: string;
+  openaiCompatibleModel?: string;
+  openaiCompatibleEmbeddingModel?: string;
+
   spoilerProtection: boolean;
   maxContextChunks: number;
   indexingMode: 'on-demand' | 'background';
@@ -40,6 +46,12 @@ export interface TextChunk {
   text: string;
   embedding?: number[];
   pageNumber: number; // page number using Readest's 1500 chars/page formula
+  cfi?: string; // location of the chunk in the book, missing for books indexed before cfis
+}
+
+export interface LibrarySearchResult extends ScoredChunk {
+  bookTitle: string;
+  authorName: string;
 }
 
 export interface ScoredChunk extends TextChunk {
@@ -55,6 +67,22 @@ export interface BookIndexMeta {
   totalChunks: number;
   embeddingModel: string;
   lastUpdated: number;
+  // false while indexing is interrupted, missing for indexes created before resuming was supported
+  complete?: boolean;
+}
+
+// cached AI summary of a chapter or of the story up to a page
+export interface AISummary {
+  id: string;
+  bookHash: string;
+  model: string;
+  kind: 'chapter' | 'recap';
+  sectionIndex: number; // -1 for recaps
+  chapterTitle: string;
+  maxPage: number; // last page covered by the summary
+  complete: boolean; // false when spoiler protection cut the chapter short
+  text: string;
+  createdAt: number;
 }
 
 export interface IndexingState {
@@ -3,7 +3,7 @@ import { TextChunk } from '../types';
 // same formula as toc.ts - 1500 chars = 1 page
 export const SIZE_PER_PAGE = 1500;
 
-interface ChunkingOptions {
+export interface ChunkingOptions {
   maxChunkSize: number;
   overlapSize: number;
   minChunkSize: number;
@@ -15,14 +15,74 @@ const DEFAULT_OPTIONS: ChunkingOptions = {
   minChunkSize: 100,
 };
 
-export function extractTextFromDocument(doc: Document): string {
+const EXCLUDED_SELECTOR = 'script, style, noscript, nav, header, footer';
+
+export interface SectionText {
+  text: string;
+  // maps offsets in the extracted text back to a DOM range so chunks can be located in the book
+  resolveRange: (start: number, end: number) => Range | null;
+}
+
+/**
+ * Reads the text of a section document in a single pass over its text nodes,
+ * keeping the node offsets so that chunks can be located without walking the DOM again.
+ */
+export function readSectionText(doc: Document): SectionText {
   const body = doc.body || doc.documentElement;
-  if (!body) return '';
-  const clone = body.cloneNode(true) as HTMLElement;
-  clone
-    .querySelectorAll('script, style, noscript, nav, header, footer')
-    .forEach((el) => el.remove());
-  return clone.textContent?.trim() || '';
+  const nodes: { node: Text; start: number }[] = [];
+  const parts: string[] = [];
+  let length = 0;
+  if (body) {
+    const walker = doc.createTreeWalker(body, NodeFilter.SHOW_TEXT, {
+      acceptNode: (node) =>
+        node.parentElement?.closest(EXCLUDED_SELECTOR)
+          ? NodeFilter.FILTER_REJECT
+          : NodeFilter.FILTER_ACCEPT,
+    });
+    for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+      const data = (node as Text).data;
+      nodes.push({ node: node as Text, start: length });
+      parts.push(data);
+      length += data.length;
+    }
+  }
+  const fullText = parts.join('');
+  const text = fullText.trim();
+  const leading = fullText.length - fullText.trimStart().length;
+
+  // binary search for the text node containing the offset, an end offset at
+  // a node boundary stays in the node before it
+  const locate = (offset: number, isEnd = false) => {
+    const target = offset + leading;
+    let lo = 0;
+    let hi = nodes.length - 1;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      const { node, start } = nodes[mid]!;
+      const end = start + node.data.length;
+      if (isEnd ? target <= end : target < end) hi = mid;
+      else lo = mid + 1;
+    }
+    const found = nodes[lo];
+    if (!found) return null;
+    return { node: found.node, offset: Math.min(target - found.start, found.node.data.length) };
+  };
+
+  const resolveRange = (start: number, end: number): Range | null => {
+    const from = locate(start);
+    const to = locate(end, true);
+    if (!from || !to) return null;
+    const range = doc.createRange();
+    range.setStart(from.node, from.offset);
+    range.setEnd(to.node, to.offset);
+    return range;
+  };
+
+  return { text, resolveRange };
+}
+
+export function extractTextFromDocument(doc: Document): string {
+  return readSectionText(doc).text;
 }
 
 function findBreakPoint(text: string, targetPos: number, searchRange = 50): number {
@@ -42,35 +102,22 @@ function findBreakPoint(text: string, targetPos: number, searchRange = 50): numb
   return targetPos;
 }
 
-export function chunkSection(
-  doc: Document,
-  sectionIndex: number,
-  chapterTitle: string,
-  bookHash: string,
-  cumulativeSizeBeforeSection: number, // total chars in all sections before this one
-  options?: Partial<ChunkingOptions>,
-): TextChunk[] {
+export interface TextSpan {
+  start: number; // offset of the span in the extracted section text
+  end: number;
+  text: string;
+}
+
+// splits the extracted text of a section, kept free of DOM access so it can run in a worker
+export function splitText(text: string, options?: Partial<ChunkingOptions>): TextSpan[] {
   const opts = { ...DEFAULT_OPTIONS, ...options };
-  const text = extractTextFromDocument(doc);
 
   if (!text || text.length < opts.minChunkSize) {
-    return text
-      ? [
-          {
-            id: `${bookHash}-${sectionIndex}-0`,
-            bookHash,
-            sectionIndex,
-            chapterTitle,
-            text: text.trim(),
-            pageNumber: Math.floor(cumulativeSizeBeforeSection / SIZE_PER_PAGE),
-          },
-        ]
-      : [];
+    return text ? [{ start: 0, end: text.length, text: text.trim() }] : [];
   }
 
-  const chunks: TextChunk[] = [];
+  const spans: TextSpan[] = [];
   let position = 0;
-  let chunkIndex = 0;
 
   while (position < text.length) {
     let chunkEnd = position + opts.maxChunkSize;
@@ -78,16 +125,9 @@ export function chunkSection(
     if (chunkEnd >= text.length) {
       const remaining = text.slice(position).trim();
       if (remaining.length >= opts.minChunkSize) {
-        chunks.push({
-          id: `${bookHash}-${sectionIndex}-${chunkIndex}`,
-          bookHash,
-          sectionIndex,
-          chapterTitle,
-          text: remaining,
-          pageNumber: Math.floor((cumulativeSizeBeforeSection + position) / SIZE_PER_PAGE),
-        });
-      } else if (chunks.length > 0) {
-        chunks[chunks.length - 1]!.text += ' ' + remaining;
+        spans.push({ start: position, end: text.length, text: remaining });
+      } else if (spans.length > 0) {
+        spans[spans.length - 1]!.text += ' ' + remaining;
       }
       break;
     }
@@ -96,19 +136,65 @@ export function chunkSection(
     const chunkText = text.slice(position, chunkEnd).trim();
 
     if (chunkText.length >= opts.minChunkSize) {
-      chunks.push({
-        id: `${bookHash}-${sectionIndex}-${chunkIndex}`,
-        bookHash,
-        sectionIndex,
-        chapterTitle,
-        text: chunkText,
-        pageNumber: Math.floor((cumulativeSizeBeforeSection + position) / SIZE_PER_PAGE),
-      });
-      chunkIndex++;
+      spans.push({ start: position, end: chunkEnd, text: chunkText });
     }
 
     position = chunkEnd - opts.overlapSize;
   }
 
-  return chunks;
+  return spans;
+}
+
+// turns the spans of a section into chunks, locating them in the section document when getCFI is given
+export function spansToChunks(
+  spans: TextSpan[],
+  resolveRange: SectionText['resolveRange'],
+  sectionIndex: number,
+  chapterTitle: string,
+  bookHash: string,
+  cumulativeSizeBeforeSection: number,
+  getCFI?: (range: Range) => string,
+): TextChunk[] {
+  const getChunkCFI = (start: number, end: number) => {
+    if (!getCFI) return undefined;
+    const range = resolveRange(start, end);
+    if (!range) return undefined;
+    try {
+      return getCFI(range);
+    } catch {
+      return undefined;
+    }
+  };
+
+  return spans.map((span, chunkIndex) => ({
+    id: `${bookHash}-${sectionIndex}-${chunkIndex}`,
+    bookHash,
+    sectionIndex,
+    chapterTitle,
+    text: span.text,
+    pageNumber: Math.floor((cumulativeSizeBeforeSection + span.start) / SIZE_PER_PAGE),
+    cfi: getChunkCFI(span.start, span.end),
+  }));
+}
+
+export function chunkSection(
+  doc: Document,
+  sectionIndex: number,
+  chapterTitle: string,
+  bookHash: string,
+  cumulativeSizeBeforeSection: number, // total chars in all sections before this one
+  options?: Partial<ChunkingOptions>,
+  getCFI?: (range: Range) => string, // resolves a range in this section to a CFI
+): TextChunk[] {
+  const { text, resolveRange } = readSectionText(doc);
+  const spans = splitText(text, options);
+  return spansToChunks(
+    spans,
+    resolveRange,
+    sectionIndex,
+    chapterTitle,
+    bookHash,
+    cumulativeSizeBeforeSection,
+    getCFI,
+  );
 }
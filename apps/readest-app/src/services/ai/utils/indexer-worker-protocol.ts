@@ -0,0 +1,25 @@
+import type { ChunkingOptions, TextSpan } from './chunker';
+import type { BM25Document, VectorScore, VectorSet } from './indexer';
+
+export type IndexerWorkerRequest =
+  | { id: number; type: 'split'; payload: { text: string; options?: Partial<ChunkingOptions> } }
+  | { id: number; type: 'build-bm25'; payload: { documents: BM25Document[] } }
+  | { id: number; type: 'load-vectors'; payload: { bookHash: string; set: VectorSet } }
+  | { id: number; type: 'unload-vectors'; payload: { bookHash: string } }
+  | {
+      id: number;
+      type: 'score';
+      payload: { bookHash: string; query: number[]; topK: number; maxPage?: number };
+    };
+
+export type IndexerWorkerResult = {
+  split: TextSpan[];
+  'build-bm25': string;
+  'load-vectors': null;
+  'unload-vectors': null;
+  score: VectorScore[] | null; // null when the vectors of the book are not loaded
+};
+
+export type IndexerWorkerResponse =
+  | { id: number; type: 'success'; payload: IndexerWorkerResult[keyof IndexerWorkerResult] }
+  | { id: number; type: 'error'; payload: { message: string } };
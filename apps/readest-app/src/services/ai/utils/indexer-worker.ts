@@ -0,0 +1,147 @@
+import { TextChunk } from '../types';
+import { aiLogger } from '../logger';
+import { ChunkingOptions, TextSpan, splitText } from './chunker';
+import { VectorScore, VectorSet, buildBM25Index, createVectorSet, scoreVectors } from './indexer';
+import {
+  IndexerWorkerRequest,
+  IndexerWorkerResponse,
+  IndexerWorkerResult,
+} from './indexer-worker-protocol';
+
+type RequestType = keyof IndexerWorkerResult;
+type RequestPayload<T extends RequestType> = Extract<IndexerWorkerRequest, { type: T }>['payload'];
+
+interface PendingRequest {
+  resolve: (value: unknown) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Runs the CPU heavy parts of indexing and retrieval in a worker so page turns
+ * stay smooth. Falls back to the main thread where workers are unavailable.
+ */
+class IndexerWorkerClient {
+  private worker: Worker | null = null;
+  private workerFailed = false;
+  private nextId = 0;
+  private pending = new Map<number, PendingRequest>();
+  private loadedBooks = new Set<string>();
+  // used instead of the worker copies when running on the main thread
+  private localVectorSets = new Map<string, VectorSet>();
+
+  private getWorker(): Worker | null {
+    if (this.workerFailed || typeof Worker === 'undefined') return null;
+    if (this.worker) return this.worker;
+    try {
+      this.worker = new Worker(new URL('../../../workers/ai-indexer.worker.ts', import.meta.url), {
+        type: 'module',
+      });
+    } catch {
+      this.workerFailed = true;
+      return null;
+    }
+    this.worker.onmessage = (event: MessageEvent<IndexerWorkerResponse>) => {
+      const { id, type, payload } = event.data;
+      const request = this.pending.get(id);
+      if (!request) return;
+      this.pending.delete(id);
+      if (type === 'error') {
+        request.reject(new Error(payload.message));
+      } else {
+        request.resolve(payload);
+      }
+    };
+    this.worker.onerror = () => this.handleWorkerFailure('AI indexer worker failed');
+    this.worker.onmessageerror = () =>
+      this.handleWorkerFailure('AI indexer worker message deserialization failed');
+    return this.worker;
+  }
+
+  private handleWorkerFailure(message: string) {
+    aiLogger.store.error('indexerWorker', message);
+    this.workerFailed = true;
+    this.worker?.terminate();
+    this.worker = null;
+    this.loadedBooks.clear();
+    for (const request of this.pending.values()) request.reject(new Error(message));
+    this.pending.clear();
+  }
+
+  private async run<T extends RequestType>(
+    type: T,
+    payload: RequestPayload<T>,
+    runLocally: () => IndexerWorkerResult[T],
+    transfer: Transferable[] = [],
+  ): Promise<IndexerWorkerResult[T]> {
+    const worker = this.getWorker();
+    if (!worker) return runLocally();
+    const id = this.nextId++;
+    try {
+      return await new Promise<IndexerWorkerResult[T]>((resolve, reject) => {
+        this.pending.set(id, { resolve: resolve as (value: unknown) => void, reject });
+        worker.postMessage({ id, type, payload } as IndexerWorkerRequest, transfer);
+      });
+    } catch (error) {
+      if (!this.workerFailed) throw error;
+      return runLocally();
+    }
+  }
+
+  async splitText(text: string, options?: Partial<ChunkingOptions>): Promise<TextSpan[]> {
+    return this.run('split', { text, options }, () => splitText(text, options));
+  }
+
+  async buildBM25Index(chunks: TextChunk[]): Promise<string> {
+    const documents = chunks.map(({ id, text, chapterTitle }) => ({ id, text, chapterTitle }));
+    return this.run('build-bm25', { documents }, () => buildBM25Index(documents));
+  }
+
+  private async loadVectors(bookHash: string, chunks: TextChunk[]): Promise<void> {
+    const set = createVectorSet(chunks);
+    if (!this.getWorker()) {
+      this.localVectorSets.set(bookHash, set);
+      return;
+    }
+    await this.run(
+      'load-vectors',
+      { bookHash, set },
+      () => {
+        // the buffers may already be detached by the failed transfer
+        this.localVectorSets.set(bookHash, createVectorSet(chunks));
+        return null;
+      },
+      [set.vectors.buffer, set.pages.buffer],
+    );
+    if (!this.workerFailed) this.loadedBooks.add(bookHash);
+  }
+
+  async scoreVectors(
+    bookHash: string,
+    chunks: TextChunk[],
+    query: number[],
+    topK: number,
+    maxPage?: number,
+  ): Promise<VectorScore[]> {
+    if (!this.loadedBooks.has(bookHash) && !this.localVectorSets.has(bookHash)) {
+      await this.loadVectors(bookHash, chunks);
+    }
+    const scoreLocally = () => {
+      const set = this.localVectorSets.get(bookHash);
+      return set ? scoreVectors(set, query, topK, maxPage) : [];
+    };
+    const scores = await this.run('score', { bookHash, query, topK, maxPage }, scoreLocally);
+    if (scores) return scores;
+    // the worker lost the vectors, e.g. after a restart
+    this.loadedBooks.delete(bookHash);
+    await this.loadVectors(bookHash, chunks);
+    return (await this.run('score', { bookHash, query, topK, maxPage }, scoreLocally)) ?? [];
+  }
+
+  async unloadVectors(bookHash: string): Promise<void> {
+    this.localVectorSets.delete(bookHash);
+    if (!this.loadedBooks.delete(bookHash)) return;
+    await this.run('unload-vectors', { bookHash }, () => null);
+  }
+}
+
+export const indexerWorker = new IndexerWorkerClient();
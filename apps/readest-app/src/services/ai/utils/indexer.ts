@@ -0,0 +1,80 @@
+import { TextChunk } from '../types';
+
+// eslint-disable-next-line @typescript-eslint/no-require-imports
+const lunr = require('lunr') as typeof import('lunr');
+
+export interface BM25Document {
+  id: string;
+  text: string;
+  chapterTitle: string;
+}
+
+// embeddings of a book packed into one buffer so they can be transferred to the worker
+export interface VectorSet {
+  ids: string[];
+  pages: Int32Array;
+  vectors: Float32Array;
+  dim: number;
+}
+
+export interface VectorScore {
+  id: string;
+  score: number;
+}
+
+export function cosineSimilarity(a: ArrayLike<number>, b: ArrayLike<number>): number {
+  if (a.length !== b.length) return 0;
+  let dot = 0,
+    normA = 0,
+    normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i]! * b[i]!;
+    normA += a[i]! * a[i]!;
+    normB += b[i]! * b[i]!;
+  }
+  const denom = Math.sqrt(normA) * Math.sqrt(normB);
+  return denom === 0 ? 0 : dot / denom;
+}
+
+export function buildBM25Index(documents: BM25Document[]): string {
+  const index = lunr(function (this: lunr.Builder) {
+    this.ref('id');
+    this.field('text');
+    this.field('chapterTitle');
+    this.pipeline.remove(lunr.stemmer);
+    this.searchPipeline.remove(lunr.stemmer);
+    for (const doc of documents) this.add(doc);
+  });
+  return JSON.stringify(index);
+}
+
+export function createVectorSet(chunks: TextChunk[]): VectorSet {
+  const embedded = chunks.filter((c) => c.embedding && c.embedding.length > 0);
+  const dim = embedded[0]?.embedding?.length ?? 0;
+  const usable = embedded.filter((c) => c.embedding!.length === dim);
+  const vectors = new Float32Array(usable.length * dim);
+  usable.forEach((c, i) => vectors.set(c.embedding!, i * dim));
+  return {
+    ids: usable.map((c) => c.id),
+    pages: Int32Array.from(usable.map((c) => c.pageNumber)),
+    vectors,
+    dim,
+  };
+}
+
+export function scoreVectors(
+  set: VectorSet,
+  query: number[],
+  topK: number,
+  maxPage?: number,
+): VectorScore[] {
+  if (query.length !== set.dim) return [];
+  const scores: VectorScore[] = [];
+  for (let i = 0; i < set.ids.length; i++) {
+    if (maxPage !== undefined && set.pages[i]! > maxPage) continue;
+    const vector = set.vectors.subarray(i * set.dim, (i + 1) * set.dim);
+    scores.push({ id: set.ids[i]!, score: cosineSimilarity(query, vector) });
+  }
+  scores.sort((a, b) => b.score - a.score);
+  return scores.slice(0, topK);
+}
@@ -0,0 +1,93 @@
+import { AISummary, TextChunk } from '../types';
+
+// upper bound of book text sent with a single summary request
+export const SUMMARY_CONTEXT_CHARS = 24000;
+
+export interface SummarySection {
+  sectionIndex: number;
+  chapterTitle: string;
+  text: string;
+}
+
+export function getSummaryId(
+  bookHash: string,
+  model: string,
+  kind: AISummary['kind'],
+  sectionIndex = -1,
+): string {
+  return `${bookHash}:${model}:${kind}:${sectionIndex}`;
+}
+
+export function getChunksUpToPage(chunks: TextChunk[], maxPage?: number): TextChunk[] {
+  return chunks
+    .filter((c) => maxPage === undefined || c.pageNumber <= maxPage)
+    .sort((a, b) => a.sectionIndex - b.sectionIndex || a.pageNumber - b.pageNumber);
+}
+
+// keeps evenly spaced chunks so long chapters still fit in the context
+export function selectChunksWithinBudget(chunks: TextChunk[], budget: number): TextChunk[] {
+  const total = chunks.reduce((sum, c) => sum + c.text.length, 0);
+  if (total <= budget) return chunks;
+  const keep = Math.max(1, Math.floor((chunks.length * budget) / total));
+  return Array.from({ length: keep }, (_, i) => chunks[Math.floor((i * chunks.length) / keep)]!);
+}
+
+/**
+ * Whether a cached chapter summary covers the chapter read up to lastPage.
+ * With spoiler protection (maxPage set) a summary that goes past the current
+ * page is never reused, even when it covers the whole chapter.
+ */
+export function isChapterSummaryUsable(
+  summary: AISummary,
+  lastPage: number,
+  maxPage?: number,
+): boolean {
+  if (maxPage !== undefined && summary.maxPage > maxPage) return false;
+  return summary.complete || summary.maxPage >= lastPage;
+}
+
+/**
+ * Builds the context of a recap from the chunks read up to maxPage.
+ * Chapters with a complete cached summary that ends at or before maxPage are
+ * condensed to that summary, the remaining budget is shared by the raw text
+ * of the read part of the other chapters.
+ */
+export function buildRecapSections(
+  chunks: TextChunk[],
+  chapterSummaries: AISummary[],
+  maxPage = Math.max(-1, ...chunks.map((c) => c.pageNumber)),
+  budget = SUMMARY_CONTEXT_CHARS,
+): SummarySection[] {
+  const summaries = new Map(
+    chapterSummaries
+      .filter((s) => s.complete && s.maxPage <= maxPage)
+      .map((s) => [s.sectionIndex, s]),
+  );
+  const bySection = new Map<number, TextChunk[]>();
+  for (const chunk of chunks) {
+    const list = bySection.get(chunk.sectionIndex) ?? [];
+    list.push(chunk);
+    bySection.set(chunk.sectionIndex, list);
+  }
+
+  const summarized = [...bySection.keys()].filter((i) => summaries.has(i));
+  const summaryChars = summarized.reduce((sum, i) => sum + summaries.get(i)!.text.length, 0);
+  const rawChunks = chunks.filter((c) => !summaries.has(c.sectionIndex));
+  const selected = new Set(
+    selectChunksWithinBudget(rawChunks, Math.max(0, budget - summaryChars)).map((c) => c.id),
+  );
+
+  const sections: SummarySection[] = [];
+  for (const [sectionIndex, sectionChunks] of [...bySection].sort(([a], [b]) => a - b)) {
+    const summary = summaries.get(sectionIndex);
+    const text = summary
+      ? summary.text
+      : sectionChunks
+          .filter((c) => selected.has(c.id))
+          .map((c) => c.text)
+          .join('\n');
+    if (!text) continue;
+    sections.push({ sectionIndex, chapterTitle: sectionChunks[0]!.chapterTitle, text });
+  }
+  return sections;
+}
@@ -0,0 +1,88 @@
+import { Book } from '@/types/book';
+import { AppService } from '@/types/system';
+import { BookMetadata, DocumentLoader } from '@/libs/document';
+import { useSettingsStore } from '@/store/settingsStore';
+import { locateTextsInBook } from '@/services/search';
+import { ClosableFile } from '@/utils/file';
+import { getMetadataHash } from '@/utils/book';
+import { AnnotationImportResult, ImportedAnnotation } from './types';
+import { KINDLE_LOCATION_LENGTH, parseKindleClippings } from './kindle';
+import { parseKOReaderMetadata } from './koreader';
+import { parseMarkdownHighlights, parseReadwiseCSV } from './markdown';
+import { createImportedBooknotes } from './match';
+
+/**
+ * Reads the annotations of a Kindle "My Clippings.txt", a KOReader
+ * metadata.*.lua, a Readwise CSV or a Markdown export, told apart by the
+ * extension of the file.
+ */
+export const parseAnnotationFile = (filename: string, content: string): ImportedAnnotation[] => {
+  const ext = filename.split('.').pop()?.toLowerCase();
+  switch (ext) {
+    case 'lua': {
+      const { title, author, identifiers, annotations } = parseKOReaderMetadata(content);
+      const metaHash = identifiers.length
+        ? getMetadataHash({ title, author, altIdentifier: identifiers } as BookMetadata)
+        : undefined;
+      return annotations.map((annotation) => ({ ...annotation, metaHash }));
+    }
+    case 'csv':
+      return parseReadwiseCSV(content);
+    case 'txt':
+      return /^={10}\s*$/m.test(content)
+        ? parseKindleClippings(content)
+        : parseMarkdownHighlights(content, filename);
+    case 'md':
+    case 'markdown':
+      return parseMarkdownHighlights(content, filename);
+    default:
+      return [];
+  }
+};
+
+/**
+ * Locates the exported annotations in the text of a book and adds them to
+ * the notes of the book. The annotations that cannot be located are returned
+ * to be placed manually.
+ */
+export const importBookAnnotations = async (
+  appService: AppService,
+  book: Book,
+  annotations: ImportedAnnotation[],
+  onProgress?: (progress: number) => void,
+): Promise<AnnotationImportResult> => {
+  const { file } = await appService.loadBookContent(book);
+  try {
+    const bookDoc = (await new DocumentLoader(file).open()).book;
+    const cfis = await locateTextsInBook(
+      bookDoc,
+      annotations.map(({ text, section, chapter, location }) => ({
+        text,
+        section,
+        chapter,
+        offset: location !== undefined ? location * KINDLE_LOCATION_LENGTH : undefined,
+      })),
+      onProgress,
+    );
+    const { settings } = useSettingsStore.getState();
+    const config = await appService.loadBookConfig(book, settings);
+    const { booknotes, result } = createImportedBooknotes(
+      annotations,
+      cfis,
+      config.booknotes ?? [],
+    );
+    if (result.imported > 0) {
+      await appService.saveBookConfig(
+        book,
+        { ...config, booknotes, updatedAt: Date.now() },
+        settings,
+      );
+    }
+    return result;
+  } finally {
+    const f = file as ClosableFile;
+    if (f && f.close) {
+      await f.close();
+    }
+  }
+};
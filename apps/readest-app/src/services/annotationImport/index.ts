@@ -0,0 +1,8 @@
+export { importBookAnnotations, parseAnnotationFile } from './importer';
+export { createImportedBooknotes, findLibraryBook, groupImportedAnnotations } from './match';
+export type {
+  AnnotationImportGroup,
+  AnnotationImportResult,
+  AnnotationImportSource,
+  ImportedAnnotation,
+} from './types';
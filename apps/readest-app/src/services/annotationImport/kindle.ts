@@ -0,0 +1,95 @@
+import { ImportedAnnotation } from './types';
+
+const CLIPPING_SEPARATOR = /^={10}\s*$/m;
+// the clipping types in the languages of the Kindle
+const HIGHLIGHT_TYPE =
+  /highlight|markierung|surlignement|subrayado|evidenziazione|destaque|标注|ハイライト/i;
+const NOTE_TYPE = /\bnote\b|notiz|nota\b|笔记|メモ/i;
+const PAGE_PATTERN = /(?:page|seite|página|pagina|页|ページ)\s*(\d+)/i;
+// a Kindle location is about 150 characters of the book text
+export const KINDLE_LOCATION_LENGTH = 150;
+
+const LOCATION_PATTERN =
+  /(?:location|position|posición|posizione|posição|位置)\s*(\d+)(?:-(\d+))?/i;
+
+// "Moby Dick (Melville, Herman)" -> the title and the author in the last parentheses
+const parseTitleLine = (line: string) => {
+  const match = line.match(/^(.*?)\s*\(([^()]*)\)\s*$/);
+  if (!match) return { title: line.trim(), author: '' };
+  return { title: match[1]!.trim(), author: match[2]!.trim() };
+};
+
+const parseDate = (meta: string) => {
+  const segments = meta.split('|');
+  const added = segments[segments.length - 1]!.replace(/^.*?\b(?:added on|hinzugefügt am)\s*/i, '');
+  const time = Date.parse(added.replace(/^[^\d,]+,\s*/, ''));
+  return isNaN(time) ? undefined : time;
+};
+
+/**
+ * Parses the "My Clippings.txt" file of a Kindle. Notes are attached to the
+ * highlight ending at their location, and a highlight clipped again after
+ * being resized replaces the earlier clipping.
+ */
+export const parseKindleClippings = (content: string): ImportedAnnotation[] => {
+  const highlights = new Map<string, ImportedAnnotation & { range?: [number, number] }>();
+  const notes: { title: string; author: string; location: number; text: string }[] = [];
+  for (const clipping of content.split(CLIPPING_SEPARATOR)) {
+    // every clipping may start with a byte order mark
+    const lines = clipping
+      .replace(/^\s*\uFEFF/, '')
+      .trim()
+      .split(/\r?\n/);
+    if (lines.length < 3) continue;
+    const { title, author } = parseTitleLine(lines[0]!);
+    const meta = lines[1]!;
+    const text = lines.slice(2).join('\n').trim();
+    if (!text) continue;
+    const page = meta.match(PAGE_PATTERN)?.[1];
+    const location = meta.match(LOCATION_PATTERN);
+    const start = location ? Number(location[1]) : undefined;
+    const end = location?.[2] ? Number(location[2]) : start;
+    if (HIGHLIGHT_TYPE.test(meta)) {
+      const key = `${title}|${start ?? highlights.size}`;
+      highlights.set(key, {
+        source: 'kindle',
+        title,
+        author,
+        text,
+        page: page ? Number(page) : undefined,
+        createdAt: parseDate(meta),
+        location: start,
+        range: start !== undefined ? [start, end!] : undefined,
+      });
+    } else if (NOTE_TYPE.test(meta) && start !== undefined) {
+      notes.push({ title, author, location: start, text });
+    }
+  }
+  const annotations = [...highlights.values()];
+  const orphans: ImportedAnnotation[] = [];
+  for (const note of notes) {
+    const highlight = annotations.find(
+      ({ title, range }) =>
+        title === note.title && range && range[0] <= note.location && note.location <= range[1],
+    );
+    if (highlight) {
+      highlight.note = highlight.note ? `${highlight.note}\n${note.text}` : note.text;
+    } else {
+      // notes without a highlight cannot be located in the book
+      orphans.push({
+        source: 'kindle',
+        title: note.title,
+        author: note.author,
+        text: '',
+        note: note.text,
+      });
+    }
+  }
+  return [
+    ...annotations.map((annotation) => {
+      delete annotation.range;
+      return annotation as ImportedAnnotation;
+    }),
+    ...orphans,
+  ];
+};
@@ -0,0 +1,214 @@
+import { HighlightColor, HighlightStyle } from '@/types/book';
+import { ImportedAnnotation } from './types';
+
+type LuaValue = string | number | boolean | null | LuaTable;
+type LuaTable = { [key: string]: LuaValue };
+
+const LUA_ESCAPES: Record<string, string> = {
+  n: '\n',
+  t: '\t',
+  r: '\r',
+  a: '\x07',
+  b: '\b',
+  f: '\f',
+  v: '\v',
+  '\\': '\\',
+  '"': '"',
+  "'": "'",
+  '\n': '\n',
+};
+
+/**
+ * Parses a Lua table literal as written by KOReader in the metadata files of
+ * its .sdr folders, e.g. `return { ["title"] = "Moby Dick", [1] = 42 }`.
+ */
+export const parseLuaTable = (source: string): LuaTable => {
+  let pos = 0;
+
+  const fail = (message: string): never => {
+    throw new SyntaxError(`${message} at position ${pos}`);
+  };
+
+  const skipSpace = () => {
+    for (;;) {
+      const match = source.slice(pos).match(/^(?:\s+|--\[\[[\s\S]*?\]\]|--[^\n]*)/);
+      if (!match || !match[0]) return;
+      pos += match[0].length;
+    }
+  };
+
+  const parseString = () => {
+    const quote = source[pos++];
+    let value = '';
+    while (pos < source.length && source[pos] !== quote) {
+      const char = source[pos++]!;
+      if (char !== '\\') {
+        value += char;
+        continue;
+      }
+      const next = source[pos]!;
+      const digits = source.slice(pos).match(/^\d{1,3}/)?.[0];
+      if (digits) {
+        value += String.fromCharCode(Number(digits));
+        pos += digits.length;
+      } else {
+        value += LUA_ESCAPES[next] ?? next;
+        pos++;
+      }
+    }
+    if (source[pos++] !== quote) fail('Unterminated string');
+    return value;
+  };
+
+  const parseLongString = () => {
+    const match = source.slice(pos).match(/^\[(=*)\[\n?([\s\S]*?)\]\1\]/);
+    if (!match) return fail('Unterminated long string');
+    pos += match[0].length;
+    return match[2]!;
+  };
+
+  const parseValue = (): LuaValue => {
+    skipSpace();
+    const char = source[pos];
+    if (char === '{') return parseTable();
+    if (char === '"' || char === "'") return parseString();
+    if (char === '[') return parseLongString();
+    const word = source
+      .slice(pos)
+      .match(/^(?:true|false|nil|-?(?:0x[\da-f]+|[\d.]+(?:e[-+]?\d+)?))/i);
+    if (!word) return fail('Unexpected token');
+    pos += word[0].length;
+    if (word[0] === 'true') return true;
+    if (word[0] === 'false') return false;
+    if (word[0] === 'nil') return null;
+    return Number(word[0]);
+  };
+
+  const parseTable = (): LuaTable => {
+    const table: LuaTable = {};
+    let index = 1;
+    pos++;
+    for (;;) {
+      skipSpace();
+      if (source[pos] === '}') {
+        pos++;
+        return table;
+      }
+      let key: string;
+      if (source[pos] === '[' && source[pos + 1] !== '[' && source[pos + 1] !== '=') {
+        pos++;
+        key = String(parseValue());
+        skipSpace();
+        if (source[pos++] !== ']') fail('Expected ]');
+        skipSpace();
+        if (source[pos++] !== '=') fail('Expected =');
+      } else {
+        const name = source.slice(pos).match(/^([A-Za-z_]\w*)\s*=(?!=)/);
+        if (name) {
+          key = name[1]!;
+          pos += name[0].length;
+        } else {
+          key = String(index++);
+        }
+      }
+      table[key] = parseValue();
+      skipSpace();
+      if (source[pos] === ',' || source[pos] === ';') pos++;
+      else if (source[pos] !== '}') fail('Expected , or }');
+    }
+  };
+
+  skipSpace();
+  if (source.startsWith('return', pos)) pos += 'return'.length;
+  skipSpace();
+  if (source[pos] !== '{') fail('Expected a table');
+  return parseTable();
+};
+
+const KOREADER_COLORS: Record<string, HighlightColor> = {
+  red: 'red',
+  orange: 'red',
+  yellow: 'yellow',
+  green: 'green',
+  olive: 'green',
+  cyan: 'blue',
+  blue: 'blue',
+  purple: 'violet',
+};
+
+const KOREADER_STYLES: Record<string, HighlightStyle> = {
+  lighten: 'highlight',
+  invert: 'highlight',
+  underscore: 'underline',
+  strikeout: 'underline',
+};
+
+const asTable = (value: LuaValue | undefined) =>
+  value && typeof value === 'object' ? value : ({} as LuaTable);
+
+const asString = (value: LuaValue | undefined) => (typeof value === 'string' ? value : '');
+
+// KOReader writes local times as "2024-03-01 12:00:00"
+const parseDate = (value: LuaValue | undefined) => {
+  const time = Date.parse(asString(value).replace(' ', 'T'));
+  return isNaN(time) ? undefined : time;
+};
+
+// the xpointers of KOReader start with the 1-based index of the section, e.g. /body/DocFragment[3]
+const parseSection = (value: LuaValue | undefined) => {
+  const fragment = asString(value).match(/^\/body\/DocFragment\[(\d+)\]/)?.[1];
+  return fragment ? Number(fragment) - 1 : undefined;
+};
+
+const toAnnotation = (
+  item: LuaTable,
+  book: Pick<ImportedAnnotation, 'title' | 'author'>,
+): ImportedAnnotation => ({
+  source: 'koreader',
+  ...book,
+  text: asString(item['text']).trim(),
+  note: asString(item['note']).trim() || undefined,
+  chapter: asString(item['chapter']) || undefined,
+  page: typeof item['pageno'] === 'number' ? item['pageno'] : undefined,
+  section: parseSection(item['pos0']),
+  color: KOREADER_COLORS[asString(item['color'])],
+  style: KOREADER_STYLES[asString(item['drawer'])],
+  createdAt: parseDate(item['datetime']),
+});
+
+/**
+ * Parses the highlights in a KOReader metadata file, with the annotations
+ * table of recent versions or the highlight table grouped by page of older
+ * ones. Returns the identifiers of the book to find it in the library.
+ */
+export const parseKOReaderMetadata = (content: string) => {
+  const metadata = parseLuaTable(content);
+  const props = asTable(metadata['doc_props']);
+  const stats = asTable(metadata['stats']);
+  const book = {
+    title: asString(props['title']) || asString(stats['title']),
+    author: (asString(props['authors']) || asString(stats['authors'])).replace(/\n/g, ', '),
+  };
+  const identifiers = asString(props['identifiers']).split('\n').filter(Boolean);
+
+  let items: LuaTable[];
+  if (metadata['annotations']) {
+    items = Object.values(asTable(metadata['annotations'])).map(asTable);
+  } else {
+    const pages = Object.entries(asTable(metadata['highlight'])).sort(
+      ([a], [b]) => Number(a) - Number(b),
+    );
+    items = pages.flatMap(([page, highlights]) =>
+      Object.values(asTable(highlights)).map((item) => ({
+        pageno: Number(page),
+        ...asTable(item),
+      })),
+    );
+  }
+  const annotations = items
+    // bookmarks have no position range
+    .filter((item) => item['pos0'] !== undefined)
+    .map((item) => toAnnotation(item, book))
+    .filter((annotation) => annotation.text);
+  return { ...book, identifiers, annotations };
+};
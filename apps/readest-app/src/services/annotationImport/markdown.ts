@@ -0,0 +1,174 @@
+import { HighlightColor } from '@/types/book';
+import { ImportedAnnotation } from './types';
+
+const READWISE_TO_READEST_COLOR: Record<string, HighlightColor> = {
+  pink: 'red',
+  orange: 'red',
+  yellow: 'yellow',
+  green: 'green',
+  blue: 'blue',
+  purple: 'violet',
+};
+
+const parseCSV = (content: string) => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i]!;
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length) rows.push([...row, field]);
+  return rows.filter((cells) => cells.some(Boolean));
+};
+
+/**
+ * Parses the CSV export of Readwise, with one highlight per row and the book
+ * of the highlight in its columns.
+ */
+export const parseReadwiseCSV = (content: string): ImportedAnnotation[] => {
+  const [header = [], ...rows] = parseCSV(content.replace(/^\uFEFF/, ''));
+  const column = (name: string) => header.findIndex((cell) => cell.trim() === name);
+  const columns = {
+    text: column('Highlight'),
+    title: column('Book Title'),
+    author: column('Book Author'),
+    note: column('Note'),
+    color: column('Color'),
+    locationType: column('Location Type'),
+    location: column('Location'),
+    date: column('Highlighted at'),
+  };
+  if (columns.text < 0 || columns.title < 0) return [];
+  return rows
+    .map((cells): ImportedAnnotation => {
+      const cell = (index: number) => (index >= 0 ? (cells[index] ?? '').trim() : '');
+      const time = Date.parse(cell(columns.date));
+      const isPage = cell(columns.locationType) === 'page';
+      return {
+        source: 'readwise',
+        title: cell(columns.title),
+        author: cell(columns.author),
+        text: cell(columns.text),
+        note: cell(columns.note) || undefined,
+        color: READWISE_TO_READEST_COLOR[cell(columns.color)],
+        page: isPage && cell(columns.location) ? Number(cell(columns.location)) : undefined,
+        createdAt: isNaN(time) ? undefined : time,
+      };
+    })
+    .filter((annotation) => annotation.text);
+};
+
+const stripMarkdown = (text: string) =>
+  text
+    .replace(/\[\[([^\]|]+)(?:\|[^\]]+)?\]\]/g, '$1')
+    .replace(/\*\*(.+?)\*\*/g, '$1')
+    .replace(/__(.+?)__/g, '$1')
+    .trim();
+
+// "quote ([Location 123](https://readwise.io/...))" or "quote (Page 12)"
+const LOCATION_SUFFIX = /\s*\((?:\[)?(?:location|page)\s+(\d+)(?:\]\([^)]*\))?\)\s*$/i;
+const NOTE_LINE = /^\s*(?:[-*]\s+)?\*\*note:?\*\*:?\s*(.*)$/i;
+const AUTHOR_LINE = /^\s*(?:[-*]\s+)?\**author\**:?\**\s*:?\s*(.+)$/i;
+const PAGE_LINE = /^\s*\*(?:page:?\s*(\d+)).*\*\s*$/i;
+
+/**
+ * Parses highlights exported as Markdown by Readwise, Readest or the Apple
+ * Books exporters: quotes or list items under a highlights heading, each
+ * optionally followed by a bold "Note" line.
+ */
+export const parseMarkdownHighlights = (content: string, filename = ''): ImportedAnnotation[] => {
+  const lines = content.replace(/^\uFEFF/, '').split(/\r?\n/);
+  let title = filename.replace(/\.[^.]+$/, '');
+  let author = '';
+  let chapter: string | undefined;
+  let inHighlights = false;
+  let quote: string[] = [];
+  const annotations: ImportedAnnotation[] = [];
+  const last = () => annotations[annotations.length - 1];
+
+  const addHighlight = (text: string) => {
+    const location = text.match(LOCATION_SUFFIX);
+    const highlight = stripMarkdown(text.replace(LOCATION_SUFFIX, ''));
+    if (!highlight) return;
+    annotations.push({
+      source: 'markdown',
+      title,
+      author,
+      text: highlight,
+      chapter,
+      page: location && /page/i.test(location[0]) ? Number(location[1]) : undefined,
+    });
+  };
+
+  const flushQuote = () => {
+    if (quote.length) addHighlight(quote.join('\n'));
+    quote = [];
+  };
+
+  for (const line of lines) {
+    if (line.startsWith('>')) {
+      quote.push(line.replace(/^>\s?/, ''));
+      continue;
+    }
+    flushQuote();
+    const heading = line.match(/^(#{1,6})\s+(.+)$/);
+    if (heading) {
+      const [, level, text] = heading;
+      if (level === '#' && !annotations.length) {
+        title = stripMarkdown(text!);
+      } else if (/highlights/i.test(text!)) {
+        inHighlights = true;
+      } else if (level!.length >= 3 || inHighlights) {
+        chapter = stripMarkdown(text!);
+      } else {
+        inHighlights = false;
+      }
+      continue;
+    }
+    const note = line.match(NOTE_LINE);
+    if (note && last()) {
+      const text = stripMarkdown(note[1]!);
+      last()!.note = last()!.note ? `${last()!.note}\n${text}` : text;
+      continue;
+    }
+    const page = line.match(PAGE_LINE);
+    if (page && last()) {
+      last()!.page = Number(page[1]);
+      continue;
+    }
+    const authorLine = line.match(AUTHOR_LINE);
+    if (authorLine && !annotations.length) {
+      author = stripMarkdown(authorLine[1]!);
+      continue;
+    }
+    // highlights are the top level items of the list, their details are nested
+    const item = line.match(/^[-*]\s+(.+)$/);
+    if (item && inHighlights) addHighlight(item[1]!);
+  }
+  flushQuote();
+  return annotations;
+};
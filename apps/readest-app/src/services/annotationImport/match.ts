@@ -0,0 +1,100 @@
+import { Book, BookNote } from '@/types/book';
+import { getTitleSimilarity, normalizeAuthor, normalizeTitle } from '@/utils/duplicates';
+import { uniqueId } from '@/utils/misc';
+import { AnnotationImportGroup, AnnotationImportResult, ImportedAnnotation } from './types';
+
+// titles may differ slightly between stores, e.g. in punctuation or typos
+const TITLE_SIMILARITY_THRESHOLD = 0.85;
+
+/**
+ * Finds the library book of an exported annotation by its metadata hash when
+ * the export has the identifiers of the book, or else by its title and author.
+ */
+export const findLibraryBook = (
+  annotation: Pick<ImportedAnnotation, 'title' | 'author' | 'metaHash'>,
+  library: Book[],
+): Book | null => {
+  const books = library.filter((book) => !book.deletedAt);
+  if (annotation.metaHash) {
+    const book = books.find(({ metaHash }) => metaHash === annotation.metaHash);
+    if (book) return book;
+  }
+  const title = normalizeTitle(annotation.title);
+  const author = normalizeAuthor(annotation.author);
+  if (!title) return null;
+  let best: { book: Book; similarity: number } | null = null;
+  for (const book of books) {
+    const bookAuthor = normalizeAuthor(book.author);
+    if (author && bookAuthor && author !== bookAuthor) continue;
+    const similarity = getTitleSimilarity(title, normalizeTitle(book.title));
+    if (similarity >= TITLE_SIMILARITY_THRESHOLD && similarity > (best?.similarity ?? 0)) {
+      best = { book, similarity };
+    }
+  }
+  return best?.book ?? null;
+};
+
+/**
+ * Groups the exported annotations by book and matches each book of the
+ * export with a book of the library.
+ */
+export const groupImportedAnnotations = (
+  annotations: ImportedAnnotation[],
+  library: Book[],
+): AnnotationImportGroup[] => {
+  const groups = new Map<string, AnnotationImportGroup>();
+  for (const annotation of annotations) {
+    const id = `${annotation.title}|${annotation.author}|${annotation.metaHash ?? ''}`;
+    const group = groups.get(id);
+    if (group) {
+      group.annotations.push(annotation);
+    } else {
+      const { title, author } = annotation;
+      const book = findLibraryBook(annotation, library);
+      groups.set(id, { id, title, author, book, annotations: [annotation] });
+    }
+  }
+  return [...groups.values()];
+};
+
+/**
+ * Adds the exported annotations located at the CFIs to the notes of a book,
+ * skipping the highlights that are already in the book.
+ */
+export const createImportedBooknotes = (
+  annotations: ImportedAnnotation[],
+  cfis: (string | null)[],
+  booknotes: BookNote[],
+  now = Date.now(),
+): { booknotes: BookNote[]; result: AnnotationImportResult } => {
+  const updated = [...booknotes];
+  const result: AnnotationImportResult = { imported: 0, skipped: 0, unanchored: [] };
+  for (const [i, annotation] of annotations.entries()) {
+    const cfi = cfis[i];
+    if (!cfi) {
+      result.unanchored.push(annotation);
+      continue;
+    }
+    const exists = updated.some(
+      (note) => note.type === 'annotation' && !note.deletedAt && note.cfi === cfi,
+    );
+    if (exists) {
+      result.skipped++;
+      continue;
+    }
+    updated.push({
+      id: uniqueId(),
+      type: 'annotation',
+      cfi,
+      text: annotation.text,
+      note: annotation.note ?? '',
+      style: annotation.style ?? 'highlight',
+      color: annotation.color ?? 'yellow',
+      page: annotation.page,
+      createdAt: annotation.createdAt ?? now,
+      updatedAt: now,
+    });
+    result.imported++;
+  }
+  return { booknotes: updated, result };
+};
@@ -0,0 +1,40 @@
+import { Book, HighlightColor, HighlightStyle } from '@/types/book';
+
+export type AnnotationImportSource = 'kindle' | 'koreader' | 'readwise' | 'markdown';
+
+// A highlight read from the export of another reader
+export interface ImportedAnnotation {
+  source: AnnotationImportSource;
+  title: string;
+  author: string;
+  // metadata hash of the book when the export has its identifiers
+  metaHash?: string;
+  text: string;
+  note?: string;
+  chapter?: string;
+  page?: number;
+  // Kindle location where the highlight starts
+  location?: number;
+  // index of the book section of the highlight, from the KOReader position
+  section?: number;
+  color?: HighlightColor;
+  style?: HighlightStyle;
+  createdAt?: number;
+}
+
+// The annotations of one book of the export and the library book they belong to
+export interface AnnotationImportGroup {
+  id: string;
+  title: string;
+  author: string;
+  book: Book | null;
+  annotations: ImportedAnnotation[];
+}
+
+export interface AnnotationImportResult {
+  imported: number;
+  // already in the book
+  skipped: number;
+  // could not be located in the text of the book
+  unanchored: ImportedAnnotation[];
+}
@@ -16,7 +16,9 @@ import {
   BookContent,
   BookFormat,
   FIXED_LAYOUT_FORMATS,
+  ReadingSession,
   ViewSettings,
+  VocabularyWord,
 } from '@/types/book';
 import {
   getDir,
@@ -30,7 +32,30 @@ import {
   formatAuthors,
   getPrimaryLanguage,
   getLibraryBackupFilename,
+  getLibraryArchiveFilename,
+  getReadingSessionsFilename,
+  getVocabularyFilename,
+  getFullTextIndexFilename,
 } from '@/utils/book';
+import {
+  BACKUP_FONTS_DIR,
+  BACKUP_IMAGES_DIR,
+  BACKUP_LIBRARY_FILENAME,
+  BACKUP_MANIFEST_FILENAME,
+  BACKUP_SETTINGS_FILENAME,
+  LibraryBackupOptions,
+  LibraryRestoreResult,
+  createBackupManifest,
+  findLocalBook,
+  getBackupBookDir,
+  mergeBackupBook,
+  mergeBackupConfig,
+  mergeBackupSettings,
+  sanitizeBackupSettings,
+  validateBackupLibrary,
+  validateBackupManifest,
+} from '@/utils/backup';
+import { configureZip } from '@/utils/zip';
 import { md5, partialMD5 } from '@/utils/md5';
 import { getBaseFilename, getFilename } from '@/utils/path';
 import { BookDoc, DocumentLoader, EXTS } from '@/libs/document';
@@ -79,6 +104,7 @@ import { ClosableFile } from '@/utils/file';
 import { ProgressHandler } from '@/utils/transfer';
 import { TxtToEpubConverter } from '@/utils/txt';
 import { BOOK_FILE_NOT_FOUND_ERROR } from './errors';
+import { createFullTextIndex, FULL_TEXT_INDEX_VERSION, FullTextIndex } from './search';
 import { CustomTextureInfo } from '@/styles/textures';
 import { CustomFont, CustomFontInfo } from '@/styles/fonts';
 import { parseFontInfo } from '@/utils/font';
@@ -118,6 +144,9 @@ export abstract class BaseAppService implements AppService {
 
   protected CURRENT_MIGRATION_VERSION = 20251124;
 
+  // full-text indexes of imported books are built one at a time after the import
+  private fullTextIndexing: Promise<void> = Promise.resolve();
+
   protected abstract fs: FileSystem;
   protected abstract resolvePath(fp: string, base: BaseDir): ResolvedPath;
 
@@ -127,7 +156,7 @@ export abstract class BaseAppService implements AppService {
   abstract selectFiles(name: string, extensions: string[]): Promise<string[]>;
   abstract saveFile(
     filename: string,
-    content: string | ArrayBuffer,
+    content: string | ArrayBuffer | File,
     filepath: string,
     mimeType?: string,
   ): Promise<boolean>;
@@ -469,6 +498,12 @@ export abstract class BaseAppService implements AppService {
           await this.fs.writeFile(getCoverFilename(book), 'Books', await cover.arrayBuffer());
         }
       }
+      if (
+        !transient &&
+        (!(await this.fs.exists(getFullTextIndexFilename(book), 'Books')) || overwrite)
+      ) {
+        this.queueFullTextIndex(book);
+      }
       // Never overwrite the config file only when it's not existed
       if (!existingBook) {
         await this.saveBookConfig(book, INIT_BOOK_CONFIG);
@@ -505,7 +540,7 @@ export abstract class BaseAppService implements AppService {
       const localDeleteFps =
         deleteAction === 'local'
           ? [getLocalBookFilename(book)]
-          : [getLocalBookFilename(book), getCoverFilename(book)];
+          : [getLocalBookFilename(book), getCoverFilename(book), getFullTextIndexFilename(book)];
       for (const fp of localDeleteFps) {
         if (await this.fs.exists(fp, 'Books')) {
           await this.fs.removeFile(fp, 'Books');
@@ -715,6 +750,225 @@ export abstract class BaseAppService implements AppService {
     return await this.saveFile(filename, content, filepath, fileType);
   }
 
+  async exportLibraryBackup(
+    books: Book[],
+    settings: SystemSettings,
+    options: LibraryBackupOptions = {},
+  ): Promise<boolean> {
+    const { includeBookFiles = false } = options;
+    await configureZip();
+    const { BlobReader, TextReader, ZipWriter } = await import('@zip.js/zip.js');
+    // The archive is streamed to a temp file while the entries are added,
+    // so that the book files never have to fit in memory at once
+    const filename = getLibraryArchiveFilename();
+    if (await this.fs.exists(filename, 'Temp')) {
+      await this.fs.removeFile(filename, 'Temp');
+    }
+    const { readable, writable } = new TransformStream<Uint8Array, Uint8Array>();
+    const written = this.fs.writeFile(filename, 'Temp', readable);
+    const zipWriter = new ZipWriter(writable);
+    const addText = (name: string, data: unknown) =>
+      zipWriter.add(name, new TextReader(JSON.stringify(data, null, 2)));
+    const addFile = async (name: string, path: string, base: BaseDir) => {
+      if (!(await this.fs.exists(path, base))) return;
+      const file = await this.fs.openFile(path, base);
+      await zipWriter.add(name, new BlobReader(file));
+      const f = file as ClosableFile;
+      if (f && f.close) {
+        await f.close();
+      }
+    };
+
+    try {
+      // eslint-disable-next-line @typescript-eslint/no-unused-vars
+      const libraryBooks = books.map(({ coverImageUrl, ...rest }) => rest);
+      await addText(BACKUP_MANIFEST_FILENAME, createBackupManifest(books.length, includeBookFiles));
+      await addText(BACKUP_LIBRARY_FILENAME, libraryBooks);
+      await addText(BACKUP_SETTINGS_FILENAME, sanitizeBackupSettings(settings));
+
+      for (const book of books) {
+        const dir = getBackupBookDir(book.hash);
+        await addFile(`${dir}/config.json`, getConfigFilename(book), 'Books');
+        if (book.deletedAt) continue;
+        await addFile(`${dir}/cover.png`, getCoverFilename(book), 'Books');
+        if (includeBookFiles) {
+          const fp = getLocalBookFilename(book);
+          await addFile(`${dir}/${getFilename(fp)}`, fp, 'Books');
+        }
+      }
+      for (const font of settings.customFonts.filter((font) => !font.deletedAt)) {
+        await addFile(`${BACKUP_FONTS_DIR}/${font.path}`, font.path, 'Fonts');
+      }
+      for (const texture of settings.customTextures.filter((texture) => !texture.deletedAt)) {
+        await addFile(`${BACKUP_IMAGES_DIR}/${texture.path}`, texture.path, 'Images');
+      }
+    } catch (error) {
+      // close the stream so that the pending write finishes before the temp file is removed
+      await zipWriter.close().catch(() => {});
+      await written.catch(() => {});
+      await this.fs.removeFile(filename, 'Temp').catch(() => {});
+      throw error;
+    }
+
+    await zipWriter.close();
+    await written;
+    const archive = await this.fs.openFile(filename, 'Temp');
+    const filepath = await this.resolveFilePath(filename, 'Temp');
+    try {
+      return await this.saveFile(filename, archive, filepath, 'application/zip');
+    } finally {
+      const f = archive as ClosableFile;
+      if (f && f.close) {
+        await f.close();
+      }
+    }
+  }
+
+  async exportAudiobook(
+    filename: string,
+    content: ArrayBuffer,
+    mimeType: string,
+  ): Promise<boolean> {
+    return await this.exportTempFile(filename, content, mimeType);
+  }
+
+  async exportVocabulary(
+    filename: string,
+    content: ArrayBuffer,
+    mimeType: string,
+  ): Promise<boolean> {
+    return await this.exportTempFile(filename, content, mimeType);
+  }
+
+  /**
+   * Restores a library backup created by exportLibraryBackup.
+   * Books are matched by hash or metaHash and merged with the local library,
+   * newer local metadata, reading progress and notes are never overwritten.
+   */
+  async importLibraryBackup(
+    file: string | File,
+    books: Book[],
+    settings: SystemSettings,
+  ): Promise<LibraryRestoreResult> {
+    const archive = typeof file === 'string' ? await this.fs.openFile(file, 'None') : file;
+    await configureZip();
+    const { BlobReader, TextWriter, ZipReader } = await import('@zip.js/zip.js');
+    const reader = new ZipReader(new BlobReader(archive));
+    try {
+      const entries = await reader.getEntries();
+      const map = new Map(entries.filter((entry) => !entry.directory).map((e) => [e.filename, e]));
+      const readJSON = async (name: string) => {
+        const entry = map.get(name);
+        if (!entry || entry.directory) return null;
+        return JSON.parse(await entry.getData(new TextWriter()));
+      };
+      // The entries are streamed to their files so that the book files never have to fit in memory
+      const restoreFile = async (name: string, path: string, base: BaseDir) => {
+        const entry = map.get(name);
+        if (!entry || entry.directory) return false;
+        const { readable, writable } = new TransformStream<Uint8Array, Uint8Array>();
+        const written = this.fs.writeFile(path, base, readable);
+        try {
+          await entry.getData(writable);
+          await written;
+        } catch (error) {
+          await writable.abort(error).catch(() => {});
+          await written.catch(() => {});
+          await this.fs.removeFile(path, base).catch(() => {});
+          throw error;
+        }
+        return true;
+      };
+
+      validateBackupManifest(await readJSON(BACKUP_MANIFEST_FILENAME));
+      const backupBooks = validateBackupLibrary(await readJSON(BACKUP_LIBRARY_FILENAME));
+      const backupSettings: Partial<SystemSettings> =
+        (await readJSON(BACKUP_SETTINGS_FILENAME)) ?? {};
+
+      const library = [...books];
+      let added = 0;
+      let updated = 0;
+      let skipped = 0;
+      for (const backupBook of backupBooks) {
+        const dir = getBackupBookDir(backupBook.hash);
+        const backupConfig = (await readJSON(`${dir}/config.json`)) as BookConfig | null;
+        const bookFilename = getFilename(getLocalBookFilename(backupBook));
+        const localBook = findLocalBook(library, backupBook);
+        if (!localBook) {
+          if (backupBook.deletedAt) {
+            skipped++;
+            continue;
+          }
+          const book: Book = { ...backupBook, url: undefined, filePath: undefined };
+          await this.fs.createDir(getDir(book), 'Books', true);
+          const hasFile = await restoreFile(
+            `${dir}/${bookFilename}`,
+            getLocalBookFilename(book),
+            'Books',
+          );
+          const hasCover = await restoreFile(`${dir}/cover.png`, getCoverFilename(book), 'Books');
+          book.downloadedAt = hasFile ? Date.now() : null;
+          book.coverDownloadedAt = hasCover ? Date.now() : book.coverDownloadedAt;
+          if (backupConfig) {
+            await this.saveBookConfig(book, backupConfig);
+          }
+          book.coverImageUrl = await this.generateCoverImageUrl(book);
+          library.push(book);
+          added++;
+          continue;
+        }
+
+        const mergedBook = mergeBackupBook(localBook, backupBook);
+        if (localBook.hash === backupBook.hash && !(await this.isBookAvailable(localBook))) {
+          const fp = getLocalBookFilename(mergedBook);
+          if (await restoreFile(`${dir}/${bookFilename}`, fp, 'Books')) {
+            mergedBook.downloadedAt = Date.now();
+          }
+        }
+        if (backupConfig) {
+          let localConfig: BookConfig | null = null;
+          if (await this.fs.exists(getConfigFilename(localBook), 'Books')) {
+            const str = await this.fs.readFile(getConfigFilename(localBook), 'Books', 'text');
+            localConfig = JSON.parse(str as string);
+          }
+          const mergedConfig = mergeBackupConfig(localConfig, backupConfig);
+          await this.saveBookConfig(mergedBook, {
+            ...mergedConfig,
+            bookHash: mergedBook.hash,
+            metaHash: mergedBook.metaHash,
+          });
+        }
+        library[library.indexOf(localBook)] = mergedBook;
+        if (mergedBook !== localBook || backupConfig) {
+          updated++;
+        } else {
+          skipped++;
+        }
+      }
+
+      // Custom fonts and textures are stored flat in their own directories
+      for (const font of backupSettings.customFonts ?? []) {
+        if (getFilename(font.path) !== font.path) continue;
+        if (!(await this.fs.exists(font.path, 'Fonts'))) {
+          await restoreFile(`${BACKUP_FONTS_DIR}/${font.path}`, font.path, 'Fonts');
+        }
+      }
+      for (const texture of backupSettings.customTextures ?? []) {
+        if (getFilename(texture.path) !== texture.path) continue;
+        if (!(await this.fs.exists(texture.path, 'Images'))) {
+          await restoreFile(`${BACKUP_IMAGES_DIR}/${texture.path}`, texture.path, 'Images');
+        }
+      }
+
+      const mergedSettings = mergeBackupSettings(settings, backupSettings);
+      await this.saveSettings(mergedSettings);
+      await this.saveLibraryBooks(library);
+      return { books: library, settings: mergedSettings, added, updated, skipped };
+    } finally {
+      await reader.close();
+    }
+  }
+
   async isBookAvailable(book: Book): Promise<boolean> {
     const fp = getLocalBookFilename(book);
     if (await this.fs.exists(fp, 'Books')) {
@@ -847,6 +1101,65 @@ export abstract class BaseAppService implements AppService {
     await this.safeSaveJSON(getLibraryFilename(), 'Books', libraryBooks);
   }
 
+  async loadReadingSessions(): Promise<ReadingSession[]> {
+    return await this.safeLoadJSON<ReadingSession[]>(getReadingSessionsFilename(), 'Books', []);
+  }
+
+  async saveReadingSessions(sessions: ReadingSession[]): Promise<void> {
+    await this.safeSaveJSON(getReadingSessionsFilename(), 'Books', sessions);
+  }
+
+  async loadVocabulary(): Promise<VocabularyWord[]> {
+    return await this.safeLoadJSON<VocabularyWord[]>(getVocabularyFilename(), 'Books', []);
+  }
+
+  async saveVocabulary(words: VocabularyWord[]): Promise<void> {
+    await this.safeSaveJSON(getVocabularyFilename(), 'Books', words);
+  }
+
+  async loadFullTextIndex(book: Book): Promise<FullTextIndex | null> {
+    const fp = getFullTextIndexFilename(book);
+    try {
+      if (!(await this.fs.exists(fp, 'Books'))) return null;
+      const index = JSON.parse((await this.fs.readFile(fp, 'Books', 'text')) as string);
+      // indexes of an older version are built again
+      return index.version === FULL_TEXT_INDEX_VERSION ? (index as FullTextIndex) : null;
+    } catch (error) {
+      console.error('Failed to load the full-text index:', error);
+      return null;
+    }
+  }
+
+  async saveFullTextIndex(book: Book, bookDoc: BookDoc): Promise<boolean> {
+    const index = await createFullTextIndex(bookDoc);
+    if (!index) return false;
+    await this.fs.writeFile(getFullTextIndexFilename(book), 'Books', JSON.stringify(index));
+    return true;
+  }
+
+  async indexBookFullText(book: Book): Promise<boolean> {
+    const { file } = await this.loadBookContent(book);
+    try {
+      const bookDoc = (await new DocumentLoader(file).open()).book;
+      return await this.saveFullTextIndex(book, bookDoc);
+    } finally {
+      const f = file as ClosableFile;
+      if (f && f.close) {
+        await f.close();
+      }
+    }
+  }
+
+  private queueFullTextIndex(book: Book) {
+    this.fullTextIndexing = this.fullTextIndexing.then(async () => {
+      try {
+        await this.indexBookFullText(book);
+      } catch (error) {
+        console.warn('Failed to build the full-text index:', error);
+      }
+    });
+  }
+
   private imageToArrayBuffer(imageUrl?: string, imageFile?: string): Promise<ArrayBuffer> {
     return new Promise((resolve, reject) => {
       if (!imageUrl && !imageFile) {
@@ -967,6 +1280,20 @@ export abstract class BaseAppService implements AppService {
     }
   }
 
+  /**
+   * Saves or shares a generated file, the file is written to the temp directory
+   * first so that it can be shared by its path on mobile.
+   */
+  private async exportTempFile(
+    filename: string,
+    content: ArrayBuffer,
+    mimeType: string,
+  ): Promise<boolean> {
+    await this.fs.writeFile(filename, 'Temp', content);
+    const filepath = await this.resolveFilePath(filename, 'Temp');
+    return await this.saveFile(filename, content, filepath, mimeType);
+  }
+
   private async migrate20251124(): Promise<void> {
     console.log('Running migration for version 20251124 to rename the backup library file...');
     const oldBackupFilename = getLibraryBackupFilename();
@@ -0,0 +1,21 @@
+import { invoke } from '@tauri-apps/api/core';
+import { CalibreBook, CalibreBookChanges, CalibreLibrary } from './types';
+import { parseCalibreDate } from './mapping';
+
+// Reads and writes metadata.db of a local Calibre library through the Tauri backend
+export class CalibreLocalLibrary implements CalibreLibrary {
+  constructor(private libraryPath: string) {}
+
+  async getBooks(): Promise<CalibreBook[]> {
+    return invoke<CalibreBook[]>('calibre_read_library', { libraryPath: this.libraryPath });
+  }
+
+  async updateBook(bookId: number, changes: CalibreBookChanges): Promise<number> {
+    const lastModified = await invoke<string>('calibre_update_book', {
+      libraryPath: this.libraryPath,
+      bookId,
+      changes,
+    });
+    return parseCalibreDate(lastModified);
+  }
+}
@@ -0,0 +1,92 @@
+import { fetchWithAuth, needsProxy } from '@/app/opds/utils/opdsReq';
+import { CalibreBook, CalibreBookChanges, CalibreLibrary, CalibreSource } from './types';
+import { CalibreServerBook, parseCalibreDate, parseCalibreServerBook } from './mapping';
+
+const BOOKS_BATCH_SIZE = 100;
+
+// Client of the JSON AJAX API of the Calibre content server
+export class CalibreServerClient implements CalibreLibrary {
+  private baseUrl: string;
+  private libraryId?: string;
+
+  constructor(private source: CalibreSource) {
+    this.baseUrl = (source.url ?? '').replace(/\/+$/, '');
+    this.libraryId = source.libraryId;
+  }
+
+  private async request<T>(path: string, options: RequestInit = {}): Promise<T> {
+    const url = `${this.baseUrl}${path}`;
+    const { username, password } = this.source;
+    const useProxy = !options.method && needsProxy(url);
+    const res = await fetchWithAuth(url, username, password, useProxy, {
+      ...options,
+      headers: { Accept: 'application/json', ...(options.headers as Record<string, string>) },
+    });
+    if (!res.ok) {
+      throw new Error(`Calibre server request failed: ${res.status} ${res.statusText}`);
+    }
+    return res.json();
+  }
+
+  async getLibraries() {
+    return this.request<{ library_map: Record<string, string>; default_library: string }>(
+      '/ajax/library-info',
+    );
+  }
+
+  private async getLibraryId() {
+    if (!this.libraryId) {
+      this.libraryId = (await this.getLibraries()).default_library;
+    }
+    return encodeURIComponent(this.libraryId);
+  }
+
+  getDownloadUrl(bookId: number, format: string, libraryId: string) {
+    return `${this.baseUrl}/get/${format.toUpperCase()}/${bookId}/${encodeURIComponent(libraryId)}`;
+  }
+
+  async getBooks(): Promise<CalibreBook[]> {
+    const libraryId = await this.getLibraryId();
+    const { book_ids: bookIds } = await this.request<{ book_ids: number[] }>(
+      `/ajax/search/${libraryId}?num=1000000&sort=timestamp&sort_order=desc`,
+    );
+    const books: CalibreBook[] = [];
+    for (let i = 0; i < bookIds.length; i += BOOKS_BATCH_SIZE) {
+      const ids = bookIds.slice(i, i + BOOKS_BATCH_SIZE);
+      const batch = await this.request<Record<string, CalibreServerBook | null>>(
+        `/ajax/books/${libraryId}?ids=${ids.join(',')}`,
+      );
+      for (const [id, data] of Object.entries(batch)) {
+        if (!data) continue;
+        const book = parseCalibreServerBook(Number(id), data);
+        book.formats = book.formats.map((format) => ({
+          ...format,
+          path: this.getDownloadUrl(book.id, format.format, decodeURIComponent(libraryId)),
+        }));
+        books.push(book);
+      }
+    }
+    return books;
+  }
+
+  // Requires a content server started with write access for the user
+  async updateBook(bookId: number, changes: CalibreBookChanges): Promise<number> {
+    const libraryId = await this.getLibraryId();
+    const { seriesIndex, ...fields } = changes;
+    const result = await this.request<Record<string, CalibreServerBook>>(
+      `/cdb/set-fields/${bookId}/${libraryId}`,
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          changes: {
+            ...fields,
+            ...(seriesIndex !== undefined ? { series_index: seriesIndex } : {}),
+          },
+          loaded_book_ids: [bookId],
+        }),
+      },
+    );
+    return parseCalibreDate(result[bookId]?.last_modified) || Date.now();
+  }
+}
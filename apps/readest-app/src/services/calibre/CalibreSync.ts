@@ -0,0 +1,193 @@
+import { Book } from '@/types/book';
+import { AppService } from '@/types/system';
+import { downloadFile } from '@/libs/storage';
+import { makeSafeFilename } from '@/utils/misc';
+import { getProxiedURL, needsProxy, probeAuth } from '@/app/opds/utils/opdsReq';
+import { READEST_OPDS_USER_AGENT, SUPPORTED_BOOK_EXTS } from '@/services/constants';
+import { CalibreBook, CalibreBookFields, CalibreLibrary, CalibreSource } from './types';
+import { CalibreLocalLibrary } from './CalibreLocalLibrary';
+import { CalibreServerClient } from './CalibreServerClient';
+import {
+  applyCalibreBook,
+  applyCalibreFields,
+  getCalibreBookFields,
+  getLocalBookFields,
+  mergeCalibreFields,
+  parseCalibreDate,
+} from './mapping';
+
+// Formats preferred when a Calibre book is stored in several of them
+const FORMAT_PRIORITY = [
+  'EPUB',
+  'AZW3',
+  'MOBI',
+  'AZW',
+  'FB2',
+  'CBZ',
+  'CBR',
+  'CB7',
+  'PDF',
+  'FBZ',
+  'TXT',
+];
+
+export interface CalibreSyncResult {
+  pulled: number;
+  pushed: number;
+  // books with fields changed on both sides, Calibre's values were kept
+  conflicts: number;
+  // books with local changes not sent because writing to Calibre was declined
+  skipped: number;
+  failed: number;
+}
+
+export const getCalibreLibrary = (source: CalibreSource): CalibreLibrary => {
+  if (source.type === 'local') {
+    return new CalibreLocalLibrary(source.path ?? '');
+  }
+  return new CalibreServerClient(source);
+};
+
+export const getPreferredCalibreFormat = (calibreBook: CalibreBook) => {
+  const formats = calibreBook.formats.filter((f) =>
+    SUPPORTED_BOOK_EXTS.includes(f.format.toLowerCase()),
+  );
+  formats.sort((a, b) => {
+    const ia = FORMAT_PRIORITY.indexOf(a.format);
+    const ib = FORMAT_PRIORITY.indexOf(b.format);
+    return (ia < 0 ? Infinity : ia) - (ib < 0 ? Infinity : ib);
+  });
+  return formats[0];
+};
+
+const downloadCalibreBook = async (
+  appService: AppService,
+  source: CalibreSource,
+  calibreBook: CalibreBook,
+  url: string,
+  ext: string,
+) => {
+  const { username = '', password = '' } = source;
+  const useProxy = needsProxy(url);
+  let downloadUrl = useProxy ? getProxiedURL(url, '', true) : url;
+  const headers: Record<string, string> = {
+    'User-Agent': READEST_OPDS_USER_AGENT,
+    Accept: '*/*',
+  };
+  if (username || password) {
+    const authHeader = await probeAuth(url, username, password, useProxy);
+    if (authHeader) {
+      headers['Authorization'] = authHeader;
+      downloadUrl = useProxy ? getProxiedURL(url, authHeader, true) : url;
+    }
+  }
+  const filename = `${makeSafeFilename(calibreBook.title)}.${ext}`;
+  const dstFilePath = await appService.resolveFilePath(filename, 'Cache');
+  await downloadFile({
+    appService,
+    dst: dstFilePath,
+    cfp: '',
+    url: downloadUrl,
+    headers,
+    singleThreaded: true,
+    skipSslVerification: true,
+  });
+  return dstFilePath;
+};
+
+/**
+ * Imports a Calibre book into the library and links it to the Calibre book
+ * so that its metadata can be synced later.
+ */
+export const importCalibreBook = async (
+  appService: AppService,
+  source: CalibreSource,
+  calibreBook: CalibreBook,
+  books: Book[],
+) => {
+  const format = getPreferredCalibreFormat(calibreBook);
+  if (!format) {
+    throw new Error(`No supported format for Calibre book ${calibreBook.id}`);
+  }
+  const ext = format.format.toLowerCase();
+  const file =
+    source.type === 'local'
+      ? format.path
+      : await downloadCalibreBook(appService, source, calibreBook, format.path, ext);
+  const book = await appService.importBook(file, books);
+  if (!book) return null;
+  applyCalibreBook(book, calibreBook, source.id);
+  book.updatedAt = Date.now();
+  if (source.type === 'server') {
+    await appService.deleteFile(file, 'None');
+  }
+  return book;
+};
+
+/**
+ * Syncs the metadata of the library books linked to the Calibre source in both directions.
+ * The books are updated in place, the caller is responsible for saving the library.
+ * confirmWrite is called once before the first change is sent to Calibre, local changes
+ * are kept for the next sync when it resolves to false.
+ */
+export const syncCalibreMetadata = async (
+  source: CalibreSource,
+  books: Book[],
+  calibreBooks?: CalibreBook[],
+  confirmWrite?: () => Promise<boolean>,
+): Promise<CalibreSyncResult> => {
+  const result: CalibreSyncResult = { pulled: 0, pushed: 0, conflicts: 0, skipped: 0, failed: 0 };
+  let canWrite: Promise<boolean> | undefined;
+  const linkedBooks = books.filter((b) => !b.deletedAt && b.calibre?.sourceId === source.id);
+  if (linkedBooks.length === 0) return result;
+
+  const library = getCalibreLibrary(source);
+  const remoteBooks = calibreBooks ?? (await library.getBooks());
+  const remoteBooksById = new Map(remoteBooks.map((b) => [b.id, b]));
+  for (const book of linkedBooks) {
+    const link = book.calibre!;
+    const calibreBook = remoteBooksById.get(link.bookId);
+    if (!calibreBook) continue;
+    try {
+      const remoteModified = parseCalibreDate(calibreBook.lastModified);
+      const remoteFields = getCalibreBookFields(calibreBook);
+      const localFields = getLocalBookFields(book);
+      const { push, pull, conflicts } = mergeCalibreFields(link.fields, localFields, remoteFields);
+      if (conflicts.length > 0) result.conflicts++;
+
+      let lastModified = remoteModified;
+      // the fields last synced stay the base of unsent local changes
+      let unsent: Partial<CalibreBookFields> = {};
+      if (Object.keys(push).length > 0) {
+        canWrite ??= confirmWrite?.() ?? Promise.resolve(true);
+        if (await canWrite) {
+          lastModified = await library.updateBook(link.bookId, push);
+          result.pushed++;
+        } else {
+          const keys = Object.keys(push) as (keyof CalibreBookFields)[];
+          unsent = Object.fromEntries(keys.map((key) => [key, link.fields[key]]));
+          result.skipped++;
+        }
+      }
+      if (remoteModified > link.lastModified) {
+        // also refresh the fields only read from Calibre, e.g. identifiers and custom columns
+        applyCalibreBook(book, { ...calibreBook, ...push }, source.id);
+      }
+      if (Object.keys(pull).length > 0) {
+        applyCalibreFields(book, pull);
+        book.updatedAt = Date.now();
+        result.pulled++;
+      }
+      book.calibre = {
+        ...link,
+        lastModified,
+        syncedAt: Date.now(),
+        fields: { ...localFields, ...pull, ...unsent },
+      };
+    } catch (error) {
+      console.error('Failed to sync Calibre book:', book.title, error);
+      result.failed++;
+    }
+  }
+  return result;
+};
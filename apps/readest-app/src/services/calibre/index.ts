@@ -0,0 +1,9 @@
+export { CalibreLocalLibrary } from './CalibreLocalLibrary';
+export { CalibreServerClient } from './CalibreServerClient';
+export {
+  getCalibreLibrary,
+  getPreferredCalibreFormat,
+  importCalibreBook,
+  syncCalibreMetadata,
+} from './CalibreSync';
+export type { CalibreSyncResult } from './CalibreSync';
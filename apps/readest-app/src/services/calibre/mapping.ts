@@ -0,0 +1,223 @@
+import { Book } from '@/types/book';
+import { BookMetadata } from '@/libs/document';
+import { formatAuthors } from '@/utils/book';
+import { CalibreBook, CalibreBookChanges, CalibreBookFields, CalibreCustomColumn } from './types';
+
+// Calibre separates multiple authors with an ampersand in its author fields
+const AUTHORS_SEPARATOR = ' & ';
+
+export interface CalibreServerBook {
+  uuid?: string;
+  title: string;
+  authors?: string[];
+  series?: string | null;
+  series_index?: number | null;
+  tags?: string[];
+  rating?: number | null;
+  identifiers?: Record<string, string>;
+  languages?: string[];
+  publisher?: string | null;
+  pubdate?: string | null;
+  comments?: string | null;
+  last_modified?: string;
+  formats?: string[];
+  format_metadata?: Record<string, { size?: number; path?: string }>;
+  user_metadata?: Record<
+    string,
+    {
+      label: string;
+      name: string;
+      datatype: string;
+      is_multiple?: Record<string, string> | null;
+      '#value#'?: unknown;
+    }
+  >;
+}
+
+// Calibre dates look like '2024-01-31 08:15:42.123456+00:00' or ISO 8601 strings
+export const parseCalibreDate = (date?: string | null) => {
+  if (!date) return 0;
+  const iso = date
+    .trim()
+    .replace(' ', 'T')
+    .replace(/(\.\d{3})\d+/, '$1');
+  const time = new Date(iso).getTime();
+  return isNaN(time) ? 0 : time;
+};
+
+export const parseCalibreServerBook = (id: number, data: CalibreServerBook): CalibreBook => {
+  const customColumns: Record<string, CalibreCustomColumn> = {};
+  for (const column of Object.values(data.user_metadata ?? {})) {
+    customColumns[column.label] = {
+      label: column.label,
+      name: column.name,
+      datatype: column.datatype,
+      isMultiple: !!column.is_multiple && Object.keys(column.is_multiple).length > 0,
+      value: column['#value#'] ?? null,
+    };
+  }
+  return {
+    id,
+    uuid: data.uuid,
+    title: data.title,
+    authors: data.authors ?? [],
+    series: data.series,
+    seriesIndex: data.series_index ?? 1,
+    tags: data.tags ?? [],
+    rating: data.rating,
+    identifiers: data.identifiers ?? {},
+    languages: data.languages ?? [],
+    publisher: data.publisher,
+    pubdate: data.pubdate,
+    comments: data.comments,
+    lastModified: data.last_modified ?? '',
+    formats: (data.formats ?? []).map((format) => ({
+      format: format.toUpperCase(),
+      path: '',
+      size: data.format_metadata?.[format.toLowerCase()]?.size ?? 0,
+    })),
+    customColumns,
+  };
+};
+
+const formatCustomColumnValue = (column: CalibreCustomColumn) => {
+  const { value, datatype } = column;
+  if (value === null || value === undefined || value === '') return '';
+  if (Array.isArray(value)) return value.join(', ');
+  if (datatype === 'bool') return value ? 'Yes' : 'No';
+  if (datatype === 'rating' && typeof value === 'number') return `${value / 2}`;
+  if (datatype === 'datetime' && typeof value === 'string') return value.split(/[ T]/)[0]!;
+  return String(value);
+};
+
+export const getCalibreBookFields = (calibreBook: CalibreBook): CalibreBookFields => ({
+  title: calibreBook.title,
+  authors: calibreBook.authors,
+  tags: calibreBook.tags,
+  series: calibreBook.series ?? '',
+  seriesIndex: calibreBook.seriesIndex ?? 1,
+  rating: calibreBook.rating ?? 0,
+  publisher: calibreBook.publisher ?? '',
+  comments: calibreBook.comments ?? '',
+});
+
+export const getLocalBookFields = (book: Book): CalibreBookFields => {
+  const metadata = book.metadata;
+  const author = metadata?.author;
+  const authors = typeof author === 'string' ? author.split(AUTHORS_SEPARATOR) : [book.author];
+  return {
+    title: book.title,
+    authors: authors.map((a) => a.trim()).filter(Boolean),
+    tags: book.tags ?? [],
+    series: metadata?.series ?? '',
+    seriesIndex: metadata?.seriesIndex ?? 1,
+    rating: Math.round((metadata?.rating ?? 0) * 2),
+    publisher: metadata?.publisher ?? '',
+    comments: metadata?.description ?? '',
+  };
+};
+
+const isSameValue = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * Three-way merge of the synced metadata fields against the fields of the last sync.
+ * Fields changed on one side only are taken from that side. Fields changed on both
+ * sides to different values are conflicts and are taken from Calibre, the local book
+ * has no record of when its metadata was edited, only of when it was last opened.
+ */
+export const mergeCalibreFields = (
+  base: CalibreBookFields,
+  local: CalibreBookFields,
+  remote: CalibreBookFields,
+) => {
+  const push: CalibreBookChanges = {};
+  const pull: CalibreBookChanges = {};
+  const conflicts: (keyof CalibreBookFields)[] = [];
+  for (const key of Object.keys(local) as (keyof CalibreBookFields)[]) {
+    const localChanged = !isSameValue(local[key], base[key]);
+    const remoteChanged = !isSameValue(remote[key], base[key]);
+    if (isSameValue(local[key], remote[key])) continue;
+    if (localChanged && !remoteChanged) {
+      Object.assign(push, { [key]: local[key] });
+    } else {
+      if (localChanged) conflicts.push(key);
+      Object.assign(pull, { [key]: remote[key] });
+    }
+  }
+  return { push, pull, conflicts };
+};
+
+export const applyCalibreFields = (book: Book, fields: CalibreBookChanges) => {
+  const metadata = (book.metadata ?? {}) as BookMetadata;
+  if (fields.title !== undefined) {
+    book.title = fields.title;
+    metadata.title = fields.title;
+  }
+  if (fields.authors !== undefined) {
+    book.author = formatAuthors(fields.authors, metadata.language);
+    metadata.author = fields.authors.join(AUTHORS_SEPARATOR);
+  }
+  if (fields.tags !== undefined) {
+    book.tags = fields.tags;
+  }
+  if (fields.series !== undefined) {
+    metadata.series = fields.series || undefined;
+  }
+  if (fields.seriesIndex !== undefined) {
+    metadata.seriesIndex = fields.seriesIndex;
+  }
+  if (fields.series !== undefined || fields.seriesIndex !== undefined) {
+    metadata.belongsTo = {
+      ...metadata.belongsTo,
+      series: metadata.series
+        ? { name: metadata.series, position: `${metadata.seriesIndex ?? 1}` }
+        : undefined,
+    };
+  }
+  if (fields.rating !== undefined) {
+    metadata.rating = fields.rating / 2;
+  }
+  if (fields.publisher !== undefined) {
+    metadata.publisher = fields.publisher || undefined;
+  }
+  if (fields.comments !== undefined) {
+    metadata.description = fields.comments || undefined;
+  }
+  book.metadata = metadata;
+};
+
+// Maps all the Calibre metadata onto the book, Calibre being the source of truth on import
+export const applyCalibreBook = (book: Book, calibreBook: CalibreBook, sourceId: string) => {
+  const metadata = (book.metadata ?? {}) as BookMetadata;
+  const { isbn, ...identifiers } = calibreBook.identifiers;
+  metadata.identifier = isbn ? `isbn:${isbn}` : metadata.identifier;
+  metadata.altIdentifier = [
+    ...(calibreBook.uuid ? [`calibre:${calibreBook.uuid}`] : []),
+    ...(isbn ? [`isbn:${isbn}`] : []),
+    ...Object.entries(identifiers).map(([scheme, value]) => `${scheme}:${value}`),
+  ];
+  if (calibreBook.languages.length > 0) {
+    metadata.language =
+      calibreBook.languages.length === 1 ? calibreBook.languages[0]! : calibreBook.languages;
+  }
+  if (calibreBook.pubdate && !calibreBook.pubdate.startsWith('0101')) {
+    metadata.published = calibreBook.pubdate;
+  }
+  const customColumns: BookMetadata['customColumns'] = {};
+  for (const column of Object.values(calibreBook.customColumns)) {
+    const value = formatCustomColumnValue(column);
+    if (value) customColumns[column.label] = { name: column.name, value };
+  }
+  metadata.customColumns = customColumns;
+  book.metadata = metadata;
+
+  const fields = getCalibreBookFields(calibreBook);
+  applyCalibreFields(book, fields);
+  book.calibre = {
+    sourceId,
+    bookId: calibreBook.id,
+    lastModified: parseCalibreDate(calibreBook.lastModified),
+    syncedAt: Date.now(),
+    fields,
+  };
+};
@@ -0,0 +1,80 @@
+export type CalibreSourceType = 'local' | 'server';
+
+export interface CalibreSource {
+  id: string;
+  name: string;
+  type: CalibreSourceType;
+  // folder of a local Calibre library containing metadata.db
+  path?: string;
+  // base url of a Calibre content server, e.g. http://localhost:8080
+  url?: string;
+  libraryId?: string;
+  username?: string;
+  password?: string;
+  lastSyncedAt?: number;
+}
+
+export interface CalibreCustomColumn {
+  label: string;
+  name: string;
+  datatype: string;
+  isMultiple: boolean;
+  value: unknown;
+}
+
+export interface CalibreFormat {
+  format: string;
+  // absolute file path in a local library or download url on a content server
+  path: string;
+  size: number;
+}
+
+export interface CalibreBook {
+  id: number;
+  uuid?: string | null;
+  title: string;
+  authors: string[];
+  series?: string | null;
+  seriesIndex: number;
+  tags: string[];
+  // 0 to 10 as stored by Calibre, i.e. two per star
+  rating?: number | null;
+  identifiers: Record<string, string>;
+  languages: string[];
+  publisher?: string | null;
+  pubdate?: string | null;
+  comments?: string | null;
+  lastModified: string;
+  coverPath?: string | null;
+  formats: CalibreFormat[];
+  customColumns: Record<string, CalibreCustomColumn>;
+}
+
+export interface CalibreBookChanges {
+  title?: string;
+  authors?: string[];
+  tags?: string[];
+  series?: string;
+  seriesIndex?: number;
+  rating?: number;
+  publisher?: string;
+  comments?: string;
+}
+
+export type CalibreBookFields = Required<CalibreBookChanges>;
+
+// Link between a library book and the Calibre book it was imported from
+export interface CalibreLink {
+  sourceId: string;
+  bookId: number;
+  // Calibre's last_modified of the book when it was last synced, in ms
+  lastModified: number;
+  syncedAt: number;
+  // synced metadata fields used as the common base to detect changes on either side
+  fields: CalibreBookFields;
+}
+
+export interface CalibreLibrary {
+  getBooks(): Promise<CalibreBook[]>;
+  updateBook(bookId: number, changes: CalibreBookChanges): Promise<number>;
+}
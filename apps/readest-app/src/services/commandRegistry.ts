@@ -6,7 +6,7 @@ import { LiaHandPointerSolid } from 'react-icons/lia';
 import { IoAccessibilityOutline } from 'react-icons/io5';
 import { PiRobot, PiSun, PiMoon } from 'react-icons/pi';
 import { TbSunMoon } from 'react-icons/tb';
-import { MdRefresh } from 'react-icons/md';
+import { MdKeyboard, MdRefresh } from 'react-icons/md';
 import { IconType } from 'react-icons';
 import { stubTranslation as _ } from '@/utils/misc';
 
@@ -153,6 +153,7 @@ const panelIcons: Record<SettingsPanelType, IconType> = {
   Control: LiaHandPointerSolid,
   Language: RiTranslate,
   AI: PiRobot,
+  Shortcuts: MdKeyboard,
   Custom: IoAccessibilityOutline,
 };
 
@@ -510,6 +511,12 @@ const languagePanelItems = [
     keywords: ['tts', 'text', 'translation', 'speech', 'read'],
     section: 'Translation',
   },
+  {
+    id: 'settings.language.dictionaries',
+    labelKey: _('Dictionaries'),
+    keywords: ['dictionary', 'stardict', 'mdict', 'dict', 'offline', 'wiktionary', 'lookup'],
+    section: 'Dictionaries',
+  },
   {
     id: 'settings.language.quotationMarks',
     labelKey: _('Replace Quotation Marks'),
@@ -535,7 +542,7 @@ const aiPanelItems = [
   {
     id: 'settings.ai.provider',
     labelKey: _('AI Provider'),
-    keywords: ['ai', 'provider', 'ollama', 'gateway', 'service'],
+    keywords: ['ai', 'provider', 'ollama', 'gateway', 'openai', 'llama.cpp', 'service'],
     section: 'AI',
   },
   {
@@ -564,6 +571,34 @@ const aiPanelItems = [
   },
 ];
 
+// shortcuts panel items
+const shortcutsPanelItems = [
+  {
+    id: 'settings.shortcuts.reader',
+    labelKey: _('Reader Shortcuts'),
+    keywords: ['shortcuts', 'keyboard', 'keys', 'hotkeys', 'bindings', 'navigation', 'reader'],
+    section: 'Shortcuts',
+  },
+  {
+    id: 'settings.shortcuts.selection',
+    labelKey: _('Text Selection Shortcuts'),
+    keywords: ['shortcuts', 'keyboard', 'keys', 'hotkeys', 'selection', 'highlight'],
+    section: 'Shortcuts',
+  },
+  {
+    id: 'settings.shortcuts.global',
+    labelKey: _('Application Shortcuts'),
+    keywords: ['shortcuts', 'keyboard', 'keys', 'hotkeys', 'window', 'app'],
+    section: 'Shortcuts',
+  },
+  {
+    id: 'settings.shortcuts.gamepad',
+    labelKey: _('Game Controllers and Remotes'),
+    keywords: ['gamepad', 'controller', 'remote', 'clicker', 'page turner', 'bluetooth', 'buttons'],
+    section: 'Shortcuts',
+  },
+];
+
 // custom panel items
 const customPanelItems = [
   {
@@ -698,6 +733,11 @@ export const buildCommandRegistry = (options: CommandRegistryOptions): CommandIt
     }
   }
 
+  // add shortcuts panel items
+  for (const def of shortcutsPanelItems) {
+    items.push(createSettingsItem(def, 'Shortcuts'));
+  }
+
   // add custom panel items
   for (const def of customPanelItems) {
     items.push(createSettingsItem(def, 'Custom'));
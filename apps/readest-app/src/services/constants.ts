@@ -44,6 +44,8 @@ export const SUPPORTED_BOOK_EXTS = [
   'fb2',
   'zip',
   'cbz',
+  'cbr',
+  'cb7',
   'pdf',
   'txt',
 ];
@@ -96,6 +98,8 @@ export const DEFAULT_SYSTEM_SETTINGS: Partial<SystemSettings> = {
   libraryCoverFit: 'crop',
   libraryAutoColumns: true,
   libraryColumns: 6,
+  watchFoldersScanInterval: 30,
+  dictionaryOnlineFallback: true,
 
   metadataSeriesCollapsed: false,
   metadataOthersCollapsed: false,
@@ -108,6 +112,8 @@ export const DEFAULT_SYSTEM_SETTINGS: Partial<SystemSettings> = {
   lastSyncedAtBooks: 0,
   lastSyncedAtConfigs: 0,
   lastSyncedAtNotes: 0,
+  lastSyncedAtSessions: 0,
+  lastSyncedAtVocabulary: 0,
 };
 
 export const DEFAULT_MOBILE_SYSTEM_SETTINGS: Partial<SystemSettings> = {
@@ -310,10 +316,13 @@ export const DEFAULT_NOTE_EXPORT_CONFIG: NoteExportConfig = {
   includePageNumber: true,
   includeTimestamp: false,
   includeChapterSeparator: false,
+  includeSummaries: true,
   noteSeparator: '\n\n',
   useCustomTemplate: false,
   customTemplate: '',
   exportAsPlainText: false,
+  vaultPath: '',
+  vaultFlavor: 'obsidian',
 };
 
 export const DEFAULT_ANNOTATOR_CONFIG: AnnotatorConfig = {
@@ -333,6 +342,7 @@ export const DEFAULT_PARAGRAPH_MODE_CONFIG: ParagraphModeConfig = {
 
 export const DEFAULT_BOOK_SEARCH_CONFIG: BookSearchConfig = {
   scope: 'book',
+  mode: 'text',
   matchCase: false,
   matchWholeWords: false,
   matchDiacritics: false,
@@ -0,0 +1,84 @@
+import { DictionaryEntry, DictionaryReader } from './types';
+import { DictionaryData, HeadwordIndex, openDictionaryData, readDictionaryFile } from './utils';
+
+export interface DictdFiles {
+  index: Blob;
+  dict: Blob;
+}
+
+const DICTD_DIGITS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+// the offsets and lengths in a DICT index are numbers written with base64 digits
+export const decodeDictdNumber = (text: string) => {
+  let value = 0;
+  for (const char of text) {
+    const digit = DICTD_DIGITS.indexOf(char);
+    if (digit < 0) return NaN;
+    value = value * 64 + digit;
+  }
+  return value;
+};
+
+// entries of the metadata of the database, e.g. 00databaseshort or 00-database-short
+const isMetaHeadword = (word: string) => /^00-?database/.test(word);
+
+export class DictdReader implements DictionaryReader {
+  name = 'DICT';
+  wordCount = 0;
+
+  #dict: DictionaryData;
+  #words: string[] = [];
+  #offsets: number[] = [];
+  #lengths: number[] = [];
+  #index = new HeadwordIndex();
+
+  private constructor(dict: DictionaryData) {
+    this.#dict = dict;
+  }
+
+  static async open(files: DictdFiles) {
+    const reader = new DictdReader(await openDictionaryData(files.dict));
+    const index = new TextDecoder().decode(await readDictionaryFile(files.index));
+    for (const line of index.split('\n')) {
+      const [word, offset, length] = line.replace(/\r$/, '').split('\t');
+      if (!word || !offset || !length) continue;
+      reader.#add(word, decodeDictdNumber(offset), decodeDictdNumber(length));
+    }
+    const [info] = await reader.#read(reader.#index.get('00databaseshort')[0] ?? -1);
+    const [altInfo] = await reader.#read(reader.#index.get('00-database-short')[0] ?? -1);
+    const name = (info ?? altInfo)?.definition.split('\n')[0]?.trim();
+    if (name) reader.name = name;
+    return reader;
+  }
+
+  #add(word: string, offset: number, length: number) {
+    if (!Number.isFinite(offset) || !Number.isFinite(length)) return;
+    this.#index.add(word, this.#words.length);
+    this.#words.push(word);
+    this.#offsets.push(offset);
+    this.#lengths.push(length);
+    if (!isMetaHeadword(word)) this.wordCount++;
+  }
+
+  async #read(position: number): Promise<DictionaryEntry[]> {
+    if (position < 0) return [];
+    const headword = this.#words[position]!;
+    const offset = this.#offsets[position]!;
+    const text = new TextDecoder().decode(
+      await this.#dict.read(offset, offset + this.#lengths[position]!),
+    );
+    // the definitions usually repeat the headword on their first line
+    const lines = text.split('\n');
+    const definition = lines[0]?.trim() === headword ? lines.slice(1).join('\n') : text;
+    return [{ headword, definition: definition.trim(), html: false }];
+  }
+
+  async lookup(word: string): Promise<DictionaryEntry[]> {
+    const entries: DictionaryEntry[] = [];
+    for (const position of this.#index.get(word)) {
+      if (isMetaHeadword(this.#words[position]!)) continue;
+      entries.push(...(await this.#read(position)));
+    }
+    return entries;
+  }
+}
@@ -0,0 +1,181 @@
+import { AppService } from '@/types/system';
+import { getFilename } from '@/utils/path';
+import { uniqueId } from '@/utils/misc';
+import { DictionaryFormat, DictionaryReader, DictionaryResult, ImportedDictionary } from './types';
+import { StarDictReader } from './StarDictReader';
+import { DictdReader } from './DictdReader';
+import { MDictReader } from './MDictReader';
+import { getLookupCandidates } from './lemmatize';
+
+const DICTIONARIES_DIR = 'dictionaries';
+
+export const DICTIONARY_FILE_EXTS = ['ifo', 'idx', 'dict', 'dz', 'syn', 'index', 'mdx', 'gz'];
+
+export type DictionaryFile = string | File;
+
+// files of one dictionary keyed by their role, e.g. the .idx file of a StarDict dictionary
+export interface DictionaryFileSet {
+  name: string;
+  format: DictionaryFormat;
+  files: Record<string, DictionaryFile>;
+}
+
+const FILE_ROLE_PATTERN = /^(.+?)\.(ifo|idx|dict|syn|index|mdx)(\.dz|\.gz)?$/i;
+
+const REQUIRED_ROLES: Record<DictionaryFormat, string[]> = {
+  stardict: ['ifo', 'idx', 'dict'],
+  dictd: ['index', 'dict'],
+  mdict: ['mdx'],
+};
+
+const getDictionaryFileName = (file: DictionaryFile) =>
+  typeof file === 'string' ? getFilename(file) : file.name;
+
+/**
+ * Groups the selected files by dictionary. A StarDict dictionary is made of its .ifo, .idx
+ * and .dict(.dz) files, a DICT dictionary of its .index and .dict(.dz) files and an MDict
+ * dictionary of a single .mdx file. Incomplete dictionaries are left out.
+ */
+export const groupDictionaryFiles = (files: DictionaryFile[]): DictionaryFileSet[] => {
+  const groups = new Map<string, Record<string, DictionaryFile>>();
+  for (const file of files) {
+    const match = FILE_ROLE_PATTERN.exec(getDictionaryFileName(file));
+    if (!match) continue;
+    const [, name, role] = match;
+    const group = groups.get(name!) ?? {};
+    group[role!.toLowerCase()] = file;
+    groups.set(name!, group);
+  }
+  const sets: DictionaryFileSet[] = [];
+  for (const [name, group] of groups) {
+    const format: DictionaryFormat = group['mdx'] ? 'mdict' : group['ifo'] ? 'stardict' : 'dictd';
+    if (REQUIRED_ROLES[format].every((role) => group[role])) {
+      sets.push({ name, format, files: group });
+    }
+  }
+  return sets;
+};
+
+const readerCache = new Map<string, Promise<DictionaryReader>>();
+
+const openDictionaryFile = (
+  appService: AppService,
+  dictionary: ImportedDictionary,
+  role: string,
+) => {
+  const path = dictionary.files.find((file) => file.endsWith(`.${role}`));
+  return path ? appService.openFile(path, 'Data') : Promise.resolve(undefined);
+};
+
+const createReader = async (
+  appService: AppService,
+  dictionary: ImportedDictionary,
+): Promise<DictionaryReader> => {
+  const open = (role: string) => openDictionaryFile(appService, dictionary, role);
+  switch (dictionary.format) {
+    case 'stardict':
+      return StarDictReader.open({
+        ifo: (await open('ifo'))!,
+        idx: (await open('idx'))!,
+        dict: (await open('dict'))!,
+        syn: await open('syn'),
+      });
+    case 'dictd':
+      return DictdReader.open({ index: (await open('index'))!, dict: (await open('dict'))! });
+    case 'mdict':
+      return MDictReader.open((await open('mdx'))!);
+  }
+};
+
+export const openDictionary = (appService: AppService, dictionary: ImportedDictionary) => {
+  let reader = readerCache.get(dictionary.id);
+  if (!reader) {
+    reader = createReader(appService, dictionary);
+    // a failed dictionary is opened again on the next lookup
+    reader.catch(() => readerCache.delete(dictionary.id));
+    readerCache.set(dictionary.id, reader);
+  }
+  return reader;
+};
+
+// the dictzip files are stored compressed, their chunks are inflated on lookup
+const copyDictionaryFile = async (appService: AppService, file: DictionaryFile, path: string) => {
+  if (typeof file === 'string') {
+    await appService.copyFile(file, path, 'Data');
+  } else {
+    await appService.writeFile(path, 'Data', file);
+  }
+};
+
+/**
+ * Copies the files of a dictionary into the app storage and checks that it can be read.
+ */
+export const importDictionary = async (
+  appService: AppService,
+  fileSet: DictionaryFileSet,
+): Promise<ImportedDictionary> => {
+  const id = uniqueId();
+  const dir = `${DICTIONARIES_DIR}/${id}`;
+  await appService.createDir(dir, 'Data', true);
+  try {
+    const files: string[] = [];
+    for (const [role, file] of Object.entries(fileSet.files)) {
+      const path = `${dir}/${fileSet.name}.${role}`;
+      await copyDictionaryFile(appService, file, path);
+      files.push(path);
+    }
+    const dictionary: ImportedDictionary = {
+      id,
+      name: fileSet.name,
+      format: fileSet.format,
+      files,
+      enabled: true,
+      importedAt: Date.now(),
+    };
+    const reader = await openDictionary(appService, dictionary);
+    return { ...dictionary, name: reader.name || fileSet.name, wordCount: reader.wordCount };
+  } catch (error) {
+    readerCache.delete(id);
+    await appService.deleteDir(dir, 'Data', true).catch(() => {});
+    throw error;
+  }
+};
+
+export const deleteDictionary = async (appService: AppService, dictionary: ImportedDictionary) => {
+  readerCache.delete(dictionary.id);
+  await appService.deleteDir(`${DICTIONARIES_DIR}/${dictionary.id}`, 'Data', true);
+};
+
+/**
+ * Looks up a word in the enabled dictionaries in their priority order. Each dictionary
+ * is searched for the word as selected first and then for its guessed lemmas.
+ */
+export const lookupDictionaries = async (
+  appService: AppService,
+  dictionaries: ImportedDictionary[],
+  word: string,
+  lang?: string,
+): Promise<DictionaryResult[]> => {
+  const candidates = getLookupCandidates(word, lang);
+  const results: DictionaryResult[] = [];
+  for (const dictionary of dictionaries.filter((d) => d.enabled)) {
+    try {
+      const reader = await openDictionary(appService, dictionary);
+      for (const candidate of candidates) {
+        const entries = await reader.lookup(candidate);
+        if (entries.length > 0) {
+          results.push({
+            dictionaryId: dictionary.id,
+            name: dictionary.name,
+            word: candidate,
+            entries,
+          });
+          break;
+        }
+      }
+    } catch (error) {
+      console.warn('Failed to look up dictionary:', dictionary.name, error);
+    }
+  }
+  return results;
+};
@@ -0,0 +1,289 @@
+import { DictionaryEntry, DictionaryReader } from './types';
+import { HeadwordIndex, decompress, readBytes } from './utils';
+import { ripemd128 } from './ripemd128';
+
+const LINK_PREFIX = '@@@LINK=';
+const MAX_LINK_DEPTH = 3;
+
+interface RecordBlock {
+  offset: number;
+  compressedSize: number;
+  // offset of the block in the concatenated records
+  recordOffset: number;
+  recordSize: number;
+}
+
+export const parseMDictHeader = (text: string) => {
+  const header: Record<string, string> = {};
+  for (const [, key, value] of text.matchAll(/(\w+)="([^"]*)"/g)) {
+    header[key!] = value!;
+  }
+  return header;
+};
+
+const getTextEncoding = (encoding = '') => {
+  const name = encoding.toUpperCase();
+  if (!name) return 'utf-8';
+  if (name === 'GBK' || name === 'GB2312') return 'gb18030';
+  if (name === 'UTF-16') return 'utf-16le';
+  return name.toLowerCase();
+};
+
+// the key block index of encrypted dictionaries is scrambled with a key derived from its checksum
+const decryptKeyBlockInfo = (data: Uint8Array) => {
+  const salt = new Uint8Array(8);
+  salt.set(data.subarray(4, 8));
+  new DataView(salt.buffer).setUint32(4, 0x3695, true);
+  const key = ripemd128(salt);
+  const decrypted = data.slice();
+  let previous = 0x36;
+  for (let i = 8; i < data.length; i++) {
+    const byte = data[i]!;
+    const swapped = ((byte >> 4) | (byte << 4)) & 0xff;
+    decrypted[i] = swapped ^ previous ^ ((i - 8) & 0xff) ^ key[(i - 8) % key.length]!;
+    previous = byte;
+  }
+  return decrypted;
+};
+
+const decompressBlock = async (block: Uint8Array) => {
+  const type = block[0];
+  const data = block.subarray(8);
+  switch (type) {
+    case 0:
+      return data;
+    case 2:
+      return decompress(data, 'deflate');
+    default:
+      throw new Error('LZO compressed MDict dictionaries are not supported');
+  }
+};
+
+class BinaryReader {
+  pos = 0;
+  #view: DataView;
+
+  constructor(
+    public bytes: Uint8Array,
+    private numberWidth: number,
+  ) {
+    this.#view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  }
+
+  number() {
+    const value =
+      this.numberWidth === 8
+        ? Number(this.#view.getBigUint64(this.pos))
+        : this.#view.getUint32(this.pos);
+    this.pos += this.numberWidth;
+    return value;
+  }
+
+  skip(size: number) {
+    this.pos += size;
+  }
+
+  uint(width: 1 | 2) {
+    const value = width === 2 ? this.#view.getUint16(this.pos) : this.#view.getUint8(this.pos);
+    this.pos += width;
+    return value;
+  }
+}
+
+/**
+ * Reads the MDict (.mdx) dictionaries of version 1.2 and 2.0. The keys are all loaded on open,
+ * the record blocks are read and decompressed on demand. Dictionaries requiring a registration
+ * code and LZO compressed dictionaries are not supported.
+ */
+export class MDictReader implements DictionaryReader {
+  readonly name: string;
+  wordCount = 0;
+
+  #file: Blob;
+  #header: Record<string, string>;
+  #version: number;
+  #encoding: string;
+  #numberWidth: number;
+  #words: string[] = [];
+  #recordOffsets: number[] = [];
+  #index = new HeadwordIndex();
+  #recordBlocks: RecordBlock[] = [];
+  #recordsSize = 0;
+  #blockCache = new Map<number, Uint8Array>();
+
+  private constructor(file: Blob, header: Record<string, string>) {
+    this.#file = file;
+    this.#header = header;
+    this.#version = parseFloat(header['GeneratedByEngineVersion'] || '2.0');
+    this.#encoding = getTextEncoding(header['Encoding']);
+    this.#numberWidth = this.#version >= 2 ? 8 : 4;
+    const title = header['Title']?.trim();
+    this.name = title && !title.startsWith('Title (No HTML') ? title : 'MDict';
+  }
+
+  static async open(file: Blob) {
+    const headerSize = new DataView((await readBytes(file, 0, 4)).buffer).getUint32(0);
+    const headerText = new TextDecoder('utf-16le').decode(await readBytes(file, 4, 4 + headerSize));
+    const header = parseMDictHeader(headerText);
+    const encrypted = header['Encrypted'] === 'Yes' ? 1 : Number(header['Encrypted']) || 0;
+    if (encrypted & 1) {
+      throw new Error('MDict dictionaries requiring a registration code are not supported');
+    }
+    const reader = new MDictReader(file, header);
+    // the header is followed by its adler32 checksum
+    const keysOffset = 4 + headerSize + 4;
+    const recordsOffset = await reader.#readKeys(keysOffset, (encrypted & 2) !== 0);
+    await reader.#readRecordBlocks(recordsOffset);
+    return reader;
+  }
+
+  get header() {
+    return this.#header;
+  }
+
+  #decodeText(bytes: Uint8Array) {
+    return new TextDecoder(this.#encoding).decode(bytes);
+  }
+
+  async #readKeys(offset: number, encrypted: boolean) {
+    const isV2 = this.#version >= 2;
+    const headerSize = isV2 ? 5 * 8 + 4 : 4 * 4;
+    const header = new BinaryReader(
+      await readBytes(this.#file, offset, offset + headerSize),
+      this.#numberWidth,
+    );
+    const numBlocks = header.number();
+    this.wordCount = header.number();
+    if (isV2) header.number(); // decompressed size of the key block index
+    const infoSize = header.number();
+    const blocksSize = header.number();
+
+    const infoOffset = offset + headerSize;
+    let info: Uint8Array = await readBytes(this.#file, infoOffset, infoOffset + infoSize);
+    if (isV2) {
+      info = await decompressBlock(encrypted ? decryptKeyBlockInfo(info) : info);
+    }
+
+    const blockSizes = this.#parseKeyBlockInfo(info, numBlocks);
+    const blocksOffset = infoOffset + infoSize;
+    const blocks = await readBytes(this.#file, blocksOffset, blocksOffset + blocksSize);
+    let pos = 0;
+    for (const size of blockSizes) {
+      this.#parseKeyBlock(await decompressBlock(blocks.subarray(pos, pos + size)));
+      pos += size;
+    }
+    return blocksOffset + blocksSize;
+  }
+
+  #parseKeyBlockInfo(info: Uint8Array, numBlocks: number) {
+    const isV2 = this.#version >= 2;
+    const reader = new BinaryReader(info, this.#numberWidth);
+    const sizeWidth = isV2 ? 2 : 1;
+    const terminator = isV2 ? 1 : 0;
+    const charWidth = this.#encoding === 'utf-16le' ? 2 : 1;
+    const sizes: number[] = [];
+    for (let i = 0; i < numBlocks && reader.pos < info.length; i++) {
+      reader.number(); // number of entries
+      reader.skip((reader.uint(sizeWidth) + terminator) * charWidth); // first key
+      reader.skip((reader.uint(sizeWidth) + terminator) * charWidth); // last key
+      sizes.push(reader.number());
+      reader.number(); // decompressed size
+    }
+    return sizes;
+  }
+
+  #parseKeyBlock(block: Uint8Array) {
+    const reader = new BinaryReader(block, this.#numberWidth);
+    const charWidth = this.#encoding === 'utf-16le' ? 2 : 1;
+    while (reader.pos < block.length) {
+      const recordOffset = reader.number();
+      let end = reader.pos;
+      while (
+        end < block.length &&
+        (block[end] !== 0 || (charWidth === 2 && block[end + 1] !== 0))
+      ) {
+        end += charWidth;
+      }
+      const word = this.#decodeText(block.subarray(reader.pos, end));
+      reader.pos = end + charWidth;
+      this.#index.add(word, this.#words.length);
+      this.#words.push(word);
+      this.#recordOffsets.push(recordOffset);
+    }
+  }
+
+  async #readRecordBlocks(offset: number) {
+    const headerSize = 4 * this.#numberWidth;
+    const header = new BinaryReader(
+      await readBytes(this.#file, offset, offset + headerSize),
+      this.#numberWidth,
+    );
+    const numBlocks = header.number();
+    header.number(); // number of entries
+    const infoSize = header.number();
+    header.number(); // size of the record blocks
+
+    const infoOffset = offset + headerSize;
+    const info = new BinaryReader(
+      await readBytes(this.#file, infoOffset, infoOffset + infoSize),
+      this.#numberWidth,
+    );
+    let blockOffset = infoOffset + infoSize;
+    let recordOffset = 0;
+    for (let i = 0; i < numBlocks; i++) {
+      const compressedSize = info.number();
+      const recordSize = info.number();
+      this.#recordBlocks.push({ offset: blockOffset, compressedSize, recordOffset, recordSize });
+      blockOffset += compressedSize;
+      recordOffset += recordSize;
+    }
+    this.#recordsSize = recordOffset;
+  }
+
+  async #readBlock(index: number) {
+    const cached = this.#blockCache.get(index);
+    if (cached) return cached;
+    const { offset, compressedSize } = this.#recordBlocks[index]!;
+    const block = await decompressBlock(
+      await readBytes(this.#file, offset, offset + compressedSize),
+    );
+    // keep only the most recent block, lookups of nearby words often share it
+    this.#blockCache.clear();
+    this.#blockCache.set(index, block);
+    return block;
+  }
+
+  async #readRecord(position: number) {
+    const start = this.#recordOffsets[position]!;
+    const end = this.#recordOffsets[position + 1] ?? this.#recordsSize;
+    let low = 0;
+    let high = this.#recordBlocks.length - 1;
+    while (low < high) {
+      const mid = (low + high + 1) >> 1;
+      if (this.#recordBlocks[mid]!.recordOffset <= start) low = mid;
+      else high = mid - 1;
+    }
+    const block = this.#recordBlocks[low];
+    if (!block) return '';
+    const data = await this.#readBlock(low);
+    const blockStart = start - block.recordOffset;
+    const blockEnd = Math.min(end - block.recordOffset, data.length);
+    return this.#decodeText(data.subarray(blockStart, blockEnd)).replace(/\0+$/, '');
+  }
+
+  async lookup(word: string, depth = 0): Promise<DictionaryEntry[]> {
+    const entries: DictionaryEntry[] = [];
+    for (const position of this.#index.get(word)) {
+      const definition = (await this.#readRecord(position)).trim();
+      if (definition.startsWith(LINK_PREFIX)) {
+        const target = definition.slice(LINK_PREFIX.length).trim();
+        if (depth < MAX_LINK_DEPTH && target) {
+          entries.push(...(await this.lookup(target, depth + 1)));
+        }
+      } else if (definition) {
+        entries.push({ headword: this.#words[position]!, definition, html: true });
+      }
+    }
+    return entries;
+  }
+}
@@ -0,0 +1,159 @@
+import { DictionaryEntry, DictionaryReader } from './types';
+import {
+  DictionaryData,
+  HeadwordIndex,
+  escapeHTML,
+  openDictionaryData,
+  readDictionaryFile,
+} from './utils';
+
+export interface StarDictFiles {
+  ifo: Blob;
+  idx: Blob;
+  dict: Blob;
+  syn?: Blob;
+}
+
+export type StarDictInfo = Record<string, string>;
+
+// data types rendered as markup, the other text types are plain text
+const MARKUP_TYPES = ['h', 'g', 'x'];
+const TEXT_TYPES = ['m', 'l', 't', 'y', 'w', ...MARKUP_TYPES];
+
+export const parseStarDictInfo = (text: string): StarDictInfo => {
+  const [magic, ...lines] = text.split(/\r?\n/);
+  if (!magic?.startsWith("StarDict's dict ifo file")) {
+    throw new Error('Invalid StarDict .ifo file');
+  }
+  const info: StarDictInfo = {};
+  for (const line of lines) {
+    const index = line.indexOf('=');
+    if (index > 0) {
+      info[line.slice(0, index).trim()] = line.slice(index + 1).trim();
+    }
+  }
+  return info;
+};
+
+/**
+ * Splits the data of an entry into its typed fields. With a `sametypesequence` the type
+ * markers are left out of the data and the last field runs to the end of the entry.
+ */
+export const parseStarDictData = (data: Uint8Array, sequence?: string) => {
+  const decoder = new TextDecoder();
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const fields: { type: string; text: string }[] = [];
+  let pos = 0;
+  let index = 0;
+  while (pos < data.length) {
+    let type: string;
+    if (sequence) {
+      if (index >= sequence.length) break;
+      type = sequence[index++]!;
+    } else {
+      type = String.fromCharCode(data[pos++]!);
+    }
+    const isLast = !!sequence && index === sequence.length;
+    if (type === type.toLowerCase()) {
+      const nul = data.indexOf(0, pos);
+      const end = isLast || nul < 0 ? data.length : nul;
+      if (TEXT_TYPES.includes(type)) {
+        fields.push({ type, text: decoder.decode(data.subarray(pos, end)) });
+      }
+      pos = end + 1;
+    } else {
+      // binary fields like sounds and pictures are skipped
+      pos = isLast ? data.length : pos + 4 + view.getUint32(pos);
+    }
+  }
+  return fields;
+};
+
+export const formatStarDictFields = (fields: { type: string; text: string }[]) => {
+  const html = fields.some((field) => MARKUP_TYPES.includes(field.type));
+  const parts = fields.map(({ type, text }) => {
+    if (!html || MARKUP_TYPES.includes(type)) return text;
+    const escaped = escapeHTML(text).replace(/\n/g, '<br>');
+    return type === 't' ? `<p>[${escaped}]</p>` : `<p>${escaped}</p>`;
+  });
+  return { html, definition: parts.join(html ? '' : '\n').trim() };
+};
+
+export class StarDictReader implements DictionaryReader {
+  readonly name: string;
+  readonly wordCount: number;
+
+  #dict: DictionaryData;
+  #sequence?: string;
+  #words: string[] = [];
+  #offsets: number[] = [];
+  #sizes: number[] = [];
+  #index = new HeadwordIndex();
+
+  private constructor(info: StarDictInfo, dict: DictionaryData) {
+    this.name = info['bookname'] || 'StarDict';
+    this.wordCount = Number(info['wordcount']) || 0;
+    this.#sequence = info['sametypesequence'] || undefined;
+    this.#dict = dict;
+  }
+
+  static async open(files: StarDictFiles) {
+    const info = parseStarDictInfo(await files.ifo.text());
+    const reader = new StarDictReader(info, await openDictionaryData(files.dict));
+    reader.#parseIndex(await readDictionaryFile(files.idx), info);
+    if (files.syn) {
+      reader.#parseSynonyms(await readDictionaryFile(files.syn));
+    }
+    return reader;
+  }
+
+  #parseIndex(bytes: Uint8Array, info: StarDictInfo) {
+    const decoder = new TextDecoder();
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const is64Bit = info['idxoffsetbits'] === '64';
+    let pos = 0;
+    while (pos < bytes.length) {
+      const end = bytes.indexOf(0, pos);
+      if (end < 0) break;
+      const word = decoder.decode(bytes.subarray(pos, end));
+      pos = end + 1;
+      const offset = is64Bit ? Number(view.getBigUint64(pos)) : view.getUint32(pos);
+      pos += is64Bit ? 8 : 4;
+      const size = view.getUint32(pos);
+      pos += 4;
+      this.#index.add(word, this.#words.length);
+      this.#words.push(word);
+      this.#offsets.push(offset);
+      this.#sizes.push(size);
+    }
+  }
+
+  #parseSynonyms(bytes: Uint8Array) {
+    const decoder = new TextDecoder();
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    let pos = 0;
+    while (pos < bytes.length) {
+      const end = bytes.indexOf(0, pos);
+      if (end < 0) break;
+      const word = decoder.decode(bytes.subarray(pos, end));
+      const position = view.getUint32(end + 1);
+      pos = end + 5;
+      if (position < this.#words.length) {
+        this.#index.add(word, position);
+      }
+    }
+  }
+
+  async lookup(word: string): Promise<DictionaryEntry[]> {
+    const entries: DictionaryEntry[] = [];
+    for (const position of this.#index.get(word)) {
+      const offset = this.#offsets[position]!;
+      const data = await this.#dict.read(offset, offset + this.#sizes[position]!);
+      const { html, definition } = formatStarDictFields(parseStarDictData(data, this.#sequence));
+      if (definition) {
+        entries.push({ headword: this.#words[position]!, definition, html });
+      }
+    }
+    return entries;
+  }
+}
@@ -0,0 +1,15 @@
+export {
+  DICTIONARY_FILE_EXTS,
+  deleteDictionary,
+  groupDictionaryFiles,
+  importDictionary,
+  lookupDictionaries,
+} from './DictionaryManager';
+export { getLookupCandidates } from './lemmatize';
+export type { DictionaryFile, DictionaryFileSet } from './DictionaryManager';
+export type {
+  DictionaryEntry,
+  DictionaryFormat,
+  DictionaryResult,
+  ImportedDictionary,
+} from './types';
@@ -0,0 +1,269 @@
+// [inflected suffix, base suffixes] tried in order, the first rules are the most specific
+type SuffixRule = [string, string[]];
+
+const ENGLISH_IRREGULARS: Record<string, string> = {
+  am: 'be',
+  is: 'be',
+  are: 'be',
+  was: 'be',
+  were: 'be',
+  been: 'be',
+  has: 'have',
+  had: 'have',
+  does: 'do',
+  did: 'do',
+  done: 'do',
+  went: 'go',
+  gone: 'go',
+  saw: 'see',
+  seen: 'see',
+  took: 'take',
+  taken: 'take',
+  came: 'come',
+  made: 'make',
+  said: 'say',
+  got: 'get',
+  gotten: 'get',
+  knew: 'know',
+  known: 'know',
+  thought: 'think',
+  told: 'tell',
+  found: 'find',
+  gave: 'give',
+  given: 'give',
+  ran: 'run',
+  wrote: 'write',
+  written: 'write',
+  spoke: 'speak',
+  spoken: 'speak',
+  left: 'leave',
+  felt: 'feel',
+  brought: 'bring',
+  bought: 'buy',
+  began: 'begin',
+  begun: 'begin',
+  stood: 'stand',
+  held: 'hold',
+  kept: 'keep',
+  slept: 'sleep',
+  men: 'man',
+  women: 'woman',
+  children: 'child',
+  feet: 'foot',
+  teeth: 'tooth',
+  mice: 'mouse',
+  people: 'person',
+  better: 'good',
+  best: 'good',
+  worse: 'bad',
+  worst: 'bad',
+};
+
+const SUFFIX_RULES: Record<string, SuffixRule[]> = {
+  en: [
+    ['ies', ['y']],
+    ['ied', ['y']],
+    ['ier', ['y']],
+    ['iest', ['y']],
+    ['ily', ['y']],
+    ['ves', ['f', 'fe']],
+    ['sses', ['ss']],
+    ['ches', ['ch']],
+    ['shes', ['sh']],
+    ['xes', ['x']],
+    ['zes', ['z']],
+    ['oes', ['o']],
+    ['es', ['e', '']],
+    ['s', ['']],
+    ['ing', ['', 'e']],
+    ['ed', ['', 'e']],
+    ['est', ['', 'e']],
+    ['er', ['', 'e']],
+    ['ly', ['']],
+    ['ness', ['']],
+  ],
+  fr: [
+    ['eaux', ['eau']],
+    ['aux', ['al']],
+    ['euses', ['eux']],
+    ['euse', ['eux']],
+    ['ives', ['if']],
+    ['ive', ['if']],
+    ['elles', ['el']],
+    ['elle', ['el']],
+    ['ennes', ['en']],
+    ['enne', ['en']],
+    ['issaient', ['ir']],
+    ['issait', ['ir']],
+    ['issent', ['ir']],
+    ['issons', ['ir']],
+    ['issez', ['ir']],
+    ['aient', ['er']],
+    ['ais', ['er']],
+    ['ait', ['er']],
+    ['ant', ['er']],
+    ['ons', ['er']],
+    ['ez', ['er']],
+    ['ent', ['er', 'ir', 're']],
+    ['ées', ['er']],
+    ['ée', ['er']],
+    ['és', ['er']],
+    ['é', ['er']],
+    ['rai', ['r']],
+    ['ras', ['r']],
+    ['ra', ['r']],
+    ['rons', ['r']],
+    ['rez', ['r']],
+    ['ront', ['r']],
+    ['es', ['e', '']],
+    ['s', ['']],
+    ['x', ['']],
+    ['e', ['']],
+    ['it', ['ir']],
+    ['is', ['ir']],
+    ['i', ['ir']],
+  ],
+  de: [
+    ['ern', ['er', '']],
+    ['sten', ['']],
+    ['ten', ['en', '']],
+    ['test', ['en']],
+    ['tet', ['en']],
+    ['te', ['en']],
+    ['est', ['en', '']],
+    ['st', ['en']],
+    ['et', ['en']],
+    ['en', ['', 'e']],
+    ['em', ['']],
+    ['er', ['']],
+    ['es', ['']],
+    ['e', ['', 'en']],
+    ['n', ['']],
+    ['s', ['']],
+    ['t', ['en']],
+  ],
+  es: [
+    ['iendo', ['er', 'ir']],
+    ['ando', ['ar']],
+    ['ados', ['ar']],
+    ['adas', ['ar']],
+    ['ado', ['ar']],
+    ['ada', ['ar']],
+    ['idos', ['er', 'ir']],
+    ['idas', ['er', 'ir']],
+    ['ido', ['er', 'ir']],
+    ['ida', ['er', 'ir']],
+    ['aban', ['ar']],
+    ['abas', ['ar']],
+    ['aba', ['ar']],
+    ['ían', ['er', 'ir']],
+    ['ía', ['er', 'ir']],
+    ['amos', ['ar']],
+    ['emos', ['er']],
+    ['imos', ['ir']],
+    ['ió', ['er', 'ir']],
+    ['ó', ['ar']],
+    ['ces', ['z']],
+    ['es', ['', 'e']],
+    ['as', ['o', 'a']],
+    ['os', ['o']],
+    ['s', ['']],
+    ['a', ['o']],
+    ['an', ['ar']],
+    ['en', ['er', 'ir']],
+    ['o', ['ar', 'er', 'ir']],
+  ],
+  it: [
+    ['ando', ['are']],
+    ['endo', ['ere', 'ire']],
+    ['ati', ['are']],
+    ['ate', ['are']],
+    ['ato', ['are']],
+    ['ata', ['are']],
+    ['uto', ['ere']],
+    ['ito', ['ire']],
+    ['che', ['ca']],
+    ['chi', ['co']],
+    ['ghi', ['go']],
+    ['i', ['o', 'e']],
+    ['e', ['a', 'o']],
+    ['o', ['are', 'ere', 'ire']],
+  ],
+  pt: [
+    ['ões', ['ão']],
+    ['ães', ['ão']],
+    ['ando', ['ar']],
+    ['endo', ['er']],
+    ['indo', ['ir']],
+    ['ado', ['ar']],
+    ['ada', ['ar']],
+    ['ido', ['er', 'ir']],
+    ['ida', ['er', 'ir']],
+    ['is', ['l']],
+    ['s', ['']],
+    ['a', ['o']],
+  ],
+};
+
+// the shortest stem left once a suffix is removed
+const MIN_STEM_LENGTH = 2;
+
+// elided articles and pronouns, e.g. l'homme or dell'anno
+const ELISION_PATTERN = /^[\p{L}]{1,5}['’](?=\p{L}{2,})/u;
+const EDGE_PUNCTUATION_PATTERN = /^[\p{P}\p{S}\s]+|[\p{P}\p{S}\s]+$/gu;
+
+const getBaseLanguage = (lang?: string) => (lang || '').split(/[-_]/)[0]!.toLowerCase();
+
+const isDoubledConsonant = (stem: string) =>
+  stem.length > 2 && stem.at(-1) === stem.at(-2) && !/[aeiouls]/.test(stem.at(-1)!);
+
+const deinflect = (word: string, lang: string) => {
+  const forms: string[] = [];
+  if (lang === 'en' && ENGLISH_IRREGULARS[word]) {
+    forms.push(ENGLISH_IRREGULARS[word]!);
+  }
+  if (lang === 'en' && /['’]s$/.test(word)) {
+    forms.push(word.slice(0, -2));
+  }
+  if (lang === 'de' && word.startsWith('ge') && word.endsWith('t') && word.length > 5) {
+    // past participles like gemacht
+    forms.push(`${word.slice(2, -1)}en`);
+  }
+  for (const [suffix, replacements] of SUFFIX_RULES[lang] ?? []) {
+    if (!word.endsWith(suffix)) continue;
+    const stem = word.slice(0, -suffix.length);
+    if (stem.length < MIN_STEM_LENGTH) continue;
+    for (const replacement of replacements) {
+      forms.push(stem + replacement);
+    }
+    // stopped -> stop, running -> run
+    if (lang === 'en' && ['ing', 'ed', 'er', 'est'].includes(suffix) && isDoubledConsonant(stem)) {
+      forms.push(stem.slice(0, -1));
+    }
+  }
+  return forms;
+};
+
+/**
+ * Lists the forms of a word to look up in the dictionaries: the word as selected,
+ * its lowercase form and the lemmas guessed by removing the common inflections of the language.
+ */
+export const getLookupCandidates = (word: string, lang?: string) => {
+  const baseLang = getBaseLanguage(lang);
+  const trimmed = word.replace(EDGE_PUNCTUATION_PATTERN, '');
+  const candidates = [word.trim(), trimmed];
+  const elided = trimmed.replace(ELISION_PATTERN, '');
+  if (['fr', 'it', 'ca'].includes(baseLang) && elided !== trimmed) {
+    candidates.push(elided);
+  }
+  const lower = candidates[candidates.length - 1]!.toLowerCase();
+  candidates.push(lower);
+  if (baseLang === 'de') {
+    // nouns are capitalized in German
+    candidates.push(lower.charAt(0).toUpperCase() + lower.slice(1));
+  }
+  if (!lower.includes(' ')) {
+    candidates.push(...deinflect(lower, baseLang));
+  }
+  return Array.from(new Set(candidates.filter(Boolean)));
+};
@@ -0,0 +1,67 @@
+// RIPEMD-128 digest, used by MDict to derive the key of its encrypted key block index
+
+const R = [
+  0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15, 7, 4, 13, 1, 10, 6, 15, 3, 12, 0, 9, 5, 2,
+  14, 11, 8, 3, 10, 14, 4, 9, 15, 8, 1, 2, 7, 0, 6, 13, 11, 5, 12, 1, 9, 11, 10, 0, 8, 12, 4, 13, 3,
+  7, 15, 14, 5, 6, 2,
+];
+const RP = [
+  5, 14, 7, 0, 9, 2, 11, 4, 13, 6, 15, 8, 1, 10, 3, 12, 6, 11, 3, 7, 0, 13, 5, 10, 14, 15, 8, 12, 4,
+  9, 1, 2, 15, 5, 1, 3, 7, 14, 6, 9, 11, 8, 12, 2, 10, 0, 4, 13, 8, 6, 4, 1, 3, 11, 15, 0, 5, 12, 2,
+  13, 9, 7, 10, 14,
+];
+const S = [
+  11, 14, 15, 12, 5, 8, 7, 9, 11, 13, 14, 15, 6, 7, 9, 8, 7, 6, 8, 13, 11, 9, 7, 15, 7, 12, 15, 9,
+  11, 7, 13, 12, 11, 13, 6, 7, 14, 9, 13, 15, 14, 8, 13, 6, 5, 12, 7, 5, 11, 12, 14, 15, 14, 15, 9,
+  8, 9, 14, 5, 6, 8, 6, 5, 12,
+];
+const SP = [
+  8, 9, 9, 11, 13, 15, 15, 5, 7, 7, 8, 11, 14, 14, 12, 6, 9, 13, 15, 7, 12, 8, 9, 11, 7, 7, 12, 7,
+  6, 15, 13, 11, 9, 7, 15, 11, 8, 6, 6, 14, 12, 13, 5, 14, 13, 13, 7, 5, 15, 5, 8, 11, 14, 14, 6,
+  14, 6, 9, 12, 9, 12, 5, 15, 8,
+];
+const K = [0x00000000, 0x5a827999, 0x6ed9eba1, 0x8f1bbcdc];
+const KP = [0x50a28be6, 0x5c4dd124, 0x6d703ef3, 0x00000000];
+
+const f = (j: number, x: number, y: number, z: number) => {
+  if (j < 16) return x ^ y ^ z;
+  if (j < 32) return (x & y) | (~x & z);
+  if (j < 48) return (x | ~y) ^ z;
+  return (x & z) | (y & ~z);
+};
+
+const rol = (s: number, x: number) => (x << s) | (x >>> (32 - s));
+
+export const ripemd128 = (message: Uint8Array) => {
+  const length = message.length;
+  const padded = new Uint8Array((((length + 8) >> 6) + 1) << 6);
+  padded.set(message);
+  padded[length] = 0x80;
+  const view = new DataView(padded.buffer);
+  view.setUint32(padded.length - 8, (length * 8) >>> 0, true);
+  view.setUint32(padded.length - 4, Math.floor((length * 8) / 0x100000000), true);
+
+  const h = [0x67452301, 0xefcdab89, 0x98badcfe, 0x10325476];
+  const x = new Array<number>(16);
+  for (let block = 0; block < padded.length; block += 64) {
+    for (let i = 0; i < 16; i++) x[i] = view.getUint32(block + i * 4, true);
+    let [a, b, c, d] = h as [number, number, number, number];
+    let [ap, bp, cp, dp] = h as [number, number, number, number];
+    for (let j = 0; j < 64; j++) {
+      let t = rol(S[j]!, (a + f(j, b, c, d) + x[R[j]!]! + K[j >> 4]!) | 0);
+      [a, d, c, b] = [d, c, b, t];
+      t = rol(SP[j]!, (ap + f(63 - j, bp, cp, dp) + x[RP[j]!]! + KP[j >> 4]!) | 0);
+      [ap, dp, cp, bp] = [dp, cp, bp, t];
+    }
+    const t = (h[1]! + c + dp) | 0;
+    h[1] = (h[2]! + d + ap) | 0;
+    h[2] = (h[3]! + a + bp) | 0;
+    h[3] = (h[0]! + b + cp) | 0;
+    h[0] = t;
+  }
+
+  const digest = new Uint8Array(16);
+  const digestView = new DataView(digest.buffer);
+  h.forEach((value, i) => digestView.setUint32(i * 4, value >>> 0, true));
+  return digest;
+};
@@ -0,0 +1,34 @@
+export type DictionaryFormat = 'stardict' | 'dictd' | 'mdict';
+
+// A dictionary imported into the app storage, the order in the settings is the lookup priority
+export interface ImportedDictionary {
+  id: string;
+  name: string;
+  format: DictionaryFormat;
+  // paths of the dictionary files relative to the app data directory
+  files: string[];
+  enabled: boolean;
+  wordCount?: number;
+  importedAt: number;
+}
+
+export interface DictionaryEntry {
+  headword: string;
+  definition: string;
+  // the definition is markup to be sanitized and rendered as HTML, plain text otherwise
+  html: boolean;
+}
+
+export interface DictionaryResult {
+  dictionaryId: string;
+  name: string;
+  // the word found in the dictionary, may be a lemma of the looked up word
+  word: string;
+  entries: DictionaryEntry[];
+}
+
+export interface DictionaryReader {
+  readonly name: string;
+  readonly wordCount: number;
+  lookup(word: string): Promise<DictionaryEntry[]>;
+}
@@ -0,0 +1,161 @@
+export const isGzip = (bytes: Uint8Array) => bytes[0] === 0x1f && bytes[1] === 0x8b;
+
+// gzip for the compressed index files, deflate for the zlib compressed blocks of MDict
+// and deflate-raw for the chunks of dictzip (.dz) files
+export const decompress = async (data: Uint8Array, format: CompressionFormat) => {
+  const stream = new Response(data as BlobPart).body!.pipeThrough(new DecompressionStream(format));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+export const readBytes = async (blob: Blob, start = 0, end = blob.size) =>
+  new Uint8Array(await blob.slice(start, end).arrayBuffer());
+
+/**
+ * Random access to the uncompressed data of a dictionary file.
+ */
+export interface DictionaryData {
+  read(start: number, end: number): Promise<Uint8Array>;
+}
+
+const GZIP_FHCRC = 0x02;
+const GZIP_FEXTRA = 0x04;
+const GZIP_FNAME = 0x08;
+const GZIP_FCOMMENT = 0x10;
+// the chunks before the last one end with a full flush, an empty final block ends their stream
+const DEFLATE_FINAL_BLOCK = new Uint8Array([0x03, 0x00]);
+
+/**
+ * Reads a dictzip file, a gzip file whose data is compressed in chunks listed in the 'RA'
+ * extra field of its header, so that only the chunks covering a range are inflated.
+ */
+class DictzipData implements DictionaryData {
+  #blob: Blob;
+  #chunkLength: number;
+  #offsets: number[];
+
+  constructor(blob: Blob, chunkLength: number, offsets: number[]) {
+    this.#blob = blob;
+    this.#chunkLength = chunkLength;
+    this.#offsets = offsets;
+  }
+
+  static async open(blob: Blob) {
+    const head = await readBytes(blob, 0, 12);
+    const flags = head[3]!;
+    if (!(flags & GZIP_FEXTRA)) return null;
+    const extraLength = head[10]! | (head[11]! << 8);
+    const extra = await readBytes(blob, 12, 12 + extraLength);
+    const view = new DataView(extra.buffer, extra.byteOffset, extra.byteLength);
+    let pos = 0;
+    let chunkLength = 0;
+    let chunkSizes: number[] | null = null;
+    while (pos + 4 <= extra.length) {
+      const length = view.getUint16(pos + 2, true);
+      if (extra[pos] === 0x52 && extra[pos + 1] === 0x41) {
+        // VER, CHLEN, CHCNT and the compressed size of each chunk
+        chunkLength = view.getUint16(pos + 6, true);
+        const count = view.getUint16(pos + 8, true);
+        chunkSizes = Array.from({ length: count }, (_, i) =>
+          view.getUint16(pos + 10 + i * 2, true),
+        );
+      }
+      pos += 4 + length;
+    }
+    if (!chunkSizes || !chunkLength) return null;
+
+    let dataStart = 12 + extraLength;
+    for (const flag of [GZIP_FNAME, GZIP_FCOMMENT]) {
+      if (flags & flag) dataStart = (await findZero(blob, dataStart)) + 1;
+    }
+    if (flags & GZIP_FHCRC) dataStart += 2;
+    const offsets = [dataStart];
+    for (const size of chunkSizes) offsets.push(offsets[offsets.length - 1]! + size);
+    return new DictzipData(blob, chunkLength, offsets);
+  }
+
+  async read(start: number, end: number) {
+    if (end <= start) return new Uint8Array();
+    const chunkCount = this.#offsets.length - 1;
+    const first = Math.floor(start / this.#chunkLength);
+    const last = Math.min(Math.floor((end - 1) / this.#chunkLength), chunkCount - 1);
+    const chunks = await readBytes(this.#blob, this.#offsets[first]!, this.#offsets[last + 1]!);
+    const data =
+      last < chunkCount - 1
+        ? await decompress(concatBytes(chunks, DEFLATE_FINAL_BLOCK), 'deflate-raw')
+        : await decompress(chunks, 'deflate-raw');
+    const base = first * this.#chunkLength;
+    return data.subarray(start - base, end - base);
+  }
+}
+
+class BlobData implements DictionaryData {
+  #blob: Blob;
+
+  constructor(blob: Blob) {
+    this.#blob = blob;
+  }
+
+  read(start: number, end: number) {
+    return readBytes(this.#blob, start, end);
+  }
+}
+
+const findZero = async (blob: Blob, start: number) => {
+  for (let pos = start; pos < blob.size; pos += 256) {
+    const index = (await readBytes(blob, pos, pos + 256)).indexOf(0);
+    if (index >= 0) return pos + index;
+  }
+  throw new Error('Invalid gzip header');
+};
+
+const concatBytes = (a: Uint8Array, b: Uint8Array) => {
+  const bytes = new Uint8Array(a.length + b.length);
+  bytes.set(a);
+  bytes.set(b, a.length);
+  return bytes;
+};
+
+// Reads the whole content of a dictionary file, inflating it when it is gzipped
+export const readDictionaryFile = async (blob: Blob) => {
+  const bytes = await readBytes(blob);
+  return isGzip(bytes) ? decompress(bytes, 'gzip') : bytes;
+};
+
+// Opens a dictionary file for reading by range, the chunks of dictzip files are inflated
+// on each read and other gzipped files are inflated once
+export const openDictionaryData = async (blob: Blob): Promise<DictionaryData> => {
+  if (!isGzip(await readBytes(blob, 0, 2))) return new BlobData(blob);
+  const dictzip = await DictzipData.open(blob);
+  if (dictzip) return dictzip;
+  return new BlobData(new Blob([(await decompress(await readBytes(blob), 'gzip')) as BlobPart]));
+};
+
+export const normalizeHeadword = (word: string) => word.trim().toLowerCase();
+
+/**
+ * Maps the normalized headwords to the positions of their entries in the dictionary index.
+ */
+export class HeadwordIndex {
+  #positions = new Map<string, number[]>();
+
+  add(word: string, position: number) {
+    const key = normalizeHeadword(word);
+    const positions = this.#positions.get(key);
+    if (!positions) {
+      this.#positions.set(key, [position]);
+    } else if (!positions.includes(position)) {
+      positions.push(position);
+    }
+  }
+
+  get(word: string) {
+    return this.#positions.get(normalizeHeadword(word)) ?? [];
+  }
+
+  get size() {
+    return this.#positions.size;
+  }
+}
+
+export const escapeHTML = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
@@ -0,0 +1,215 @@
+import { Book } from '@/types/book';
+import type { BookMetadata } from '@/libs/document';
+import { getBookISBNs } from '@/utils/duplicates';
+import { Metadata, MetadataResult, SearchRequest } from './types';
+
+export type MetadataField =
+  | 'title'
+  | 'subtitle'
+  | 'author'
+  | 'publisher'
+  | 'published'
+  | 'language'
+  | 'identifier'
+  | 'subject'
+  | 'description'
+  | 'series'
+  | 'seriesIndex'
+  | 'coverImageUrl';
+
+export const METADATA_FIELDS: MetadataField[] = [
+  'coverImageUrl',
+  'title',
+  'subtitle',
+  'author',
+  'series',
+  'seriesIndex',
+  'publisher',
+  'published',
+  'language',
+  'identifier',
+  'subject',
+  'description',
+];
+
+export interface MetadataFieldDiff {
+  field: MetadataField;
+  current: string;
+  proposed: string;
+}
+
+export interface BookMetadataLookup {
+  bookHash: string;
+  results: MetadataResult[];
+  error?: string;
+}
+
+export const METADATA_PROVIDERS = ['openlibrary', 'googlebooks'];
+
+/** Minimum interval in milliseconds between two requests to the same provider */
+export const METADATA_PROVIDER_INTERVALS: Record<string, number> = {
+  openlibrary: 1000,
+  googlebooks: 500,
+};
+
+const DEFAULT_PROVIDER_INTERVAL = 1000;
+
+const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Runs the requests of each provider one after another with a minimum interval,
+ * while the requests to different providers run in parallel.
+ */
+export class ProviderRateLimiter {
+  private intervals: Record<string, number>;
+  private tails = new Map<string, Promise<void>>();
+
+  constructor(intervals: Record<string, number> = METADATA_PROVIDER_INTERVALS) {
+    this.intervals = intervals;
+  }
+
+  schedule<T>(provider: string, task: () => Promise<T>): Promise<T> {
+    const interval = this.intervals[provider] ?? DEFAULT_PROVIDER_INTERVAL;
+    const previous = this.tails.get(provider) ?? Promise.resolve();
+    const result = previous.then(task);
+    this.tails.set(
+      provider,
+      result.then(
+        () => sleep(interval),
+        () => sleep(interval),
+      ),
+    );
+    return result;
+  }
+}
+
+export const createSearchRequest = (book: Book): SearchRequest => ({
+  title: book.title,
+  author: book.author,
+  isbn: getBookISBNs(book.metadata)[0],
+  language: book.primaryLanguage,
+});
+
+const searchProvider = async (
+  request: SearchRequest,
+  provider: string,
+  search: (request: SearchRequest) => Promise<MetadataResult[]>,
+  limiter: ProviderRateLimiter,
+) => {
+  const results = await limiter.schedule(provider, () =>
+    search({ ...request, providers: [provider] }),
+  );
+  // falls back to the title when the ISBN is unknown to the provider
+  if (results.length === 0 && request.isbn && request.title) {
+    return limiter.schedule(provider, () =>
+      search({ ...request, isbn: undefined, providers: [provider] }),
+    );
+  }
+  return results;
+};
+
+/**
+ * Looks up the metadata of the books from all providers, rate limited per provider.
+ * The lookup of each book is reported as soon as all its providers answered.
+ */
+export const lookupBooksMetadata = async (
+  books: Book[],
+  search: (request: SearchRequest) => Promise<MetadataResult[]>,
+  onLookup: (lookup: BookMetadataLookup) => void,
+  options: { providers?: string[]; limiter?: ProviderRateLimiter; signal?: AbortSignal } = {},
+) => {
+  const { providers = METADATA_PROVIDERS, limiter = new ProviderRateLimiter(), signal } = options;
+  await Promise.all(
+    books.map(async (book) => {
+      const request = createSearchRequest(book);
+      const errors: string[] = [];
+      const responses = await Promise.all(
+        providers.map((provider) =>
+          searchProvider(
+            request,
+            provider,
+            async (req) => {
+              if (signal?.aborted) throw new Error('Lookup aborted');
+              return search(req);
+            },
+            limiter,
+          ).catch((error: Error) => {
+            errors.push(error.message);
+            return [] as MetadataResult[];
+          }),
+        ),
+      );
+      if (signal?.aborted) return;
+      const results = responses.flat().sort((a, b) => b.confidence - a.confidence);
+      onLookup({
+        bookHash: book.hash,
+        results,
+        error: results.length === 0 && errors.length > 0 ? errors[0] : undefined,
+      });
+    }),
+  );
+};
+
+const toText = (value: unknown): string => {
+  if (value === undefined || value === null) return '';
+  if (typeof value === 'string') return value.trim();
+  if (typeof value === 'number') return String(value);
+  if (Array.isArray(value)) return value.map(toText).filter(Boolean).join(', ');
+  if (typeof value === 'object') {
+    const { name } = value as { name?: unknown };
+    return name ? toText(name) : toText(Object.values(value)[0]);
+  }
+  return '';
+};
+
+const getResultValue = (result: Metadata, field: MetadataField) =>
+  field === 'subject' ? result.subjects : result[field];
+
+const getCurrentValue = (book: Book, field: MetadataField) => {
+  switch (field) {
+    case 'title':
+      return book.title;
+    case 'author':
+      return book.author;
+    case 'coverImageUrl':
+      return book.metadata?.coverImageUrl;
+    default:
+      return book.metadata?.[field];
+  }
+};
+
+/**
+ * Compares the metadata of a book with a lookup result field by field,
+ * only the fields the result would change are returned.
+ */
+export const getMetadataDiff = (book: Book, result: Metadata): MetadataFieldDiff[] =>
+  METADATA_FIELDS.flatMap((field) => {
+    const proposed = toText(getResultValue(result, field));
+    const current = toText(getCurrentValue(book, field));
+    if (!proposed || proposed.toLowerCase() === current.toLowerCase()) return [];
+    return [{ field, current, proposed }];
+  });
+
+/**
+ * Applies the selected fields of a lookup result on top of the metadata of the book.
+ */
+export const applyMetadataResult = (
+  book: Book,
+  result: Metadata,
+  fields: MetadataField[],
+): BookMetadata => {
+  const metadata = book.metadata ?? {
+    title: book.title,
+    author: book.author,
+    language: book.primaryLanguage ?? '',
+  };
+  const updated = { ...metadata } as Record<string, unknown>;
+  for (const field of fields) {
+    const value = getResultValue(result, field);
+    if (value === undefined || value === '' || (Array.isArray(value) && value.length === 0)) {
+      continue;
+    }
+    updated[field] = value;
+  }
+  return updated as BookMetadata;
+};
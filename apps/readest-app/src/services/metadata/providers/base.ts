@@ -1,5 +1,11 @@
 import { MetadataProvider, SearchRequest, MetadataResult, Metadata } from '../types';
 
+// "Title (Series, #3)" or "Title (Series Book 3)"
+const TITLE_SERIES_PATTERN =
+  /\(([^()]+?),?\s+(?:#|book\s+|vol\.?\s+|volume\s+)(\d+(?:\.\d+)?)\)\s*$/i;
+// subtitles like "Series, Book 3"
+const SUBTITLE_SERIES_PATTERN = /^([^()]+?),?\s+(?:#|book\s+|vol\.?\s+|volume\s+)(\d+(?:\.\d+)?)$/i;
+
 export abstract class BaseMetadataProvider implements MetadataProvider {
   abstract name: string;
   abstract label: string;
@@ -129,6 +135,21 @@ export abstract class BaseMetadataProvider implements MetadataProvider {
     return matrix[str2.length]![str1.length]!;
   }
 
+  /**
+   * Extracts the series and the index in the series from a title or a subtitle,
+   * as most providers have no dedicated series fields.
+   */
+  protected extractSeries(
+    title?: string,
+    subtitle?: string,
+  ): Pick<Metadata, 'series' | 'seriesIndex'> {
+    const match =
+      (title && TITLE_SERIES_PATTERN.exec(title)) ||
+      (subtitle && SUBTITLE_SERIES_PATTERN.exec(subtitle.trim()));
+    if (!match) return {};
+    return { series: match[1]!.trim(), seriesIndex: parseFloat(match[2]!) };
+  }
+
   protected cleanISBN(isbn: string): string {
     return isbn.replace(/[-\s]/g, '');
   }
@@ -148,6 +148,7 @@ export class GoogleBooksProvider extends BaseMetadataProvider {
       coverImageUrl: this.getCoverImage(book.imageLinks),
       subjects: book.categories || [],
       description: this.cleanDescription(book.description),
+      ...this.extractSeries(book.title, book.subtitle),
     };
   }
 
@@ -118,9 +118,10 @@ export class OpenLibraryProvider extends BaseMetadataProvider {
       published: book.publish_date,
       language: code6392to6391(book.languages?.[0]?.name || ''),
       identifier: isbn,
-      coverImage: book.cover?.large || book.cover?.medium || book.cover?.small,
+      coverImageUrl: book.cover?.large || book.cover?.medium || book.cover?.small,
       subjects: book.subjects?.map((s: { name: string }) => s.name).slice(0, 5) || [],
       description: this.extractDescription(book.description || ''),
+      ...this.extractSeries(book.title),
     } as Metadata;
   }
 
@@ -137,6 +138,7 @@ export class OpenLibraryProvider extends BaseMetadataProvider {
         : undefined,
       subjects: book.subject?.slice(0, 5) || [],
       description: book.description?.[0],
+      ...this.extractSeries(book.title),
     } as Metadata;
   }
 
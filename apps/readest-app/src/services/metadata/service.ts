@@ -24,7 +24,10 @@ export class MetadataService {
   async search(request: SearchRequest): Promise<MetadataResult[]> {
     const allResults: MetadataResult[] = [];
 
-    const promises = this.providers.map(async (provider) => {
+    const providers = request.providers
+      ? this.providers.filter((provider) => request.providers!.includes(provider.name))
+      : this.providers;
+    const promises = providers.map(async (provider) => {
       try {
         const results = await provider.search(request);
         return results || [];
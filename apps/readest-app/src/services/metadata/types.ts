@@ -9,6 +9,8 @@ export interface Metadata {
   subjects?: string[];
   description?: string;
   coverImageUrl?: string;
+  series?: string;
+  seriesIndex?: number;
 }
 
 export interface SearchRequest {
@@ -16,6 +18,8 @@ export interface SearchRequest {
   isbn?: string;
   author?: string;
   language?: string;
+  // names of the providers to search, all providers are searched when missing
+  providers?: string[];
 }
 
 export interface MetadataResult {
@@ -276,7 +276,11 @@ export const nativeFileSystem: FileSystem = {
       ? (readTextFile(fp, baseDir ? { baseDir } : undefined) as Promise<string>)
       : ((await readFile(fp, baseDir ? { baseDir } : undefined)).buffer as ArrayBuffer);
   },
-  async writeFile(path: string, base: BaseDir, content: string | ArrayBuffer | File) {
+  async writeFile(
+    path: string,
+    base: BaseDir,
+    content: string | ArrayBuffer | File | ReadableStream<Uint8Array>,
+  ) {
     // NOTE: this could be very slow for large files and might block the UI thread
     // so do not use this for large files
     const { fp, baseDir } = this.resolvePath(path, base);
@@ -293,6 +297,8 @@ export const nativeFileSystem: FileSystem = {
         baseDir: baseDir ? baseDir : undefined,
       } as WriteFileOptions;
       return await writeFile(fp, content.stream(), writeOptions);
+    } else if (content instanceof ReadableStream) {
+      return await writeFile(fp, content, baseDir ? { baseDir } : undefined);
     } else {
       return await writeFile(fp, new Uint8Array(content), baseDir ? { baseDir } : undefined);
     }
@@ -530,7 +536,7 @@ export class NativeAppService extends BaseAppService {
 
   async saveFile(
     filename: string,
-    content: string | ArrayBuffer,
+    content: string | ArrayBuffer | File,
     filepath: string,
     mimeType?: string,
   ): Promise<boolean> {
@@ -549,6 +555,8 @@ export class NativeAppService extends BaseAppService {
 
         if (typeof content === 'string') {
           await writeTextFile(filePath, content);
+        } else if (content instanceof File) {
+          await writeFile(filePath, content.stream());
         } else {
           await writeFile(filePath, new Uint8Array(content));
         }
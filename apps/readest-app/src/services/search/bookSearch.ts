@@ -0,0 +1,226 @@
+import { BookDoc, CFI } from '@/libs/document';
+import { BookSearchMatch, BookSearchResult } from '@/types/book';
+import { createRejectFilter } from '@/utils/node';
+import { FullTextBlock, FullTextIndex, FullTextSection, QuotedMatch, QuotedPassage } from './types';
+import { buildFullTextIndex } from './fullTextIndex';
+import { createTextMatcher, getSearchExcerpt, SearchMatchOptions, TextMatch } from './matcher';
+import { createQuoteMatcher, pickQuotedMatch } from './quotes';
+
+const BLOCK_SELECTOR = 'p, li, dd, dt, td, th, blockquote, pre, figcaption, h1, h2, h3, h4, h5, h6';
+
+type AcceptNode = (node: Node) => number;
+
+const getTextNodes = (doc: Document, acceptNode: AcceptNode = createRejectFilter({})) => {
+  const nodes: Text[] = [];
+  if (!doc.body) return nodes;
+  const walker = doc.createTreeWalker(doc.body, NodeFilter.SHOW_ELEMENT | NodeFilter.SHOW_TEXT, {
+    acceptNode,
+  });
+  for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+    nodes.push(node as Text);
+  }
+  return nodes;
+};
+
+const getSectionCFI = (bookDoc: BookDoc, index: number): string =>
+  bookDoc.sections?.[index]?.cfi ?? CFI.fake.fromIndex(index);
+
+const getRangeCFI = (baseCFI: string, range: Range): string =>
+  CFI.joinIndir(baseCFI, CFI.fromRange(range));
+
+// labels of the sections, taken from the last TOC item before or at each section
+export const getSectionLabels = (bookDoc: BookDoc) => {
+  const sections = bookDoc.sections || [];
+  const labels: string[] = new Array(sections.length).fill('');
+  const flatten = (items: BookDoc['toc'] = []): NonNullable<BookDoc['toc']> =>
+    items.flatMap((item) => [item, ...flatten(item.subitems)]);
+  for (const item of flatten(bookDoc.toc)) {
+    const id = item.href ? bookDoc.splitTOCHref(item.href)[0] : undefined;
+    const index = sections.findIndex((section) => section.id === id || section.href === id);
+    if (index >= 0 && !labels[index]) labels[index] = item.label;
+  }
+  for (let i = 1; i < labels.length; i++) {
+    if (!labels[i]) labels[i] = labels[i - 1]!;
+  }
+  return labels;
+};
+
+/**
+ * Splits the text of a section document into paragraphs, each located by the
+ * CFI of its first text node.
+ */
+export const extractTextBlocks = (doc: Document, baseCFI: string): FullTextBlock[] => {
+  const blocks: FullTextBlock[] = [];
+  let current: { element: Element | null; node: Text; texts: string[] } | null = null;
+  const flush = () => {
+    if (!current) return;
+    const text = current.texts.join('').replace(/\s+/g, ' ').trim();
+    if (text) {
+      const range = doc.createRange();
+      range.setStart(current.node, 0);
+      range.collapse(true);
+      blocks.push({ cfi: getRangeCFI(baseCFI, range), text });
+    }
+  };
+  for (const node of getTextNodes(doc)) {
+    const element = node.parentElement?.closest(BLOCK_SELECTOR) ?? null;
+    if (!current || current.element !== element) {
+      flush();
+      current = { element, node, texts: [] };
+    }
+    current.texts.push(node.data);
+  }
+  flush();
+  return blocks;
+};
+
+/**
+ * Creates the full-text index of a reflowable book. Returns null for fixed
+ * layout books whose text cannot be extracted from their documents.
+ */
+export const createFullTextIndex = async (bookDoc: BookDoc): Promise<FullTextIndex | null> => {
+  if (bookDoc.rendition?.layout === 'pre-paginated') return null;
+  const labels = getSectionLabels(bookDoc);
+  const sections: FullTextSection[] = [];
+  for (const [index, section] of (bookDoc.sections || []).entries()) {
+    if (section.linear === 'no') continue;
+    // the index is built in the background, yield between sections to keep the UI responsive
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    try {
+      const doc = await section.createDocument();
+      const blocks = extractTextBlocks(doc, getSectionCFI(bookDoc, index));
+      if (blocks.length) sections.push({ index, label: labels[index] ?? '', blocks });
+    } catch (error) {
+      console.warn(`Failed to index section ${index}:`, error);
+    }
+  }
+  return buildFullTextIndex(sections);
+};
+
+interface BookSearchOptions {
+  // searches only the section with this index
+  index?: number;
+  acceptNode?: AcceptNode;
+  onProgress?: (progress: number) => void;
+  isCancelled?: () => boolean;
+}
+
+// the text of a section document and the ranges of its offsets
+const getSectionText = (doc: Document, acceptNode?: AcceptNode) => {
+  const nodes = getTextNodes(doc, acceptNode);
+  const starts: number[] = [];
+  let length = 0;
+  for (const node of nodes) {
+    starts.push(length);
+    length += node.data.length;
+  }
+  const text = nodes.map((node) => node.data).join('');
+  // the text node containing the char at the offset
+  const locate = (offset: number) => {
+    let low = 0;
+    let high = starts.length - 1;
+    while (low < high) {
+      const mid = Math.ceil((low + high) / 2);
+      if (starts[mid]! <= offset) low = mid;
+      else high = mid - 1;
+    }
+    return { node: nodes[low]!, offset: offset - starts[low]! };
+  };
+  const getRange = ([startOffset, endOffset]: TextMatch) => {
+    const start = locate(startOffset);
+    const end = locate(endOffset - 1);
+    const range = doc.createRange();
+    range.setStart(start.node, start.offset);
+    range.setEnd(end.node, end.offset + 1);
+    return range;
+  };
+  return { text, getRange };
+};
+
+const searchSectionDocument = (
+  doc: Document,
+  baseCFI: string,
+  matcher: ReturnType<typeof createTextMatcher>,
+  acceptNode?: AcceptNode,
+) => {
+  const { text, getRange } = getSectionText(doc, acceptNode);
+  return matcher(text).map(
+    (match): BookSearchMatch => ({
+      cfi: getRangeCFI(baseCFI, getRange(match)),
+      excerpt: getSearchExcerpt(text, match),
+    }),
+  );
+};
+
+/**
+ * Searches the documents of a book with regular expressions or fuzzy matching,
+ * which the renderer does not support. The results have the same shape as the
+ * ones of the renderer, grouped by chapter when the whole book is searched.
+ * Throws a SyntaxError when a regular expression is invalid.
+ */
+export const searchBookDocument = async (
+  bookDoc: BookDoc,
+  query: string,
+  matchOptions: SearchMatchOptions,
+  { index, acceptNode, onProgress, isCancelled }: BookSearchOptions = {},
+): Promise<BookSearchResult[] | BookSearchMatch[] | null> => {
+  const matcher = createTextMatcher(query, matchOptions);
+  const sections = bookDoc.sections || [];
+  if (index !== undefined) {
+    const doc = await sections[index]!.createDocument();
+    return searchSectionDocument(doc, getSectionCFI(bookDoc, index), matcher, acceptNode);
+  }
+  const labels = getSectionLabels(bookDoc);
+  const results: BookSearchResult[] = [];
+  for (const [i, section] of sections.entries()) {
+    if (isCancelled?.()) return null;
+    if (section.linear === 'no') continue;
+    const doc = await section.createDocument();
+    const subitems = searchSectionDocument(doc, getSectionCFI(bookDoc, i), matcher, acceptNode);
+    if (subitems.length) results.push({ index: i, label: labels[i] ?? '', subitems });
+    onProgress?.((i + 1) / sections.length);
+  }
+  return results;
+};
+
+/**
+ * Locates passages quoted from a book, e.g. highlights exported by other
+ * readers, ignoring case and differences in whitespace and punctuation. When a
+ * passage occurs more than once, the occurrence its hints point to is taken.
+ * Returns the CFI range of each passage, or null when it is not found.
+ */
+export const locateTextsInBook = async (
+  bookDoc: BookDoc,
+  passages: QuotedPassage[],
+  onProgress?: (progress: number) => void,
+): Promise<(string | null)[]> => {
+  if (bookDoc.rendition?.layout === 'pre-paginated') return passages.map(() => null);
+  const matchers = passages.map(({ text }) => createQuoteMatcher(text));
+  const matches: QuotedMatch[][] = passages.map(() => []);
+  const labels = getSectionLabels(bookDoc);
+  const sections = bookDoc.sections || [];
+  let bookOffset = 0;
+  for (const [i, section] of sections.entries()) {
+    if (section.linear === 'no') continue;
+    try {
+      const doc = await section.createDocument();
+      const { text, getRange } = getSectionText(doc);
+      for (const [j, matcher] of matchers.entries()) {
+        if (!matcher) continue;
+        for (const match of matcher(text)) {
+          matches[j]!.push({
+            cfi: getRangeCFI(getSectionCFI(bookDoc, i), getRange(match)),
+            section: i,
+            label: labels[i] ?? '',
+            offset: bookOffset + match[0],
+          });
+        }
+      }
+      bookOffset += text.length;
+    } catch (error) {
+      console.warn(`Failed to search section ${i}:`, error);
+    }
+    onProgress?.((i + 1) / sections.length);
+  }
+  return passages.map((passage, j) => pickQuotedMatch(passage, matches[j]!)?.cfi ?? null);
+};
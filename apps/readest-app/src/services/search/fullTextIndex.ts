@@ -0,0 +1,105 @@
+import { BookSearchMatch, BookSearchResult } from '@/types/book';
+import { isCJKStr } from '@/utils/lang';
+import { FullTextIndex, FullTextSection } from './types';
+import {
+  createTextMatcher,
+  foldTerm,
+  getSearchExcerpt,
+  isFuzzyMatch,
+  SearchMatchOptions,
+  tokenizeText,
+} from './matcher';
+
+export const FULL_TEXT_INDEX_VERSION = 1;
+export const MAX_LIBRARY_MATCHES_PER_BOOK = 100;
+
+export const buildFullTextIndex = (
+  sections: FullTextSection[],
+  now = Date.now(),
+): FullTextIndex => {
+  const terms = new Map<string, number[]>();
+  let blockId = 0;
+  for (const section of sections) {
+    for (const block of section.blocks) {
+      for (const word of new Set(tokenizeText(foldTerm(block.text)).map((t) => t.word))) {
+        const blocks = terms.get(word);
+        if (blocks) blocks.push(blockId);
+        else terms.set(word, [blockId]);
+      }
+      blockId++;
+    }
+  }
+  return {
+    version: FULL_TEXT_INDEX_VERSION,
+    createdAt: now,
+    sections,
+    terms: Object.fromEntries(terms),
+  };
+};
+
+/**
+ * Narrows the blocks to search with the words of the query. Returns null when
+ * every block has to be searched, e.g. for regular expressions and CJK text.
+ */
+const getCandidateBlocks = (index: FullTextIndex, query: string, options: SearchMatchOptions) => {
+  if (options.mode === 'regex' || isCJKStr(query)) return null;
+  const queryTerms = tokenizeText(foldTerm(query)).map((t) => t.word);
+  if (!queryTerms.length) return null;
+  const terms = Object.entries(index.terms);
+  let candidates: Set<number> | null = null;
+  for (const [i, queryTerm] of queryTerms.entries()) {
+    // only the first and the last word of a phrase may be part of a longer word
+    const isPartial = !options.matchWholeWords && (i === 0 || i === queryTerms.length - 1);
+    const blocks = new Set<number>();
+    for (const [term, ids] of terms) {
+      const matched =
+        options.mode === 'fuzzy'
+          ? isFuzzyMatch(term, queryTerm)
+          : isPartial
+            ? term.includes(queryTerm)
+            : term === queryTerm;
+      if (matched) ids.forEach((id) => blocks.add(id));
+    }
+    if (candidates) {
+      for (const id of candidates) {
+        if (!blocks.has(id)) candidates.delete(id);
+      }
+    } else {
+      candidates = blocks;
+    }
+    if (!candidates.size) break;
+  }
+  return candidates;
+};
+
+/**
+ * Searches the full-text index of a book. Matches are grouped by chapter and
+ * located at the start of their paragraph.
+ */
+export const searchFullTextIndex = (
+  index: FullTextIndex,
+  query: string,
+  options: SearchMatchOptions,
+  limit = MAX_LIBRARY_MATCHES_PER_BOOK,
+) => {
+  const matcher = createTextMatcher(query, options);
+  const candidates = getCandidateBlocks(index, query, options);
+  const results: BookSearchResult[] = [];
+  let count = 0;
+  let blockId = 0;
+  for (const section of index.sections) {
+    const subitems: BookSearchMatch[] = [];
+    for (const block of section.blocks) {
+      const id = blockId++;
+      if (count >= limit || (candidates && !candidates.has(id))) continue;
+      for (const match of matcher(block.text).slice(0, limit - count)) {
+        subitems.push({ cfi: block.cfi, excerpt: getSearchExcerpt(block.text, match) });
+        count++;
+      }
+    }
+    if (subitems.length) {
+      results.push({ index: section.index, label: section.label, subitems });
+    }
+  }
+  return { results, count };
+};
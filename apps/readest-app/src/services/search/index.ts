@@ -0,0 +1,16 @@
+export { createFullTextIndex, locateTextsInBook, searchBookDocument } from './bookSearch';
+export {
+  FULL_TEXT_INDEX_VERSION,
+  MAX_LIBRARY_MATCHES_PER_BOOK,
+  buildFullTextIndex,
+  searchFullTextIndex,
+} from './fullTextIndex';
+export { createTextMatcher } from './matcher';
+export type { SearchMatchOptions, TextMatch, TextMatcher } from './matcher';
+export type {
+  FullTextBlock,
+  FullTextIndex,
+  FullTextSection,
+  LibrarySearchResult,
+  QuotedPassage,
+} from './types';
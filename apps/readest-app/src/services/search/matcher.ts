@@ -0,0 +1,154 @@
+import { BookSearchConfig, SearchExcerpt } from '@/types/book';
+import { getEditDistance } from '@/utils/diff';
+import { isCJKStr } from '@/utils/lang';
+
+export type SearchMatchOptions = Pick<
+  BookSearchConfig,
+  'mode' | 'matchCase' | 'matchWholeWords' | 'matchDiacritics'
+>;
+
+// start and end offsets of a match in the searched text
+export type TextMatch = [number, number];
+
+export type TextMatcher = (text: string) => TextMatch[];
+
+const EXCERPT_CONTEXT_LENGTH = 50;
+const WORD_CHAR = '[\\p{L}\\p{N}_]';
+const NON_WORD_CHAR = '[^\\p{L}\\p{N}_]';
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu;
+const MARK_PATTERN = /\p{M}/gu;
+
+interface FoldedText {
+  text: string;
+  // offsets in the original text where every folded char starts and ends
+  starts: number[];
+  ends: number[];
+}
+
+/**
+ * Folds the text for matching, removing diacritics and lowering the case as
+ * asked, and keeps the offsets of the folded chars in the original text.
+ */
+export const foldText = (text: string, stripDiacritics: boolean, lowerCase: boolean) => {
+  const pieces: string[] = [];
+  const starts: number[] = [];
+  const ends: number[] = [];
+  for (let i = 0; i < text.length; ) {
+    const char = String.fromCodePoint(text.codePointAt(i)!);
+    let piece = char;
+    if (stripDiacritics) piece = piece.normalize('NFD').replace(MARK_PATTERN, '');
+    if (lowerCase) piece = piece.toLowerCase();
+    for (let j = 0; j < piece.length; j++) {
+      starts.push(i);
+      ends.push(i + char.length);
+    }
+    pieces.push(piece);
+    i += char.length;
+  }
+  return { text: pieces.join(''), starts, ends } as FoldedText;
+};
+
+// maps a match in the folded text back to the original text
+const unfoldMatch = (folded: FoldedText, original: string, [start, end]: TextMatch) => {
+  const originalStart = folded.starts[start] ?? original.length;
+  // marks that were removed after the last char still belong to the match
+  const nextStart = folded.starts[end];
+  const originalEnd =
+    nextStart === undefined
+      ? original.length
+      : nextStart > folded.starts[end - 1]!
+        ? nextStart
+        : folded.ends[end - 1]!;
+  return [originalStart, originalEnd] as TextMatch;
+};
+
+export const foldTerm = (term: string) => foldText(term, true, true).text;
+
+export const tokenizeText = (text: string) =>
+  [...text.matchAll(WORD_PATTERN)].map((match) => ({
+    word: match[0],
+    start: match.index,
+    end: match.index + match[0].length,
+  }));
+
+export const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// whole words start after a consumed boundary group, lookbehinds are not supported by older WebKit
+const createRegExp = (pattern: string, { matchCase, matchWholeWords }: SearchMatchOptions) => {
+  const source = matchWholeWords ? `(^|${NON_WORD_CHAR})(?:${pattern})(?!${WORD_CHAR})` : pattern;
+  return new RegExp(source, matchCase ? 'gu' : 'giu');
+};
+
+// the number of typos tolerated in a word of the given length
+export const getMaxEdits = (length: number) => (length <= 3 ? 0 : length <= 7 ? 1 : 2);
+
+export const isFuzzyMatch = (word: string, term: string) => {
+  const maxEdits = getMaxEdits(term.length);
+  return getEditDistance(word, term, maxEdits) <= maxEdits;
+};
+
+const createRegExpMatcher = (
+  regExp: RegExp,
+  stripDiacritics: boolean,
+  hasBoundaryGroup: boolean,
+): TextMatcher => {
+  return (text) => {
+    const folded = stripDiacritics ? foldText(text, true, false) : null;
+    const matches: TextMatch[] = [];
+    regExp.lastIndex = 0;
+    for (const match of (folded?.text ?? text).matchAll(regExp)) {
+      const start = match.index + (hasBoundaryGroup ? match[1]!.length : 0);
+      const end = match.index + match[0].length;
+      if (start === end) continue;
+      const range: TextMatch = [start, end];
+      matches.push(folded ? unfoldMatch(folded, text, range) : range);
+    }
+    return matches;
+  };
+};
+
+// matches runs of words that are each within a few typos of the words of the query
+const createFuzzyMatcher = (query: string, options: SearchMatchOptions): TextMatcher => {
+  const stripDiacritics = !options.matchDiacritics;
+  const lowerCase = !options.matchCase;
+  const terms = tokenizeText(foldText(query, stripDiacritics, lowerCase).text).map((t) => t.word);
+  return (text) => {
+    if (!terms.length) return [];
+    const folded = foldText(text, stripDiacritics, lowerCase);
+    const words = tokenizeText(folded.text);
+    const matches: TextMatch[] = [];
+    for (let i = 0; i + terms.length <= words.length; i++) {
+      if (terms.every((term, j) => isFuzzyMatch(words[i + j]!.word, term))) {
+        const range: TextMatch = [words[i]!.start, words[i + terms.length - 1]!.end];
+        matches.push(unfoldMatch(folded, text, range));
+        i += terms.length - 1;
+      }
+    }
+    return matches;
+  };
+};
+
+/**
+ * Creates a matcher that finds the query in a text with the given search
+ * options. Throws a SyntaxError when a regular expression is invalid.
+ */
+export const createTextMatcher = (query: string, options: SearchMatchOptions): TextMatcher => {
+  const stripDiacritics = !options.matchDiacritics;
+  // words are not separated in CJK text, so typos cannot be told apart from other words
+  if (options.mode === 'fuzzy' && !isCJKStr(query)) {
+    return createFuzzyMatcher(query, options);
+  }
+  const foldedQuery = stripDiacritics ? foldText(query, true, false).text : query;
+  const pattern = options.mode === 'regex' ? foldedQuery : escapeRegExp(foldedQuery);
+  return createRegExpMatcher(
+    createRegExp(pattern, options),
+    stripDiacritics,
+    options.matchWholeWords,
+  );
+};
+
+export const getSearchExcerpt = (text: string, [start, end]: TextMatch): SearchExcerpt => ({
+  pre: text.slice(Math.max(0, start - EXCERPT_CONTEXT_LENGTH), start).replace(/\s+/g, ' '),
+  match: text.slice(start, end),
+  post: text.slice(end, end + EXCERPT_CONTEXT_LENGTH).replace(/\s+/g, ' '),
+});
@@ -0,0 +1,67 @@
+import { createTextMatcher, escapeRegExp, TextMatcher } from './matcher';
+import { QuotedMatch, QuotedPassage } from './types';
+
+// the typographic variants of quotes, dashes and ellipses exported by other readers
+const SINGLE_QUOTES = "['‘’‚‛′`]";
+const DOUBLE_QUOTES = '["“”„‟″]';
+const DASHES = '[\\-‐‑‒–—―]';
+const ELLIPSES = '(?:…|\\.\\.\\.)';
+// the variants in a word escaped for a regular expression, where dots are escaped
+const VARIANT_PATTERN = /['‘’‚‛′`"“”„‟″\-‐‑‒–—―…]|\\\.\\\.\\\./g;
+
+const getVariantPattern = (variant: string) => {
+  if (new RegExp(SINGLE_QUOTES).test(variant)) return SINGLE_QUOTES;
+  if (new RegExp(DOUBLE_QUOTES).test(variant)) return DOUBLE_QUOTES;
+  if (new RegExp(DASHES).test(variant)) return DASHES;
+  return ELLIPSES;
+};
+
+/**
+ * Creates a matcher of a passage quoted from a book, ignoring case, differences in
+ * whitespace and the typographic variants of quotes, dashes and ellipses.
+ */
+export const createQuoteMatcher = (text: string): TextMatcher | null => {
+  const words = text
+    .trim()
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((word) => escapeRegExp(word).replace(VARIANT_PATTERN, getVariantPattern));
+  if (!words.length) return null;
+  return createTextMatcher(words.join('\\s*'), {
+    mode: 'regex',
+    matchCase: false,
+    matchWholeWords: false,
+    matchDiacritics: true,
+  });
+};
+
+const normalizeLabel = (label: string) => label.replace(/\s+/g, ' ').trim().toLowerCase();
+
+/**
+ * Picks the occurrence of a quoted passage the hints point to: the matches in the
+ * section, then in the chapter of the passage are preferred, and the one nearest to
+ * its estimated offset is taken. Without hints the first occurrence is taken.
+ */
+export const pickQuotedMatch = (passage: QuotedPassage, matches: QuotedMatch[]) => {
+  let candidates = matches;
+  const narrow = (filter: (match: QuotedMatch) => boolean) => {
+    const filtered = candidates.filter(filter);
+    if (filtered.length) candidates = filtered;
+  };
+  if (passage.section !== undefined) {
+    narrow((match) => match.section === passage.section);
+  }
+  if (passage.chapter) {
+    const chapter = normalizeLabel(passage.chapter);
+    narrow((match) => normalizeLabel(match.label) === chapter);
+  }
+  const { offset } = passage;
+  if (offset === undefined) return candidates[0] ?? null;
+  return candidates.reduce<QuotedMatch | null>(
+    (nearest, match) =>
+      !nearest || Math.abs(match.offset - offset) < Math.abs(nearest.offset - offset)
+        ? match
+        : nearest,
+    null,
+  );
+};
@@ -0,0 +1,48 @@
+import { Book, BookSearchResult } from '@/types/book';
+
+// a paragraph of a section, located by the CFI where its text starts
+export interface FullTextBlock {
+  cfi: string;
+  text: string;
+}
+
+export interface FullTextSection {
+  index: number;
+  label: string;
+  blocks: FullTextBlock[];
+}
+
+export interface FullTextIndex {
+  version: number;
+  createdAt: number;
+  sections: FullTextSection[];
+  // folded words mapped to the blocks they occur in, numbered across sections
+  terms: Record<string, number[]>;
+}
+
+// A passage quoted from a book with the hints of where it is in the book
+export interface QuotedPassage {
+  text: string;
+  // index of the section of the passage
+  section?: number;
+  // label of the chapter of the passage
+  chapter?: string;
+  // estimated offset of the passage in the text of the whole book
+  offset?: number;
+}
+
+// An occurrence of a quoted passage in the text of a book
+export interface QuotedMatch {
+  cfi: string;
+  section: number;
+  label: string;
+  // offset of the match in the text of the whole book
+  offset: number;
+}
+
+export interface LibrarySearchResult {
+  book: Book;
+  // matches grouped by chapter
+  results: BookSearchResult[];
+  count: number;
+}
@@ -0,0 +1,410 @@
+import type { DatabaseSync, SQLInputValue } from 'node:sqlite';
+import { BookDataRecord } from '@/types/book';
+import { SyncChangesQuery, SyncDBRecord, SyncRecordKey, SyncStorage, SyncTableName } from './types';
+
+const NOW_ISO = `(strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))`;
+
+// Tables of the first release of the SQLite backend. Released migrations must never be
+// edited, new columns and tables go into a new migration appended to MIGRATIONS.
+const INITIAL_SCHEMA = `
+CREATE TABLE IF NOT EXISTS books (
+  user_id TEXT NOT NULL,
+  book_hash TEXT NOT NULL,
+  meta_hash TEXT,
+  format TEXT,
+  title TEXT,
+  source_title TEXT,
+  author TEXT,
+  group_id TEXT,
+  group_name TEXT,
+  tags TEXT,
+  progress TEXT,
+  reading_status TEXT,
+  metadata TEXT,
+  created_at TEXT DEFAULT ${NOW_ISO},
+  updated_at TEXT DEFAULT ${NOW_ISO},
+  deleted_at TEXT,
+  uploaded_at TEXT,
+  PRIMARY KEY (user_id, book_hash)
+);
+
+CREATE TABLE IF NOT EXISTS book_configs (
+  user_id TEXT NOT NULL,
+  book_hash TEXT NOT NULL,
+  meta_hash TEXT,
+  location TEXT,
+  xpointer TEXT,
+  progress TEXT,
+  search_config TEXT,
+  view_settings TEXT,
+  created_at TEXT DEFAULT ${NOW_ISO},
+  updated_at TEXT DEFAULT ${NOW_ISO},
+  deleted_at TEXT,
+  PRIMARY KEY (user_id, book_hash)
+);
+
+CREATE TABLE IF NOT EXISTS book_notes (
+  user_id TEXT NOT NULL,
+  book_hash TEXT NOT NULL,
+  meta_hash TEXT,
+  id TEXT NOT NULL,
+  type TEXT,
+  cfi TEXT,
+  text TEXT,
+  style TEXT,
+  color TEXT,
+  note TEXT,
+  page INTEGER,
+  created_at TEXT DEFAULT ${NOW_ISO},
+  updated_at TEXT DEFAULT ${NOW_ISO},
+  deleted_at TEXT,
+  PRIMARY KEY (user_id, book_hash, id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_books_user_updated ON books (user_id, updated_at);
+CREATE INDEX IF NOT EXISTS idx_book_configs_user_updated ON book_configs (user_id, updated_at);
+CREATE INDEX IF NOT EXISTS idx_book_notes_user_updated ON book_notes (user_id, updated_at);
+`;
+
+const READING_SESSIONS_SCHEMA = `
+CREATE TABLE IF NOT EXISTS reading_sessions (
+  user_id TEXT NOT NULL,
+  book_hash TEXT NOT NULL,
+  meta_hash TEXT,
+  id TEXT NOT NULL,
+  started_at TEXT,
+  ended_at TEXT,
+  duration INTEGER,
+  pages_read INTEGER,
+  start_page INTEGER,
+  end_page INTEGER,
+  total_pages INTEGER,
+  created_at TEXT DEFAULT ${NOW_ISO},
+  updated_at TEXT DEFAULT ${NOW_ISO},
+  deleted_at TEXT,
+  PRIMARY KEY (user_id, book_hash, id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_reading_sessions_user_updated ON reading_sessions (user_id, updated_at);
+`;
+
+const VOCABULARY_WORDS_SCHEMA = `
+CREATE TABLE IF NOT EXISTS vocabulary_words (
+  user_id TEXT NOT NULL,
+  book_hash TEXT NOT NULL,
+  meta_hash TEXT,
+  id TEXT NOT NULL,
+  word TEXT,
+  lemma TEXT,
+  context TEXT,
+  cfi TEXT,
+  lang TEXT,
+  book_title TEXT,
+  definition TEXT,
+  repetitions INTEGER,
+  interval INTEGER,
+  ease_factor REAL,
+  due_at TEXT,
+  reviewed_at TEXT,
+  created_at TEXT DEFAULT ${NOW_ISO},
+  updated_at TEXT DEFAULT ${NOW_ISO},
+  deleted_at TEXT,
+  PRIMARY KEY (user_id, book_hash, id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_vocabulary_words_user_updated ON vocabulary_words (user_id, updated_at);
+`;
+
+// Databases created before the schema was versioned may already have the column
+const addColumn = (db: DatabaseSync, table: string, column: string, type: string) => {
+  const columns = db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
+  if (!columns.some(({ name }) => name === column)) {
+    db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${type}`);
+  }
+};
+
+// MIGRATIONS[i] upgrades a database from user_version i to i + 1
+const MIGRATIONS: ((db: DatabaseSync) => void)[] = [
+  (db) => db.exec(INITIAL_SCHEMA),
+  (db) => addColumn(db, 'book_configs', 'fields_updated_at', 'TEXT'),
+  (db) => db.exec(READING_SESSIONS_SCHEMA),
+  (db) => db.exec(VOCABULARY_WORDS_SCHEMA),
+];
+
+export const SCHEMA_VERSION = MIGRATIONS.length;
+
+const migrate = (db: DatabaseSync) => {
+  const { user_version: version } = db.prepare('PRAGMA user_version').get() as {
+    user_version: number;
+  };
+  if (version > SCHEMA_VERSION) {
+    throw new Error(
+      `Sync database schema version ${version} is newer than supported version ${SCHEMA_VERSION}`,
+    );
+  }
+  for (let i = version; i < SCHEMA_VERSION; i++) {
+    db.exec('BEGIN');
+    try {
+      MIGRATIONS[i]!(db);
+      db.exec(`PRAGMA user_version = ${i + 1}`);
+      db.exec('COMMIT');
+    } catch (error) {
+      db.exec('ROLLBACK');
+      throw error;
+    }
+  }
+};
+
+const TABLE_COLUMNS: Record<SyncTableName, string[]> = {
+  books: [
+    'user_id',
+    'book_hash',
+    'meta_hash',
+    'format',
+    'title',
+    'source_title',
+    'author',
+    'group_id',
+    'group_name',
+    'tags',
+    'progress',
+    'reading_status',
+    'metadata',
+    'created_at',
+    'updated_at',
+    'deleted_at',
+    'uploaded_at',
+  ],
+  book_configs: [
+    'user_id',
+    'book_hash',
+    'meta_hash',
+    'location',
+    'xpointer',
+    'progress',
+    'search_config',
+    'view_settings',
+    'fields_updated_at',
+    'created_at',
+    'updated_at',
+    'deleted_at',
+  ],
+  book_notes: [
+    'user_id',
+    'book_hash',
+    'meta_hash',
+    'id',
+    'type',
+    'cfi',
+    'text',
+    'style',
+    'color',
+    'note',
+    'page',
+    'created_at',
+    'updated_at',
+    'deleted_at',
+  ],
+  reading_sessions: [
+    'user_id',
+    'book_hash',
+    'meta_hash',
+    'id',
+    'started_at',
+    'ended_at',
+    'duration',
+    'pages_read',
+    'start_page',
+    'end_page',
+    'total_pages',
+    'created_at',
+    'updated_at',
+    'deleted_at',
+  ],
+  vocabulary_words: [
+    'user_id',
+    'book_hash',
+    'meta_hash',
+    'id',
+    'word',
+    'lemma',
+    'context',
+    'cfi',
+    'lang',
+    'book_title',
+    'definition',
+    'repetitions',
+    'interval',
+    'ease_factor',
+    'due_at',
+    'reviewed_at',
+    'created_at',
+    'updated_at',
+    'deleted_at',
+  ],
+};
+
+const PRIMARY_KEYS: Record<SyncTableName, string[]> = {
+  books: ['user_id', 'book_hash'],
+  book_configs: ['user_id', 'book_hash'],
+  book_notes: ['user_id', 'book_hash', 'id'],
+  reading_sessions: ['user_id', 'book_hash', 'id'],
+  vocabulary_words: ['user_id', 'book_hash', 'id'],
+};
+
+// Array columns are stored as JSON text as SQLite has no array type
+const JSON_COLUMNS: Record<SyncTableName, string[]> = {
+  books: ['tags', 'progress'],
+  book_configs: [],
+  book_notes: [],
+  reading_sessions: [],
+  vocabulary_words: [],
+};
+
+const encodeValue = (value: unknown): SQLInputValue => {
+  if (value === null || value === undefined) return null;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  if (typeof value === 'number' || typeof value === 'string') return value;
+  return JSON.stringify(value);
+};
+
+export class SQLiteSyncStorage implements SyncStorage {
+  private db: DatabaseSync;
+
+  constructor(db: DatabaseSync) {
+    this.db = db;
+    migrate(this.db);
+  }
+
+  // node:sqlite is built into Node.js 22.13 and later
+  static async open(path: string): Promise<SQLiteSyncStorage> {
+    const { DatabaseSync } = await import('node:sqlite').catch((error) => {
+      throw new Error(
+        `The SQLite sync backend requires Node.js 22.13 or later, running ${process.version}`,
+        { cause: error },
+      );
+    });
+    if (path !== ':memory:') {
+      const { mkdirSync } = await import('node:fs');
+      const { dirname } = await import('node:path');
+      mkdirSync(dirname(path), { recursive: true });
+    }
+    return new SQLiteSyncStorage(new DatabaseSync(path));
+  }
+
+  private decodeRow(table: SyncTableName, row: Record<string, unknown>): BookDataRecord {
+    const record: Record<string, unknown> = { ...row };
+    for (const column of JSON_COLUMNS[table]) {
+      const value = record[column];
+      if (typeof value === 'string') {
+        record[column] = JSON.parse(value);
+      }
+    }
+    return record as unknown as BookDataRecord;
+  }
+
+  private selectByKey(table: SyncTableName, key: SyncRecordKey): BookDataRecord | null {
+    const columns = Object.keys(key);
+    const where = columns.map((column) => `${column} = ?`).join(' AND ');
+    const row = this.db
+      .prepare(`SELECT * FROM ${table} WHERE ${where}`)
+      .get(...columns.map((column) => key[column]!));
+    return row ? this.decodeRow(table, row) : null;
+  }
+
+  private writeRecords(
+    table: SyncTableName,
+    records: SyncDBRecord[],
+    upsert: boolean,
+  ): BookDataRecord[] {
+    const conflictKeys = PRIMARY_KEYS[table];
+    const results: BookDataRecord[] = [];
+    this.db.exec('BEGIN');
+    try {
+      for (const record of records) {
+        const values = record as unknown as Record<string, unknown>;
+        // Undefined fields are left untouched on update, only null clears a column
+        const columns = TABLE_COLUMNS[table].filter((column) => values[column] !== undefined);
+        const placeholders = columns.map(() => '?').join(', ');
+        const updates = columns
+          .filter((column) => !conflictKeys.includes(column))
+          .map((column) => `${column} = excluded.${column}`)
+          .join(', ');
+        const onConflict =
+          upsert && updates
+            ? ` ON CONFLICT (${conflictKeys.join(', ')}) DO UPDATE SET ${updates}`
+            : '';
+        this.db
+          .prepare(
+            `INSERT INTO ${table} (${columns.join(', ')}) VALUES (${placeholders})${onConflict}`,
+          )
+          .run(...columns.map((column) => encodeValue(values[column])));
+
+        const key: SyncRecordKey = {};
+        for (const column of conflictKeys) {
+          key[column] = values[column] as string | number;
+        }
+        const saved = this.selectByKey(table, key);
+        if (saved) results.push(saved);
+      }
+      this.db.exec('COMMIT');
+    } catch (error) {
+      this.db.exec('ROLLBACK');
+      throw error;
+    }
+    return results;
+  }
+
+  async queryChanges(table: SyncTableName, query: SyncChangesQuery): Promise<BookDataRecord[]> {
+    const { userId, since, book, metaHash, offset, limit } = query;
+    const conditions = ['user_id = ?'];
+    const params: SQLInputValue[] = [userId];
+
+    if (book && metaHash) {
+      conditions.push('(book_hash = ? OR meta_hash = ?)');
+      params.push(book, metaHash);
+    } else if (book) {
+      conditions.push('book_hash = ?');
+      params.push(book);
+    } else if (metaHash) {
+      conditions.push('meta_hash = ?');
+      params.push(metaHash);
+    }
+
+    conditions.push('(updated_at > ? OR deleted_at > ?)');
+    params.push(since, since);
+
+    const rows = this.db
+      .prepare(
+        `SELECT * FROM ${table} WHERE ${conditions.join(' AND ')} ` +
+          `ORDER BY updated_at DESC LIMIT ? OFFSET ?`,
+      )
+      .all(...params, limit, offset);
+    return rows.map((row) => this.decodeRow(table, row));
+  }
+
+  async fetchRecords(
+    table: SyncTableName,
+    userId: string,
+    keys: SyncRecordKey[],
+  ): Promise<BookDataRecord[]> {
+    const records: BookDataRecord[] = [];
+    for (const key of keys) {
+      const record = this.selectByKey(table, { user_id: userId, ...key });
+      if (record) records.push(record);
+    }
+    return records;
+  }
+
+  async insertRecords(table: SyncTableName, records: SyncDBRecord[]): Promise<BookDataRecord[]> {
+    return this.writeRecords(table, records, false);
+  }
+
+  async upsertRecords(
+    table: SyncTableName,
+    records: SyncDBRecord[],
+    _primaryKeys: string[],
+  ): Promise<BookDataRecord[]> {
+    return this.writeRecords(table, records, true);
+  }
+}
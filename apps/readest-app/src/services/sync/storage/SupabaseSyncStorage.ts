@@ -0,0 +1,129 @@
+import { PostgrestError, SupabaseClient } from '@supabase/supabase-js';
+import { createSupabaseClient } from '@/utils/supabase';
+import { BookDataRecord } from '@/types/book';
+import {
+  SyncChangesQuery,
+  SyncDBRecord,
+  SyncRecordKey,
+  SyncStorage,
+  SyncTableMissingError,
+  SyncTableName,
+} from './types';
+
+const MISSING_TABLE_CODES = ['PGRST205', '42P01'];
+const MISSING_COLUMN_CODES = ['PGRST204', '42703'];
+
+const toStorageError = (table: SyncTableName, error: PostgrestError) =>
+  MISSING_TABLE_CODES.includes(error.code)
+    ? new SyncTableMissingError(table)
+    : new Error(error.message);
+
+// Column name in "Could not find the 'x' column of 'y' in the schema cache" from PostgREST
+// or in `column "x" of relation "y" does not exist` from Postgres
+const getMissingColumn = (error: PostgrestError) => {
+  if (!MISSING_COLUMN_CODES.includes(error.code)) return null;
+  const match = error.message.match(/'(\w+)' column|column "(\w+)"/);
+  return match?.[1] ?? match?.[2] ?? null;
+};
+
+const omitColumn = (records: SyncDBRecord[], column: string) =>
+  records.map((record) => {
+    const rest: Partial<SyncDBRecord> = { ...record };
+    delete rest[column as keyof SyncDBRecord];
+    return rest as SyncDBRecord;
+  });
+
+export class SupabaseSyncStorage implements SyncStorage {
+  private supabase: SupabaseClient;
+
+  constructor(accessToken: string) {
+    this.supabase = createSupabaseClient(accessToken);
+  }
+
+  async queryChanges(table: SyncTableName, query: SyncChangesQuery): Promise<BookDataRecord[]> {
+    const { userId, since, book, metaHash, offset, limit } = query;
+    let request = this.supabase
+      .from(table)
+      .select('*')
+      .eq('user_id', userId)
+      .range(offset, offset + limit - 1);
+
+    if (book && metaHash) {
+      request = request.or(`book_hash.eq.${book},meta_hash.eq.${metaHash}`);
+    } else if (book) {
+      request = request.eq('book_hash', book);
+    } else if (metaHash) {
+      request = request.eq('meta_hash', metaHash);
+    }
+
+    request = request.or(`updated_at.gt.${since},deleted_at.gt.${since}`);
+    request = request.order('updated_at', { ascending: false });
+
+    const { data, error } = await request;
+    if (error) throw toStorageError(table, error);
+    return data || [];
+  }
+
+  async fetchRecords(
+    table: SyncTableName,
+    userId: string,
+    keys: SyncRecordKey[],
+  ): Promise<BookDataRecord[]> {
+    if (keys.length === 0) return [];
+    const orConditions = keys
+      .map((key) => {
+        const parts = Object.entries({ user_id: userId, ...key }).map(
+          ([column, value]) => `${column}.eq.${value}`,
+        );
+        return `and(${parts.join(',')})`;
+      })
+      .join(',');
+
+    const { data, error } = await this.supabase.from(table).select().or(orConditions);
+    if (error) throw toStorageError(table, error);
+    return data || [];
+  }
+
+  async insertRecords(table: SyncTableName, records: SyncDBRecord[]): Promise<BookDataRecord[]> {
+    return this.writeRecords(table, records, (rows) =>
+      this.supabase.from(table).insert(rows).select(),
+    );
+  }
+
+  async upsertRecords(
+    table: SyncTableName,
+    records: SyncDBRecord[],
+    primaryKeys: string[],
+  ): Promise<BookDataRecord[]> {
+    return this.writeRecords(table, records, (rows) =>
+      this.supabase
+        .from(table)
+        .upsert(rows, {
+          onConflict: ['user_id', ...primaryKeys].join(','),
+        })
+        .select(),
+    );
+  }
+
+  // Columns added in later versions, e.g. `fields_updated_at`, are dropped from the records
+  // and the write retried when the deployed schema does not have them yet
+  private async writeRecords(
+    table: SyncTableName,
+    records: SyncDBRecord[],
+    write: (
+      rows: SyncDBRecord[],
+    ) => PromiseLike<{ data: BookDataRecord[] | null; error: PostgrestError | null }>,
+  ): Promise<BookDataRecord[]> {
+    let rows = records;
+    const omitted = new Set<string>();
+    while (true) {
+      const { data, error } = await write(rows);
+      if (!error) return data || [];
+      const column = getMissingColumn(error);
+      if (!column || omitted.has(column)) throw toStorageError(table, error);
+      console.warn(`Column ${column} of ${table} does not exist, writing without it`);
+      omitted.add(column);
+      rows = omitColumn(rows, column);
+    }
+  }
+}
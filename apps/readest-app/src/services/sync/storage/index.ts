@@ -0,0 +1,73 @@
+import { validateUserAndToken } from '@/utils/access';
+import { SyncStorage } from './types';
+import { SupabaseSyncStorage } from './SupabaseSyncStorage';
+
+export type { SyncStorage, SyncTableName, SyncDBRecord, SyncRecordKey } from './types';
+export { SyncTableMissingError } from './types';
+
+export type SyncStorageBackend = 'supabase' | 'sqlite';
+export type SyncAuthMode = 'supabase' | 'token';
+
+const DEFAULT_SQLITE_PATH = './data/readest-sync.db';
+
+export const getSyncStorageBackend = (): SyncStorageBackend =>
+  process.env['SYNC_STORAGE_BACKEND'] === 'sqlite' ? 'sqlite' : 'supabase';
+
+export const getSyncAuthMode = (): SyncAuthMode =>
+  process.env['SYNC_AUTH_MODE'] === 'token' ? 'token' : 'supabase';
+
+let sqliteStorage: Promise<SyncStorage> | null = null;
+
+export const createSyncStorage = async (accessToken: string): Promise<SyncStorage> => {
+  if (getSyncStorageBackend() === 'sqlite') {
+    if (!sqliteStorage) {
+      const path = process.env['SYNC_SQLITE_PATH'] || DEFAULT_SQLITE_PATH;
+      sqliteStorage = import('./SQLiteSyncStorage').then(({ SQLiteSyncStorage }) =>
+        SQLiteSyncStorage.open(path),
+      );
+      sqliteStorage.catch(() => (sqliteStorage = null));
+    }
+    return sqliteStorage;
+  }
+  return new SupabaseSyncStorage(accessToken);
+};
+
+const safeEqual = (a: string, b: string) => {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+};
+
+// Tokens for the local auth mode are configured as comma separated `userId:token` pairs
+// in SYNC_AUTH_TOKENS, e.g. `alice:s3cr3t,bob:an0th3r`
+export const parseLocalAuthTokens = (config = process.env['SYNC_AUTH_TOKENS'] || '') =>
+  config
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const sep = entry.indexOf(':');
+      return sep > 0 ? { userId: entry.slice(0, sep), token: entry.slice(sep + 1) } : null;
+    })
+    .filter((entry): entry is { userId: string; token: string } => !!entry && !!entry.token);
+
+export const validateLocalUserAndToken = (authHeader: string | null | undefined) => {
+  if (!authHeader) return {};
+
+  const token = authHeader.replace('Bearer ', '');
+  const entry = parseLocalAuthTokens().find((entry) => safeEqual(entry.token, token));
+  if (!entry) return {};
+  return { user: { id: entry.userId }, token };
+};
+
+export const validateSyncUserAndToken = async (
+  authHeader: string | null | undefined,
+): Promise<{ user?: { id: string }; token?: string }> => {
+  if (getSyncAuthMode() === 'token') {
+    return validateLocalUserAndToken(authHeader);
+  }
+  return validateUserAndToken(authHeader);
+};
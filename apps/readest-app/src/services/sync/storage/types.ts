@@ -0,0 +1,60 @@
+import { BookDataRecord } from '@/types/book';
+import {
+  DBBook,
+  DBBookConfig,
+  DBBookNote,
+  DBReadingSession,
+  DBVocabularyWord,
+} from '@/types/records';
+
+export type SyncTableName =
+  | 'books'
+  | 'book_notes'
+  | 'book_configs'
+  | 'reading_sessions'
+  | 'vocabulary_words';
+
+export type SyncDBRecord = DBBook | DBBookConfig | DBBookNote | DBReadingSession | DBVocabularyWord;
+
+export type SyncRecordKey = Record<string, string | number>;
+
+export interface SyncChangesQuery {
+  userId: string;
+  // ISO timestamp, records updated or deleted after it are returned
+  since: string;
+  book?: string | null;
+  metaHash?: string | null;
+  offset: number;
+  limit: number;
+}
+
+// Thrown when a sync table does not exist in the storage, e.g. a table added in a later
+// version on a deployment whose schema was not migrated yet
+export class SyncTableMissingError extends Error {
+  constructor(public table: SyncTableName) {
+    super(`Sync table ${table} does not exist`);
+    this.name = 'SyncTableMissingError';
+  }
+}
+
+/**
+ * Storage backend of the /sync API.
+ * All records are scoped by `user_id` and keyed by `user_id` plus the table primary keys.
+ * Operations on a table missing from the storage throw a `SyncTableMissingError`.
+ */
+export interface SyncStorage {
+  // Records changed since the given time ordered by `updated_at` descending
+  queryChanges(table: SyncTableName, query: SyncChangesQuery): Promise<BookDataRecord[]>;
+  // Records of the user matching any of the given primary keys
+  fetchRecords(
+    table: SyncTableName,
+    userId: string,
+    keys: SyncRecordKey[],
+  ): Promise<BookDataRecord[]>;
+  insertRecords(table: SyncTableName, records: SyncDBRecord[]): Promise<BookDataRecord[]>;
+  upsertRecords(
+    table: SyncTableName,
+    records: SyncDBRecord[],
+    primaryKeys: string[],
+  ): Promise<BookDataRecord[]>;
+}
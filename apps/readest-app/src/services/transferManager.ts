@@ -1,9 +1,19 @@
+import { md5 } from 'js-md5';
 import { Book } from '@/types/book';
 import { AppService } from '@/types/system';
-import { useTransferStore, TransferItem } from '@/store/transferStore';
+import {
+  useTransferStore,
+  TransferItem,
+  AudiobookExportOptions,
+  OPDSDownloadOptions,
+} from '@/store/transferStore';
+import { useSettingsStore } from '@/store/settingsStore';
 import { TranslationFunc } from '@/hooks/useTranslation';
 import { ProgressPayload } from '@/utils/transfer';
 import { eventDispatcher } from '@/utils/event';
+import { getUserID } from '@/utils/access';
+import { exportAudiobook } from './tts/AudiobookExporter';
+import { downloadOPDSPublication } from '@/app/opds/utils/opdsDownload';
 
 const TRANSFER_QUEUE_KEY = 'readest_transfer_queue';
 const RETRY_DELAY_BASE_MS = 2000;
@@ -113,6 +123,50 @@ class TransferManager {
     return transferId;
   }
 
+  queueAudiobookExport(book: Book, options: AudiobookExportOptions): string | null {
+    if (!this.isReady()) {
+      console.warn('TransferManager not initialized');
+      return null;
+    }
+
+    const store = useTransferStore.getState();
+
+    const existing = store.getTransferByBookHash(book.hash, 'audiobook');
+    if (existing) {
+      return existing.id;
+    }
+
+    const transferId = store.addTransfer(book.hash, book.title, 'audiobook', 20, false, {
+      audiobook: options,
+    });
+    this.persistQueue();
+    this.processQueue();
+    return transferId;
+  }
+
+  queueOPDSDownload(options: OPDSDownloadOptions, priority: number = 10): string | null {
+    if (!this.isReady()) {
+      console.warn('TransferManager not initialized');
+      return null;
+    }
+
+    const store = useTransferStore.getState();
+
+    // The book hash is unknown until the file is downloaded, so the url is used as the key
+    const key = `opds:${md5(options.url)}`;
+    const existing = store.getTransferByBookHash(key, 'opds');
+    if (existing) {
+      return existing.id;
+    }
+
+    const transferId = store.addTransfer(key, options.metadata.title, 'opds', priority, false, {
+      opds: options,
+    });
+    this.persistQueue();
+    this.processQueue();
+    return transferId;
+  }
+
   queueBatchUploads(books: Book[], priority: number = 10): string[] {
     return books
       .map((book) => this.queueUpload(book, priority))
@@ -130,6 +184,32 @@ class TransferManager {
     this.persistQueue();
   }
 
+  // Downloads can't be resumed mid-file, a resumed transfer starts over from the beginning
+  pauseTransfer(transferId: string): void {
+    const transfer = useTransferStore.getState().transfers[transferId];
+    if (!transfer || (transfer.status !== 'pending' && transfer.status !== 'in_progress')) return;
+
+    const controller = this.abortControllers.get(transferId);
+    if (controller) {
+      controller.abort();
+      this.abortControllers.delete(transferId);
+    }
+
+    const store = useTransferStore.getState();
+    store.setTransferStatus(transferId, 'paused');
+    store.updateTransferProgress(transferId, 0, 0, transfer.totalBytes, 0);
+    this.persistQueue();
+  }
+
+  resumeTransfer(transferId: string): void {
+    const store = useTransferStore.getState();
+    if (store.transfers[transferId]?.status !== 'paused') return;
+
+    store.setTransferStatus(transferId, 'pending');
+    this.persistQueue();
+    this.processQueue();
+  }
+
   retryTransfer(transferId: string): void {
     const store = useTransferStore.getState();
     store.retryTransfer(transferId);
@@ -231,13 +311,30 @@ class TransferManager {
 
     try {
       const library = this.getLibrary();
-      const book = library.find((b) => b.hash === transfer.bookHash);
-
-      if (!book) {
+      const book =
+        transfer.type === 'opds' ? null : library.find((b) => b.hash === transfer.bookHash);
+
+      if (transfer.type === 'opds' && transfer.opds) {
+        const importedBook = await downloadOPDSPublication(
+          this.appService,
+          transfer.opds,
+          library,
+          progressHandler,
+          abortController.signal,
+        );
+        if (!importedBook) {
+          throw new Error(_('Failed to import book'));
+        }
+        await this.updateBook(importedBook);
+        // Points the completed transfer to the imported book so that it can be opened
+        useTransferStore.getState().setTransferBookHash(transfer.id, importedBook.hash);
+        const { settings } = useSettingsStore.getState();
+        if (settings.autoUpload && !importedBook.uploadedAt && (await getUserID())) {
+          this.queueUpload(importedBook);
+        }
+      } else if (!book) {
         throw new Error(_('Book not found in library'));
-      }
-
-      if (transfer.type === 'upload') {
+      } else if (transfer.type === 'upload') {
         await this.appService.uploadBook(book, progressHandler);
         book.uploadedAt = Date.now();
         await this.updateBook(book);
@@ -248,6 +345,22 @@ class TransferManager {
       } else if (transfer.type === 'delete') {
         await this.appService.deleteBook(book, 'cloud');
         await this.updateBook(book);
+      } else if (transfer.type === 'audiobook' && transfer.audiobook) {
+        const saved = await exportAudiobook(
+          this.appService,
+          book,
+          transfer.id,
+          transfer.audiobook,
+          progressHandler,
+          abortController.signal,
+        );
+        if (!saved) {
+          // The rendered chapters stay cached, retrying only asks where to save the file again
+          useTransferStore
+            .getState()
+            .setTransferStatus(transfer.id, 'failed', _('Audiobook was not saved'));
+          return;
+        }
       }
 
       useTransferStore.getState().setTransferStatus(transfer.id, 'completed');
@@ -256,6 +369,8 @@ class TransferManager {
         upload: _('Book uploaded: {{title}}', { title: transfer.bookTitle }),
         download: _('Book downloaded: {{title}}', { title: transfer.bookTitle }),
         delete: _('Deleted cloud backup of the book: {{title}}', { title: transfer.bookTitle }),
+        audiobook: _('Audiobook exported: {{title}}', { title: transfer.bookTitle }),
+        opds: _('Book downloaded: {{title}}', { title: transfer.bookTitle }),
       };
 
       if (!transfer.isBackground) {
@@ -306,6 +421,8 @@ class TransferManager {
             delete: _('Failed to delete cloud backup of the book: {{title}}', {
               title: transfer.bookTitle,
             }),
+            audiobook: _('Failed to export audiobook: {{title}}', { title: transfer.bookTitle }),
+            opds: _('Failed to download book: {{title}}', { title: transfer.bookTitle }),
           };
 
           eventDispatcher.dispatch('toast', {
@@ -317,7 +434,10 @@ class TransferManager {
         useTransferStore.getState().setTransferStatus(transfer.id, 'failed', errorMessage);
       }
     } finally {
-      this.abortControllers.delete(transfer.id);
+      // A paused and resumed transfer may already be running again with a new controller
+      if (this.abortControllers.get(transfer.id) === abortController) {
+        this.abortControllers.delete(transfer.id);
+      }
 
       const currentStore = useTransferStore.getState();
       currentStore.setActiveCount(Math.max(0, currentStore.getActiveTransfers().length));
@@ -0,0 +1,242 @@
+import { Book, ViewSettings } from '@/types/book';
+import { AppService } from '@/types/system';
+import { BookDoc, DocumentLoader } from '@/libs/document';
+import { EdgeSpeechTTS, EdgeTTSPayload, EDGE_TTS_PROTOCOL } from '@/libs/edgeTTS';
+import { useSettingsStore } from '@/store/settingsStore';
+import { AudiobookExportOptions } from '@/store/transferStore';
+import { proofreadTransformer } from '@/services/transformers/proofread';
+import { TransformContext } from '@/services/transformers/types';
+import { ProgressHandler } from '@/utils/transfer';
+import { ClosableFile } from '@/utils/file';
+import { configureZip } from '@/utils/zip';
+import { getLocale, makeSafeFilename } from '@/utils/misc';
+import {
+  AudiobookChapter,
+  buildAudiobookChapters,
+  buildID3Tag,
+  buildM4B,
+  concatAudio,
+  extractSpeechText,
+  splitTextForSpeech,
+} from '@/utils/audiobook';
+import { TTSUtils } from './TTSUtils';
+
+const AUDIOBOOK_CACHE_DIR = 'audiobooks';
+
+export const loadAudiobookSource = async (appService: AppService, book: Book) => {
+  const { file } = await appService.loadBookContent(book);
+  const bookDoc = (await new DocumentLoader(file).open()).book;
+  const close = async () => {
+    const f = file as ClosableFile;
+    if (f && f.close) {
+      await f.close();
+    }
+  };
+  return { bookDoc, close };
+};
+
+export const getAudiobookChapters = (bookDoc: BookDoc): AudiobookChapter[] => {
+  const sections = bookDoc.sections || [];
+  const tocEntries = (bookDoc.toc || []).map((item) => {
+    const id = item.href ? bookDoc.splitTOCHref(item.href)[0] : undefined;
+    const sectionIndex = sections.findIndex(
+      (section) => section.id === id || section.href === id || section.id === item.href,
+    );
+    return { title: item.label, sectionIndex };
+  });
+  return buildAudiobookChapters(tocEntries, sections);
+};
+
+export const isAudiobookVoice = (voice: string) => {
+  return EdgeSpeechTTS.voices.some((v) => v.id === voice);
+};
+
+export const getAudiobookVoices = (lang: string) => {
+  const voices = EdgeSpeechTTS.voices.filter((v) => v.lang.startsWith(lang.split('-')[0]!));
+  return voices.length > 0 ? voices : EdgeSpeechTTS.voices;
+};
+
+// voices are rendered with Edge TTS, other engines cannot produce audio files so callers
+// should tell the user when the current voice is not an Edge voice (see isAudiobookVoice)
+export const getAudiobookVoice = (voice: string, lang: string) => {
+  const voices = EdgeSpeechTTS.voices;
+  if (isAudiobookVoice(voice)) return voice;
+  const preferredVoice = TTSUtils.getPreferredVoice('edge-tts', lang);
+  if (preferredVoice && voices.some((v) => v.id === preferredVoice)) return preferredVoice;
+  const langVoices = voices.filter((v) => v.lang.startsWith(lang.split('-')[0]!));
+  return langVoices.find((v) => v.id !== 'en-US-AnaNeural')?.id || 'en-US-AriaNeural';
+};
+
+class AudiobookRenderer {
+  #protocol: EDGE_TTS_PROTOCOL = 'wss';
+  #edgeTTS = new EdgeSpeechTTS(this.#protocol);
+
+  async speak(payload: EdgeTTSPayload): Promise<ArrayBuffer> {
+    try {
+      return await (await this.#edgeTTS.create(payload)).arrayBuffer();
+    } catch (error) {
+      if (this.#protocol === 'https') throw error;
+      // fall back to the authenticated endpoint when the websocket is blocked
+      this.#protocol = 'https';
+      this.#edgeTTS = new EdgeSpeechTTS(this.#protocol);
+      return await (await this.#edgeTTS.create(payload)).arrayBuffer();
+    }
+  }
+}
+
+const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw new Error('Audiobook export cancelled');
+};
+
+/**
+ * Renders the chosen chapters with Edge TTS and saves them as an M4B with
+ * chapters or as a zip of one MP3 per chapter. Rendered chapters are cached
+ * under the transfer id so a cancelled, failed or unsaved export resumes from
+ * the first chapter that was not finished. Resolves to false when the file
+ * was not saved, e.g. the save dialog was dismissed.
+ */
+export const exportAudiobook = async (
+  appService: AppService,
+  book: Book,
+  transferId: string,
+  options: AudiobookExportOptions,
+  onProgress?: ProgressHandler,
+  signal?: AbortSignal,
+): Promise<boolean> => {
+  const { settings } = useSettingsStore.getState();
+  const config = await appService.loadBookConfig(book, settings);
+  const viewSettings = { ...settings.globalViewSettings, ...config.viewSettings } as ViewSettings;
+  const { bookDoc, close } = await loadAudiobookSource(appService, book);
+  const cacheDir = `${AUDIOBOOK_CACHE_DIR}/${transferId}`;
+  const lang = book.primaryLanguage || 'en';
+  const renderer = new AudiobookRenderer();
+  const hasTTSRules = [
+    ...(settings.globalViewSettings.proofreadRules ?? []),
+    ...(config.viewSettings?.proofreadRules ?? []),
+  ].some((rule) => rule.enabled && rule.onlyForTTS);
+  const transformCtx: TransformContext = {
+    bookKey: book.hash,
+    viewSettings,
+    userLocale: getLocale(),
+    content: '',
+    transformers: [],
+    reversePunctuationTransform: true,
+  };
+
+  try {
+    const sections = bookDoc.sections || [];
+    const chapters = getAudiobookChapters(bookDoc).slice(
+      options.startChapter,
+      options.endChapter + 1,
+    );
+    if (chapters.length === 0) throw new Error('No chapters to export');
+    await appService.createDir(cacheDir, 'Cache', true);
+
+    const sectionSize = (i: number) => Math.max(sections[i]?.size ?? 0, 1);
+    const total = chapters.reduce((sum, chapter) => {
+      for (let i = chapter.startSection; i < chapter.endSection; i++) sum += sectionSize(i);
+      return sum;
+    }, 0);
+    const startTime = Date.now();
+    let renderedBytes = 0;
+    let progress = 0;
+    const reportProgress = () => {
+      const elapsed = (Date.now() - startTime) / 1000;
+      onProgress?.({
+        progress,
+        total,
+        transferSpeed: elapsed > 0 ? renderedBytes / elapsed : 0,
+      });
+    };
+
+    const chapterAudio: { title: string; audio: Uint8Array }[] = [];
+    for (let n = 0; n < chapters.length; n++) {
+      const chapter = chapters[n]!;
+      const path = `${cacheDir}/${n}.mp3`;
+      if (await appService.exists(path, 'Cache')) {
+        const cached = await appService.readFile(path, 'Cache', 'binary');
+        chapterAudio.push({ title: chapter.title, audio: new Uint8Array(cached as ArrayBuffer) });
+        for (let i = chapter.startSection; i < chapter.endSection; i++) progress += sectionSize(i);
+        reportProgress();
+        continue;
+      }
+
+      const parts: Uint8Array[] = [];
+      for (let i = chapter.startSection; i < chapter.endSection; i++) {
+        throwIfAborted(signal);
+        const section = sections[i]!;
+        let doc = await section.createDocument();
+        if (hasTTSRules) {
+          const docType = (doc.contentType || 'application/xhtml+xml') as DOMParserSupportedType;
+          transformCtx['content'] = new XMLSerializer().serializeToString(doc);
+          transformCtx['sectionHref'] = section.href;
+          const content = await proofreadTransformer.transform(transformCtx, {
+            docType,
+            onlyForTTS: true,
+          });
+          doc = new DOMParser().parseFromString(content, docType);
+        }
+
+        const segments = splitTextForSpeech(extractSpeechText(doc));
+        for (let s = 0; s < segments.length; s++) {
+          throwIfAborted(signal);
+          const audio = await renderer.speak({
+            lang,
+            text: segments[s]!,
+            voice: options.voice,
+            rate: options.rate,
+            pitch: 1.0,
+          });
+          parts.push(new Uint8Array(audio));
+          renderedBytes += audio.byteLength;
+          reportProgress();
+        }
+        progress += sectionSize(i);
+        reportProgress();
+      }
+
+      const audio = concatAudio(parts);
+      await appService.writeFile(path, 'Cache', audio.buffer as ArrayBuffer);
+      chapterAudio.push({ title: chapter.title, audio });
+    }
+
+    throwIfAborted(signal);
+    const author = book.author || '';
+    const baseName = makeSafeFilename(book.title);
+    let saved = false;
+    if (options.format !== 'mp3-chapters') {
+      const content = buildM4B(
+        { title: book.title, album: book.title, artist: author },
+        chapterAudio,
+      );
+      saved = await appService.exportAudiobook(
+        `${baseName}.m4b`,
+        content.buffer as ArrayBuffer,
+        'audio/mp4',
+      );
+    } else {
+      await configureZip();
+      const { BlobWriter, Uint8ArrayReader, ZipWriter } = await import('@zip.js/zip.js');
+      const zipWriter = new ZipWriter(new BlobWriter('application/zip'));
+      for (let n = 0; n < chapterAudio.length; n++) {
+        const { title, audio } = chapterAudio[n]!;
+        const tag = buildID3Tag({ title, album: book.title, artist: author, track: n + 1 });
+        const filename = `${String(n + 1).padStart(3, '0')} - ${makeSafeFilename(title)}.mp3`;
+        await zipWriter.add(filename, new Uint8ArrayReader(concatAudio([tag, audio])));
+      }
+      const blob = await zipWriter.close();
+      saved = await appService.exportAudiobook(
+        `${baseName}.zip`,
+        await blob.arrayBuffer(),
+        'application/zip',
+      );
+    }
+
+    if (saved) {
+      await appService.deleteDir(cacheDir, 'Cache', true);
+    }
+    return saved;
+  } finally {
+    await close();
+  }
+};
@@ -0,0 +1,403 @@
+import type { InferenceSession } from 'onnxruntime-web';
+import { getFilename } from '@/utils/path';
+import { parseSSMLMarks } from '@/utils/ssml';
+import {
+  PiperVoiceConfig,
+  encodeWAV,
+  getPiperEspeakVoice,
+  getPiperVoiceLang,
+  parsePiperConfig,
+  phonemesToIds,
+} from '@/utils/piper';
+import { AppService } from '@/types/system';
+import { TTSClient, TTSMessageEvent } from './TTSClient';
+import { TTSGranularity, TTSVoice, TTSVoicesGroup } from './types';
+import { TTSController } from './TTSController';
+import { TTSUtils } from './TTSUtils';
+
+const VOICES_DIR = 'tts-voices';
+const ONNX_WASM_PATH = '/vendor/onnxruntime/';
+const AUDIO_CACHE_SIZE = 16;
+
+type NeuralVoice = TTSVoice & {
+  modelPath: string;
+  config: PiperVoiceConfig;
+  speakerId?: number;
+};
+
+export type NeuralVoiceFile = string | File;
+
+const getVoiceFileName = (file: NeuralVoiceFile) =>
+  typeof file === 'string' ? getFilename(file) : file.name;
+
+/**
+ * Speaks with Piper voice models imported from disk. The models run on the CPU
+ * with ONNX Runtime Web in a worker so synthesis works fully offline.
+ */
+export class NeuralTTSClient implements TTSClient {
+  name = 'neural-tts';
+  initialized = false;
+  controller?: TTSController;
+  appService?: AppService | null;
+
+  #voices: NeuralVoice[] = [];
+  #primaryLang = 'en';
+  #speakingLang = '';
+  #currentVoiceId = '';
+  #rate = 1.0;
+
+  #session: InferenceSession | null = null;
+  #sessionModelPath = '';
+  #audioCache = new Map<string, string>();
+  #audioElement: HTMLAudioElement | null = null;
+  #isPlaying = false;
+
+  constructor(controller?: TTSController, appService?: AppService | null) {
+    this.controller = controller;
+    this.appService = appService;
+  }
+
+  async init() {
+    if (!this.appService || typeof WebAssembly === 'undefined') {
+      this.initialized = false;
+      return false;
+    }
+    try {
+      await this.#loadVoices();
+      this.initialized = true;
+    } catch (error) {
+      console.warn('Failed to load neural TTS voices:', error);
+      this.initialized = false;
+    }
+    return this.initialized;
+  }
+
+  async #loadVoices() {
+    const appService = this.appService!;
+    const voices: NeuralVoice[] = [];
+    if (await appService.exists(VOICES_DIR, 'Data')) {
+      const files = await appService.readDirectory(VOICES_DIR, 'Data');
+      for (const file of files.filter((f) => f.path.endsWith('.onnx'))) {
+        const modelPath = `${VOICES_DIR}/${file.path}`;
+        try {
+          const json = await appService.readFile(`${modelPath}.json`, 'Data', 'text');
+          voices.push(...this.#createVoices(modelPath, parsePiperConfig(json as string)));
+        } catch (error) {
+          console.warn('Skipping neural voice without a valid config:', file.path, error);
+        }
+      }
+    }
+    this.#voices = voices;
+  }
+
+  #createVoices(modelPath: string, config: PiperVoiceConfig): NeuralVoice[] {
+    const lang = getPiperVoiceLang(config);
+    const baseName = config.dataset || getFilename(modelPath).replace(/\.onnx$/, '');
+    const name = config.audio.quality ? `${baseName} (${config.audio.quality})` : baseName;
+    const speakers = Object.entries(config.speaker_id_map ?? {});
+    if (config.num_speakers > 1 && speakers.length > 0) {
+      return speakers.map(([speaker, speakerId]) => ({
+        id: `${modelPath}#${speakerId}`,
+        name: `${name} - ${speaker}`,
+        lang,
+        modelPath,
+        config,
+        speakerId,
+      }));
+    }
+    return [{ id: modelPath, name, lang, modelPath, config }];
+  }
+
+  // imports a Piper model with its .onnx.json config, returns the number of voices added
+  async importVoice(model: NeuralVoiceFile, config: NeuralVoiceFile): Promise<number> {
+    if (!this.appService) return 0;
+    const configText =
+      typeof config === 'string'
+        ? ((await this.appService.readFile(config, 'None', 'text')) as string)
+        : await config.text();
+    const voiceConfig = parsePiperConfig(configText);
+
+    const modelPath = `${VOICES_DIR}/${getVoiceFileName(model)}`;
+    await this.appService.createDir(VOICES_DIR, 'Data', true);
+    if (typeof model === 'string') {
+      await this.appService.copyFile(model, modelPath, 'Data');
+    } else {
+      await this.appService.writeFile(modelPath, 'Data', model);
+    }
+    await this.appService.writeFile(`${modelPath}.json`, 'Data', configText);
+
+    await this.#loadVoices();
+    this.initialized = true;
+    return this.#createVoices(modelPath, voiceConfig).length;
+  }
+
+  async #getSession(voice: NeuralVoice) {
+    if (this.#session && this.#sessionModelPath === voice.modelPath) {
+      return this.#session;
+    }
+    await this.#releaseSession();
+    const ort = await import('onnxruntime-web');
+    ort.env.wasm.wasmPaths = ONNX_WASM_PATH;
+    // run inference in a worker to keep the reader responsive
+    ort.env.wasm.proxy = true;
+    const model = await this.appService!.readFile(voice.modelPath, 'Data', 'binary');
+    this.#session = await ort.InferenceSession.create(new Uint8Array(model as ArrayBuffer), {
+      executionProviders: ['wasm'],
+    });
+    this.#sessionModelPath = voice.modelPath;
+    return this.#session;
+  }
+
+  async #releaseSession() {
+    await this.#session?.release();
+    this.#session = null;
+    this.#sessionModelPath = '';
+  }
+
+  async #phonemize(text: string, config: PiperVoiceConfig) {
+    if (config.phoneme_type === 'text') return text;
+    const { phonemize } = await import('phonemizer');
+    const sentences = await phonemize(text, getPiperEspeakVoice(config));
+    return sentences.join(' ');
+  }
+
+  async #synthesize(voice: NeuralVoice, text: string) {
+    const cacheKey = `${voice.id}|${this.#rate}|${text}`;
+    const cached = this.#audioCache.get(cacheKey);
+    if (cached) return cached;
+
+    const { config } = voice;
+    const ids = phonemesToIds(await this.#phonemize(text, config), config.phoneme_id_map);
+    const session = await this.#getSession(voice);
+    const { Tensor } = await import('onnxruntime-web');
+    const { noise_scale, length_scale, noise_w } = config.inference;
+    const feeds: Record<string, InstanceType<typeof Tensor>> = {
+      input: new Tensor('int64', BigInt64Array.from(ids.map(BigInt)), [1, ids.length]),
+      input_lengths: new Tensor('int64', BigInt64Array.from([BigInt(ids.length)]), [1]),
+      // the speaking rate is applied by the model rather than by the audio element
+      scales: new Tensor(
+        'float32',
+        Float32Array.from([noise_scale, length_scale / this.#rate, noise_w]),
+        [3],
+      ),
+    };
+    if (voice.speakerId !== undefined) {
+      feeds['sid'] = new Tensor('int64', BigInt64Array.from([BigInt(voice.speakerId)]), [1]);
+    }
+    const results = await session.run(feeds);
+    const samples = results[session.outputNames[0]!]!.data as Float32Array;
+    const wav = encodeWAV(samples, config.audio.sample_rate);
+    const url = URL.createObjectURL(new Blob([wav], { type: 'audio/wav' }));
+
+    this.#audioCache.set(cacheKey, url);
+    if (this.#audioCache.size > AUDIO_CACHE_SIZE) {
+      const [oldestKey, oldestUrl] = this.#audioCache.entries().next().value!;
+      URL.revokeObjectURL(oldestUrl);
+      this.#audioCache.delete(oldestKey);
+    }
+    return url;
+  }
+
+  #getVoiceFromLang = async (lang: string) => {
+    const preferredVoiceId = TTSUtils.getPreferredVoice(this.name, lang);
+    const preferredVoice = this.#voices.find((v) => v.id === preferredVoiceId);
+    if (preferredVoice) return preferredVoice;
+
+    const currentVoice = this.#voices.find((v) => v.id === this.#currentVoiceId);
+    if (currentVoice?.lang.startsWith(lang.split('-')[0]!)) return currentVoice;
+    const availableVoices = (await this.getVoices(lang))[0]?.voices || [];
+    const defaultVoice = this.#voices.find((v) => v.id === availableVoices[0]?.id);
+    return defaultVoice || currentVoice || this.#voices[0] || null;
+  };
+
+  async *speak(ssml: string, signal: AbortSignal, preload = false) {
+    const { marks } = parseSSMLMarks(ssml, this.#primaryLang);
+
+    if (preload) {
+      // synthesizing is slow on the CPU, so only warm up the first mark
+      const mark = marks[0];
+      const voice = mark ? await this.#getVoiceFromLang(mark.language) : null;
+      if (mark && voice && !signal.aborted) {
+        await this.#synthesize(voice, mark.text).catch((err) => {
+          console.warn('Error preloading mark', err);
+        });
+      }
+      yield {
+        code: 'end',
+        message: 'Preload finished',
+      } as TTSMessageEvent;
+      return;
+    }
+
+    await this.stopInternal();
+    if (!this.#audioElement) {
+      this.#audioElement = new Audio();
+    }
+    const audio = this.#audioElement;
+
+    for (const mark of marks) {
+      this.controller?.dispatchSpeakMark(mark);
+      let abortHandler: null | (() => void) = null;
+      try {
+        const voice = await this.#getVoiceFromLang(mark.language);
+        if (!voice) throw new Error('No neural voice available');
+        this.#currentVoiceId = voice.id;
+        this.#speakingLang = mark.language;
+        const audioUrl = await this.#synthesize(voice, mark.text);
+        if (signal.aborted) {
+          yield { code: 'error', message: 'Aborted' } as TTSMessageEvent;
+          break;
+        }
+
+        yield {
+          code: 'boundary',
+          message: `Start chunk: ${mark.name}`,
+          mark: mark.name,
+        } as TTSMessageEvent;
+
+        const result = await new Promise<TTSMessageEvent>((resolve) => {
+          const cleanUp = () => {
+            audio.onended = null;
+            audio.onerror = null;
+            audio.src = '';
+          };
+          abortHandler = () => {
+            cleanUp();
+            resolve({ code: 'error', message: 'Aborted' });
+          };
+          if (signal.aborted) {
+            abortHandler();
+            return;
+          }
+          signal.addEventListener('abort', abortHandler);
+          audio.onended = () => {
+            cleanUp();
+            resolve({ code: 'end', message: `Chunk finished: ${mark.name}` });
+          };
+          audio.onerror = (e) => {
+            cleanUp();
+            console.warn('Audio playback error:', e);
+            resolve({ code: 'error', message: 'Audio playback error' });
+          };
+          this.#isPlaying = true;
+          audio.src = audioUrl;
+          audio.play().catch((err) => {
+            cleanUp();
+            console.error('Failed to play audio:', err);
+            resolve({ code: 'error', message: 'Playback failed: ' + err.message });
+          });
+        });
+        yield result;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.warn('Neural TTS error for mark:', mark.text, message);
+        yield { code: 'error', message } as TTSMessageEvent;
+        break;
+      } finally {
+        if (abortHandler) {
+          signal.removeEventListener('abort', abortHandler);
+        }
+      }
+    }
+    await this.stopInternal();
+  }
+
+  async pause() {
+    if (!this.#isPlaying || !this.#audioElement) return true;
+    this.#audioElement.pause();
+    this.#isPlaying = false;
+    return true;
+  }
+
+  async resume() {
+    if (this.#isPlaying || !this.#audioElement) return true;
+    await this.#audioElement.play();
+    this.#isPlaying = true;
+    return true;
+  }
+
+  async stop() {
+    await this.stopInternal();
+  }
+
+  private async stopInternal() {
+    this.#isPlaying = false;
+    if (this.#audioElement) {
+      this.#audioElement.pause();
+      this.#audioElement.currentTime = 0;
+      if (this.#audioElement.onended) {
+        this.#audioElement.onended(new Event('stopped'));
+      }
+      this.#audioElement.src = '';
+    }
+  }
+
+  async setRate(rate: number) {
+    this.#rate = rate;
+  }
+
+  async setPitch() {
+    // Piper models have no pitch control
+  }
+
+  async setVoice(voice: string) {
+    const selectedVoice = this.#voices.find((v) => v.id === voice);
+    if (selectedVoice) {
+      this.#currentVoiceId = selectedVoice.id;
+    }
+  }
+
+  async getAllVoices(): Promise<TTSVoice[]> {
+    return this.#voices.map(({ id, name, lang }) => ({
+      id,
+      name,
+      lang,
+      disabled: !this.initialized,
+    }));
+  }
+
+  async getVoices(lang: string) {
+    const baseLang = lang.split('-')[0]!.toLowerCase();
+    const voices = await this.getAllVoices();
+    const filteredVoices = voices.filter((v) => v.lang.split('-')[0] === baseLang);
+
+    const voicesGroup: TTSVoicesGroup = {
+      id: 'neural-tts',
+      name: 'Offline Neural TTS',
+      voices: filteredVoices.sort(TTSUtils.sortVoicesFunc),
+      disabled: !this.initialized || filteredVoices.length === 0,
+    };
+
+    return [voicesGroup];
+  }
+
+  setPrimaryLang(lang: string) {
+    this.#primaryLang = lang;
+  }
+
+  getGranularities(): TTSGranularity[] {
+    return ['sentence'];
+  }
+
+  getVoiceId(): string {
+    return this.#currentVoiceId;
+  }
+
+  getSpeakingLang(): string {
+    return this.#speakingLang;
+  }
+
+  hasVoices(): boolean {
+    return this.#voices.length > 0;
+  }
+
+  async shutdown(): Promise<void> {
+    this.initialized = false;
+    await this.stopInternal();
+    await this.#releaseSession();
+    for (const url of this.#audioCache.values()) URL.revokeObjectURL(url);
+    this.#audioCache.clear();
+    this.#audioElement = null;
+    this.#voices = [];
+  }
+}
@@ -7,6 +7,7 @@ import { createRejectFilter } from '@/utils/node';
 import { WebSpeechClient } from './WebSpeechClient';
 import { NativeTTSClient } from './NativeTTSClient';
 import { EdgeTTSClient } from './EdgeTTSClient';
+import { NeuralTTSClient, NeuralVoiceFile } from './NeuralTTSClient';
 import { TTSUtils } from './TTSUtils';
 import { TTSClient } from './TTSClient';
 import { isValidLang } from '@/utils/lang';
@@ -42,9 +43,11 @@ export class TTSController extends EventTarget {
   ttsWebClient: TTSClient;
   ttsEdgeClient: TTSClient;
   ttsNativeClient: TTSClient | null = null;
+  ttsNeuralClient: NeuralTTSClient;
   ttsWebVoices: TTSVoice[] = [];
   ttsEdgeVoices: TTSVoice[] = [];
   ttsNativeVoices: TTSVoice[] = [];
+  ttsNeuralVoices: TTSVoice[] = [];
   ttsTargetLang: string = '';
 
   options: TTSHighlightOptions = { style: 'highlight', color: 'gray' };
@@ -59,6 +62,7 @@ export class TTSController extends EventTarget {
     super();
     this.ttsWebClient = new WebSpeechClient(this);
     this.ttsEdgeClient = new EdgeTTSClient(this, appService);
+    this.ttsNeuralClient = new NeuralTTSClient(this, appService);
     // TODO: implement native TTS client for iOS and PC
     if (appService?.isAndroidApp) {
       this.ttsNativeClient = new NativeTTSClient(this);
@@ -80,6 +84,10 @@ export class TTSController extends EventTarget {
       availableClients.push(this.ttsNativeClient);
       this.ttsNativeVoices = await this.ttsNativeClient.getAllVoices();
     }
+    if ((await this.ttsNeuralClient.init()) && this.ttsNeuralClient.hasVoices()) {
+      availableClients.push(this.ttsNeuralClient);
+    }
+    this.ttsNeuralVoices = await this.ttsNeuralClient.getAllVoices();
     if (await this.ttsWebClient.init()) {
       availableClients.push(this.ttsWebClient);
     }
@@ -461,6 +469,7 @@ export class TTSController extends EventTarget {
     if (this.ttsEdgeClient.initialized) this.ttsEdgeClient.setPrimaryLang(lang);
     if (this.ttsWebClient.initialized) this.ttsWebClient.setPrimaryLang(lang);
     if (this.ttsNativeClient?.initialized) this.ttsNativeClient?.setPrimaryLang(lang);
+    if (this.ttsNeuralClient.initialized) this.ttsNeuralClient.setPrimaryLang(lang);
   }
 
   async setRate(rate: number) {
@@ -473,11 +482,30 @@ export class TTSController extends EventTarget {
     const ttsWebVoices = await this.ttsWebClient.getVoices(lang);
     const ttsEdgeVoices = await this.ttsEdgeClient.getVoices(lang);
     const ttsNativeVoices = (await this.ttsNativeClient?.getVoices(lang)) ?? [];
-
-    const voicesGroups = [...ttsNativeVoices, ...ttsEdgeVoices, ...ttsWebVoices];
+    const ttsNeuralVoices = this.ttsNeuralClient.initialized
+      ? await this.ttsNeuralClient.getVoices(lang)
+      : [];
+
+    const voicesGroups = [
+      ...ttsNativeVoices,
+      ...ttsEdgeVoices,
+      ...ttsNeuralVoices,
+      ...ttsWebVoices,
+    ];
     return voicesGroups;
   }
 
+  // imports Piper voice models, each given as the .onnx model and its .onnx.json config
+  async importNeuralVoices(voices: { model: NeuralVoiceFile; config: NeuralVoiceFile }[]) {
+    let count = 0;
+    for (const { model, config } of voices) {
+      count += await this.ttsNeuralClient.importVoice(model, config);
+    }
+    this.ttsNeuralClient.setPrimaryLang(this.ttsLang);
+    this.ttsNeuralVoices = await this.ttsNeuralClient.getAllVoices();
+    return count;
+  }
+
   async setVoice(voiceId: string, lang: string) {
     this.state = 'setvoice-paused';
     const useEdgeTTS = !!this.ttsEdgeVoices.find(
@@ -486,6 +514,9 @@ export class TTSController extends EventTarget {
     const useNativeTTS = !!this.ttsNativeVoices.find(
       (voice) => (voiceId === '' || voice.id === voiceId) && !voice.disabled,
     );
+    const useNeuralTTS = !!this.ttsNeuralVoices.find(
+      (voice) => voice.id === voiceId && !voice.disabled,
+    );
     if (useEdgeTTS) {
       this.ttsClient = this.ttsEdgeClient;
       await this.ttsClient.setRate(this.ttsRate);
@@ -495,6 +526,9 @@ export class TTSController extends EventTarget {
       }
       this.ttsClient = this.ttsNativeClient;
       await this.ttsClient.setRate(this.ttsRate);
+    } else if (useNeuralTTS) {
+      this.ttsClient = this.ttsNeuralClient;
+      await this.ttsClient.setRate(this.ttsRate);
     } else {
       this.ttsClient = this.ttsWebClient;
       await this.ttsClient.setRate(this.ttsRate);
@@ -550,5 +584,8 @@ export class TTSController extends EventTarget {
     if (this.ttsNativeClient?.initialized) {
       await this.ttsNativeClient.shutdown();
     }
+    if (this.ttsNeuralClient.initialized) {
+      await this.ttsNeuralClient.shutdown();
+    }
   }
 }
@@ -3,5 +3,6 @@ export * from './TTSClient';
 export * from './WebSpeechClient';
 export * from './EdgeTTSClient';
 export * from './NativeTTSClient';
+export * from './NeuralTTSClient';
 export * from './TTSController';
 export * from './TTSData';
@@ -0,0 +1,113 @@
+import { watch } from '@tauri-apps/plugin-fs';
+import { Book } from '@/types/book';
+import { AppService } from '@/types/system';
+import { SUPPORTED_BOOK_EXTS } from '@/services/constants';
+import { md5Fingerprint, partialMD5 } from '@/utils/md5';
+import { getDirPath, joinPaths } from '@/utils/path';
+import { WatchFolder, WatchFolderScanResult } from './types';
+
+const WATCH_DEBOUNCE_MS = 3000;
+
+export const isWatchedBookFile = (path: string) => {
+  const ext = path.split('.').pop()?.toLowerCase() || '';
+  return SUPPORTED_BOOK_EXTS.includes(ext);
+};
+
+export const normalizeRelativePath = (path: string) => path.replace(/\\/g, '/').replace(/^\/+/, '');
+
+// Library group of a book derived from the subfolders of its path in the watch folder
+export const getSubfolderGroupName = (relativePath: string) => getDirPath(relativePath);
+
+/**
+ * Scans a watch folder, importing the new book files and flagging the books whose files
+ * were removed. Files already linked to a book are not read again, new files are matched
+ * against the library by their partial MD5 hash before being imported.
+ * The library is updated in place, the caller is responsible for saving the changed books.
+ * Files that fail to import are added to `failedFiles` and skipped by later scans
+ * until their size changes, e.g. when a file was still being copied.
+ */
+export const scanWatchFolder = async (
+  appService: AppService,
+  folder: WatchFolder,
+  books: Book[],
+  failedFiles: Set<string> = new Set(),
+): Promise<WatchFolderScanResult> => {
+  const result: WatchFolderScanResult = { changed: [], imported: [], missing: 0, failed: [] };
+  const files = (await appService.readDirectory(folder.path, 'None'))
+    .map((file) => ({ ...file, path: normalizeRelativePath(file.path) }))
+    .filter((file) => isWatchedBookFile(file.path));
+  const foundPaths = new Set(files.map((file) => file.path));
+
+  const linkedBooks = new Map<string, Book>();
+  for (const book of books) {
+    if (book.watchFolder?.folderId === folder.id) {
+      linkedBooks.set(book.watchFolder.path, book);
+    }
+  }
+
+  for (const { path, size } of files) {
+    const linkedBook = linkedBooks.get(path);
+    if (linkedBook) {
+      if (linkedBook.watchFolder?.missingAt) {
+        linkedBook.watchFolder = { ...linkedBook.watchFolder, missingAt: null };
+        linkedBook.updatedAt = Date.now();
+        result.changed.push(linkedBook);
+      }
+      continue;
+    }
+    const fileKey = `${path}:${size}`;
+    if (failedFiles.has(fileKey)) continue;
+
+    try {
+      const filePath = await joinPaths(folder.path, path);
+      const hash = await partialMD5(await appService.openFile(filePath, 'None'));
+      // Books deleted by the user are linked as well so that they are not imported again
+      const existingBook = books.find((b) => b.hash === hash);
+      if (existingBook) {
+        const link = existingBook.watchFolder;
+        // A copy of a file already linked in this folder
+        if (link?.folderId === folder.id && foundPaths.has(link.path)) continue;
+        existingBook.watchFolder = { folderId: folder.id, path };
+        existingBook.updatedAt = Date.now();
+        result.changed.push(existingBook);
+        continue;
+      }
+
+      const book = await appService.importBook(filePath, books);
+      if (!book) continue;
+      book.watchFolder = { folderId: folder.id, path };
+      const groupName = folder.groupBySubfolder ? getSubfolderGroupName(path) : '';
+      if (groupName) {
+        book.groupName = groupName;
+        book.groupId = md5Fingerprint(groupName);
+      }
+      result.changed.push(book);
+      result.imported.push(book);
+    } catch (error) {
+      console.error('Failed to import book from watch folder:', path, error);
+      failedFiles.add(fileKey);
+      result.failed.push(path);
+    }
+  }
+
+  for (const [path, book] of linkedBooks) {
+    if (foundPaths.has(path) || book.watchFolder?.missingAt) continue;
+    book.watchFolder = { ...book.watchFolder!, missingAt: Date.now() };
+    book.updatedAt = Date.now();
+    result.changed.push(book);
+    result.missing++;
+  }
+
+  return result;
+};
+
+/**
+ * Watches a folder for changes on desktop, the changes are debounced and reported
+ * together so that copying many books at once triggers a single scan.
+ */
+export const watchFolderChanges = async (folder: WatchFolder, onChange: () => void) => {
+  return await watch(folder.path, () => onChange(), {
+    recursive: true,
+    delayMs: WATCH_DEBOUNCE_MS,
+  });
+};
@@ -0,0 +1,7 @@
+export {
+  getSubfolderGroupName,
+  isWatchedBookFile,
+  scanWatchFolder,
+  watchFolderChanges,
+} from './WatchFolderScanner';
+export type { WatchFolder, WatchFolderLink, WatchFolderScanResult } from './types';
@@ -0,0 +1,28 @@
+import { Book } from '@/types/book';
+
+export interface WatchFolder {
+  id: string;
+  // absolute path of the folder on the device
+  path: string;
+  enabled: boolean;
+  // put the imported books into library groups named after their subfolders
+  groupBySubfolder: boolean;
+  lastScannedAt?: number;
+}
+
+// Source of a book imported from a watch folder
+export interface WatchFolderLink {
+  folderId: string;
+  // path of the book file relative to the watch folder with forward slashes
+  path: string;
+  // set when the file is no longer found in the watch folder
+  missingAt?: number | null;
+}
+
+export interface WatchFolderScanResult {
+  // books imported, linked or flagged during the scan, to be saved by the caller
+  changed: Book[];
+  imported: Book[];
+  missing: number;
+  failed: string[];
+}
@@ -137,12 +137,18 @@ const indexedDBFileSystem: FileSystem = {
       request.onerror = () => reject(request.error);
     });
   },
-  async writeFile(path: string, base: BaseDir, content: string | ArrayBuffer | File) {
+  async writeFile(
+    path: string,
+    base: BaseDir,
+    content: string | ArrayBuffer | File | ReadableStream<Uint8Array>,
+  ) {
     const { fp } = this.resolvePath(path, base);
     const db = await openIndexedDB();
 
     if (content instanceof File) {
       content = await content.arrayBuffer();
+    } else if (content instanceof ReadableStream) {
+      content = await new Response(content).arrayBuffer();
     }
     return new Promise<void>((resolve, reject) => {
       const transaction = db.transaction('files', 'readwrite');
@@ -324,7 +330,7 @@ export class WebAppService extends BaseAppService {
 
   async saveFile(
     filename: string,
-    content: string | ArrayBuffer,
+    content: string | ArrayBuffer | File,
     mimeType?: string,
   ): Promise<boolean> {
     try {
@@ -21,6 +21,7 @@ import { useSettingsStore } from './settingsStore';
 import { useBookDataStore } from './bookDataStore';
 import { useLibraryStore } from './libraryStore';
 import { uniqueId } from '@/utils/misc';
+import { touchConfigFields } from '@/utils/merge';
 
 interface ViewState {
   /* Unique key for each book view */
@@ -267,6 +268,7 @@ export const useReaderStore = create<ReaderStore>((set, get) => ({
               ...bookData.config,
               updatedAt: Date.now(),
               viewSettings,
+              fieldsUpdatedAt: touchConfigFields(bookData.config, ['viewSettings']),
             },
           },
         },
@@ -339,6 +341,10 @@ export const useReaderStore = create<ReaderStore>((set, get) => ({
         progress,
         location,
       } as BookConfig;
+      // the first location reported after opening the book only restores the saved position
+      if (viewState.progress && oldConfig?.location !== location) {
+        newConfig.fieldsUpdatedAt = touchConfigFields(oldConfig, ['progress']);
+      }
 
       useBookDataStore.setState((state) => ({
         booksData: {
@@ -0,0 +1,37 @@
+import { create } from 'zustand';
+import { ReadingSession } from '@/types/book';
+import { EnvConfigType } from '@/services/environment';
+import { mergeReadingSessions } from '@/utils/statistics';
+
+interface StatisticsState {
+  sessions: ReadingSession[];
+  loaded: boolean;
+  loadSessions: (envConfig: EnvConfigType) => Promise<ReadingSession[]>;
+  addSession: (envConfig: EnvConfigType, session: ReadingSession) => Promise<void>;
+  mergeSessions: (envConfig: EnvConfigType, sessions: ReadingSession[]) => Promise<void>;
+}
+
+export const useStatisticsStore = create<StatisticsState>((set, get) => ({
+  sessions: [],
+  loaded: false,
+
+  loadSessions: async (envConfig) => {
+    const appService = await envConfig.getAppService();
+    // sessions may have been recorded by a reader in another window
+    const sessions = mergeReadingSessions(await appService.loadReadingSessions(), get().sessions);
+    set({ sessions, loaded: true });
+    return sessions;
+  },
+
+  addSession: async (envConfig, session) => {
+    await get().mergeSessions(envConfig, [session]);
+  },
+
+  mergeSessions: async (envConfig, sessions) => {
+    const appService = await envConfig.getAppService();
+    const local = get().loaded ? get().sessions : await get().loadSessions(envConfig);
+    const merged = mergeReadingSessions(local, sessions);
+    set({ sessions: merged, loaded: true });
+    await appService.saveReadingSessions(merged);
+  },
+}));
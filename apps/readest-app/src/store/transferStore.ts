@@ -1,7 +1,51 @@
 import { create } from 'zustand';
+import { AudiobookFormat } from '@/utils/audiobook';
+
+export type TransferType = 'upload' | 'download' | 'delete' | 'audiobook' | 'opds';
+export type TransferStatus =
+  | 'pending'
+  | 'in_progress'
+  | 'paused'
+  | 'completed'
+  | 'failed'
+  | 'cancelled';
+
+export interface AudiobookExportOptions {
+  format: AudiobookFormat;
+  startChapter: number;
+  endChapter: number;
+  voice: string;
+  rate: number;
+}
 
-export type TransferType = 'upload' | 'download' | 'delete';
-export type TransferStatus = 'pending' | 'in_progress' | 'completed' | 'failed' | 'cancelled';
+// Metadata of an OPDS publication used to pre-fill the imported book
+export interface OPDSDownloadMetadata {
+  title: string;
+  authors?: string[];
+  series?: string;
+  seriesIndex?: number;
+  subjects?: string[];
+  publisher?: string;
+  published?: string;
+  language?: string;
+  description?: string;
+  identifier?: string;
+}
+
+export interface OPDSDownloadOptions {
+  url: string;
+  type?: string;
+  // media types of the indirect acquisition chain, outermost first
+  indirectTypes?: string[];
+  // the credentials are looked up from the catalog and never persisted with the queue
+  catalogId?: string;
+  metadata: OPDSDownloadMetadata;
+}
+
+export interface TransferExtras {
+  audiobook?: AudiobookExportOptions;
+  opds?: OPDSDownloadOptions;
+}
 
 export interface TransferItem {
   id: string;
@@ -21,6 +65,8 @@ export interface TransferItem {
   completedAt?: number;
   priority: number; // Lower = higher priority
   isBackground: boolean;
+  audiobook?: AudiobookExportOptions;
+  opds?: OPDSDownloadOptions;
 }
 
 interface TransferState {
@@ -40,6 +86,7 @@ interface TransferState {
     type: TransferType,
     priority?: number,
     isBackground?: boolean,
+    extras?: TransferExtras,
   ) => string;
   removeTransfer: (transferId: string) => void;
   updateTransferProgress: (
@@ -50,6 +97,7 @@ interface TransferState {
     speed: number,
   ) => void;
   setTransferStatus: (transferId: string, status: TransferStatus, error?: string) => void;
+  setTransferBookHash: (transferId: string, bookHash: string) => void;
   retryTransfer: (transferId: string) => void;
   incrementRetryCount: (transferId: string) => void;
 
@@ -94,7 +142,7 @@ export const useTransferStore = create<TransferState>((set, get) => ({
 
   setIsTransferQueueOpen: (isOpen) => set({ isTransferQueueOpen: isOpen }),
 
-  addTransfer: (bookHash, bookTitle, type, priority = 10, isBackground = false) => {
+  addTransfer: (bookHash, bookTitle, type, priority = 10, isBackground = false, extras = {}) => {
     const id = generateTransferId();
     const transfer: TransferItem = {
       id,
@@ -111,6 +159,7 @@ export const useTransferStore = create<TransferState>((set, get) => ({
       createdAt: Date.now(),
       priority,
       isBackground,
+      ...extras,
     };
 
     set((state) => ({
@@ -171,6 +220,20 @@ export const useTransferStore = create<TransferState>((set, get) => ({
     });
   },
 
+  setTransferBookHash: (transferId, bookHash) => {
+    set((state) => {
+      const transfer = state.transfers[transferId];
+      if (!transfer) return state;
+
+      return {
+        transfers: {
+          ...state.transfers,
+          [transferId]: { ...transfer, bookHash },
+        },
+      };
+    });
+  },
+
   retryTransfer: (transferId) => {
     set((state) => {
       const transfer = state.transfers[transferId];
@@ -261,7 +324,9 @@ export const useTransferStore = create<TransferState>((set, get) => ({
   getTransferByBookHash: (bookHash, type) => {
     return Object.values(get().transfers).find(
       (t) =>
-        t.bookHash === bookHash && t.type === type && ['pending', 'in_progress'].includes(t.status),
+        t.bookHash === bookHash &&
+        t.type === type &&
+        ['pending', 'in_progress', 'paused'].includes(t.status),
     );
   },
 
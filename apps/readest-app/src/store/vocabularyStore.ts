@@ -0,0 +1,48 @@
+import { create } from 'zustand';
+import { VocabularyWord } from '@/types/book';
+import { EnvConfigType } from '@/services/environment';
+import { mergeVocabulary, recordVocabularyLookup, VocabularyLookup } from '@/utils/vocabulary';
+
+interface VocabularyState {
+  words: VocabularyWord[];
+  loaded: boolean;
+  loadWords: (envConfig: EnvConfigType) => Promise<VocabularyWord[]>;
+  saveWord: (envConfig: EnvConfigType, word: VocabularyWord) => Promise<void>;
+  recordLookup: (envConfig: EnvConfigType, lookup: VocabularyLookup) => Promise<void>;
+  mergeWords: (envConfig: EnvConfigType, words: VocabularyWord[]) => Promise<void>;
+}
+
+export const useVocabularyStore = create<VocabularyState>((set, get) => ({
+  words: [],
+  loaded: false,
+
+  loadWords: async (envConfig) => {
+    const appService = await envConfig.getAppService();
+    // words may have been looked up by a reader in another window
+    const words = mergeVocabulary(await appService.loadVocabulary(), get().words);
+    set({ words, loaded: true });
+    return words;
+  },
+
+  saveWord: async (envConfig, word) => {
+    await get().mergeWords(envConfig, [word]);
+  },
+
+  // the words are read from disk again before they are changed so that the words saved
+  // by readers in other windows are not overwritten
+  recordLookup: async (envConfig, lookup) => {
+    const words = await get().loadWords(envConfig);
+    const word = recordVocabularyLookup(words, lookup);
+    if (word) await get().saveWord(envConfig, word);
+  },
+
+  mergeWords: async (envConfig, words) => {
+    const appService = await envConfig.getAppService();
+    const local = await get().loadWords(envConfig);
+    const merged = mergeVocabulary(local, words);
+    // synced copies that are not newer leave the words as they are
+    if (merged.length === local.length && merged.every((word, i) => word === local[i])) return;
+    set({ words: merged, loaded: true });
+    await appService.saveVocabulary(merged);
+  },
+}));
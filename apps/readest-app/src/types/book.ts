@@ -1,5 +1,7 @@
 import { BookMetadata } from '@/libs/document';
 import { TTSHighlightOptions } from '@/services/tts/types';
+import { CalibreLink } from '@/services/calibre/types';
+import { WatchFolderLink } from '@/services/watchFolders/types';
 import { AnnotationToolType } from './annotator';
 
 export type BookFormat =
@@ -9,6 +11,8 @@ export type BookFormat =
   | 'AZW'
   | 'AZW3'
   | 'CBZ'
+  | 'CBR'
+  | 'CB7'
   | 'FB2'
   | 'FBZ'
   | 'TXT'
@@ -24,7 +28,7 @@ export interface ParagraphModeConfig {
   enabled: boolean;
 }
 
-export const FIXED_LAYOUT_FORMATS: Set<BookFormat> = new Set(['PDF', 'CBZ']);
+export const FIXED_LAYOUT_FORMATS: Set<BookFormat> = new Set(['PDF', 'CBZ', 'CBR', 'CB7']);
 
 export interface Book {
   // if Book is a remote book we just lazy load the book content via url
@@ -60,6 +64,8 @@ export interface Book {
   primaryLanguage?: string;
 
   metadata?: BookMetadata;
+  calibre?: CalibreLink;
+  watchFolder?: WatchFolderLink;
 }
 
 export interface BookGroupType {
@@ -96,6 +102,47 @@ export interface BookNote {
   deletedAt?: number | null;
 }
 
+export interface ReadingSession {
+  bookHash: string;
+  metaHash?: string;
+  id: string;
+  startedAt: number;
+  endedAt: number;
+  duration: number; // active reading time in seconds
+  pagesRead: number;
+  startPage: number;
+  endPage: number;
+  totalPages: number;
+
+  createdAt: number;
+  updatedAt: number;
+  deletedAt?: number | null;
+}
+
+export interface VocabularyWord {
+  bookHash: string;
+  metaHash?: string;
+  id: string;
+  word: string; // as selected in the book
+  lemma: string; // dictionary form the word was found under
+  context: string; // sentence the word was looked up in
+  cfi: string;
+  lang?: string;
+  bookTitle?: string;
+  definition?: string;
+
+  // SM-2 review state
+  repetitions: number;
+  interval: number; // days
+  easeFactor: number;
+  dueAt: number;
+  reviewedAt?: number | null;
+
+  createdAt: number;
+  updatedAt: number;
+  deletedAt?: number | null;
+}
+
 export interface BooknoteGroup {
   id: number;
   href: string;
@@ -236,6 +283,8 @@ export interface TranslatorConfig {
   ttsReadAloudText: string;
 }
 
+export type VaultFlavor = 'obsidian' | 'logseq';
+
 export interface NoteExportConfig {
   includeTitle: boolean;
   includeAuthor: boolean;
@@ -246,10 +295,13 @@ export interface NoteExportConfig {
   includePageNumber: boolean;
   includeTimestamp: boolean;
   includeChapterSeparator: boolean;
+  includeSummaries: boolean;
   noteSeparator: string;
   useCustomTemplate: boolean;
   customTemplate: string;
   exportAsPlainText: boolean;
+  vaultPath: string;
+  vaultFlavor: VaultFlavor;
 }
 
 export interface AnnotatorConfig {
@@ -311,8 +363,12 @@ export interface BookProgress {
   page: number;
 }
 
+// text matches the query literally, fuzzy tolerates a few typos in every word
+export type BookSearchMode = 'text' | 'regex' | 'fuzzy';
+
 export interface BookSearchConfig {
   scope: 'book' | 'section';
+  mode: BookSearchMode;
   matchCase: boolean;
   matchWholeWords: boolean;
   matchDiacritics: boolean;
@@ -342,6 +398,9 @@ export interface BookSearchResult {
   progress?: number;
 }
 
+// Groups of BookConfig fields that are synced and merged independently
+export type BookConfigSyncField = 'progress' | 'viewSettings' | 'searchConfig';
+
 export interface BookConfig {
   bookHash?: string;
   metaHash?: string;
@@ -351,6 +410,8 @@ export interface BookConfig {
   booknotes?: BookNote[];
   searchConfig?: Partial<BookSearchConfig>;
   viewSettings?: Partial<ViewSettings>;
+  // Last update time of each synced field group, falls back to updatedAt when missing
+  fieldsUpdatedAt?: Partial<Record<BookConfigSyncField, number>>;
 
   lastSyncedAtConfig?: number;
   lastSyncedAtNotes?: number;
@@ -4,6 +4,8 @@ export const REL = {
   GROUP: 'http://opds-spec.org/group',
   COVER: ['http://opds-spec.org/image', 'http://opds-spec.org/cover'],
   THUMBNAIL: ['http://opds-spec.org/image/thumbnail', 'http://opds-spec.org/thumbnail'],
+  PSE_STREAM: 'http://vaemendis.net/opds-pse/stream',
+  PROGRESSION: 'http://www.cantook.com/api/progression',
 };
 
 const SUMMARY = Symbol('summary');
@@ -29,6 +31,10 @@ export interface OPDSFeed {
   metadata: {
     title?: string;
     subtitle?: string;
+    // OPDS 2.0 paging, also filled from the OpenSearch elements of Atom feeds
+    numberOfItems?: number;
+    itemsPerPage?: number;
+    currentPage?: number;
   };
   links: OPDSLink[];
   navigation?: OPDSNavigationItem[];
@@ -50,6 +56,10 @@ export interface OPDSPublication {
     identifier?: string;
     subject?: OPDSSubject[];
     rights?: string;
+    belongsTo?: {
+      series?: OPDSCollection[];
+      collection?: OPDSCollection[];
+    };
     content?: OPDSContent;
     [SYMBOL.CONTENT]?: OPDSContent;
   };
@@ -71,6 +81,7 @@ export interface OPDSLink {
   href: string;
   type?: string;
   title?: string;
+  templated?: boolean;
   properties: {
     price?: {
       currency: string;
@@ -78,14 +89,27 @@ export interface OPDSLink {
     } | null;
     indirectAcquisition?: Array<{ type: string }>;
     numberOfItems?: string;
+    pse?: OPDSPageStream;
   };
 }
 
+// Attributes of an OPDS Page Streaming Extension link
+export interface OPDSPageStream {
+  count: number;
+  lastRead?: number;
+  lastReadDate?: string;
+}
+
 interface OPDSPerson {
   name: string;
   links: Array<{ href: string }>;
 }
 
+interface OPDSCollection {
+  name: string;
+  position?: number;
+}
+
 interface OPDSSubject {
   name?: string;
   code?: string;
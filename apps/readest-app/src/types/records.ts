@@ -28,6 +28,7 @@ export interface DBBookConfig {
   progress?: string;
   search_config?: string;
   view_settings?: string;
+  fields_updated_at?: string;
 
   created_at?: string;
   updated_at?: string;
@@ -51,3 +52,44 @@ export interface DBBookNote {
   updated_at?: string;
   deleted_at?: string | null;
 }
+
+export interface DBReadingSession {
+  user_id: string;
+  book_hash: string;
+  meta_hash?: string;
+  id: string;
+  started_at: string;
+  ended_at: string;
+  duration: number;
+  pages_read: number;
+  start_page: number;
+  end_page: number;
+  total_pages: number;
+
+  created_at?: string;
+  updated_at?: string;
+  deleted_at?: string | null;
+}
+
+export interface DBVocabularyWord {
+  user_id: string;
+  book_hash: string;
+  meta_hash?: string;
+  id: string;
+  word: string;
+  lemma: string;
+  context: string;
+  cfi: string;
+  lang?: string | null;
+  book_title?: string | null;
+  definition?: string | null;
+  repetitions: number;
+  interval: number;
+  ease_factor: number;
+  due_at: string;
+  reviewed_at?: string | null;
+
+  created_at?: string;
+  updated_at?: string;
+  deleted_at?: string | null;
+}
@@ -3,6 +3,9 @@ import { CustomFont } from '@/styles/fonts';
 import { CustomTexture } from '@/styles/textures';
 import { HighlightColor, HighlightStyle, ViewSettings } from './book';
 import { OPDSCatalog } from './opds';
+import { CalibreSource } from '@/services/calibre/types';
+import { WatchFolder } from '@/services/watchFolders/types';
+import { ImportedDictionary } from '@/services/dictionaries/types';
 import type { AISettings } from '@/services/ai/types';
 import type { NotebookTab } from '@/store/notebookStore';
 
@@ -32,6 +35,41 @@ export const LibraryGroupByType = {
 
 export type LibraryGroupByType = (typeof LibraryGroupByType)[keyof typeof LibraryGroupByType];
 
+export type SmartShelfField =
+  | 'readingStatus'
+  | 'tags'
+  | 'format'
+  | 'author'
+  | 'language'
+  | 'series'
+  | 'progress'
+  | 'createdAt'
+  | 'updatedAt';
+
+export type SmartShelfOperator =
+  | 'is'
+  | 'isNot'
+  | 'contains'
+  | 'notContains'
+  | 'between'
+  | 'withinDays'
+  | 'olderThanDays';
+
+export interface SmartShelfRule {
+  field: SmartShelfField;
+  operator: SmartShelfOperator;
+  value: string;
+  // upper bound of the 'between' operator
+  valueTo?: string;
+}
+
+export interface SmartShelf {
+  id: string;
+  name: string;
+  match: 'all' | 'any';
+  rules: SmartShelfRule[];
+}
+
 export type KOSyncChecksumMethod = 'binary' | 'filename';
 export type KOSyncStrategy = 'prompt' | 'silent' | 'send' | 'receive';
 
@@ -102,6 +140,14 @@ export interface SystemSettings {
   customFonts: CustomFont[];
   customTextures: CustomTexture[];
   opdsCatalogs: OPDSCatalog[];
+  calibreSources: CalibreSource[];
+  watchFolders: WatchFolder[];
+  smartShelves: SmartShelf[];
+  dictionaries: ImportedDictionary[];
+  // look up Wiktionary when the offline dictionaries have no definition
+  dictionaryOnlineFallback: boolean;
+  // minutes between the periodic scans of the watch folders
+  watchFoldersScanInterval: number;
   metadataSeriesCollapsed: boolean;
   metadataOthersCollapsed: boolean;
   metadataDescriptionCollapsed: boolean;
@@ -112,6 +158,8 @@ export interface SystemSettings {
   lastSyncedAtBooks: number;
   lastSyncedAtConfigs: number;
   lastSyncedAtNotes: number;
+  lastSyncedAtSessions: number;
+  lastSyncedAtVocabulary: number;
 
   migrationVersion: number;
 
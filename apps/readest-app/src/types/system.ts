@@ -1,9 +1,18 @@
 import { SystemSettings } from './settings';
-import { Book, BookConfig, BookContent, ViewSettings } from './book';
-import { BookMetadata } from '@/libs/document';
+import {
+  Book,
+  BookConfig,
+  BookContent,
+  ReadingSession,
+  ViewSettings,
+  VocabularyWord,
+} from './book';
+import { BookDoc, BookMetadata } from '@/libs/document';
+import { FullTextIndex } from '@/services/search/types';
 import { ProgressHandler } from '@/utils/transfer';
 import { CustomFont, CustomFontInfo } from '@/styles/fonts';
 import { CustomTextureInfo } from '@/styles/textures';
+import { LibraryBackupOptions, LibraryRestoreResult } from '@/utils/backup';
 
 export type AppPlatform = 'web' | 'tauri';
 export type OsPlatform = 'android' | 'ios' | 'macos' | 'windows' | 'linux' | 'unknown';
@@ -52,7 +61,11 @@ export interface FileSystem {
   openFile(path: string, base: BaseDir, filename?: string): Promise<File>;
   copyFile(srcPath: string, dstPath: string, base: BaseDir): Promise<void>;
   readFile(path: string, base: BaseDir, mode: 'text' | 'binary'): Promise<string | ArrayBuffer>;
-  writeFile(path: string, base: BaseDir, content: string | ArrayBuffer | File): Promise<void>;
+  writeFile(
+    path: string,
+    base: BaseDir,
+    content: string | ArrayBuffer | File | ReadableStream<Uint8Array>,
+  ): Promise<void>;
   removeFile(path: string, base: BaseDir): Promise<void>;
   readDir(path: string, base: BaseDir): Promise<FileItem[]>;
   createDir(path: string, base: BaseDir, recursive?: boolean): Promise<void>;
@@ -97,7 +110,11 @@ export interface AppService {
   openFile(path: string, base: BaseDir): Promise<File>;
   copyFile(srcPath: string, dstPath: string, base: BaseDir): Promise<void>;
   readFile(path: string, base: BaseDir, mode: 'text' | 'binary'): Promise<string | ArrayBuffer>;
-  writeFile(path: string, base: BaseDir, content: string | ArrayBuffer | File): Promise<void>;
+  writeFile(
+    path: string,
+    base: BaseDir,
+    content: string | ArrayBuffer | File | ReadableStream<Uint8Array>,
+  ): Promise<void>;
   createDir(path: string, base: BaseDir, recursive?: boolean): Promise<void>;
   deleteFile(path: string, base: BaseDir): Promise<void>;
   deleteDir(path: string, base: BaseDir, recursive?: boolean): Promise<void>;
@@ -110,7 +127,11 @@ export interface AppService {
   selectDirectory(mode: SelectDirectoryMode): Promise<string>;
   selectFiles(name: string, extensions: string[]): Promise<string[]>;
   readDirectory(path: string, base: BaseDir): Promise<FileItem[]>;
-  saveFile(filename: string, content: string | ArrayBuffer, mimeType?: string): Promise<boolean>;
+  saveFile(
+    filename: string,
+    content: string | ArrayBuffer | File,
+    mimeType?: string,
+  ): Promise<boolean>;
 
   getDefaultViewSettings(): ViewSettings;
   loadSettings(): Promise<SystemSettings>;
@@ -145,6 +166,18 @@ export interface AppService {
   ): Promise<string | undefined>;
   downloadBookCovers(books: Book[], redownload?: boolean): Promise<void>;
   exportBook(book: Book): Promise<boolean>;
+  exportLibraryBackup(
+    books: Book[],
+    settings: SystemSettings,
+    options?: LibraryBackupOptions,
+  ): Promise<boolean>;
+  exportAudiobook(filename: string, content: ArrayBuffer, mimeType: string): Promise<boolean>;
+  exportVocabulary(filename: string, content: ArrayBuffer, mimeType: string): Promise<boolean>;
+  importLibraryBackup(
+    file: string | File,
+    books: Book[],
+    settings: SystemSettings,
+  ): Promise<LibraryRestoreResult>;
   isBookAvailable(book: Book): Promise<boolean>;
   getBookFileSize(book: Book): Promise<number | null>;
   loadBookConfig(book: Book, settings: SystemSettings): Promise<BookConfig>;
@@ -153,6 +186,13 @@ export interface AppService {
   loadBookContent(book: Book): Promise<BookContent>;
   loadLibraryBooks(): Promise<Book[]>;
   saveLibraryBooks(books: Book[]): Promise<void>;
+  loadReadingSessions(): Promise<ReadingSession[]>;
+  saveReadingSessions(sessions: ReadingSession[]): Promise<void>;
+  loadVocabulary(): Promise<VocabularyWord[]>;
+  saveVocabulary(words: VocabularyWord[]): Promise<void>;
+  loadFullTextIndex(book: Book): Promise<FullTextIndex | null>;
+  saveFullTextIndex(book: Book, bookDoc: BookDoc): Promise<boolean>;
+  indexBookFullText(book: Book): Promise<boolean>;
   getCoverImageUrl(book: Book): string;
   getCoverImageBlobUrl(book: Book): Promise<string>;
   generateCoverImageUrl(book: Book): Promise<string>;
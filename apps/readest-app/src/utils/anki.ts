@@ -0,0 +1,271 @@
+import { VocabularyWord } from '@/types/book';
+import { createSQLiteDatabase, SQLiteTable } from './sqlite';
+import { getClozeParts } from './vocabulary';
+import { configureZip } from './zip';
+
+// fixed ids so that importing a newer export updates the notes of the previous one
+const ANKI_MODEL_ID = 1735689600000;
+const ANKI_DECK_ID = 1735689600001;
+const FIELD_SEPARATOR = '\x1f';
+
+const COLLECTION_SCHEMA: Record<string, string> = {
+  col: `CREATE TABLE col (id integer primary key, crt integer not null, mod integer not null, scm integer not null, ver integer not null, dty integer not null, usn integer not null, ls integer not null, conf text not null, models text not null, decks text not null, dconf text not null, tags text not null)`,
+  notes: `CREATE TABLE notes (id integer primary key, guid text not null, mid integer not null, mod integer not null, usn integer not null, tags text not null, flds text not null, sfld integer not null, csum integer not null, flags integer not null, data text not null)`,
+  cards: `CREATE TABLE cards (id integer primary key, nid integer not null, did integer not null, ord integer not null, mod integer not null, usn integer not null, type integer not null, queue integer not null, due integer not null, ivl integer not null, factor integer not null, reps integer not null, lapses integer not null, left integer not null, odue integer not null, odid integer not null, flags integer not null, data text not null)`,
+  revlog: `CREATE TABLE revlog (id integer primary key, cid integer not null, usn integer not null, ease integer not null, ivl integer not null, lastIvl integer not null, factor integer not null, time integer not null, type integer not null)`,
+  graves: `CREATE TABLE graves (usn integer not null, oid integer not null, type integer not null)`,
+};
+
+const CARD_CSS = `.card { font-family: arial; font-size: 20px; text-align: center; color: black; background-color: white; }
+.cloze { font-weight: bold; color: blue; }
+.nightMode .cloze { color: lightblue; }
+.extra { font-size: 16px; margin-top: 1em; }`;
+
+const escapeHTML = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/\n/g, '<br>');
+
+const stripHTML = (html: string) =>
+  html
+    .replace(/<[^>]+>/g, '')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&amp;/g, '&');
+
+// checksum of the first field Anki uses to find duplicates
+const getFieldChecksum = async (field: string) => {
+  const digest = await crypto.subtle.digest('SHA-1', new TextEncoder().encode(field));
+  return new DataView(digest).getUint32(0);
+};
+
+export const getAnkiNoteFields = (word: VocabularyWord) => {
+  const { before, answer, after } = getClozeParts(word);
+  const text = `${escapeHTML(before)}{{c1::${escapeHTML(answer)}}}${escapeHTML(after)}`;
+  const extra = [
+    word.lemma !== word.word.toLowerCase() ? `<b>${escapeHTML(word.lemma)}</b>` : '',
+    word.definition ? escapeHTML(word.definition) : '',
+    word.bookTitle ? `<i>${escapeHTML(word.bookTitle)}</i>` : '',
+  ].filter(Boolean);
+  return [text, extra.join('<br>')];
+};
+
+const createCollectionConfig = (deckName: string, now: number) => {
+  const mod = Math.floor(now / 1000);
+  const deck = (id: number, name: string) => ({
+    id,
+    name,
+    mod,
+    usn: -1,
+    lrnToday: [0, 0],
+    revToday: [0, 0],
+    newToday: [0, 0],
+    timeToday: [0, 0],
+    collapsed: false,
+    browserCollapsed: false,
+    desc: '',
+    dyn: 0,
+    conf: 1,
+    extendNew: 0,
+    extendRev: 0,
+  });
+  const field = (name: string, ord: number) => ({
+    name,
+    ord,
+    sticky: false,
+    rtl: false,
+    font: 'Arial',
+    size: 20,
+    media: [],
+  });
+  return {
+    conf: {
+      activeDecks: [1],
+      curDeck: 1,
+      newSpread: 0,
+      collapseTime: 1200,
+      timeLim: 0,
+      estTimes: true,
+      dueCounts: true,
+      curModel: null,
+      nextPos: 1,
+      sortType: 'noteFld',
+      sortBackwards: false,
+      addToCur: true,
+    },
+    models: {
+      [ANKI_MODEL_ID]: {
+        id: ANKI_MODEL_ID,
+        name: 'Readest Vocabulary Cloze',
+        type: 1,
+        mod,
+        usn: -1,
+        sortf: 0,
+        did: ANKI_DECK_ID,
+        tmpls: [
+          {
+            name: 'Cloze',
+            ord: 0,
+            qfmt: '{{cloze:Text}}',
+            afmt: '{{cloze:Text}}<div class="extra">{{Back Extra}}</div>',
+            bqfmt: '',
+            bafmt: '',
+            did: null,
+          },
+        ],
+        flds: [field('Text', 0), field('Back Extra', 1)],
+        css: CARD_CSS,
+        latexPre:
+          '\\documentclass[12pt]{article}\n\\special{papersize=3in,5in}\n\\usepackage{amssymb,amsmath}\n\\pagestyle{empty}\n\\setlength{\\parindent}{0in}\n\\begin{document}\n',
+        latexPost: '\\end{document}',
+        tags: [],
+        vers: [],
+      },
+    },
+    decks: {
+      1: deck(1, 'Default'),
+      [ANKI_DECK_ID]: deck(ANKI_DECK_ID, deckName),
+    },
+    dconf: {
+      1: {
+        id: 1,
+        name: 'Default',
+        mod: 0,
+        usn: 0,
+        maxTaken: 60,
+        autoplay: true,
+        timer: 0,
+        replayq: true,
+        dyn: false,
+        new: {
+          delays: [1, 10],
+          ints: [1, 4, 7],
+          initialFactor: 2500,
+          order: 1,
+          perDay: 20,
+          bury: true,
+          separate: true,
+        },
+        rev: {
+          perDay: 200,
+          ease4: 1.3,
+          fuzz: 0.05,
+          minSpace: 1,
+          ivlFct: 1,
+          maxIvl: 36500,
+          bury: true,
+          hardFactor: 1.2,
+        },
+        lapse: { delays: [10], mult: 0, minInt: 1, leechFails: 8, leechAction: 0 },
+      },
+    },
+  };
+};
+
+/**
+ * Creates the collection of an Anki package with a cloze note for every word. The
+ * cards are exported as new, Anki schedules them with its own settings.
+ */
+export const createAnkiCollection = async (
+  words: VocabularyWord[],
+  deckName: string,
+  now = Date.now(),
+) => {
+  const activeWords = words.filter((word) => !word.deletedAt);
+  const mod = Math.floor(now / 1000);
+  const config = createCollectionConfig(deckName, now);
+  const notes: SQLiteTable['rows'] = [];
+  const cards: SQLiteTable['rows'] = [];
+  for (const [i, word] of activeWords.entries()) {
+    const fields = getAnkiNoteFields(word);
+    const sortField = stripHTML(fields[0]!);
+    const noteId = now + i;
+    const tags = word.bookTitle ? ` readest ${word.bookTitle.replace(/\s+/g, '_')} ` : ' readest ';
+    notes.push([
+      noteId,
+      null,
+      word.id,
+      ANKI_MODEL_ID,
+      mod,
+      -1,
+      tags,
+      fields.join(FIELD_SEPARATOR),
+      sortField,
+      await getFieldChecksum(sortField),
+      0,
+      '',
+    ]);
+    cards.push([
+      noteId,
+      null,
+      noteId,
+      ANKI_DECK_ID,
+      0,
+      mod,
+      -1,
+      0,
+      0,
+      i + 1,
+      0,
+      0,
+      0,
+      0,
+      0,
+      0,
+      0,
+      0,
+      '',
+    ]);
+  }
+  const crt = Math.floor(new Date(now).setHours(0, 0, 0, 0) / 1000);
+  const tables: SQLiteTable[] = [
+    {
+      name: 'col',
+      sql: COLLECTION_SCHEMA['col']!,
+      rows: [
+        [
+          1,
+          null,
+          crt,
+          now,
+          now,
+          11,
+          0,
+          0,
+          0,
+          JSON.stringify(config.conf),
+          JSON.stringify(config.models),
+          JSON.stringify(config.decks),
+          JSON.stringify(config.dconf),
+          '{}',
+        ],
+      ],
+    },
+    { name: 'notes', sql: COLLECTION_SCHEMA['notes']!, rows: notes },
+    { name: 'cards', sql: COLLECTION_SCHEMA['cards']!, rows: cards },
+    { name: 'revlog', sql: COLLECTION_SCHEMA['revlog']!, rows: [] },
+    { name: 'graves', sql: COLLECTION_SCHEMA['graves']!, rows: [] },
+  ];
+  return createSQLiteDatabase(tables);
+};
+
+/**
+ * Creates an Anki package (.apkg), a zip of the collection and its media index.
+ */
+export const createAnkiPackage = async (
+  words: VocabularyWord[],
+  deckName: string,
+  now = Date.now(),
+) => {
+  const collection = await createAnkiCollection(words, deckName, now);
+  await configureZip();
+  const { BlobWriter, TextReader, Uint8ArrayReader, ZipWriter } = await import('@zip.js/zip.js');
+  const zipWriter = new ZipWriter(new BlobWriter('application/octet-stream'));
+  await zipWriter.add('collection.anki2', new Uint8ArrayReader(collection));
+  await zipWriter.add('media', new TextReader('{}'));
+  return await zipWriter.close();
+};
@@ -0,0 +1,23 @@
+export const LIBARCHIVE_WORKER_URL = '/vendor/libarchive/worker-bundle.js';
+
+export const configureArchive = async () => {
+  const { Archive } = await import('libarchive.js');
+  Archive.init({ workerUrl: LIBARCHIVE_WORKER_URL });
+  return Archive;
+};
+
+const RAR_SIGNATURE = [0x52, 0x61, 0x72, 0x21, 0x1a, 0x07];
+const SEVEN_ZIP_SIGNATURE = [0x37, 0x7a, 0xbc, 0xaf, 0x27, 0x1c];
+// DjVu files start with "AT&TFORM"
+const DJVU_SIGNATURE = [0x41, 0x54, 0x26, 0x54, 0x46, 0x4f, 0x52, 0x4d];
+
+const hasSignature = async (file: Blob, signature: number[]) => {
+  const arr = new Uint8Array(await file.slice(0, signature.length).arrayBuffer());
+  return signature.every((byte, i) => arr[i] === byte);
+};
+
+export const isRARFile = (file: Blob) => hasSignature(file, RAR_SIGNATURE);
+
+export const is7zFile = (file: Blob) => hasSignature(file, SEVEN_ZIP_SIGNATURE);
+
+export const isDjVuFile = (file: Blob) => hasSignature(file, DJVU_SIGNATURE);
@@ -0,0 +1,465 @@
+export type AudiobookFormat = 'm4b' | 'mp3-chapters';
+
+export interface AudiobookChapter {
+  title: string;
+  // section range [startSection, endSection)
+  startSection: number;
+  endSection: number;
+}
+
+export const MAX_SPEECH_SEGMENT_LENGTH = 2000;
+
+/**
+ * Splits the book into chapters at the top level TOC entries. Sections before
+ * the first entry belong to the first chapter. Without a TOC each linear
+ * section becomes a chapter.
+ */
+export const buildAudiobookChapters = (
+  tocEntries: { title: string; sectionIndex: number }[],
+  sections: { linear?: string }[],
+): AudiobookChapter[] => {
+  const starts = tocEntries
+    .filter((entry) => entry.sectionIndex >= 0 && entry.sectionIndex < sections.length)
+    .sort((a, b) => a.sectionIndex - b.sectionIndex)
+    .filter((entry, i, entries) => i === 0 || entry.sectionIndex !== entries[i - 1]!.sectionIndex);
+
+  if (starts.length === 0) {
+    return sections
+      .map((section, i) => ({ section, i }))
+      .filter(({ section }) => section.linear !== 'no')
+      .map(({ i }, n) => ({ title: `${n + 1}`, startSection: i, endSection: i + 1 }));
+  }
+  return starts.map((entry, i) => ({
+    title: entry.title.trim(),
+    startSection: i === 0 ? 0 : entry.sectionIndex,
+    endSection: starts[i + 1]?.sectionIndex ?? sections.length,
+  }));
+};
+
+const EXCLUDED_SELECTOR = 'script, style, noscript, rt, rp';
+const BLOCK_SELECTOR = 'p, div, li, h1, h2, h3, h4, h5, h6, blockquote, pre, tr, dt, dd, br';
+
+// text of the section with line breaks after block elements so headings are read on their own
+export const extractSpeechText = (doc: Document) => {
+  const body = doc.body || doc.documentElement;
+  if (!body) return '';
+  const clone = body.cloneNode(true) as HTMLElement;
+  clone.querySelectorAll(EXCLUDED_SELECTOR).forEach((el) => el.remove());
+  clone.querySelectorAll(BLOCK_SELECTOR).forEach((el) => el.after(doc.createTextNode('\n')));
+  return clone.textContent?.trim() || '';
+};
+
+const SENTENCE_REGEX = /[^.!?。！？]+[.!?。！？]*["'”’»)]*|[.!?。！？]+/g;
+
+// splits text into segments short enough for one speech request, breaking at sentence ends
+export const splitTextForSpeech = (text: string, maxLength = MAX_SPEECH_SEGMENT_LENGTH) => {
+  const sentences = text
+    .split(/\n+/)
+    .flatMap((line) => line.replace(/\s+/g, ' ').match(SENTENCE_REGEX) ?? [])
+    .map((sentence) => sentence.trim())
+    .filter(Boolean);
+
+  const segments: string[] = [];
+  let current = '';
+  const append = (text: string) => {
+    if (current && current.length + text.length + 1 > maxLength) {
+      segments.push(current);
+      current = '';
+    }
+    current = current ? `${current} ${text}` : text;
+  };
+  for (const sentence of sentences) {
+    if (sentence.length > maxLength) {
+      // very long sentences are broken at word boundaries
+      sentence.split(' ').forEach(append);
+    } else {
+      append(sentence);
+    }
+  }
+  if (current) segments.push(current);
+  return segments;
+};
+
+const encodeUTF16 = (text: string) => {
+  // BOM followed by UTF-16LE, terminated with a double null
+  const bytes = new Uint8Array(2 + text.length * 2 + 2);
+  bytes[0] = 0xff;
+  bytes[1] = 0xfe;
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    bytes[2 + i * 2] = code & 0xff;
+    bytes[3 + i * 2] = code >> 8;
+  }
+  return bytes;
+};
+
+const encodeLatin1 = (text: string) =>
+  Uint8Array.from(
+    [...text].map((c) => c.charCodeAt(0)),
+    (c) => c & 0xff,
+  );
+
+const concatBytes = (parts: Uint8Array[]) => {
+  const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+};
+
+const uint32 = (value: number) =>
+  Uint8Array.of((value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff);
+
+const id3Frame = (id: string, body: Uint8Array) => {
+  return concatBytes([encodeLatin1(id), uint32(body.length), Uint8Array.of(0, 0), body]);
+};
+
+const textFrame = (id: string, text: string) => {
+  return id3Frame(id, concatBytes([Uint8Array.of(1), encodeUTF16(text)]));
+};
+
+const synchsafe = (value: number) =>
+  Uint8Array.of((value >> 21) & 0x7f, (value >> 14) & 0x7f, (value >> 7) & 0x7f, value & 0x7f);
+
+export interface AudiobookTagInfo {
+  title: string;
+  album?: string;
+  artist?: string;
+  track?: number;
+}
+
+// ID3v2.3 tag with the title and track frames of a single chapter MP3
+export const buildID3Tag = (info: AudiobookTagInfo) => {
+  const frames: Uint8Array[] = [textFrame('TIT2', info.title)];
+  if (info.album) frames.push(textFrame('TALB', info.album));
+  if (info.artist) frames.push(textFrame('TPE1', info.artist));
+  if (info.track) frames.push(textFrame('TRCK', `${info.track}`));
+  const body = concatBytes(frames);
+  return concatBytes([encodeLatin1('ID3'), Uint8Array.of(3, 0, 0), synchsafe(body.length), body]);
+};
+
+export const concatAudio = (parts: Uint8Array[]) => concatBytes(parts);
+
+export interface MP3Frames {
+  sampleRate: number;
+  samplesPerFrame: number;
+  channels: number;
+  mpegVersion: 1 | 2;
+  bitrate: number;
+  frames: Uint8Array[];
+}
+
+// Layer III bitrates in kbps by bitrate index
+const MP3_BITRATES = {
+  1: [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320],
+  2: [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+};
+// sample rates by the version bits of the frame header, 2.5 is an extension of MPEG-2
+const MP3_SAMPLE_RATES: Record<number, number[]> = {
+  3: [44100, 48000, 32000],
+  2: [22050, 24000, 16000],
+  0: [11025, 12000, 8000],
+};
+
+const parseMP3FrameHeader = (bytes: Uint8Array, offset: number) => {
+  if (offset + 4 > bytes.length) return null;
+  const b1 = bytes[offset + 1]!;
+  const b2 = bytes[offset + 2]!;
+  const b3 = bytes[offset + 3]!;
+  if (bytes[offset] !== 0xff || (b1 & 0xe0) !== 0xe0) return null;
+  const versionBits = (b1 >> 3) & 0x03;
+  const layerBits = (b1 >> 1) & 0x03;
+  const bitrateIndex = b2 >> 4;
+  const sampleRateIndex = (b2 >> 2) & 0x03;
+  // Layer III only, as served by Edge TTS
+  if (versionBits === 1 || layerBits !== 1) return null;
+  if (bitrateIndex === 0 || bitrateIndex === 15 || sampleRateIndex === 3) return null;
+  const mpegVersion = versionBits === 3 ? 1 : 2;
+  const bitrate = MP3_BITRATES[mpegVersion][bitrateIndex]! * 1000;
+  const sampleRate = MP3_SAMPLE_RATES[versionBits]![sampleRateIndex]!;
+  const samplesPerFrame = mpegVersion === 1 ? 1152 : 576;
+  const padding = (b2 >> 1) & 0x01;
+  const size = Math.floor((samplesPerFrame / 8) * (bitrate / sampleRate)) + padding;
+  const channels = b3 >> 6 === 3 ? 1 : 2;
+  return { mpegVersion, bitrate, sampleRate, samplesPerFrame, channels, size } as const;
+};
+
+/**
+ * Splits MP3 audio into its frames, skipping ID3 tags, Xing/Info headers and
+ * anything between frames.
+ */
+export const parseMP3Frames = (audio: Uint8Array): MP3Frames | null => {
+  let offset = 0;
+  if (String.fromCharCode(...audio.subarray(0, 3)) === 'ID3' && audio.length >= 10) {
+    offset = 10 + ((audio[6]! << 21) | (audio[7]! << 14) | (audio[8]! << 7) | audio[9]!);
+  }
+  let result: MP3Frames | null = null;
+  while (offset < audio.length) {
+    const header = parseMP3FrameHeader(audio, offset);
+    if (!header || offset + header.size > audio.length) {
+      offset++;
+      continue;
+    }
+    const frame = audio.subarray(offset, offset + header.size);
+    offset += header.size;
+    const marker = String.fromCharCode(...frame.subarray(4, 40));
+    if (!result && (marker.includes('Xing') || marker.includes('Info'))) continue;
+    if (!result) {
+      const { mpegVersion, bitrate, sampleRate, samplesPerFrame, channels } = header;
+      result = { mpegVersion, bitrate, sampleRate, samplesPerFrame, channels, frames: [] };
+    } else if (header.sampleRate !== result.sampleRate) {
+      continue;
+    }
+    result.frames.push(frame);
+  }
+  return result;
+};
+
+const uint16 = (value: number) => Uint8Array.of((value >> 8) & 0xff, value & 0xff);
+
+const encodeUTF8 = (text: string) => new TextEncoder().encode(text);
+
+const box = (type: string, ...children: Uint8Array[]) => {
+  const size = children.reduce((sum, child) => sum + child.length, 8);
+  return concatBytes([uint32(size), encodeLatin1(type), ...children]);
+};
+
+const fullBox = (type: string, version: number, flags: number, ...children: Uint8Array[]) => {
+  return box(type, uint32(((version & 0xff) << 24) | (flags & 0xffffff)), ...children);
+};
+
+const uint32Table = (values: number[]) => {
+  const table = new Uint8Array(values.length * 4);
+  const view = new DataView(table.buffer);
+  values.forEach((value, i) => view.setUint32(i * 4, value));
+  return table;
+};
+
+const UNITY_MATRIX = uint32Table([0x10000, 0, 0, 0, 0x10000, 0, 0, 0, 0x40000000]);
+// "und" packed as three 5 bit letters
+const UNDETERMINED_LANGUAGE = 0x55c4;
+
+const mediaHeader = (timescale: number, duration: number) =>
+  fullBox(
+    'mdhd',
+    0,
+    0,
+    uint32Table([0, 0, timescale, duration]),
+    uint16(UNDETERMINED_LANGUAGE),
+    uint16(0),
+  );
+
+const trackHeader = (trackId: number, flags: number, duration: number, volume: number) =>
+  fullBox(
+    'tkhd',
+    0,
+    flags,
+    uint32Table([0, 0, trackId, 0, duration, 0, 0]),
+    uint16(0),
+    uint16(0),
+    uint16(volume),
+    uint16(0),
+    UNITY_MATRIX,
+    uint32Table([0, 0]),
+  );
+
+const handler = (type: string, name: string, manufacturer = '\0\0\0\0') =>
+  fullBox(
+    'hdlr',
+    0,
+    0,
+    uint32(0),
+    encodeLatin1(type),
+    encodeLatin1(manufacturer),
+    new Uint8Array(8),
+    encodeLatin1(`${name}\0`),
+  );
+
+const dataInformation = () => box('dinf', fullBox('dref', 0, 0, uint32(1), fullBox('url ', 0, 1)));
+
+const sampleTable = (
+  sampleEntry: Uint8Array,
+  durations: [count: number, delta: number][],
+  sizes: number[],
+  chunks: { offset: number; samples: number }[],
+) =>
+  box(
+    'stbl',
+    fullBox('stsd', 0, 0, uint32(1), sampleEntry),
+    fullBox('stts', 0, 0, uint32(durations.length), uint32Table(durations.flat())),
+    fullBox(
+      'stsc',
+      0,
+      0,
+      uint32(chunks.length),
+      uint32Table(chunks.flatMap(({ samples }, i) => [i + 1, samples, 1])),
+    ),
+    fullBox('stsz', 0, 0, uint32(0), uint32(sizes.length), uint32Table(sizes)),
+    fullBox('stco', 0, 0, uint32(chunks.length), uint32Table(chunks.map(({ offset }) => offset))),
+  );
+
+const descriptor = (tag: number, ...children: Uint8Array[]) => {
+  const body = concatBytes(children);
+  return concatBytes([Uint8Array.of(tag, body.length), body]);
+};
+
+const mp3SampleEntry = ({ sampleRate, channels, mpegVersion, bitrate }: MP3Frames) =>
+  box(
+    'mp4a',
+    new Uint8Array(6),
+    uint16(1),
+    new Uint8Array(8),
+    uint16(channels),
+    uint16(16),
+    new Uint8Array(4),
+    uint32(sampleRate * 0x10000),
+    fullBox(
+      'esds',
+      0,
+      0,
+      descriptor(
+        0x03,
+        uint16(0),
+        Uint8Array.of(0),
+        descriptor(
+          0x04,
+          // MPEG-1 or MPEG-2 audio object type, audio stream type
+          Uint8Array.of(mpegVersion === 1 ? 0x6b : 0x69, 0x15, 0, 0, 0),
+          uint32Table([bitrate, bitrate]),
+        ),
+        descriptor(0x06, Uint8Array.of(0x02)),
+      ),
+    ),
+  );
+
+// QuickTime text sample description, players need the justification to show chapters
+const CHAPTER_TEXT_PROPERTIES = Uint8Array.from({ length: 43 }, (_, i) => (i === 7 ? 1 : 0));
+
+const chapterSampleEntry = () => box('text', new Uint8Array(6), uint16(1), CHAPTER_TEXT_PROPERTIES);
+
+const chapterSample = (title: string) => {
+  const text = encodeUTF8(title);
+  // the encd atom marks the text as UTF-8
+  return concatBytes([uint16(text.length), text, box('encd', uint32(0x100))]);
+};
+
+const metadataItem = (type: string, text: string) =>
+  box(type, box('data', uint32(1), uint32(0), encodeUTF8(text)));
+
+const userData = (info: AudiobookTagInfo) => {
+  const items = [metadataItem('\u00a9nam', info.title)];
+  if (info.album) items.push(metadataItem('\u00a9alb', info.album));
+  if (info.artist) items.push(metadataItem('\u00a9ART', info.artist));
+  return box('udta', fullBox('meta', 0, 0, handler('mdir', '', 'appl'), box('ilst', ...items)));
+};
+
+/**
+ * Muxes MP3 chapters into an M4B audiobook: the MP3 frames are stored as they
+ * are in an MP4 audio track, and a QuickTime text track referenced by the
+ * audio track holds the chapter titles so players can navigate chapters.
+ */
+export const buildM4B = (
+  info: AudiobookTagInfo,
+  chapters: { title: string; audio: Uint8Array }[],
+) => {
+  const parsed = chapters
+    .map(({ title, audio }) => ({ title, mp3: parseMP3Frames(audio) }))
+    .filter(({ mp3 }) => mp3 && mp3.frames.length > 0) as { title: string; mp3: MP3Frames }[];
+  if (parsed.length === 0) throw new Error('No audio to export');
+  const format = parsed[0]!.mp3;
+  if (parsed.some(({ mp3 }) => mp3.sampleRate !== format.sampleRate)) {
+    throw new Error('Chapters have different sample rates');
+  }
+  const { sampleRate, samplesPerFrame } = format;
+  const frames = parsed.flatMap(({ mp3 }) => mp3.frames);
+  const chapterSamples = parsed.map(({ title }) => chapterSample(title));
+  const chapterDurations = parsed.map(
+    ({ mp3 }) => [1, mp3.frames.length * samplesPerFrame] as [number, number],
+  );
+  const duration = frames.length * samplesPerFrame;
+  const durationMs = Math.round((duration * 1000) / sampleRate);
+
+  // each chapter title is followed by the audio of the chapter as a chunk of its own,
+  // players find where a chapter starts from the audio chunks that come before its title
+  const audioChunks: { offset: number; samples: number }[] = [];
+  const titleChunks: { offset: number; samples: number }[] = [];
+  let mdatSize = 8;
+  parsed.forEach(({ mp3 }, i) => {
+    titleChunks.push({ offset: mdatSize, samples: 1 });
+    mdatSize += chapterSamples[i]!.length;
+    audioChunks.push({ offset: mdatSize, samples: mp3.frames.length });
+    mdatSize += mp3.frames.reduce((sum, frame) => sum + frame.length, 0);
+  });
+
+  const buildMovie = (mdatOffset: number) => {
+    const withOffset = (chunks: { offset: number; samples: number }[]) =>
+      chunks.map(({ offset, samples }) => ({ offset: mdatOffset + offset, samples }));
+    const audioTrack = box(
+      'trak',
+      trackHeader(1, 0x3, durationMs, 0x100),
+      box('tref', box('chap', uint32(2))),
+      box(
+        'mdia',
+        mediaHeader(sampleRate, duration),
+        handler('soun', 'SoundHandler'),
+        box(
+          'minf',
+          fullBox('smhd', 0, 0, uint16(0), uint16(0)),
+          dataInformation(),
+          sampleTable(
+            mp3SampleEntry(format),
+            [[frames.length, samplesPerFrame]],
+            frames.map((frame) => frame.length),
+            withOffset(audioChunks),
+          ),
+        ),
+      ),
+    );
+    // chapter tracks are disabled so they are not shown as subtitles
+    const chapterTrack = box(
+      'trak',
+      trackHeader(2, 0, durationMs, 0),
+      box(
+        'mdia',
+        mediaHeader(sampleRate, duration),
+        handler('text', 'ChapterHandler'),
+        box(
+          'minf',
+          fullBox('nmhd', 0, 0),
+          dataInformation(),
+          sampleTable(
+            chapterSampleEntry(),
+            chapterDurations,
+            chapterSamples.map((sample) => sample.length),
+            withOffset(titleChunks),
+          ),
+        ),
+      ),
+    );
+    const movieHeader = fullBox(
+      'mvhd',
+      0,
+      0,
+      uint32Table([0, 0, 1000, durationMs, 0x10000]),
+      uint16(0x100),
+      new Uint8Array(10),
+      UNITY_MATRIX,
+      new Uint8Array(24),
+      uint32(3),
+    );
+    return box('moov', movieHeader, audioTrack, chapterTrack, userData(info));
+  };
+
+  const fileType = box('ftyp', encodeLatin1('M4B '), uint32(0), encodeLatin1('M4B M4A mp42isom'));
+  // the movie box goes first so players can start without reading the whole file
+  const movie = buildMovie(fileType.length + buildMovie(0).length);
+  return concatBytes([
+    fileType,
+    movie,
+    uint32(mdatSize),
+    encodeLatin1('mdat'),
+    ...parsed.flatMap(({ mp3 }, i) => [chapterSamples[i]!, ...mp3.frames]),
+  ]);
+};
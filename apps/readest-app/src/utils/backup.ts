@@ -0,0 +1,232 @@
+import { Book, BookConfig, BookNote } from '@/types/book';
+import { KOSyncSettings, ReadwiseSettings, SystemSettings } from '@/types/settings';
+import { mergeBookConfigs } from './merge';
+
+export const LIBRARY_BACKUP_FORMAT = 'readest-library-backup';
+export const LIBRARY_BACKUP_VERSION = 1;
+
+export const BACKUP_MANIFEST_FILENAME = 'manifest.json';
+export const BACKUP_LIBRARY_FILENAME = 'library.json';
+export const BACKUP_SETTINGS_FILENAME = 'settings.json';
+export const BACKUP_BOOKS_DIR = 'books';
+export const BACKUP_FONTS_DIR = 'fonts';
+export const BACKUP_IMAGES_DIR = 'images';
+
+export interface LibraryBackupManifest {
+  format: typeof LIBRARY_BACKUP_FORMAT;
+  version: number;
+  createdAt: number;
+  bookCount: number;
+  includesBookFiles: boolean;
+}
+
+export interface LibraryBackupOptions {
+  includeBookFiles?: boolean;
+}
+
+export interface LibraryRestoreResult {
+  books: Book[];
+  settings: SystemSettings;
+  added: number;
+  updated: number;
+  skipped: number;
+}
+
+// Settings that only make sense on the device that wrote them are never backed up
+const DEVICE_SETTINGS_KEYS: (keyof SystemSettings)[] = [
+  'version',
+  'localBooksDir',
+  'customRootDir',
+  'lastOpenBooks',
+  'lastSyncedAtBooks',
+  'lastSyncedAtConfigs',
+  'lastSyncedAtNotes',
+  'lastSyncedAtSessions',
+  'lastSyncedAtVocabulary',
+  'migrationVersion',
+  'savedBookCoverForLockScreenPath',
+  'watchFolders',
+  'dictionaries',
+];
+
+// The archive is a plain zip, so passwords, tokens and API keys are left out of it
+// and the ones of the local settings are kept on restore
+const KOSYNC_SECRET_KEYS = ['userkey'] as const;
+const READWISE_SECRET_KEYS = ['accessToken'] as const;
+const AI_SECRET_KEYS = ['aiGatewayApiKey', 'openaiCompatibleApiKey'] as const;
+
+const omitKeys = <T extends object, K extends keyof T>(obj: T, keys: readonly K[]) => {
+  const result = { ...obj };
+  for (const key of keys) {
+    delete result[key];
+  }
+  return result;
+};
+
+const pickKeys = <T extends object, K extends keyof T>(obj: T | undefined, keys: readonly K[]) => {
+  const result = {} as Pick<T, K>;
+  for (const key of keys) {
+    if (obj?.[key] !== undefined) result[key] = obj[key];
+  }
+  return result;
+};
+
+const withoutCredentials = <T extends { username?: string; password?: string }>(item: T) =>
+  omitKeys(item, ['username', 'password']);
+
+export const getBackupBookDir = (hash: string) => `${BACKUP_BOOKS_DIR}/${hash}`;
+
+export const createBackupManifest = (
+  bookCount: number,
+  includesBookFiles: boolean,
+): LibraryBackupManifest => ({
+  format: LIBRARY_BACKUP_FORMAT,
+  version: LIBRARY_BACKUP_VERSION,
+  createdAt: Date.now(),
+  bookCount,
+  includesBookFiles,
+});
+
+export const validateBackupManifest = (data: unknown): LibraryBackupManifest => {
+  const manifest = data as Partial<LibraryBackupManifest> | null;
+  if (!manifest || typeof manifest !== 'object' || manifest.format !== LIBRARY_BACKUP_FORMAT) {
+    throw new Error('Not a Readest library backup');
+  }
+  if (typeof manifest.version !== 'number' || manifest.version > LIBRARY_BACKUP_VERSION) {
+    throw new Error(`Unsupported library backup version: ${manifest.version}`);
+  }
+  return manifest as LibraryBackupManifest;
+};
+
+export const validateBackupLibrary = (data: unknown): Book[] => {
+  if (!Array.isArray(data)) {
+    throw new Error('Invalid library in backup');
+  }
+  return data.filter(
+    (book): book is Book =>
+      !!book &&
+      typeof book === 'object' &&
+      typeof book.hash === 'string' &&
+      /^[\w-]+$/.test(book.hash) &&
+      typeof book.format === 'string' &&
+      typeof book.title === 'string',
+  );
+};
+
+export const sanitizeBackupSettings = (settings: SystemSettings): Partial<SystemSettings> => {
+  const sanitized: Partial<SystemSettings> = omitKeys(settings, DEVICE_SETTINGS_KEYS);
+  if (settings.kosync) {
+    sanitized.kosync = {
+      ...omitKeys(settings.kosync, KOSYNC_SECRET_KEYS),
+      deviceId: '',
+    } as KOSyncSettings;
+  }
+  if (settings.readwise) {
+    sanitized.readwise = omitKeys(settings.readwise, READWISE_SECRET_KEYS) as ReadwiseSettings;
+  }
+  if (settings.aiSettings) {
+    sanitized.aiSettings = omitKeys(settings.aiSettings, AI_SECRET_KEYS);
+  }
+  sanitized.opdsCatalogs = settings.opdsCatalogs?.map(withoutCredentials);
+  sanitized.calibreSources = settings.calibreSources?.map(withoutCredentials);
+  return sanitized;
+};
+
+/**
+ * Finds the local copy of a book from a backup, first by the file hash
+ * and then by the metadata hash for other editions of the same book.
+ */
+export const findLocalBook = (books: Book[], backupBook: Book) =>
+  books.find((book) => book.hash === backupBook.hash) ||
+  (backupBook.metaHash
+    ? books.find((book) => !book.deletedAt && book.metaHash === backupBook.metaHash)
+    : undefined);
+
+export const mergeBackupBook = (local: Book, backup: Book): Book => {
+  if ((backup.updatedAt ?? 0) <= (local.updatedAt ?? 0)) return local;
+  // The file related fields always describe the local copy of the book
+  const { hash, url, filePath, downloadedAt, coverDownloadedAt, uploadedAt, coverImageUrl } = local;
+  return {
+    ...local,
+    ...backup,
+    hash,
+    url,
+    filePath,
+    downloadedAt,
+    coverDownloadedAt,
+    uploadedAt,
+    coverImageUrl,
+  };
+};
+
+export const mergeBookNotes = (local: BookNote[] = [], backup: BookNote[] = []): BookNote[] => {
+  const notes = new Map(local.map((note) => [note.id, note]));
+  for (const note of backup) {
+    const existing = notes.get(note.id);
+    if (
+      !existing ||
+      existing.updatedAt < note.updatedAt ||
+      (existing.deletedAt ?? 0) < (note.deletedAt ?? 0)
+    ) {
+      notes.set(note.id, existing ? { ...existing, ...note } : note);
+    }
+  }
+  return Array.from(notes.values());
+};
+
+export const mergeBackupConfig = (local: BookConfig | null, backup: BookConfig): BookConfig => {
+  if (!local) return backup;
+  return {
+    ...mergeBookConfigs(local, backup),
+    booknotes: mergeBookNotes(local.booknotes, backup.booknotes),
+  };
+};
+
+const mergeById = <T extends { id: string }>(local: T[] = [], backup: T[] = []) => [
+  ...local,
+  ...backup.filter((item) => !local.some((localItem) => localItem.id === item.id)),
+];
+
+/**
+ * Applies the backed up preferences, reading and view settings over the local ones.
+ * The device specific settings and the local credentials are kept, and the custom
+ * fonts, textures, catalogs, Calibre sources and smart shelves missing locally are added.
+ */
+export const mergeBackupSettings = (
+  local: SystemSettings,
+  backup: Partial<SystemSettings>,
+): SystemSettings => {
+  const preferences = omitKeys(backup, DEVICE_SETTINGS_KEYS);
+  return {
+    ...local,
+    ...preferences,
+    kosync: {
+      ...local.kosync,
+      ...backup.kosync,
+      ...pickKeys(local.kosync, [...KOSYNC_SECRET_KEYS, 'deviceId']),
+    },
+    readwise: {
+      ...local.readwise,
+      ...backup.readwise,
+      ...pickKeys(local.readwise, READWISE_SECRET_KEYS),
+    },
+    aiSettings: {
+      ...local.aiSettings,
+      ...backup.aiSettings,
+      ...pickKeys(local.aiSettings, AI_SECRET_KEYS),
+    },
+    globalReadSettings: { ...local.globalReadSettings, ...backup.globalReadSettings },
+    globalViewSettings: { ...local.globalViewSettings, ...backup.globalViewSettings },
+    customFonts: mergeById(
+      local.customFonts,
+      backup.customFonts?.filter((font) => !font.deletedAt),
+    ),
+    customTextures: mergeById(
+      local.customTextures,
+      backup.customTextures?.filter((texture) => !texture.deletedAt),
+    ),
+    opdsCatalogs: mergeById(local.opdsCatalogs, backup.opdsCatalogs),
+    calibreSources: mergeById(local.calibreSources, backup.calibreSources),
+    smartShelves: mergeById(local.smartShelves, backup.smartShelves),
+  };
+};
@@ -13,9 +13,18 @@ export const getDir = (book: Book) => {
 export const getLibraryFilename = () => {
   return 'library.json';
 };
+export const getReadingSessionsFilename = () => {
+  return 'sessions.json';
+};
+export const getVocabularyFilename = () => {
+  return 'vocabulary.json';
+};
 export const getLibraryBackupFilename = () => {
   return 'library_backup.json';
 };
+export const getLibraryArchiveFilename = (date = new Date()) => {
+  return `readest-backup-${date.toISOString().slice(0, 10)}.zip`;
+};
 export const getRemoteBookFilename = (book: Book) => {
   // S3 storage: https://docs.aws.amazon.com/zh_cn/AmazonS3/latest/userguide/object-keys.html
   if (getStorageType() === 'r2') {
@@ -35,6 +44,9 @@ export const getCoverFilename = (book: Book) => {
 export const getConfigFilename = (book: Book) => {
   return `${book.hash}/config.json`;
 };
+export const getFullTextIndexFilename = (book: Book) => {
+  return `${book.hash}/fulltext.json`;
+};
 export const isBookFile = (filename: string) => {
   return Object.values(EXTS).includes(filename.split('.').pop()!);
 };
@@ -92,3 +92,24 @@ function longestCommonSubsequence(arr1: string[], arr2: string[]) {
 
   return lcs;
 }
+
+/**
+ * Returns the Levenshtein distance of two strings, or max + 1 as soon as the
+ * distance is known to exceed max.
+ */
+export const getEditDistance = (a: string, b: string, max = Infinity) => {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j]! + 1, current[j - 1]! + 1, previous[j - 1]! + cost);
+      rowMin = Math.min(rowMin, current[j]!);
+    }
+    if (rowMin > max) return max + 1;
+    previous = current;
+  }
+  return Math.min(previous[b.length]!, max + 1);
+};
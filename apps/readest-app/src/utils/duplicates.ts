@@ -0,0 +1,229 @@
+import { Book, BookConfig, ReadingStatus } from '@/types/book';
+import type { BookMetadata } from '@/libs/document';
+import type { Identifier } from '@/utils/book';
+import { mergeBookNotes } from './backup';
+import { getEditDistance } from './diff';
+import { validateISBN } from './validation';
+
+export type DuplicateReason = 'metaHash' | 'isbn' | 'title';
+
+export interface DuplicateCluster {
+  id: string;
+  books: Book[];
+  reasons: DuplicateReason[];
+}
+
+// Titles of the same author at least this similar are considered the same book
+const TITLE_SIMILARITY_THRESHOLD = 0.9;
+
+const READING_STATUS_RANK: Record<ReadingStatus, number> = {
+  unread: 0,
+  reading: 1,
+  finished: 2,
+};
+
+const stripDiacritics = (text: string) => text.normalize('NFKD').replace(/\p{M}/gu, '');
+
+const toISBN13 = (isbn: string) => {
+  if (isbn.length === 13) return isbn;
+  const digits = `978${isbn.slice(0, 9)}`;
+  const sum = [...digits].reduce((acc, d, i) => acc + Number(d) * (i % 2 === 0 ? 1 : 3), 0);
+  return `${digits}${(10 - (sum % 10)) % 10}`;
+};
+
+/**
+ * Extracts the valid ISBNs of a book as ISBN-13 so that
+ * the ISBN-10 and ISBN-13 of the same edition match.
+ */
+export const getBookISBNs = (metadata?: BookMetadata): string[] => {
+  if (!metadata) return [];
+  const identifiers = [metadata.identifier, metadata.altIdentifier]
+    .flat()
+    .filter((id): id is string | Identifier => !!id)
+    .map((id) => (typeof id === 'string' ? id : id.value));
+  const isbns = identifiers
+    .map((id) => id.replace(/^(urn:)?isbn:/i, '').toUpperCase())
+    .filter((id) => /^[\d\s-]+X?$/.test(id))
+    .map((id) => validateISBN(id).value)
+    .filter((isbn): isbn is string => !!isbn)
+    .map(toISBN13);
+  return Array.from(new Set(isbns));
+};
+
+export const normalizeTitle = (title: string) =>
+  stripDiacritics(title.toLowerCase())
+    // drop the subtitle and any bracketed edition notes
+    .replace(/\s*[:(\[].*$/, '')
+    .replace(/\s+-\s+.*$/, '')
+    .replace(/[^\p{L}\p{N}\s]/gu, '')
+    .replace(/^(the|a|an)\s+/, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+/**
+ * Uses the surname of the first author which is the most stable part
+ * between "Tolkien, J. R. R." and "J.R.R. Tolkien".
+ */
+export const normalizeAuthor = (author: string) => {
+  const first = author.split(/\s*(?:&|;|\band\b)\s*/i)[0] ?? '';
+  const surname = first.includes(',') ? first.split(',')[0]! : first.trim().split(/\s+/).pop()!;
+  return stripDiacritics(surname.toLowerCase())
+    .replace(/[^\p{L}\p{N}]/gu, '')
+    .trim();
+};
+
+export const getTitleSimilarity = (a: string, b: string) => {
+  if (a === b) return 1;
+  const maxLength = Math.max(a.length, b.length);
+  return maxLength === 0 ? 1 : 1 - getEditDistance(a, b) / maxLength;
+};
+
+const getProgressFraction = (progress?: [number, number]) => {
+  const [current, total] = progress ?? [0, 0];
+  return total > 0 ? current / total : 0;
+};
+
+/**
+ * Orders the copies of a book so that the suggested primary copy comes first:
+ * a copy with its file on this device, then the furthest read, then the most recently updated.
+ */
+export const sortByPrimaryPreference = (books: Book[]) =>
+  [...books].sort(
+    (a, b) =>
+      Number(!!b.downloadedAt) - Number(!!a.downloadedAt) ||
+      getProgressFraction(b.progress) - getProgressFraction(a.progress) ||
+      b.updatedAt - a.updatedAt,
+  );
+
+/**
+ * Clusters the books of the library that are likely the same book by their metadata hash,
+ * ISBN or a fuzzy match of the title by the same author.
+ * Deleted books are ignored.
+ */
+export const findDuplicateClusters = (library: Book[]): DuplicateCluster[] => {
+  const books = library.filter((book) => !book.deletedAt);
+  const parents = books.map((_, i) => i);
+  const find = (i: number): number => {
+    while (parents[i] !== i) {
+      parents[i] = parents[parents[i]!]!;
+      i = parents[i]!;
+    }
+    return i;
+  };
+  const edges: [number, number, DuplicateReason][] = [];
+  const link = (i: number, j: number, reason: DuplicateReason) => {
+    edges.push([i, j, reason]);
+    parents[find(i)] = find(j);
+  };
+
+  const linkByKey = (reason: DuplicateReason, getKeys: (book: Book) => string[]) => {
+    const seen = new Map<string, number>();
+    books.forEach((book, i) => {
+      for (const key of getKeys(book)) {
+        const j = seen.get(key);
+        if (j === undefined) seen.set(key, i);
+        else link(i, j, reason);
+      }
+    });
+  };
+
+  linkByKey('metaHash', (book) => (book.metaHash ? [book.metaHash] : []));
+  linkByKey('isbn', (book) => getBookISBNs(book.metadata));
+
+  const byAuthor = new Map<string, { index: number; title: string }[]>();
+  books.forEach((book, index) => {
+    const title = normalizeTitle(book.title);
+    if (!title) return;
+    const author = normalizeAuthor(book.author);
+    const candidates = byAuthor.get(author) ?? [];
+    for (const candidate of candidates) {
+      // books without an author only match on the exact title
+      const threshold = author ? TITLE_SIMILARITY_THRESHOLD : 1;
+      if (getTitleSimilarity(title, candidate.title) >= threshold) {
+        link(index, candidate.index, 'title');
+        break;
+      }
+    }
+    byAuthor.set(author, [...candidates, { index, title }]);
+  });
+
+  const clusters = new Map<number, DuplicateCluster>();
+  for (const [i, , reason] of edges) {
+    const root = find(i);
+    let cluster = clusters.get(root);
+    if (!cluster) {
+      cluster = { id: '', books: [], reasons: [] };
+      clusters.set(root, cluster);
+    }
+    if (!cluster.reasons.includes(reason)) cluster.reasons.push(reason);
+  }
+  books.forEach((book, i) => clusters.get(find(i))?.books.push(book));
+  return Array.from(clusters.values()).map((cluster) => {
+    const sorted = sortByPrimaryPreference(cluster.books);
+    return { ...cluster, id: sorted.map((book) => book.hash).join(','), books: sorted };
+  });
+};
+
+/**
+ * Merges the library entries of the duplicates into the primary copy,
+ * keeping the most advanced reading status and the union of the tags.
+ */
+export const mergeDuplicateBooks = (primary: Book, duplicates: Book[]): Book => {
+  const merged: Book = { ...primary };
+  for (const duplicate of duplicates) {
+    const tags = [...(merged.tags ?? []), ...(duplicate.tags ?? [])];
+    if (tags.length > 0) merged.tags = Array.from(new Set(tags));
+    const status = duplicate.readingStatus;
+    if (
+      status &&
+      READING_STATUS_RANK[status] > READING_STATUS_RANK[merged.readingStatus ?? 'unread']
+    ) {
+      merged.readingStatus = status;
+    }
+    if (!merged.groupId && duplicate.groupId) {
+      merged.groupId = duplicate.groupId;
+      merged.groupName = duplicate.groupName;
+    }
+  }
+  merged.updatedAt = Date.now();
+  return merged;
+};
+
+export const markBooksDeleted = (books: Book[], now = Date.now()): Book[] =>
+  books.map((book) => ({ ...book, deletedAt: now, updatedAt: now }));
+
+/**
+ * Merges the notes, bookmarks and reading progress of the duplicates into the config of the primary copy.
+ * The view settings of the primary copy are kept, the notes are moved to the primary copy.
+ * A location in another file does not point into the primary copy, so a copy read further
+ * only brings its reading progress in percent and the primary copy opens at that fraction.
+ */
+export const mergeDuplicateConfigs = (
+  primary: Book,
+  primaryConfig: BookConfig,
+  duplicates: { book: Book; config: BookConfig }[],
+): BookConfig => {
+  const now = Date.now();
+  const merged: BookConfig = { ...primaryConfig };
+  let fraction = getProgressFraction(primaryConfig.progress ?? primary.progress);
+  for (const { book, config } of duplicates) {
+    const progress = config.progress ?? book.progress;
+    if (progress && getProgressFraction(progress) > fraction) {
+      fraction = getProgressFraction(progress);
+      merged.progress = progress;
+      // cleared rather than removed so that the stale location is overwritten on sync
+      merged.location = '';
+      merged.xpointer = '';
+      merged.fieldsUpdatedAt = { ...merged.fieldsUpdatedAt, progress: now };
+    }
+    // the moved notes are touched to be synced again under the primary copy
+    const noteIds = new Set(merged.booknotes?.map((note) => note.id));
+    const notes = (config.booknotes ?? []).map((note) =>
+      noteIds.has(note.id)
+        ? note
+        : { ...note, bookHash: primary.hash, metaHash: primary.metaHash, updatedAt: now },
+    );
+    merged.booknotes = mergeBookNotes(merged.booknotes, notes);
+  }
+  return { ...merged, bookHash: primary.hash, metaHash: primary.metaHash, updatedAt: now };
+};
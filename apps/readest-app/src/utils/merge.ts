@@ -0,0 +1,73 @@
+import { BookConfig, BookConfigSyncField } from '@/types/book';
+
+export const BOOK_CONFIG_SYNC_FIELDS: Record<BookConfigSyncField, (keyof BookConfig)[]> = {
+  progress: ['progress', 'location', 'xpointer'],
+  viewSettings: ['viewSettings'],
+  searchConfig: ['searchConfig'],
+};
+
+export const touchConfigFields = (
+  config: Pick<BookConfig, 'fieldsUpdatedAt'> | null | undefined,
+  fields: BookConfigSyncField[],
+  now = Date.now(),
+): BookConfig['fieldsUpdatedAt'] => {
+  const fieldsUpdatedAt = { ...config?.fieldsUpdatedAt };
+  for (const field of fields) {
+    fieldsUpdatedAt[field] = now;
+  }
+  return fieldsUpdatedAt;
+};
+
+export const getFieldUpdatedAt = (config: BookConfig, field: BookConfigSyncField) =>
+  config.fieldsUpdatedAt?.[field] ?? config.updatedAt ?? 0;
+
+const getProgressFraction = (config: BookConfig) => {
+  const [current, total] = config.progress ?? [0, 0];
+  return total > 0 ? current / total : 0;
+};
+
+const pickProgressSource = (local: BookConfig, remote: BookConfig) => {
+  const localTime = getFieldUpdatedAt(local, 'progress');
+  const remoteTime = getFieldUpdatedAt(remote, 'progress');
+  if (!remote.location && !remote.progress) return local;
+  if (!local.location && !local.progress) return remote;
+  if (localTime !== remoteTime) return remoteTime > localTime ? remote : local;
+  // the furthest reading position wins when both were updated at the same time
+  return getProgressFraction(remote) > getProgressFraction(local) ? remote : local;
+};
+
+/**
+ * Merges two versions of a book config per field group instead of
+ * last-writer-wins on the whole config, so that reading on one device and
+ * changing view settings on another both survive a sync.
+ * The reading progress follows the most recent update, then the furthest position.
+ */
+export const mergeBookConfigs = (local: BookConfig, remote: BookConfig): BookConfig => {
+  const merged: BookConfig = { ...local };
+  const fieldsUpdatedAt: BookConfig['fieldsUpdatedAt'] = {};
+
+  for (const [field, keys] of Object.entries(BOOK_CONFIG_SYNC_FIELDS)) {
+    const syncField = field as BookConfigSyncField;
+    const source =
+      syncField === 'progress'
+        ? pickProgressSource(local, remote)
+        : getFieldUpdatedAt(remote, syncField) > getFieldUpdatedAt(local, syncField)
+          ? remote
+          : local;
+    const other = source === remote ? local : remote;
+    for (const key of keys) {
+      // the progress keys describe one position and are never mixed between configs
+      const value = syncField === 'progress' ? source[key] : (source[key] ?? other[key]);
+      if (value !== undefined) {
+        (merged as unknown as Record<string, unknown>)[key] = value;
+      } else {
+        delete merged[key];
+      }
+    }
+    fieldsUpdatedAt[syncField] = getFieldUpdatedAt(source, syncField);
+  }
+
+  merged.fieldsUpdatedAt = fieldsUpdatedAt;
+  merged.updatedAt = Math.max(local.updatedAt ?? 0, remote.updatedAt ?? 0);
+  return merged;
+};
@@ -0,0 +1,82 @@
+// Helpers for Piper voice models: a VITS .onnx model with a .onnx.json config next to it.
+// See https://github.com/rhasspy/piper/blob/master/TRAINING.md for the config format.
+
+export interface PiperVoiceConfig {
+  audio: { sample_rate: number; quality?: string };
+  espeak?: { voice: string };
+  language?: { code: string };
+  dataset?: string;
+  inference: { noise_scale: number; length_scale: number; noise_w: number };
+  phoneme_type?: 'espeak' | 'text';
+  phoneme_id_map: Record<string, number[]>;
+  num_speakers: number;
+  speaker_id_map?: Record<string, number>;
+}
+
+const PAD = '_';
+const BOS = '^';
+const EOS = '$';
+
+export const parsePiperConfig = (json: string): PiperVoiceConfig => {
+  const config = JSON.parse(json) as Partial<PiperVoiceConfig>;
+  if (!config.phoneme_id_map || !config.audio?.sample_rate) {
+    throw new Error('Not a Piper voice config');
+  }
+  return {
+    ...config,
+    inference: { noise_scale: 0.667, length_scale: 1, noise_w: 0.8, ...config.inference },
+    num_speakers: config.num_speakers || 1,
+  } as PiperVoiceConfig;
+};
+
+// BCP 47 tag of the voice, e.g. en_US -> en-US
+export const getPiperVoiceLang = (config: PiperVoiceConfig) => {
+  const code = config.language?.code || config.espeak?.voice || 'en';
+  const [lang, region] = code.replace('_', '-').split('-');
+  return region ? `${lang!.toLowerCase()}-${region.toUpperCase()}` : lang!.toLowerCase();
+};
+
+// eSpeak voice used to phonemize text for the model
+export const getPiperEspeakVoice = (config: PiperVoiceConfig) => {
+  return config.espeak?.voice || getPiperVoiceLang(config).toLowerCase();
+};
+
+// maps phonemes to model input ids, padding between phonemes like piper-phonemize does
+export const phonemesToIds = (phonemes: string, idMap: PiperVoiceConfig['phoneme_id_map']) => {
+  const pad = idMap[PAD] ?? [];
+  const ids: number[] = [...(idMap[BOS] ?? []), ...pad];
+  for (const phoneme of Array.from(phonemes.normalize('NFD'))) {
+    const phonemeIds = idMap[phoneme];
+    if (!phonemeIds) continue;
+    ids.push(...phonemeIds, ...pad);
+  }
+  ids.push(...(idMap[EOS] ?? []));
+  return ids;
+};
+
+// 16-bit mono PCM WAV
+export const encodeWAV = (samples: Float32Array, sampleRate: number): ArrayBuffer => {
+  const buffer = new ArrayBuffer(44 + samples.length * 2);
+  const view = new DataView(buffer);
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) view.setUint8(offset + i, value.charCodeAt(i));
+  };
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + samples.length * 2, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true);
+  view.setUint16(22, 1, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true);
+  view.setUint16(32, 2, true);
+  view.setUint16(34, 16, true);
+  writeString(36, 'data');
+  view.setUint32(40, samples.length * 2, true);
+  for (let i = 0; i < samples.length; i++) {
+    const sample = Math.max(-1, Math.min(1, samples[i]!));
+    view.setInt16(44 + i * 2, sample < 0 ? sample * 0x8000 : sample * 0x7fff, true);
+  }
+  return buffer;
+};
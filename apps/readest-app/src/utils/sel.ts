@@ -1,3 +1,5 @@
+import { extractSentence } from './vocabulary';
+
 export interface Frame {
   top: number;
   left: number;
@@ -289,3 +291,19 @@ export const getTextFromRange = (range: Range, rejectTags: string[] = []): strin
 
   return text;
 };
+
+const SENTENCE_BLOCK_SELECTOR = 'p, li, dd, dt, td, th, blockquote, h1, h2, h3, h4, h5, h6, div';
+
+// the sentence of the enclosing paragraph the range is in
+export const getSentenceFromRange = (range: Range): string => {
+  const container = range.commonAncestorContainer;
+  const element =
+    container.nodeType === Node.ELEMENT_NODE ? (container as Element) : container.parentElement;
+  const block = element?.closest(SENTENCE_BLOCK_SELECTOR);
+  if (!block) return range.toString();
+  const before = block.ownerDocument.createRange();
+  before.setStart(block, 0);
+  before.setEnd(range.startContainer, range.startOffset);
+  const start = before.toString().length;
+  return extractSentence(block.textContent ?? '', start, start + range.toString().length);
+};
@@ -0,0 +1,261 @@
+// Writes small SQLite databases from scratch, e.g. the collection of an Anki package.
+// Only rowid tables are supported, indexes are left to the application opening the file.
+
+export type SQLiteValue = null | number | string | Uint8Array;
+
+export interface SQLiteTable {
+  name: string;
+  sql: string;
+  // rows as [rowid, ...columns], an INTEGER PRIMARY KEY column should be null
+  rows: [number, ...SQLiteValue[]][];
+}
+
+const PAGE_SIZE = 4096;
+const HEADER_SIZE = 100;
+const LEAF_TABLE_PAGE = 0x0d;
+const INTERIOR_TABLE_PAGE = 0x05;
+// largest payload stored on a leaf page and the minimum kept there when it overflows
+const MAX_LOCAL = PAGE_SIZE - 35;
+const MIN_LOCAL = Math.floor(((PAGE_SIZE - 12) * 32) / 255) - 23;
+
+const encoder = new TextEncoder();
+
+const concat = (parts: Uint8Array[]) => {
+  const result = new Uint8Array(parts.reduce((size, part) => size + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+};
+
+export const encodeVarint = (value: number) => {
+  const bytes: number[] = [];
+  let rest = BigInt(value);
+  if (rest > 0xffffffffffffffn) {
+    throw new Error('Varints larger than 56 bits are not supported');
+  }
+  do {
+    bytes.unshift(Number(rest & 0x7fn));
+    rest >>= 7n;
+  } while (rest > 0n);
+  for (let i = 0; i < bytes.length - 1; i++) bytes[i]! |= 0x80;
+  return new Uint8Array(bytes);
+};
+
+const encodeInteger = (value: number): [number, Uint8Array] => {
+  if (value === 0) return [8, new Uint8Array(0)];
+  if (value === 1) return [9, new Uint8Array(0)];
+  const sizes: [number, number][] = [
+    [1, 1],
+    [2, 2],
+    [3, 3],
+    [4, 4],
+    [5, 6],
+    [6, 8],
+  ];
+  for (const [type, size] of sizes) {
+    const limit = 2n ** BigInt(size * 8 - 1);
+    if (BigInt(value) >= -limit && BigInt(value) < limit) {
+      const bytes = new Uint8Array(size);
+      let rest = BigInt.asUintN(size * 8, BigInt(value));
+      for (let i = size - 1; i >= 0; i--) {
+        bytes[i] = Number(rest & 0xffn);
+        rest >>= 8n;
+      }
+      return [type, bytes];
+    }
+  }
+  throw new Error(`Integer out of range: ${value}`);
+};
+
+const encodeValue = (value: SQLiteValue): [number, Uint8Array] => {
+  if (value === null) return [0, new Uint8Array(0)];
+  if (typeof value === 'number') {
+    if (Number.isSafeInteger(value)) return encodeInteger(value);
+    const bytes = new Uint8Array(8);
+    new DataView(bytes.buffer).setFloat64(0, value);
+    return [7, bytes];
+  }
+  if (typeof value === 'string') {
+    const bytes = encoder.encode(value);
+    return [bytes.length * 2 + 13, bytes];
+  }
+  return [value.length * 2 + 12, value];
+};
+
+export const encodeRecord = (values: SQLiteValue[]) => {
+  const encoded = values.map(encodeValue);
+  const types = concat(encoded.map(([type]) => encodeVarint(type)));
+  // the header size counts its own varint, which takes one byte for small headers
+  let headerSize = types.length + 1;
+  if (encodeVarint(headerSize).length > 1) headerSize = types.length + 2;
+  return concat([encodeVarint(headerSize), types, ...encoded.map(([, body]) => body)]);
+};
+
+class PageAllocator {
+  pages: Uint8Array[] = [];
+
+  allocate() {
+    this.pages.push(new Uint8Array(PAGE_SIZE));
+    return this.pages.length;
+  }
+
+  get(pageNumber: number) {
+    return this.pages[pageNumber - 1]!;
+  }
+}
+
+// builds the cell of a table leaf page, spilling large payloads to overflow pages
+const createLeafCell = (allocator: PageAllocator, rowid: number, payload: Uint8Array) => {
+  const header = concat([encodeVarint(payload.length), encodeVarint(rowid)]);
+  if (payload.length <= MAX_LOCAL) return concat([header, payload]);
+
+  let local = MIN_LOCAL + ((payload.length - MIN_LOCAL) % (PAGE_SIZE - 4));
+  if (local > MAX_LOCAL) local = MIN_LOCAL;
+  const firstOverflow = allocator.allocate();
+  let pageNumber = firstOverflow;
+  for (let offset = local; offset < payload.length; offset += PAGE_SIZE - 4) {
+    const page = allocator.get(pageNumber);
+    const chunk = payload.subarray(offset, offset + PAGE_SIZE - 4);
+    page.set(chunk, 4);
+    if (offset + chunk.length < payload.length) {
+      const next = allocator.allocate();
+      new DataView(page.buffer).setUint32(0, next);
+      pageNumber = next;
+    }
+  }
+  const pointer = new Uint8Array(4);
+  new DataView(pointer.buffer).setUint32(0, firstOverflow);
+  return concat([header, payload.subarray(0, local), pointer]);
+};
+
+const writePage = (
+  page: Uint8Array,
+  type: number,
+  cells: Uint8Array[],
+  rightChild?: number,
+  offset = 0,
+) => {
+  const view = new DataView(page.buffer);
+  const headerSize = type === INTERIOR_TABLE_PAGE ? 12 : 8;
+  let contentStart = PAGE_SIZE;
+  cells.forEach((cell, i) => {
+    contentStart -= cell.length;
+    page.set(cell, contentStart);
+    view.setUint16(offset + headerSize + i * 2, contentStart);
+  });
+  view.setUint8(offset, type);
+  view.setUint16(offset + 3, cells.length);
+  view.setUint16(offset + 5, contentStart);
+  if (rightChild !== undefined) view.setUint32(offset + 8, rightChild);
+};
+
+interface PageRef {
+  pageNumber: number;
+  maxRowid: number;
+}
+
+// packs the cells into as few pages as possible
+const packCells = <T extends { cell: Uint8Array }>(items: T[], capacity: number) => {
+  const groups: T[][] = [[]];
+  let used = 0;
+  for (const item of items) {
+    const size = item.cell.length + 2;
+    if (used + size > capacity && groups[groups.length - 1]!.length > 0) {
+      groups.push([]);
+      used = 0;
+    }
+    groups[groups.length - 1]!.push(item);
+    used += size;
+  }
+  return groups;
+};
+
+// an interior cell takes at most a 4-byte page number, a 9-byte rowid and its 2-byte pointer
+const MAX_INTERIOR_CHILDREN = Math.floor((PAGE_SIZE - 12) / 15) + 1;
+
+const writeInteriorPages = (allocator: PageAllocator, children: PageRef[]): number => {
+  if (children.length === 1) return children[0]!.pageNumber;
+  const pageCount = Math.ceil(children.length / MAX_INTERIOR_CHILDREN);
+  const perPage = Math.ceil(children.length / pageCount);
+  const parents: PageRef[] = [];
+  for (let i = 0; i < children.length; i += perPage) {
+    const group = children.slice(i, i + perPage);
+    // the last child of each page is its right-most pointer and takes no cell
+    const rightChild = group.pop()!;
+    const cells = group.map((child) => {
+      const pointer = new Uint8Array(4);
+      new DataView(pointer.buffer).setUint32(0, child.pageNumber);
+      return concat([pointer, encodeVarint(child.maxRowid)]);
+    });
+    const pageNumber = allocator.allocate();
+    writePage(allocator.get(pageNumber), INTERIOR_TABLE_PAGE, cells, rightChild.pageNumber);
+    parents.push({ pageNumber, maxRowid: rightChild.maxRowid });
+  }
+  return writeInteriorPages(allocator, parents);
+};
+
+const writeTable = (allocator: PageAllocator, table: SQLiteTable) => {
+  const rows = [...table.rows].sort((a, b) => a[0] - b[0]);
+  const items = rows.map(([rowid, ...values]) => ({
+    rowid,
+    cell: createLeafCell(allocator, rowid, encodeRecord(values)),
+  }));
+  const leaves: PageRef[] = [];
+  for (const group of packCells(items, PAGE_SIZE - 8)) {
+    const pageNumber = allocator.allocate();
+    writePage(
+      allocator.get(pageNumber),
+      LEAF_TABLE_PAGE,
+      group.map(({ cell }) => cell),
+    );
+    leaves.push({ pageNumber, maxRowid: group[group.length - 1]?.rowid ?? 0 });
+  }
+  return writeInteriorPages(allocator, leaves);
+};
+
+const writeHeader = (page: Uint8Array, pageCount: number) => {
+  const view = new DataView(page.buffer);
+  page.set(encoder.encode('SQLite format 3\0'), 0);
+  view.setUint16(16, PAGE_SIZE);
+  view.setUint8(18, 1); // legacy write version
+  view.setUint8(19, 1); // legacy read version
+  view.setUint8(21, 64); // max embedded payload fraction
+  view.setUint8(22, 32); // min embedded payload fraction
+  view.setUint8(23, 32); // leaf payload fraction
+  view.setUint32(24, 1); // file change counter
+  view.setUint32(28, pageCount);
+  view.setUint32(40, 1); // schema cookie
+  view.setUint32(44, 4); // schema format
+  view.setUint32(56, 1); // UTF-8
+  view.setUint32(92, 1); // version valid for
+  view.setUint32(96, 3045000);
+};
+
+/**
+ * Creates a database file with the given tables and rows.
+ */
+export const createSQLiteDatabase = (tables: SQLiteTable[]) => {
+  const allocator = new PageAllocator();
+  const schemaPage = allocator.allocate();
+  const schemaRows = tables.map((table, i): [number, ...SQLiteValue[]] => [
+    i + 1,
+    'table',
+    table.name,
+    table.name,
+    writeTable(allocator, table),
+    table.sql,
+  ]);
+  const schemaCells = schemaRows.map(([rowid, ...values]) =>
+    createLeafCell(allocator, rowid, encodeRecord(values)),
+  );
+  if (schemaCells.reduce((size, cell) => size + cell.length + 2, 0) > PAGE_SIZE - HEADER_SIZE - 8) {
+    throw new Error('The schema does not fit on the first page');
+  }
+  const firstPage = allocator.get(schemaPage);
+  writePage(firstPage, LEAF_TABLE_PAGE, schemaCells, undefined, HEADER_SIZE);
+  writeHeader(firstPage, allocator.pages.length);
+  return concat(allocator.pages);
+};
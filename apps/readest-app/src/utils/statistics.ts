@@ -0,0 +1,185 @@
+import { ReadingSession } from '@/types/book';
+import { uniqueId } from './misc';
+
+// a pause longer than this ends the session, like KOReader's max page time
+export const SESSION_IDLE_TIMEOUT_SEC = 300;
+// sessions shorter than this are not recorded
+export const MIN_SESSION_DURATION_SEC = 10;
+
+export interface ActiveReadingSession {
+  session: ReadingSession;
+  lastActivityAt: number;
+}
+
+export const startReadingSession = (
+  bookHash: string,
+  metaHash: string | undefined,
+  page: number,
+  totalPages: number,
+  now = Date.now(),
+): ActiveReadingSession => ({
+  session: {
+    bookHash,
+    metaHash,
+    id: `${now}-${uniqueId()}`,
+    startedAt: now,
+    endedAt: now,
+    duration: 0,
+    pagesRead: 0,
+    startPage: page,
+    endPage: page,
+    totalPages,
+    createdAt: now,
+    updatedAt: now,
+  },
+  lastActivityAt: now,
+});
+
+/**
+ * Returns the finished session if it is long enough to be recorded. The time
+ * on the last page counts unless the reader has been idle for too long.
+ */
+export const finishReadingSession = (
+  active: ActiveReadingSession,
+  now = Date.now(),
+): ReadingSession | null => {
+  const { session, lastActivityAt } = active;
+  const elapsed = (now - lastActivityAt) / 1000;
+  const idle = elapsed > SESSION_IDLE_TIMEOUT_SEC;
+  const endedAt = idle ? lastActivityAt : now;
+  const duration = Math.round(session.duration + (idle ? 0 : elapsed));
+  if (duration < MIN_SESSION_DURATION_SEC || session.pagesRead === 0) return null;
+  return { ...session, endedAt, duration, createdAt: endedAt, updatedAt: endedAt };
+};
+
+// records a page turn, starting a new session when the reader comes back after being idle
+export const recordPageTurn = (
+  active: ActiveReadingSession,
+  page: number,
+  totalPages: number,
+  now = Date.now(),
+): { active: ActiveReadingSession; finished: ReadingSession | null } => {
+  const { session, lastActivityAt } = active;
+  const elapsed = (now - lastActivityAt) / 1000;
+  if (elapsed > SESSION_IDLE_TIMEOUT_SEC) {
+    return {
+      active: startReadingSession(session.bookHash, session.metaHash, page, totalPages, now),
+      finished: finishReadingSession(active, now),
+    };
+  }
+  return {
+    active: {
+      session: {
+        ...session,
+        duration: session.duration + elapsed,
+        pagesRead: session.pagesRead + (page !== session.endPage ? 1 : 0),
+        endPage: page,
+        totalPages,
+        endedAt: now,
+      },
+      lastActivityAt: now,
+    },
+    finished: null,
+  };
+};
+
+// merges synced sessions into the local ones, the most recently updated copy wins
+export const mergeReadingSessions = (local: ReadingSession[], remote: ReadingSession[]) => {
+  const merged = new Map(local.map((session) => [session.id, session]));
+  for (const session of remote) {
+    const existing = merged.get(session.id);
+    const updatedAt = (s: ReadingSession) => Math.max(s.updatedAt, s.deletedAt ?? 0);
+    if (!existing || updatedAt(existing) < updatedAt(session)) {
+      merged.set(session.id, session);
+    }
+  }
+  return [...merged.values()].sort((a, b) => a.startedAt - b.startedAt);
+};
+
+// local date of the timestamp as YYYY-MM-DD
+export const getDayKey = (timestamp: number) => {
+  const date = new Date(timestamp);
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+export const getPagesPerHour = (pagesRead: number, duration: number) => {
+  return duration > 0 ? Math.round((pagesRead * 3600) / duration) : 0;
+};
+
+const activeSessions = (sessions: ReadingSession[]) => sessions.filter((s) => !s.deletedAt);
+
+// reading time in seconds per day
+export const getDailyReadingTime = (sessions: ReadingSession[]) => {
+  const days: Record<string, number> = {};
+  for (const session of activeSessions(sessions)) {
+    const day = getDayKey(session.startedAt);
+    days[day] = (days[day] ?? 0) + session.duration;
+  }
+  return days;
+};
+
+const addDays = (timestamp: number, days: number) => {
+  const date = new Date(timestamp);
+  date.setDate(date.getDate() + days);
+  return date.getTime();
+};
+
+/**
+ * Counts consecutive reading days. The current streak is still alive when the
+ * last reading day was yesterday.
+ */
+export const getReadingStreaks = (sessions: ReadingSession[], now = Date.now()) => {
+  const days = new Set(Object.keys(getDailyReadingTime(sessions)));
+  const sortedDays = [...days].sort();
+  let longest = 0;
+  let run = 0;
+  let previous = '';
+  for (const day of sortedDays) {
+    const [y, m, d] = day.split('-').map(Number);
+    const dayBefore = getDayKey(addDays(new Date(y!, m! - 1, d!).getTime(), -1));
+    run = previous === dayBefore ? run + 1 : 1;
+    longest = Math.max(longest, run);
+    previous = day;
+  }
+
+  let current = 0;
+  let cursor = days.has(getDayKey(now)) ? now : addDays(now, -1);
+  while (days.has(getDayKey(cursor))) {
+    current++;
+    cursor = addDays(cursor, -1);
+  }
+  return { current, longest };
+};
+
+export interface BookReadingStats {
+  bookHash: string;
+  duration: number;
+  pagesRead: number;
+  sessions: number;
+  lastReadAt: number;
+  pagesPerHour: number;
+}
+
+export const getBookReadingStats = (sessions: ReadingSession[]): BookReadingStats[] => {
+  const books = new Map<string, BookReadingStats>();
+  for (const session of activeSessions(sessions)) {
+    const stats = books.get(session.bookHash) ?? {
+      bookHash: session.bookHash,
+      duration: 0,
+      pagesRead: 0,
+      sessions: 0,
+      lastReadAt: 0,
+      pagesPerHour: 0,
+    };
+    stats.duration += session.duration;
+    stats.pagesRead += session.pagesRead;
+    stats.sessions += 1;
+    stats.lastReadAt = Math.max(stats.lastReadAt, session.endedAt);
+    books.set(session.bookHash, stats);
+  }
+  return [...books.values()]
+    .map((stats) => ({ ...stats, pagesPerHour: getPagesPerHour(stats.pagesRead, stats.duration) }))
+    .sort((a, b) => b.lastReadAt - a.lastReadAt);
+};
@@ -49,10 +49,12 @@ export const webDownload = async (
   downloadUrl: string,
   onProgress?: ProgressHandler,
   headers?: Record<string, string>,
+  signal?: AbortSignal,
 ) => {
   const response = await fetch(downloadUrl, {
     method: 'GET',
     headers: headers ? headers : undefined,
+    signal,
   });
   if (!response.ok) {
     if (response.status === 401 || response.status === 403) {
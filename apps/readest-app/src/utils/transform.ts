@@ -6,9 +6,17 @@ import {
   BookNoteType,
   HighlightColor,
   HighlightStyle,
+  ReadingSession,
   ReadingStatus,
+  VocabularyWord,
 } from '@/types/book';
-import { DBBookConfig, DBBook, DBBookNote } from '@/types/records';
+import {
+  DBBookConfig,
+  DBBook,
+  DBBookNote,
+  DBReadingSession,
+  DBVocabularyWord,
+} from '@/types/records';
 import { sanitizeString } from './sanitize';
 
 export const transformBookConfigToDB = (bookConfig: unknown, userId: string): DBBookConfig => {
@@ -20,6 +28,7 @@ export const transformBookConfigToDB = (bookConfig: unknown, userId: string): DB
     xpointer,
     searchConfig,
     viewSettings,
+    fieldsUpdatedAt,
     updatedAt,
   } = bookConfig as BookConfig;
 
@@ -32,6 +41,7 @@ export const transformBookConfigToDB = (bookConfig: unknown, userId: string): DB
     progress: progress && JSON.stringify(progress),
     search_config: searchConfig && JSON.stringify(searchConfig),
     view_settings: viewSettings && JSON.stringify(viewSettings),
+    fields_updated_at: fieldsUpdatedAt && JSON.stringify(fieldsUpdatedAt),
     updated_at: new Date(updatedAt ?? Date.now()).toISOString(),
   };
 };
@@ -45,6 +55,7 @@ export const transformBookConfigFromDB = (dbBookConfig: DBBookConfig): BookConfi
     xpointer,
     search_config,
     view_settings,
+    fields_updated_at,
     updated_at,
   } = dbBookConfig;
   return {
@@ -55,6 +66,7 @@ export const transformBookConfigFromDB = (dbBookConfig: DBBookConfig): BookConfi
     progress: progress && JSON.parse(progress),
     searchConfig: search_config && JSON.parse(search_config),
     viewSettings: view_settings && JSON.parse(view_settings),
+    fieldsUpdatedAt: fields_updated_at && JSON.parse(fields_updated_at),
     updatedAt: new Date(updated_at!).getTime(),
   } as BookConfig;
 };
@@ -209,3 +221,161 @@ export const transformBookNoteFromDB = (dbBookNote: DBBookNote): BookNote => {
     deletedAt: deleted_at ? new Date(deleted_at).getTime() : null,
   };
 };
+
+export const transformReadingSessionToDB = (session: unknown, userId: string): DBReadingSession => {
+  const {
+    bookHash,
+    metaHash,
+    id,
+    startedAt,
+    endedAt,
+    duration,
+    pagesRead,
+    startPage,
+    endPage,
+    totalPages,
+    createdAt,
+    updatedAt,
+    deletedAt,
+  } = session as ReadingSession;
+
+  return {
+    user_id: userId,
+    book_hash: bookHash,
+    meta_hash: metaHash,
+    id,
+    started_at: new Date(startedAt).toISOString(),
+    ended_at: new Date(endedAt).toISOString(),
+    duration: Math.round(duration),
+    pages_read: pagesRead,
+    start_page: startPage,
+    end_page: endPage,
+    total_pages: totalPages,
+    created_at: new Date(createdAt ?? Date.now()).toISOString(),
+    updated_at: new Date(updatedAt ?? Date.now()).toISOString(),
+    deleted_at: deletedAt ? new Date(deletedAt).toISOString() : null,
+  };
+};
+
+export const transformReadingSessionFromDB = (dbSession: DBReadingSession): ReadingSession => {
+  const {
+    book_hash,
+    meta_hash,
+    id,
+    started_at,
+    ended_at,
+    duration,
+    pages_read,
+    start_page,
+    end_page,
+    total_pages,
+    created_at,
+    updated_at,
+    deleted_at,
+  } = dbSession;
+
+  return {
+    bookHash: book_hash,
+    metaHash: meta_hash,
+    id,
+    startedAt: new Date(started_at).getTime(),
+    endedAt: new Date(ended_at).getTime(),
+    duration,
+    pagesRead: pages_read,
+    startPage: start_page,
+    endPage: end_page,
+    totalPages: total_pages,
+    createdAt: new Date(created_at!).getTime(),
+    updatedAt: new Date(updated_at!).getTime(),
+    deletedAt: deleted_at ? new Date(deleted_at).getTime() : null,
+  };
+};
+
+export const transformVocabularyWordToDB = (word: unknown, userId: string): DBVocabularyWord => {
+  const {
+    bookHash,
+    metaHash,
+    id,
+    word: text,
+    lemma,
+    context,
+    cfi,
+    lang,
+    bookTitle,
+    definition,
+    repetitions,
+    interval,
+    easeFactor,
+    dueAt,
+    reviewedAt,
+    createdAt,
+    updatedAt,
+    deletedAt,
+  } = word as VocabularyWord;
+
+  return {
+    user_id: userId,
+    book_hash: bookHash,
+    meta_hash: metaHash,
+    id,
+    word: sanitizeString(text)!,
+    lemma: sanitizeString(lemma)!,
+    context: sanitizeString(context)!,
+    cfi,
+    lang: lang ?? null,
+    book_title: sanitizeString(bookTitle) ?? null,
+    definition: sanitizeString(definition) ?? null,
+    repetitions,
+    interval,
+    ease_factor: easeFactor,
+    due_at: new Date(dueAt).toISOString(),
+    reviewed_at: reviewedAt ? new Date(reviewedAt).toISOString() : null,
+    created_at: new Date(createdAt ?? Date.now()).toISOString(),
+    updated_at: new Date(updatedAt ?? Date.now()).toISOString(),
+    deleted_at: deletedAt ? new Date(deletedAt).toISOString() : null,
+  };
+};
+
+export const transformVocabularyWordFromDB = (dbWord: DBVocabularyWord): VocabularyWord => {
+  const {
+    book_hash,
+    meta_hash,
+    id,
+    word,
+    lemma,
+    context,
+    cfi,
+    lang,
+    book_title,
+    definition,
+    repetitions,
+    interval,
+    ease_factor,
+    due_at,
+    reviewed_at,
+    created_at,
+    updated_at,
+    deleted_at,
+  } = dbWord;
+
+  return {
+    bookHash: book_hash,
+    metaHash: meta_hash,
+    id,
+    word,
+    lemma,
+    context,
+    cfi,
+    lang: lang ?? undefined,
+    bookTitle: book_title ?? undefined,
+    definition: definition ?? undefined,
+    repetitions,
+    interval,
+    easeFactor: ease_factor,
+    dueAt: new Date(due_at).getTime(),
+    reviewedAt: reviewed_at ? new Date(reviewed_at).getTime() : null,
+    createdAt: new Date(created_at!).getTime(),
+    updatedAt: new Date(updated_at!).getTime(),
+    deletedAt: deleted_at ? new Date(deleted_at).getTime() : null,
+  };
+};
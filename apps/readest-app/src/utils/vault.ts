@@ -0,0 +1,416 @@
+import { BookNote, BooknoteGroup, VaultFlavor } from '@/types/book';
+import { AppService } from '@/types/system';
+import { ClosableFile } from './file';
+import { md5Fingerprint } from './md5';
+import { makeSafeFilename } from './misc';
+
+export interface VaultBookInfo {
+  // stable key of the book written to the frontmatter to find its page
+  id: string;
+  title: string;
+  author: string;
+  isbn?: string;
+  tags?: string[];
+  progress?: [number, number];
+}
+
+export interface VaultRegion {
+  syncedAt: number;
+  // notes keyed by their block id
+  notes: Record<string, string>;
+  // fingerprints of the notes as written on the last sync, keyed by their block id
+  fingerprints: Record<string, string>;
+}
+
+export interface VaultPage {
+  path: string;
+  content: string;
+}
+
+const REGION_START = /<!-- readest:start(?: synced=(\d+))?(?: notes=([\w:,-]*))? -->/;
+const REGION_END = '<!-- readest:end -->';
+const OBSIDIAN_BLOCK_ID = /\s\^(rd-[A-Za-z0-9-]+)\s*$/;
+const LOGSEQ_BLOCK_ID = /^\s*readest-id::\s*(\S+)\s*$/;
+
+const FRONTMATTER_KEYS = ['title', 'author', 'isbn', 'tags', 'progress', 'readest-id'];
+
+export const isVaultNote = (note: BookNote) =>
+  (note.type === 'annotation' || note.type === 'excerpt') && !note.deletedAt && !!note.text;
+
+// Obsidian block ids may only contain letters, digits and dashes
+export const getVaultBlockId = (note: BookNote) => `rd-${note.id.replace(/[^A-Za-z0-9-]/g, '')}`;
+
+export const getVaultPageFilename = (info: VaultBookInfo) =>
+  `${makeSafeFilename(info.author ? `${info.title} - ${info.author}` : info.title)}.md`;
+
+const quoteYAML = (value: string) => JSON.stringify(value);
+
+const unquoteYAML = (value: string) => value.trim().replace(/^(["'])(.*)\1$/, '$2');
+
+const splitFrontmatter = (content: string) => {
+  const match = content.match(/^---\r?\n([\s\S]*?)\r?\n---(?:\r?\n|$)/);
+  if (!match) return { frontmatter: null, body: content };
+  return { frontmatter: match[1]!.split(/\r?\n/), body: content.slice(match[0].length) };
+};
+
+// groups the lines of the frontmatter by their top level key
+const parseFrontmatterEntries = (lines: string[]) => {
+  const entries: { key: string; lines: string[] }[] = [];
+  for (const line of lines) {
+    const key = line.match(/^([\w-]+):/)?.[1];
+    if (key || !entries.length) entries.push({ key: key ?? '', lines: [line] });
+    else entries[entries.length - 1]!.lines.push(line);
+  }
+  return entries;
+};
+
+const parseFrontmatterList = (lines: string[]) => {
+  const inline = lines[0]!.replace(/^[\w-]+:/, '').trim();
+  if (inline.startsWith('[')) {
+    return inline
+      .replace(/^\[|\]$/g, '')
+      .split(',')
+      .map(unquoteYAML)
+      .filter(Boolean);
+  }
+  if (inline) return [unquoteYAML(inline)];
+  return lines
+    .slice(1)
+    .map((line) => line.match(/^\s*-\s*(.+)$/)?.[1])
+    .filter((item): item is string => !!item)
+    .map(unquoteYAML);
+};
+
+/**
+ * Renders the YAML frontmatter of a book. The keys written by Readest are
+ * replaced in the existing frontmatter while other keys are kept, and the
+ * tags added in the vault are merged with the tags of the book.
+ */
+export const renderVaultFrontmatter = (info: VaultBookInfo, existing: string[] | null = null) => {
+  const entries = parseFrontmatterEntries(existing ?? []);
+  const existingTags = entries.find((entry) => entry.key === 'tags');
+  const tags = [
+    ...new Set([...(info.tags ?? []), ...parseFrontmatterList(existingTags?.lines ?? [''])]),
+  ];
+  const [current = 0, total = 0] = info.progress ?? [];
+  // keys without a value keep the ones written in the vault
+  const managed: Record<string, string[] | null> = {
+    title: [`title: ${quoteYAML(info.title)}`],
+    author: [`author: ${quoteYAML(info.author)}`],
+    isbn: info.isbn ? [`isbn: ${quoteYAML(info.isbn)}`] : null,
+    tags: tags.length ? ['tags:', ...tags.map((tag) => `  - ${quoteYAML(tag)}`)] : null,
+    progress: total > 0 ? [`progress: "${Math.round((current / total) * 100)}%"`] : null,
+    'readest-id': [`readest-id: ${quoteYAML(info.id)}`],
+  };
+  const written = new Set<string>();
+  const lines: string[] = [];
+  for (const entry of entries) {
+    const value = managed[entry.key];
+    if (!value) {
+      lines.push(...entry.lines);
+    } else if (!written.has(entry.key)) {
+      lines.push(...value);
+      written.add(entry.key);
+    }
+  }
+  for (const key of FRONTMATTER_KEYS) {
+    const value = managed[key];
+    if (value && !written.has(key)) lines.push(...value);
+  }
+  return ['---', ...lines, '---'].join('\n');
+};
+
+const renderObsidianNote = (note: BookNote) => {
+  const quote = note.text!.split(/\r?\n/).map((line) => `> ${line}`);
+  quote[quote.length - 1] += ` ^${getVaultBlockId(note)}`;
+  const lines = [...quote, ''];
+  if (note.note) lines.push(note.note, '');
+  return lines;
+};
+
+const renderLogseqNote = (note: BookNote) => {
+  const lines = [
+    `\t- > ${note.text!.replace(/\s*\r?\n\s*/g, ' ')}`,
+    `\t  readest-id:: ${getVaultBlockId(note)}`,
+  ];
+  if (note.note) {
+    const [first, ...rest] = note.note.split(/\r?\n/);
+    lines.push(`\t\t- ${first}`, ...rest.map((line) => `\t\t  ${line}`));
+  }
+  return lines;
+};
+
+/**
+ * Renders the region of a vault page managed by Readest with one block per
+ * annotation, identified by the id of the note so that it can be linked from
+ * other pages and matched on the next sync.
+ */
+export const renderVaultRegion = (
+  groups: Pick<BooknoteGroup, 'label' | 'booknotes'>[],
+  flavor: VaultFlavor,
+  syncedAt: number,
+  untitled = 'Untitled',
+) => {
+  const lines: string[] = [];
+  for (const group of groups) {
+    const notes = group.booknotes.filter(isVaultNote);
+    if (!notes.length) continue;
+    const label = group.label || untitled;
+    if (flavor === 'logseq') {
+      lines.push(`- ## ${label}`);
+      notes.forEach((note) => lines.push(...renderLogseqNote(note)));
+    } else {
+      lines.push(`## ${label}`, '');
+      notes.forEach((note) => lines.push(...renderObsidianNote(note)));
+    }
+  }
+  lines.push(REGION_END);
+  const body = lines.join('\n');
+  // the notes are fingerprinted as they are read back to tell the edits made in the vault
+  const bodyLines = body.split(/\r?\n/);
+  const notes = flavor === 'logseq' ? parseLogseqNotes(bodyLines) : parseObsidianNotes(bodyLines);
+  const fingerprints = Object.entries(notes).map(([id, note]) => `${id}:${md5Fingerprint(note)}`);
+  return `<!-- readest:start synced=${syncedAt} notes=${fingerprints.join(',')} -->\n${body}`;
+};
+
+const parseObsidianNotes = (lines: string[]) => {
+  const notes: Record<string, string> = {};
+  let current = null as { id: string; lines: string[] } | null;
+  const flush = (hasNext: boolean) => {
+    if (!current) return;
+    const noteLines = current.lines.join('\n').trimEnd().split('\n');
+    // the heading of the next group follows the last note of a group
+    if (hasNext && noteLines[noteLines.length - 1]!.startsWith('## ')) noteLines.pop();
+    notes[current.id] = noteLines.join('\n').trim();
+    current = null;
+  };
+  for (let i = 0; i < lines.length; i++) {
+    // a quote ending with a block id starts an annotation, other quotes belong to the note
+    let end = i;
+    while (lines[end]?.startsWith('>') && lines[end + 1]?.startsWith('>')) end++;
+    const id = lines[i]!.startsWith('>') ? lines[end]!.match(OBSIDIAN_BLOCK_ID)?.[1] : undefined;
+    if (id) {
+      flush(true);
+      current = { id, lines: [] };
+      i = end;
+    } else if (current) {
+      current.lines.push(lines[i]!);
+    }
+  }
+  flush(false);
+  return notes;
+};
+
+const getIndent = (line: string) => line.match(/^\s*/)![0].length;
+
+const parseLogseqNotes = (lines: string[]) => {
+  const notes: Record<string, string> = {};
+  let current = null as { id: string; indent: number; lines: string[] } | null;
+  let blockIndent = 0;
+  const flush = () => {
+    if (current) notes[current.id] = current.lines.join('\n').trim();
+    current = null;
+  };
+  for (const line of lines) {
+    const id = line.match(LOGSEQ_BLOCK_ID)?.[1];
+    if (id) {
+      flush();
+      current = { id, indent: blockIndent, lines: [] };
+      continue;
+    }
+    const indent = getIndent(line);
+    if (/^\s*- /.test(line)) {
+      if (current && indent <= current.indent) flush();
+      if (!current) {
+        blockIndent = indent;
+        continue;
+      }
+      current.lines.push(line.trim().slice(2));
+    } else if (current && line.trim()) {
+      current.lines.push(line.trim());
+    }
+  }
+  flush();
+  return notes;
+};
+
+/**
+ * Reads the notes of the annotations from the region of a vault page managed
+ * by Readest. Returns null when the page has no managed region.
+ */
+export const parseVaultRegion = (content: string, flavor: VaultFlavor): VaultRegion | null => {
+  const start = content.match(REGION_START);
+  if (!start) return null;
+  const begin = start.index! + start[0].length;
+  const end = content.indexOf(REGION_END, begin);
+  const lines = content.slice(begin, end < 0 ? undefined : end).split(/\r?\n/);
+  const fingerprints = (start[2] ?? '')
+    .split(',')
+    .filter(Boolean)
+    .map((entry) => entry.split(':') as [string, string]);
+  return {
+    syncedAt: Number(start[1] ?? 0),
+    notes: flavor === 'logseq' ? parseLogseqNotes(lines) : parseObsidianNotes(lines),
+    fingerprints: Object.fromEntries(fingerprints),
+  };
+};
+
+/**
+ * Returns the annotations whose notes were edited in the vault since the last
+ * sync. When a note was edited in Readest as well, both versions are kept and
+ * the annotation is reported as a conflict.
+ */
+export const getVaultNoteUpdates = (
+  booknotes: BookNote[],
+  region: VaultRegion,
+  now = Date.now(),
+) => {
+  const updates: BookNote[] = [];
+  const conflicts: BookNote[] = [];
+  for (const note of booknotes.filter(isVaultNote)) {
+    const blockId = getVaultBlockId(note);
+    const vaultNote = region.notes[blockId];
+    const readestNote = (note.note || '').trim();
+    if (vaultNote === undefined || vaultNote === readestNote) continue;
+    // pages synced before the fingerprints were written only tell that the notes differ
+    const fingerprint = region.fingerprints[blockId];
+    if (fingerprint !== undefined && fingerprint === md5Fingerprint(vaultNote)) continue;
+    if (note.updatedAt <= region.syncedAt) {
+      updates.push({ ...note, note: vaultNote, updatedAt: now });
+    } else {
+      const merged = [readestNote, vaultNote].filter(Boolean).join('\n\n');
+      const update = { ...note, note: merged, updatedAt: now };
+      updates.push(update);
+      conflicts.push(update);
+    }
+  }
+  return { updates, conflicts };
+};
+
+export const getVaultPageId = (content: string) => {
+  const { frontmatter } = splitFrontmatter(content);
+  const entry = parseFrontmatterEntries(frontmatter ?? []).find((e) => e.key === 'readest-id');
+  return entry ? unquoteYAML(entry.lines[0]!.replace(/^[\w-]+:/, '')) : null;
+};
+
+// ids of the vault pages by their paths, kept per vault with the size of the page so that
+// a sync only reads the frontmatter of the pages that changed since they were last read
+const vaultPageIds = new Map<string, Map<string, { id: string | null; size: number }>>();
+
+const VAULT_PAGE_HEAD_SIZE = 4096;
+
+const readVaultPage = async (appService: AppService, vaultPath: string, path: string) => {
+  try {
+    return (await appService.readFile(`${vaultPath}/${path}`, 'None', 'text')) as string;
+  } catch (error) {
+    console.warn(`Failed to read vault page ${path}:`, error);
+    return null;
+  }
+};
+
+// the id is in the frontmatter at the top of the page, the rest of the page is not read
+const readVaultPageId = async (appService: AppService, vaultPath: string, path: string) => {
+  let file: File | null = null;
+  try {
+    file = await appService.openFile(`${vaultPath}/${path}`, 'None');
+    const head = await file.slice(0, VAULT_PAGE_HEAD_SIZE).text();
+    const longFrontmatter =
+      file.size > VAULT_PAGE_HEAD_SIZE &&
+      /^---\r?\n/.test(head) &&
+      splitFrontmatter(head).frontmatter === null;
+    return getVaultPageId(longFrontmatter ? await file.text() : head);
+  } catch (error) {
+    console.warn(`Failed to read vault page ${path}:`, error);
+    return null;
+  } finally {
+    const f = file as ClosableFile | null;
+    if (f && f.close) {
+      await f.close();
+    }
+  }
+};
+
+/**
+ * Finds the page of a book in the vault by the id in its frontmatter, so that
+ * pages renamed or moved in the vault are still updated. A page named after
+ * the title only, as written before the id was added, is taken over.
+ */
+export const findVaultPage = async (
+  appService: AppService,
+  vaultPath: string,
+  info: VaultBookInfo,
+): Promise<VaultPage | null> => {
+  const filename = getVaultPageFilename(info);
+  const legacyFilename = `${makeSafeFilename(info.title)}.md`;
+  const files = new Map(
+    (await appService.readDirectory(vaultPath, 'None'))
+      .filter((file) => file.path.toLowerCase().endsWith('.md'))
+      .map((file) => [file.path, file.size]),
+  );
+  let pageIds = vaultPageIds.get(vaultPath);
+  if (!pageIds) {
+    pageIds = new Map();
+    vaultPageIds.set(vaultPath, pageIds);
+  }
+  for (const path of pageIds.keys()) {
+    if (!files.has(path)) pageIds.delete(path);
+  }
+
+  const readPage = async (path: string) => {
+    const content = await readVaultPage(appService, vaultPath, path);
+    const id = content === null ? null : getVaultPageId(content);
+    pageIds.set(path, { id, size: files.get(path)! });
+    return { content, id };
+  };
+  const takePage = (path: string, content: string): VaultPage => {
+    // the page is written with the id of the book and read again on the next sync
+    pageIds.set(path, { id: info.id, size: -1 });
+    return { path, content };
+  };
+
+  // the page where it was found on the last sync and the page with the default name are
+  // read first, only the frontmatter of the other pages is read when it is not there
+  const cachedPath = [...pageIds].find(([, page]) => page.id === info.id)?.[0];
+  const candidates = [...new Set([cachedPath, filename])].filter(
+    (path): path is string => !!path && files.has(path),
+  );
+  for (const path of candidates) {
+    const { content, id } = await readPage(path);
+    if (content !== null && id === info.id) return takePage(path, content);
+  }
+
+  for (const [path, size] of files) {
+    if (candidates.includes(path)) continue;
+    let page = pageIds.get(path);
+    if (page?.size !== size) {
+      page = { id: await readVaultPageId(appService, vaultPath, path), size };
+      pageIds.set(path, page);
+    }
+    if (page.id !== info.id) continue;
+    const { content, id } = await readPage(path);
+    if (content !== null && id === info.id) return takePage(path, content);
+  }
+
+  if (pageIds.get(legacyFilename)?.id !== null) return null;
+  const { content, id } = await readPage(legacyFilename);
+  return content !== null && id === null ? takePage(legacyFilename, content) : null;
+};
+
+/**
+ * Builds a vault page from the frontmatter and the managed region, keeping the
+ * content written outside of the region in the existing page.
+ */
+export const buildVaultDocument = (
+  existing: string | null,
+  info: VaultBookInfo,
+  region: string,
+) => {
+  const { frontmatter, body } = splitFrontmatter(existing ?? '');
+  const header = renderVaultFrontmatter(info, frontmatter);
+  if (!existing) return `${header}\n\n${region}\n`;
+  const start = body.match(REGION_START);
+  if (!start) return `${header}\n${body.trimEnd()}\n\n${region}\n`;
+  const endIndex = body.indexOf(REGION_END, start.index!);
+  const after = endIndex < 0 ? '' : body.slice(endIndex + REGION_END.length);
+  return `${header}\n${body.slice(0, start.index)}${region}${after}`;
+};
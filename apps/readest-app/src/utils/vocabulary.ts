@@ -0,0 +1,221 @@
+import { VocabularyWord } from '@/types/book';
+import { uniqueId } from './misc';
+
+const ONE_DAY_IN_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_EASE_FACTOR = 2.5;
+const MIN_EASE_FACTOR = 1.3;
+const MAX_CONTEXT_LENGTH = 300;
+const MAX_DEFINITION_LENGTH = 500;
+
+export type ReviewGrade = 'again' | 'hard' | 'good' | 'easy';
+
+// SM-2 response quality of each grade, a quality below 3 is a lapse
+const GRADE_QUALITY: Record<ReviewGrade, number> = {
+  again: 1,
+  hard: 3,
+  good: 4,
+  easy: 5,
+};
+
+export interface VocabularyLookup {
+  bookHash: string;
+  metaHash?: string;
+  bookTitle?: string;
+  word: string;
+  lemma?: string;
+  context: string;
+  cfi: string;
+  lang?: string;
+  definition?: string;
+}
+
+export const normalizeLemma = (word: string) => word.trim().toLowerCase();
+
+export const createVocabularyWord = (
+  lookup: VocabularyLookup,
+  now = Date.now(),
+): VocabularyWord => ({
+  bookHash: lookup.bookHash,
+  metaHash: lookup.metaHash,
+  id: `${now}-${uniqueId()}`,
+  word: lookup.word.trim(),
+  lemma: normalizeLemma(lookup.lemma || lookup.word),
+  context: lookup.context.trim(),
+  cfi: lookup.cfi,
+  lang: lookup.lang,
+  bookTitle: lookup.bookTitle,
+  definition: lookup.definition,
+  repetitions: 0,
+  interval: 0,
+  easeFactor: DEFAULT_EASE_FACTOR,
+  dueAt: now,
+  reviewedAt: null,
+  createdAt: now,
+  updatedAt: now,
+});
+
+/**
+ * Records a dictionary lookup. Looking up a word already in the vocabulary of the
+ * book keeps its review progress and only fills in a missing definition. Returns
+ * the added or updated word, or null when nothing changed.
+ */
+export const recordVocabularyLookup = (
+  words: VocabularyWord[],
+  lookup: VocabularyLookup,
+  now = Date.now(),
+): VocabularyWord | null => {
+  const lemma = normalizeLemma(lookup.lemma || lookup.word);
+  if (!lemma || !lookup.cfi) return null;
+  const existing = words.find(
+    (word) => !word.deletedAt && word.bookHash === lookup.bookHash && word.lemma === lemma,
+  );
+  if (!existing) return createVocabularyWord(lookup, now);
+  if (existing.definition || !lookup.definition) return null;
+  return { ...existing, definition: lookup.definition, updatedAt: now };
+};
+
+/**
+ * Schedules the next review of a word with the SM-2 algorithm. A lapse starts the
+ * repetitions over, the ease factor is adjusted after every review.
+ */
+export const reviewVocabularyWord = (
+  word: VocabularyWord,
+  grade: ReviewGrade,
+  now = Date.now(),
+): VocabularyWord => {
+  const quality = GRADE_QUALITY[grade];
+  let { repetitions, interval } = word;
+  if (quality < 3) {
+    repetitions = 0;
+    interval = 1;
+  } else {
+    repetitions += 1;
+    if (repetitions === 1) interval = 1;
+    else if (repetitions === 2) interval = 6;
+    else interval = Math.round(interval * word.easeFactor);
+  }
+  const easeFactor = Math.max(
+    MIN_EASE_FACTOR,
+    word.easeFactor + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02)),
+  );
+  return {
+    ...word,
+    repetitions,
+    interval,
+    easeFactor: Math.round(easeFactor * 100) / 100,
+    dueAt: now + interval * ONE_DAY_IN_MS,
+    reviewedAt: now,
+    updatedAt: now,
+  };
+};
+
+export const deleteVocabularyWord = (word: VocabularyWord, now = Date.now()): VocabularyWord => ({
+  ...word,
+  deletedAt: now,
+  updatedAt: now,
+});
+
+export const getDueVocabulary = (words: VocabularyWord[], now = Date.now()) =>
+  words.filter((word) => !word.deletedAt && word.dueAt <= now).sort((a, b) => a.dueAt - b.dueAt);
+
+// merges synced words into the local ones, the most recently updated copy wins
+export const mergeVocabulary = (local: VocabularyWord[], remote: VocabularyWord[]) => {
+  const merged = new Map(local.map((word) => [word.id, word]));
+  for (const word of remote) {
+    const existing = merged.get(word.id);
+    const updatedAt = (w: VocabularyWord) => Math.max(w.updatedAt, w.deletedAt ?? 0);
+    if (!existing || updatedAt(existing) < updatedAt(word)) {
+      merged.set(word.id, word);
+    }
+  }
+  return [...merged.values()].sort((a, b) => a.createdAt - b.createdAt);
+};
+
+const SENTENCE_END = /[.!?。！？]['"”’»)\]]*(?:\s|$)|[。！？]/g;
+
+/**
+ * Returns the sentence of the text around the given range, shortened around the
+ * range when the sentence is too long.
+ */
+export const extractSentence = (text: string, start: number, end: number) => {
+  let sentenceStart = 0;
+  let sentenceEnd = text.length;
+  for (const match of text.matchAll(SENTENCE_END)) {
+    const matchEnd = match.index + match[0].length;
+    if (matchEnd <= start) {
+      sentenceStart = matchEnd;
+    } else if (match.index >= end - 1) {
+      sentenceEnd = matchEnd;
+      break;
+    }
+  }
+  if (sentenceEnd - sentenceStart > MAX_CONTEXT_LENGTH) {
+    const margin = Math.max(0, Math.floor((MAX_CONTEXT_LENGTH - (end - start)) / 2));
+    sentenceStart = Math.max(sentenceStart, start - margin);
+    sentenceEnd = Math.min(sentenceEnd, end + margin);
+  }
+  return text.slice(sentenceStart, sentenceEnd).replace(/\s+/g, ' ').trim();
+};
+
+export const getPlainDefinition = (definition: string, html = false) => {
+  let text = definition;
+  if (html) {
+    text = text
+      .replace(/<(br|\/p|\/div|\/li|\/h\d)[^>]*>/gi, '\n')
+      .replace(/<[^>]+>/g, '')
+      .replace(/&nbsp;/g, ' ')
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&quot;/g, '"')
+      .replace(/&#39;/g, "'")
+      .replace(/&amp;/g, '&');
+  }
+  text = text
+    .split('\n')
+    .map((line) => line.replace(/\s+/g, ' ').trim())
+    .filter(Boolean)
+    .join('\n');
+  return text.length > MAX_DEFINITION_LENGTH ? `${text.slice(0, MAX_DEFINITION_LENGTH)}…` : text;
+};
+
+export interface ClozeParts {
+  before: string;
+  answer: string;
+  after: string;
+}
+
+// splits the context around the looked up word to hide it on the front of a card
+export const getClozeParts = (word: VocabularyWord): ClozeParts => {
+  const index = word.context.toLowerCase().indexOf(word.word.toLowerCase());
+  if (!word.word || index < 0) {
+    return { before: word.context ? `${word.context} ` : '', answer: word.word, after: '' };
+  }
+  return {
+    before: word.context.slice(0, index),
+    answer: word.context.slice(index, index + word.word.length),
+    after: word.context.slice(index + word.word.length),
+  };
+};
+
+const escapeCSV = (value: string) =>
+  /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+export const exportVocabularyCSV = (words: VocabularyWord[]) => {
+  const header = ['Word', 'Lemma', 'Cloze', 'Context', 'Definition', 'Book', 'Added', 'Due'];
+  const rows = words
+    .filter((word) => !word.deletedAt)
+    .map((word) => {
+      const { before, answer, after } = getClozeParts(word);
+      return [
+        word.word,
+        word.lemma,
+        `${before}{{c1::${answer}}}${after}`,
+        word.context,
+        word.definition ?? '',
+        word.bookTitle ?? '',
+        new Date(word.createdAt).toISOString(),
+        new Date(word.dueAt).toISOString(),
+      ];
+    });
+  return [header, ...rows].map((row) => row.map(escapeCSV).join(',')).join('\r\n') + '\r\n';
+};
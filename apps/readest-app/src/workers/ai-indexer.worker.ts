@@ -0,0 +1,54 @@
+import { splitText } from '../services/ai/utils/chunker';
+import { buildBM25Index, scoreVectors, VectorSet } from '../services/ai/utils/indexer';
+import {
+  IndexerWorkerRequest,
+  IndexerWorkerResponse,
+} from '../services/ai/utils/indexer-worker-protocol';
+
+const workerContext: DedicatedWorkerGlobalScope = self as unknown as DedicatedWorkerGlobalScope;
+
+// vectors stay in the worker between searches so they are only transferred once per book
+const vectorSets = new Map<string, VectorSet>();
+
+const handleRequest = (request: IndexerWorkerRequest) => {
+  switch (request.type) {
+    case 'split':
+      return splitText(request.payload.text, request.payload.options);
+    case 'build-bm25':
+      return buildBM25Index(request.payload.documents);
+    case 'load-vectors':
+      vectorSets.set(request.payload.bookHash, request.payload.set);
+      return null;
+    case 'unload-vectors':
+      vectorSets.delete(request.payload.bookHash);
+      return null;
+    case 'score': {
+      const { bookHash, query, topK, maxPage } = request.payload;
+      const set = vectorSets.get(bookHash);
+      return set ? scoreVectors(set, query, topK, maxPage) : null;
+    }
+  }
+};
+
+workerContext.onmessage = (event: MessageEvent<IndexerWorkerRequest>) => {
+  const { id } = event.data;
+  try {
+    const response: IndexerWorkerResponse = {
+      id,
+      type: 'success',
+      payload: handleRequest(event.data),
+    };
+    workerContext.postMessage(response);
+  } catch (error) {
+    const response: IndexerWorkerResponse = {
+      id,
+      type: 'error',
+      payload: {
+        message: error instanceof Error ? error.message : String(error),
+      },
+    };
+    workerContext.postMessage(response);
+  }
+};
+
+export {};
@@ -39,6 +39,7 @@ CREATE TABLE public.book_configs (
   progress jsonb NULL,
   search_config jsonb NULL,
   view_settings jsonb NULL,
+  fields_updated_at jsonb NULL,
   created_at timestamp with time zone NULL DEFAULT now(),
   updated_at timestamp with time zone NULL DEFAULT now(),
   deleted_at timestamp with time zone NULL,
@@ -77,6 +78,61 @@ CREATE POLICY insert_book_notes ON public.book_notes FOR INSERT TO authenticated
 CREATE POLICY update_book_notes ON public.book_notes FOR UPDATE TO authenticated USING ((SELECT auth.uid()) = user_id);
 CREATE POLICY delete_book_notes ON public.book_notes FOR DELETE TO authenticated USING ((SELECT auth.uid()) = user_id);
 
+CREATE TABLE public.reading_sessions (
+  user_id uuid NOT NULL,
+  book_hash text NOT NULL,
+  meta_hash text NULL,
+  id text NOT NULL,
+  started_at timestamp with time zone NULL,
+  ended_at timestamp with time zone NULL,
+  duration integer NULL,
+  pages_read integer NULL,
+  start_page integer NULL,
+  end_page integer NULL,
+  total_pages integer NULL,
+  created_at timestamp with time zone NULL DEFAULT now(),
+  updated_at timestamp with time zone NULL DEFAULT now(),
+  deleted_at timestamp with time zone NULL,
+  CONSTRAINT reading_sessions_pkey PRIMARY KEY (user_id, book_hash, id),
+  CONSTRAINT reading_sessions_user_id_fkey FOREIGN KEY (user_id) REFERENCES auth.users (id) ON DELETE CASCADE
+);
+
+ALTER TABLE public.reading_sessions ENABLE ROW LEVEL SECURITY;
+CREATE POLICY select_reading_sessions ON public.reading_sessions FOR SELECT TO authenticated USING ((SELECT auth.uid()) = user_id);
+CREATE POLICY insert_reading_sessions ON public.reading_sessions FOR INSERT TO authenticated WITH CHECK ((SELECT auth.uid()) = user_id);
+CREATE POLICY update_reading_sessions ON public.reading_sessions FOR UPDATE TO authenticated USING ((SELECT auth.uid()) = user_id);
+CREATE POLICY delete_reading_sessions ON public.reading_sessions FOR DELETE TO authenticated USING ((SELECT auth.uid()) = user_id);
+
+CREATE TABLE public.vocabulary_words (
+  user_id uuid NOT NULL,
+  book_hash text NOT NULL,
+  meta_hash text NULL,
+  id text NOT NULL,
+  word text NULL,
+  lemma text NULL,
+  context text NULL,
+  cfi text NULL,
+  lang text NULL,
+  book_title text NULL,
+  definition text NULL,
+  repetitions integer NULL,
+  interval integer NULL,
+  ease_factor real NULL,
+  due_at timestamp with time zone NULL,
+  reviewed_at timestamp with time zone NULL,
+  created_at timestamp with time zone NULL DEFAULT now(),
+  updated_at timestamp with time zone NULL DEFAULT now(),
+  deleted_at timestamp with time zone NULL,
+  CONSTRAINT vocabulary_words_pkey PRIMARY KEY (user_id, book_hash, id),
+  CONSTRAINT vocabulary_words_user_id_fkey FOREIGN KEY (user_id) REFERENCES auth.users (id) ON DELETE CASCADE
+);
+
+ALTER TABLE public.vocabulary_words ENABLE ROW LEVEL SECURITY;
+CREATE POLICY select_vocabulary_words ON public.vocabulary_words FOR SELECT TO authenticated USING ((SELECT auth.uid()) = user_id);
+CREATE POLICY insert_vocabulary_words ON public.vocabulary_words FOR INSERT TO authenticated WITH CHECK ((SELECT auth.uid()) = user_id);
+CREATE POLICY update_vocabulary_words ON public.vocabulary_words FOR UPDATE TO authenticated USING ((SELECT auth.uid()) = user_id);
+CREATE POLICY delete_vocabulary_words ON public.vocabulary_words FOR DELETE TO authenticated USING ((SELECT auth.uid()) = user_id);
+
 CREATE TABLE public.files (
   id uuid NOT NULL DEFAULT gen_random_uuid(),
   user_id uuid NOT NULL,
@@ -103,4 +159,6 @@ CREATE POLICY files_delete ON public.files FOR DELETE USING (auth.uid() = user_i
 GRANT ALL ON public.books TO authenticated;
 GRANT ALL ON public.book_configs TO authenticated;
 GRANT ALL ON public.book_notes TO authenticated;
+GRANT ALL ON public.reading_sessions TO authenticated;
+GRANT ALL ON public.vocabulary_words TO authenticated;
 GRANT ALL ON public.files TO authenticated;
\ No newline at end of file